@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Account` ADD COLUMN `archivedAt` DATETIME(3) NULL;
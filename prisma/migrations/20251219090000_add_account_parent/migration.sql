@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `Account` ADD COLUMN `parentId` VARCHAR(191) NULL;
+
+-- AddForeignKey
+ALTER TABLE `Account` ADD CONSTRAINT `Account_parentId_fkey` FOREIGN KEY (`parentId`) REFERENCES `Account`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
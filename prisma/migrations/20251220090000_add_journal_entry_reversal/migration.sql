@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE `JournalEntry` ADD COLUMN `reversesEntryId` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `JournalEntry_reversesEntryId_key` ON `JournalEntry`(`reversesEntryId`);
+
+-- AddForeignKey
+ALTER TABLE `JournalEntry` ADD CONSTRAINT `JournalEntry_reversesEntryId_fkey` FOREIGN KEY (`reversesEntryId`) REFERENCES `JournalEntry`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `DepositApplication` (
+    `id` VARCHAR(191) NOT NULL,
+    `depositId` VARCHAR(191) NOT NULL,
+    `invoiceId` VARCHAR(191) NOT NULL,
+    `amount` DECIMAL(65, 30) NOT NULL,
+    `date` DATETIME(3) NOT NULL,
+    `journalEntryId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `DepositApplication_journalEntryId_key`(`journalEntryId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `DepositApplication` ADD CONSTRAINT `DepositApplication_depositId_fkey` FOREIGN KEY (`depositId`) REFERENCES `CustomerDeposit`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `DepositApplication` ADD CONSTRAINT `DepositApplication_invoiceId_fkey` FOREIGN KEY (`invoiceId`) REFERENCES `SalesInvoice`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `DepositApplication` ADD CONSTRAINT `DepositApplication_journalEntryId_fkey` FOREIGN KEY (`journalEntryId`) REFERENCES `JournalEntry`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE `BillPayment` (
+    `id` VARCHAR(191) NOT NULL,
+    `billId` VARCHAR(191) NOT NULL,
+    `amount` DECIMAL(65, 30) NOT NULL,
+    `date` DATETIME(3) NOT NULL,
+    `method` ENUM('Cash', 'Check', 'CreditCard', 'BankTransfer') NOT NULL,
+    `reference` VARCHAR(191) NULL,
+    `journalEntryId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `BillPayment_journalEntryId_key`(`journalEntryId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `BillPayment` ADD CONSTRAINT `BillPayment_billId_fkey` FOREIGN KEY (`billId`) REFERENCES `VendorBill`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `BillPayment` ADD CONSTRAINT `BillPayment_journalEntryId_fkey` FOREIGN KEY (`journalEntryId`) REFERENCES `JournalEntry`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `Loan` ADD COLUMN `date` DATETIME(3) NULL,
+    ADD COLUMN `journalEntryId` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `Loan_journalEntryId_key` ON `Loan`(`journalEntryId`);
+
+-- AddForeignKey
+ALTER TABLE `Loan` ADD CONSTRAINT `Loan_journalEntryId_fkey` FOREIGN KEY (`journalEntryId`) REFERENCES `JournalEntry`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE `PostingMapping` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `role` ENUM('Cash', 'AccountsReceivable', 'AccountsPayable', 'NotesPayable', 'UnearnedRevenue', 'DefaultRevenue', 'DefaultExpense', 'InterestExpense') NOT NULL,
+    `accountId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `PostingMapping_userId_role_key`(`userId`, `role`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PostingMapping` ADD CONSTRAINT `PostingMapping_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PostingMapping` ADD CONSTRAINT `PostingMapping_accountId_fkey` FOREIGN KEY (`accountId`) REFERENCES `Account`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
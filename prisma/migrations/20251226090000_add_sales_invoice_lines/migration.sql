@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE `SalesInvoiceLine` (
+    `id` VARCHAR(191) NOT NULL,
+    `invoiceId` VARCHAR(191) NOT NULL,
+    `lineNumber` INTEGER NOT NULL,
+    `description` VARCHAR(191) NOT NULL,
+    `quantity` DECIMAL(65, 30) NOT NULL,
+    `unitPrice` DECIMAL(65, 30) NOT NULL,
+    `amount` DECIMAL(65, 30) NOT NULL,
+    `revenueAccountId` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `SalesInvoiceLine_invoiceId_lineNumber_key`(`invoiceId`, `lineNumber`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `SalesInvoiceLine` ADD CONSTRAINT `SalesInvoiceLine_invoiceId_fkey` FOREIGN KEY (`invoiceId`) REFERENCES `SalesInvoice`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SalesInvoiceLine` ADD CONSTRAINT `SalesInvoiceLine_revenueAccountId_fkey` FOREIGN KEY (`revenueAccountId`) REFERENCES `Account`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
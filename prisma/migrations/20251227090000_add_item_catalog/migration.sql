@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE `SalesInvoiceLine` ADD COLUMN `itemId` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `VendorBill` ADD COLUMN `itemId` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `Item` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `sku` VARCHAR(191) NOT NULL,
+    `defaultPrice` DECIMAL(65, 30) NULL,
+    `revenueAccountId` VARCHAR(191) NULL,
+    `expenseAccountId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `Item_userId_sku_key`(`userId`, `sku`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `Item` ADD CONSTRAINT `Item_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Item` ADD CONSTRAINT `Item_revenueAccountId_fkey` FOREIGN KEY (`revenueAccountId`) REFERENCES `Account`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Item` ADD CONSTRAINT `Item_expenseAccountId_fkey` FOREIGN KEY (`expenseAccountId`) REFERENCES `Account`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SalesInvoiceLine` ADD CONSTRAINT `SalesInvoiceLine_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `VendorBill` ADD CONSTRAINT `VendorBill_itemId_fkey` FOREIGN KEY (`itemId`) REFERENCES `Item`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
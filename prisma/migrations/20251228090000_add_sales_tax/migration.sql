@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE `SalesInvoiceLine` ADD COLUMN `taxRateId` VARCHAR(191) NULL,
+    ADD COLUMN `taxAmount` DECIMAL(65, 30) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE `TaxRate` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `rate` DECIMAL(65, 30) NOT NULL,
+    `accountId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `TaxRate_userId_name_key`(`userId`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `TaxRate` ADD CONSTRAINT `TaxRate_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `TaxRate` ADD CONSTRAINT `TaxRate_accountId_fkey` FOREIGN KEY (`accountId`) REFERENCES `Account`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `SalesInvoiceLine` ADD CONSTRAINT `SalesInvoiceLine_taxRateId_fkey` FOREIGN KEY (`taxRateId`) REFERENCES `TaxRate`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE `SalesInvoice` MODIFY `status` ENUM('Draft', 'Issued', 'PartiallyPaid', 'Paid', 'Overdue', 'Void') NOT NULL DEFAULT 'Draft';
+
+-- CreateTable
+CREATE TABLE `CreditNote` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `invoiceId` VARCHAR(191) NOT NULL,
+    `creditNoteNumber` VARCHAR(191) NOT NULL,
+    `amount` DECIMAL(65, 30) NOT NULL,
+    `date` DATETIME(3) NOT NULL,
+    `reason` VARCHAR(191) NULL,
+    `revenueAccountId` VARCHAR(191) NOT NULL,
+    `journalEntryId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `CreditNote_journalEntryId_key`(`journalEntryId`),
+    UNIQUE INDEX `CreditNote_userId_creditNoteNumber_key`(`userId`, `creditNoteNumber`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `CreditNote` ADD CONSTRAINT `CreditNote_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `CreditNote` ADD CONSTRAINT `CreditNote_invoiceId_fkey` FOREIGN KEY (`invoiceId`) REFERENCES `SalesInvoice`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `CreditNote` ADD CONSTRAINT `CreditNote_revenueAccountId_fkey` FOREIGN KEY (`revenueAccountId`) REFERENCES `Account`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `CreditNote` ADD CONSTRAINT `CreditNote_journalEntryId_fkey` FOREIGN KEY (`journalEntryId`) REFERENCES `JournalEntry`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
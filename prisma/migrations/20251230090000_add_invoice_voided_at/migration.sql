@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE `SalesInvoice` ADD COLUMN `voidedAt` DATETIME(3) NULL;
+
+-- Backfill: invoices voided before the column existed take the date of the entry that reversed them
+UPDATE `SalesInvoice` `invoice`
+JOIN `JournalEntry` `reversal` ON `reversal`.`reversesEntryId` = `invoice`.`journalEntryId`
+SET `invoice`.`voidedAt` = `reversal`.`date`
+WHERE `invoice`.`status` = 'Void';
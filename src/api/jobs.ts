@@ -0,0 +1,16 @@
+import { scheduleJob, systemClock, Clock, ScheduledJob } from '@/common/infrastructure/scheduler'
+import { markOverdueInvoicesWorkflow } from '@/bounded-contexts/sales/application/markOverdueInvoicesWorkflow'
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Start the background jobs that run in‑process alongside the API, each run once right away.
+ * - mark-overdue-invoices (hourly): moves open invoices past their due date to Overdue
+ */
+export const startScheduledJobs = (clock: Clock = systemClock): ScheduledJob[] => {
+  const jobs = [
+    scheduleJob('mark-overdue-invoices', HOUR_MS, (now) => markOverdueInvoicesWorkflow({ asOf: now }), clock),
+  ]
+  jobs.forEach((job) => void job.runNow())
+  return jobs
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+import { sendErrorResponse } from '@/common/infrastructure/errorMapper'
+
+// Request header selecting whose books a collaborator is working in
+export const BOOK_OWNER_HEADER = 'X-Book-Owner-Id'
+
+/**
+ * Express middleware that resolves which user's books the request acts on.
+ * Without the header a user works in their own books. With it, the session user must be
+ * a collaborator on the owner's books (any role may read; workflows check write permissions).
+ * On success res.locals.userId is the book owner, which every repository scopes by, and
+ * res.locals.actingUserId is the session user. Must run after requireSession.
+ */
+export const requireBookAccess = async (req: any, res: any, next: any): Promise<void> => {
+  const actingUserId: string = res.locals.userId
+  const requestedOwnerId = req.get(BOOK_OWNER_HEADER)
+  const ownerId = typeof requestedOwnerId === 'string' && requestedOwnerId.trim() !== ''
+    ? requestedOwnerId.trim()
+    : actingUserId
+
+  try {
+    const result = await authorizeBookActionWorkflow({ actingUserId, ownerId, action: 'ViewBooks' })
+    if (!result.isSuccess) {
+      sendErrorResponse(res, result.error)
+      return
+    }
+
+    res.locals.userId = ownerId
+    res.locals.actingUserId = actingUserId
+    next()
+  } catch (error: any) {
+    sendErrorResponse(res, {
+      type: 'InfrastructureFailure',
+      subtype: 'UnexpectedError',
+      message: error?.message || 'An unexpected error occurred',
+      originalError: error
+    })
+  }
+}
@@ -0,0 +1,57 @@
+import { authenticateSessionWorkflow } from '@/bounded-contexts/identity/application/authenticateSessionWorkflow'
+import { SESSION_IDLE_TIMEOUT_MS } from '@/bounded-contexts/identity/domain/session'
+import { sendErrorResponse } from '@/common/infrastructure/errorMapper'
+
+export const SESSION_COOKIE_NAME = 'session'
+
+/**
+ * Cookie options for the session cookie.
+ * The browser-side lifetime mirrors the server-side idle timeout.
+ */
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  maxAge: SESSION_IDLE_TIMEOUT_MS,
+  path: '/'
+}
+
+/**
+ * Express middleware that resolves the current user from the session cookie.
+ * On success the acting user's ID is stored in res.locals.userId and the cookie is refreshed;
+ * otherwise the request is rejected with 401 before reaching the route handler.
+ * Requires cookie-parser to be registered before it.
+ */
+export const requireSession = async (req: any, res: any, next: any): Promise<void> => {
+  const sessionId = req.cookies?.[SESSION_COOKIE_NAME]
+
+  if (!sessionId || typeof sessionId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'Unauthenticated',
+      message: 'Authentication required. Please log in.'
+    })
+    return
+  }
+
+  try {
+    const result = await authenticateSessionWorkflow(sessionId)
+    if (!result.isSuccess) {
+      res.clearCookie(SESSION_COOKIE_NAME, { path: '/' })
+      sendErrorResponse(res, result.error)
+      return
+    }
+
+    res.cookie(SESSION_COOKIE_NAME, sessionId, sessionCookieOptions)
+    res.locals.userId = result.value.userId
+    res.locals.sessionId = sessionId
+    next()
+  } catch (error: any) {
+    sendErrorResponse(res, {
+      type: 'InfrastructureFailure',
+      subtype: 'UnexpectedError',
+      message: error?.message || 'An unexpected error occurred',
+      originalError: error
+    })
+  }
+}
@@ -26,6 +26,7 @@ describe('Identity Context: API Routes (Integration)', () => {
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -34,6 +35,8 @@ describe('Identity Context: API Routes (Integration)', () => {
     await prisma.$disconnect()
   })
 
+  const password = 'valid_pass_123'
+
   describe('POST /api/users', () => {
     it('should create a user with valid username', async () => {
       expect.assertions(4)
@@ -42,7 +45,7 @@ describe('Identity Context: API Routes (Integration)', () => {
       
       const response = await request(app)
         .post('/api/users')
-        .send({ username })
+        .send({ username, password })
         .expect(201)
 
       expect(response.body.user.username).toBe(username)
@@ -62,7 +65,7 @@ describe('Identity Context: API Routes (Integration)', () => {
       
       const response = await request(app)
         .post('/api/users')
-        .send({ username: inputUsername })
+        .send({ username: inputUsername, password })
         .expect(201)
 
       expect(response.body.user.username).toBe(expectedUsername)
@@ -85,7 +88,7 @@ describe('Identity Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/users')
-        .send({ username: 123 })
+        .send({ username: 123, password })
         .expect(400)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
@@ -99,7 +102,7 @@ describe('Identity Context: API Routes (Integration)', () => {
       
       const response = await request(app)
         .post('/api/users')
-        .send({ username: invalidUsername })
+        .send({ username: invalidUsername, password })
         .expect(400)
 
       expect(response.body.error.type).toBe('DomainFailure')
@@ -113,7 +116,7 @@ describe('Identity Context: API Routes (Integration)', () => {
       
       const response = await request(app)
         .post('/api/users')
-        .send({ username: invalidUsername })
+        .send({ username: invalidUsername, password })
         .expect(400)
 
       expect(response.body.error.type).toBe('DomainFailure')
@@ -127,12 +130,51 @@ describe('Identity Context: API Routes (Integration)', () => {
       
       const response = await request(app)
         .post('/api/users')
-        .send({ username: invalidUsername })
+        .send({ username: invalidUsername, password })
         .expect(400)
 
       expect(response.body.error.type).toBe('DomainFailure')
     })
 
+    it('should reject missing password', async () => {
+      expect.assertions(2)
+
+      const response = await request(app)
+        .post('/api/users')
+        .send({ username: 'no_password_user' })
+        .expect(400)
+
+      expect(response.body.error.type).toBe('ApplicationFailure')
+      expect(response.body.error.message).toMatch(/Password is required/)
+    })
+
+    it('should reject a weak password with WeakPassword', async () => {
+      expect.assertions(3)
+
+      const response = await request(app)
+        .post('/api/users')
+        .send({ username: 'weak_password_user', password: 'short' })
+        .expect(400)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('WeakPassword')
+
+      const dbUser = await prisma.user.findUnique({ where: { username: 'weak_password_user' } })
+      expect(dbUser).toBeNull()
+    })
+
+    it('should never return the password hash', async () => {
+      expect.assertions(2)
+
+      const response = await request(app)
+        .post('/api/users')
+        .send({ username: 'hash_hidden_user', password })
+        .expect(201)
+
+      expect(response.body.user.passwordHash).toBeUndefined()
+      expect(JSON.stringify(response.body)).not.toContain('scrypt')
+    })
+
     it('should return 409 when trying to create a duplicate username', async () => {
       expect.assertions(2)
 
@@ -141,13 +183,13 @@ describe('Identity Context: API Routes (Integration)', () => {
       // Create first user
       await request(app)
         .post('/api/users')
-        .send({ username })
+        .send({ username, password })
         .expect(201)
 
       // Try to create duplicate
       const response = await request(app)
         .post('/api/users')
-        .send({ username })
+        .send({ username, password })
         .expect(409)
 
       expect(response.body.error.type).toBe('InfrastructureFailure')
@@ -155,6 +197,730 @@ describe('Identity Context: API Routes (Integration)', () => {
     })
   })
 
+  describe('POST /api/login', () => {
+    it('should start a session and set an httpOnly session cookie', async () => {
+      expect.assertions(5)
+
+      const username = 'login_user'
+      await request(app).post('/api/users').send({ username, password }).expect(201)
+
+      const response = await request(app)
+        .post('/api/login')
+        .send({ username: 'Login_User', password })
+        .expect(200)
+
+      expect(response.body.user.username).toBe(username)
+      expect(response.body.message).toBe('Logged in successfully')
+
+      const setCookie = String(response.headers['set-cookie'])
+      expect(setCookie).toMatch(/session=/)
+      expect(setCookie).toMatch(/HttpOnly/)
+
+      // Verify session persisted
+      const sessions = await prisma.session.findMany({ where: { userId: response.body.user.id } })
+      expect(sessions).toHaveLength(1)
+    })
+
+    it('should reject an unknown username with 401', async () => {
+      expect.assertions(2)
+
+      const response = await request(app)
+        .post('/api/login')
+        .send({ username: 'nobody_here', password })
+        .expect(401)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('InvalidCredentials')
+    })
+
+    it('should reject a wrong password with 401 InvalidCredentials', async () => {
+      expect.assertions(3)
+
+      await request(app).post('/api/users').send({ username: 'wrong_pass_user', password }).expect(201)
+
+      const response = await request(app)
+        .post('/api/login')
+        .send({ username: 'wrong_pass_user', password: 'not_the_password_1' })
+        .expect(401)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('InvalidCredentials')
+      expect(response.headers['set-cookie']).toBeUndefined()
+    })
+
+    it('should reject missing password', async () => {
+      expect.assertions(2)
+
+      const response = await request(app)
+        .post('/api/login')
+        .send({ username: 'login_user' })
+        .expect(400)
+
+      expect(response.body.error.type).toBe('ApplicationFailure')
+      expect(response.body.error.message).toMatch(/Password is required/)
+    })
+
+    it('should reject missing username', async () => {
+      expect.assertions(2)
+
+      const response = await request(app)
+        .post('/api/login')
+        .send({})
+        .expect(400)
+
+      expect(response.body.error.type).toBe('ApplicationFailure')
+      expect(response.body.error.subtype).toBe('MissingField')
+    })
+
+    it('should let the session cookie authenticate context routes', async () => {
+      expect.assertions(1)
+
+      await request(app).post('/api/users').send({ username: 'cookie_user', password }).expect(201)
+      const login = await request(app).post('/api/login').send({ username: 'cookie_user', password }).expect(200)
+      const cookie = String(login.headers['set-cookie']).split(';')[0]
+
+      const response = await request(app)
+        .get('/api/ledger/accounts')
+        .set('Cookie', cookie)
+        .expect(200)
+
+      // Default chart of accounts created with the user
+      expect(response.body.count).toBeGreaterThan(0)
+    })
+  })
+
+  describe('POST /api/users/:id/password', () => {
+    // Registers a user, logs in and returns the user ID and session cookie
+    const registerAndLogin = async (username: string) => {
+      const created = await request(app).post('/api/users').send({ username, password }).expect(201)
+      const login = await request(app).post('/api/login').send({ username, password }).expect(200)
+      return { userId: created.body.user.id, cookie: String(login.headers['set-cookie']).split(';')[0] }
+    }
+
+    it('should change the password so only the new one logs in', async () => {
+      expect.assertions(1)
+
+      const { userId, cookie } = await registerAndLogin('change_pass_user')
+
+      const response = await request(app)
+        .post(`/api/users/${userId}/password`)
+        .set('Cookie', cookie)
+        .send({ currentPassword: password, newPassword: 'brand_new_pass_9' })
+        .expect(200)
+
+      expect(response.body.message).toBe('Password changed successfully')
+
+      await request(app).post('/api/login').send({ username: 'change_pass_user', password }).expect(401)
+      await request(app).post('/api/login').send({ username: 'change_pass_user', password: 'brand_new_pass_9' }).expect(200)
+    })
+
+    it('should reject a wrong current password with InvalidCredentials', async () => {
+      expect.assertions(2)
+
+      const { userId, cookie } = await registerAndLogin('wrong_current_user')
+
+      const response = await request(app)
+        .post(`/api/users/${userId}/password`)
+        .set('Cookie', cookie)
+        .send({ currentPassword: 'not_the_password_1', newPassword: 'brand_new_pass_9' })
+        .expect(401)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('InvalidCredentials')
+    })
+
+    it('should reject a weak new password with WeakPassword', async () => {
+      expect.assertions(2)
+
+      const { userId, cookie } = await registerAndLogin('weak_new_user')
+
+      const response = await request(app)
+        .post(`/api/users/${userId}/password`)
+        .set('Cookie', cookie)
+        .send({ currentPassword: password, newPassword: 'weak' })
+        .expect(400)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('WeakPassword')
+    })
+
+    it('should not allow changing another user\'s password', async () => {
+      expect.assertions(1)
+
+      const other = await registerAndLogin('other_pass_user')
+      const { cookie } = await registerAndLogin('acting_pass_user')
+
+      const response = await request(app)
+        .post(`/api/users/${other.userId}/password`)
+        .set('Cookie', cookie)
+        .send({ currentPassword: password, newPassword: 'brand_new_pass_9' })
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('UserNotFound')
+    })
+
+    it('should require a session', async () => {
+      expect.assertions(1)
+
+      const response = await request(app)
+        .post('/api/users/some-id/password')
+        .send({ currentPassword: password, newPassword: 'brand_new_pass_9' })
+        .expect(401)
+
+      expect(response.body.error.subtype).toBe('Unauthenticated')
+    })
+  })
+
+  describe('POST /api/users/:id/reset', () => {
+    // Registers a user (with the default Chart of Accounts), logs in and returns the user ID and session cookie
+    const registerAndLogin = async (username: string) => {
+      const created = await request(app).post('/api/users').send({ username, password }).expect(201)
+      const login = await request(app).post('/api/login').send({ username, password }).expect(200)
+      return { userId: created.body.user.id, cookie: String(login.headers['set-cookie']).split(';')[0] }
+    }
+
+    // Posts a balanced entry and creates a period through the API
+    const postActivity = async (cookie: string) => {
+      const accounts = await request(app).get('/api/ledger/accounts').set('Cookie', cookie).expect(200)
+      const accountId = (code: string) => accounts.body.accounts.find((a: any) => a.code === code).id
+      await request(app)
+        .post('/api/ledger/journal-entries')
+        .set('Cookie', cookie)
+        .send({
+          description: 'Owner investment',
+          date: '2025-01-02T00:00:00Z',
+          lines: [
+            { accountId: accountId('101'), amount: 1000, side: 'Debit' },
+            { accountId: accountId('301'), amount: 1000, side: 'Credit' }
+          ]
+        })
+        .expect(201)
+      await request(app)
+        .post('/api/period-close/periods')
+        .set('Cookie', cookie)
+        .send({ name: 'January 2025', startDate: '2025-01-01T00:00:00Z', endDate: '2025-01-31T23:59:59Z' })
+        .expect(201)
+    }
+
+    it('should wipe entries and periods but keep customized accounts by default', async () => {
+      expect.assertions(5)
+
+      const { userId, cookie } = await registerAndLogin('trainer_user')
+      await postActivity(cookie)
+      await prisma.account.updateMany({ where: { userId, code: '101' }, data: { name: 'Checking Account' } })
+
+      const response = await request(app)
+        .post(`/api/users/${userId}/reset`)
+        .set('Cookie', cookie)
+        .send({})
+        .expect(200)
+
+      expect(response.body.message).toBe('User data reset successfully')
+      expect(response.body.reset).toMatchObject({ accountMode: 'keep', journalEntries: 1, periods: 1 })
+      expect(await prisma.journalEntry.count({ where: { userId } })).toBe(0)
+      expect(await prisma.period.count({ where: { userId } })).toBe(0)
+      const cash = await prisma.account.findFirst({ where: { userId, code: '101' } })
+      expect(cash?.name).toBe('Checking Account')
+    })
+
+    it('should restore the default accounts when accounts is restore', async () => {
+      expect.assertions(2)
+
+      const { userId, cookie } = await registerAndLogin('trainer_user')
+      await prisma.account.updateMany({ where: { userId, code: '101' }, data: { name: 'Checking Account' } })
+
+      const response = await request(app)
+        .post(`/api/users/${userId}/reset`)
+        .set('Cookie', cookie)
+        .send({ accounts: 'restore' })
+        .expect(200)
+
+      expect(response.body.reset.accountMode).toBe('restore')
+      const cash = await prisma.account.findFirst({ where: { userId, code: '101' } })
+      expect(cash?.name).toBe('Cash')
+    })
+
+    it('should reject an invalid accounts mode', async () => {
+      expect.assertions(1)
+
+      const { userId, cookie } = await registerAndLogin('trainer_user')
+
+      const response = await request(app)
+        .post(`/api/users/${userId}/reset`)
+        .set('Cookie', cookie)
+        .send({ accounts: 'delete' })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('InvalidAccountResetMode')
+    })
+
+    it('should not reset another user\'s books', async () => {
+      expect.assertions(2)
+
+      const other = await registerAndLogin('other_trainer')
+      await postActivity(other.cookie)
+      const { cookie } = await registerAndLogin('trainer_user')
+
+      const response = await request(app)
+        .post(`/api/users/${other.userId}/reset`)
+        .set('Cookie', cookie)
+        .send({})
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('UserNotFound')
+      expect(await prisma.journalEntry.count({ where: { userId: other.userId } })).toBe(1)
+    })
+
+    it('should require a session', async () => {
+      expect.assertions(1)
+
+      const response = await request(app)
+        .post('/api/users/some-id/reset')
+        .send({})
+        .expect(401)
+
+      expect(response.body.error.subtype).toBe('Unauthenticated')
+    })
+  })
+
+  describe('User directory and profile', () => {
+    // Registers a user, logs in and returns the user ID and session cookie
+    const registerAndLogin = async (username: string) => {
+      const created = await request(app).post('/api/users').send({ username, password }).expect(201)
+      const login = await request(app).post('/api/login').send({ username, password }).expect(200)
+      return { userId: created.body.user.id, cookie: String(login.headers['set-cookie']).split(';')[0] }
+    }
+
+    it('should list users a page at a time with the total count', async () => {
+      expect.assertions(4)
+
+      const { cookie } = await registerAndLogin('alice')
+      await registerAndLogin('bob')
+      await registerAndLogin('carol')
+
+      const response = await request(app)
+        .get('/api/users?skip=1&take=1')
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.users.map((u: any) => u.username)).toEqual(['bob'])
+      expect(response.body.count).toBe(3)
+      expect(response.body.skip).toBe(1)
+      expect(response.body.take).toBe(1)
+    })
+
+    it('should filter users by partial username and cap take at 100', async () => {
+      expect.assertions(3)
+
+      const { cookie } = await registerAndLogin('alice')
+      await registerAndLogin('alicia')
+      await registerAndLogin('bob')
+
+      const response = await request(app)
+        .get('/api/users?username=ALI&take=500')
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.users.map((u: any) => u.username)).toEqual(['alice', 'alicia'])
+      expect(response.body.count).toBe(2)
+      expect(response.body.take).toBe(100)
+    })
+
+    it('should get a user by ID without the password hash', async () => {
+      expect.assertions(3)
+
+      const { cookie } = await registerAndLogin('alice')
+      const bob = await registerAndLogin('bob')
+
+      const response = await request(app)
+        .get(`/api/users/${bob.userId}`)
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.user.username).toBe('bob')
+      expect(response.body.user.deactivatedAt).toBeNull()
+      expect(response.body.user.passwordHash).toBeUndefined()
+    })
+
+    it('should return 404 for an unknown user ID', async () => {
+      expect.assertions(1)
+
+      const { cookie } = await registerAndLogin('alice')
+
+      const response = await request(app)
+        .get('/api/users/550e8400-e29b-41d4-a716-446655440000')
+        .set('Cookie', cookie)
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('UserNotFound')
+    })
+
+    it('should change the username and keep the password working', async () => {
+      expect.assertions(2)
+
+      const { userId, cookie } = await registerAndLogin('alice')
+
+      const response = await request(app)
+        .patch(`/api/users/${userId}`)
+        .set('Cookie', cookie)
+        .send({ username: 'Alice_Smith' })
+        .expect(200)
+
+      expect(response.body.user.username).toBe('alice_smith')
+      const login = await request(app).post('/api/login').send({ username: 'alice_smith', password })
+      expect(login.status).toBe(200)
+    })
+
+    it('should reject an invalid or taken username', async () => {
+      expect.assertions(2)
+
+      await registerAndLogin('bob')
+      const { userId, cookie } = await registerAndLogin('alice')
+
+      const invalid = await request(app)
+        .patch(`/api/users/${userId}`)
+        .set('Cookie', cookie)
+        .send({ username: 'no spaces' })
+        .expect(400)
+      const taken = await request(app)
+        .patch(`/api/users/${userId}`)
+        .set('Cookie', cookie)
+        .send({ username: 'bob' })
+        .expect(409)
+
+      expect(invalid.body.error.subtype).toBe('InvalidUsername')
+      expect(taken.body.error.subtype).toBe('DuplicateKey')
+    })
+
+    it('should not update another user\'s profile', async () => {
+      expect.assertions(2)
+
+      const bob = await registerAndLogin('bob')
+      const { cookie } = await registerAndLogin('alice')
+
+      const response = await request(app)
+        .patch(`/api/users/${bob.userId}`)
+        .set('Cookie', cookie)
+        .send({ username: 'not_bob' })
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('UserNotFound')
+      const dbUser = await prisma.user.findUnique({ where: { id: bob.userId } })
+      expect(dbUser?.username).toBe('bob')
+    })
+
+    it('should require a session', async () => {
+      expect.assertions(1)
+
+      const response = await request(app)
+        .get('/api/users')
+        .expect(401)
+
+      expect(response.body.error.subtype).toBe('Unauthenticated')
+    })
+  })
+
+  describe('User deactivation', () => {
+    // Registers a user, logs in and returns the user ID and session cookie
+    const registerAndLogin = async (username: string) => {
+      const created = await request(app).post('/api/users').send({ username, password }).expect(201)
+      const login = await request(app).post('/api/login').send({ username, password }).expect(200)
+      return { userId: created.body.user.id, cookie: String(login.headers['set-cookie']).split(';')[0] }
+    }
+
+    // Posts a balanced entry through the API and returns the response
+    const postEntry = async (cookie: string) => {
+      const accounts = await request(app).get('/api/ledger/accounts').set('Cookie', cookie).expect(200)
+      const accountId = (code: string) => accounts.body.accounts.find((a: any) => a.code === code).id
+      return request(app)
+        .post('/api/ledger/journal-entries')
+        .set('Cookie', cookie)
+        .send({
+          description: 'Owner investment',
+          date: '2025-01-02T00:00:00Z',
+          lines: [
+            { accountId: accountId('101'), amount: 1000, side: 'Debit' },
+            { accountId: accountId('301'), amount: 1000, side: 'Credit' }
+          ]
+        })
+    }
+
+    it('should block posting but keep history readable', async () => {
+      expect.assertions(5)
+
+      const { userId, cookie } = await registerAndLogin('alice')
+      expect((await postEntry(cookie)).status).toBe(201)
+
+      const response = await request(app)
+        .post(`/api/users/${userId}/deactivate`)
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.user.deactivatedAt).toBeDefined()
+      const blocked = await postEntry(cookie)
+      expect(blocked.status).toBe(403)
+      expect(blocked.body.error.subtype).toBe('UserDeactivated')
+      const history = await request(app).get('/api/ledger/journal-entries').set('Cookie', cookie).expect(200)
+      expect(history.body.journalEntries).toHaveLength(1)
+    })
+
+    it('should let a user deactivate and reactivate themselves, in their own and shared books', async () => {
+      expect.assertions(6)
+
+      const owner = await registerAndLogin('owner_user')
+      const helper = await registerAndLogin('helper_user')
+      await request(app)
+        .post('/api/collaborators')
+        .set('Cookie', owner.cookie)
+        .send({ username: 'helper_user', role: 'Bookkeeper' })
+        .expect(201)
+      const postSharedEntry = async () => {
+        const accounts = await request(app)
+          .get('/api/ledger/accounts')
+          .set('Cookie', helper.cookie)
+          .set('X-Book-Owner-Id', owner.userId)
+          .expect(200)
+        const accountId = (code: string) => accounts.body.accounts.find((a: any) => a.code === code).id
+        return request(app)
+          .post('/api/ledger/journal-entries')
+          .set('Cookie', helper.cookie)
+          .set('X-Book-Owner-Id', owner.userId)
+          .send({
+            description: 'Owner investment',
+            date: '2025-01-02T00:00:00Z',
+            lines: [
+              { accountId: accountId('101'), amount: 1000, side: 'Debit' },
+              { accountId: accountId('301'), amount: 1000, side: 'Credit' }
+            ]
+          })
+      }
+
+      await request(app).post(`/api/users/${helper.userId}/deactivate`).set('Cookie', helper.cookie).expect(200)
+      expect((await postEntry(helper.cookie)).status).toBe(403)
+      expect((await postSharedEntry()).status).toBe(403)
+
+      const response = await request(app)
+        .post(`/api/users/${helper.userId}/reactivate`)
+        .set('Cookie', helper.cookie)
+        .expect(200)
+
+      expect(response.body.user.deactivatedAt).toBeNull()
+      expect((await postEntry(helper.cookie)).status).toBe(201)
+      expect((await postSharedEntry()).status).toBe(201)
+      expect(await prisma.journalEntry.count({ where: { userId: owner.userId } })).toBe(1)
+    })
+
+    it('should not reactivate another user, even a collaborator on your books', async () => {
+      expect.assertions(2)
+
+      const owner = await registerAndLogin('owner_user')
+      const helper = await registerAndLogin('helper_user')
+      await request(app)
+        .post('/api/collaborators')
+        .set('Cookie', owner.cookie)
+        .send({ username: 'helper_user', role: 'Bookkeeper' })
+        .expect(201)
+      await request(app).post(`/api/users/${helper.userId}/deactivate`).set('Cookie', helper.cookie).expect(200)
+
+      const response = await request(app)
+        .post(`/api/users/${helper.userId}/reactivate`)
+        .set('Cookie', owner.cookie)
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('UserNotFound')
+      const dbUser = await prisma.user.findUnique({ where: { id: helper.userId } })
+      expect(dbUser?.deactivatedAt).not.toBeNull()
+    })
+
+    it('should block a deactivated collaborator from posting into shared books', async () => {
+      expect.assertions(2)
+
+      const owner = await registerAndLogin('owner_user')
+      const helper = await registerAndLogin('helper_user')
+      await request(app)
+        .post('/api/collaborators')
+        .set('Cookie', owner.cookie)
+        .send({ username: 'helper_user', role: 'Bookkeeper' })
+        .expect(201)
+      await request(app).post(`/api/users/${helper.userId}/deactivate`).set('Cookie', helper.cookie).expect(200)
+
+      const accounts = await request(app)
+        .get('/api/ledger/accounts')
+        .set('Cookie', helper.cookie)
+        .set('X-Book-Owner-Id', owner.userId)
+        .expect(200)
+      const accountId = (code: string) => accounts.body.accounts.find((a: any) => a.code === code).id
+      const response = await request(app)
+        .post('/api/ledger/journal-entries')
+        .set('Cookie', helper.cookie)
+        .set('X-Book-Owner-Id', owner.userId)
+        .send({
+          description: 'Owner investment',
+          date: '2025-01-02T00:00:00Z',
+          lines: [
+            { accountId: accountId('101'), amount: 1000, side: 'Debit' },
+            { accountId: accountId('301'), amount: 1000, side: 'Credit' }
+          ]
+        })
+        .expect(403)
+
+      expect(response.body.error.subtype).toBe('UserDeactivated')
+      expect(await prisma.journalEntry.count({ where: { userId: owner.userId } })).toBe(0)
+    })
+
+    it('should not deactivate another user', async () => {
+      expect.assertions(2)
+
+      const bob = await registerAndLogin('bob')
+      const { cookie } = await registerAndLogin('alice')
+
+      const response = await request(app)
+        .post(`/api/users/${bob.userId}/deactivate`)
+        .set('Cookie', cookie)
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('UserNotFound')
+      const dbUser = await prisma.user.findUnique({ where: { id: bob.userId } })
+      expect(dbUser?.deactivatedAt).toBeNull()
+    })
+  })
+
+  describe('Collaborators', () => {
+    // Creates a user directly and returns its ID and a session cookie
+    const createLoggedInUser = async (username: string) => {
+      const user = await prisma.user.create({ data: { username } })
+      const session = await prisma.session.create({
+        data: { userId: user.id, expiresAt: new Date(Date.now() + 60 * 60 * 1000) }
+      })
+      return { userId: user.id, cookie: `session=${session.id}` }
+    }
+
+    it('should invite a collaborator and list them for the owner and in shared books', async () => {
+      expect.assertions(5)
+
+      const owner = await createLoggedInUser('book_owner')
+      const helper = await createLoggedInUser('book_helper')
+
+      const invite = await request(app)
+        .post('/api/collaborators')
+        .set('Cookie', owner.cookie)
+        .send({ username: 'book_helper', role: 'Bookkeeper' })
+        .expect(201)
+
+      expect(invite.body.collaborator).toMatchObject({ ownerId: owner.userId, userId: helper.userId, role: 'Bookkeeper' })
+      expect(invite.body.message).toBe('Collaborator invited successfully')
+
+      const list = await request(app).get('/api/collaborators').set('Cookie', owner.cookie).expect(200)
+      expect(list.body.count).toBe(1)
+
+      const shared = await request(app).get('/api/shared-books').set('Cookie', helper.cookie).expect(200)
+      expect(shared.body.count).toBe(1)
+      expect(shared.body.books[0].ownerId).toBe(owner.userId)
+    })
+
+    it('should reject an invalid role', async () => {
+      expect.assertions(2)
+
+      const owner = await createLoggedInUser('book_owner')
+      await createLoggedInUser('book_helper')
+
+      const response = await request(app)
+        .post('/api/collaborators')
+        .set('Cookie', owner.cookie)
+        .send({ username: 'book_helper', role: 'Owner' })
+        .expect(400)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('InvalidCollaboratorRole')
+    })
+
+    it('should return 409 when inviting the same user twice', async () => {
+      expect.assertions(1)
+
+      const owner = await createLoggedInUser('book_owner')
+      await createLoggedInUser('book_helper')
+      await request(app).post('/api/collaborators').set('Cookie', owner.cookie).send({ username: 'book_helper', role: 'Viewer' }).expect(201)
+
+      const response = await request(app)
+        .post('/api/collaborators')
+        .set('Cookie', owner.cookie)
+        .send({ username: 'book_helper', role: 'Accountant' })
+        .expect(409)
+
+      expect(response.body.error.subtype).toBe('DuplicateCollaborator')
+    })
+
+    it('should remove a collaborator and revoke access to the books', async () => {
+      expect.assertions(2)
+
+      const owner = await createLoggedInUser('book_owner')
+      const helper = await createLoggedInUser('book_helper')
+      await prisma.collaborator.create({ data: { ownerId: owner.userId, userId: helper.userId, role: 'Viewer' } })
+
+      await request(app)
+        .delete(`/api/collaborators/${helper.userId}`)
+        .set('Cookie', owner.cookie)
+        .expect(200)
+
+      const response = await request(app)
+        .get('/api/ledger/accounts')
+        .set('Cookie', helper.cookie)
+        .set('X-Book-Owner-Id', owner.userId)
+        .expect(403)
+
+      expect(response.body.error.subtype).toBe('PermissionDenied')
+      expect(await prisma.collaborator.count()).toBe(0)
+    })
+
+    it('should return 404 when removing a user who is not a collaborator', async () => {
+      expect.assertions(1)
+
+      const owner = await createLoggedInUser('book_owner')
+
+      const response = await request(app)
+        .delete('/api/collaborators/550e8400-e29b-41d4-a716-446655440000')
+        .set('Cookie', owner.cookie)
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('CollaboratorNotFound')
+    })
+  })
+
+  describe('POST /api/logout', () => {
+    it('should delete the session so the cookie no longer authenticates', async () => {
+      expect.assertions(3)
+
+      await request(app).post('/api/users').send({ username: 'logout_user', password }).expect(201)
+      const login = await request(app).post('/api/login').send({ username: 'logout_user', password }).expect(200)
+      const cookie = String(login.headers['set-cookie']).split(';')[0]
+
+      const response = await request(app)
+        .post('/api/logout')
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.message).toBe('Logged out successfully')
+
+      const afterLogout = await request(app)
+        .get('/api/ledger/accounts')
+        .set('Cookie', cookie)
+        .expect(401)
+
+      expect(afterLogout.body.error.subtype).toBe('SessionNotFound')
+      expect(await prisma.session.count()).toBe(0)
+    })
+
+    it('should succeed without a session cookie', async () => {
+      expect.assertions(1)
+
+      const response = await request(app)
+        .post('/api/logout')
+        .expect(200)
+
+      expect(response.body.message).toBe('Logged out successfully')
+    })
+  })
+
   describe('GET /api/users/health', () => {
     it('should return health status', async () => {
       expect.assertions(3)
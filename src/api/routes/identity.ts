@@ -1,28 +1,54 @@
 import { Router } from 'express'
 import { createUserWorkflow } from '@/bounded-contexts/identity/application/createUserWorkflow'
+import { loginWorkflow } from '@/bounded-contexts/identity/application/loginWorkflow'
+import { logoutWorkflow } from '@/bounded-contexts/identity/application/logoutWorkflow'
+import { changePasswordWorkflow } from '@/bounded-contexts/identity/application/changePasswordWorkflow'
+import { resetUserDataWorkflow } from '@/bounded-contexts/identity/application/resetUserDataWorkflow'
+import { updateUsernameWorkflow } from '@/bounded-contexts/identity/application/updateUsernameWorkflow'
+import { deactivateUserWorkflow } from '@/bounded-contexts/identity/application/deactivateUserWorkflow'
+import { reactivateUserWorkflow } from '@/bounded-contexts/identity/application/reactivateUserWorkflow'
+import { inviteCollaboratorWorkflow } from '@/bounded-contexts/identity/application/inviteCollaboratorWorkflow'
+import { removeCollaboratorWorkflow } from '@/bounded-contexts/identity/application/removeCollaboratorWorkflow'
+import { listUsers, findUserById } from '@/bounded-contexts/identity/infrastructure/userRepo'
+import { listCollaboratorsByOwner, listCollaborationsByUser } from '@/bounded-contexts/identity/infrastructure/collaboratorRepo'
+import { SESSION_COOKIE_NAME, sessionCookieOptions, requireSession } from '@/api/middleware/session'
 import { sendErrorResponse, wrapAsyncRoute } from '@/common/infrastructure/errorMapper'
 
 const router = Router()
 
+/**
+ * GET /api/users/health
+ * Health check for identity routes
+ * Declared first so it is not captured by GET /api/users/:id
+ */
+router.get('/users/health', (req, res) => {
+  res.json({
+    status: 'ok',
+    context: 'identity',
+    timestamp: new Date().toISOString()
+  })
+})
+
 /**
  * POST /api/users
- * Create a new user with a unique username
+ * Create a new user with a unique username and a password
  *
  * Request Body:
  * {
- *   "username": "string" (required, alphanumeric + underscores, min 3 chars, case-insensitive)
+ *   "username": "string" (required, alphanumeric + underscores, min 3 chars, case-insensitive),
+ *   "password": "string" (required, 8-128 chars, at least one letter and one number)
  * }
  *
  * Responses:
  * - 201: User created successfully
- * - 400: Invalid username (domain validation failed)
+ * - 400: Invalid username or weak password (domain validation failed)
  * - 409: Username already exists
  * - 500: Internal server error
  */
 router.post('/users', wrapAsyncRoute(async (req, res) => {
-  const { username } = req.body
+  const { username, password } = req.body
 
-  // Validate required field
+  // Validate required fields
   if (!username || typeof username !== 'string') {
     const error = {
       type: 'ApplicationFailure' as const,
@@ -32,8 +58,17 @@ router.post('/users', wrapAsyncRoute(async (req, res) => {
     sendErrorResponse(res, error)
     return
   }
+  if (!password || typeof password !== 'string') {
+    const error = {
+      type: 'ApplicationFailure' as const,
+      subtype: 'MissingField' as const,
+      message: 'Password is required and must be a string'
+    }
+    sendErrorResponse(res, error)
+    return
+  }
 
-  const result = await createUserWorkflow(username)
+  const result = await createUserWorkflow(username, password)
 
   if (result.isSuccess) {
     return res.status(201).json({
@@ -47,15 +82,526 @@ router.post('/users', wrapAsyncRoute(async (req, res) => {
 }))
 
 /**
- * GET /api/users/health
- * Health check for identity routes
+ * POST /api/login
+ * Start a session for an existing user.
+ * Sets an httpOnly `session` cookie that expires after 1 hour of inactivity.
+ *
+ * Request Body:
+ * {
+ *   "username": "string" (required, case-insensitive),
+ *   "password": "string" (required)
+ * }
+ *
+ * Responses:
+ * - 200: Logged in, session cookie set
+ * - 400: Missing username or password
+ * - 401: Invalid credentials (unknown username or wrong password)
+ * - 500: Internal server error
  */
-router.get('/users/health', (req, res) => {
-  res.json({
-    status: 'ok',
-    context: 'identity',
-    timestamp: new Date().toISOString()
+router.post('/login', wrapAsyncRoute(async (req, res) => {
+  const { username, password } = req.body
+
+  if (!username || typeof username !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'Username is required and must be a string'
+    })
+    return
+  }
+  if (!password || typeof password !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'Password is required and must be a string'
+    })
+    return
+  }
+
+  const result = await loginWorkflow({ username, password })
+
+  if (result.isSuccess) {
+    const { user, session } = result.value
+    res.cookie(SESSION_COOKIE_NAME, session.id, sessionCookieOptions)
+    return res.json({
+      user,
+      expiresAt: session.expiresAt,
+      message: 'Logged in successfully'
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * POST /api/logout
+ * End the current session and clear the session cookie.
+ * Succeeds even when no session is present.
+ *
+ * Responses:
+ * - 200: Logged out
+ * - 500: Internal server error
+ */
+router.post('/logout', wrapAsyncRoute(async (req, res) => {
+  const sessionId = req.cookies?.[SESSION_COOKIE_NAME]
+
+  const result = await logoutWorkflow(typeof sessionId === 'string' ? sessionId : undefined)
+
+  if (result.isSuccess) {
+    res.clearCookie(SESSION_COOKIE_NAME, { path: '/' })
+    return res.json({
+      message: 'Logged out successfully'
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * POST /api/users/:id/password
+ * Change the password of the logged-in user.
+ * Users can only change their own password; any other ID is reported as not found.
+ *
+ * Request Body:
+ * {
+ *   "currentPassword": "string" (required),
+ *   "newPassword": "string" (required, 8-128 chars, at least one letter and one number)
+ * }
+ *
+ * Responses:
+ * - 200: Password changed
+ * - 400: Missing field or weak new password (WeakPassword)
+ * - 401: Not authenticated, or current password is wrong (InvalidCredentials)
+ * - 404: User not found
+ * - 500: Internal server error
+ */
+router.post('/users/:id/password', requireSession, wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { id } = req.params
+  const { currentPassword, newPassword } = req.body
+
+  if (!currentPassword || typeof currentPassword !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'currentPassword is required and must be a string'
+    })
+    return
+  }
+  if (!newPassword || typeof newPassword !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'newPassword is required and must be a string'
+    })
+    return
+  }
+  if (id !== userId) {
+    sendErrorResponse(res, {
+      type: 'DomainFailure',
+      subtype: 'UserNotFound',
+      message: `User ${id} not found`
+    })
+    return
+  }
+
+  const result = await changePasswordWorkflow({ userId, currentPassword, newPassword })
+
+  if (result.isSuccess) {
+    return res.json({
+      user: result.value,
+      message: 'Password changed successfully'
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * POST /api/users/:id/reset
+ * Wipe the logged-in user's transactional data so the books can start fresh.
+ * Journal entries, invoices, payments, cash sales, deposits, bills, loans, expenses and periods
+ * are deleted in one transaction; customers and vendors are kept with zero balances.
+ * Users can only reset their own books; any other ID is reported as not found.
+ *
+ * Request Body:
+ * {
+ *   "accounts": "keep" | "restore" (optional, default "keep"; "restore" replaces the chart of accounts with the defaults)
+ * }
+ *
+ * Responses:
+ * - 200: Data reset; returns the number of records removed per kind
+ * - 400: Invalid accounts mode
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: You are deactivated (UserDeactivated)
+ * - 404: User not found
+ * - 500: Internal server error
+ */
+router.post('/users/:id/reset', requireSession, wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { id } = req.params
+  const { accounts } = req.body ?? {}
+
+  if (accounts !== undefined && typeof accounts !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'accounts must be a string'
+    })
+    return
+  }
+  if (id !== userId) {
+    sendErrorResponse(res, {
+      type: 'DomainFailure',
+      subtype: 'UserNotFound',
+      message: `User ${id} not found`
+    })
+    return
+  }
+
+  const result = await resetUserDataWorkflow({ userId, accounts })
+
+  if (result.isSuccess) {
+    return res.json({
+      reset: result.value,
+      message: 'User data reset successfully'
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * GET /api/users
+ * List users (the user directory), e.g. to find someone to invite as a collaborator.
+ *
+ * Query Parameters:
+ *   skip (number) - optional, number of users to skip (default 0)
+ *   take (number) - optional, number of users to return (default 20, max 100)
+ *   username (string) - optional, partial username match
+ *
+ * Responses:
+ * - 200: Page of users ordered by username, with the total number of matches
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/users', requireSession, wrapAsyncRoute(async (req, res) => {
+  const { skip, take, username } = req.query
+
+  const parsedSkip = skip ? parseInt(skip as string, 10) : 0
+  const parsedTake = take ? parseInt(take as string, 10) : 20
+  const pagination = {
+    skip: !isNaN(parsedSkip) && parsedSkip >= 0 ? parsedSkip : 0,
+    take: !isNaN(parsedTake) && parsedTake > 0 ? Math.min(parsedTake, 100) : 20
+  }
+
+  const result = await listUsers({
+    ...pagination,
+    username: typeof username === 'string' && username ? username.trim().toLowerCase() : undefined
   })
-})
+
+  if (result.isSuccess) {
+    return res.json({
+      users: result.value.users,
+      count: result.value.count,
+      ...pagination
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * GET /api/users/:id
+ * Retrieve a user's profile. Deactivated users are included, with their deactivatedAt time.
+ *
+ * Path Parameters:
+ *   id (string) - required, the user's ID
+ *
+ * Responses:
+ * - 200: User profile
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: User not found
+ * - 500: Internal server error
+ */
+router.get('/users/:id', requireSession, wrapAsyncRoute(async (req, res) => {
+  const { id } = req.params
+
+  const result = await findUserById(id)
+
+  if (result.isSuccess) {
+    if (result.value === null) {
+      sendErrorResponse(res, {
+        type: 'DomainFailure',
+        subtype: 'UserNotFound',
+        message: `User ${id} not found`
+      })
+      return
+    }
+    return res.json({
+      user: result.value
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * PATCH /api/users/:id
+ * Change the logged-in user's username.
+ * Users can only update their own profile; any other ID is reported as not found.
+ *
+ * Request Body:
+ * {
+ *   "username": "string" (required, alphanumeric + underscores, min 3 chars, case-insensitive)
+ * }
+ *
+ * Responses:
+ * - 200: Username updated
+ * - 400: Missing or invalid username
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: User not found
+ * - 409: Username already exists
+ * - 500: Internal server error
+ */
+router.patch('/users/:id', requireSession, wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { id } = req.params
+  const { username } = req.body ?? {}
+
+  if (!username || typeof username !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'Username is required and must be a string'
+    })
+    return
+  }
+  if (id !== userId) {
+    sendErrorResponse(res, {
+      type: 'DomainFailure',
+      subtype: 'UserNotFound',
+      message: `User ${id} not found`
+    })
+    return
+  }
+
+  const result = await updateUsernameWorkflow({ userId, username })
+
+  if (result.isSuccess) {
+    return res.json({
+      user: result.value,
+      message: 'User updated successfully'
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * POST /api/users/:id/deactivate
+ * Soft-deactivate the logged-in user. Nothing is deleted: the user can still log in and read
+ * their books (and books shared with them), but every posting request is rejected with 403
+ * (UserDeactivated) until the user is reactivated.
+ * Users can only deactivate themselves; any other ID is reported as not found.
+ *
+ * Responses:
+ * - 200: User deactivated (deactivating twice keeps the original time)
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: User not found
+ * - 500: Internal server error
+ */
+router.post('/users/:id/deactivate', requireSession, wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { id } = req.params
+
+  if (id !== userId) {
+    sendErrorResponse(res, {
+      type: 'DomainFailure',
+      subtype: 'UserNotFound',
+      message: `User ${id} not found`
+    })
+    return
+  }
+
+  const result = await deactivateUserWorkflow({ userId })
+
+  if (result.isSuccess) {
+    return res.json({
+      user: result.value,
+      message: 'User deactivated successfully'
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * POST /api/users/:id/reactivate
+ * Lift the logged-in user's own deactivation so they can post again.
+ * Users can only reactivate themselves, as with deactivation; any other ID is reported as not found.
+ *
+ * Responses:
+ * - 200: User reactivated (reactivating an active user changes nothing)
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: User not found
+ * - 500: Internal server error
+ */
+router.post('/users/:id/reactivate', requireSession, wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { id } = req.params
+
+  if (id !== userId) {
+    sendErrorResponse(res, {
+      type: 'DomainFailure',
+      subtype: 'UserNotFound',
+      message: `User ${id} not found`
+    })
+    return
+  }
+
+  const result = await reactivateUserWorkflow({ userId })
+
+  if (result.isSuccess) {
+    return res.json({
+      user: result.value,
+      message: 'User reactivated successfully'
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * POST /api/collaborators
+ * Invite another user into the logged-in user's books with a role.
+ * Viewers can read; bookkeepers can also post entries, invoices, bills and payments;
+ * accountants can also change the chart of accounts, manage periods and post manual entries.
+ *
+ * Request Body:
+ * {
+ *   "username": "string" (required, the user to invite),
+ *   "role": "Viewer" | "Bookkeeper" | "Accountant" (required)
+ * }
+ *
+ * Responses:
+ * - 201: Collaborator invited
+ * - 400: Missing field, invalid role, or inviting yourself
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: You are deactivated (UserDeactivated)
+ * - 404: User not found
+ * - 409: User is already a collaborator
+ * - 500: Internal server error
+ */
+router.post('/collaborators', requireSession, wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { username, role } = req.body
+
+  if (!username || typeof username !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'username is required and must be a string'
+    })
+    return
+  }
+  if (!role || typeof role !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'role is required and must be a string'
+    })
+    return
+  }
+
+  const result = await inviteCollaboratorWorkflow({ ownerId: userId, username, role })
+
+  if (result.isSuccess) {
+    return res.status(201).json({
+      collaborator: result.value,
+      message: 'Collaborator invited successfully'
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * GET /api/collaborators
+ * List the collaborators invited into the logged-in user's books.
+ *
+ * Responses:
+ * - 200: List of collaborators
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/collaborators', requireSession, wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+
+  const result = await listCollaboratorsByOwner(userId)
+
+  if (result.isSuccess) {
+    return res.json({
+      collaborators: result.value,
+      count: result.value.length
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * DELETE /api/collaborators/:collaboratorId
+ * Revoke a collaborator's access to the logged-in user's books.
+ *
+ * Path Parameters:
+ *   collaboratorId (string) - required, the collaborating user's ID
+ *
+ * Responses:
+ * - 200: Collaborator removed
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: You are deactivated (UserDeactivated)
+ * - 404: The user is not a collaborator on these books
+ * - 500: Internal server error
+ */
+router.delete('/collaborators/:collaboratorId', requireSession, wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { collaboratorId } = req.params
+
+  const result = await removeCollaboratorWorkflow({ ownerId: userId, userId: collaboratorId })
+
+  if (result.isSuccess) {
+    return res.json({
+      message: 'Collaborator removed successfully'
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
+
+/**
+ * GET /api/shared-books
+ * List the books the logged-in user has been invited into, with their role in each.
+ * Send a book's ownerId in the X-Book-Owner-Id header to work in those books.
+ *
+ * Responses:
+ * - 200: List of collaborations
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/shared-books', requireSession, wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+
+  const result = await listCollaborationsByUser(userId)
+
+  if (result.isSuccess) {
+    return res.json({
+      books: result.value,
+      count: result.value.length
+    })
+  }
+
+  sendErrorResponse(res, result.error)
+}))
 
 export { router as identityRoutes }
\ No newline at end of file
@@ -27,6 +27,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -43,6 +44,14 @@ describe('Ledger Context: API Routes (Integration)', () => {
     return user.id
   }
 
+  // Helper to start a session for a user and return the session cookie
+  const loginAs = async (userId: string) => {
+    const session = await prisma.session.create({
+      data: { userId, expiresAt: new Date(Date.now() + 60 * 60 * 1000) }
+    })
+    return `session=${session.id}`
+  }
+
   // Helper to create a test account and return its ID
   const createTestAccount = async (userId: string, code: string = '101', name: string = 'Cash', type: AccountType = 'Asset', normalBalance: NormalBalance = 'Debit') => {
     const account = await prisma.account.create({
@@ -60,8 +69,8 @@ describe('Ledger Context: API Routes (Integration)', () => {
   describe('POST /api/ledger/accounts', () => {
     it('should create an account with valid data', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const accountData = {
-        userId,
         code: '101',
         name: 'Cash',
         type: 'Asset',
@@ -70,6 +79,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/ledger/accounts')
+        .set('Cookie', cookie)
         .send(accountData)
         .expect(201)
 
@@ -93,9 +103,9 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
     it('should reject duplicate account code for the same user', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       // First account
       const first = {
-        userId,
         code: '101',
         name: 'Cash',
         type: 'Asset',
@@ -103,12 +113,12 @@ describe('Ledger Context: API Routes (Integration)', () => {
       }
       await request(app)
         .post('/api/ledger/accounts')
+        .set('Cookie', cookie)
         .send(first)
         .expect(201)
 
       // Second account with same code
       const second = {
-        userId,
         code: '101',
         name: 'Accounts Receivable',
         type: 'Asset',
@@ -116,6 +126,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
       }
       const response = await request(app)
         .post('/api/ledger/accounts')
+        .set('Cookie', cookie)
         .send(second)
         .expect(409)
 
@@ -127,6 +138,8 @@ describe('Ledger Context: API Routes (Integration)', () => {
     it('should allow duplicate account code for different users', async () => {
       const user1 = await createTestUser('user1')
       const user2 = await createTestUser('user2')
+      const cookie1 = await loginAs(user1)
+      const cookie2 = await loginAs(user2)
 
       const accountData = {
         code: '101',
@@ -137,12 +150,14 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
       await request(app)
         .post('/api/ledger/accounts')
-        .send({ ...accountData, userId: user1 })
+        .set('Cookie', cookie1)
+        .send(accountData)
         .expect(201)
 
       await request(app)
         .post('/api/ledger/accounts')
-        .send({ ...accountData, userId: user2 })
+        .set('Cookie', cookie2)
+        .send(accountData)
         .expect(201)
 
       // Both should exist
@@ -154,8 +169,8 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
     it('should reject invalid account code (non-numeric)', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const invalid = {
-        userId,
         code: 'abc',
         name: 'Invalid',
         type: 'Asset',
@@ -164,6 +179,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/ledger/accounts')
+        .set('Cookie', cookie)
         .send(invalid)
         .expect(400)
 
@@ -173,8 +189,8 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
     it('should reject missing required field', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const missingCode = {
-        userId,
         name: 'Cash',
         type: 'Asset',
         normalBalance: 'Debit'
@@ -183,6 +199,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/ledger/accounts')
+        .set('Cookie', cookie)
         .send(missingCode)
         .expect(400)
 
@@ -192,8 +209,8 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
     it('should reject invalid account type', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const invalidType = {
-        userId,
         code: '101',
         name: 'Cash',
         type: 'InvalidType',
@@ -202,6 +219,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/ledger/accounts')
+        .set('Cookie', cookie)
         .send(invalidType)
         .expect(400)
 
@@ -214,11 +232,11 @@ describe('Ledger Context: API Routes (Integration)', () => {
   describe('POST /api/ledger/journal-entries', () => {
     it('should post a balanced journal entry', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
 
       const entry = {
-        userId,
         description: 'Cash sale',
         date: '2025-01-15T00:00:00Z',
         lines: [
@@ -229,6 +247,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/ledger/journal-entries')
+        .set('Cookie', cookie)
         .send(entry)
         .expect(201)
 
@@ -248,11 +267,11 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
     it('should reject unbalanced journal entry', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
 
       const unbalanced = {
-        userId,
         description: 'Unbalanced',
         date: '2025-01-15T00:00:00Z',
         lines: [
@@ -263,6 +282,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/ledger/journal-entries')
+        .set('Cookie', cookie)
         .send(unbalanced)
         .expect(400)
 
@@ -272,10 +292,10 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
     it('should reject journal entry with missing account', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const fakeAccountId = '550e8400-e29b-41d4-a716-446655440000' // random UUID
 
       const entry = {
-        userId,
         description: 'Missing account',
         date: '2025-01-15T00:00:00Z',
         lines: [
@@ -286,6 +306,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/ledger/journal-entries')
+        .set('Cookie', cookie)
         .send(entry)
         .expect(404)
 
@@ -295,10 +316,10 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
     it('should reject journal entry with insufficient lines (only one line)', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
 
       const entry = {
-        userId,
         description: 'Only one line',
         date: '2025-01-15T00:00:00Z',
         lines: [
@@ -308,6 +329,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/ledger/journal-entries')
+        .set('Cookie', cookie)
         .send(entry)
         .expect(400)
 
@@ -317,11 +339,11 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
     it('should reject journal entry with invalid date', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
 
       const entry = {
-        userId,
         description: 'Invalid date',
         date: 'not-a-date',
         lines: [
@@ -332,6 +354,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/ledger/journal-entries')
+        .set('Cookie', cookie)
         .send(entry)
         .expect(400)
 
@@ -342,13 +365,13 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
     it('should accept an entry with multiple debit and credit lines', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const cashId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       const arId = await createTestAccount(userId, '111', 'Accounts Receivable', 'Asset', 'Debit')
       const revenueId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
       const liabilityId = await createTestAccount(userId, '201', 'Accounts Payable', 'Liability', 'Credit')
 
       const entry = {
-        userId,
         description: 'Complex entry',
         date: '2025-01-15T00:00:00Z',
         lines: [
@@ -361,6 +384,7 @@ describe('Ledger Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/ledger/journal-entries')
+        .set('Cookie', cookie)
         .send(entry)
         .expect(201)
 
@@ -373,6 +397,565 @@ describe('Ledger Context: API Routes (Integration)', () => {
     })
   })
 
+  describe('GET /api/ledger/accounts/:accountId/ledger', () => {
+    it('should list lines with a running balance between opening and closing balances', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      const rentAccountId = await createTestAccount(userId, '501', 'Rent Expense', 'Expense', 'Debit')
+      const entries = [
+        { entryNumber: 'JE-1', description: 'December sale', date: '2024-12-20T00:00:00Z', debit: cashAccountId, credit: revenueAccountId, amount: 1000 },
+        { entryNumber: 'JE-2', description: 'January rent', date: '2025-01-05T00:00:00Z', debit: rentAccountId, credit: cashAccountId, amount: 400 },
+        { entryNumber: 'JE-3', description: 'January sale', date: '2025-01-12T00:00:00Z', debit: cashAccountId, credit: revenueAccountId, amount: 250 },
+      ]
+      for (const entry of entries) {
+        await request(app)
+          .post('/api/ledger/journal-entries')
+          .set('Cookie', cookie)
+          .send({
+            entryNumber: entry.entryNumber,
+            description: entry.description,
+            date: entry.date,
+            lines: [
+              { accountId: entry.debit, amount: entry.amount, side: 'Debit' },
+              { accountId: entry.credit, amount: entry.amount, side: 'Credit' }
+            ]
+          })
+          .expect(201)
+      }
+
+      const response = await request(app)
+        .get(`/api/ledger/accounts/${cashAccountId}/ledger?startDate=2025-01-01T00:00:00Z&endDate=2025-01-31T23:59:59Z`)
+        .set('Cookie', cookie)
+        .expect(200)
+
+      const ledger = response.body.accountLedger
+      expect(ledger.account.code).toBe('101')
+      expect(ledger.openingBalance).toBe(1000)
+      expect(ledger.lines).toHaveLength(2)
+      expect(ledger.lines[0]).toMatchObject({ entryNumber: 'JE-2', description: 'January rent', side: 'Credit', amount: 400, balance: 600 })
+      expect(ledger.lines[1]).toMatchObject({ entryNumber: 'JE-3', description: 'January sale', side: 'Debit', amount: 250, balance: 850 })
+      expect(ledger.closingBalance).toBe(850)
+    })
+
+    it('should require startDate and endDate', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId)
+
+      const response = await request(app)
+        .get(`/api/ledger/accounts/${cashAccountId}/ledger?startDate=2025-01-01T00:00:00Z`)
+        .set('Cookie', cookie)
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('MissingField')
+    })
+
+    it('should not show another user\'s account', async () => {
+      const otherUserId = await createTestUser('other_user_ledger')
+      const otherAccountId = await createTestAccount(otherUserId)
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .get(`/api/ledger/accounts/${otherAccountId}/ledger?startDate=2025-01-01T00:00:00Z&endDate=2025-01-31T23:59:59Z`)
+        .set('Cookie', cookie)
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('AccountNotFound')
+    })
+  })
+
+  describe('PATCH /api/ledger/accounts/:accountId', () => {
+    it('should rename an account and keep its code', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+
+      const response = await request(app)
+        .patch(`/api/ledger/accounts/${cashAccountId}`)
+        .set('Cookie', cookie)
+        .send({ name: 'Checking Account', code: '101' })
+        .expect(200)
+
+      expect(response.body.account.name).toBe('Checking Account')
+      expect(response.body.account.code).toBe('101')
+      expect(response.body.message).toBe('Account updated successfully')
+    })
+
+    it('should reject a change to the account code', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+
+      const response = await request(app)
+        .patch(`/api/ledger/accounts/${cashAccountId}`)
+        .set('Cookie', cookie)
+        .send({ name: 'Checking Account', code: '105' })
+        .expect(400)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('ImmutableAccountCode')
+      const dbAccount = await prisma.account.findUnique({ where: { id: cashAccountId } })
+      expect(dbAccount?.name).toBe('Cash')
+      expect(dbAccount?.code).toBe('101')
+    })
+
+    it('should reject a body with neither name nor parentId', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId)
+
+      const response = await request(app)
+        .patch(`/api/ledger/accounts/${cashAccountId}`)
+        .set('Cookie', cookie)
+        .send({})
+        .expect(400)
+
+      expect(response.body.error.type).toBe('ApplicationFailure')
+      expect(response.body.error.subtype).toBe('MissingField')
+    })
+
+    it('should not rename another user\'s account', async () => {
+      const otherUserId = await createTestUser('other_user_ledger')
+      const otherAccountId = await createTestAccount(otherUserId)
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .patch(`/api/ledger/accounts/${otherAccountId}`)
+        .set('Cookie', cookie)
+        .send({ name: 'Mine Now' })
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('AccountNotFound')
+    })
+  })
+
+  describe('Account hierarchy', () => {
+    it('should create a sub-account and nest it in the tree view', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const bankAccountId = await createTestAccount(userId, '110', 'Bank Accounts', 'Asset', 'Debit')
+      await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+
+      const created = await request(app)
+        .post('/api/ledger/accounts')
+        .set('Cookie', cookie)
+        .send({ code: '110.1', name: 'Checking', type: 'Asset', normalBalance: 'Debit', parentId: bankAccountId })
+        .expect(201)
+
+      expect(created.body.account.parentId).toBe(bankAccountId)
+
+      const response = await request(app)
+        .get('/api/ledger/accounts?view=tree')
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.count).toBe(3)
+      expect(response.body.accounts.map((a: any) => a.code)).toEqual(['101', '110'])
+      expect(response.body.accounts[1].children).toHaveLength(1)
+      expect(response.body.accounts[1].children[0].code).toBe('110.1')
+    })
+
+    it('should reject a parent of another type', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+
+      const response = await request(app)
+        .post('/api/ledger/accounts')
+        .set('Cookie', cookie)
+        .send({ code: '110.1', name: 'Checking', type: 'Asset', normalBalance: 'Debit', parentId: revenueAccountId })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('AccountParentTypeMismatch')
+    })
+
+    it('should reject a reparenting that creates a cycle', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const bankAccountId = await createTestAccount(userId, '110', 'Bank Accounts', 'Asset', 'Debit')
+      const checkingAccountId = await createTestAccount(userId, '111', 'Checking', 'Asset', 'Debit')
+
+      await request(app)
+        .patch(`/api/ledger/accounts/${checkingAccountId}`)
+        .set('Cookie', cookie)
+        .send({ parentId: bankAccountId })
+        .expect(200)
+
+      const response = await request(app)
+        .patch(`/api/ledger/accounts/${bankAccountId}`)
+        .set('Cookie', cookie)
+        .send({ parentId: checkingAccountId })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('AccountHierarchyCycle')
+    })
+
+    it('should show a parent subtotal on the balance sheet', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const bankAccountId = await createTestAccount(userId, '110', 'Bank Accounts', 'Asset', 'Debit')
+      const checkingAccountId = await createTestAccount(userId, '111', 'Checking', 'Asset', 'Debit')
+      const capitalAccountId = await createTestAccount(userId, '301', 'Owner Capital', 'Equity', 'Credit')
+      await prisma.account.update({ where: { id: checkingAccountId }, data: { parentId: bankAccountId } })
+
+      await request(app)
+        .post('/api/ledger/journal-entries')
+        .set('Cookie', cookie)
+        .send({
+          description: 'Owner investment',
+          date: '2025-01-15T00:00:00Z',
+          lines: [
+            { accountId: checkingAccountId, amount: 800, side: 'Debit' },
+            { accountId: capitalAccountId, amount: 800, side: 'Credit' }
+          ]
+        })
+        .expect(201)
+
+      const response = await request(app)
+        .get('/api/reporting/balance-sheet?asOfDate=2025-01-31T00:00:00Z')
+        .set('Cookie', cookie)
+        .expect(200)
+
+      const assets = response.body.balanceSheet.assets
+      const bankLine = assets.find((line: any) => line.accountCode === '110')
+      const checkingLine = assets.find((line: any) => line.accountCode === '111')
+      expect(bankLine.subtotal).toBe(800)
+      expect(checkingLine.parentCode).toBe('110')
+      expect(response.body.balanceSheet.assetTotal).toBe(800)
+    })
+  })
+
+  describe('POST /api/ledger/accounts/:accountId/archive', () => {
+    // Posts a cash sale against the two accounts and returns the response
+    const postSale = (cookie: string, cashAccountId: string, revenueAccountId: string) =>
+      request(app)
+        .post('/api/ledger/journal-entries')
+        .set('Cookie', cookie)
+        .send({
+          description: 'Cash sale',
+          date: '2025-01-15T00:00:00Z',
+          lines: [
+            { accountId: cashAccountId, amount: 500, side: 'Debit' },
+            { accountId: revenueAccountId, amount: 500, side: 'Credit' }
+          ]
+        })
+
+    it('should refuse new lines against an archived account but keep its history in reports', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      await postSale(cookie, cashAccountId, revenueAccountId).expect(201)
+
+      const response = await request(app)
+        .post(`/api/ledger/accounts/${cashAccountId}/archive`)
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.account.archivedAt).toBeDefined()
+      expect(response.body.account.archivedAt).not.toBeNull()
+
+      const blocked = await postSale(cookie, cashAccountId, revenueAccountId).expect(400)
+      expect(blocked.body.error.subtype).toBe('AccountArchived')
+      expect(await prisma.journalEntry.count({ where: { userId } })).toBe(1)
+
+      const balanceSheet = await request(app)
+        .get('/api/reporting/balance-sheet?asOfDate=2025-01-31T00:00:00Z')
+        .set('Cookie', cookie)
+        .expect(200)
+      const cashLine = balanceSheet.body.balanceSheet.assets.find((line: any) => line.accountCode === '101')
+      expect(cashLine.amount).toBe(500)
+    })
+
+    it('should reopen an account when unarchived', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      await request(app).post(`/api/ledger/accounts/${cashAccountId}/archive`).set('Cookie', cookie).expect(200)
+
+      const response = await request(app)
+        .post(`/api/ledger/accounts/${cashAccountId}/unarchive`)
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.account.archivedAt).toBeNull()
+      await postSale(cookie, cashAccountId, revenueAccountId).expect(201)
+    })
+
+    it('should still list archived accounts', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId)
+      await request(app).post(`/api/ledger/accounts/${cashAccountId}/archive`).set('Cookie', cookie).expect(200)
+
+      const response = await request(app)
+        .get('/api/ledger/accounts')
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.accounts).toHaveLength(1)
+      expect(response.body.accounts[0].archivedAt).not.toBeNull()
+    })
+
+    it('should return 404 for an unknown account', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .post('/api/ledger/accounts/550e8400-e29b-41d4-a716-446655440000/archive')
+        .set('Cookie', cookie)
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('AccountNotFound')
+    })
+  })
+
+  describe('POST /api/ledger/journal-entries/:entryId/reverse', () => {
+    // Posts a cash sale of 500 on 2025-01-10 inside an open January period and returns the entry ID
+    const setupPostedSale = async (userId: string, cookie: string) => {
+      const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      await prisma.period.create({
+        data: {
+          userId,
+          name: 'January 2025',
+          startDate: new Date('2025-01-01T00:00:00Z'),
+          endDate: new Date('2025-01-31T23:59:59Z'),
+          status: 'Open'
+        }
+      })
+      const response = await request(app)
+        .post('/api/ledger/journal-entries')
+        .set('Cookie', cookie)
+        .send({
+          description: 'Cash sale',
+          date: '2025-01-10T00:00:00Z',
+          lines: [
+            { accountId: cashAccountId, amount: 500, side: 'Debit' },
+            { accountId: revenueAccountId, amount: 500, side: 'Credit' }
+          ]
+        })
+        .expect(201)
+      return { entryId: response.body.journalEntry.id as string, cashAccountId }
+    }
+
+    it('should post a mirror entry and show the references on both entries', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { entryId, cashAccountId } = await setupPostedSale(userId, cookie)
+
+      const response = await request(app)
+        .post(`/api/ledger/journal-entries/${entryId}/reverse`)
+        .set('Cookie', cookie)
+        .send({ date: '2025-01-20T00:00:00Z', description: 'Sale refunded' })
+        .expect(201)
+
+      const reversal = response.body.journalEntry
+      expect(response.body.message).toBe('Journal entry reversed successfully')
+      expect(reversal.description).toBe('Sale refunded')
+      expect(reversal.reversesEntryId).toBe(entryId)
+      const cashLine = reversal.lines.find((line: any) => line.accountId === cashAccountId)
+      expect(cashLine.side).toBe('Credit')
+      expect(cashLine.amount).toBe(500)
+
+      const original = await request(app)
+        .get(`/api/ledger/journal-entries/${entryId}`)
+        .set('Cookie', cookie)
+        .expect(200)
+      expect(original.body.journalEntry.reversedByEntryId).toBe(reversal.id)
+      expect(original.body.journalEntry.reversesEntryId).toBeNull()
+    })
+
+    it('should reject a second reversal', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { entryId } = await setupPostedSale(userId, cookie)
+
+      await request(app)
+        .post(`/api/ledger/journal-entries/${entryId}/reverse`)
+        .set('Cookie', cookie)
+        .send({ date: '2025-01-20T00:00:00Z' })
+        .expect(201)
+
+      const response = await request(app)
+        .post(`/api/ledger/journal-entries/${entryId}/reverse`)
+        .set('Cookie', cookie)
+        .send({ date: '2025-01-21T00:00:00Z' })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('JournalEntryAlreadyReversed')
+    })
+
+    it('should reject an entry posted by a business document', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { entryId } = await setupPostedSale(userId, cookie)
+      const customer = await prisma.customer.create({ data: { userId, name: 'Walk-in Customer' } })
+      await prisma.cashSale.create({
+        data: { userId, customerId: customer.id, amount: 500, date: new Date('2025-01-10T00:00:00Z'), journalEntryId: entryId }
+      })
+
+      const response = await request(app)
+        .post(`/api/ledger/journal-entries/${entryId}/reverse`)
+        .set('Cookie', cookie)
+        .send({ date: '2025-01-20T00:00:00Z' })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('EntryOwnedByDocument')
+    })
+
+    it('should reject a date outside an open period', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { entryId } = await setupPostedSale(userId, cookie)
+
+      const response = await request(app)
+        .post(`/api/ledger/journal-entries/${entryId}/reverse`)
+        .set('Cookie', cookie)
+        .send({ date: '2025-03-01T00:00:00Z' })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('PeriodNotOpen')
+    })
+
+    it('should require a date', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { entryId } = await setupPostedSale(userId, cookie)
+
+      const response = await request(app)
+        .post(`/api/ledger/journal-entries/${entryId}/reverse`)
+        .set('Cookie', cookie)
+        .send({})
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('MissingField')
+    })
+  })
+
+  describe('Posting configuration', () => {
+    it('should fall back to the default account codes while nothing is mapped', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+
+      const response = await request(app)
+        .get('/api/ledger/posting-configuration')
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.count).toBe(8)
+      const cash = response.body.configuration.find((entry: any) => entry.role === 'Cash')
+      expect(cash.source).toBe('Default')
+      expect(cash.defaultCode).toBe('101')
+      expect(cash.account.id).toBe(cashAccountId)
+      const payable = response.body.configuration.find((entry: any) => entry.role === 'AccountsPayable')
+      expect(payable.account).toBeNull()
+    })
+
+    it('should map a role and post later transactions to the mapped account', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const checkingId = await createTestAccount(userId, '1010', 'Checking', 'Asset', 'Debit')
+      const salesId = await createTestAccount(userId, '4000', 'Sales', 'Revenue', 'Credit')
+      const customer = await prisma.customer.create({ data: { userId, name: 'Walk-in', balance: 0 } })
+
+      await request(app)
+        .put('/api/ledger/posting-configuration/Cash')
+        .set('Cookie', cookie)
+        .send({ accountId: checkingId })
+        .expect(200)
+      const mapped = await request(app)
+        .put('/api/ledger/posting-configuration/DefaultRevenue')
+        .set('Cookie', cookie)
+        .send({ accountId: salesId })
+        .expect(200)
+      expect(mapped.body.mapping.role).toBe('DefaultRevenue')
+      expect(mapped.body.message).toBe('Posting mapping saved successfully')
+
+      const sale = await request(app)
+        .post('/api/sales/cash-sales')
+        .set('Cookie', cookie)
+        .send({ customerId: customer.id, amount: 120, date: '2025-01-10T00:00:00Z' })
+        .expect(201)
+
+      const lines = await prisma.journalLine.findMany({ where: { journalEntryId: sale.body.cashSale.journalEntryId } })
+      expect(lines.find(line => line.side === 'Debit')?.accountId).toBe(checkingId)
+      expect(lines.find(line => line.side === 'Credit')?.accountId).toBe(salesId)
+    })
+
+    it('should reject an account of the wrong type for the role', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const revenueId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+
+      const response = await request(app)
+        .put('/api/ledger/posting-configuration/Cash')
+        .set('Cookie', cookie)
+        .send({ accountId: revenueId })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('PostingAccountTypeMismatch')
+    })
+
+    it('should reject an unknown role and a missing accountId', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId)
+
+      const unknownRole = await request(app)
+        .put('/api/ledger/posting-configuration/PettyCash')
+        .set('Cookie', cookie)
+        .send({ accountId: cashAccountId })
+        .expect(400)
+      expect(unknownRole.body.error.subtype).toBe('InvalidPostingRole')
+
+      const missingAccount = await request(app)
+        .put('/api/ledger/posting-configuration/Cash')
+        .set('Cookie', cookie)
+        .send({})
+        .expect(400)
+      expect(missingAccount.body.error.subtype).toBe('MissingField')
+    })
+
+    it('should remove a mapping and fall back to the default code', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      const checkingId = await createTestAccount(userId, '1010', 'Checking', 'Asset', 'Debit')
+      await request(app)
+        .put('/api/ledger/posting-configuration/Cash')
+        .set('Cookie', cookie)
+        .send({ accountId: checkingId })
+        .expect(200)
+
+      const removed = await request(app)
+        .delete('/api/ledger/posting-configuration/Cash')
+        .set('Cookie', cookie)
+        .expect(200)
+      expect(removed.body.mapping.accountId).toBe(checkingId)
+
+      const response = await request(app)
+        .get('/api/ledger/posting-configuration')
+        .set('Cookie', cookie)
+        .expect(200)
+      const cash = response.body.configuration.find((entry: any) => entry.role === 'Cash')
+      expect(cash.source).toBe('Default')
+      expect(cash.account.code).toBe('101')
+
+      const removedAgain = await request(app)
+        .delete('/api/ledger/posting-configuration/Cash')
+        .set('Cookie', cookie)
+        .expect(404)
+      expect(removedAgain.body.error.subtype).toBe('PostingMappingNotFound')
+    })
+  })
+
   describe('GET /api/ledger/health', () => {
     it('should return health status', async () => {
       const response = await request(app)
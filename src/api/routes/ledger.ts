@@ -1,45 +1,66 @@
 import { Router } from 'express'
 import { createAccountWorkflow } from '@/bounded-contexts/ledger/application/createAccountWorkflow'
 import { postJournalEntryWorkflow } from '@/bounded-contexts/ledger/application/postJournalEntryWorkflow'
+import { updateAccountWorkflow } from '@/bounded-contexts/ledger/application/updateAccountWorkflow'
+import { archiveAccountWorkflow } from '@/bounded-contexts/ledger/application/archiveAccountWorkflow'
+import { reverseJournalEntryWorkflow } from '@/bounded-contexts/ledger/application/reverseJournalEntryWorkflow'
+import { getPostingConfigurationWorkflow } from '@/bounded-contexts/ledger/application/getPostingConfigurationWorkflow'
+import { setPostingMappingWorkflow } from '@/bounded-contexts/ledger/application/setPostingMappingWorkflow'
+import { removePostingMappingWorkflow } from '@/bounded-contexts/ledger/application/removePostingMappingWorkflow'
+import { generateAccountLedgerWorkflow } from '@/bounded-contexts/reporting/application/generateAccountLedgerWorkflow'
 import { CreateAccountCommand } from '@/bounded-contexts/ledger/application/createAccountWorkflow'
 import { PostJournalEntryCommand } from '@/bounded-contexts/ledger/application/postJournalEntryWorkflow'
 import { listAccounts, findAccountById } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { buildAccountTree } from '@/bounded-contexts/ledger/domain/ledger'
 import { listJournalEntries, findJournalEntryById } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
 import { sendErrorResponse, wrapAsyncRoute } from '@/common/infrastructure/errorMapper'
+import { requireSession } from '@/api/middleware/session'
+import { requireBookAccess } from '@/api/middleware/bookAccess'
 
 const router = Router()
 
+/**
+ * GET /api/ledger/health
+ * Health check for ledger routes.
+ */
+router.get('/health', (req, res) => {
+  res.json({
+    status: 'ok',
+    context: 'ledger',
+    timestamp: new Date().toISOString()
+  })
+})
+
+// Every route below acts on behalf of the user resolved from the session cookie,
+// in their own books or in the books named by the X-Book-Owner-Id header
+router.use(requireSession, requireBookAccess)
+
 /**
  * POST /api/ledger/accounts
  * Create a new account in the user's chart of accounts.
  * 
  * Request Body:
  * {
- *   "userId": "string" (required, UUID of the user),
  *   "code": "string" (required, account code, e.g., "101"),
  *   "name": "string" (required, account name),
  *   "type": "Asset" | "Liability" | "Equity" | "Revenue" | "Expense",
- *   "normalBalance": "Debit" | "Credit"
+ *   "normalBalance": "Debit" | "Credit",
+ *   "parentId": "string" (optional, parent account of the same type)
  * }
  * 
  * Responses:
  * - 201: Account created successfully
- * - 400: Validation error (domain failure)
+ * - 400: Validation error (domain failure, e.g., parent of another type)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
  * - 409: Duplicate account code
  * - 500: Internal server error
  */
 router.post('/accounts', wrapAsyncRoute(async (req, res) => {
-  const { userId, code, name, type, normalBalance } = req.body
+  const { userId, actingUserId } = res.locals
+  const { code, name, type, normalBalance, parentId } = req.body
 
   // Basic validation of required fields
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId is required and must be a string'
-    })
-    return
-  }
   if (!code || typeof code !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -72,8 +93,16 @@ router.post('/accounts', wrapAsyncRoute(async (req, res) => {
     })
     return
   }
+  if (parentId !== undefined && typeof parentId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'parentId must be a string'
+    })
+    return
+  }
 
-  const command: CreateAccountCommand = { userId, code, name, type, normalBalance }
+  const command: CreateAccountCommand = { userId, actingUserId, code, name, type, normalBalance, parentId }
   const result = await createAccountWorkflow(command)
 
   if (result.isSuccess) {
@@ -92,7 +121,6 @@ router.post('/accounts', wrapAsyncRoute(async (req, res) => {
  * 
  * Request Body:
  * {
- *   "userId": "string",
  *   "entryNumber": "string" (optional),
  *   "description": "string",
  *   "date": "string" (ISO 8601),
@@ -107,22 +135,17 @@ router.post('/accounts', wrapAsyncRoute(async (req, res) => {
  * 
  * Responses:
  * - 201: Journal entry posted successfully
- * - 400: Validation error (domain failure, e.g., unbalanced, missing account)
+ * - 400: Validation error (domain failure, e.g., unbalanced, archived account)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
  * - 404: One or more accounts not found
  * - 500: Internal server error
  */
 router.post('/journal-entries', wrapAsyncRoute(async (req, res) => {
-  const { userId, entryNumber, description, date, lines } = req.body
+  const { userId, actingUserId } = res.locals
+  const { entryNumber, description, date, lines } = req.body
 
   // Basic validation
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId is required and must be a string'
-    })
-    return
-  }
   if (!description || typeof description !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -160,7 +183,7 @@ router.post('/journal-entries', wrapAsyncRoute(async (req, res) => {
     }
   }
 
-  const command: PostJournalEntryCommand = { userId, entryNumber, description, date, lines }
+  const command: PostJournalEntryCommand = { userId, actingUserId, entryNumber, description, date, lines }
   const result = await postJournalEntryWorkflow(command)
 
   if (result.isSuccess) {
@@ -175,33 +198,26 @@ router.post('/journal-entries', wrapAsyncRoute(async (req, res) => {
 
 /**
  * GET /api/ledger/accounts
- * List accounts for a user.
+ * List accounts for a user, including archived accounts (with their archivedAt time).
  *
  * Query Parameters:
- *   userId (string) - required, the user's ID
+ *   view (string) - optional, "tree" nests sub-accounts under their parents in `children`
  *
  * Responses:
  * - 200: List of accounts
- * - 400: Missing or invalid userId
+ * - 401: Not authenticated (missing or expired session)
  * - 500: Internal server error
  */
 router.get('/accounts', wrapAsyncRoute(async (req, res) => {
-  const { userId } = req.query
+  const { userId } = res.locals
 
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
+  const { view } = req.query
 
   const result = await listAccounts(userId)
 
   if (result.isSuccess) {
     return res.json({
-      accounts: result.value,
+      accounts: view === 'tree' ? buildAccountTree(result.value) : result.value,
       count: result.value.length
     })
   } else {
@@ -213,28 +229,16 @@ router.get('/accounts', wrapAsyncRoute(async (req, res) => {
  * GET /api/ledger/accounts/:accountId
  * Retrieve a specific account by ID.
  *
- * Query Parameters:
- *   userId (string) - required, the user's ID (for isolation)
- *
  * Responses:
  * - 200: Account found
- * - 400: Missing or invalid userId
+ * - 401: Not authenticated (missing or expired session)
  * - 404: Account not found
  * - 500: Internal server error
  */
 router.get('/accounts/:accountId', wrapAsyncRoute(async (req, res) => {
-  const { userId } = req.query
+  const { userId } = res.locals
   const { accountId } = req.params
 
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
-
   const result = await findAccountById(userId, accountId)
 
   if (result.isSuccess) {
@@ -255,30 +259,308 @@ router.get('/accounts/:accountId', wrapAsyncRoute(async (req, res) => {
 }))
 
 /**
- * GET /api/ledger/journal-entries
- * List journal entries for a user, ordered by date descending.
+ * GET /api/ledger/accounts/:accountId/ledger
+ * General ledger detail of one account: opening balance, each journal line in date order
+ * with its entry description and number and a running balance, and the closing balance.
+ * Balances are signed by the account's normal balance.
  *
  * Query Parameters:
- *   userId (string) - required, the user's ID
- *   skip (number, optional) - pagination offset
- *   take (number, optional) - pagination limit
+ *   startDate (string) - required, ISO 8601 date string
+ *   endDate (string) - required, ISO 8601 date string
  *
  * Responses:
- * - 200: List of journal entries
- * - 400: Missing or invalid userId
+ * - 200: Account ledger
+ * - 400: Missing or invalid dates, or startDate after endDate (InvalidDateRange)
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: Account not found
  * - 500: Internal server error
  */
-router.get('/journal-entries', wrapAsyncRoute(async (req, res) => {
-  const { userId, skip, take } = req.query
+router.get('/accounts/:accountId/ledger', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { accountId } = req.params
+  const { startDate, endDate } = req.query
+
+  if (!startDate || typeof startDate !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'startDate query parameter is required and must be an ISO 8601 string'
+    })
+    return
+  }
+  if (!endDate || typeof endDate !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'endDate query parameter is required and must be an ISO 8601 string'
+    })
+    return
+  }
+
+  const start = new Date(startDate)
+  const end = new Date(endDate)
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidDate',
+      message: 'startDate or endDate is not a valid date'
+    })
+    return
+  }
+
+  const result = await generateAccountLedgerWorkflow(userId, accountId, start, end)
+
+  if (result.isSuccess) {
+    return res.json({
+      accountLedger: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
 
-  if (!userId || typeof userId !== 'string') {
+/**
+ * PATCH /api/ledger/accounts/:accountId
+ * Rename an account and/or move it under another parent account.
+ * Account codes are immutable: sending a different code is rejected.
+ *
+ * Request Body (at least one of name or parentId):
+ * {
+ *   "name": "string" (optional, new account name),
+ *   "parentId": "string" | null (optional, parent account of the same type; null moves it to the top level),
+ *   "code": "string" (optional, must equal the current code)
+ * }
+ *
+ * Responses:
+ * - 200: Account updated
+ * - 400: Validation error, an attempt to change the code (ImmutableAccountCode),
+ *        or an invalid parent (AccountParentTypeMismatch, AccountHierarchyCycle)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Account not found
+ * - 500: Internal server error
+ */
+router.patch('/accounts/:accountId', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { accountId } = req.params
+  const { name, code, parentId } = req.body ?? {}
+
+  if (name === undefined && parentId === undefined) {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
       subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
+      message: 'name or parentId is required'
     })
     return
   }
+  if (name !== undefined && typeof name !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'name must be a string'
+    })
+    return
+  }
+  if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'parentId must be a string or null'
+    })
+    return
+  }
+  if (code !== undefined && typeof code !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'code must be a string'
+    })
+    return
+  }
+
+  const result = await updateAccountWorkflow({ userId, actingUserId, accountId, name, code, parentId })
+
+  if (result.isSuccess) {
+    return res.json({
+      account: result.value,
+      message: 'Account updated successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * POST /api/ledger/accounts/:accountId/archive
+ * Archive an account. Its history stays in ledgers and reports, but new journal entries
+ * against it are rejected (AccountArchived) until it is unarchived.
+ *
+ * Responses:
+ * - 200: Account archived (archiving twice keeps the original time)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Account not found
+ * - 500: Internal server error
+ */
+router.post('/accounts/:accountId/archive', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { accountId } = req.params
+
+  const result = await archiveAccountWorkflow({ userId, actingUserId, accountId, archived: true })
+
+  if (result.isSuccess) {
+    return res.json({
+      account: result.value,
+      message: 'Account archived successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * POST /api/ledger/accounts/:accountId/unarchive
+ * Reopen an archived account for new journal entries.
+ *
+ * Responses:
+ * - 200: Account unarchived
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Account not found
+ * - 500: Internal server error
+ */
+router.post('/accounts/:accountId/unarchive', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { accountId } = req.params
+
+  const result = await archiveAccountWorkflow({ userId, actingUserId, accountId, archived: false })
+
+  if (result.isSuccess) {
+    return res.json({
+      account: result.value,
+      message: 'Account unarchived successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/ledger/posting-configuration
+ * Show the account each posting role resolves to. Sales and Purchasing workflows post to these accounts.
+ * A mapped role uses the account the user chose; an unmapped role uses the account with its default code.
+ *
+ * Responses:
+ * - 200: One entry per posting role (account is null when nothing resolves)
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/posting-configuration', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+
+  const result = await getPostingConfigurationWorkflow(userId)
+
+  if (result.isSuccess) {
+    return res.json({
+      configuration: result.value,
+      count: result.value.length
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * PUT /api/ledger/posting-configuration/:role
+ * Map a posting role to one of the user's accounts, replacing any previous mapping.
+ *
+ * Path Parameters:
+ *   role (string) - Cash, AccountsReceivable, AccountsPayable, NotesPayable, UnearnedRevenue,
+ *                   DefaultRevenue, DefaultExpense or InterestExpense
+ *
+ * Request Body:
+ * {
+ *   "accountId": "string" (required, an account of the type the role requires)
+ * }
+ *
+ * Responses:
+ * - 200: Mapping saved
+ * - 400: Validation error (InvalidPostingRole, PostingAccountTypeMismatch, AccountArchived)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Account not found
+ * - 500: Internal server error
+ */
+router.put('/posting-configuration/:role', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { role } = req.params
+  const { accountId } = req.body ?? {}
+
+  if (!accountId || typeof accountId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'accountId is required and must be a string'
+    })
+    return
+  }
+
+  const result = await setPostingMappingWorkflow({ userId, actingUserId, role, accountId })
+
+  if (result.isSuccess) {
+    return res.json({
+      mapping: result.value,
+      message: 'Posting mapping saved successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * DELETE /api/ledger/posting-configuration/:role
+ * Remove a posting role's mapping; the role falls back to its default account code.
+ *
+ * Responses:
+ * - 200: Mapping removed
+ * - 400: Invalid posting role
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: The role is not mapped
+ * - 500: Internal server error
+ */
+router.delete('/posting-configuration/:role', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { role } = req.params
+
+  const result = await removePostingMappingWorkflow({ userId, actingUserId, role })
+
+  if (result.isSuccess) {
+    return res.json({
+      mapping: result.value,
+      message: 'Posting mapping removed successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/ledger/journal-entries
+ * List journal entries for a user, ordered by date descending.
+ *
+ * Query Parameters:
+ *   skip (number, optional) - pagination offset
+ *   take (number, optional) - pagination limit
+ *
+ * Responses:
+ * - 200: List of journal entries
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/journal-entries', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { skip, take } = req.query
 
   const options: { skip?: number; take?: number } = {}
   if (skip !== undefined) {
@@ -308,30 +590,19 @@ router.get('/journal-entries', wrapAsyncRoute(async (req, res) => {
 
 /**
  * GET /api/ledger/journal-entries/:entryId
- * Retrieve a specific journal entry by ID.
- *
- * Query Parameters:
- *   userId (string) - required, the user's ID (for isolation)
+ * Retrieve a specific journal entry by ID, with its reversal references
+ * (reversesEntryId on a reversal, reversedByEntryId on a reversed entry).
  *
  * Responses:
  * - 200: Journal entry found
- * - 400: Missing or invalid userId
+ * - 401: Not authenticated (missing or expired session)
  * - 404: Journal entry not found
  * - 500: Internal server error
  */
 router.get('/journal-entries/:entryId', wrapAsyncRoute(async (req, res) => {
-  const { userId } = req.query
+  const { userId } = res.locals
   const { entryId } = req.params
 
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
-
   const result = await findJournalEntryById(userId, entryId)
 
   if (result.isSuccess) {
@@ -352,15 +623,57 @@ router.get('/journal-entries/:entryId', wrapAsyncRoute(async (req, res) => {
 }))
 
 /**
- * GET /api/ledger/health
- * Health check for ledger routes.
+ * POST /api/ledger/journal-entries/:entryId/reverse
+ * Reverse a posted journal entry with a mirror entry (every Debit/Credit swapped), linked to the original.
+ *
+ * Request Body:
+ * {
+ *   "date": "string" (required, ISO 8601 date within an open period, not before the original entry),
+ *   "description": "string" (optional, defaults to "Reversal of <original description>")
+ * }
+ *
+ * Responses:
+ * - 201: Reversal entry posted
+ * - 400: Validation error, date outside an open period (PeriodNotOpen), invalid reversal date,
+ *        entry already reversed (JournalEntryAlreadyReversed), entry posted by a business document such as
+ *        an invoice or payment (EntryOwnedByDocument), or an archived account (AccountArchived)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Journal entry not found
+ * - 500: Internal server error
  */
-router.get('/health', (req, res) => {
-  res.json({
-    status: 'ok',
-    context: 'ledger',
-    timestamp: new Date().toISOString()
-  })
-})
+router.post('/journal-entries/:entryId/reverse', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { entryId } = req.params
+  const { date, description } = req.body ?? {}
+
+  if (!date) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'date is required'
+    })
+    return
+  }
+  if (typeof date !== 'string' || (description !== undefined && typeof description !== 'string')) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'date and description must be strings'
+    })
+    return
+  }
+
+  const result = await reverseJournalEntryWorkflow({ userId, actingUserId, entryId, date, description })
+
+  if (result.isSuccess) {
+    return res.status(201).json({
+      journalEntry: result.value,
+      message: 'Journal entry reversed successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
 
 export { router as ledgerRoutes }
\ No newline at end of file
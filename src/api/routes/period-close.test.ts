@@ -26,6 +26,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -42,6 +43,14 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
     return user.id
   }
 
+  // Helper to start a session for a user and return the session cookie
+  const loginAs = async (userId: string) => {
+    const session = await prisma.session.create({
+      data: { userId, expiresAt: new Date(Date.now() + 60 * 60 * 1000) }
+    })
+    return `session=${session.id}`
+  }
+
   // Helper to create a test account and return its ID
   const createTestAccount = async (userId: string, code: string = '101', name: string = 'Cash', type: 'Asset' | 'Liability' | 'Equity' | 'Revenue' | 'Expense' = 'Asset', normalBalance: 'Debit' | 'Credit' = 'Debit') => {
     const account = await prisma.account.create({
@@ -73,8 +82,8 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
   describe('POST /api/period-close/periods', () => {
     it('should create a period with valid data', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const periodData = {
-        userId,
         name: 'January 2025',
         startDate: '2025-01-01T00:00:00Z',
         endDate: '2025-01-31T23:59:59Z'
@@ -82,6 +91,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/period-close/periods')
+        .set('Cookie', cookie)
         .send(periodData)
         .expect(201)
 
@@ -105,27 +115,28 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
     it('should reject duplicate period name for the same user', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       // First period
       const first = {
-        userId,
         name: 'January 2025',
         startDate: '2025-01-01T00:00:00Z',
         endDate: '2025-01-31T23:59:59Z'
       }
       await request(app)
         .post('/api/period-close/periods')
+        .set('Cookie', cookie)
         .send(first)
         .expect(201)
 
       // Second period with same name
       const second = {
-        userId,
         name: 'January 2025',
         startDate: '2025-02-01T00:00:00Z',
         endDate: '2025-02-28T23:59:59Z'
       }
       const response = await request(app)
         .post('/api/period-close/periods')
+        .set('Cookie', cookie)
         .send(second)
         .expect(409)
 
@@ -146,12 +157,14 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
       await request(app)
         .post('/api/period-close/periods')
-        .send({ ...periodData, userId: user1 })
+        .set('Cookie', await loginAs(user1))
+        .send(periodData)
         .expect(201)
 
       await request(app)
         .post('/api/period-close/periods')
-        .send({ ...periodData, userId: user2 })
+        .set('Cookie', await loginAs(user2))
+        .send(periodData)
         .expect(201)
 
       // Both should exist
@@ -163,8 +176,8 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
     it('should reject invalid date range (startDate >= endDate)', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const invalid = {
-        userId,
         name: 'Invalid Range',
         startDate: '2025-01-31T00:00:00Z',
         endDate: '2025-01-01T00:00:00Z'
@@ -172,6 +185,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/period-close/periods')
+        .set('Cookie', cookie)
         .send(invalid)
         .expect(400)
 
@@ -182,8 +196,8 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
     it('should reject missing required field', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const missingName = {
-        userId,
         startDate: '2025-01-01T00:00:00Z',
         endDate: '2025-01-31T23:59:59Z'
         // name omitted
@@ -191,6 +205,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/period-close/periods')
+        .set('Cookie', cookie)
         .send(missingName)
         .expect(400)
 
@@ -200,8 +215,8 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
     it('should reject invalid date format', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const invalidDate = {
-        userId,
         name: 'Invalid Date',
         startDate: 'not-a-date',
         endDate: '2025-01-31T23:59:59Z'
@@ -209,6 +224,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/period-close/periods')
+        .set('Cookie', cookie)
         .send(invalidDate)
         .expect(400)
 
@@ -220,6 +236,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
   describe('GET /api/period-close/periods', () => {
     it('should list periods for a user', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       // Create a few periods
       await createTestPeriod(userId, 'January 2025')
       await createTestPeriod(userId, 'February 2025', new Date('2025-02-01T00:00:00Z'), new Date('2025-02-28T23:59:59Z'))
@@ -227,7 +244,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .get('/api/period-close/periods')
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(200)
 
       expect(response.body.periods).toHaveLength(3)
@@ -240,6 +257,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
     it('should filter periods by status', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       // Create one open and one closed period
       await createTestPeriod(userId, 'January 2025', new Date('2025-01-01T00:00:00Z'), new Date('2025-01-31T23:59:59Z'), 'Open')
       await createTestPeriod(userId, 'December 2024', new Date('2024-12-01T00:00:00Z'), new Date('2024-12-31T23:59:59Z'), 'Closed')
@@ -247,7 +265,8 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
       // Filter by open
       const openResponse = await request(app)
         .get('/api/period-close/periods')
-        .query({ userId, status: 'Open' })
+        .set('Cookie', cookie)
+        .query({ status: 'Open' })
         .expect(200)
 
       expect(openResponse.body.periods).toHaveLength(1)
@@ -256,32 +275,34 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
       // Filter by closed
       const closedResponse = await request(app)
         .get('/api/period-close/periods')
-        .query({ userId, status: 'Closed' })
+        .set('Cookie', cookie)
+        .query({ status: 'Closed' })
         .expect(200)
 
       expect(closedResponse.body.periods).toHaveLength(1)
       expect(closedResponse.body.periods[0].name).toBe('December 2024')
     })
 
-    it('should reject missing userId', async () => {
+    it('should reject a request without a session cookie', async () => {
       const response = await request(app)
         .get('/api/period-close/periods')
-        .expect(400)
+        .expect(401)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('MissingField')
-      expect(response.body.error.message).toMatch(/userId query parameter is required/)
+      expect(response.body.error.subtype).toBe('Unauthenticated')
+      expect(response.body.error.message).toMatch(/Authentication required/)
     })
   })
 
   describe('POST /api/period-close/periods/:periodId/close', () => {
     it('should close an open period', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const periodId = await createTestPeriod(userId, 'January 2025')
 
       const response = await request(app)
         .post(`/api/period-close/periods/${periodId}/close`)
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(200)
 
       expect(response.body.period.status).toBe('Closed')
@@ -298,11 +319,12 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
     it('should reject closing a period that is already closed', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const periodId = await createTestPeriod(userId, 'January 2025', new Date('2025-01-01T00:00:00Z'), new Date('2025-01-31T23:59:59Z'), 'Closed')
 
       const response = await request(app)
         .post(`/api/period-close/periods/${periodId}/close`)
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(400)
 
       expect(response.body.error.type).toBe('DomainFailure')
@@ -312,27 +334,32 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
     it('should reject closing a period that does not exist', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const fakePeriodId = '550e8400-e29b-41d4-a716-446655440000'
 
       const response = await request(app)
         .post(`/api/period-close/periods/${fakePeriodId}/close`)
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(404)
 
       expect(response.body.error.type).toBe('DomainFailure')
       expect(response.body.error.subtype).toBe('PeriodNotFound')
     })
 
-    it('should reject missing userId', async () => {
+    it('should reject a request without a session cookie', async () => {
       const userId = await createTestUser()
       const periodId = await createTestPeriod(userId)
 
       const response = await request(app)
         .post(`/api/period-close/periods/${periodId}/close`)
-        .expect(400)
+        .expect(401)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('MissingField')
+      expect(response.body.error.subtype).toBe('Unauthenticated')
+
+      // Period must remain open
+      const dbPeriod = await prisma.period.findUnique({ where: { id: periodId } })
+      expect(dbPeriod?.status).toBe('Open')
     })
 
     it('should reject periodId belonging to another user', async () => {
@@ -342,7 +369,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post(`/api/period-close/periods/${periodId}/close`)
-        .query({ userId: user2 })
+        .set('Cookie', await loginAs(user2))
         .expect(404)
 
       expect(response.body.error.type).toBe('DomainFailure')
@@ -353,13 +380,13 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
   describe('POST /api/period-close/manual-journal-entries', () => {
     it('should post a manual journal entry within an open period', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       // Create an open period covering the entry date
       await createTestPeriod(userId, 'January 2025', new Date('2025-01-01T00:00:00Z'), new Date('2025-01-31T23:59:59Z'), 'Open')
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
 
       const entry = {
-        userId,
         description: 'Manual adjusting entry',
         date: '2025-01-15T00:00:00Z',
         lines: [
@@ -370,6 +397,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/period-close/manual-journal-entries')
+        .set('Cookie', cookie)
         .send(entry)
         .expect(201)
 
@@ -380,13 +408,13 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
     it('should reject manual journal entry when date is not within an open period', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       // Create an open period, but the entry date is outside
       await createTestPeriod(userId, 'January 2025', new Date('2025-01-01T00:00:00Z'), new Date('2025-01-31T23:59:59Z'), 'Open')
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
 
       const entry = {
-        userId,
         description: 'Outside period',
         date: '2025-02-15T00:00:00Z', // February, outside January
         lines: [
@@ -397,6 +425,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/period-close/manual-journal-entries')
+        .set('Cookie', cookie)
         .send(entry)
         .expect(400)
 
@@ -407,13 +436,13 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
     it('should reject manual journal entry when all periods are closed', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       // Create only a closed period
       await createTestPeriod(userId, 'January 2025', new Date('2025-01-01T00:00:00Z'), new Date('2025-01-31T23:59:59Z'), 'Closed')
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
 
       const entry = {
-        userId,
         description: 'No open period',
         date: '2025-01-15T00:00:00Z', // Inside the closed period
         lines: [
@@ -424,6 +453,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/period-close/manual-journal-entries')
+        .set('Cookie', cookie)
         .send(entry)
         .expect(400)
 
@@ -433,12 +463,12 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
     it('should reject unbalanced manual journal entry', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       await createTestPeriod(userId, 'January 2025', new Date('2025-01-01T00:00:00Z'), new Date('2025-01-31T23:59:59Z'), 'Open')
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
 
       const entry = {
-        userId,
         description: 'Unbalanced',
         date: '2025-01-15T00:00:00Z',
         lines: [
@@ -449,6 +479,7 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/period-close/manual-journal-entries')
+        .set('Cookie', cookie)
         .send(entry)
         .expect(400)
 
@@ -458,8 +489,10 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
 
     it('should reject missing required fields', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const response = await request(app)
         .post('/api/period-close/manual-journal-entries')
+        .set('Cookie', cookie)
         .send({})
         .expect(400)
 
@@ -468,6 +501,101 @@ describe('PeriodClose Context: API Routes (Integration)', () => {
     })
   })
 
+  describe('Collaborator access (X-Book-Owner-Id)', () => {
+    // Helper to invite a collaborator into the owner's books and return the collaborator's session cookie
+    const inviteAs = async (ownerId: string, username: string, role: 'Viewer' | 'Bookkeeper' | 'Accountant') => {
+      const collaboratorId = await createTestUser(username)
+      await prisma.collaborator.create({ data: { ownerId, userId: collaboratorId, role } })
+      return loginAs(collaboratorId)
+    }
+
+    it('should let an accountant close a period in the owner\'s books', async () => {
+      const ownerId = await createTestUser('book_owner')
+      const periodId = await createTestPeriod(ownerId)
+      const cookie = await inviteAs(ownerId, 'accountant', 'Accountant')
+
+      const response = await request(app)
+        .post(`/api/period-close/periods/${periodId}/close`)
+        .set('Cookie', cookie)
+        .set('X-Book-Owner-Id', ownerId)
+        .expect(200)
+
+      expect(response.body.period.status).toBe('Closed')
+      expect(response.body.period.userId).toBe(ownerId)
+    })
+
+    it('should forbid a bookkeeper from closing a period', async () => {
+      const ownerId = await createTestUser('book_owner')
+      const periodId = await createTestPeriod(ownerId)
+      const cookie = await inviteAs(ownerId, 'bookkeeper', 'Bookkeeper')
+
+      const response = await request(app)
+        .post(`/api/period-close/periods/${periodId}/close`)
+        .set('Cookie', cookie)
+        .set('X-Book-Owner-Id', ownerId)
+        .expect(403)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('PermissionDenied')
+
+      const dbPeriod = await prisma.period.findUnique({ where: { id: periodId } })
+      expect(dbPeriod?.status).toBe('Open')
+    })
+
+    it('should forbid a bookkeeper from posting a manual journal entry', async () => {
+      const ownerId = await createTestUser('book_owner')
+      await createTestPeriod(ownerId)
+      const cashAccountId = await createTestAccount(ownerId, '101', 'Cash', 'Asset', 'Debit')
+      const revenueAccountId = await createTestAccount(ownerId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      const cookie = await inviteAs(ownerId, 'bookkeeper', 'Bookkeeper')
+
+      const response = await request(app)
+        .post('/api/period-close/manual-journal-entries')
+        .set('Cookie', cookie)
+        .set('X-Book-Owner-Id', ownerId)
+        .send({
+          description: 'Adjusting entry',
+          date: '2025-01-15T00:00:00Z',
+          lines: [
+            { accountId: cashAccountId, amount: 100, side: 'Debit' },
+            { accountId: revenueAccountId, amount: 100, side: 'Credit' }
+          ]
+        })
+        .expect(403)
+
+      expect(response.body.error.subtype).toBe('PermissionDenied')
+      expect(await prisma.journalEntry.count()).toBe(0)
+    })
+
+    it('should let a viewer list the owner\'s periods', async () => {
+      const ownerId = await createTestUser('book_owner')
+      await createTestPeriod(ownerId)
+      const cookie = await inviteAs(ownerId, 'viewer', 'Viewer')
+
+      const response = await request(app)
+        .get('/api/period-close/periods')
+        .set('Cookie', cookie)
+        .set('X-Book-Owner-Id', ownerId)
+        .expect(200)
+
+      expect(response.body.count).toBe(1)
+    })
+
+    it('should forbid a user who is not a collaborator', async () => {
+      const ownerId = await createTestUser('book_owner')
+      await createTestPeriod(ownerId)
+      const strangerId = await createTestUser('stranger')
+
+      const response = await request(app)
+        .get('/api/period-close/periods')
+        .set('Cookie', await loginAs(strangerId))
+        .set('X-Book-Owner-Id', ownerId)
+        .expect(403)
+
+      expect(response.body.error.subtype).toBe('PermissionDenied')
+    })
+  })
+
   describe('GET /api/period-close/health', () => {
     it('should return health status', async () => {
       const response = await request(app)
@@ -4,16 +4,33 @@ import { closePeriodWorkflow, ClosePeriodCommand } from '@/bounded-contexts/peri
 import { postManualJournalEntryWorkflow, PostManualJournalEntryCommand } from '@/bounded-contexts/period-close/application/postManualJournalEntryWorkflow'
 import { listPeriods } from '@/bounded-contexts/period-close/infrastructure/periodRepo'
 import { sendErrorResponse, wrapAsyncRoute } from '@/common/infrastructure/errorMapper'
+import { requireSession } from '@/api/middleware/session'
+import { requireBookAccess } from '@/api/middleware/bookAccess'
 
 const router = Router()
 
+/**
+ * GET /api/period-close/health
+ * Health check for period-close routes.
+ */
+router.get('/health', (req, res) => {
+  res.json({
+    status: 'ok',
+    context: 'period-close',
+    timestamp: new Date().toISOString()
+  })
+})
+
+// Every route below acts on behalf of the user resolved from the session cookie,
+// in their own books or in the books named by the X-Book-Owner-Id header
+router.use(requireSession, requireBookAccess)
+
 /**
  * POST /api/period-close/periods
  * Create a new accounting period (month/quarter/year) for a user.
  *
  * Request Body:
  * {
- *   "userId": "string" (required, UUID),
  *   "name": "string" (required, 1-100 characters, e.g., "January 2025"),
  *   "startDate": "string" (required, ISO 8601),
  *   "endDate": "string" (required, ISO 8601, must be after startDate)
@@ -22,21 +39,16 @@ const router = Router()
  * Responses:
  * - 201: Period created successfully
  * - 400: Validation error (domain failure)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
  * - 409: Duplicate period name for the same user
  * - 500: Internal server error
  */
 router.post('/periods', wrapAsyncRoute(async (req, res) => {
-  const { userId, name, startDate, endDate } = req.body
+  const { userId, actingUserId } = res.locals
+  const { name, startDate, endDate } = req.body
 
   // Basic validation
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId is required and must be a string'
-    })
-    return
-  }
   if (!name || typeof name !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -62,7 +74,7 @@ router.post('/periods', wrapAsyncRoute(async (req, res) => {
     return
   }
 
-  const command: CreatePeriodCommand = { userId, name, startDate, endDate }
+  const command: CreatePeriodCommand = { userId, actingUserId, name, startDate, endDate }
   const result = await createPeriodWorkflow(command)
 
   if (result.isSuccess) {
@@ -80,25 +92,16 @@ router.post('/periods', wrapAsyncRoute(async (req, res) => {
  * List periods for a user, optionally filtered by status.
  *
  * Query Parameters:
- *   userId (string) - required, the user's ID
  *   status (string, optional) - 'Open' or 'Closed'
  *
  * Responses:
  * - 200: List of periods
- * - 400: Missing or invalid userId
+ * - 401: Not authenticated (missing or expired session)
  * - 500: Internal server error
  */
 router.get('/periods', wrapAsyncRoute(async (req, res) => {
-  const { userId, status } = req.query
-
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
+  const { userId } = res.locals
+  const { status } = req.query
 
   const filters = status && (status === 'Open' || status === 'Closed')
     ? { status: status as 'Open' | 'Closed' }
@@ -123,28 +126,19 @@ router.get('/periods', wrapAsyncRoute(async (req, res) => {
  * Path Parameters:
  *   periodId (string) - required, the period's ID
  *
- * Query Parameters:
- *   userId (string) - required, the user's ID (for isolation)
- *
  * Responses:
  * - 200: Period closed successfully
- * - 400: Missing userId, invalid periodId
+ * - 400: Invalid periodId
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
  * - 404: Period not found
  * - 409: Period already closed
  * - 500: Internal server error
  */
 router.post('/periods/:periodId/close', wrapAsyncRoute(async (req, res) => {
-  const { userId } = req.query
+  const { userId, actingUserId } = res.locals
   const { periodId } = req.params
 
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
   if (!periodId || typeof periodId !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -154,7 +148,7 @@ router.post('/periods/:periodId/close', wrapAsyncRoute(async (req, res) => {
     return
   }
 
-  const command: ClosePeriodCommand = { userId, periodId }
+  const command: ClosePeriodCommand = { userId, actingUserId, periodId }
   const result = await closePeriodWorkflow(command)
 
   if (result.isSuccess) {
@@ -173,7 +167,6 @@ router.post('/periods/:periodId/close', wrapAsyncRoute(async (req, res) => {
  *
  * Request Body:
  * {
- *   "userId": "string",
  *   "entryNumber": "string" (optional),
  *   "description": "string",
  *   "date": "string" (ISO 8601),
@@ -189,21 +182,16 @@ router.post('/periods/:periodId/close', wrapAsyncRoute(async (req, res) => {
  * Responses:
  * - 201: Manual journal entry posted successfully
  * - 400: Validation error (domain failure, e.g., date not in open period)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
  * - 404: Account not found, etc.
  * - 500: Internal server error
  */
 router.post('/manual-journal-entries', wrapAsyncRoute(async (req, res) => {
-  const { userId, entryNumber, description, date, lines } = req.body
+  const { userId, actingUserId } = res.locals
+  const { entryNumber, description, date, lines } = req.body
 
   // Basic validation (similar to ledger journal entry)
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId is required and must be a string'
-    })
-    return
-  }
   if (!description || typeof description !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -241,7 +229,7 @@ router.post('/manual-journal-entries', wrapAsyncRoute(async (req, res) => {
     }
   }
 
-  const command: PostManualJournalEntryCommand = { userId, entryNumber, description, date, lines }
+  const command: PostManualJournalEntryCommand = { userId, actingUserId, entryNumber, description, date, lines }
   const result = await postManualJournalEntryWorkflow(command)
 
   if (result.isSuccess) {
@@ -254,16 +242,4 @@ router.post('/manual-journal-entries', wrapAsyncRoute(async (req, res) => {
   }
 }))
 
-/**
- * GET /api/period-close/health
- * Health check for period-close routes.
- */
-router.get('/health', (req, res) => {
-  res.json({
-    status: 'ok',
-    context: 'period-close',
-    timestamp: new Date().toISOString()
-  })
-})
-
 export { router as periodCloseRoutes }
\ No newline at end of file
@@ -27,6 +27,7 @@ describe('Purchasing Context: API Routes (Integration)', () => {
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -43,6 +44,14 @@ describe('Purchasing Context: API Routes (Integration)', () => {
     return user.id
   }
 
+  // Helper to start a session for a user and return the session cookie
+  const loginAs = async (userId: string) => {
+    const session = await prisma.session.create({
+      data: { userId, expiresAt: new Date(Date.now() + 60 * 60 * 1000) }
+    })
+    return `session=${session.id}`
+  }
+
   // Helper to create a test account and return its ID
   const createTestAccount = async (
     userId: string,
@@ -82,14 +91,15 @@ describe('Purchasing Context: API Routes (Integration)', () => {
   describe('POST /api/purchasing/vendors', () => {
     it('should create a vendor with valid data', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const vendorData = {
-        userId,
         name: 'Acme Supplies',
         email: 'acme@example.com'
       }
 
       const response = await request(app)
         .post('/api/purchasing/vendors')
+        .set('Cookie', cookie)
         .send(vendorData)
         .expect(201)
 
@@ -112,13 +122,14 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
     it('should create a vendor without email', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const vendorData = {
-        userId,
         name: 'Acme Supplies'
       }
 
       const response = await request(app)
         .post('/api/purchasing/vendors')
+        .set('Cookie', cookie)
         .send(vendorData)
         .expect(201)
 
@@ -126,7 +137,7 @@ describe('Purchasing Context: API Routes (Integration)', () => {
       expect(response.body.vendor.name).toBe('Acme Supplies')
     })
 
-    it('should reject missing userId', async () => {
+    it('should reject a request without a session cookie', async () => {
       const vendorData = {
         name: 'Acme Supplies'
       }
@@ -134,21 +145,22 @@ describe('Purchasing Context: API Routes (Integration)', () => {
       const response = await request(app)
         .post('/api/purchasing/vendors')
         .send(vendorData)
-        .expect(400)
+        .expect(401)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('MissingField')
-      expect(response.body.error.message).toMatch(/userId is required/)
+      expect(response.body.error.subtype).toBe('Unauthenticated')
+      expect(response.body.error.message).toMatch(/Authentication required/)
     })
 
     it('should reject missing name', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const vendorData = {
-        userId
       }
 
       const response = await request(app)
         .post('/api/purchasing/vendors')
+        .set('Cookie', cookie)
         .send(vendorData)
         .expect(400)
 
@@ -159,14 +171,15 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
     it('should reject invalid email format', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const vendorData = {
-        userId,
         name: 'Acme Supplies',
         email: 'not-an-email'
       }
 
       const response = await request(app)
         .post('/api/purchasing/vendors')
+        .set('Cookie', cookie)
         .send(vendorData)
         .expect(400)
 
@@ -178,13 +191,14 @@ describe('Purchasing Context: API Routes (Integration)', () => {
   describe('GET /api/purchasing/vendors', () => {
     it('should list vendors for a user', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       // Create two vendors for this user
       await createTestVendor(userId, 'Vendor A')
       await createTestVendor(userId, 'Vendor B', 'b@example.com')
 
       const response = await request(app)
         .get('/api/purchasing/vendors')
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(200)
 
       expect(response.body.vendors).toHaveLength(2)
@@ -196,37 +210,37 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
     it('should return empty list when user has no vendors', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
 
       const response = await request(app)
         .get('/api/purchasing/vendors')
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(200)
 
       expect(response.body.vendors).toEqual([])
       expect(response.body.count).toBe(0)
     })
 
-    it('should reject missing userId query parameter', async () => {
+    it('should reject a request without a session cookie', async () => {
       const response = await request(app)
         .get('/api/purchasing/vendors')
-        .expect(400)
+        .expect(401)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('MissingField')
-      expect(response.body.error.message).toMatch(/userId query parameter is required/)
+      expect(response.body.error.subtype).toBe('Unauthenticated')
     })
   })
 
   describe('POST /api/purchasing/vendor-bills', () => {
     it('should record a vendor bill successfully', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const vendorId = await createTestVendor(userId, 'Bill Vendor')
       // Create required accounts: 201 (Accounts Payable) and 501 (Salaries Expense)
       const apAccountId = await createTestAccount(userId, '201', 'Accounts Payable', 'Liability', 'Credit')
       const expenseAccountId = await createTestAccount(userId, '501', 'Salaries Expense', 'Expense', 'Debit')
 
       const billData = {
-        userId,
         vendorId,
         billNumber: 'BILL-001',
         amount: 1500.50,
@@ -237,6 +251,7 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/purchasing/vendor-bills')
+        .set('Cookie', cookie)
         .send(billData)
         .expect(201)
 
@@ -262,10 +277,10 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
     it('should reject missing required fields', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const vendorId = await createTestVendor(userId)
 
       const missingAmount = {
-        userId,
         vendorId,
         billNumber: 'BILL-001',
         date: '2025-01-15T00:00:00Z'
@@ -273,6 +288,7 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/purchasing/vendor-bills')
+        .set('Cookie', cookie)
         .send(missingAmount)
         .expect(400)
 
@@ -283,12 +299,12 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
     it('should reject duplicate bill number for same user', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const vendorId = await createTestVendor(userId)
       await createTestAccount(userId, '201', 'Accounts Payable', 'Liability', 'Credit')
       await createTestAccount(userId, '501', 'Salaries Expense', 'Expense', 'Debit')
 
       const firstBill = {
-        userId,
         vendorId,
         billNumber: 'DUPLICATE-001',
         amount: 1000,
@@ -296,11 +312,11 @@ describe('Purchasing Context: API Routes (Integration)', () => {
       }
       await request(app)
         .post('/api/purchasing/vendor-bills')
+        .set('Cookie', cookie)
         .send(firstBill)
         .expect(201)
 
       const secondBill = {
-        userId,
         vendorId,
         billNumber: 'DUPLICATE-001',
         amount: 2000,
@@ -308,6 +324,7 @@ describe('Purchasing Context: API Routes (Integration)', () => {
       }
       const response = await request(app)
         .post('/api/purchasing/vendor-bills')
+        .set('Cookie', cookie)
         .send(secondBill)
         .expect(409)
 
@@ -317,12 +334,12 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
     it('should return 404 when vendor does not exist', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const fakeVendorId = '550e8400-e29b-41d4-a716-446655440000'
       await createTestAccount(userId, '201', 'AP', 'Liability', 'Credit')
       await createTestAccount(userId, '501', 'Expense', 'Expense', 'Debit')
 
       const billData = {
-        userId,
         vendorId: fakeVendorId,
         billNumber: 'BILL-001',
         amount: 1000,
@@ -331,6 +348,7 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/purchasing/vendor-bills')
+        .set('Cookie', cookie)
         .send(billData)
         .expect(404)
 
@@ -339,9 +357,283 @@ describe('Purchasing Context: API Routes (Integration)', () => {
     })
   })
 
+  describe('POST /api/purchasing/vendor-bills/:billId/payments', () => {
+    // Helper to record a bill through the API so the payment has something to settle
+    const setupBill = async (amount: number = 1000) => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const vendorId = await createTestVendor(userId, 'Bill Vendor')
+      await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      await createTestAccount(userId, '201', 'Accounts Payable', 'Liability', 'Credit')
+      await createTestAccount(userId, '501', 'Salaries Expense', 'Expense', 'Debit')
+      const billResponse = await request(app)
+        .post('/api/purchasing/vendor-bills')
+        .set('Cookie', cookie)
+        .send({ vendorId, billNumber: 'BILL-001', amount, date: '2025-01-15T00:00:00Z' })
+        .expect(201)
+      return { userId, cookie, vendorId, billId: billResponse.body.bill.id as string }
+    }
+
+    it('should record a partial payment and mark the bill PartiallyPaid', async () => {
+      const { cookie, vendorId, billId } = await setupBill(1000)
+
+      const response = await request(app)
+        .post(`/api/purchasing/vendor-bills/${billId}/payments`)
+        .set('Cookie', cookie)
+        .send({ amount: 400, date: '2025-01-20T00:00:00Z', method: 'Check', reference: 'CHK-100' })
+        .expect(201)
+
+      expect(response.body.payment).toMatchObject({
+        billId,
+        amount: 400,
+        method: 'Check',
+        reference: 'CHK-100'
+      })
+      expect(response.body.message).toBe('Bill payment recorded successfully')
+
+      const dbBill = await prisma.vendorBill.findUnique({ where: { id: billId } })
+      expect(dbBill?.status).toBe('PartiallyPaid')
+      const dbVendor = await prisma.vendor.findUnique({ where: { id: vendorId } })
+      expect(Number(dbVendor?.balance)).toBe(600)
+    })
+
+    it('should mark the bill Paid once the open amount is settled', async () => {
+      const { cookie, billId } = await setupBill(1000)
+
+      await request(app)
+        .post(`/api/purchasing/vendor-bills/${billId}/payments`)
+        .set('Cookie', cookie)
+        .send({ amount: 1000, date: '2025-01-20T00:00:00Z', method: 'BankTransfer' })
+        .expect(201)
+
+      const dbBill = await prisma.vendorBill.findUnique({ where: { id: billId } })
+      expect(dbBill?.status).toBe('Paid')
+    })
+
+    it('should reject an overpayment', async () => {
+      const { cookie, billId } = await setupBill(1000)
+
+      const response = await request(app)
+        .post(`/api/purchasing/vendor-bills/${billId}/payments`)
+        .set('Cookie', cookie)
+        .send({ amount: 1000.01, date: '2025-01-20T00:00:00Z', method: 'Cash' })
+        .expect(400)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('PaymentExceedsOpenAmount')
+    })
+
+    it('should reject a missing payment method', async () => {
+      const { cookie, billId } = await setupBill()
+
+      const response = await request(app)
+        .post(`/api/purchasing/vendor-bills/${billId}/payments`)
+        .set('Cookie', cookie)
+        .send({ amount: 100, date: '2025-01-20T00:00:00Z' })
+        .expect(400)
+
+      expect(response.body.error.type).toBe('ApplicationFailure')
+      expect(response.body.error.subtype).toBe('MissingField')
+      expect(response.body.error.message).toMatch(/method is required/)
+    })
+
+    it('should return 404 when the bill does not exist', async () => {
+      const { cookie } = await setupBill()
+
+      const response = await request(app)
+        .post('/api/purchasing/vendor-bills/550e8400-e29b-41d4-a716-446655440000/payments')
+        .set('Cookie', cookie)
+        .send({ amount: 100, date: '2025-01-20T00:00:00Z', method: 'Cash' })
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('BillNotFound')
+    })
+  })
+
+  describe('Loans', () => {
+    // Helper to create the accounts loan proceeds and loan payments post to
+    const createLoanAccounts = async (userId: string) => {
+      await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      await createTestAccount(userId, '251', 'Notes Payable', 'Liability', 'Credit')
+      await createTestAccount(userId, '505', 'Interest Expense', 'Expense', 'Debit')
+    }
+
+    it('should record a loan and post the proceeds', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const vendorId = await createTestVendor(userId, 'Bank')
+      await createLoanAccounts(userId)
+
+      const response = await request(app)
+        .post('/api/purchasing/loans')
+        .set('Cookie', cookie)
+        .send({ vendorId, principal: 5000, interestRate: 6, term: 12, date: '2025-01-10T00:00:00Z' })
+        .expect(201)
+
+      expect(response.body.loan).toMatchObject({
+        vendorId,
+        principal: 5000,
+        interestRate: 6,
+        term: 12
+      })
+      expect(response.body.message).toBe('Loan recorded successfully')
+
+      const dbLoan = await prisma.loan.findUnique({
+        where: { id: response.body.loan.id },
+        include: { journalEntry: { include: { lines: true } } }
+      })
+      expect(dbLoan?.journalEntry?.lines).toHaveLength(2)
+    })
+
+    it('should reject a loan without a principal', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const vendorId = await createTestVendor(userId)
+
+      const response = await request(app)
+        .post('/api/purchasing/loans')
+        .set('Cookie', cookie)
+        .send({ vendorId, date: '2025-01-10T00:00:00Z' })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('MissingField')
+      expect(response.body.error.message).toMatch(/principal must be a positive number/)
+    })
+
+    it('should list loans and filter them by vendor', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const bankId = await createTestVendor(userId, 'Bank')
+      const otherId = await createTestVendor(userId, 'Other Lender')
+      await createLoanAccounts(userId)
+      for (const [vendorId, principal] of [[bankId, 1000], [bankId, 2000], [otherId, 3000]] as const) {
+        await request(app)
+          .post('/api/purchasing/loans')
+          .set('Cookie', cookie)
+          .send({ vendorId, principal, date: '2025-01-10T00:00:00Z' })
+          .expect(201)
+      }
+
+      const all = await request(app)
+        .get('/api/purchasing/loans')
+        .set('Cookie', cookie)
+        .expect(200)
+      expect(all.body.count).toBe(3)
+
+      const filtered = await request(app)
+        .get(`/api/purchasing/loans?vendorId=${bankId}`)
+        .set('Cookie', cookie)
+        .expect(200)
+      expect(filtered.body.count).toBe(2)
+      expect(filtered.body.loans.every((loan: any) => loan.vendorId === bankId)).toBe(true)
+    })
+
+    it('should show remaining principal and payment history on the loan detail', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const vendorId = await createTestVendor(userId, 'Bank')
+      await createLoanAccounts(userId)
+      const loanResponse = await request(app)
+        .post('/api/purchasing/loans')
+        .set('Cookie', cookie)
+        .send({ vendorId, principal: 1000, date: '2025-01-10T00:00:00Z' })
+        .expect(201)
+      const loanId = loanResponse.body.loan.id
+      await request(app)
+        .post('/api/purchasing/loan-payments')
+        .set('Cookie', cookie)
+        .send({ loanId, principalAmount: 300, interestAmount: 15, date: '2025-02-10T00:00:00Z' })
+        .expect(201)
+
+      const response = await request(app)
+        .get(`/api/purchasing/loans/${loanId}`)
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.loan.id).toBe(loanId)
+      expect(response.body.payments).toHaveLength(1)
+      expect(response.body.payments[0]).toMatchObject({ principalAmount: 300, interestAmount: 15 })
+      expect(response.body.remainingPrincipal).toBe(700)
+      expect(response.body.originalPrincipal).toBe(1000)
+    })
+
+    it('should return the amortization schedule and default a payment from it', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const vendorId = await createTestVendor(userId, 'Bank')
+      await createLoanAccounts(userId)
+      const loanResponse = await request(app)
+        .post('/api/purchasing/loans')
+        .set('Cookie', cookie)
+        .send({ vendorId, principal: 10000, interestRate: 6, term: 12, date: '2025-01-15T00:00:00Z' })
+        .expect(201)
+      const loanId = loanResponse.body.loan.id
+
+      // Omitting the split uses the next scheduled row
+      const paymentResponse = await request(app)
+        .post('/api/purchasing/loan-payments')
+        .set('Cookie', cookie)
+        .send({ loanId, date: '2025-02-15T00:00:00Z' })
+        .expect(201)
+      expect(paymentResponse.body.loanPayment).toMatchObject({ principalAmount: 810.66, interestAmount: 50 })
+
+      const response = await request(app)
+        .get(`/api/purchasing/loans/${loanId}/schedule`)
+        .set('Cookie', cookie)
+        .expect(200)
+
+      const schedule = response.body.schedule
+      expect(schedule.scheduledPayment).toBe(860.66)
+      expect(schedule.rows).toHaveLength(12)
+      expect(schedule.rows[0]).toMatchObject({
+        paymentNumber: 1,
+        dueDate: '2025-02-15T00:00:00.000Z',
+        payment: 860.66,
+        interest: 50,
+        principal: 810.66,
+        remainingBalance: 9189.34,
+        status: 'Paid'
+      })
+      expect(schedule.rows[11].remainingBalance).toBe(0)
+      expect(schedule.nextPayment.paymentNumber).toBe(2)
+    })
+
+    it('should reject a schedule for a loan without rate and term', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const vendorId = await createTestVendor(userId, 'Bank')
+      await createLoanAccounts(userId)
+      const loanResponse = await request(app)
+        .post('/api/purchasing/loans')
+        .set('Cookie', cookie)
+        .send({ vendorId, principal: 1000, date: '2025-01-15T00:00:00Z' })
+        .expect(201)
+
+      const response = await request(app)
+        .get(`/api/purchasing/loans/${loanResponse.body.loan.id}/schedule`)
+        .set('Cookie', cookie)
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('LoanTermsMissing')
+    })
+
+    it('should return 404 for a loan that does not exist', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .get('/api/purchasing/loans/550e8400-e29b-41d4-a716-446655440000')
+        .set('Cookie', cookie)
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('LoanNotFound')
+    })
+  })
+
   describe('POST /api/purchasing/loan-payments', () => {
     it('should record a loan payment successfully', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const vendorId = await createTestVendor(userId, 'Loan Vendor')
       // Create required accounts: 101 (Cash), 251 (Notes Payable) and 505 (Interest Expense)
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
@@ -357,8 +649,7 @@ describe('Purchasing Context: API Routes (Integration)', () => {
       })
 
       const paymentData = {
-        userId,
-        vendorId,
+        loanId: loan.id,
         principalAmount: 500,
         interestAmount: 50,
         date: '2025-01-15T00:00:00Z',
@@ -367,6 +658,7 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/purchasing/loan-payments')
+        .set('Cookie', cookie)
         .send(paymentData)
         .expect(201)
 
@@ -390,36 +682,51 @@ describe('Purchasing Context: API Routes (Integration)', () => {
       expect(dbPayment?.journalEntry?.description).toBe('Monthly loan payment')
     })
 
-    it('should reject missing required fields', async () => {
+    it('should reject an invalid principal amount', async () => {
       const userId = await createTestUser()
-      const vendorId = await createTestVendor(userId)
+      const cookie = await loginAs(userId)
 
-      const missingPrincipal = {
-        userId,
-        vendorId,
+      const invalidPrincipal = {
+        loanId: '550e8400-e29b-41d4-a716-446655440000',
+        principalAmount: -10,
         interestAmount: 50,
         date: '2025-01-15T00:00:00Z'
       }
 
       const response = await request(app)
         .post('/api/purchasing/loan-payments')
-        .send(missingPrincipal)
+        .set('Cookie', cookie)
+        .send(invalidPrincipal)
         .expect(400)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('MissingField')
+      expect(response.body.error.subtype).toBe('InvalidField')
       expect(response.body.error.message).toMatch(/principalAmount must be a positive number/)
     })
 
-    it('should return 404 when vendor does not exist', async () => {
+    it('should reject a payment without a loanId', async () => {
       const userId = await createTestUser()
-      const fakeVendorId = '550e8400-e29b-41d4-a716-446655440000'
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .post('/api/purchasing/loan-payments')
+        .set('Cookie', cookie)
+        .send({ principalAmount: 100, interestAmount: 5, date: '2025-01-15T00:00:00Z' })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('MissingField')
+      expect(response.body.error.message).toMatch(/loanId is required/)
+    })
+
+    it('should return 404 when loan does not exist', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const fakeLoanId = '550e8400-e29b-41d4-a716-446655440000'
       await createTestAccount(userId, '251', 'Notes Payable', 'Liability', 'Credit')
       await createTestAccount(userId, '505', 'Interest Expense', 'Expense', 'Debit')
 
       const paymentData = {
-        userId,
-        vendorId: fakeVendorId,
+        loanId: fakeLoanId,
         principalAmount: 500,
         interestAmount: 50,
         date: '2025-01-15T00:00:00Z'
@@ -427,24 +734,26 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/purchasing/loan-payments')
+        .set('Cookie', cookie)
         .send(paymentData)
         .expect(404)
 
       expect(response.body.error.type).toBe('DomainFailure')
-      expect(response.body.error.subtype).toBe('VendorNotFound')
+      expect(response.body.error.subtype).toBe('LoanNotFound')
     })
   })
 
   describe('POST /api/purchasing/cash-expenses', () => {
     it('should record a cash expense successfully', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const vendorId = await createTestVendor(userId, 'Expense Vendor')
-      // Create required accounts: 101 (Cash) and 501 (Salaries Expense)
+      // Create required accounts: 101 (Cash) and 503 (Office Supplies Expense) for the category
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
-      const expenseAccountId = await createTestAccount(userId, '501', 'Salaries Expense', 'Expense', 'Debit')
+      const expenseAccountId = await createTestAccount(userId, '503', 'Office Supplies Expense', 'Expense', 'Debit')
+      await prisma.expenseCategory.create({ data: { userId, name: 'Office Supplies', accountId: expenseAccountId } })
 
       const expenseData = {
-        userId,
         vendorId,
         amount: 200.75,
         date: '2025-01-15T00:00:00Z',
@@ -454,6 +763,7 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/purchasing/cash-expenses')
+        .set('Cookie', cookie)
         .send(expenseData)
         .expect(201)
 
@@ -478,10 +788,10 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
     it('should reject missing required fields', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const vendorId = await createTestVendor(userId)
 
       const missingAmount = {
-        userId,
         vendorId,
         date: '2025-01-15T00:00:00Z',
         expenseCategory: 'Travel'
@@ -489,6 +799,7 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/purchasing/cash-expenses')
+        .set('Cookie', cookie)
         .send(missingAmount)
         .expect(400)
 
@@ -499,12 +810,12 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
     it('should return 404 when vendor does not exist', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const fakeVendorId = '550e8400-e29b-41d4-a716-446655440000'
       await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       await createTestAccount(userId, '501', 'Salaries Expense', 'Expense', 'Debit')
 
       const expenseData = {
-        userId,
         vendorId: fakeVendorId,
         amount: 100,
         date: '2025-01-15T00:00:00Z',
@@ -513,6 +824,7 @@ describe('Purchasing Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/purchasing/cash-expenses')
+        .set('Cookie', cookie)
         .send(expenseData)
         .expect(404)
 
@@ -521,6 +833,126 @@ describe('Purchasing Context: API Routes (Integration)', () => {
     })
   })
 
+  describe('/api/purchasing/expense-categories', () => {
+    it('should create, list, get, update and delete an expense category', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const travelAccountId = await createTestAccount(userId, '503', 'Travel Expense', 'Expense', 'Debit')
+      const mealsAccountId = await createTestAccount(userId, '504', 'Meals Expense', 'Expense', 'Debit')
+
+      const created = await request(app)
+        .post('/api/purchasing/expense-categories')
+        .set('Cookie', cookie)
+        .send({ name: 'Travel', accountId: travelAccountId })
+        .expect(201)
+      expect(created.body.expenseCategory).toMatchObject({ name: 'Travel', accountId: travelAccountId, userId })
+      expect(created.body.message).toBe('Expense category created successfully')
+      const categoryId = created.body.expenseCategory.id
+
+      const listed = await request(app)
+        .get('/api/purchasing/expense-categories')
+        .set('Cookie', cookie)
+        .expect(200)
+      expect(listed.body.count).toBe(1)
+      expect(listed.body.expenseCategories[0].name).toBe('Travel')
+
+      const updated = await request(app)
+        .patch(`/api/purchasing/expense-categories/${categoryId}`)
+        .set('Cookie', cookie)
+        .send({ name: 'Travel & Meals', accountId: mealsAccountId })
+        .expect(200)
+      expect(updated.body.expenseCategory).toMatchObject({ name: 'Travel & Meals', accountId: mealsAccountId })
+
+      const fetched = await request(app)
+        .get(`/api/purchasing/expense-categories/${categoryId}`)
+        .set('Cookie', cookie)
+        .expect(200)
+      expect(fetched.body.expenseCategory.name).toBe('Travel & Meals')
+
+      await request(app)
+        .delete(`/api/purchasing/expense-categories/${categoryId}`)
+        .set('Cookie', cookie)
+        .expect(200)
+
+      const missing = await request(app)
+        .get(`/api/purchasing/expense-categories/${categoryId}`)
+        .set('Cookie', cookie)
+        .expect(404)
+      expect(missing.body.error.subtype).toBe('ExpenseCategoryNotFound')
+    })
+
+    it('should reject a non-Expense account and a duplicate name', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      const travelAccountId = await createTestAccount(userId, '503', 'Travel Expense', 'Expense', 'Debit')
+
+      const wrongType = await request(app)
+        .post('/api/purchasing/expense-categories')
+        .set('Cookie', cookie)
+        .send({ name: 'Travel', accountId: cashAccountId })
+        .expect(400)
+      expect(wrongType.body.error.subtype).toBe('InvalidExpenseCategoryAccount')
+
+      await request(app)
+        .post('/api/purchasing/expense-categories')
+        .set('Cookie', cookie)
+        .send({ name: 'Travel', accountId: travelAccountId })
+        .expect(201)
+
+      const duplicate = await request(app)
+        .post('/api/purchasing/expense-categories')
+        .set('Cookie', cookie)
+        .send({ name: 'Travel', accountId: travelAccountId })
+        .expect(409)
+      expect(duplicate.body.error.subtype).toBe('DuplicateExpenseCategory')
+    })
+
+    it('should reject a cash expense in an unknown category', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const vendorId = await createTestVendor(userId)
+      await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      await createTestAccount(userId, '501', 'Salaries Expense', 'Expense', 'Debit')
+
+      const response = await request(app)
+        .post('/api/purchasing/cash-expenses')
+        .set('Cookie', cookie)
+        .send({ vendorId, amount: 100, date: '2025-01-15T00:00:00Z', expenseCategory: 'Travel' })
+        .expect(404)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('ExpenseCategoryNotFound')
+    })
+
+    it('should debit the category account for a vendor bill in that category', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const vendorId = await createTestVendor(userId)
+      await createTestAccount(userId, '201', 'Accounts Payable', 'Liability', 'Credit')
+      await createTestAccount(userId, '501', 'Salaries Expense', 'Expense', 'Debit')
+      const rentAccountId = await createTestAccount(userId, '506', 'Rent Expense', 'Expense', 'Debit')
+      await prisma.expenseCategory.create({ data: { userId, name: 'Rent', accountId: rentAccountId } })
+
+      const response = await request(app)
+        .post('/api/purchasing/vendor-bills')
+        .set('Cookie', cookie)
+        .send({ vendorId, billNumber: 'RENT-001', amount: 1200, date: '2025-01-01T00:00:00Z', expenseCategory: 'Rent' })
+        .expect(201)
+      expect(response.body.bill.expenseCategory).toBe('Rent')
+
+      const lines = await prisma.journalLine.findMany({ where: { journalEntryId: response.body.bill.journalEntryId } })
+      expect(lines.find(line => line.side === 'Debit')?.accountId).toBe(rentAccountId)
+
+      const unknown = await request(app)
+        .post('/api/purchasing/vendor-bills')
+        .set('Cookie', cookie)
+        .send({ vendorId, billNumber: 'RENT-002', amount: 1200, date: '2025-01-01T00:00:00Z', expenseCategory: 'Utilities' })
+        .expect(404)
+      expect(unknown.body.error.subtype).toBe('ExpenseCategoryNotFound')
+    })
+  })
+
   describe('GET /api/purchasing/health', () => {
     it('should return health status', async () => {
       const response = await request(app)
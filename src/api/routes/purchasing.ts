@@ -1,20 +1,47 @@
 import { Router } from 'express'
 import { createVendorWorkflow, CreateVendorCommand } from '@/bounded-contexts/purchasing/application/createVendorWorkflow'
 import { recordVendorBillWorkflow, RecordVendorBillCommand } from '@/bounded-contexts/purchasing/application/recordVendorBillWorkflow'
+import { payVendorBillWorkflow, PayVendorBillCommand } from '@/bounded-contexts/purchasing/application/payVendorBillWorkflow'
+import { recordLoanWorkflow, RecordLoanCommand } from '@/bounded-contexts/purchasing/application/recordLoanWorkflow'
+import { generateLoanScheduleWorkflow } from '@/bounded-contexts/purchasing/application/generateLoanScheduleWorkflow'
 import { recordLoanPaymentWorkflow, RecordLoanPaymentCommand } from '@/bounded-contexts/purchasing/application/recordLoanPaymentWorkflow'
 import { recordCashExpenseWorkflow, RecordCashExpenseCommand } from '@/bounded-contexts/purchasing/application/recordCashExpenseWorkflow'
+import { createExpenseCategoryWorkflow, CreateExpenseCategoryCommand } from '@/bounded-contexts/purchasing/application/createExpenseCategoryWorkflow'
+import { updateExpenseCategoryWorkflow } from '@/bounded-contexts/purchasing/application/updateExpenseCategoryWorkflow'
+import { deleteExpenseCategoryWorkflow } from '@/bounded-contexts/purchasing/application/deleteExpenseCategoryWorkflow'
 import { listVendors, findVendorById } from '@/bounded-contexts/purchasing/infrastructure/vendorRepo'
+import { listLoans, findLoanById } from '@/bounded-contexts/purchasing/infrastructure/loanRepo'
+import { listLoanPaymentsByLoan } from '@/bounded-contexts/purchasing/infrastructure/loanPaymentRepo'
+import { listExpenseCategories, findExpenseCategoryById } from '@/bounded-contexts/purchasing/infrastructure/expenseCategoryRepo'
 import { sendErrorResponse, wrapAsyncRoute } from '@/common/infrastructure/errorMapper'
+import { toCents } from '@/common/types/money'
+import { requireSession } from '@/api/middleware/session'
+import { requireBookAccess } from '@/api/middleware/bookAccess'
 
 const router = Router()
 
+/**
+ * GET /api/purchasing/health
+ * Health check for purchasing routes.
+ */
+router.get('/health', (req, res) => {
+  res.json({
+    status: 'ok',
+    context: 'purchasing',
+    timestamp: new Date().toISOString()
+  })
+})
+
+// Every route below acts on behalf of the user resolved from the session cookie,
+// in their own books or in the books named by the X-Book-Owner-Id header
+router.use(requireSession, requireBookAccess)
+
 /**
  * POST /api/purchasing/vendors
  * Create a new vendor.
  *
  * Request Body:
  * {
- *   "userId": "string" (required, UUID of the user),
  *   "name": "string" (required, vendor name),
  *   "email": "string" (optional, email address)
  * }
@@ -22,21 +49,16 @@ const router = Router()
  * Responses:
  * - 201: Vendor created successfully
  * - 400: Validation error (domain failure)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
  * - 409: Duplicate vendor name (if uniqueness is enforced)
  * - 500: Internal server error
  */
 router.post('/vendors', wrapAsyncRoute(async (req, res) => {
-  const { userId, name, email } = req.body
+  const { userId, actingUserId } = res.locals
+  const { name, email } = req.body
 
   // Basic validation of required fields
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId is required and must be a string'
-    })
-    return
-  }
   if (!name || typeof name !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -46,7 +68,7 @@ router.post('/vendors', wrapAsyncRoute(async (req, res) => {
     return
   }
 
-  const command: CreateVendorCommand = { userId, name, email }
+  const command: CreateVendorCommand = { userId, actingUserId, name, email }
   const result = await createVendorWorkflow(command)
 
   if (result.isSuccess) {
@@ -63,25 +85,13 @@ router.post('/vendors', wrapAsyncRoute(async (req, res) => {
  * GET /api/purchasing/vendors
  * List vendors for a user.
  *
- * Query Parameters:
- *   userId (string) - required, the user's ID
- *
  * Responses:
  * - 200: List of vendors
- * - 400: Missing or invalid userId
+ * - 401: Not authenticated (missing or expired session)
  * - 500: Internal server error
  */
 router.get('/vendors', wrapAsyncRoute(async (req, res) => {
-  const { userId } = req.query
-
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
+  const { userId } = res.locals
 
   const result = await listVendors(userId)
 
@@ -99,28 +109,16 @@ router.get('/vendors', wrapAsyncRoute(async (req, res) => {
  * GET /api/purchasing/vendors/:vendorId
  * Retrieve a specific vendor by ID.
  *
- * Query Parameters:
- *   userId (string) - required, the user's ID (for isolation)
- *
  * Responses:
  * - 200: Vendor found
- * - 400: Missing or invalid userId
+ * - 401: Not authenticated (missing or expired session)
  * - 404: Vendor not found
  * - 500: Internal server error
  */
 router.get('/vendors/:vendorId', wrapAsyncRoute(async (req, res) => {
-  const { userId } = req.query
+  const { userId } = res.locals
   const { vendorId } = req.params
 
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
-
   const result = await findVendorById(userId, vendorId)
 
   if (result.isSuccess) {
@@ -146,33 +144,29 @@ router.get('/vendors/:vendorId', wrapAsyncRoute(async (req, res) => {
  *
  * Request Body:
  * {
- *   "userId": "string",
  *   "vendorId": "string",
  *   "billNumber": "string" (unique identifier for the bill),
- *   "amount": number (positive, up to 2 decimal places),
+ *   "amount": number (positive, up to 2 decimal places; optional when the item has a default price),
  *   "date": "string" (ISO 8601),
  *   "dueDate": "string" (ISO 8601, optional),
- *   "description": "string" (optional)
+ *   "description": "string" (optional; defaults to the item's name),
+ *   "expenseCategory": "string" (optional, name of an expense category; debits its account instead of the Default Expense role),
+ *   "itemId": "string" (optional, a catalog item; its expense account is debited when no expense category is given)
  * }
  *
  * Responses:
  * - 201: Vendor bill recorded successfully
  * - 400: Validation error (domain failure)
- * - 404: Vendor not found
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Vendor, expense category or catalog item not found
  * - 500: Internal server error
  */
 router.post('/vendor-bills', wrapAsyncRoute(async (req, res) => {
-  const { userId, vendorId, billNumber, amount, date, dueDate, description } = req.body
+  const { userId, actingUserId } = res.locals
+  const { vendorId, billNumber, amount, date, dueDate, description, expenseCategory, itemId } = req.body
 
   // Basic validation
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId is required and must be a string'
-    })
-    return
-  }
   if (!vendorId || typeof vendorId !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -189,7 +183,7 @@ router.post('/vendor-bills', wrapAsyncRoute(async (req, res) => {
     })
     return
   }
-  if (typeof amount !== 'number' || amount <= 0) {
+  if ((itemId === undefined || amount !== undefined) && (typeof amount !== 'number' || amount <= 0)) {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
       subtype: 'MissingField',
@@ -206,7 +200,24 @@ router.post('/vendor-bills', wrapAsyncRoute(async (req, res) => {
     return
   }
 
-  const command: RecordVendorBillCommand = { userId, vendorId, billNumber, amount, date, dueDate, description }
+  if (expenseCategory !== undefined && typeof expenseCategory !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'expenseCategory must be a string'
+    })
+    return
+  }
+  if (itemId !== undefined && typeof itemId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'itemId must be a string'
+    })
+    return
+  }
+
+  const command: RecordVendorBillCommand = { userId, actingUserId, vendorId, billNumber, amount, date, dueDate, description, expenseCategory, itemId }
   const result = await recordVendorBillWorkflow(command)
 
   if (result.isSuccess) {
@@ -220,37 +231,96 @@ router.post('/vendor-bills', wrapAsyncRoute(async (req, res) => {
 }))
 
 /**
- * POST /api/purchasing/loan-payments
- * Record a loan payment (split between principal and interest).
+ * POST /api/purchasing/vendor-bills/:billId/payments
+ * Record a payment against a vendor bill (full or partial).
  *
  * Request Body:
  * {
- *   "userId": "string",
- *   "vendorId": "string",
- *   "principalAmount": number (positive, up to 2 decimal places),
- *   "interestAmount": number (non‑negative, up to 2 decimal places),
+ *   "amount": number (positive, up to 2 decimal places),
  *   "date": "string" (ISO 8601),
- *   "description": "string" (optional)
+ *   "method": "string" (Cash, Check, CreditCard, BankTransfer),
+ *   "reference": "string" (optional)
  * }
  *
  * Responses:
- * - 201: Loan payment recorded successfully
- * - 400: Validation error (domain failure)
- * - 404: Vendor or loan not found
+ * - 201: Bill payment recorded successfully
+ * - 400: Validation error (domain failure), e.g. payment exceeds the open amount
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Vendor bill not found
  * - 500: Internal server error
  */
-router.post('/loan-payments', wrapAsyncRoute(async (req, res) => {
-  const { userId, vendorId, principalAmount, interestAmount, date, description } = req.body
+router.post('/vendor-bills/:billId/payments', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { amount, date, method, reference } = req.body
+  const { billId } = req.params
 
   // Basic validation
-  if (!userId || typeof userId !== 'string') {
+  if (typeof amount !== 'number' || amount <= 0) {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
       subtype: 'MissingField',
-      message: 'userId is required and must be a string'
+      message: 'amount must be a positive number'
     })
     return
   }
+  if (!date || typeof date !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'date is required and must be an ISO string'
+    })
+    return
+  }
+  if (!method || typeof method !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'method is required and must be a string'
+    })
+    return
+  }
+
+  const command: PayVendorBillCommand = { userId, actingUserId, billId, amount, date, method, reference }
+  const result = await payVendorBillWorkflow(command)
+
+  if (result.isSuccess) {
+    return res.status(201).json({
+      payment: result.value,
+      message: 'Bill payment recorded successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * POST /api/purchasing/loans
+ * Record a loan and the cash received from it (loan proceeds).
+ *
+ * Request Body:
+ * {
+ *   "vendorId": "string" (the lender; a vendor may hold several loans),
+ *   "principal": number (positive, up to 2 decimal places),
+ *   "interestRate": number (optional, annual percentage, e.g. 5.0),
+ *   "term": number (optional, months),
+ *   "date": "string" (ISO 8601, the date the proceeds were received),
+ *   "description": "string" (optional)
+ * }
+ *
+ * Responses:
+ * - 201: Loan recorded successfully
+ * - 400: Validation error (domain failure)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Vendor not found
+ * - 500: Internal server error
+ */
+router.post('/loans', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { vendorId, principal, interestRate, term, date, description } = req.body
+
+  // Basic validation
   if (!vendorId || typeof vendorId !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -259,18 +329,216 @@ router.post('/loan-payments', wrapAsyncRoute(async (req, res) => {
     })
     return
   }
-  if (typeof principalAmount !== 'number' || principalAmount <= 0) {
+  if (typeof principal !== 'number' || principal <= 0) {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
       subtype: 'MissingField',
-      message: 'principalAmount must be a positive number'
+      message: 'principal must be a positive number'
     })
     return
   }
-  if (typeof interestAmount !== 'number' || interestAmount < 0) {
+  if (interestRate !== undefined && typeof interestRate !== 'number') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'interestRate must be a number'
+    })
+    return
+  }
+  if (term !== undefined && typeof term !== 'number') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'term must be a number of months'
+    })
+    return
+  }
+  if (!date || typeof date !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
       subtype: 'MissingField',
+      message: 'date is required and must be an ISO string'
+    })
+    return
+  }
+
+  const command: RecordLoanCommand = { userId, actingUserId, vendorId, principal, interestRate, term, date, description }
+  const result = await recordLoanWorkflow(command)
+
+  if (result.isSuccess) {
+    return res.status(201).json({
+      loan: result.value,
+      message: 'Loan recorded successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/purchasing/loans
+ * List loans for a user, newest first. Each loan's `principal` is the remaining principal.
+ *
+ * Query Parameters:
+ *   vendorId (string, optional) - only loans from this vendor
+ *   skip (number, optional) - pagination offset
+ *   take (number, optional) - pagination limit
+ *
+ * Responses:
+ * - 200: List of loans
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/loans', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { vendorId, skip, take } = req.query
+
+  const options: { vendorId?: string; skip?: number; take?: number } = {}
+  if (typeof vendorId === 'string' && vendorId.length > 0) {
+    options.vendorId = vendorId
+  }
+  if (skip !== undefined) {
+    const parsed = parseInt(skip as string, 10)
+    if (!isNaN(parsed) && parsed >= 0) {
+      options.skip = parsed
+    }
+  }
+  if (take !== undefined) {
+    const parsed = parseInt(take as string, 10)
+    if (!isNaN(parsed) && parsed > 0) {
+      options.take = parsed
+    }
+  }
+
+  const result = await listLoans(userId, options)
+
+  if (result.isSuccess) {
+    return res.json({
+      loans: result.value,
+      count: result.value.length
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/purchasing/loans/:loanId
+ * Retrieve a loan with its payment history, remaining principal and original principal.
+ *
+ * Responses:
+ * - 200: Loan found
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: Loan not found
+ * - 500: Internal server error
+ */
+router.get('/loans/:loanId', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { loanId } = req.params
+
+  const result = await findLoanById(userId, loanId)
+  if (!result.isSuccess) {
+    sendErrorResponse(res, result.error)
+    return
+  }
+  if (result.value === null) {
+    sendErrorResponse(res, {
+      type: 'DomainFailure',
+      subtype: 'LoanNotFound',
+      message: `Loan ${loanId} not found or does not belong to the user`
+    })
+    return
+  }
+
+  const paymentsResult = await listLoanPaymentsByLoan(userId, loanId)
+  if (!paymentsResult.isSuccess) {
+    sendErrorResponse(res, paymentsResult.error)
+    return
+  }
+
+  const principalPaid = paymentsResult.value.reduce((sum, payment) => sum + payment.principalAmount, 0)
+  return res.json({
+    loan: result.value,
+    payments: paymentsResult.value,
+    remainingPrincipal: result.value.principal,
+    originalPrincipal: toCents(result.value.principal + principalPaid)
+  })
+}))
+
+/**
+ * GET /api/purchasing/loans/:loanId/schedule
+ * Level-payment amortization schedule for a loan, reconciled against its recorded payments.
+ * Payments are matched to the row whose period they fall in; `nextPayment` is the first row not fully paid.
+ *
+ * Responses:
+ * - 200: Amortization schedule
+ * - 400: The loan has no interest rate or term (LoanTermsMissing)
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: Loan not found
+ * - 500: Internal server error
+ */
+router.get('/loans/:loanId/schedule', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { loanId } = req.params
+
+  const result = await generateLoanScheduleWorkflow(userId, loanId)
+
+  if (result.isSuccess) {
+    return res.json({
+      schedule: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * POST /api/purchasing/loan-payments
+ * Record a loan payment (split between principal and interest).
+ * An omitted principalAmount or interestAmount defaults to the next row of the loan's amortization schedule.
+ *
+ * Request Body:
+ * {
+ *   "loanId": "string" (the loan being paid),
+ *   "principalAmount": number (optional, positive, up to 2 decimal places),
+ *   "interestAmount": number (optional, non‑negative, up to 2 decimal places),
+ *   "date": "string" (ISO 8601),
+ *   "description": "string" (optional)
+ * }
+ *
+ * Responses:
+ * - 201: Loan payment recorded successfully
+ * - 400: Validation error (domain failure)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Loan not found
+ * - 500: Internal server error
+ */
+router.post('/loan-payments', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { loanId, principalAmount, interestAmount, date, description } = req.body
+
+  // Basic validation
+  if (!loanId || typeof loanId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'loanId is required and must be a string'
+    })
+    return
+  }
+  if (principalAmount !== undefined && (typeof principalAmount !== 'number' || principalAmount <= 0)) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'principalAmount must be a positive number'
+    })
+    return
+  }
+  if (interestAmount !== undefined && (typeof interestAmount !== 'number' || interestAmount < 0)) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
       message: 'interestAmount must be a non‑negative number'
     })
     return
@@ -284,7 +552,7 @@ router.post('/loan-payments', wrapAsyncRoute(async (req, res) => {
     return
   }
 
-  const command: RecordLoanPaymentCommand = { userId, vendorId, principalAmount, interestAmount, date, description }
+  const command: RecordLoanPaymentCommand = { userId, actingUserId, loanId, principalAmount, interestAmount, date, description }
   const result = await recordLoanPaymentWorkflow(command)
 
   if (result.isSuccess) {
@@ -303,32 +571,26 @@ router.post('/loan-payments', wrapAsyncRoute(async (req, res) => {
  *
  * Request Body:
  * {
- *   "userId": "string",
  *   "vendorId": "string" (required, vendor ID; use a special vendor for "Various Suppliers"),
  *   "amount": number (positive, up to 2 decimal places),
  *   "date": "string" (ISO 8601),
- *   "expenseCategory": "string" (required, e.g., "Supplies", "Rent", etc.),
+ *   "expenseCategory": "string" (required, name of one of the user's expense categories, e.g., "Supplies", "Rent"),
  *   "description": "string" (optional)
  * }
  *
  * Responses:
  * - 201: Cash expense recorded successfully
  * - 400: Validation error (domain failure)
- * - 404: Vendor not found
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Vendor or expense category not found
  * - 500: Internal server error
  */
 router.post('/cash-expenses', wrapAsyncRoute(async (req, res) => {
-  const { userId, vendorId, amount, date, expenseCategory, description } = req.body
+  const { userId, actingUserId } = res.locals
+  const { vendorId, amount, date, expenseCategory, description } = req.body
 
   // Basic validation
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId is required and must be a string'
-    })
-    return
-  }
   if (!vendorId || typeof vendorId !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -362,7 +624,7 @@ router.post('/cash-expenses', wrapAsyncRoute(async (req, res) => {
     return
   }
 
-  const command: RecordCashExpenseCommand = { userId, vendorId, amount, date, expenseCategory, description }
+  const command: RecordCashExpenseCommand = { userId, actingUserId, vendorId, amount, date, expenseCategory, description }
   const result = await recordCashExpenseWorkflow(command)
 
   if (result.isSuccess) {
@@ -376,15 +638,203 @@ router.post('/cash-expenses', wrapAsyncRoute(async (req, res) => {
 }))
 
 /**
- * GET /api/purchasing/health
- * Health check for purchasing routes.
+ * POST /api/purchasing/expense-categories
+ * Create an expense category debited to one of the user's Expense accounts.
+ *
+ * Request Body:
+ * {
+ *   "name": "string" (required, unique per user),
+ *   "accountId": "string" (required, an Expense account that is not archived)
+ * }
+ *
+ * Responses:
+ * - 201: Expense category created successfully
+ * - 400: Validation error (domain failure), e.g. the account is not an Expense account
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Account not found
+ * - 409: An expense category with this name already exists
+ * - 500: Internal server error
  */
-router.get('/health', (req, res) => {
-  res.json({
-    status: 'ok',
-    context: 'purchasing',
-    timestamp: new Date().toISOString()
-  })
-})
+router.post('/expense-categories', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { name, accountId } = req.body
+
+  // Basic validation
+  if (!name || typeof name !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'name is required and must be a string'
+    })
+    return
+  }
+  if (!accountId || typeof accountId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'accountId is required and must be a string'
+    })
+    return
+  }
+
+  const command: CreateExpenseCategoryCommand = { userId, actingUserId, name, accountId }
+  const result = await createExpenseCategoryWorkflow(command)
+
+  if (result.isSuccess) {
+    return res.status(201).json({
+      expenseCategory: result.value,
+      message: 'Expense category created successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/purchasing/expense-categories
+ * List expense categories for a user, by name.
+ *
+ * Responses:
+ * - 200: List of expense categories
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/expense-categories', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+
+  const result = await listExpenseCategories(userId)
+
+  if (result.isSuccess) {
+    return res.json({
+      expenseCategories: result.value,
+      count: result.value.length
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/purchasing/expense-categories/:categoryId
+ * Retrieve a specific expense category by ID.
+ *
+ * Responses:
+ * - 200: Expense category found
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: Expense category not found
+ * - 500: Internal server error
+ */
+router.get('/expense-categories/:categoryId', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { categoryId } = req.params
+
+  const result = await findExpenseCategoryById(userId, categoryId)
+
+  if (result.isSuccess) {
+    if (result.value === null) {
+      sendErrorResponse(res, {
+        type: 'DomainFailure',
+        subtype: 'ExpenseCategoryNotFound',
+        message: `Expense category ${categoryId} not found or does not belong to the user`
+      })
+      return
+    }
+    return res.json({
+      expenseCategory: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * PATCH /api/purchasing/expense-categories/:categoryId
+ * Rename an expense category and/or point it at another Expense account.
+ * Expenses and bills already recorded keep their journal entries.
+ *
+ * Request Body:
+ * {
+ *   "name": "string" (optional),
+ *   "accountId": "string" (optional)
+ * }
+ *
+ * Responses:
+ * - 200: Expense category updated successfully
+ * - 400: Validation error (domain failure), or neither field given
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Expense category or account not found
+ * - 409: Another expense category already has this name
+ * - 500: Internal server error
+ */
+router.patch('/expense-categories/:categoryId', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { categoryId } = req.params
+  const { name, accountId } = req.body ?? {}
+
+  if (name === undefined && accountId === undefined) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'name or accountId is required'
+    })
+    return
+  }
+  if (name !== undefined && typeof name !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'name must be a string'
+    })
+    return
+  }
+  if (accountId !== undefined && typeof accountId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'accountId must be a string'
+    })
+    return
+  }
+
+  const result = await updateExpenseCategoryWorkflow({ userId, actingUserId, categoryId, name, accountId })
+
+  if (result.isSuccess) {
+    return res.json({
+      expenseCategory: result.value,
+      message: 'Expense category updated successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * DELETE /api/purchasing/expense-categories/:categoryId
+ * Delete an expense category. Expenses and bills already recorded keep the category name.
+ *
+ * Responses:
+ * - 200: Expense category deleted successfully
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Expense category not found
+ * - 500: Internal server error
+ */
+router.delete('/expense-categories/:categoryId', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { categoryId } = req.params
+
+  const result = await deleteExpenseCategoryWorkflow({ userId, actingUserId, categoryId })
+
+  if (result.isSuccess) {
+    return res.json({
+      expenseCategory: result.value,
+      message: 'Expense category deleted successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
 
 export { router as purchasingRoutes }
\ No newline at end of file
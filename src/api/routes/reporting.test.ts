@@ -26,6 +26,7 @@ describe('Reporting Context: API Routes (Integration)', () => {
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -42,6 +43,14 @@ describe('Reporting Context: API Routes (Integration)', () => {
     return user.id
   }
 
+  // Helper to start a session for a user and return the session cookie
+  const loginAs = async (userId: string) => {
+    const session = await prisma.session.create({
+      data: { userId, expiresAt: new Date(Date.now() + 60 * 60 * 1000) }
+    })
+    return `session=${session.id}`
+  }
+
   // Helper to create a test account and return its ID
   const createTestAccount = async (
     userId: string,
@@ -93,6 +102,7 @@ describe('Reporting Context: API Routes (Integration)', () => {
   describe('GET /api/reporting/income-statement', () => {
     it('should generate income statement for a period', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
       const expenseAccountId = await createTestAccount(userId, '501', 'Rent Expense', 'Expense', 'Debit')
@@ -121,8 +131,8 @@ describe('Reporting Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .get('/api/reporting/income-statement')
+        .set('Cookie', cookie)
         .query({
-          userId,
           startDate: '2025-07-01T00:00:00Z',
           endDate: '2025-07-31T23:59:59Z'
         })
@@ -141,25 +151,26 @@ describe('Reporting Context: API Routes (Integration)', () => {
       expect(stmt.expenses[0].amount).toBe(300)
     })
 
-    it('should reject missing userId', async () => {
+    it('should reject a request without a session cookie', async () => {
       const response = await request(app)
         .get('/api/reporting/income-statement')
         .query({
           startDate: '2025-01-01',
           endDate: '2025-12-31'
         })
-        .expect(400)
+        .expect(401)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('MissingField')
+      expect(response.body.error.subtype).toBe('Unauthenticated')
     })
 
     it('should reject invalid date range (start > end)', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const response = await request(app)
         .get('/api/reporting/income-statement')
+        .set('Cookie', cookie)
         .query({
-          userId,
           startDate: '2025-12-31',
           endDate: '2025-01-01'
         })
@@ -173,6 +184,7 @@ describe('Reporting Context: API Routes (Integration)', () => {
   describe('GET /api/reporting/balance-sheet', () => {
     it('should generate balance sheet as of a date', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
       const expenseAccountId = await createTestAccount(userId, '501', 'Rent Expense', 'Expense', 'Debit')
@@ -219,8 +231,8 @@ describe('Reporting Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .get('/api/reporting/balance-sheet')
+        .set('Cookie', cookie)
         .query({
-          userId,
           asOfDate: '2025-07-31T23:59:59Z'
         })
         .expect(200)
@@ -239,9 +251,68 @@ describe('Reporting Context: API Routes (Integration)', () => {
 
     it('should reject missing asOfDate', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const response = await request(app)
         .get('/api/reporting/balance-sheet')
-        .query({ userId })
+        .set('Cookie', cookie)
+        .expect(400)
+
+      expect(response.body.error.type).toBe('ApplicationFailure')
+      expect(response.body.error.subtype).toBe('MissingField')
+    })
+  })
+
+  describe('GET /api/reporting/trial-balance', () => {
+    it('should list every account with debit and credit columns that agree', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      const expenseAccountId = await createTestAccount(userId, '501', 'Rent Expense', 'Expense', 'Debit')
+      await createTestAccount(userId, '201', 'Accounts Payable', 'Liability', 'Credit')
+
+      await createJournalEntry(
+        userId,
+        'Sale',
+        new Date('2025-06-01'),
+        [
+          { accountId: cashAccountId, amount: 1000, side: 'Debit' },
+          { accountId: revenueAccountId, amount: 1000, side: 'Credit' }
+        ]
+      )
+      await createJournalEntry(
+        userId,
+        'Pay rent',
+        new Date('2025-07-15'),
+        [
+          { accountId: expenseAccountId, amount: 300, side: 'Debit' },
+          { accountId: cashAccountId, amount: 300, side: 'Credit' }
+        ]
+      )
+
+      const response = await request(app)
+        .get('/api/reporting/trial-balance')
+        .set('Cookie', cookie)
+        .query({
+          asOfDate: '2025-12-31T23:59:59Z'
+        })
+        .expect(200)
+
+      const tb = response.body.trialBalance
+      expect(tb.lines).toHaveLength(4)
+      expect(tb.lines.find((line: any) => line.accountCode === '101')).toMatchObject({ debit: 700, credit: 0 })
+      expect(tb.lines.find((line: any) => line.accountCode === '401')).toMatchObject({ debit: 0, credit: 1000 })
+      expect(tb.lines.find((line: any) => line.accountCode === '201')).toMatchObject({ debit: 0, credit: 0 })
+      expect(tb.totalDebits).toBe(1000)
+      expect(tb.totalCredits).toBe(1000)
+    })
+
+    it('should reject missing asOfDate', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const response = await request(app)
+        .get('/api/reporting/trial-balance')
+        .set('Cookie', cookie)
         .expect(400)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
@@ -252,6 +323,7 @@ describe('Reporting Context: API Routes (Integration)', () => {
   describe('GET /api/reporting/owners-equity', () => {
     it('should generate statement of owner’s equity for a period', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
       const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
       const expenseAccountId = await createTestAccount(userId, '501', 'Rent Expense', 'Expense', 'Debit')
@@ -298,8 +370,8 @@ describe('Reporting Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .get('/api/reporting/owners-equity')
+        .set('Cookie', cookie)
         .query({
-          userId,
           startDate: '2025-08-01T00:00:00Z',
           endDate: '2025-08-31T23:59:59Z'
         })
@@ -321,12 +393,13 @@ describe('Reporting Context: API Routes (Integration)', () => {
 
     it('should fail when capital account missing', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       // No capital account created
 
       const response = await request(app)
         .get('/api/reporting/owners-equity')
+        .set('Cookie', cookie)
         .query({
-          userId,
           startDate: '2025-08-01',
           endDate: '2025-08-31'
         })
@@ -340,12 +413,13 @@ describe('Reporting Context: API Routes (Integration)', () => {
   describe('GET /api/reporting/cash-flow', () => {
     it('should generate statement of cash flows (placeholder)', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const cashAccountId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
 
       const response = await request(app)
         .get('/api/reporting/cash-flow')
+        .set('Cookie', cookie)
         .query({
-          userId,
           startDate: '2025-06-01T00:00:00Z',
           endDate: '2025-06-30T23:59:59Z'
         })
@@ -364,12 +438,13 @@ describe('Reporting Context: API Routes (Integration)', () => {
 
     it('should fail when cash account missing', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       // No cash account
 
       const response = await request(app)
         .get('/api/reporting/cash-flow')
+        .set('Cookie', cookie)
         .query({
-          userId,
           startDate: '2025-06-01',
           endDate: '2025-06-30'
         })
@@ -380,6 +455,224 @@ describe('Reporting Context: API Routes (Integration)', () => {
     })
   })
 
+  describe('GET /api/reporting/sales-tax-liability', () => {
+    it('should report the tax collected by tax rate on invoices dated in the period', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      await createTestAccount(userId, '111', 'Accounts Receivable', 'Asset', 'Debit')
+      await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      const liabilityId = await createTestAccount(userId, '204', 'Sales Tax Payable', 'Liability', 'Credit')
+      const customer = await prisma.customer.create({ data: { userId, name: 'Test Customer' } })
+      const taxRate = await prisma.taxRate.create({
+        data: { userId, name: 'State Sales Tax', rate: 6, accountId: liabilityId }
+      })
+      for (const [invoiceNumber, date] of [['INV-001', '2025-06-10T00:00:00Z'], ['INV-002', '2025-07-05T00:00:00Z']]) {
+        await request(app)
+          .post('/api/sales/invoices')
+          .set('Cookie', cookie)
+          .send({
+            customerId: customer.id,
+            invoiceNumber,
+            date,
+            lines: [{ description: 'Widgets', quantity: 2, unitPrice: 50, taxRateId: taxRate.id }],
+          })
+          .expect(201)
+      }
+
+      const response = await request(app)
+        .get('/api/reporting/sales-tax-liability')
+        .set('Cookie', cookie)
+        .query({
+          startDate: '2025-06-01T00:00:00Z',
+          endDate: '2025-06-30T23:59:59Z'
+        })
+        .expect(200)
+
+      const report = response.body.salesTaxLiability
+      expect(report.rates).toHaveLength(1)
+      expect(report.rates[0]).toMatchObject({
+        taxRateName: 'State Sales Tax',
+        rate: 6,
+        accountId: liabilityId,
+        taxableAmount: 100,
+        taxAmount: 6,
+      })
+      expect(report.totalTax).toBe(6)
+    })
+
+    it('should return 400 when endDate is missing', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .get('/api/reporting/sales-tax-liability')
+        .set('Cookie', cookie)
+        .query({ startDate: '2025-06-01' })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('MissingField')
+    })
+  })
+
+  describe('GET /api/reporting/ar-aging', () => {
+    it('should bucket each customer\'s open invoice balances by days past due', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      await createTestAccount(userId, '111', 'Accounts Receivable', 'Asset', 'Debit')
+      await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      const customer = await prisma.customer.create({ data: { userId, name: 'Test Customer' } })
+      const invoiceIds: string[] = []
+      for (const [invoiceNumber, date, dueDate] of [
+        ['INV-001', '2025-03-15T00:00:00Z', '2025-04-15T00:00:00Z'],
+        ['INV-002', '2025-06-01T00:00:00Z', '2025-06-30T00:00:00Z'],
+      ]) {
+        const issued = await request(app)
+          .post('/api/sales/invoices')
+          .set('Cookie', cookie)
+          .send({ customerId: customer.id, invoiceNumber, date, dueDate, total: 200 })
+          .expect(201)
+        invoiceIds.push(issued.body.invoice.id)
+      }
+      await request(app)
+        .post(`/api/sales/invoices/${invoiceIds[0]}/payments`)
+        .set('Cookie', cookie)
+        .send({ amount: 50, date: '2025-04-20T00:00:00Z', method: 'Cash' })
+        .expect(201)
+
+      const response = await request(app)
+        .get('/api/reporting/ar-aging')
+        .set('Cookie', cookie)
+        .query({ asOfDate: '2025-06-30T00:00:00Z' })
+        .expect(200)
+
+      const report = response.body.arAging
+      expect(report.customers).toHaveLength(1)
+      expect(report.customers[0]).toMatchObject({
+        customerName: 'Test Customer',
+        buckets: { current: 200, days1To30: 0, days31To60: 0, days61To90: 150, over90: 0 },
+        total: 350,
+      })
+      expect(report.total).toBe(350)
+    })
+
+    it('should return 400 when asOfDate is missing', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .get('/api/reporting/ar-aging')
+        .set('Cookie', cookie)
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('MissingField')
+    })
+  })
+
+  describe('payables reports', () => {
+    // Records two bills through the purchasing API, so the vendor balance follows them, and pays part of the first
+    const recordBills = async (userId: string, cookie: string) => {
+      await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      await createTestAccount(userId, '201', 'Accounts Payable', 'Liability', 'Credit')
+      await createTestAccount(userId, '501', 'Salaries Expense', 'Expense', 'Debit')
+      const vendor = await prisma.vendor.create({ data: { userId, name: 'Supplier' } })
+      const billIds: string[] = []
+      for (const [billNumber, date, dueDate, amount] of [
+        ['BILL-001', '2025-05-01T00:00:00Z', '2025-05-20T00:00:00Z', 400],
+        ['BILL-002', '2025-05-25T00:00:00Z', '2025-06-05T00:00:00Z', 250],
+      ] as const) {
+        const recorded = await request(app)
+          .post('/api/purchasing/vendor-bills')
+          .set('Cookie', cookie)
+          .send({ vendorId: vendor.id, billNumber, amount, date, dueDate })
+          .expect(201)
+        billIds.push(recorded.body.bill.id)
+      }
+      await request(app)
+        .post(`/api/purchasing/vendor-bills/${billIds[0]}/payments`)
+        .set('Cookie', cookie)
+        .send({ amount: 100, date: '2025-05-28T00:00:00Z', method: 'BankTransfer' })
+        .expect(201)
+      return vendor
+    }
+
+    describe('GET /api/reporting/ap-aging', () => {
+      it('should bucket each vendor\'s open bill balances by days past due', async () => {
+        const userId = await createTestUser()
+        const cookie = await loginAs(userId)
+        const vendor = await recordBills(userId, cookie)
+
+        const response = await request(app)
+          .get('/api/reporting/ap-aging')
+          .set('Cookie', cookie)
+          .query({ asOfDate: '2025-06-01T00:00:00Z' })
+          .expect(200)
+
+        const report = response.body.apAging
+        expect(report.vendors).toEqual([
+          {
+            vendorId: vendor.id,
+            vendorName: 'Supplier',
+            buckets: { current: 250, days1To30: 300, days31To60: 0, days61To90: 0, over90: 0 },
+            total: 550,
+          },
+        ])
+      })
+
+      it('should return 400 when asOfDate is missing', async () => {
+        const userId = await createTestUser()
+        const cookie = await loginAs(userId)
+
+        const response = await request(app)
+          .get('/api/reporting/ap-aging')
+          .set('Cookie', cookie)
+          .expect(400)
+
+        expect(response.body.error.subtype).toBe('MissingField')
+      })
+    })
+
+    describe('GET /api/reporting/bills-due', () => {
+      it('should forecast the weekly outflow, reconciled against the vendor balance', async () => {
+        const userId = await createTestUser()
+        const cookie = await loginAs(userId)
+        await recordBills(userId, cookie)
+
+        const response = await request(app)
+          .get('/api/reporting/bills-due')
+          .set('Cookie', cookie)
+          .query({ asOfDate: '2025-06-01T00:00:00Z', days: '14' })
+          .expect(200)
+
+        const forecast = response.body.billsDue
+        expect(forecast.pastDue.total).toBe(300)
+        expect(forecast.weeks).toHaveLength(2)
+        expect(forecast.weeks[0].bills.map((bill: any) => bill.billNumber)).toEqual(['BILL-002'])
+        expect(forecast.totalOutflow).toBe(550)
+        expect(forecast.reconciliation).toEqual({ openBillsTotal: 550, vendorBalanceTotal: 550, difference: 0 })
+      })
+
+      it('should return 400 when days is missing or out of range', async () => {
+        const userId = await createTestUser()
+        const cookie = await loginAs(userId)
+
+        const missing = await request(app)
+          .get('/api/reporting/bills-due')
+          .set('Cookie', cookie)
+          .query({ asOfDate: '2025-06-01T00:00:00Z' })
+          .expect(400)
+        expect(missing.body.error.subtype).toBe('MissingField')
+
+        const outOfRange = await request(app)
+          .get('/api/reporting/bills-due')
+          .set('Cookie', cookie)
+          .query({ asOfDate: '2025-06-01T00:00:00Z', days: '400' })
+          .expect(400)
+        expect(outOfRange.body.error.subtype).toBe('InvalidForecastWindow')
+      })
+    })
+  })
+
   describe('GET /api/reporting/health', () => {
     it('should return health status', async () => {
       const response = await request(app)
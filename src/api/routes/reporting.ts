@@ -3,35 +3,51 @@ import { generateIncomeStatementWorkflow } from '@/bounded-contexts/reporting/ap
 import { generateBalanceSheetWorkflow } from '@/bounded-contexts/reporting/application/generateBalanceSheetWorkflow'
 import { generateStatementOfOwnersEquityWorkflow } from '@/bounded-contexts/reporting/application/generateStatementOfOwnersEquityWorkflow'
 import { generateStatementOfCashFlowsWorkflow } from '@/bounded-contexts/reporting/application/generateStatementOfCashFlowsWorkflow'
+import { generateTrialBalanceWorkflow } from '@/bounded-contexts/reporting/application/generateTrialBalanceWorkflow'
+import { generateSalesTaxLiabilityWorkflow } from '@/bounded-contexts/reporting/application/generateSalesTaxLiabilityWorkflow'
+import { generateArAgingWorkflow } from '@/bounded-contexts/reporting/application/generateArAgingWorkflow'
+import { generateApAgingWorkflow } from '@/bounded-contexts/reporting/application/generateApAgingWorkflow'
+import { generateBillsDueForecastWorkflow } from '@/bounded-contexts/reporting/application/generateBillsDueForecastWorkflow'
 import { sendErrorResponse, wrapAsyncRoute } from '@/common/infrastructure/errorMapper'
+import { requireSession } from '@/api/middleware/session'
+import { requireBookAccess } from '@/api/middleware/bookAccess'
 
 const router = Router()
 
+/**
+ * GET /api/reporting/health
+ * Health check for reporting routes.
+ */
+router.get('/health', (req, res) => {
+  res.json({
+    status: 'ok',
+    context: 'reporting',
+    timestamp: new Date().toISOString()
+  })
+})
+
+// Every route below acts on behalf of the user resolved from the session cookie,
+// in their own books or in the books named by the X-Book-Owner-Id header
+router.use(requireSession, requireBookAccess)
+
 /**
  * GET /api/reporting/income-statement
  * Generate an income statement for a given period.
  *
  * Query Parameters:
- *   userId (string) - required, the user's ID
  *   startDate (string) - required, ISO 8601 date string
  *   endDate (string) - required, ISO 8601 date string
  *
  * Responses:
  * - 200: Income statement generated successfully
  * - 400: Missing or invalid parameters, domain validation failure
+ * - 401: Not authenticated (missing or expired session)
  * - 500: Internal server error
  */
 router.get('/income-statement', wrapAsyncRoute(async (req, res) => {
-  const { userId, startDate, endDate } = req.query
+  const { userId } = res.locals
+  const { startDate, endDate } = req.query
 
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
   if (!startDate || typeof startDate !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -76,25 +92,66 @@ router.get('/income-statement', wrapAsyncRoute(async (req, res) => {
  * Generate a balance sheet as of a specific date.
  *
  * Query Parameters:
- *   userId (string) - required, the user's ID
  *   asOfDate (string) - required, ISO 8601 date string
  *
  * Responses:
  * - 200: Balance sheet generated successfully
  * - 400: Missing or invalid parameters, domain validation failure
+ * - 401: Not authenticated (missing or expired session)
  * - 500: Internal server error
  */
 router.get('/balance-sheet', wrapAsyncRoute(async (req, res) => {
-  const { userId, asOfDate } = req.query
+  const { userId } = res.locals
+  const { asOfDate } = req.query
 
-  if (!userId || typeof userId !== 'string') {
+  if (!asOfDate || typeof asOfDate !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
       subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
+      message: 'asOfDate query parameter is required and must be an ISO 8601 string'
     })
     return
   }
+
+  const date = new Date(asOfDate)
+  if (isNaN(date.getTime())) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidDate',
+      message: 'asOfDate is not a valid date'
+    })
+    return
+  }
+
+  const result = await generateBalanceSheetWorkflow(userId, date)
+
+  if (result.isSuccess) {
+    return res.json({
+      balanceSheet: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/reporting/trial-balance
+ * Generate a trial balance as of a specific date: every account with its balance
+ * in the debit or credit column, and the column totals.
+ *
+ * Query Parameters:
+ *   asOfDate (string) - required, ISO 8601 date string
+ *
+ * Responses:
+ * - 200: Trial balance generated successfully
+ * - 400: Missing or invalid parameters, or debits and credits differ (TrialBalanceOutOfBalance)
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/trial-balance', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { asOfDate } = req.query
+
   if (!asOfDate || typeof asOfDate !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -114,11 +171,11 @@ router.get('/balance-sheet', wrapAsyncRoute(async (req, res) => {
     return
   }
 
-  const result = await generateBalanceSheetWorkflow(userId, date)
+  const result = await generateTrialBalanceWorkflow(userId, date)
 
   if (result.isSuccess) {
     return res.json({
-      balanceSheet: result.value
+      trialBalance: result.value
     })
   } else {
     sendErrorResponse(res, result.error)
@@ -130,26 +187,19 @@ router.get('/balance-sheet', wrapAsyncRoute(async (req, res) => {
  * Generate a statement of owner's equity for a given period.
  *
  * Query Parameters:
- *   userId (string) - required, the user's ID
  *   startDate (string) - required, ISO 8601 date string
  *   endDate (string) - required, ISO 8601 date string
  *
  * Responses:
  * - 200: Statement generated successfully
  * - 400: Missing or invalid parameters, domain validation failure
+ * - 401: Not authenticated (missing or expired session)
  * - 500: Internal server error
  */
 router.get('/owners-equity', wrapAsyncRoute(async (req, res) => {
-  const { userId, startDate, endDate } = req.query
+  const { userId } = res.locals
+  const { startDate, endDate } = req.query
 
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
   if (!startDate || typeof startDate !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -194,26 +244,77 @@ router.get('/owners-equity', wrapAsyncRoute(async (req, res) => {
  * Generate a statement of cash flows for a given period.
  *
  * Query Parameters:
- *   userId (string) - required, the user's ID
  *   startDate (string) - required, ISO 8601 date string
  *   endDate (string) - required, ISO 8601 date string
  *
  * Responses:
  * - 200: Statement generated successfully
  * - 400: Missing or invalid parameters, domain validation failure
+ * - 401: Not authenticated (missing or expired session)
  * - 500: Internal server error
  */
 router.get('/cash-flow', wrapAsyncRoute(async (req, res) => {
-  const { userId, startDate, endDate } = req.query
+  const { userId } = res.locals
+  const { startDate, endDate } = req.query
 
-  if (!userId || typeof userId !== 'string') {
+  if (!startDate || typeof startDate !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
       subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
+      message: 'startDate query parameter is required and must be an ISO 8601 string'
     })
     return
   }
+  if (!endDate || typeof endDate !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'endDate query parameter is required and must be an ISO 8601 string'
+    })
+    return
+  }
+
+  const start = new Date(startDate)
+  const end = new Date(endDate)
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidDate',
+      message: 'startDate or endDate is not a valid date'
+    })
+    return
+  }
+
+  const result = await generateStatementOfCashFlowsWorkflow(userId, start, end)
+
+  if (result.isSuccess) {
+    return res.json({
+      statementOfCashFlows: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/reporting/sales-tax-liability
+ * Report the sales tax collected by tax rate for a given period, for filing.
+ * Tax counts in the period its invoice is dated in.
+ *
+ * Query Parameters:
+ *   startDate (string) - required, ISO 8601 date string
+ *   endDate (string) - required, ISO 8601 date string
+ *
+ * Responses:
+ * - 200: Report generated successfully
+ * - 400: Missing or invalid parameters, domain validation failure
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/sales-tax-liability', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { startDate, endDate } = req.query
+
   if (!startDate || typeof startDate !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -242,11 +343,11 @@ router.get('/cash-flow', wrapAsyncRoute(async (req, res) => {
     return
   }
 
-  const result = await generateStatementOfCashFlowsWorkflow(userId, start, end)
+  const result = await generateSalesTaxLiabilityWorkflow(userId, start, end)
 
   if (result.isSuccess) {
     return res.json({
-      statementOfCashFlows: result.value
+      salesTaxLiability: result.value
     })
   } else {
     sendErrorResponse(res, result.error)
@@ -254,15 +355,156 @@ router.get('/cash-flow', wrapAsyncRoute(async (req, res) => {
 }))
 
 /**
- * GET /api/reporting/health
- * Health check for reporting routes.
+ * GET /api/reporting/ar-aging
+ * Generate an accounts receivable aging report: open invoice balances per customer,
+ * bucketed into current, 1–30, 31–60, 61–90 and over 90 days past due as of a date.
+ *
+ * Query Parameters:
+ *   asOfDate (string) - required, ISO 8601 date string
+ *
+ * Responses:
+ * - 200: Report generated successfully
+ * - 400: Missing or invalid parameters
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
  */
-router.get('/health', (req, res) => {
-  res.json({
-    status: 'ok',
-    context: 'reporting',
-    timestamp: new Date().toISOString()
-  })
-})
+router.get('/ar-aging', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { asOfDate } = req.query
+
+  if (!asOfDate || typeof asOfDate !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'asOfDate query parameter is required and must be an ISO 8601 string'
+    })
+    return
+  }
+
+  const date = new Date(asOfDate)
+  if (isNaN(date.getTime())) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidDate',
+      message: 'asOfDate is not a valid date'
+    })
+    return
+  }
+
+  const result = await generateArAgingWorkflow(userId, date)
+
+  if (result.isSuccess) {
+    return res.json({
+      arAging: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/reporting/ap-aging
+ * Generate an accounts payable aging report: open bill balances per vendor,
+ * bucketed into current, 1–30, 31–60, 61–90 and over 90 days past due as of a date.
+ *
+ * Query Parameters:
+ *   asOfDate (string) - required, ISO 8601 date string
+ *
+ * Responses:
+ * - 200: Report generated successfully
+ * - 400: Missing or invalid parameters
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/ap-aging', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { asOfDate } = req.query
+
+  if (!asOfDate || typeof asOfDate !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'asOfDate query parameter is required and must be an ISO 8601 string'
+    })
+    return
+  }
+
+  const date = new Date(asOfDate)
+  if (isNaN(date.getTime())) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidDate',
+      message: 'asOfDate is not a valid date'
+    })
+    return
+  }
+
+  const result = await generateApAgingWorkflow(userId, date)
+
+  if (result.isSuccess) {
+    return res.json({
+      apAging: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/reporting/bills-due
+ * Forecast the cash needed for open bills week by week over the next N days,
+ * reconciled against the vendors' subsidiary balances.
+ *
+ * Query Parameters:
+ *   asOfDate (string) - required, ISO 8601 date string; the first day of the forecast
+ *   days (number) - required, whole number of days from 1 to 366
+ *
+ * Responses:
+ * - 200: Forecast generated successfully
+ * - 400: Missing or invalid parameters, forecast window out of range
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/bills-due', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { asOfDate, days } = req.query
+
+  if (!asOfDate || typeof asOfDate !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'asOfDate query parameter is required and must be an ISO 8601 string'
+    })
+    return
+  }
+  if (!days || typeof days !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'days query parameter is required'
+    })
+    return
+  }
+
+  const date = new Date(asOfDate)
+  if (isNaN(date.getTime())) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidDate',
+      message: 'asOfDate is not a valid date'
+    })
+    return
+  }
+
+  const result = await generateBillsDueForecastWorkflow(userId, date, Number(days))
+
+  if (result.isSuccess) {
+    return res.json({
+      billsDue: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
 
 export { router as reportingRoutes }
\ No newline at end of file
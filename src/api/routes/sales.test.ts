@@ -26,6 +26,7 @@ describe('Sales Context: API Routes (Integration)', () => {
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -42,6 +43,14 @@ describe('Sales Context: API Routes (Integration)', () => {
     return user.id
   }
 
+  // Helper to start a session for a user and return the session cookie
+  const loginAs = async (userId: string) => {
+    const session = await prisma.session.create({
+      data: { userId, expiresAt: new Date(Date.now() + 60 * 60 * 1000) }
+    })
+    return `session=${session.id}`
+  }
+
   // Helper to create a test account and return its ID
   const createTestAccount = async (
     userId: string,
@@ -81,14 +90,15 @@ describe('Sales Context: API Routes (Integration)', () => {
   describe('POST /api/sales/customers', () => {
     it('should create a customer with valid data', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerData = {
-        userId,
         name: 'Acme Corp',
         email: 'acme@example.com'
       }
 
       const response = await request(app)
         .post('/api/sales/customers')
+        .set('Cookie', cookie)
         .send(customerData)
         .expect(201)
 
@@ -110,14 +120,15 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should create a customer without email', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerData = {
-        userId,
         name: 'Acme Corp'
         // email omitted
       }
 
       const response = await request(app)
         .post('/api/sales/customers')
+        .set('Cookie', cookie)
         .send(customerData)
         .expect(201)
 
@@ -125,31 +136,32 @@ describe('Sales Context: API Routes (Integration)', () => {
       expect(response.body.customer.name).toBe('Acme Corp')
     })
 
-    it('should reject missing userId', async () => {
+    it('should reject a request without a session cookie', async () => {
       const customerData = {
         name: 'Acme Corp'
-        // userId omitted
+        // session cookie omitted
       }
 
       const response = await request(app)
         .post('/api/sales/customers')
         .send(customerData)
-        .expect(400)
+        .expect(401)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('MissingField')
-      expect(response.body.error.message).toMatch(/userId is required/)
+      expect(response.body.error.subtype).toBe('Unauthenticated')
+      expect(response.body.error.message).toMatch(/Authentication required/)
     })
 
     it('should reject missing name', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerData = {
-        userId
         // name omitted
       }
 
       const response = await request(app)
         .post('/api/sales/customers')
+        .set('Cookie', cookie)
         .send(customerData)
         .expect(400)
 
@@ -160,13 +172,14 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should reject non-string name', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerData = {
-        userId,
         name: 12345
       }
 
       const response = await request(app)
         .post('/api/sales/customers')
+        .set('Cookie', cookie)
         .send(customerData)
         .expect(400)
 
@@ -176,14 +189,15 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should reject invalid email format', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerData = {
-        userId,
         name: 'Acme Corp',
         email: 'not-an-email'
       }
 
       const response = await request(app)
         .post('/api/sales/customers')
+        .set('Cookie', cookie)
         .send(customerData)
         .expect(400)
 
@@ -195,13 +209,14 @@ describe('Sales Context: API Routes (Integration)', () => {
   describe('GET /api/sales/customers', () => {
     it('should list customers for a user', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       // Create two customers for this user
       await createTestCustomer(userId, 'Customer A')
       await createTestCustomer(userId, 'Customer B', 'b@example.com')
 
       const response = await request(app)
         .get('/api/sales/customers')
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(200)
 
       expect(response.body.customers).toHaveLength(2)
@@ -214,30 +229,51 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should return empty list when user has no customers', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
 
       const response = await request(app)
         .get('/api/sales/customers')
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(200)
 
       expect(response.body.customers).toEqual([])
       expect(response.body.count).toBe(0)
     })
 
-    it('should reject missing userId query parameter', async () => {
+    it('should reject a request without a session cookie', async () => {
       const response = await request(app)
         .get('/api/sales/customers')
-        .expect(400)
+        .expect(401)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('MissingField')
-      expect(response.body.error.message).toMatch(/userId query parameter is required/)
+      expect(response.body.error.subtype).toBe('Unauthenticated')
     })
 
-    it('should accept numeric string userId', async () => {
+    it('should reject an expired session', async () => {
+      const userId = await createTestUser()
+      const session = await prisma.session.create({
+        data: { userId, expiresAt: new Date(Date.now() - 1000) }
+      })
+
+      const response = await request(app)
+        .get('/api/sales/customers')
+        .set('Cookie', `session=${session.id}`)
+        .expect(401)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('SessionExpired')
+    })
+
+    it('should ignore a userId query parameter and use the session user', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const otherUserId = await createTestUser('other_user')
+      await createTestCustomer(otherUserId, 'Other Customer')
+
       const response = await request(app)
         .get('/api/sales/customers')
-        .query({ userId: 123 })
+        .set('Cookie', cookie)
+        .query({ userId: otherUserId })
         .expect(200)
 
       expect(response.body.customers).toEqual([])
@@ -248,11 +284,12 @@ describe('Sales Context: API Routes (Integration)', () => {
   describe('GET /api/sales/customers/:customerId', () => {
     it('should retrieve a customer by ID', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerId = await createTestCustomer(userId, 'Specific Customer', 'specific@example.com')
 
       const response = await request(app)
         .get(`/api/sales/customers/${customerId}`)
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(200)
 
       expect(response.body.customer.id).toBe(customerId)
@@ -262,11 +299,12 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should return 404 when customer does not exist', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const nonExistentId = '550e8400-e29b-41d4-a716-446655440000'
 
       const response = await request(app)
         .get(`/api/sales/customers/${nonExistentId}`)
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(404)
 
       expect(response.body.error.type).toBe('DomainFailure')
@@ -277,38 +315,157 @@ describe('Sales Context: API Routes (Integration)', () => {
       const user1 = await createTestUser('user1')
       const user2 = await createTestUser('user2')
       const customerId = await createTestCustomer(user1, 'Customer for user1')
+      const cookie = await loginAs(user2)
 
       // user2 tries to fetch customer created by user1
       const response = await request(app)
         .get(`/api/sales/customers/${customerId}`)
-        .query({ userId: user2 })
+        .set('Cookie', cookie)
         .expect(404)
 
       expect(response.body.error.type).toBe('DomainFailure')
       expect(response.body.error.subtype).toBe('CustomerNotFound')
     })
 
-    it('should reject missing userId query parameter', async () => {
+    it('should reject a request without a session cookie', async () => {
       const customerId = 'some-id'
       const response = await request(app)
         .get(`/api/sales/customers/${customerId}`)
-        .expect(400)
+        .expect(401)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('MissingField')
+      expect(response.body.error.subtype).toBe('Unauthenticated')
+    })
+  })
+
+  describe('GET /api/sales/customers/:customerId/statement', () => {
+    // Records a 400 deposit, a 1000 invoice with 250 of the deposit applied, and a 300 payment through the API
+    const setupCustomerActivity = async (cookie: string, userId: string) => {
+      const customerId = await createTestCustomer(userId, 'Statement Customer', 'statement@example.com')
+      await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      await createTestAccount(userId, '111', 'Accounts Receivable', 'Asset', 'Debit')
+      await createTestAccount(userId, '255', 'Unearned Revenue', 'Liability', 'Credit')
+      await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+
+      const depositResponse = await request(app)
+        .post('/api/sales/customer-deposits')
+        .set('Cookie', cookie)
+        .send({ customerId, amount: 400, date: '2025-01-05T00:00:00Z' })
+        .expect(201)
+      const invoiceResponse = await request(app)
+        .post('/api/sales/invoices')
+        .set('Cookie', cookie)
+        .send({ customerId, invoiceNumber: 'INV-STM', total: 1000, date: '2025-01-15T00:00:00Z', dueDate: '2025-02-14T00:00:00Z' })
+        .expect(201)
+      const invoiceId = invoiceResponse.body.invoice.id
+      await request(app)
+        .post(`/api/sales/invoices/${invoiceId}/deposit-applications`)
+        .set('Cookie', cookie)
+        .send({ depositId: depositResponse.body.deposit.id, amount: 250, date: '2025-01-16T00:00:00Z' })
+        .expect(201)
+      await request(app)
+        .post(`/api/sales/invoices/${invoiceId}/payments`)
+        .set('Cookie', cookie)
+        .send({ amount: 300, date: '2025-02-01T00:00:00Z', method: 'Check', reference: 'CHK-77' })
+        .expect(201)
+
+      return customerId
+    }
+    const period = { startDate: '2025-01-10T00:00:00Z', endDate: '2025-02-28T00:00:00Z' }
+
+    it('should return the running balance and aging as JSON', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await setupCustomerActivity(cookie, userId)
+
+      const response = await request(app)
+        .get(`/api/sales/customers/${customerId}/statement`)
+        .set('Cookie', cookie)
+        .query(period)
+        .expect(200)
+
+      const statement = response.body.customerStatement
+      expect(statement.customer.name).toBe('Statement Customer')
+      expect(statement.openingBalance).toBe(-400)
+      expect(statement.lines.map((line: any) => [line.type, line.description, line.balance])).toEqual([
+        ['Invoice', 'Invoice INV-STM', 600],
+        ['Payment', 'Payment on INV-STM (CHK-77)', 300],
+      ])
+      expect(statement.closingBalance).toBe(300)
+      // The invoice still has 450 open; the closing balance nets the 150 of the deposit not yet applied
+      expect(statement.aging.buckets.days1To30).toBe(450)
+      expect(statement.aging.total).toBe(450)
+    })
+
+    it('should render the statement as plain text or a printable HTML page', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await setupCustomerActivity(cookie, userId)
+
+      const text = await request(app)
+        .get(`/api/sales/customers/${customerId}/statement`)
+        .set('Cookie', cookie)
+        .query({ ...period, format: 'text' })
+        .expect(200)
+      expect(text.headers['content-type']).toMatch(/^text\/plain/)
+      expect(text.text).toContain('Customer: Statement Customer <statement@example.com>')
+      expect(text.text).toContain('Payment on INV-STM (CHK-77)')
+
+      const html = await request(app)
+        .get(`/api/sales/customers/${customerId}/statement`)
+        .set('Cookie', cookie)
+        .query({ ...period, format: 'html' })
+        .expect(200)
+      expect(html.headers['content-type']).toMatch(/^text\/html/)
+      expect(html.text).toContain('<td>Invoice INV-STM</td>')
+    })
+
+    it('should return 400 for an unknown format or a missing endDate', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await createTestCustomer(userId)
+
+      const badFormat = await request(app)
+        .get(`/api/sales/customers/${customerId}/statement`)
+        .set('Cookie', cookie)
+        .query({ ...period, format: 'pdf' })
+        .expect(400)
+      expect(badFormat.body.error.subtype).toBe('InvalidField')
+
+      const missingEnd = await request(app)
+        .get(`/api/sales/customers/${customerId}/statement`)
+        .set('Cookie', cookie)
+        .query({ startDate: period.startDate })
+        .expect(400)
+      expect(missingEnd.body.error.subtype).toBe('MissingField')
+    })
+
+    it('should return 404 when the customer belongs to another user', async () => {
+      const user1 = await createTestUser('user1')
+      const user2 = await createTestUser('user2')
+      const customerId = await createTestCustomer(user1)
+      const cookie = await loginAs(user2)
+
+      const response = await request(app)
+        .get(`/api/sales/customers/${customerId}/statement`)
+        .set('Cookie', cookie)
+        .query(period)
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('CustomerNotFound')
     })
   })
 
   describe('POST /api/sales/invoices', () => {
     it('should issue a sales invoice successfully', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerId = await createTestCustomer(userId, 'Invoice Customer')
       // Create required accounts: 111 (Accounts Receivable) and 401 (Service Revenue)
       const arAccountId = await createTestAccount(userId, '111', 'Accounts Receivable', 'Asset', 'Debit')
       const revenueAccountId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
 
       const invoiceData = {
-        userId,
         customerId,
         invoiceNumber: 'INV-001',
         total: 1500.50,
@@ -319,6 +476,7 @@ describe('Sales Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/sales/invoices')
+        .set('Cookie', cookie)
         .send(invoiceData)
         .expect(201)
 
@@ -344,10 +502,10 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should reject missing required fields', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerId = await createTestCustomer(userId)
 
       const missingTotal = {
-        userId,
         customerId,
         invoiceNumber: 'INV-001',
         date: '2025-01-15T00:00:00Z'
@@ -356,6 +514,7 @@ describe('Sales Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/sales/invoices')
+        .set('Cookie', cookie)
         .send(missingTotal)
         .expect(400)
 
@@ -366,10 +525,10 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should reject invalid total (negative)', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerId = await createTestCustomer(userId)
 
       const invalidTotal = {
-        userId,
         customerId,
         invoiceNumber: 'INV-001',
         total: -100,
@@ -378,6 +537,7 @@ describe('Sales Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/sales/invoices')
+        .set('Cookie', cookie)
         .send(invalidTotal)
         .expect(400)
 
@@ -387,12 +547,12 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should reject duplicate invoice number for same user', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerId = await createTestCustomer(userId)
       await createTestAccount(userId, '111', 'Accounts Receivable', 'Asset', 'Debit')
       await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
 
       const firstInvoice = {
-        userId,
         customerId,
         invoiceNumber: 'DUPLICATE-001',
         total: 1000,
@@ -400,11 +560,11 @@ describe('Sales Context: API Routes (Integration)', () => {
       }
       await request(app)
         .post('/api/sales/invoices')
+        .set('Cookie', cookie)
         .send(firstInvoice)
         .expect(201)
 
       const secondInvoice = {
-        userId,
         customerId,
         invoiceNumber: 'DUPLICATE-001',
         total: 2000,
@@ -412,6 +572,7 @@ describe('Sales Context: API Routes (Integration)', () => {
       }
       const response = await request(app)
         .post('/api/sales/invoices')
+        .set('Cookie', cookie)
         .send(secondInvoice)
         .expect(409)
 
@@ -438,13 +599,15 @@ describe('Sales Context: API Routes (Integration)', () => {
       // First user
       await request(app)
         .post('/api/sales/invoices')
-        .send({ ...invoiceData, userId: user1, customerId: customer1 })
+        .set('Cookie', await loginAs(user1))
+        .send({ ...invoiceData, customerId: customer1 })
         .expect(201)
 
       // Second user
       await request(app)
         .post('/api/sales/invoices')
-        .send({ ...invoiceData, userId: user2, customerId: customer2 })
+        .set('Cookie', await loginAs(user2))
+        .send({ ...invoiceData, customerId: customer2 })
         .expect(201)
 
       const invoices = await prisma.salesInvoice.findMany({
@@ -455,12 +618,12 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should return 404 when customer does not exist', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const fakeCustomerId = '550e8400-e29b-41d4-a716-446655440000'
       await createTestAccount(userId, '111', 'AR', 'Asset', 'Debit')
       await createTestAccount(userId, '401', 'Revenue', 'Revenue', 'Credit')
 
       const invoiceData = {
-        userId,
         customerId: fakeCustomerId,
         invoiceNumber: 'INV-001',
         total: 1000,
@@ -469,6 +632,7 @@ describe('Sales Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/sales/invoices')
+        .set('Cookie', cookie)
         .send(invoiceData)
         .expect(404)
 
@@ -478,11 +642,11 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should return 404 when required accounts are missing', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerId = await createTestCustomer(userId)
       // Do not create accounts 111 and 401
 
       const invoiceData = {
-        userId,
         customerId,
         invoiceNumber: 'INV-001',
         total: 1000,
@@ -491,17 +655,70 @@ describe('Sales Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .post('/api/sales/invoices')
+        .set('Cookie', cookie)
         .send(invoiceData)
         .expect(404)
 
       expect(response.body.error.type).toBe('DomainFailure')
       expect(response.body.error.subtype).toBe('AccountNotFound')
     })
+
+    it('should issue a multi-line invoice and credit each revenue account for its share', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await createTestCustomer(userId)
+      const arAccountId = await createTestAccount(userId, '111', 'Accounts Receivable', 'Asset', 'Debit')
+      const serviceRevenueId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      const trainingRevenueId = await createTestAccount(userId, '402', 'Training Revenue', 'Revenue', 'Credit')
+
+      const response = await request(app)
+        .post('/api/sales/invoices')
+        .set('Cookie', cookie)
+        .send({
+          customerId,
+          invoiceNumber: 'INV-LINES-001',
+          date: '2025-01-15T00:00:00Z',
+          lines: [
+            { description: 'Consulting', quantity: 10, unitPrice: 120 },
+            { description: 'Workshop', quantity: 1, unitPrice: 300.5, revenueAccountId: trainingRevenueId },
+          ]
+        })
+        .expect(201)
+
+      expect(response.body.invoice.total).toBe(1500.5)
+      expect(response.body.invoice.lines).toHaveLength(2)
+      expect(response.body.invoice.lines[0]).toMatchObject({ lineNumber: 1, amount: 1200, revenueAccountId: serviceRevenueId })
+      expect(response.body.invoice.lines[1]).toMatchObject({ lineNumber: 2, amount: 300.5, revenueAccountId: trainingRevenueId })
+
+      const journalLines = await prisma.journalLine.findMany({ where: { journalEntryId: response.body.invoice.journalEntryId } })
+      expect(journalLines).toHaveLength(3)
+      const amountFor = (accountId: string) => Number(journalLines.find(line => line.accountId === accountId)?.amount)
+      expect(amountFor(arAccountId)).toBe(1500.5)
+      expect(amountFor(serviceRevenueId)).toBe(1200)
+      expect(amountFor(trainingRevenueId)).toBe(300.5)
+    })
+
+    it('should reject lines that are not a non-empty array', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await createTestCustomer(userId)
+
+      const response = await request(app)
+        .post('/api/sales/invoices')
+        .set('Cookie', cookie)
+        .send({ customerId, invoiceNumber: 'INV-001', date: '2025-01-15T00:00:00Z', lines: [] })
+        .expect(400)
+
+      expect(response.body.error.type).toBe('ApplicationFailure')
+      expect(response.body.error.subtype).toBe('InvalidField')
+      expect(response.body.error.message).toMatch(/lines must be a non-empty array/)
+    })
   })
 
   describe('GET /api/sales/invoices', () => {
     it('should list invoices for a user', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerId = await createTestCustomer(userId)
       // Create accounts and invoices via the API (or directly). We'll use direct creation for speed.
       const arId = await createTestAccount(userId, '111', 'AR', 'Asset', 'Debit')
@@ -548,7 +765,7 @@ describe('Sales Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .get('/api/sales/invoices')
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(200)
 
       expect(response.body.invoices).toHaveLength(2)
@@ -560,6 +777,7 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should support pagination', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerId = await createTestCustomer(userId)
       const arId = await createTestAccount(userId, '111', 'AR', 'Asset', 'Debit')
       const revenueId = await createTestAccount(userId, '401', 'Revenue', 'Revenue', 'Credit')
@@ -589,7 +807,8 @@ describe('Sales Context: API Routes (Integration)', () => {
       // Get first page of 2
       const response1 = await request(app)
         .get('/api/sales/invoices')
-        .query({ userId, skip: 0, take: 2 })
+        .set('Cookie', cookie)
+        .query({ skip: 0, take: 2 })
         .expect(200)
 
       expect(response1.body.invoices).toHaveLength(2)
@@ -599,7 +818,8 @@ describe('Sales Context: API Routes (Integration)', () => {
       // Get second page of 2
       const response2 = await request(app)
         .get('/api/sales/invoices')
-        .query({ userId, skip: 2, take: 2 })
+        .set('Cookie', cookie)
+        .query({ skip: 2, take: 2 })
         .expect(200)
 
       expect(response2.body.invoices).toHaveLength(2)
@@ -607,19 +827,20 @@ describe('Sales Context: API Routes (Integration)', () => {
       expect(response2.body.invoices[1].invoiceNumber).toBe('INV-2')
     })
 
-    it('should reject missing userId', async () => {
+    it('should reject a request without a session cookie', async () => {
       const response = await request(app)
         .get('/api/sales/invoices')
-        .expect(400)
+        .expect(401)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('MissingField')
+      expect(response.body.error.subtype).toBe('Unauthenticated')
     })
   })
 
   describe('GET /api/sales/invoices/:invoiceId', () => {
     it('should retrieve an invoice by ID', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const customerId = await createTestCustomer(userId)
       const arId = await createTestAccount(userId, '111', 'AR', 'Asset', 'Debit')
       const revenueId = await createTestAccount(userId, '401', 'Revenue', 'Revenue', 'Credit')
@@ -645,7 +866,7 @@ describe('Sales Context: API Routes (Integration)', () => {
 
       const response = await request(app)
         .get(`/api/sales/invoices/${invoice.id}`)
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(200)
 
       expect(response.body.invoice.id).toBe(invoice.id)
@@ -655,11 +876,12 @@ describe('Sales Context: API Routes (Integration)', () => {
 
     it('should return 404 when invoice does not exist', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const nonExistentId = '550e8400-e29b-41d4-a716-446655440000'
 
       const response = await request(app)
         .get(`/api/sales/invoices/${nonExistentId}`)
-        .query({ userId })
+        .set('Cookie', cookie)
         .expect(404)
 
       expect(response.body.error.type).toBe('DomainFailure')
@@ -695,7 +917,7 @@ describe('Sales Context: API Routes (Integration)', () => {
       // user2 tries to fetch it
       const response = await request(app)
         .get(`/api/sales/invoices/${invoice.id}`)
-        .query({ userId: user2 })
+        .set('Cookie', await loginAs(user2))
         .expect(404)
 
       expect(response.body.error.type).toBe('DomainFailure')
@@ -706,11 +928,13 @@ describe('Sales Context: API Routes (Integration)', () => {
   describe('POST /api/sales/invoices/:invoiceId/payments', () => {
     it('should return 400 when missing required fields (date, method)', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
       const invoiceId = 'some-id'
 
       const response = await request(app)
         .post(`/api/sales/invoices/${invoiceId}/payments`)
-        .send({ userId, amount: 100 })
+        .set('Cookie', cookie)
+        .send({ amount: 100 })
         .expect(400)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
@@ -720,30 +944,493 @@ describe('Sales Context: API Routes (Integration)', () => {
   })
 
   describe('POST /api/sales/cash-sales', () => {
-    it('should return 501 Not Implemented', async () => {
+    it('should record a cash sale and post it to Cash and Service Revenue', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await createTestCustomer(userId)
+      const cashId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      const revenueId = await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
 
       const response = await request(app)
         .post('/api/sales/cash-sales')
-        .send({ userId, amount: 100 })
-        .expect(501)
+        .set('Cookie', cookie)
+        .send({ customerId, amount: 150.5, date: '2025-01-15T00:00:00Z', description: 'Counter sale' })
+        .expect(201)
+
+      expect(response.body.message).toBe('Cash sale recorded successfully')
+      expect(response.body.cashSale.customerId).toBe(customerId)
+      expect(response.body.cashSale.amount).toBe(150.5)
+      expect(response.body.cashSale.journalEntryId).toBeDefined()
+
+      const lines = await prisma.journalLine.findMany({ where: { journalEntryId: response.body.cashSale.journalEntryId } })
+      expect(lines).toHaveLength(2)
+      expect(lines.find(line => line.side === 'Debit')?.accountId).toBe(cashId)
+      expect(lines.find(line => line.side === 'Credit')?.accountId).toBe(revenueId)
+    })
+
+    it('should return 400 when customerId is missing', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .post('/api/sales/cash-sales')
+        .set('Cookie', cookie)
+        .send({ amount: 100, date: '2025-01-15T00:00:00Z' })
+        .expect(400)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('NotImplemented')
+      expect(response.body.error.subtype).toBe('MissingField')
+    })
+
+    it('should return 400 for a non-positive amount', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await createTestCustomer(userId)
+
+      const response = await request(app)
+        .post('/api/sales/cash-sales')
+        .set('Cookie', cookie)
+        .send({ customerId, amount: 0, date: '2025-01-15T00:00:00Z' })
+        .expect(400)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('CashSaleAmountMustBePositive')
+    })
+
+    it('should return 404 when the customer does not exist', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .post('/api/sales/cash-sales')
+        .set('Cookie', cookie)
+        .send({ customerId: '550e8400-e29b-41d4-a716-446655440000', amount: 100, date: '2025-01-15T00:00:00Z' })
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('CustomerNotFound')
+    })
+  })
+
+  describe('GET /api/sales/cash-sales', () => {
+    it('should list cash sales by date descending with pagination', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await createTestCustomer(userId)
+
+      for (let i = 1; i <= 3; i++) {
+        const journalEntry = await prisma.journalEntry.create({
+          data: { userId, description: `Cash sale ${i}`, date: new Date(`2025-01-0${i}`) }
+        })
+        await prisma.cashSale.create({
+          data: { userId, customerId, amount: i * 100, date: new Date(`2025-01-0${i}`), journalEntryId: journalEntry.id }
+        })
+      }
+
+      const response = await request(app)
+        .get('/api/sales/cash-sales')
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.count).toBe(3)
+      expect(response.body.cashSales.map((sale: any) => sale.amount)).toEqual([300, 200, 100])
+
+      const paged = await request(app)
+        .get('/api/sales/cash-sales')
+        .set('Cookie', cookie)
+        .query({ skip: 1, take: 1 })
+        .expect(200)
+
+      expect(paged.body.cashSales.map((sale: any) => sale.amount)).toEqual([200])
+    })
+  })
+
+  describe('GET /api/sales/cash-sales/:cashSaleId', () => {
+    it('should retrieve a cash sale by ID', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await createTestCustomer(userId)
+      const journalEntry = await prisma.journalEntry.create({
+        data: { userId, description: 'Cash sale', date: new Date('2025-01-10') }
+      })
+      const sale = await prisma.cashSale.create({
+        data: { userId, customerId, amount: 75.25, date: new Date('2025-01-10'), journalEntryId: journalEntry.id }
+      })
+
+      const response = await request(app)
+        .get(`/api/sales/cash-sales/${sale.id}`)
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(response.body.cashSale.id).toBe(sale.id)
+      expect(response.body.cashSale.amount).toBe(75.25)
+    })
+
+    it('should return 404 when the cash sale belongs to another user', async () => {
+      const user1 = await createTestUser('user1')
+      const user2 = await createTestUser('user2')
+      const customerId = await createTestCustomer(user1)
+      const journalEntry = await prisma.journalEntry.create({
+        data: { userId: user1, description: 'Cash sale', date: new Date('2025-01-10') }
+      })
+      const sale = await prisma.cashSale.create({
+        data: { userId: user1, customerId, amount: 75, date: new Date('2025-01-10'), journalEntryId: journalEntry.id }
+      })
+
+      const response = await request(app)
+        .get(`/api/sales/cash-sales/${sale.id}`)
+        .set('Cookie', await loginAs(user2))
+        .expect(404)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('CashSaleNotFound')
     })
   })
 
   describe('POST /api/sales/customer-deposits', () => {
-    it('should return 501 Not Implemented', async () => {
+    it('should record a deposit and post it to Cash and Unearned Revenue', async () => {
       const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await createTestCustomer(userId)
+      const cashId = await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      const unearnedId = await createTestAccount(userId, '255', 'Unearned Revenue', 'Liability', 'Credit')
+
+      const response = await request(app)
+        .post('/api/sales/customer-deposits')
+        .set('Cookie', cookie)
+        .send({ customerId, amount: 500, date: '2025-01-05T00:00:00Z', description: 'Retainer' })
+        .expect(201)
+
+      expect(response.body.message).toBe('Customer deposit recorded successfully')
+      expect(response.body.deposit.amount).toBe(500)
+
+      const lines = await prisma.journalLine.findMany({ where: { journalEntryId: response.body.deposit.journalEntryId } })
+      expect(lines.find(line => line.side === 'Debit')?.accountId).toBe(cashId)
+      expect(lines.find(line => line.side === 'Credit')?.accountId).toBe(unearnedId)
+    })
+
+    it('should return 400 when date is missing', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await createTestCustomer(userId)
 
       const response = await request(app)
         .post('/api/sales/customer-deposits')
-        .send({ userId, amount: 100 })
-        .expect(501)
+        .set('Cookie', cookie)
+        .send({ customerId, amount: 100 })
+        .expect(400)
 
       expect(response.body.error.type).toBe('ApplicationFailure')
-      expect(response.body.error.subtype).toBe('NotImplemented')
+      expect(response.body.error.subtype).toBe('MissingField')
+    })
+  })
+
+  describe('Applying customer deposits', () => {
+    // Sets up the accounts, a 400 deposit and a 1000 invoice for the same customer through the API
+    const setupDepositAndInvoice = async (cookie: string, userId: string) => {
+      const customerId = await createTestCustomer(userId)
+      await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      await createTestAccount(userId, '111', 'Accounts Receivable', 'Asset', 'Debit')
+      await createTestAccount(userId, '255', 'Unearned Revenue', 'Liability', 'Credit')
+      await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+
+      const depositResponse = await request(app)
+        .post('/api/sales/customer-deposits')
+        .set('Cookie', cookie)
+        .send({ customerId, amount: 400, date: '2025-01-05T00:00:00Z' })
+        .expect(201)
+      const invoiceResponse = await request(app)
+        .post('/api/sales/invoices')
+        .set('Cookie', cookie)
+        .send({ customerId, invoiceNumber: 'INV-DEP', total: 1000, date: '2025-01-15T00:00:00Z' })
+        .expect(201)
+
+      return { customerId, depositId: depositResponse.body.deposit.id, invoiceId: invoiceResponse.body.invoice.id }
+    }
+
+    it('should apply a deposit to an invoice and report what is left on the deposit', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { customerId, depositId, invoiceId } = await setupDepositAndInvoice(cookie, userId)
+
+      const response = await request(app)
+        .post(`/api/sales/invoices/${invoiceId}/deposit-applications`)
+        .set('Cookie', cookie)
+        .send({ depositId, amount: 250, date: '2025-01-16T00:00:00Z' })
+        .expect(201)
+
+      expect(response.body.message).toBe('Deposit applied successfully')
+      expect(response.body.application.amount).toBe(250)
+
+      const invoice = await prisma.salesInvoice.findUnique({ where: { id: invoiceId } })
+      expect(invoice?.status).toBe('PartiallyPaid')
+      const customer = await prisma.customer.findUnique({ where: { id: customerId } })
+      expect(Number(customer?.balance)).toBe(750)
+
+      const detail = await request(app)
+        .get(`/api/sales/customer-deposits/${depositId}`)
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(detail.body.deposit.id).toBe(depositId)
+      expect(detail.body.applications).toHaveLength(1)
+      expect(detail.body.availableAmount).toBe(150)
+    })
+
+    it('should return 400 when applying more than is left on the deposit', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { depositId, invoiceId } = await setupDepositAndInvoice(cookie, userId)
+
+      const response = await request(app)
+        .post(`/api/sales/invoices/${invoiceId}/deposit-applications`)
+        .set('Cookie', cookie)
+        .send({ depositId, amount: 500, date: '2025-01-16T00:00:00Z' })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('DepositApplicationExceedsAvailable')
+    })
+
+    it('should return 404 for a deposit that does not exist', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { invoiceId } = await setupDepositAndInvoice(cookie, userId)
+
+      const response = await request(app)
+        .post(`/api/sales/invoices/${invoiceId}/deposit-applications`)
+        .set('Cookie', cookie)
+        .send({ depositId: '550e8400-e29b-41d4-a716-446655440000', date: '2025-01-16T00:00:00Z' })
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('DepositNotFound')
+    })
+  })
+
+  describe('Voiding invoices and issuing credit notes', () => {
+    // Sets up the accounts and a 600 invoice through the API
+    const setupInvoice = async (cookie: string, userId: string) => {
+      const customerId = await createTestCustomer(userId)
+      await createTestAccount(userId, '101', 'Cash', 'Asset', 'Debit')
+      await createTestAccount(userId, '111', 'Accounts Receivable', 'Asset', 'Debit')
+      await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+
+      const invoiceResponse = await request(app)
+        .post('/api/sales/invoices')
+        .set('Cookie', cookie)
+        .send({ customerId, invoiceNumber: 'INV-ADJ', total: 600, date: '2025-01-15T00:00:00Z' })
+        .expect(201)
+
+      return { customerId, invoiceId: invoiceResponse.body.invoice.id }
+    }
+
+    it('should void an unpaid invoice and restore the customer balance', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { customerId, invoiceId } = await setupInvoice(cookie, userId)
+
+      const response = await request(app)
+        .post(`/api/sales/invoices/${invoiceId}/void`)
+        .set('Cookie', cookie)
+        .send({ date: '2025-01-17T00:00:00Z', reason: 'Duplicate invoice' })
+        .expect(200)
+
+      expect(response.body.message).toBe('Invoice voided successfully')
+      expect(response.body.invoice.status).toBe('Void')
+      const customer = await prisma.customer.findUnique({ where: { id: customerId } })
+      expect(Number(customer?.balance)).toBe(0)
+    })
+
+    it('should return 400 when the void date is missing', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { invoiceId } = await setupInvoice(cookie, userId)
+
+      const response = await request(app)
+        .post(`/api/sales/invoices/${invoiceId}/void`)
+        .set('Cookie', cookie)
+        .send({})
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('MissingField')
+    })
+
+    it('should issue a credit note and list it on the invoice', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { customerId, invoiceId } = await setupInvoice(cookie, userId)
+
+      const response = await request(app)
+        .post(`/api/sales/invoices/${invoiceId}/credit-notes`)
+        .set('Cookie', cookie)
+        .send({ creditNoteNumber: 'CN-001', amount: 150, date: '2025-01-18T00:00:00Z', reason: 'Discount' })
+        .expect(201)
+
+      expect(response.body.message).toBe('Credit note issued successfully')
+      expect(response.body.creditNote.amount).toBe(150)
+      const customer = await prisma.customer.findUnique({ where: { id: customerId } })
+      expect(Number(customer?.balance)).toBe(450)
+
+      const list = await request(app)
+        .get(`/api/sales/invoices/${invoiceId}/credit-notes`)
+        .set('Cookie', cookie)
+        .expect(200)
+
+      expect(list.body.creditNotes).toHaveLength(1)
+      expect(list.body.creditNotes[0].creditNoteNumber).toBe('CN-001')
+    })
+
+    it('should return 409 for a duplicate credit note number', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { invoiceId } = await setupInvoice(cookie, userId)
+      const body = { creditNoteNumber: 'CN-001', amount: 50, date: '2025-01-18T00:00:00Z' }
+
+      await request(app).post(`/api/sales/invoices/${invoiceId}/credit-notes`).set('Cookie', cookie).send(body).expect(201)
+      const response = await request(app)
+        .post(`/api/sales/invoices/${invoiceId}/credit-notes`)
+        .set('Cookie', cookie)
+        .send(body)
+        .expect(409)
+
+      expect(response.body.error.subtype).toBe('DuplicateCreditNoteNumber')
+    })
+
+    it('should return 400 for a credit note on a void invoice', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const { invoiceId } = await setupInvoice(cookie, userId)
+      await request(app)
+        .post(`/api/sales/invoices/${invoiceId}/void`)
+        .set('Cookie', cookie)
+        .send({ date: '2025-01-17T00:00:00Z' })
+        .expect(200)
+
+      const response = await request(app)
+        .post(`/api/sales/invoices/${invoiceId}/credit-notes`)
+        .set('Cookie', cookie)
+        .send({ creditNoteNumber: 'CN-001', amount: 50, date: '2025-01-18T00:00:00Z' })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('InvoiceVoided')
+    })
+
+    it('should return 404 when listing the credit notes of an unknown invoice', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .get('/api/sales/invoices/550e8400-e29b-41d4-a716-446655440000/credit-notes')
+        .set('Cookie', cookie)
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('InvoiceNotFound')
+    })
+  })
+
+  describe('GET /api/sales/customer-deposits', () => {
+    it('should list deposits for the user only', async () => {
+      const user1 = await createTestUser('user1')
+      const user2 = await createTestUser('user2')
+      const customerId = await createTestCustomer(user1)
+      const journalEntry = await prisma.journalEntry.create({
+        data: { userId: user1, description: 'Deposit', date: new Date('2025-01-05') }
+      })
+      await prisma.customerDeposit.create({
+        data: { userId: user1, customerId, amount: 300, date: new Date('2025-01-05'), journalEntryId: journalEntry.id }
+      })
+
+      const ownResponse = await request(app)
+        .get('/api/sales/customer-deposits')
+        .set('Cookie', await loginAs(user1))
+        .expect(200)
+      expect(ownResponse.body.count).toBe(1)
+      expect(ownResponse.body.deposits[0].amount).toBe(300)
+
+      const otherResponse = await request(app)
+        .get('/api/sales/customer-deposits')
+        .set('Cookie', await loginAs(user2))
+        .expect(200)
+      expect(otherResponse.body.count).toBe(0)
+    })
+
+    it('should return 404 for another user\'s deposit', async () => {
+      const user1 = await createTestUser('user1')
+      const user2 = await createTestUser('user2')
+      const customerId = await createTestCustomer(user1)
+      const journalEntry = await prisma.journalEntry.create({
+        data: { userId: user1, description: 'Deposit', date: new Date('2025-01-05') }
+      })
+      const deposit = await prisma.customerDeposit.create({
+        data: { userId: user1, customerId, amount: 300, date: new Date('2025-01-05'), journalEntryId: journalEntry.id }
+      })
+
+      const response = await request(app)
+        .get(`/api/sales/customer-deposits/${deposit.id}`)
+        .set('Cookie', await loginAs(user2))
+        .expect(404)
+
+      expect(response.body.error.subtype).toBe('DepositNotFound')
+    })
+  })
+
+  describe('Collaborator access (X-Book-Owner-Id)', () => {
+    // Helper to invite a collaborator into the owner's books and return the collaborator's session cookie
+    const inviteAs = async (ownerId: string, username: string, role: 'Viewer' | 'Bookkeeper' | 'Accountant') => {
+      const collaboratorId = await createTestUser(username)
+      await prisma.collaborator.create({ data: { ownerId, userId: collaboratorId, role } })
+      return loginAs(collaboratorId)
+    }
+
+    it('should let a bookkeeper issue an invoice in the owner\'s books', async () => {
+      const ownerId = await createTestUser('book_owner')
+      const customerId = await createTestCustomer(ownerId, 'Owner Customer')
+      await createTestAccount(ownerId, '111', 'Accounts Receivable', 'Asset', 'Debit')
+      await createTestAccount(ownerId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      const cookie = await inviteAs(ownerId, 'bookkeeper', 'Bookkeeper')
+
+      const response = await request(app)
+        .post('/api/sales/invoices')
+        .set('Cookie', cookie)
+        .set('X-Book-Owner-Id', ownerId)
+        .send({ customerId, invoiceNumber: 'INV-001', total: 250, date: '2025-01-15T00:00:00Z' })
+        .expect(201)
+
+      expect(response.body.invoice.userId).toBe(ownerId)
+      const dbCustomer = await prisma.customer.findUnique({ where: { id: customerId } })
+      expect(Number(dbCustomer?.balance)).toBe(250)
+    })
+
+    it('should forbid a viewer from issuing an invoice', async () => {
+      const ownerId = await createTestUser('book_owner')
+      const customerId = await createTestCustomer(ownerId, 'Owner Customer')
+      await createTestAccount(ownerId, '111', 'Accounts Receivable', 'Asset', 'Debit')
+      await createTestAccount(ownerId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      const cookie = await inviteAs(ownerId, 'viewer', 'Viewer')
+
+      const response = await request(app)
+        .post('/api/sales/invoices')
+        .set('Cookie', cookie)
+        .set('X-Book-Owner-Id', ownerId)
+        .send({ customerId, invoiceNumber: 'INV-001', total: 250, date: '2025-01-15T00:00:00Z' })
+        .expect(403)
+
+      expect(response.body.error.type).toBe('DomainFailure')
+      expect(response.body.error.subtype).toBe('PermissionDenied')
+      expect(await prisma.salesInvoice.count()).toBe(0)
+    })
+
+    it('should let a viewer read the owner\'s customers', async () => {
+      const ownerId = await createTestUser('book_owner')
+      await createTestCustomer(ownerId, 'Owner Customer')
+      const cookie = await inviteAs(ownerId, 'viewer', 'Viewer')
+
+      const response = await request(app)
+        .get('/api/sales/customers')
+        .set('Cookie', cookie)
+        .set('X-Book-Owner-Id', ownerId)
+        .expect(200)
+
+      expect(response.body.customers).toHaveLength(1)
+      expect(response.body.customers[0].name).toBe('Owner Customer')
     })
   })
 
@@ -758,4 +1445,157 @@ describe('Sales Context: API Routes (Integration)', () => {
       expect(response.body.timestamp).toBeDefined()
     })
   })
+
+  describe('/api/sales/items', () => {
+    it('should create, list, update and delete a catalog item', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const revenueId = await createTestAccount(userId, '402', 'Product Revenue', 'Revenue', 'Credit')
+
+      const created = await request(app)
+        .post('/api/sales/items')
+        .set('Cookie', cookie)
+        .send({ name: 'Widget', sku: 'WID-001', defaultPrice: 20, revenueAccountId: revenueId })
+        .expect(201)
+      expect(created.body.message).toBe('Item created successfully')
+      expect(created.body.item).toMatchObject({ name: 'Widget', sku: 'WID-001', defaultPrice: 20, revenueAccountId: revenueId })
+      const itemId = created.body.item.id
+
+      const list = await request(app).get('/api/sales/items').set('Cookie', cookie).expect(200)
+      expect(list.body.count).toBe(1)
+
+      const updated = await request(app)
+        .patch(`/api/sales/items/${itemId}`)
+        .set('Cookie', cookie)
+        .send({ defaultPrice: 22.5, revenueAccountId: null })
+        .expect(200)
+      expect(updated.body.item.defaultPrice).toBe(22.5)
+      expect(updated.body.item.revenueAccountId).toBeUndefined()
+
+      await request(app).delete(`/api/sales/items/${itemId}`).set('Cookie', cookie).expect(200)
+      const response = await request(app).get(`/api/sales/items/${itemId}`).set('Cookie', cookie).expect(404)
+      expect(response.body.error.subtype).toBe('ItemNotFound')
+    })
+
+    it('should return 409 for a duplicate SKU', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      await request(app).post('/api/sales/items').set('Cookie', cookie).send({ name: 'Widget', sku: 'WID-001' }).expect(201)
+
+      const response = await request(app)
+        .post('/api/sales/items')
+        .set('Cookie', cookie)
+        .send({ name: 'Other widget', sku: 'WID-001' })
+        .expect(409)
+
+      expect(response.body.error.subtype).toBe('DuplicateItemSku')
+    })
+
+    it('should return 400 when the SKU is missing', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .post('/api/sales/items')
+        .set('Cookie', cookie)
+        .send({ name: 'Widget' })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('MissingField')
+      expect(response.body.error.message).toMatch(/sku is required/)
+    })
+
+    it('should fill in an invoice line from a catalog item', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await createTestCustomer(userId)
+      await createTestAccount(userId, '111', 'Accounts Receivable', 'Asset', 'Debit')
+      await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      const item = await request(app)
+        .post('/api/sales/items')
+        .set('Cookie', cookie)
+        .send({ name: 'Consulting hour', sku: 'SRV-001', defaultPrice: 120 })
+        .expect(201)
+
+      const response = await request(app)
+        .post('/api/sales/invoices')
+        .set('Cookie', cookie)
+        .send({ customerId, invoiceNumber: 'INV-ITEM-001', date: '2025-01-15T00:00:00Z', lines: [{ itemId: item.body.item.id, quantity: 2.5 }] })
+        .expect(201)
+
+      expect(response.body.invoice.total).toBe(300)
+      expect(response.body.invoice.lines[0]).toMatchObject({ description: 'Consulting hour', unitPrice: 120, itemId: item.body.item.id })
+    })
+  })
+
+  describe('/api/sales/tax-rates', () => {
+    it('should create a tax rate and charge it on an invoice line', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const customerId = await createTestCustomer(userId)
+      await createTestAccount(userId, '111', 'Accounts Receivable', 'Asset', 'Debit')
+      await createTestAccount(userId, '401', 'Service Revenue', 'Revenue', 'Credit')
+      const liabilityId = await createTestAccount(userId, '204', 'Sales Tax Payable', 'Liability', 'Credit')
+
+      const created = await request(app)
+        .post('/api/sales/tax-rates')
+        .set('Cookie', cookie)
+        .send({ name: 'State Sales Tax', rate: 6, accountId: liabilityId })
+        .expect(201)
+      expect(created.body.message).toBe('Tax rate created successfully')
+      expect(created.body.taxRate).toMatchObject({ name: 'State Sales Tax', rate: 6, accountId: liabilityId })
+      const taxRateId = created.body.taxRate.id
+
+      const list = await request(app).get('/api/sales/tax-rates').set('Cookie', cookie).expect(200)
+      expect(list.body.count).toBe(1)
+
+      const invoice = await request(app)
+        .post('/api/sales/invoices')
+        .set('Cookie', cookie)
+        .send({
+          customerId,
+          invoiceNumber: 'INV-TAX-001',
+          date: '2025-01-15T00:00:00Z',
+          lines: [{ description: 'Widgets', quantity: 2, unitPrice: 50, taxRateId }],
+        })
+        .expect(201)
+      expect(invoice.body.invoice.total).toBe(106)
+      expect(invoice.body.invoice.lines[0]).toMatchObject({ amount: 100, taxRateId, taxAmount: 6 })
+    })
+
+    it('should return 409 for a duplicate name and 404 for an unknown tax rate', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+      const liabilityId = await createTestAccount(userId, '204', 'Sales Tax Payable', 'Liability', 'Credit')
+      await request(app)
+        .post('/api/sales/tax-rates')
+        .set('Cookie', cookie)
+        .send({ name: 'State Sales Tax', rate: 6, accountId: liabilityId })
+        .expect(201)
+
+      const duplicate = await request(app)
+        .post('/api/sales/tax-rates')
+        .set('Cookie', cookie)
+        .send({ name: 'State Sales Tax', rate: 7, accountId: liabilityId })
+        .expect(409)
+      expect(duplicate.body.error.subtype).toBe('DuplicateTaxRate')
+
+      const missing = await request(app).get('/api/sales/tax-rates/unknown-tax-rate').set('Cookie', cookie).expect(404)
+      expect(missing.body.error.subtype).toBe('TaxRateNotFound')
+    })
+
+    it('should return 400 when the rate is missing', async () => {
+      const userId = await createTestUser()
+      const cookie = await loginAs(userId)
+
+      const response = await request(app)
+        .post('/api/sales/tax-rates')
+        .set('Cookie', cookie)
+        .send({ name: 'State Sales Tax', accountId: 'acc-1' })
+        .expect(400)
+
+      expect(response.body.error.subtype).toBe('MissingField')
+      expect(response.body.error.message).toMatch(/rate is required/)
+    })
+  })
 })
\ No newline at end of file
@@ -3,18 +3,53 @@ import { createCustomerWorkflow, CreateCustomerCommand } from '@/bounded-context
 import { issueSalesInvoiceWorkflow, IssueSalesInvoiceCommand } from '@/bounded-contexts/sales/application/issueSalesInvoiceWorkflow'
 import { applyPaymentToInvoiceWorkflow, ApplyPaymentToInvoiceCommand } from '@/bounded-contexts/sales/application/applyPaymentToInvoiceWorkflow'
 import { listCustomers, findCustomerById } from '@/bounded-contexts/sales/infrastructure/customerRepo'
+import { recordCashSaleWorkflow, RecordCashSaleCommand } from '@/bounded-contexts/sales/application/recordCashSaleWorkflow'
+import { recordCustomerDepositWorkflow, RecordCustomerDepositCommand } from '@/bounded-contexts/sales/application/recordCustomerDepositWorkflow'
+import { applyDepositToInvoiceWorkflow, ApplyDepositToInvoiceCommand } from '@/bounded-contexts/sales/application/applyDepositToInvoiceWorkflow'
+import { voidSalesInvoiceWorkflow, VoidSalesInvoiceCommand } from '@/bounded-contexts/sales/application/voidSalesInvoiceWorkflow'
+import { issueCreditNoteWorkflow, IssueCreditNoteCommand } from '@/bounded-contexts/sales/application/issueCreditNoteWorkflow'
 import { listSalesInvoices, findSalesInvoiceById } from '@/bounded-contexts/sales/infrastructure/salesInvoiceRepo'
+import { listCashSales, findCashSaleById } from '@/bounded-contexts/sales/infrastructure/cashSaleRepo'
+import { listCustomerDeposits, findCustomerDepositById } from '@/bounded-contexts/sales/infrastructure/customerDepositRepo'
+import { listDepositApplicationsByDeposit } from '@/bounded-contexts/sales/infrastructure/depositApplicationRepo'
+import { listCreditNotesByInvoice } from '@/bounded-contexts/sales/infrastructure/creditNoteRepo'
+import { createItemWorkflow, CreateItemCommand } from '@/bounded-contexts/sales/application/createItemWorkflow'
+import { updateItemWorkflow } from '@/bounded-contexts/sales/application/updateItemWorkflow'
+import { deleteItemWorkflow } from '@/bounded-contexts/sales/application/deleteItemWorkflow'
+import { listItems, findItemById } from '@/bounded-contexts/sales/infrastructure/itemRepo'
+import { createTaxRateWorkflow, CreateTaxRateCommand } from '@/bounded-contexts/sales/application/createTaxRateWorkflow'
+import { listTaxRates, findTaxRateById } from '@/bounded-contexts/sales/infrastructure/taxRateRepo'
+import { generateCustomerStatementWorkflow } from '@/bounded-contexts/reporting/application/generateCustomerStatementWorkflow'
+import { renderCustomerStatementHtml, renderCustomerStatementText } from '@/bounded-contexts/reporting/domain/statementFormats'
 import { sendErrorResponse, wrapAsyncRoute } from '@/common/infrastructure/errorMapper'
+import { toCents } from '@/common/types/money'
+import { requireSession } from '@/api/middleware/session'
+import { requireBookAccess } from '@/api/middleware/bookAccess'
 
 const router = Router()
 
+/**
+ * GET /api/sales/health
+ * Health check for sales routes.
+ */
+router.get('/health', (req, res) => {
+  res.json({
+    status: 'ok',
+    context: 'sales',
+    timestamp: new Date().toISOString()
+  })
+})
+
+// Every route below acts on behalf of the user resolved from the session cookie,
+// in their own books or in the books named by the X-Book-Owner-Id header
+router.use(requireSession, requireBookAccess)
+
 /**
  * POST /api/sales/customers
  * Create a new customer.
  *
  * Request Body:
  * {
- *   "userId": "string" (required, UUID of the user),
  *   "name": "string" (required, customer name),
  *   "email": "string" (optional, email address)
  * }
@@ -22,21 +57,16 @@ const router = Router()
  * Responses:
  * - 201: Customer created successfully
  * - 400: Validation error (domain failure)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
  * - 409: Duplicate customer name (if we decide to enforce uniqueness, but not in v1)
  * - 500: Internal server error
  */
 router.post('/customers', wrapAsyncRoute(async (req, res) => {
-  const { userId, name, email } = req.body
+  const { userId, actingUserId } = res.locals
+  const { name, email } = req.body
 
   // Basic validation of required fields
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId is required and must be a string'
-    })
-    return
-  }
   if (!name || typeof name !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -46,7 +76,7 @@ router.post('/customers', wrapAsyncRoute(async (req, res) => {
     return
   }
 
-  const command: CreateCustomerCommand = { userId, name, email }
+  const command: CreateCustomerCommand = { userId, actingUserId, name, email }
   const result = await createCustomerWorkflow(command)
 
   if (result.isSuccess) {
@@ -65,10 +95,19 @@ router.post('/customers', wrapAsyncRoute(async (req, res) => {
  *
  * Request Body:
  * {
- *   "userId": "string",
  *   "customerId": "string",
  *   "invoiceNumber": "string",
- *   "total": number (positive, up to 2 decimal places),
+ *   "total": number (positive, up to 2 decimal places; required without lines, must match the lines plus their tax when both are given),
+ *   "lines": [ (optional; the total is derived from the lines and the tax charged on them)
+ *     {
+ *       "itemId": "string" (optional; a catalog item whose defaults fill in the fields left out),
+ *       "description": "string" (required unless filled in from the item),
+ *       "quantity": number (positive, up to 2 decimal places),
+ *       "unitPrice": number (positive, up to 2 decimal places; required unless filled in from the item),
+ *       "revenueAccountId": "string" (optional; defaults to the item's revenue account, then the DefaultRevenue posting account),
+ *       "taxRateId": "string" (optional; a tax rate charged on top of the line amount)
+ *     }
+ *   ],
  *   "date": "string" (ISO 8601),
  *   "dueDate": "string" (ISO 8601, optional),
  *   "description": "string" (optional)
@@ -77,39 +116,42 @@ router.post('/customers', wrapAsyncRoute(async (req, res) => {
  * Responses:
  * - 201: Invoice issued successfully
  * - 400: Validation error (domain failure)
- * - 404: Customer not found
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Customer, catalog item, tax rate or revenue account not found
  * - 409: Duplicate invoice number
  * - 500: Internal server error
  */
 router.post('/invoices', wrapAsyncRoute(async (req, res) => {
-  const { userId, customerId, invoiceNumber, total, date, dueDate, description } = req.body
+  const { userId, actingUserId } = res.locals
+  const { customerId, invoiceNumber, total, lines, date, dueDate, description } = req.body
 
   // Basic validation
-  if (!userId || typeof userId !== 'string') {
+  if (!customerId || typeof customerId !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
       subtype: 'MissingField',
-      message: 'userId is required and must be a string'
+      message: 'customerId is required and must be a string'
     })
     return
   }
-  if (!customerId || typeof customerId !== 'string') {
+  if (!invoiceNumber || typeof invoiceNumber !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
       subtype: 'MissingField',
-      message: 'customerId is required and must be a string'
+      message: 'invoiceNumber is required and must be a string'
     })
     return
   }
-  if (!invoiceNumber || typeof invoiceNumber !== 'string') {
+  if (lines !== undefined && (!Array.isArray(lines) || lines.length === 0 || !lines.every(line => line !== null && typeof line === 'object'))) {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'invoiceNumber is required and must be a string'
+      subtype: 'InvalidField',
+      message: 'lines must be a non-empty array of line objects'
     })
     return
   }
-  if (typeof total !== 'number' || total <= 0) {
+  if ((lines === undefined || total !== undefined) && (typeof total !== 'number' || total <= 0)) {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
       subtype: 'MissingField',
@@ -126,7 +168,7 @@ router.post('/invoices', wrapAsyncRoute(async (req, res) => {
     return
   }
 
-  const command: IssueSalesInvoiceCommand = { userId, customerId, invoiceNumber, total, date, dueDate, description }
+  const command: IssueSalesInvoiceCommand = { userId, actingUserId, customerId, invoiceNumber, total, lines, date, dueDate, description }
   const result = await issueSalesInvoiceWorkflow(command)
 
   if (result.isSuccess) {
@@ -143,25 +185,13 @@ router.post('/invoices', wrapAsyncRoute(async (req, res) => {
  * GET /api/sales/customers
  * List customers for a user.
  *
- * Query Parameters:
- *   userId (string) - required, the user's ID
- *
  * Responses:
  * - 200: List of customers
- * - 400: Missing or invalid userId
+ * - 401: Not authenticated (missing or expired session)
  * - 500: Internal server error
  */
 router.get('/customers', wrapAsyncRoute(async (req, res) => {
-  const { userId } = req.query
-
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
+  const { userId } = res.locals
 
   const result = await listCustomers(userId)
 
@@ -179,28 +209,16 @@ router.get('/customers', wrapAsyncRoute(async (req, res) => {
  * GET /api/sales/customers/:customerId
  * Retrieve a specific customer by ID.
  *
- * Query Parameters:
- *   userId (string) - required, the user's ID (for isolation)
- *
  * Responses:
  * - 200: Customer found
- * - 400: Missing or invalid userId
+ * - 401: Not authenticated (missing or expired session)
  * - 404: Customer not found
  * - 500: Internal server error
  */
 router.get('/customers/:customerId', wrapAsyncRoute(async (req, res) => {
-  const { userId } = req.query
+  const { userId } = res.locals
   const { customerId } = req.params
 
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
-
   const result = await findCustomerById(userId, customerId)
 
   if (result.isSuccess) {
@@ -221,31 +239,97 @@ router.get('/customers/:customerId', wrapAsyncRoute(async (req, res) => {
 }))
 
 /**
- * GET /api/sales/invoices
- * List sales invoices for a user, ordered by date descending.
+ * GET /api/sales/customers/:customerId/statement
+ * Generate the statement for a customer: opening balance, every invoice, payment, deposit and cash sale
+ * in the period with a running balance, closing balance, and the aging of invoices open at endDate.
  *
  * Query Parameters:
- *   userId (string) - required, the user's ID
- *   skip (number, optional) - pagination offset
- *   take (number, optional) - pagination limit
+ *   startDate (string) - required, ISO 8601 date string
+ *   endDate (string) - required, ISO 8601 date string
+ *   format (string) - optional, json (default), html (printable page) or text (plain text)
  *
  * Responses:
- * - 200: List of invoices
- * - 400: Missing or invalid userId
+ * - 200: Statement generated successfully
+ * - 400: Missing or invalid parameters, domain validation failure
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: Customer not found
  * - 500: Internal server error
  */
-router.get('/invoices', wrapAsyncRoute(async (req, res) => {
-  const { userId, skip, take } = req.query
+router.get('/customers/:customerId/statement', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { customerId } = req.params
+  const { startDate, endDate, format = 'json' } = req.query
 
-  if (!userId || typeof userId !== 'string') {
+  if (!startDate || typeof startDate !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'startDate query parameter is required and must be an ISO 8601 string'
+    })
+    return
+  }
+  if (!endDate || typeof endDate !== 'string') {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
       subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
+      message: 'endDate query parameter is required and must be an ISO 8601 string'
+    })
+    return
+  }
+  if (format !== 'json' && format !== 'html' && format !== 'text') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'format must be one of json, html or text'
+    })
+    return
+  }
+
+  const start = new Date(startDate)
+  const end = new Date(endDate)
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidDate',
+      message: 'startDate or endDate is not a valid date'
     })
     return
   }
 
+  const result = await generateCustomerStatementWorkflow(userId, customerId, start, end)
+
+  if (result.isSuccess) {
+    if (format === 'html') {
+      return res.type('html').send(renderCustomerStatementHtml(result.value))
+    }
+    if (format === 'text') {
+      return res.type('text/plain').send(renderCustomerStatementText(result.value))
+    }
+    return res.json({
+      customerStatement: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/sales/invoices
+ * List sales invoices for a user, ordered by date descending.
+ *
+ * Query Parameters:
+ *   skip (number, optional) - pagination offset
+ *   take (number, optional) - pagination limit
+ *
+ * Responses:
+ * - 200: List of invoices
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/invoices', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { skip, take } = req.query
+
   const options: { skip?: number; take?: number } = {}
   if (skip !== undefined) {
     const parsed = parseInt(skip as string, 10)
@@ -276,28 +360,16 @@ router.get('/invoices', wrapAsyncRoute(async (req, res) => {
  * GET /api/sales/invoices/:invoiceId
  * Retrieve a specific sales invoice by ID.
  *
- * Query Parameters:
- *   userId (string) - required, the user's ID (for isolation)
- *
  * Responses:
  * - 200: Invoice found
- * - 400: Missing or invalid userId
+ * - 401: Not authenticated (missing or expired session)
  * - 404: Invoice not found
  * - 500: Internal server error
  */
 router.get('/invoices/:invoiceId', wrapAsyncRoute(async (req, res) => {
-  const { userId } = req.query
+  const { userId } = res.locals
   const { invoiceId } = req.params
 
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId query parameter is required and must be a string'
-    })
-    return
-  }
-
   const result = await findSalesInvoiceById(userId, invoiceId)
 
   if (result.isSuccess) {
@@ -323,7 +395,6 @@ router.get('/invoices/:invoiceId', wrapAsyncRoute(async (req, res) => {
  *
  * Request Body:
  * {
- *   "userId": "string",
  *   "amount": number (positive, up to 2 decimal places),
  *   "date": "string" (ISO 8601),
  *   "method": "string" (Cash, Check, CreditCard, BankTransfer),
@@ -333,22 +404,17 @@ router.get('/invoices/:invoiceId', wrapAsyncRoute(async (req, res) => {
  * Responses:
  * - 201: Payment applied successfully
  * - 400: Validation error (domain failure)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
  * - 404: Invoice not found
  * - 500: Internal server error
  */
 router.post('/invoices/:invoiceId/payments', wrapAsyncRoute(async (req, res) => {
-  const { userId, amount, date, method, reference } = req.body
+  const { userId, actingUserId } = res.locals
+  const { amount, date, method, reference } = req.body
   const { invoiceId } = req.params
 
   // Basic validation
-  if (!userId || typeof userId !== 'string') {
-    sendErrorResponse(res, {
-      type: 'ApplicationFailure',
-      subtype: 'MissingField',
-      message: 'userId is required and must be a string'
-    })
-    return
-  }
   if (typeof amount !== 'number' || amount <= 0) {
     sendErrorResponse(res, {
       type: 'ApplicationFailure',
@@ -374,7 +440,7 @@ router.post('/invoices/:invoiceId/payments', wrapAsyncRoute(async (req, res) =>
     return
   }
 
-  const command: ApplyPaymentToInvoiceCommand = { userId, invoiceId, amount, date, method, reference }
+  const command: ApplyPaymentToInvoiceCommand = { userId, actingUserId, invoiceId, amount, date, method, reference }
   const result = await applyPaymentToInvoiceWorkflow(command)
 
   if (result.isSuccess) {
@@ -388,47 +454,874 @@ router.post('/invoices/:invoiceId/payments', wrapAsyncRoute(async (req, res) =>
 }))
 
 /**
- * POST /api/sales/cash-sales
- * Record a cash sale (revenue earned and cash received at the same time).
- * TODO: Implement this endpoint when the workflow is ready.
+ * POST /api/sales/invoices/:invoiceId/deposit-applications
+ * Apply a customer deposit to an invoice (Debit Unearned Revenue / Credit Accounts Receivable).
+ *
+ * Request Body:
+ * {
+ *   "depositId": "string",
+ *   "amount": number (optional, defaults to the lesser of the deposit's available amount and the invoice's open amount),
+ *   "date": "string" (ISO 8601)
+ * }
+ *
+ * Responses:
+ * - 201: Deposit applied successfully
+ * - 400: Validation error, or the deposit belongs to a different customer
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Invoice, deposit or default account not found
+ * - 500: Internal server error
  */
-router.post('/cash-sales', async (req, res) => {
-  // Placeholder for future implementation
-  return res.status(501).json({
-    error: {
+router.post('/invoices/:invoiceId/deposit-applications', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { depositId, amount, date } = req.body
+  const { invoiceId } = req.params
+
+  // Basic validation
+  if (!depositId || typeof depositId !== 'string') {
+    sendErrorResponse(res, {
       type: 'ApplicationFailure',
-      subtype: 'NotImplemented',
-      message: 'Record cash sale endpoint is not yet implemented'
-    }
-  })
-})
+      subtype: 'MissingField',
+      message: 'depositId is required and must be a string'
+    })
+    return
+  }
+  if (amount !== undefined && typeof amount !== 'number') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'amount must be a number when provided'
+    })
+    return
+  }
+  if (!date || typeof date !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'date is required and must be an ISO string'
+    })
+    return
+  }
+
+  const command: ApplyDepositToInvoiceCommand = { userId, actingUserId, invoiceId, depositId, amount, date }
+  const result = await applyDepositToInvoiceWorkflow(command)
+
+  if (result.isSuccess) {
+    return res.status(201).json({
+      application: result.value,
+      message: 'Deposit applied successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
 
 /**
- * POST /api/sales/customer-deposits
- * Record a customer deposit (unearned revenue).
- * TODO: Implement this endpoint when the workflow is ready.
+ * POST /api/sales/invoices/:invoiceId/void
+ * Void an unpaid invoice: reverses its revenue journal entry and takes the total off the customer's balance.
+ * The invoice is kept with status Void.
+ *
+ * Request Body:
+ * {
+ *   "date": "string" (ISO 8601, not before the invoice date),
+ *   "reason": "string" (optional, up to 200 characters)
+ * }
+ *
+ * Responses:
+ * - 200: Invoice voided successfully
+ * - 400: Validation error, e.g. the invoice is already void or has payments, deposits or credit notes applied
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Invoice not found
+ * - 500: Internal server error
  */
-router.post('/customer-deposits', async (req, res) => {
-  // Placeholder for future implementation
-  return res.status(501).json({
-    error: {
+router.post('/invoices/:invoiceId/void', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { date, reason } = req.body
+  const { invoiceId } = req.params
+
+  // Basic validation
+  if (!date || typeof date !== 'string') {
+    sendErrorResponse(res, {
       type: 'ApplicationFailure',
-      subtype: 'NotImplemented',
-      message: 'Record customer deposit endpoint is not yet implemented'
-    }
-  })
-})
+      subtype: 'MissingField',
+      message: 'date is required and must be an ISO string'
+    })
+    return
+  }
+  if (reason !== undefined && typeof reason !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'reason must be a string when provided'
+    })
+    return
+  }
+
+  const command: VoidSalesInvoiceCommand = { userId, actingUserId, invoiceId, date, reason }
+  const result = await voidSalesInvoiceWorkflow(command)
+
+  if (result.isSuccess) {
+    return res.json({
+      invoice: result.value,
+      message: 'Invoice voided successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
 
 /**
- * GET /api/sales/health
- * Health check for sales routes.
+ * POST /api/sales/invoices/:invoiceId/credit-notes
+ * Issue a credit note against an invoice (Debit Revenue and its share of the invoice's sales tax / Credit Accounts Receivable),
+ * lowering its open amount.
+ *
+ * Request Body:
+ * {
+ *   "creditNoteNumber": "string" (required, unique per user),
+ *   "amount": number (positive, up to 2 decimal places, at most the invoice's open amount),
+ *   "date": "string" (ISO 8601),
+ *   "reason": "string" (optional, up to 200 characters),
+ *   "revenueAccountId": "string" (optional, defaults to the revenue account of the invoice's first line)
+ * }
+ *
+ * Responses:
+ * - 201: Credit note issued successfully
+ * - 400: Validation error, e.g. the invoice is void or the amount exceeds its open amount
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Invoice or account not found
+ * - 409: Duplicate credit note number
+ * - 500: Internal server error
  */
-router.get('/health', (req, res) => {
-  res.json({
-    status: 'ok',
-    context: 'sales',
-    timestamp: new Date().toISOString()
-  })
-})
+router.post('/invoices/:invoiceId/credit-notes', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { creditNoteNumber, amount, date, reason, revenueAccountId } = req.body
+  const { invoiceId } = req.params
+
+  // Basic validation
+  if (!creditNoteNumber || typeof creditNoteNumber !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'creditNoteNumber is required and must be a string'
+    })
+    return
+  }
+  if (typeof amount !== 'number' || amount <= 0) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'amount must be a positive number'
+    })
+    return
+  }
+  if (!date || typeof date !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'date is required and must be an ISO string'
+    })
+    return
+  }
+  if (revenueAccountId !== undefined && typeof revenueAccountId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'revenueAccountId must be a string when provided'
+    })
+    return
+  }
+
+  const command: IssueCreditNoteCommand = { userId, actingUserId, invoiceId, creditNoteNumber, amount, date, reason, revenueAccountId }
+  const result = await issueCreditNoteWorkflow(command)
+
+  if (result.isSuccess) {
+    return res.status(201).json({
+      creditNote: result.value,
+      message: 'Credit note issued successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/sales/invoices/:invoiceId/credit-notes
+ * List the credit notes issued against an invoice, oldest first.
+ *
+ * Responses:
+ * - 200: List of credit notes
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: Invoice not found
+ * - 500: Internal server error
+ */
+router.get('/invoices/:invoiceId/credit-notes', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { invoiceId } = req.params
+
+  const invoiceResult = await findSalesInvoiceById(userId, invoiceId)
+  if (!invoiceResult.isSuccess) {
+    sendErrorResponse(res, invoiceResult.error)
+    return
+  }
+  if (invoiceResult.value === null) {
+    sendErrorResponse(res, {
+      type: 'DomainFailure',
+      subtype: 'InvoiceNotFound',
+      message: `Invoice ${invoiceId} not found or does not belong to the user`
+    })
+    return
+  }
+
+  const result = await listCreditNotesByInvoice(userId, invoiceId)
+  if (result.isSuccess) {
+    return res.json({
+      creditNotes: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * POST /api/sales/cash-sales
+ * Record a cash sale (revenue earned and cash received at the same time).
+ * Posts Debit Cash (101) / Credit Service Revenue (401).
+ *
+ * Request Body:
+ * {
+ *   "customerId": "string",
+ *   "amount": number (positive, up to 2 decimal places),
+ *   "date": "string" (ISO 8601),
+ *   "description": "string" (optional)
+ * }
+ *
+ * Responses:
+ * - 201: Cash sale recorded successfully
+ * - 400: Validation error (domain failure)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Customer or default account not found
+ * - 500: Internal server error
+ */
+router.post('/cash-sales', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { customerId, amount, date, description } = req.body
+
+  // Basic validation
+  if (!customerId || typeof customerId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'customerId is required and must be a string'
+    })
+    return
+  }
+  if (typeof amount !== 'number') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'amount is required and must be a number'
+    })
+    return
+  }
+  if (!date || typeof date !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'date is required and must be an ISO string'
+    })
+    return
+  }
+
+  const command: RecordCashSaleCommand = { userId, actingUserId, customerId, amount, date, description }
+  const result = await recordCashSaleWorkflow(command)
+
+  if (result.isSuccess) {
+    return res.status(201).json({
+      cashSale: result.value,
+      message: 'Cash sale recorded successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/sales/cash-sales
+ * List cash sales for a user, ordered by date descending.
+ *
+ * Query Parameters:
+ *   skip (number, optional) - pagination offset
+ *   take (number, optional) - pagination limit
+ *
+ * Responses:
+ * - 200: List of cash sales
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/cash-sales', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { skip, take } = req.query
+
+  const options: { skip?: number; take?: number } = {}
+  if (skip !== undefined) {
+    const parsed = parseInt(skip as string, 10)
+    if (!isNaN(parsed) && parsed >= 0) {
+      options.skip = parsed
+    }
+  }
+  if (take !== undefined) {
+    const parsed = parseInt(take as string, 10)
+    if (!isNaN(parsed) && parsed > 0) {
+      options.take = parsed
+    }
+  }
+
+  const result = await listCashSales(userId, options)
+
+  if (result.isSuccess) {
+    return res.json({
+      cashSales: result.value,
+      count: result.value.length
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/sales/cash-sales/:cashSaleId
+ * Retrieve a specific cash sale by ID.
+ *
+ * Responses:
+ * - 200: Cash sale found
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: Cash sale not found
+ * - 500: Internal server error
+ */
+router.get('/cash-sales/:cashSaleId', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { cashSaleId } = req.params
+
+  const result = await findCashSaleById(userId, cashSaleId)
+
+  if (result.isSuccess) {
+    if (result.value === null) {
+      sendErrorResponse(res, {
+        type: 'DomainFailure',
+        subtype: 'CashSaleNotFound',
+        message: `Cash sale ${cashSaleId} not found or does not belong to the user`
+      })
+      return
+    }
+    return res.json({
+      cashSale: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * POST /api/sales/customer-deposits
+ * Record a customer deposit (cash received before the work is done).
+ * Posts Debit Cash (101) / Credit Unearned Revenue (255).
+ *
+ * Request Body:
+ * {
+ *   "customerId": "string",
+ *   "amount": number (positive, up to 2 decimal places),
+ *   "date": "string" (ISO 8601),
+ *   "description": "string" (optional)
+ * }
+ *
+ * Responses:
+ * - 201: Customer deposit recorded successfully
+ * - 400: Validation error (domain failure)
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Customer or default account not found
+ * - 500: Internal server error
+ */
+router.post('/customer-deposits', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { customerId, amount, date, description } = req.body
+
+  // Basic validation
+  if (!customerId || typeof customerId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'customerId is required and must be a string'
+    })
+    return
+  }
+  if (typeof amount !== 'number') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'amount is required and must be a number'
+    })
+    return
+  }
+  if (!date || typeof date !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'date is required and must be an ISO string'
+    })
+    return
+  }
+
+  const command: RecordCustomerDepositCommand = { userId, actingUserId, customerId, amount, date, description }
+  const result = await recordCustomerDepositWorkflow(command)
+
+  if (result.isSuccess) {
+    return res.status(201).json({
+      deposit: result.value,
+      message: 'Customer deposit recorded successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/sales/customer-deposits
+ * List customer deposits for a user, ordered by date descending.
+ *
+ * Query Parameters:
+ *   skip (number, optional) - pagination offset
+ *   take (number, optional) - pagination limit
+ *
+ * Responses:
+ * - 200: List of customer deposits
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/customer-deposits', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { skip, take } = req.query
+
+  const options: { skip?: number; take?: number } = {}
+  if (skip !== undefined) {
+    const parsed = parseInt(skip as string, 10)
+    if (!isNaN(parsed) && parsed >= 0) {
+      options.skip = parsed
+    }
+  }
+  if (take !== undefined) {
+    const parsed = parseInt(take as string, 10)
+    if (!isNaN(parsed) && parsed > 0) {
+      options.take = parsed
+    }
+  }
+
+  const result = await listCustomerDeposits(userId, options)
+
+  if (result.isSuccess) {
+    return res.json({
+      deposits: result.value,
+      count: result.value.length
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/sales/customer-deposits/:depositId
+ * Retrieve a customer deposit with its applications and the amount still available to apply.
+ *
+ * Responses:
+ * - 200: Customer deposit found
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: Customer deposit not found
+ * - 500: Internal server error
+ */
+router.get('/customer-deposits/:depositId', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { depositId } = req.params
+
+  const result = await findCustomerDepositById(userId, depositId)
+  if (!result.isSuccess) {
+    sendErrorResponse(res, result.error)
+    return
+  }
+  if (result.value === null) {
+    sendErrorResponse(res, {
+      type: 'DomainFailure',
+      subtype: 'DepositNotFound',
+      message: `Customer deposit ${depositId} not found or does not belong to the user`
+    })
+    return
+  }
+
+  const applicationsResult = await listDepositApplicationsByDeposit(userId, depositId)
+  if (!applicationsResult.isSuccess) {
+    sendErrorResponse(res, applicationsResult.error)
+    return
+  }
+
+  const applied = applicationsResult.value.reduce((sum, application) => sum + application.amount, 0)
+  return res.json({
+    deposit: result.value,
+    applications: applicationsResult.value,
+    availableAmount: toCents(result.value.amount - applied)
+  })
+}))
+
+/**
+ * POST /api/sales/items
+ * Add an item to the catalog of things the user sells or buys.
+ *
+ * Request Body:
+ * {
+ *   "name": "string" (required),
+ *   "sku": "string" (required, unique per user),
+ *   "defaultPrice": number (optional, positive, up to 2 decimal places),
+ *   "revenueAccountId": "string" (optional, a Revenue account that is not archived),
+ *   "expenseAccountId": "string" (optional, an Expense account that is not archived)
+ * }
+ *
+ * Responses:
+ * - 201: Item created successfully
+ * - 400: Validation error (domain failure), e.g. the revenue account is not a Revenue account
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Account not found
+ * - 409: An item with this SKU already exists
+ * - 500: Internal server error
+ */
+router.post('/items', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { name, sku, defaultPrice, revenueAccountId, expenseAccountId } = req.body
+
+  // Basic validation
+  if (!name || typeof name !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'name is required and must be a string'
+    })
+    return
+  }
+  if (!sku || typeof sku !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'sku is required and must be a string'
+    })
+    return
+  }
+  if (defaultPrice !== undefined && typeof defaultPrice !== 'number') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'defaultPrice must be a number'
+    })
+    return
+  }
+  if ((revenueAccountId !== undefined && typeof revenueAccountId !== 'string') ||
+      (expenseAccountId !== undefined && typeof expenseAccountId !== 'string')) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'revenueAccountId and expenseAccountId must be strings'
+    })
+    return
+  }
+
+  const command: CreateItemCommand = { userId, actingUserId, name, sku, defaultPrice, revenueAccountId, expenseAccountId }
+  const result = await createItemWorkflow(command)
+
+  if (result.isSuccess) {
+    return res.status(201).json({
+      item: result.value,
+      message: 'Item created successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/sales/items
+ * List catalog items for a user, by name.
+ *
+ * Responses:
+ * - 200: List of items
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/items', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+
+  const result = await listItems(userId)
+
+  if (result.isSuccess) {
+    return res.json({
+      items: result.value,
+      count: result.value.length
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/sales/items/:itemId
+ * Retrieve a specific catalog item by ID.
+ *
+ * Responses:
+ * - 200: Item found
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: Item not found
+ * - 500: Internal server error
+ */
+router.get('/items/:itemId', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { itemId } = req.params
+
+  const result = await findItemById(userId, itemId)
+
+  if (result.isSuccess) {
+    if (result.value === null) {
+      sendErrorResponse(res, {
+        type: 'DomainFailure',
+        subtype: 'ItemNotFound',
+        message: `Item ${itemId} not found or does not belong to the user`
+      })
+      return
+    }
+    return res.json({
+      item: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * PATCH /api/sales/items/:itemId
+ * Change a catalog item. Invoice lines and bills already recorded keep their own values.
+ *
+ * Request Body (at least one field):
+ * {
+ *   "name": "string" (optional),
+ *   "sku": "string" (optional),
+ *   "defaultPrice": number | null (optional; null clears it),
+ *   "revenueAccountId": "string" | null (optional; null clears it),
+ *   "expenseAccountId": "string" | null (optional; null clears it)
+ * }
+ *
+ * Responses:
+ * - 200: Item updated successfully
+ * - 400: Validation error (domain failure), or no field given
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Item or account not found
+ * - 409: Another item already has this SKU
+ * - 500: Internal server error
+ */
+router.patch('/items/:itemId', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { itemId } = req.params
+  const { name, sku, defaultPrice, revenueAccountId, expenseAccountId } = req.body ?? {}
+
+  if ([name, sku, defaultPrice, revenueAccountId, expenseAccountId].every(field => field === undefined)) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'At least one of name, sku, defaultPrice, revenueAccountId or expenseAccountId is required'
+    })
+    return
+  }
+  if ((name !== undefined && typeof name !== 'string') || (sku !== undefined && typeof sku !== 'string')) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'name and sku must be strings'
+    })
+    return
+  }
+  if (defaultPrice !== undefined && defaultPrice !== null && typeof defaultPrice !== 'number') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'defaultPrice must be a number or null'
+    })
+    return
+  }
+  if ((revenueAccountId !== undefined && revenueAccountId !== null && typeof revenueAccountId !== 'string') ||
+      (expenseAccountId !== undefined && expenseAccountId !== null && typeof expenseAccountId !== 'string')) {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'InvalidField',
+      message: 'revenueAccountId and expenseAccountId must be strings or null'
+    })
+    return
+  }
+
+  const result = await updateItemWorkflow({ userId, actingUserId, itemId, name, sku, defaultPrice, revenueAccountId, expenseAccountId })
+
+  if (result.isSuccess) {
+    return res.json({
+      item: result.value,
+      message: 'Item updated successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * DELETE /api/sales/items/:itemId
+ * Delete a catalog item. Invoice lines and bills filled in from it keep their values.
+ *
+ * Responses:
+ * - 200: Item deleted successfully
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Item not found
+ * - 500: Internal server error
+ */
+router.delete('/items/:itemId', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { itemId } = req.params
+
+  const result = await deleteItemWorkflow({ userId, actingUserId, itemId })
+
+  if (result.isSuccess) {
+    return res.json({
+      item: result.value,
+      message: 'Item deleted successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * POST /api/sales/tax-rates
+ * Add a sales tax that invoice lines can be charged, collected into a Liability account.
+ *
+ * Request Body:
+ * {
+ *   "name": "string" (required, unique per user),
+ *   "rate": number (required, a percentage above 0 and at most 100, up to 3 decimal places),
+ *   "accountId": "string" (required, a Liability account that is not archived, e.g. Sales Tax Payable)
+ * }
+ *
+ * Responses:
+ * - 201: Tax rate created successfully
+ * - 400: Validation error (domain failure), e.g. the account is not a Liability account
+ * - 401: Not authenticated (missing or expired session)
+ * - 403: Your collaborator role does not permit this action, or you are deactivated
+ * - 404: Account not found
+ * - 409: A tax rate with this name already exists
+ * - 500: Internal server error
+ */
+router.post('/tax-rates', wrapAsyncRoute(async (req, res) => {
+  const { userId, actingUserId } = res.locals
+  const { name, rate, accountId } = req.body
+
+  // Basic validation
+  if (!name || typeof name !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'name is required and must be a string'
+    })
+    return
+  }
+  if (typeof rate !== 'number') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'rate is required and must be a number'
+    })
+    return
+  }
+  if (!accountId || typeof accountId !== 'string') {
+    sendErrorResponse(res, {
+      type: 'ApplicationFailure',
+      subtype: 'MissingField',
+      message: 'accountId is required and must be a string'
+    })
+    return
+  }
+
+  const command: CreateTaxRateCommand = { userId, actingUserId, name, rate, accountId }
+  const result = await createTaxRateWorkflow(command)
+
+  if (result.isSuccess) {
+    return res.status(201).json({
+      taxRate: result.value,
+      message: 'Tax rate created successfully'
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/sales/tax-rates
+ * List tax rates for a user, by name.
+ *
+ * Responses:
+ * - 200: List of tax rates
+ * - 401: Not authenticated (missing or expired session)
+ * - 500: Internal server error
+ */
+router.get('/tax-rates', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+
+  const result = await listTaxRates(userId)
+
+  if (result.isSuccess) {
+    return res.json({
+      taxRates: result.value,
+      count: result.value.length
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
+
+/**
+ * GET /api/sales/tax-rates/:taxRateId
+ * Retrieve a specific tax rate by ID.
+ *
+ * Responses:
+ * - 200: Tax rate found
+ * - 401: Not authenticated (missing or expired session)
+ * - 404: Tax rate not found
+ * - 500: Internal server error
+ */
+router.get('/tax-rates/:taxRateId', wrapAsyncRoute(async (req, res) => {
+  const { userId } = res.locals
+  const { taxRateId } = req.params
+
+  const result = await findTaxRateById(userId, taxRateId)
+
+  if (result.isSuccess) {
+    if (result.value === null) {
+      sendErrorResponse(res, {
+        type: 'DomainFailure',
+        subtype: 'TaxRateNotFound',
+        message: `Tax rate ${taxRateId} not found or does not belong to the user`
+      })
+      return
+    }
+    return res.json({
+      taxRate: result.value
+    })
+  } else {
+    sendErrorResponse(res, result.error)
+  }
+}))
 
 export { router as salesRoutes }
\ No newline at end of file
@@ -1,13 +1,16 @@
 import express from 'express'
+import cookieParser from 'cookie-parser'
 import { identityRoutes } from './routes/identity'
 import { ledgerRoutes } from './routes/ledger'
 import { salesRoutes } from './routes/sales'
 import { purchasingRoutes } from './routes/purchasing'
 import { periodCloseRoutes } from './routes/period-close'
 import { reportingRoutes } from './routes/reporting'
+import { startScheduledJobs } from './jobs'
 
 const app = express()
 app.use(express.json())
+app.use(cookieParser())
 
 // Register context-specific routes
 app.use('/api', identityRoutes)
@@ -24,4 +27,9 @@ app.get('/health', (req, res) => {
 const PORT = process.env.PORT || 3000
 app.listen(PORT, () => console.log(`Server on ${PORT}`))
 
+// Test suites run the workflows behind the jobs themselves, at a fixed clock
+if (process.env.NODE_ENV !== 'test') {
+  startScheduledJobs()
+}
+
 export { app }
\ No newline at end of file
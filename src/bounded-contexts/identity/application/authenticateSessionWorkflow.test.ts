@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { authenticateSessionWorkflow } from '@/bounded-contexts/identity/application/authenticateSessionWorkflow'
+import { SESSION_IDLE_TIMEOUT_MS } from '@/bounded-contexts/identity/domain/session'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Identity Context: Authenticate Session Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  // Must delete in correct order to respect foreign key constraints
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createSessionFor = async (expiresAt: Date) => {
+    const user = await prisma.user.create({ data: { username: 'auth_user' } })
+    return prisma.session.create({ data: { userId: user.id, expiresAt } })
+  }
+
+  it('should resolve an active session and slide its expiry', async () => {
+    expect.assertions(3)
+    const now = new Date('2025-01-15T10:00:00Z')
+    const session = await createSessionFor(new Date('2025-01-15T10:30:00Z'))
+
+    const result = await authenticateSessionWorkflow(session.id, now)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.userId).toBe(session.userId)
+      expect(result.value.expiresAt.getTime()).toBe(now.getTime() + SESSION_IDLE_TIMEOUT_MS)
+    }
+  })
+
+  it('should reject an unknown session with SessionNotFound', async () => {
+    expect.assertions(2)
+
+    const result = await authenticateSessionWorkflow('550e8400-e29b-41d4-a716-446655440000')
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('SessionNotFound')
+    }
+  })
+
+  it('should reject and delete an expired session', async () => {
+    expect.assertions(3)
+    const now = new Date('2025-01-15T10:00:00Z')
+    const session = await createSessionFor(new Date('2025-01-15T09:00:00Z'))
+
+    const result = await authenticateSessionWorkflow(session.id, now)
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('SessionExpired')
+    }
+    expect(await prisma.session.findUnique({ where: { id: session.id } })).toBeNull()
+  })
+})
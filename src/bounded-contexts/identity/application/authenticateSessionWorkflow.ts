@@ -0,0 +1,43 @@
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from '../domain/errors'
+import { Session, validateSessionActive, calculateSessionExpiry } from '../domain/session'
+import { findSessionById, updateSessionExpiry, deleteSession } from '../infrastructure/sessionRepo'
+
+/**
+ * Authenticate Session Workflow - Application Layer
+ *
+ * Resolves the session referenced by a cookie to the acting user.
+ * Steps:
+ * 1. Retrieve the session
+ * 2. Check it has not expired (expired sessions are deleted)
+ * 3. Slide the expiry forward by the idle timeout
+ */
+export const authenticateSessionWorkflow = async (sessionId: string, now: Date = new Date()): Promise<Result<Session>> => {
+  // Step 1: Retrieve session
+  const sessionResult = await findSessionById(sessionId)
+  if (!sessionResult.isSuccess) return sessionResult as Result<Session>
+
+  const session = sessionResult.value
+  if (!session) {
+    return Failure(
+      DomainFailure(
+        'SessionNotFound' as IdentityDomainSubtype,
+        'Session not found. Please log in.'
+      )
+    )
+  }
+
+  // Step 2: Check expiry
+  const activeResult = validateSessionActive(session, now)
+  if (!activeResult.isSuccess) {
+    await deleteSession(sessionId)
+    return activeResult
+  }
+
+  // Step 3: Slide expiry
+  const touchedResult = await updateSessionExpiry(sessionId, calculateSessionExpiry(now))
+  if (!touchedResult.isSuccess) return touchedResult
+
+  return Success(touchedResult.value)
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Identity Context: Authorize Book Action Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  // Must delete in correct order to respect foreign key constraints
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string) => {
+    const user = await prisma.user.create({ data: { username } })
+    return user.id
+  }
+
+  it('should let the owner perform any action on their own books', async () => {
+    expect.assertions(2)
+    const ownerId = await createTestUser('book_owner')
+
+    const result = await authorizeBookActionWorkflow({ actingUserId: ownerId, ownerId, action: 'ManagePeriods' })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value).toBe('Owner')
+    }
+  })
+
+  it('should deny a user who is not a collaborator', async () => {
+    expect.assertions(2)
+    const ownerId = await createTestUser('book_owner')
+    const strangerId = await createTestUser('stranger')
+
+    const result = await authorizeBookActionWorkflow({ actingUserId: strangerId, ownerId, action: 'ViewBooks' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('PermissionDenied')
+    }
+  })
+
+  it('should check the collaborator role against the requested action', async () => {
+    expect.assertions(3)
+    const ownerId = await createTestUser('book_owner')
+    const bookkeeperId = await createTestUser('bookkeeper')
+    await prisma.collaborator.create({ data: { ownerId, userId: bookkeeperId, role: 'Bookkeeper' } })
+
+    const post = await authorizeBookActionWorkflow({ actingUserId: bookkeeperId, ownerId, action: 'PostTransactions' })
+    const close = await authorizeBookActionWorkflow({ actingUserId: bookkeeperId, ownerId, action: 'ManagePeriods' })
+
+    expect(post.isSuccess).toBe(true)
+    expect(close.isSuccess).toBe(false)
+    if (!close.isSuccess) {
+      expect(close.error.subtype).toBe('PermissionDenied')
+    }
+  })
+
+  it('should stop a deactivated user from posting while still letting them view', async () => {
+    expect.assertions(3)
+    const ownerId = await createTestUser('book_owner')
+    await prisma.user.update({ where: { id: ownerId }, data: { deactivatedAt: new Date() } })
+
+    const post = await authorizeBookActionWorkflow({ actingUserId: ownerId, ownerId, action: 'PostTransactions' })
+    const view = await authorizeBookActionWorkflow({ actingUserId: ownerId, ownerId, action: 'ViewBooks' })
+
+    expect(post.isSuccess).toBe(false)
+    if (!post.isSuccess) {
+      expect(post.error.subtype).toBe('UserDeactivated')
+    }
+    expect(view.isSuccess).toBe(true)
+  })
+
+  it('should stop a deactivated collaborator from posting into the owner\'s books', async () => {
+    expect.assertions(2)
+    const ownerId = await createTestUser('book_owner')
+    const bookkeeperId = await createTestUser('bookkeeper')
+    await prisma.collaborator.create({ data: { ownerId, userId: bookkeeperId, role: 'Bookkeeper' } })
+    await prisma.user.update({ where: { id: bookkeeperId }, data: { deactivatedAt: new Date() } })
+
+    const result = await authorizeBookActionWorkflow({ actingUserId: bookkeeperId, ownerId, action: 'PostTransactions' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('UserDeactivated')
+    }
+  })
+})
@@ -0,0 +1,68 @@
+import { Result, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from '../domain/errors'
+import { validateUserActive } from '../domain/user'
+import { BookAction, BookRole, authorizeBookAction } from '../domain/collaborator'
+import { findCollaborator } from '../infrastructure/collaboratorRepo'
+import { findUserById } from '../infrastructure/userRepo'
+
+// Command: input from other workflows and the book-access middleware
+export type AuthorizeBookActionCommand = {
+  actingUserId: string
+  ownerId: string
+  action: BookAction
+}
+
+/**
+ * Authorize Book Action Workflow - Application Layer
+ *
+ * Steps:
+ * 1. For any action other than viewing, check the acting user has not been deactivated
+ * 2. Resolve the acting user's role on the owner's books (the owner acts as Owner)
+ * 3. Check the role grants the requested action (pure domain logic)
+ *
+ * A user with no access to the books at all is also reported as PermissionDenied.
+ * A deactivated user can still view books they have access to.
+ * Returns the acting user's role on success.
+ */
+export const authorizeBookActionWorkflow = async (command: AuthorizeBookActionCommand): Promise<Result<BookRole>> => {
+  // Step 1: Check acting user is active
+  if (command.action !== 'ViewBooks') {
+    const actingUserResult = await findUserById(command.actingUserId)
+    if (!actingUserResult.isSuccess) return actingUserResult as Result<BookRole>
+
+    const actingUser = actingUserResult.value
+    if (!actingUser) {
+      return Failure(
+        DomainFailure(
+          'UserNotFound' as IdentityDomainSubtype,
+          `User ${command.actingUserId} not found`
+        )
+      )
+    }
+
+    const activeResult = validateUserActive(actingUser)
+    if (!activeResult.isSuccess) return activeResult as Result<BookRole>
+  }
+
+  // Step 2: Resolve role
+  if (command.actingUserId === command.ownerId) {
+    return authorizeBookAction('Owner', command.action)
+  }
+
+  const collaboratorResult = await findCollaborator(command.ownerId, command.actingUserId)
+  if (!collaboratorResult.isSuccess) return collaboratorResult as Result<BookRole>
+
+  const collaborator = collaboratorResult.value
+  if (!collaborator) {
+    return Failure(
+      DomainFailure(
+        'PermissionDenied' as IdentityDomainSubtype,
+        'You do not have access to these books.'
+      )
+    )
+  }
+
+  // Step 3: Check permission
+  return authorizeBookAction(collaborator.role, command.action)
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { changePasswordWorkflow } from '@/bounded-contexts/identity/application/changePasswordWorkflow'
+import { createUserWorkflow } from '@/bounded-contexts/identity/application/createUserWorkflow'
+import { verifyPassword } from '@/bounded-contexts/identity/infrastructure/passwordHasher'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Identity Context: Change Password Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  // Must delete in correct order to respect foreign key constraints
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async () => {
+    const result = await createUserWorkflow('password_user', 'old_password_1')
+    if (!result.isSuccess) throw new Error('Failed to create test user')
+    return result.value.id!
+  }
+
+  it('should replace the password hash when the current password is correct', async () => {
+    expect.assertions(3)
+    const userId = await createTestUser()
+
+    const result = await changePasswordWorkflow({ userId, currentPassword: 'old_password_1', newPassword: 'new_password_2' })
+
+    expect(result.isSuccess).toBe(true)
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } })
+    expect(await verifyPassword('new_password_2', dbUser!.passwordHash)).toBe(true)
+    expect(await verifyPassword('old_password_1', dbUser!.passwordHash)).toBe(false)
+  })
+
+  it('should reject a wrong current password with InvalidCredentials', async () => {
+    expect.assertions(3)
+    const userId = await createTestUser()
+
+    const result = await changePasswordWorkflow({ userId, currentPassword: 'not_my_password_9', newPassword: 'new_password_2' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidCredentials')
+    }
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } })
+    expect(await verifyPassword('old_password_1', dbUser!.passwordHash)).toBe(true)
+  })
+
+  it('should reject a weak new password with WeakPassword', async () => {
+    expect.assertions(2)
+    const userId = await createTestUser()
+
+    const result = await changePasswordWorkflow({ userId, currentPassword: 'old_password_1', newPassword: 'weak' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('WeakPassword')
+    }
+  })
+
+  it('should return UserNotFound for an unknown user', async () => {
+    expect.assertions(2)
+
+    const result = await changePasswordWorkflow({
+      userId: '550e8400-e29b-41d4-a716-446655440000',
+      currentPassword: 'old_password_1',
+      newPassword: 'new_password_2'
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('UserNotFound')
+    }
+  })
+})
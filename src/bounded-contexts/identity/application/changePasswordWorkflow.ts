@@ -0,0 +1,56 @@
+import { Result, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from '../domain/errors'
+import { User, validatePassword } from '../domain/user'
+import { findUserCredentialsById, updateUserPasswordHash } from '../infrastructure/userRepo'
+import { hashPassword, verifyPassword } from '../infrastructure/passwordHasher'
+
+// Command: input from API
+export type ChangePasswordCommand = {
+  userId: string
+  currentPassword: string
+  newPassword: string
+}
+
+/**
+ * Change Password Workflow - Application Layer
+ *
+ * Steps:
+ * 1. Validate the new password's strength (pure domain logic)
+ * 2. Retrieve the user and stored password hash
+ * 3. Verify the current password
+ * 4. Hash and store the new password
+ */
+export const changePasswordWorkflow = async (command: ChangePasswordCommand): Promise<Result<User>> => {
+  // Step 1: Validate new password
+  const passwordResult = validatePassword(command.newPassword)
+  if (!passwordResult.isSuccess) return passwordResult as Result<User>
+
+  // Step 2: Retrieve user credentials
+  const credentialsResult = await findUserCredentialsById(command.userId)
+  if (!credentialsResult.isSuccess) return credentialsResult as Result<User>
+
+  const credentials = credentialsResult.value
+  if (!credentials) {
+    return Failure(
+      DomainFailure(
+        'UserNotFound' as IdentityDomainSubtype,
+        `User ${command.userId} not found`
+      )
+    )
+  }
+
+  // Step 3: Verify current password
+  const currentMatches = await verifyPassword(command.currentPassword, credentials.passwordHash)
+  if (!currentMatches) {
+    return Failure(
+      DomainFailure(
+        'InvalidCredentials' as IdentityDomainSubtype,
+        'Current password is incorrect'
+      )
+    )
+  }
+
+  // Step 4: Store new hash
+  return updateUserPasswordHash(command.userId, await hashPassword(passwordResult.value))
+}
@@ -24,6 +24,7 @@ describe('Identity Context: Create User Workflow (Integration)', () => {
     await prisma.customer.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.period.deleteMany()
     await prisma.user.deleteMany()
   })
@@ -33,12 +34,14 @@ describe('Identity Context: Create User Workflow (Integration)', () => {
     await prisma.$disconnect()
   })
 
+  const password = 'valid_pass_123'
+
   it('should successfully create a user with valid username', async () => {
     expect.assertions(5)
 
     const username = 'valid_user_123'
     
-    const result = await createUserWorkflow(username)
+    const result = await createUserWorkflow(username, password)
 
     expect(result.isSuccess).toBe(true)
 
@@ -59,7 +62,7 @@ describe('Identity Context: Create User Workflow (Integration)', () => {
     const inputUsername = 'Valid_User_Upper'
     const expectedUsername = 'valid_user_upper'
     
-    const result = await createUserWorkflow(inputUsername)
+    const result = await createUserWorkflow(inputUsername, password)
 
     expect(result.isSuccess).toBe(true)
     if (result.isSuccess) {
@@ -72,7 +75,7 @@ describe('Identity Context: Create User Workflow (Integration)', () => {
 
     const invalidUsername = 'ab'
     
-    const result = await createUserWorkflow(invalidUsername)
+    const result = await createUserWorkflow(invalidUsername, password)
 
     expect(result.isSuccess).toBe(false)
 
@@ -86,7 +89,7 @@ describe('Identity Context: Create User Workflow (Integration)', () => {
 
     const invalidUsername = 'space user'
     
-    const result = await createUserWorkflow(invalidUsername)
+    const result = await createUserWorkflow(invalidUsername, password)
 
     expect(result.isSuccess).toBe(false)
 
@@ -100,7 +103,7 @@ describe('Identity Context: Create User Workflow (Integration)', () => {
 
     const invalidUsername = 'user@name'
     
-    const result = await createUserWorkflow(invalidUsername)
+    const result = await createUserWorkflow(invalidUsername, password)
 
     expect(result.isSuccess).toBe(false)
   })
@@ -111,14 +114,43 @@ describe('Identity Context: Create User Workflow (Integration)', () => {
     const username = 'duplicate_user'
 
     // Create first user
-    await createUserWorkflow(username)
+    await createUserWorkflow(username, password)
 
     // Try to create duplicate
-    const result = await createUserWorkflow(username)
+    const result = await createUserWorkflow(username, password)
 
     expect(result.isSuccess).toBe(false)
     if (!result.isSuccess) {
       expect(result.error.message).toMatch(/already exists/)
     }
   })
-})
\ No newline at end of file
+  it('should reject a weak password without creating the user', async () => {
+    expect.assertions(3)
+
+    const username = 'weak_password_user'
+
+    const result = await createUserWorkflow(username, 'short')
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('WeakPassword')
+    }
+
+    const dbUser = await prisma.user.findUnique({ where: { username } })
+    expect(dbUser).toBeNull()
+  })
+
+  it('should store a salted hash instead of the password', async () => {
+    expect.assertions(3)
+
+    const username = 'hashed_user'
+
+    const result = await createUserWorkflow(username, password)
+
+    expect(result.isSuccess && 'passwordHash' in result.value).toBe(false)
+
+    const dbUser = await prisma.user.findUnique({ where: { username } })
+    expect(dbUser?.passwordHash).toMatch(/^scrypt\$/)
+    expect(dbUser?.passwordHash).not.toContain(password)
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { deactivateUserWorkflow } from '@/bounded-contexts/identity/application/deactivateUserWorkflow'
+import { reactivateUserWorkflow } from '@/bounded-contexts/identity/application/reactivateUserWorkflow'
+import { createUserWorkflow } from '@/bounded-contexts/identity/application/createUserWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Identity Context: Deactivate User Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  // Must delete in correct order to respect foreign key constraints
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async () => {
+    const result = await createUserWorkflow('deactivating_user', 'valid_pass_123')
+    if (!result.isSuccess) throw new Error('Failed to create test user')
+    return result.value.id!
+  }
+
+  it('should stamp the deactivation time without deleting anything', async () => {
+    expect.assertions(3)
+    const userId = await createTestUser()
+
+    const result = await deactivateUserWorkflow({ userId })
+
+    expect(result.isSuccess).toBe(true)
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } })
+    expect(dbUser?.deactivatedAt).toBeInstanceOf(Date)
+    expect(await prisma.account.count({ where: { userId } })).toBeGreaterThan(0)
+  })
+
+  it('should keep the original deactivation time when deactivated twice', async () => {
+    expect.assertions(1)
+    const userId = await createTestUser()
+    const deactivatedAt = new Date('2025-01-15T10:00:00Z')
+    await prisma.user.update({ where: { id: userId }, data: { deactivatedAt } })
+
+    const result = await deactivateUserWorkflow({ userId })
+
+    expect(result.isSuccess && result.value.deactivatedAt).toEqual(deactivatedAt)
+  })
+
+  it('should be undone by the reactivate workflow', async () => {
+    expect.assertions(2)
+    const userId = await createTestUser()
+    await deactivateUserWorkflow({ userId })
+
+    const result = await reactivateUserWorkflow({ userId })
+
+    expect(result.isSuccess).toBe(true)
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } })
+    expect(dbUser?.deactivatedAt).toBeNull()
+  })
+
+  it('should return UserNotFound for an unknown user', async () => {
+    expect.assertions(2)
+
+    const result = await deactivateUserWorkflow({ userId: '550e8400-e29b-41d4-a716-446655440000' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('UserNotFound')
+    }
+  })
+})
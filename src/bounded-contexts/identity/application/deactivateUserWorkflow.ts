@@ -0,0 +1,40 @@
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from '../domain/errors'
+import { User } from '../domain/user'
+import { findUserById, setUserDeactivatedAt } from '../infrastructure/userRepo'
+
+// Command: input from API
+export type DeactivateUserCommand = {
+  userId: string
+}
+
+/**
+ * Deactivate User Workflow - Application Layer
+ *
+ * Steps:
+ * 1. Verify the user exists
+ * 2. Stamp the deactivation time (an already deactivated user keeps the original time)
+ *
+ * Deactivation is soft: nothing is deleted, the user can still log in and read their books,
+ * but every posting workflow rejects them with UserDeactivated until they are reactivated.
+ */
+export const deactivateUserWorkflow = async (command: DeactivateUserCommand): Promise<Result<User>> => {
+  // Step 1: Verify user exists
+  const userResult = await findUserById(command.userId)
+  if (!userResult.isSuccess) return userResult as Result<User>
+
+  const user = userResult.value
+  if (!user) {
+    return Failure(
+      DomainFailure(
+        'UserNotFound' as IdentityDomainSubtype,
+        `User ${command.userId} not found`
+      )
+    )
+  }
+
+  // Step 2: Deactivate
+  if (user.deactivatedAt) return Success(user)
+  return setUserDeactivatedAt(command.userId, new Date())
+}
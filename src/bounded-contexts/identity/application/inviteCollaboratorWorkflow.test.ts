@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { inviteCollaboratorWorkflow } from '@/bounded-contexts/identity/application/inviteCollaboratorWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Identity Context: Invite Collaborator Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  // Must delete in correct order to respect foreign key constraints
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string) => {
+    const user = await prisma.user.create({ data: { username } })
+    return user.id
+  }
+
+  it('should invite an existing user by username (case-insensitive)', async () => {
+    expect.assertions(3)
+    const ownerId = await createTestUser('book_owner')
+    const helperId = await createTestUser('book_helper')
+
+    const result = await inviteCollaboratorWorkflow({ ownerId, username: 'Book_Helper', role: 'Accountant' })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.userId).toBe(helperId)
+      expect(result.value.role).toBe('Accountant')
+    }
+  })
+
+  it('should reject an unknown role', async () => {
+    expect.assertions(2)
+    const ownerId = await createTestUser('book_owner')
+    await createTestUser('book_helper')
+
+    const result = await inviteCollaboratorWorkflow({ ownerId, username: 'book_helper', role: 'Admin' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidCollaboratorRole')
+    }
+  })
+
+  it('should reject an unknown username with UserNotFound', async () => {
+    expect.assertions(2)
+    const ownerId = await createTestUser('book_owner')
+
+    const result = await inviteCollaboratorWorkflow({ ownerId, username: 'nobody_here', role: 'Viewer' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('UserNotFound')
+    }
+  })
+
+  it('should reject the owner inviting themselves', async () => {
+    expect.assertions(2)
+    const ownerId = await createTestUser('book_owner')
+
+    const result = await inviteCollaboratorWorkflow({ ownerId, username: 'book_owner', role: 'Viewer' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('SelfCollaboration')
+    }
+  })
+
+  it('should not let a deactivated owner invite anyone', async () => {
+    expect.assertions(3)
+    const ownerId = await createTestUser('book_owner')
+    await createTestUser('book_helper')
+    await prisma.user.update({ where: { id: ownerId }, data: { deactivatedAt: new Date() } })
+
+    const result = await inviteCollaboratorWorkflow({ ownerId, username: 'book_helper', role: 'Viewer' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('UserDeactivated')
+    }
+    expect(await prisma.collaborator.count({ where: { ownerId } })).toBe(0)
+  })
+})
@@ -0,0 +1,73 @@
+import { Result, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from '../domain/errors'
+import { validateUsername, validateUserActive } from '../domain/user'
+import { Collaborator, validateCollaboratorRole, validateNotSelfInvite } from '../domain/collaborator'
+import { findUserById, findUserByUsername } from '../infrastructure/userRepo'
+import { createCollaborator } from '../infrastructure/collaboratorRepo'
+
+// Command: input from API
+export type InviteCollaboratorCommand = {
+  ownerId: string
+  username: string
+  role: string
+}
+
+/**
+ * Invite Collaborator Workflow - Application Layer
+ *
+ * Steps:
+ * 1. Validate the role and username (pure domain logic)
+ * 2. Check the owner has not been deactivated (a deactivated user can only view books)
+ * 3. Look up the invited user
+ * 4. Reject the owner inviting themselves
+ * 5. Persist the collaborator (an existing invitation is a DuplicateCollaborator failure)
+ */
+export const inviteCollaboratorWorkflow = async (command: InviteCollaboratorCommand): Promise<Result<Collaborator>> => {
+  // Step 1: Validate role and username
+  const roleResult = validateCollaboratorRole(command.role)
+  if (!roleResult.isSuccess) return roleResult as Result<Collaborator>
+
+  const usernameResult = validateUsername(command.username)
+  if (!usernameResult.isSuccess) return usernameResult as Result<Collaborator>
+
+  // Step 2: Check owner is active
+  const ownerResult = await findUserById(command.ownerId)
+  if (!ownerResult.isSuccess) return ownerResult as Result<Collaborator>
+
+  if (!ownerResult.value) {
+    return Failure(
+      DomainFailure(
+        'UserNotFound' as IdentityDomainSubtype,
+        `User ${command.ownerId} not found`
+      )
+    )
+  }
+  const activeResult = validateUserActive(ownerResult.value)
+  if (!activeResult.isSuccess) return activeResult as Result<Collaborator>
+
+  // Step 3: Look up the invited user
+  const userResult = await findUserByUsername(usernameResult.value)
+  if (!userResult.isSuccess) return userResult as Result<Collaborator>
+
+  const user = userResult.value
+  if (!user) {
+    return Failure(
+      DomainFailure(
+        'UserNotFound' as IdentityDomainSubtype,
+        `User ${usernameResult.value} not found`
+      )
+    )
+  }
+
+  // Step 4: Owner cannot collaborate on their own books
+  const selfResult = validateNotSelfInvite(command.ownerId, user.id!)
+  if (!selfResult.isSuccess) return selfResult as Result<Collaborator>
+
+  // Step 5: Persist
+  return createCollaborator({
+    ownerId: command.ownerId,
+    userId: user.id!,
+    role: roleResult.value,
+  })
+}
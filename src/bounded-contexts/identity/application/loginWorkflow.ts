@@ -0,0 +1,65 @@
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from '../domain/errors'
+import { User, validateUsername } from '../domain/user'
+import { Session, calculateSessionExpiry } from '../domain/session'
+import { findUserCredentialsByUsername } from '../infrastructure/userRepo'
+import { createSession } from '../infrastructure/sessionRepo'
+import { verifyPassword } from '../infrastructure/passwordHasher'
+
+// Command: input from API
+export type LoginCommand = {
+  username: string
+  password: string
+}
+
+export type LoginResult = {
+  user: User
+  session: Session
+}
+
+const invalidCredentials = () =>
+  Failure(
+    DomainFailure(
+      'InvalidCredentials' as IdentityDomainSubtype,
+      'Invalid username or password'
+    )
+  )
+
+/**
+ * Login Workflow - Application Layer
+ *
+ * Steps:
+ * 1. Validate and normalize the username (pure domain logic)
+ * 2. Look up the user and stored password hash
+ * 3. Verify the password against the hash
+ * 4. Create a session expiring after the idle timeout
+ *
+ * An unknown username and a wrong password are both reported as InvalidCredentials
+ * so the response does not reveal which usernames exist.
+ */
+export const loginWorkflow = async (command: LoginCommand): Promise<Result<LoginResult>> => {
+  // Step 1: Validate username
+  const usernameResult = validateUsername(command.username)
+  if (!usernameResult.isSuccess) return usernameResult as Result<LoginResult>
+
+  // Step 2: Look up the user
+  const credentialsResult = await findUserCredentialsByUsername(usernameResult.value)
+  if (!credentialsResult.isSuccess) return credentialsResult as Result<LoginResult>
+
+  const credentials = credentialsResult.value
+  if (!credentials) return invalidCredentials()
+
+  // Step 3: Verify password
+  const passwordMatches = await verifyPassword(command.password, credentials.passwordHash)
+  if (!passwordMatches) return invalidCredentials()
+
+  // Step 4: Create session
+  const sessionResult = await createSession({
+    userId: credentials.user.id!,
+    expiresAt: calculateSessionExpiry(new Date()),
+  })
+  if (!sessionResult.isSuccess) return sessionResult as Result<LoginResult>
+
+  return Success({ user: credentials.user, session: sessionResult.value })
+}
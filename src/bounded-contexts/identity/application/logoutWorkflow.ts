@@ -0,0 +1,18 @@
+import { Result, Success } from '@/common/types/result'
+import { deleteSession } from '../infrastructure/sessionRepo'
+
+/**
+ * Logout Workflow - Application Layer
+ *
+ * Deletes the session so its cookie can no longer authenticate requests.
+ * Logging out without a session (or with an unknown one) succeeds, so the
+ * operation is idempotent.
+ */
+export const logoutWorkflow = async (sessionId?: string): Promise<Result<void>> => {
+  if (!sessionId) return Success(undefined)
+
+  const deleteResult = await deleteSession(sessionId)
+  if (!deleteResult.isSuccess) return deleteResult as Result<void>
+
+  return Success(undefined)
+}
@@ -0,0 +1,37 @@
+import { Result, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from '../domain/errors'
+import { User } from '../domain/user'
+import { findUserById, setUserDeactivatedAt } from '../infrastructure/userRepo'
+
+// Command: input from API
+export type ReactivateUserCommand = {
+  userId: string
+}
+
+/**
+ * Reactivate User Workflow - Application Layer
+ *
+ * Steps:
+ * 1. Verify the user exists
+ * 2. Clear the deactivation time so the user can post again (reactivating an active user changes nothing)
+ *
+ * The counterpart of deactivateUserWorkflow: the user who deactivated themselves is the one who lifts it.
+ */
+export const reactivateUserWorkflow = async (command: ReactivateUserCommand): Promise<Result<User>> => {
+  // Step 1: Verify user exists
+  const userResult = await findUserById(command.userId)
+  if (!userResult.isSuccess) return userResult as Result<User>
+
+  if (!userResult.value) {
+    return Failure(
+      DomainFailure(
+        'UserNotFound' as IdentityDomainSubtype,
+        `User ${command.userId} not found`
+      )
+    )
+  }
+
+  // Step 2: Reactivate
+  return setUserDeactivatedAt(command.userId, null)
+}
@@ -0,0 +1,53 @@
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from '../domain/errors'
+import { validateUserActive } from '../domain/user'
+import { findUserById } from '../infrastructure/userRepo'
+import { deleteCollaborator } from '../infrastructure/collaboratorRepo'
+
+// Command: input from API
+export type RemoveCollaboratorCommand = {
+  ownerId: string
+  userId: string
+}
+
+/**
+ * Remove Collaborator Workflow - Application Layer
+ *
+ * Steps:
+ * 1. Check the owner has not been deactivated (a deactivated user can only view books)
+ * 2. Delete the collaborator from the owner's books
+ * 3. Report CollaboratorNotFound if nothing was deleted
+ */
+export const removeCollaboratorWorkflow = async (command: RemoveCollaboratorCommand): Promise<Result<void>> => {
+  // Step 1: Check owner is active
+  const ownerResult = await findUserById(command.ownerId)
+  if (!ownerResult.isSuccess) return ownerResult as Result<void>
+
+  if (!ownerResult.value) {
+    return Failure(
+      DomainFailure(
+        'UserNotFound' as IdentityDomainSubtype,
+        `User ${command.ownerId} not found`
+      )
+    )
+  }
+  const activeResult = validateUserActive(ownerResult.value)
+  if (!activeResult.isSuccess) return activeResult as Result<void>
+
+  // Step 2: Delete
+  const deleteResult = await deleteCollaborator(command.ownerId, command.userId)
+  if (!deleteResult.isSuccess) return deleteResult as Result<void>
+
+  // Step 3: Nothing deleted means the user was never a collaborator
+  if (deleteResult.value === 0) {
+    return Failure(
+      DomainFailure(
+        'CollaboratorNotFound' as IdentityDomainSubtype,
+        `User ${command.userId} is not a collaborator on these books`
+      )
+    )
+  }
+
+  return Success(undefined)
+}
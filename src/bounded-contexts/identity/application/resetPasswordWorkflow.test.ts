@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { resetPasswordWorkflow } from '@/bounded-contexts/identity/application/resetPasswordWorkflow'
+import { loginWorkflow } from '@/bounded-contexts/identity/application/loginWorkflow'
+import { verifyPassword } from '@/bounded-contexts/identity/infrastructure/passwordHasher'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Identity Context: Reset Password Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  // Must delete in correct order to respect foreign key constraints
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  // A user as created before passwords were introduced: no password hash at all
+  const createLegacyUser = async () => {
+    const user = await prisma.user.create({ data: { username: 'legacy_user' } })
+    return user.id
+  }
+
+  it('should let a user without a password hash log in once a password is set', async () => {
+    expect.assertions(4)
+    const userId = await createLegacyUser()
+    const before = await loginWorkflow({ username: 'legacy_user', password: 'new_password_2' })
+    expect(before.isSuccess).toBe(false)
+
+    const result = await resetPasswordWorkflow({ username: 'Legacy_User', newPassword: 'new_password_2' })
+
+    expect(result.isSuccess).toBe(true)
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } })
+    expect(await verifyPassword('new_password_2', dbUser!.passwordHash)).toBe(true)
+    const after = await loginWorkflow({ username: 'legacy_user', password: 'new_password_2' })
+    expect(after.isSuccess && after.value.user.id).toBe(userId)
+  })
+
+  it('should reject a weak new password with WeakPassword', async () => {
+    expect.assertions(3)
+    const userId = await createLegacyUser()
+
+    const result = await resetPasswordWorkflow({ username: 'legacy_user', newPassword: 'weak' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('WeakPassword')
+    }
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } })
+    expect(dbUser!.passwordHash).toBeNull()
+  })
+
+  it('should return UserNotFound for an unknown username', async () => {
+    expect.assertions(2)
+
+    const result = await resetPasswordWorkflow({ username: 'nobody_here', newPassword: 'new_password_2' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('UserNotFound')
+    }
+  })
+})
@@ -0,0 +1,50 @@
+import { Result, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from '../domain/errors'
+import { User, validatePassword, validateUsername } from '../domain/user'
+import { findUserCredentialsByUsername, updateUserPasswordHash } from '../infrastructure/userRepo'
+import { hashPassword } from '../infrastructure/passwordHasher'
+
+// Command: input from the reset-password CLI
+export type ResetPasswordCommand = {
+  username: string
+  newPassword: string
+}
+
+/**
+ * Reset Password Workflow - Application Layer
+ *
+ * Steps:
+ * 1. Validate the username and the new password's strength (pure domain logic)
+ * 2. Look up the user
+ * 3. Hash and store the new password, without asking for the current one
+ *
+ * For operators only (`pnpm user:reset-password <username>`), never exposed over HTTP.
+ * Users created before passwords were introduced have no password hash, so they cannot
+ * log in or change their password until an operator sets one here.
+ */
+export const resetPasswordWorkflow = async (command: ResetPasswordCommand): Promise<Result<User>> => {
+  // Step 1: Validate username and new password
+  const usernameResult = validateUsername(command.username)
+  if (!usernameResult.isSuccess) return usernameResult as Result<User>
+
+  const passwordResult = validatePassword(command.newPassword)
+  if (!passwordResult.isSuccess) return passwordResult as Result<User>
+
+  // Step 2: Look up the user
+  const credentialsResult = await findUserCredentialsByUsername(usernameResult.value)
+  if (!credentialsResult.isSuccess) return credentialsResult as Result<User>
+
+  const credentials = credentialsResult.value
+  if (!credentials) {
+    return Failure(
+      DomainFailure(
+        'UserNotFound' as IdentityDomainSubtype,
+        `User ${usernameResult.value} not found`
+      )
+    )
+  }
+
+  // Step 3: Store new hash
+  return updateUserPasswordHash(credentials.user.id!, await hashPassword(passwordResult.value))
+}
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { resetUserDataWorkflow } from '@/bounded-contexts/identity/application/resetUserDataWorkflow'
+import { createUserWorkflow } from '@/bounded-contexts/identity/application/createUserWorkflow'
+import { DEFAULT_ACCOUNTS } from '@/bounded-contexts/ledger/domain/defaultAccounts'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Identity Context: Reset User Data Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  // Must delete in correct order to respect foreign key constraints
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string) => {
+    const result = await createUserWorkflow(username, 'valid_pass_123')
+    if (!result.isSuccess) throw new Error('Failed to create test user')
+    return result.value.id!
+  }
+
+  // Seeds an invoice with a payment, a bill, a loan with a payment, a cash expense and a period
+  const seedTransactions = async (userId: string) => {
+    const accounts = await prisma.account.findMany({ where: { userId } })
+    const accountId = (code: string) => accounts.find(a => a.code === code)!.id
+    const entry = async (description: string, debit: string, credit: string, amount: number) =>
+      prisma.journalEntry.create({
+        data: {
+          userId,
+          description,
+          date: new Date('2025-01-15T00:00:00Z'),
+          lines: {
+            create: [
+              { accountId: accountId(debit), amount, side: 'Debit' },
+              { accountId: accountId(credit), amount, side: 'Credit' },
+            ]
+          }
+        }
+      })
+
+    const customer = await prisma.customer.create({ data: { userId, name: 'Client', balance: 600 } })
+    const vendor = await prisma.vendor.create({ data: { userId, name: 'Supplier', balance: 300 } })
+
+    const invoiceEntry = await entry('Invoice', '111', '401', 1000)
+    const invoice = await prisma.salesInvoice.create({
+      data: { userId, customerId: customer.id, invoiceNumber: 'INV-1', total: 1000, date: new Date('2025-01-15T00:00:00Z'), status: 'PartiallyPaid', journalEntryId: invoiceEntry.id }
+    })
+    const paymentEntry = await entry('Payment', '101', '111', 400)
+    await prisma.payment.create({
+      data: { invoiceId: invoice.id, amount: 400, date: new Date('2025-01-20T00:00:00Z'), method: 'Cash', journalEntryId: paymentEntry.id }
+    })
+
+    const billEntry = await entry('Bill', '501', '201', 300)
+    await prisma.vendorBill.create({
+      data: { userId, vendorId: vendor.id, billNumber: 'BILL-1', amount: 300, date: new Date('2025-01-15T00:00:00Z'), status: 'Recorded', journalEntryId: billEntry.id }
+    })
+
+    const loan = await prisma.loan.create({
+      data: { userId, vendorId: vendor.id, principal: 5000, interestRate: 5.0, term: 12 }
+    })
+    const loanPaymentEntry = await entry('Loan payment', '251', '101', 500)
+    await prisma.loanPayment.create({
+      data: { loanId: loan.id, principalAmount: 500, interestAmount: 0, date: new Date('2025-01-31T00:00:00Z'), journalEntryId: loanPaymentEntry.id }
+    })
+
+    const expenseEntry = await entry('Supplies', '501', '101', 50)
+    await prisma.cashExpense.create({
+      data: { userId, vendorId: vendor.id, amount: 50, date: new Date('2025-01-16T00:00:00Z'), expenseCategory: 'Supplies', journalEntryId: expenseEntry.id }
+    })
+
+    await prisma.period.create({
+      data: { userId, name: 'January 2025', startDate: new Date('2025-01-01T00:00:00Z'), endDate: new Date('2025-01-31T23:59:59Z'), status: 'Open' }
+    })
+  }
+
+  it('should delete all transactional data and keep customized accounts', async () => {
+    expect.assertions(9)
+    const userId = await createTestUser('trainer_books')
+    await seedTransactions(userId)
+    await prisma.account.updateMany({ where: { userId, code: '101' }, data: { name: 'Checking Account' } })
+    await prisma.account.create({ data: { userId, code: '102', name: 'Petty Cash', type: 'Asset', normalBalance: 'Debit' } })
+
+    const result = await resetUserDataWorkflow({ userId })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value).toMatchObject({
+        accountMode: 'keep',
+        journalEntries: 5,
+        salesInvoices: 1,
+        payments: 1,
+        vendorBills: 1,
+        loans: 1,
+        loanPayments: 1,
+        cashExpenses: 1,
+        periods: 1,
+      })
+    }
+    expect(await prisma.journalEntry.count({ where: { userId } })).toBe(0)
+    expect(await prisma.period.count({ where: { userId } })).toBe(0)
+    expect(await prisma.account.count({ where: { userId } })).toBe(DEFAULT_ACCOUNTS.length + 1)
+    const cash = await prisma.account.findFirst({ where: { userId, code: '101' } })
+    expect(cash?.name).toBe('Checking Account')
+
+    // Customers and vendors survive with zero balances
+    const customer = await prisma.customer.findFirst({ where: { userId } })
+    const vendor = await prisma.vendor.findFirst({ where: { userId } })
+    expect(customer).not.toBeNull()
+    expect(Number(customer?.balance)).toBe(0)
+    expect(Number(vendor?.balance)).toBe(0)
+  })
+
+  it('should restore the default Chart of Accounts when asked', async () => {
+    expect.assertions(4)
+    const userId = await createTestUser('trainer_books')
+    await seedTransactions(userId)
+    await prisma.account.updateMany({ where: { userId, code: '101' }, data: { name: 'Checking Account' } })
+    await prisma.account.create({ data: { userId, code: '102', name: 'Petty Cash', type: 'Asset', normalBalance: 'Debit' } })
+
+    const result = await resetUserDataWorkflow({ userId, accounts: 'restore' })
+
+    expect(result.isSuccess).toBe(true)
+    const accounts = await prisma.account.findMany({ where: { userId } })
+    expect(accounts.map(a => a.code).sort()).toEqual(DEFAULT_ACCOUNTS.map(a => a.code).sort())
+    expect(accounts.find(a => a.code === '101')?.name).toBe('Cash')
+    expect(await prisma.journalLine.count({ where: { journalEntry: { userId } } })).toBe(0)
+  })
+
+  it('should leave other users\' data untouched', async () => {
+    expect.assertions(3)
+    const userId = await createTestUser('trainer_books')
+    const otherUserId = await createTestUser('other_books')
+    await seedTransactions(userId)
+    await seedTransactions(otherUserId)
+
+    const result = await resetUserDataWorkflow({ userId, accounts: 'restore' })
+
+    expect(result.isSuccess).toBe(true)
+    expect(await prisma.journalEntry.count({ where: { userId: otherUserId } })).toBe(5)
+    expect(await prisma.salesInvoice.count({ where: { userId: otherUserId } })).toBe(1)
+  })
+
+  it('should reject an unknown account mode', async () => {
+    expect.assertions(2)
+    const userId = await createTestUser('trainer_books')
+
+    const result = await resetUserDataWorkflow({ userId, accounts: 'delete' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidAccountResetMode')
+    }
+  })
+
+  it('should not reset the books of a deactivated user', async () => {
+    expect.assertions(3)
+    const userId = await createTestUser('trainer_books')
+    await seedTransactions(userId)
+    await prisma.user.update({ where: { id: userId }, data: { deactivatedAt: new Date() } })
+
+    const result = await resetUserDataWorkflow({ userId })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('UserDeactivated')
+    }
+    expect(await prisma.journalEntry.count({ where: { userId } })).toBe(5)
+  })
+
+  it('should return UserNotFound for an unknown user', async () => {
+    expect.assertions(2)
+
+    const result = await resetUserDataWorkflow({ userId: '550e8400-e29b-41d4-a716-446655440000' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('UserNotFound')
+    }
+  })
+})
@@ -0,0 +1,46 @@
+import { Result, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from '../domain/errors'
+import { UserDataResetSummary, validateAccountResetMode, validateUserActive } from '../domain/user'
+import { findUserById } from '../infrastructure/userRepo'
+import { resetUserData } from '../infrastructure/userDataResetRepo'
+
+// Command: input from API
+export type ResetUserDataCommand = {
+  userId: string
+  accounts?: string // 'keep' (default) or 'restore'
+}
+
+/**
+ * Reset User Data Workflow - Application Layer
+ *
+ * Steps:
+ * 1. Validate the account reset mode (pure domain logic)
+ * 2. Verify the user exists and has not been deactivated (a deactivated user can only view their books)
+ * 3. In one transaction, delete all transactional data and keep or restore the Chart of Accounts
+ *
+ * Returns a summary of what was removed (the UserDataReset event).
+ */
+export const resetUserDataWorkflow = async (command: ResetUserDataCommand): Promise<Result<UserDataResetSummary>> => {
+  // Step 1: Validate account mode
+  const modeResult = validateAccountResetMode(command.accounts)
+  if (!modeResult.isSuccess) return modeResult as Result<UserDataResetSummary>
+
+  // Step 2: Verify user exists and is active
+  const userResult = await findUserById(command.userId)
+  if (!userResult.isSuccess) return userResult as Result<UserDataResetSummary>
+
+  if (!userResult.value) {
+    return Failure(
+      DomainFailure(
+        'UserNotFound' as IdentityDomainSubtype,
+        `User ${command.userId} not found`
+      )
+    )
+  }
+  const activeResult = validateUserActive(userResult.value)
+  if (!activeResult.isSuccess) return activeResult as Result<UserDataResetSummary>
+
+  // Step 3: Reset
+  return resetUserData(command.userId, modeResult.value)
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { updateUsernameWorkflow } from '@/bounded-contexts/identity/application/updateUsernameWorkflow'
+import { createUserWorkflow } from '@/bounded-contexts/identity/application/createUserWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Identity Context: Update Username Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  // Must delete in correct order to respect foreign key constraints
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string) => {
+    const result = await createUserWorkflow(username, 'valid_pass_123')
+    if (!result.isSuccess) throw new Error('Failed to create test user')
+    return result.value.id!
+  }
+
+  it('should store the normalized new username', async () => {
+    expect.assertions(3)
+    const userId = await createTestUser('old_name')
+
+    const result = await updateUsernameWorkflow({ userId, username: '  New_Name ' })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.username).toBe('new_name')
+    }
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } })
+    expect(dbUser?.username).toBe('new_name')
+  })
+
+  it('should reject an invalid username without touching the user', async () => {
+    expect.assertions(3)
+    const userId = await createTestUser('old_name')
+
+    const result = await updateUsernameWorkflow({ userId, username: 'no spaces' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidUsername')
+    }
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } })
+    expect(dbUser?.username).toBe('old_name')
+  })
+
+  it('should reject a username that is already taken', async () => {
+    expect.assertions(2)
+    await createTestUser('taken_name')
+    const userId = await createTestUser('old_name')
+
+    const result = await updateUsernameWorkflow({ userId, username: 'Taken_Name' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('DuplicateKey')
+    }
+  })
+
+  it('should return UserNotFound for an unknown user', async () => {
+    expect.assertions(2)
+
+    const result = await updateUsernameWorkflow({ userId: '550e8400-e29b-41d4-a716-446655440000', username: 'new_name' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('UserNotFound')
+    }
+  })
+})
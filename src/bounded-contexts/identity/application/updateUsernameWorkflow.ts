@@ -0,0 +1,41 @@
+import { Result, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from '../domain/errors'
+import { User, validateUsername } from '../domain/user'
+import { findUserById, updateUsername } from '../infrastructure/userRepo'
+
+// Command: input from API
+export type UpdateUsernameCommand = {
+  userId: string
+  username: string
+}
+
+/**
+ * Update Username Workflow - Application Layer
+ *
+ * Steps:
+ * 1. Validate and normalize the new username (pure domain logic)
+ * 2. Verify the user exists
+ * 3. Store the new username (a taken username is reported as DuplicateKey)
+ */
+export const updateUsernameWorkflow = async (command: UpdateUsernameCommand): Promise<Result<User>> => {
+  // Step 1: Validate username
+  const usernameResult = validateUsername(command.username)
+  if (!usernameResult.isSuccess) return usernameResult as Result<User>
+
+  // Step 2: Verify user exists
+  const userResult = await findUserById(command.userId)
+  if (!userResult.isSuccess) return userResult as Result<User>
+
+  if (!userResult.value) {
+    return Failure(
+      DomainFailure(
+        'UserNotFound' as IdentityDomainSubtype,
+        `User ${command.userId} not found`
+      )
+    )
+  }
+
+  // Step 3: Store username
+  return updateUsername(command.userId, usernameResult.value)
+}
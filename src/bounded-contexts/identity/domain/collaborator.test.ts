@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import {
+  validateCollaboratorRole,
+  validateNotSelfInvite,
+  roleCanPerform,
+  authorizeBookAction
+} from '@/bounded-contexts/identity/domain/collaborator'
+
+describe('Identity Context: Collaborator Domain Rules', () => {
+  describe('validateCollaboratorRole', () => {
+    it('should accept each known role', () => {
+      expect.assertions(3)
+
+      expect(validateCollaboratorRole('Viewer').isSuccess).toBe(true)
+      expect(validateCollaboratorRole('Bookkeeper').isSuccess).toBe(true)
+      expect(validateCollaboratorRole('Accountant').isSuccess).toBe(true)
+    })
+
+    it('should reject unknown roles, including Owner', () => {
+      expect.assertions(3)
+
+      const result = validateCollaboratorRole('Owner')
+
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidCollaboratorRole')
+      }
+      expect(validateCollaboratorRole(undefined).isSuccess).toBe(false)
+    })
+  })
+
+  describe('validateNotSelfInvite', () => {
+    it('should reject inviting yourself', () => {
+      expect.assertions(2)
+
+      const result = validateNotSelfInvite('user-1', 'user-1')
+
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('SelfCollaboration')
+      }
+    })
+
+    it('should accept another user', () => {
+      expect.assertions(1)
+
+      expect(validateNotSelfInvite('user-1', 'user-2').isSuccess).toBe(true)
+    })
+  })
+
+  describe('roleCanPerform', () => {
+    it('should only let a viewer view the books', () => {
+      expect.assertions(3)
+
+      expect(roleCanPerform('Viewer', 'ViewBooks')).toBe(true)
+      expect(roleCanPerform('Viewer', 'PostTransactions')).toBe(false)
+      expect(roleCanPerform('Viewer', 'ManagePeriods')).toBe(false)
+    })
+
+    it('should let a bookkeeper post transactions but not close periods or post manual entries', () => {
+      expect.assertions(3)
+
+      expect(roleCanPerform('Bookkeeper', 'PostTransactions')).toBe(true)
+      expect(roleCanPerform('Bookkeeper', 'ManagePeriods')).toBe(false)
+      expect(roleCanPerform('Bookkeeper', 'PostManualEntries')).toBe(false)
+    })
+
+    it('should let an accountant and the owner do everything', () => {
+      expect.assertions(2)
+
+      const actions = ['ViewBooks', 'PostTransactions', 'ManageAccounts', 'ManagePeriods', 'PostManualEntries'] as const
+
+      expect(actions.every(action => roleCanPerform('Accountant', action))).toBe(true)
+      expect(actions.every(action => roleCanPerform('Owner', action))).toBe(true)
+    })
+  })
+
+  describe('authorizeBookAction', () => {
+    it('should fail with PermissionDenied when the role lacks the action', () => {
+      expect.assertions(3)
+
+      const result = authorizeBookAction('Bookkeeper', 'ManagePeriods')
+
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.type).toBe('DomainFailure')
+        expect(result.error.subtype).toBe('PermissionDenied')
+      }
+    })
+
+    it('should succeed with the role when permitted', () => {
+      expect.assertions(2)
+
+      const result = authorizeBookAction('Accountant', 'PostManualEntries')
+
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value).toBe('Accountant')
+      }
+    })
+  })
+})
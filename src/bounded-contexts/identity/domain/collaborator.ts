@@ -0,0 +1,88 @@
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from './errors'
+
+// Value Objects
+export type CollaboratorRole = 'Viewer' | 'Bookkeeper' | 'Accountant'
+
+// The acting user's relationship to a set of books
+export type BookRole = 'Owner' | CollaboratorRole
+
+// Actions that can be performed on a user's books
+export type BookAction =
+  | 'ViewBooks'          // read accounts, entries, invoices, bills and reports
+  | 'PostTransactions'   // post journal entries, invoices, payments, bills, expenses; manage customers and vendors
+  | 'ManageAccounts'     // change the chart of accounts, posting configuration, expense categories, the item catalog and tax rates
+  | 'ManagePeriods'      // create and close accounting periods
+  | 'PostManualEntries'  // post manual adjusting entries into open periods
+
+// Entity
+export type Collaborator = {
+  id?: string
+  ownerId: string
+  userId: string
+  role: CollaboratorRole
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export const COLLABORATOR_ROLES: readonly CollaboratorRole[] = ['Viewer', 'Bookkeeper', 'Accountant']
+
+// Each role includes every permission of the roles before it
+const ROLE_PERMISSIONS: Record<BookRole, readonly BookAction[]> = {
+  Viewer: ['ViewBooks'],
+  Bookkeeper: ['ViewBooks', 'PostTransactions'],
+  Accountant: ['ViewBooks', 'PostTransactions', 'ManageAccounts', 'ManagePeriods', 'PostManualEntries'],
+  Owner: ['ViewBooks', 'PostTransactions', 'ManageAccounts', 'ManagePeriods', 'PostManualEntries'],
+}
+
+// --- Pure Validations ---
+
+/**
+ * Validates a collaborator role supplied by a client.
+ * Returns Success(role) or Failure(DomainFailure) with subtype InvalidCollaboratorRole.
+ */
+export const validateCollaboratorRole = (input: unknown): Result<CollaboratorRole> =>
+  COLLABORATOR_ROLES.includes(input as CollaboratorRole)
+    ? Success(input as CollaboratorRole)
+    : Failure(
+        DomainFailure(
+          'InvalidCollaboratorRole' as IdentityDomainSubtype,
+          `Role must be one of: ${COLLABORATOR_ROLES.join(', ')}.`
+        )
+      )
+
+/**
+ * Validates that an owner is not inviting themselves.
+ */
+export const validateNotSelfInvite = (ownerId: string, userId: string): Result<string> =>
+  ownerId === userId
+    ? Failure(
+        DomainFailure(
+          'SelfCollaboration' as IdentityDomainSubtype,
+          'You cannot invite yourself as a collaborator.'
+        )
+      )
+    : Success(userId)
+
+// --- Pure Calculations ---
+
+/**
+ * Checks whether a role grants an action.
+ */
+export const roleCanPerform = (role: BookRole, action: BookAction): boolean =>
+  ROLE_PERMISSIONS[role].includes(action)
+
+/**
+ * Validates that a role grants an action.
+ * Returns Success(role) or Failure(DomainFailure) with subtype PermissionDenied.
+ */
+export const authorizeBookAction = (role: BookRole, action: BookAction): Result<BookRole> =>
+  roleCanPerform(role, action)
+    ? Success(role)
+    : Failure(
+        DomainFailure(
+          'PermissionDenied' as IdentityDomainSubtype,
+          `Role ${role} is not permitted to perform ${action}.`
+        )
+      )
@@ -0,0 +1,24 @@
+// Identity-specific error subtypes
+export type IdentityDomainSubtype =
+  | 'InvalidUsername'
+  | 'WeakPassword'
+  | 'UserNotFound'
+  | 'InvalidCredentials'
+  | 'SessionNotFound'
+  | 'SessionExpired'
+  | 'InvalidCollaboratorRole'
+  | 'SelfCollaboration'
+  | 'CollaboratorNotFound'
+  | 'PermissionDenied'
+  | 'InvalidAccountResetMode'
+  | 'UserDeactivated'
+
+export type IdentityInfrastructureSubtype =
+  | 'SessionRepositoryError'
+  | 'DatabaseError'
+  | 'DuplicateKey'
+  | 'DuplicateCollaborator'
+
+export type IdentityApplicationSubtype =
+  | 'InvalidCommand'
+  | 'Unauthenticated'
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SESSION_IDLE_TIMEOUT_MS,
+  calculateSessionExpiry,
+  isSessionExpired,
+  validateSessionActive,
+  Session
+} from '@/bounded-contexts/identity/domain/session'
+
+describe('Identity Context: Session Domain Calculations', () => {
+  const now = new Date('2025-01-15T10:00:00Z')
+
+  describe('calculateSessionExpiry', () => {
+    it('should expire one hour after the given instant', () => {
+      expect.assertions(2)
+
+      const expiry = calculateSessionExpiry(now)
+
+      expect(expiry.getTime() - now.getTime()).toBe(SESSION_IDLE_TIMEOUT_MS)
+      expect(expiry.toISOString()).toBe('2025-01-15T11:00:00.000Z')
+    })
+  })
+
+  describe('isSessionExpired', () => {
+    it('should return false before the expiry', () => {
+      expect.assertions(1)
+
+      const session: Session = { userId: 'user-1', expiresAt: new Date('2025-01-15T10:30:00Z') }
+
+      expect(isSessionExpired(session, now)).toBe(false)
+    })
+
+    it('should return true at the exact expiry instant', () => {
+      expect.assertions(1)
+
+      const session: Session = { userId: 'user-1', expiresAt: now }
+
+      expect(isSessionExpired(session, now)).toBe(true)
+    })
+
+    it('should return true after the expiry', () => {
+      expect.assertions(1)
+
+      const session: Session = { userId: 'user-1', expiresAt: new Date('2025-01-15T09:59:59Z') }
+
+      expect(isSessionExpired(session, now)).toBe(true)
+    })
+  })
+
+  describe('validateSessionActive', () => {
+    it('should accept an active session', () => {
+      expect.assertions(1)
+
+      const session: Session = { id: 'session-1', userId: 'user-1', expiresAt: calculateSessionExpiry(now) }
+      const result = validateSessionActive(session, now)
+
+      expect(result).toEqual({ isSuccess: true, value: session })
+    })
+
+    it('should reject an expired session with SessionExpired', () => {
+      expect.assertions(3)
+
+      const session: Session = { id: 'session-1', userId: 'user-1', expiresAt: new Date('2025-01-15T09:00:00Z') }
+      const result = validateSessionActive(session, now)
+
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.type).toBe('DomainFailure')
+        expect(result.error.subtype).toBe('SessionExpired')
+      }
+    })
+  })
+})
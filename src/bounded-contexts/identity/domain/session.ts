@@ -0,0 +1,44 @@
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { IdentityDomainSubtype } from './errors'
+
+// Entity
+export type Session = {
+  id?: string
+  userId: string
+  expiresAt: Date
+}
+
+// Sessions expire after 1 hour of inactivity
+export const SESSION_IDLE_TIMEOUT_MS = 60 * 60 * 1000
+
+// --- Pure Calculations ---
+
+/**
+ * Calculates the expiry of a session that was last active at `now`.
+ * Every authenticated request slides the expiry forward by the idle timeout.
+ */
+export const calculateSessionExpiry = (now: Date): Date =>
+  new Date(now.getTime() + SESSION_IDLE_TIMEOUT_MS)
+
+/**
+ * Checks whether a session has passed its expiry at the given instant.
+ */
+export const isSessionExpired = (session: Session, now: Date): boolean =>
+  session.expiresAt.getTime() <= now.getTime()
+
+/**
+ * Validates that a session is still active.
+ * Returns Success(session) or Failure(DomainFailure) with subtype SessionExpired.
+ */
+export const validateSessionActive = (session: Session, now: Date): Result<Session> => {
+  if (isSessionExpired(session, now)) {
+    return Failure(
+      DomainFailure(
+        'SessionExpired' as IdentityDomainSubtype,
+        'Session has expired. Please log in again.'
+      )
+    )
+  }
+  return Success(session)
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { validateUsername } from '@/bounded-contexts/identity/domain/user'
+import { validateUsername, validatePassword, validateAccountResetMode, validateUserActive } from '@/bounded-contexts/identity/domain/user'
 
 describe('Identity Context: User Domain Calculations', () => {
   describe('validateUsername', () => {
@@ -56,4 +56,124 @@ describe('Identity Context: User Domain Calculations', () => {
       expect(result.isSuccess).toBe(false)
     })
   })
-})
\ No newline at end of file
+
+  describe('validatePassword', () => {
+    it('should accept a password with letters and numbers', () => {
+      expect.assertions(1)
+
+      const password = 'correct horse 42'
+      const result = validatePassword(password)
+
+      expect(result).toEqual({ isSuccess: true, value: password })
+    })
+
+    it('should not trim or normalize the password', () => {
+      expect.assertions(1)
+
+      const password = '  MixedCase123  '
+      const result = validatePassword(password)
+
+      expect(result).toEqual({ isSuccess: true, value: password })
+    })
+
+    it('should reject passwords shorter than 8 characters with WeakPassword', () => {
+      expect.assertions(3)
+
+      const result = validatePassword('abc123')
+
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('WeakPassword')
+        expect(result.error.message).toMatch(/between 8 and 128 characters/)
+      }
+    })
+
+    it('should reject passwords longer than 128 characters', () => {
+      expect.assertions(2)
+
+      const result = validatePassword('a1'.repeat(65))
+
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('WeakPassword')
+      }
+    })
+
+    it('should reject passwords without a number', () => {
+      expect.assertions(2)
+
+      const result = validatePassword('onlyletters')
+
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.message).toMatch(/at least one letter and one number/)
+      }
+    })
+
+    it('should reject passwords without a letter', () => {
+      expect.assertions(2)
+
+      const result = validatePassword('1234567890')
+
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('WeakPassword')
+      }
+    })
+
+    it('should reject null or undefined input', () => {
+      expect.assertions(1)
+
+      const result = validatePassword(undefined as unknown as string)
+
+      expect(result.isSuccess).toBe(false)
+    })
+  })
+
+  describe('validateAccountResetMode', () => {
+    it('should default to keep', () => {
+      expect.assertions(1)
+
+      expect(validateAccountResetMode(undefined)).toEqual({ isSuccess: true, value: 'keep' })
+    })
+
+    it('should accept keep and restore', () => {
+      expect.assertions(2)
+
+      expect(validateAccountResetMode('keep').isSuccess).toBe(true)
+      expect(validateAccountResetMode('restore').isSuccess).toBe(true)
+    })
+
+    it('should reject any other mode', () => {
+      expect.assertions(2)
+
+      const result = validateAccountResetMode('delete')
+
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidAccountResetMode')
+      }
+    })
+  })
+
+  describe('validateUserActive', () => {
+    it('should accept a user who was never deactivated', () => {
+      expect.assertions(1)
+
+      const user = { id: 'user-1', username: 'active_user', deactivatedAt: null }
+
+      expect(validateUserActive(user)).toEqual({ isSuccess: true, value: user })
+    })
+
+    it('should reject a deactivated user', () => {
+      expect.assertions(2)
+
+      const result = validateUserActive({ id: 'user-1', username: 'gone_user', deactivatedAt: new Date('2025-01-15T10:00:00Z') })
+
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('UserDeactivated')
+      }
+    })
+  })
+})
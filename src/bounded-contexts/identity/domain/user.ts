@@ -2,15 +2,49 @@ import * as R from 'ramda'
 import { Result, Success, Failure } from '@/common/types/result'
 import { DomainFailure } from '@/common/types/errors'
 import { fromNullable, getOrElse } from '@/common/types/option'
-import { validateStringLength, validatePattern } from '@/shared/validation'
+import { validateStringLength, validatePattern, matchesPattern } from '@/shared/validation'
+import { IdentityDomainSubtype } from './errors'
 
 export type User = {
   id?: string
   username: string
+  deactivatedAt?: Date | null
   createdAt?: Date
 }
 
+// A user together with the stored password hash; the hash never leaves the Identity context
+export type UserCredentials = {
+  user: User
+  passwordHash: string | null
+}
+
+// A page of users for the user directory
+export type UserPage = {
+  users: User[]
+  count: number
+}
+
+// How a data reset treats the chart of accounts
+export type AccountResetMode = 'keep' | 'restore'
+
+// Number of records removed by a data reset, per kind
+export type UserDataResetSummary = {
+  accountMode: AccountResetMode
+  journalEntries: number
+  salesInvoices: number
+  payments: number
+  cashSales: number
+  customerDeposits: number
+  vendorBills: number
+  loans: number
+  loanPayments: number
+  cashExpenses: number
+  periods: number
+}
+
 const minimumUsernameLength = 3
+const minimumPasswordLength = 8
+const maximumPasswordLength = 128
 
 // --- Pure Calculations ---
 
@@ -49,4 +83,69 @@ export const validateUsername = (input: string): Result<string> => {
 
   // Returns the normalized, validated username on the Success track
   return Success(normalized)
-}
\ No newline at end of file
+}
+
+/**
+ * Validates password strength.
+ * Passwords are not trimmed or normalized: they are compared exactly as typed.
+ * Returns Success(password) or Failure(DomainFailure) with subtype WeakPassword.
+ */
+export const validatePassword = (input: string): Result<string> => {
+  const password = getOrElse('')(fromNullable(input))
+
+  if (password.length < minimumPasswordLength || password.length > maximumPasswordLength) {
+    return Failure(
+      DomainFailure(
+        'WeakPassword' as IdentityDomainSubtype,
+        `Password must be between ${minimumPasswordLength} and ${maximumPasswordLength} characters.`
+      )
+    )
+  }
+
+  const hasLetter = matchesPattern(/[A-Za-z]/)(password)
+  const hasDigit = matchesPattern(/[0-9]/)(password)
+  if (!hasLetter || !hasDigit) {
+    return Failure(
+      DomainFailure(
+        'WeakPassword' as IdentityDomainSubtype,
+        'Password must contain at least one letter and one number.'
+      )
+    )
+  }
+
+  return Success(password)
+}
+
+
+/**
+ * Validates how a data reset should treat the chart of accounts.
+ * Defaults to 'keep' so customized accounts survive unless a restore is asked for.
+ * Returns Success(mode) or Failure(DomainFailure) with subtype InvalidAccountResetMode.
+ */
+export const validateAccountResetMode = (input?: string): Result<AccountResetMode> => {
+  const mode = getOrElse('keep')(fromNullable(input))
+  if (mode !== 'keep' && mode !== 'restore') {
+    return Failure(
+      DomainFailure(
+        'InvalidAccountResetMode' as IdentityDomainSubtype,
+        "Accounts mode must be 'keep' or 'restore'."
+      )
+    )
+  }
+  return Success(mode)
+}
+
+/**
+ * Checks that a user has not been deactivated.
+ * Deactivated users keep read access to their history but cannot post.
+ * Returns Success(user) or Failure(DomainFailure) with subtype UserDeactivated.
+ */
+export const validateUserActive = (user: User): Result<User> =>
+  user.deactivatedAt
+    ? Failure(
+        DomainFailure(
+          'UserDeactivated' as IdentityDomainSubtype,
+          `User ${user.username} is deactivated and cannot post transactions.`
+        )
+      )
+    : Success(user)
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { createCollaborator, findCollaborator, listCollaboratorsByOwner, listCollaborationsByUser, deleteCollaborator } from '@/bounded-contexts/identity/infrastructure/collaboratorRepo'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Identity Context: Collaborator Repository (Infrastructure)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  // Delete in order of foreign key dependencies (reverse topological order)
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+  const createTestUser = async (username: string) => {
+    const user = await prisma.user.create({ data: { username } })
+    return user.id
+  }
+
+  it('should create and find a collaborator', async () => {
+    expect.assertions(4)
+    const ownerId = await createTestUser('book_owner')
+    const userId = await createTestUser('book_helper')
+
+    const created = await createCollaborator({ ownerId, userId, role: 'Bookkeeper' })
+    expect(created.isSuccess).toBe(true)
+
+    const found = await findCollaborator(ownerId, userId)
+    expect(found.isSuccess).toBe(true)
+    if (found.isSuccess) {
+      expect(found.value?.role).toBe('Bookkeeper')
+      expect(found.value?.userId).toBe(userId)
+    }
+  })
+
+  it('should return null when the user has no access to the books', async () => {
+    expect.assertions(2)
+    const ownerId = await createTestUser('book_owner')
+    const userId = await createTestUser('stranger')
+
+    const found = await findCollaborator(ownerId, userId)
+
+    expect(found.isSuccess).toBe(true)
+    if (found.isSuccess) {
+      expect(found.value).toBeNull()
+    }
+  })
+
+  it('should reject inviting the same user twice with DuplicateCollaborator', async () => {
+    expect.assertions(2)
+    const ownerId = await createTestUser('book_owner')
+    const userId = await createTestUser('book_helper')
+    await createCollaborator({ ownerId, userId, role: 'Viewer' })
+
+    const duplicate = await createCollaborator({ ownerId, userId, role: 'Accountant' })
+
+    expect(duplicate.isSuccess).toBe(false)
+    if (!duplicate.isSuccess) {
+      expect(duplicate.error.subtype).toBe('DuplicateCollaborator')
+    }
+  })
+
+  it('should list collaborators by owner and collaborations by user', async () => {
+    expect.assertions(4)
+    const ownerId = await createTestUser('book_owner')
+    const otherOwnerId = await createTestUser('other_owner')
+    const userId = await createTestUser('book_helper')
+    await createCollaborator({ ownerId, userId, role: 'Viewer' })
+    await createCollaborator({ ownerId: otherOwnerId, userId, role: 'Accountant' })
+
+    const byOwner = await listCollaboratorsByOwner(ownerId)
+    const byUser = await listCollaborationsByUser(userId)
+
+    expect(byOwner.isSuccess).toBe(true)
+    if (byOwner.isSuccess) expect(byOwner.value).toHaveLength(1)
+    expect(byUser.isSuccess).toBe(true)
+    if (byUser.isSuccess) expect(byUser.value.map(c => c.ownerId).sort()).toEqual([ownerId, otherOwnerId].sort())
+  })
+
+  it('should delete a collaborator and tolerate deleting it twice', async () => {
+    expect.assertions(3)
+    const ownerId = await createTestUser('book_owner')
+    const userId = await createTestUser('book_helper')
+    await createCollaborator({ ownerId, userId, role: 'Viewer' })
+
+    const first = await deleteCollaborator(ownerId, userId)
+    const second = await deleteCollaborator(ownerId, userId)
+
+    expect(first).toEqual({ isSuccess: true, value: 1 })
+    expect(second).toEqual({ isSuccess: true, value: 0 })
+    expect(await prisma.collaborator.count()).toBe(0)
+  })
+})
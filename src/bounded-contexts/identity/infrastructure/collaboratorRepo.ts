@@ -0,0 +1,118 @@
+import { prisma } from '@/common/infrastructure/db'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Prisma } from '@/prisma/client'
+import { Collaborator } from '../domain/collaborator'
+import { IdentityInfrastructureSubtype } from '../domain/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
+  try {
+    const data = await promise
+    return Success(data)
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') {
+      return Failure(
+        InfrastructureFailure(
+          'DuplicateCollaborator' as IdentityInfrastructureSubtype,
+          'This user is already a collaborator on these books',
+          e
+        )
+      )
+    }
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(
+      InfrastructureFailure(
+        'DatabaseError' as IdentityInfrastructureSubtype,
+        errorMessage,
+        e
+      )
+    )
+  }
+}
+
+// Mapper from Prisma model to domain Collaborator
+const toDomainCollaborator = (prismaCollaborator: any): Collaborator => ({
+  id: prismaCollaborator.id,
+  ownerId: prismaCollaborator.ownerId,
+  userId: prismaCollaborator.userId,
+  role: prismaCollaborator.role,
+  createdAt: prismaCollaborator.createdAt,
+  updatedAt: prismaCollaborator.updatedAt,
+})
+
+/**
+ * Grant a user access to an owner's books.
+ */
+export const createCollaborator = (collaborator: Omit<Collaborator, 'id' | 'createdAt' | 'updatedAt'>): Promise<Result<Collaborator>> => {
+  const action = prisma.collaborator.create({
+    data: {
+      ownerId: collaborator.ownerId,
+      userId: collaborator.userId,
+      role: collaborator.role,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainCollaborator(result.value))
+      : result
+  )
+}
+
+/**
+ * Find the collaboration granting a user access to an owner's books.
+ */
+export const findCollaborator = (ownerId: string, userId: string): Promise<Result<Collaborator | null>> => {
+  const action = prisma.collaborator.findUnique({
+    where: { ownerId_userId: { ownerId, userId } },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainCollaborator(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * List the collaborators invited into an owner's books.
+ */
+export const listCollaboratorsByOwner = (ownerId: string): Promise<Result<Collaborator[]>> => {
+  const action = prisma.collaborator.findMany({
+    where: { ownerId },
+    orderBy: { createdAt: 'asc' },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(toDomainCollaborator))
+      : result
+  )
+}
+
+/**
+ * List the books a user has been invited into.
+ */
+export const listCollaborationsByUser = (userId: string): Promise<Result<Collaborator[]>> => {
+  const action = prisma.collaborator.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(toDomainCollaborator))
+      : result
+  )
+}
+
+/**
+ * Revoke a user's access to an owner's books. Returns the number of rows deleted.
+ */
+export const deleteCollaborator = (ownerId: string, userId: string): Promise<Result<number>> => {
+  const action = prisma.collaborator.deleteMany({
+    where: { ownerId, userId },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.count)
+      : result
+  )
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { hashPassword, verifyPassword } from '@/bounded-contexts/identity/infrastructure/passwordHasher'
+
+describe('Identity Context: Password Hasher (Infrastructure)', () => {
+  it('should produce a salted scrypt hash that verifies', async () => {
+    expect.assertions(3)
+
+    const hash = await hashPassword('s3cret-password')
+
+    expect(hash).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/)
+    expect(await verifyPassword('s3cret-password', hash)).toBe(true)
+    expect(await verifyPassword('wrong-password1', hash)).toBe(false)
+  })
+
+  it('should use a different salt for each hash', async () => {
+    expect.assertions(1)
+
+    const first = await hashPassword('same-password1')
+    const second = await hashPassword('same-password1')
+
+    expect(first).not.toBe(second)
+  })
+
+  it('should reject missing or malformed hashes', async () => {
+    expect.assertions(3)
+
+    expect(await verifyPassword('anything1', null)).toBe(false)
+    expect(await verifyPassword('anything1', 'plain-text')).toBe(false)
+    expect(await verifyPassword('anything1', 'scrypt$abcd$1234')).toBe(false)
+  })
+})
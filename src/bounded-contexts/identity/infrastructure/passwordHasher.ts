@@ -0,0 +1,34 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+const SALT_BYTES = 16
+const KEY_BYTES = 64
+const SCHEME = 'scrypt'
+
+/**
+ * Hash a password with a random salt using Node's built-in scrypt.
+ * The stored format is `scrypt$<salt hex>$<key hex>` so the salt travels with the hash.
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES)
+  const key = await scryptAsync(password, salt, KEY_BYTES)
+  return [SCHEME, salt.toString('hex'), key.toString('hex')].join('$')
+}
+
+/**
+ * Verify a password against a stored hash in constant time.
+ * Returns false for malformed or missing hashes instead of throwing.
+ */
+export const verifyPassword = async (password: string, storedHash: string | null): Promise<boolean> => {
+  const parts = (storedHash ?? '').split('$')
+  if (parts.length !== 3 || parts[0] !== SCHEME) return false
+
+  const salt = Buffer.from(parts[1], 'hex')
+  const expected = Buffer.from(parts[2], 'hex')
+  if (salt.length === 0 || expected.length !== KEY_BYTES) return false
+
+  const actual = await scryptAsync(password, salt, KEY_BYTES)
+  return timingSafeEqual(actual, expected)
+}
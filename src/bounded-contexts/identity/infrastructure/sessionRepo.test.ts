@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { createSession, findSessionById, updateSessionExpiry, deleteSession } from '@/bounded-contexts/identity/infrastructure/sessionRepo'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Identity Context: Session Repository (Infrastructure)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  // Delete in order of foreign key dependencies (reverse topological order)
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string = 'session_user') => {
+    const user = await prisma.user.create({ data: { username } })
+    return user.id
+  }
+
+  it('should create and find a session', async () => {
+    expect.assertions(4)
+    const userId = await createTestUser()
+    const expiresAt = new Date('2030-01-01T00:00:00Z')
+
+    const created = await createSession({ userId, expiresAt })
+    expect(created.isSuccess).toBe(true)
+    if (!created.isSuccess) return
+
+    const found = await findSessionById(created.value.id!)
+    expect(found.isSuccess).toBe(true)
+    if (found.isSuccess) {
+      expect(found.value?.userId).toBe(userId)
+      expect(found.value?.expiresAt.toISOString()).toBe(expiresAt.toISOString())
+    }
+  })
+
+  it('should return null for an unknown session', async () => {
+    expect.assertions(2)
+
+    const found = await findSessionById('550e8400-e29b-41d4-a716-446655440000')
+
+    expect(found.isSuccess).toBe(true)
+    if (found.isSuccess) {
+      expect(found.value).toBeNull()
+    }
+  })
+
+  it('should move the expiry forward', async () => {
+    expect.assertions(2)
+    const userId = await createTestUser()
+    const created = await createSession({ userId, expiresAt: new Date('2030-01-01T00:00:00Z') })
+    if (!created.isSuccess) return
+
+    const newExpiry = new Date('2030-01-01T01:00:00Z')
+    const updated = await updateSessionExpiry(created.value.id!, newExpiry)
+
+    expect(updated.isSuccess).toBe(true)
+    if (updated.isSuccess) {
+      expect(updated.value.expiresAt.toISOString()).toBe(newExpiry.toISOString())
+    }
+  })
+
+  it('should delete a session and tolerate deleting it twice', async () => {
+    expect.assertions(3)
+    const userId = await createTestUser()
+    const created = await createSession({ userId, expiresAt: new Date('2030-01-01T00:00:00Z') })
+    if (!created.isSuccess) return
+
+    const first = await deleteSession(created.value.id!)
+    const second = await deleteSession(created.value.id!)
+
+    expect(first).toEqual({ isSuccess: true, value: 1 })
+    expect(second).toEqual({ isSuccess: true, value: 0 })
+    expect(await prisma.session.count()).toBe(0)
+  })
+})
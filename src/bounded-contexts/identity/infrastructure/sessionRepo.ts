@@ -0,0 +1,99 @@
+import { prisma } from '@/common/infrastructure/db'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Prisma } from '@/prisma/client'
+import { Session } from '../domain/session'
+import { IdentityInfrastructureSubtype } from '../domain/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
+  try {
+    const data = await promise
+    return Success(data)
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError) {
+      return Failure(
+        InfrastructureFailure(
+          'SessionRepositoryError' as IdentityInfrastructureSubtype,
+          `Database error: ${e.message}`,
+          e
+        )
+      )
+    }
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(
+      InfrastructureFailure(
+        'SessionRepositoryError' as IdentityInfrastructureSubtype,
+        errorMessage,
+        e
+      )
+    )
+  }
+}
+
+// Mapper from Prisma model to domain Session
+const toDomainSession = (prismaSession: any): Session => ({
+  id: prismaSession.id,
+  userId: prismaSession.userId,
+  expiresAt: prismaSession.expiresAt,
+})
+
+/**
+ * Create a new session for a user.
+ */
+export const createSession = (session: Omit<Session, 'id'>): Promise<Result<Session>> => {
+  const action = prisma.session.create({
+    data: {
+      userId: session.userId,
+      expiresAt: session.expiresAt,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainSession(result.value))
+      : result
+  )
+}
+
+/**
+ * Find a session by its ID (the value carried by the session cookie).
+ */
+export const findSessionById = (sessionId: string): Promise<Result<Session | null>> => {
+  const action = prisma.session.findUnique({
+    where: { id: sessionId },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainSession(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * Move a session's expiry forward (sliding idle timeout).
+ */
+export const updateSessionExpiry = (sessionId: string, expiresAt: Date): Promise<Result<Session>> => {
+  const action = prisma.session.update({
+    where: { id: sessionId },
+    data: { expiresAt },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainSession(result.value))
+      : result
+  )
+}
+
+/**
+ * Delete a session. Deleting a session that no longer exists is not an error.
+ */
+export const deleteSession = (sessionId: string): Promise<Result<number>> => {
+  const action = prisma.session.deleteMany({
+    where: { id: sessionId },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.count)
+      : result
+  )
+}
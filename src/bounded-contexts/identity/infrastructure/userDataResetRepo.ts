@@ -0,0 +1,90 @@
+import { prisma } from '@/common/infrastructure/db'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Prisma } from '@/prisma/client'
+import { DEFAULT_ACCOUNTS } from '@/bounded-contexts/ledger/domain/defaultAccounts'
+import { AccountResetMode, UserDataResetSummary } from '../domain/user'
+
+/**
+ * Wipe a user's transactional data in a single transaction.
+ * Deletes payments, loan payments, cash expenses, vendor bills, sales invoices (with their credit notes),
+ * cash sales, customer deposits, loans, journal entries and periods, and zeroes customer and vendor balances.
+ * Customers and vendors themselves are kept. With accountMode 'restore' the chart of accounts is
+ * replaced by DEFAULT_ACCOUNTS; with 'keep' the user's (possibly customized) accounts are left as they are.
+ * Either everything is reset or nothing is.
+ */
+export const resetUserData = async (userId: string, accountMode: AccountResetMode): Promise<Result<UserDataResetSummary>> => {
+  try {
+    const summary = await prisma.$transaction(async (tx) => {
+      // 1. Records that reference invoices, loans and journal entries
+      const payments = await tx.payment.deleteMany({ where: { invoice: { userId } } })
+      const loanPayments = await tx.loanPayment.deleteMany({ where: { loan: { userId } } })
+      const cashExpenses = await tx.cashExpense.deleteMany({ where: { userId } })
+      const vendorBills = await tx.vendorBill.deleteMany({ where: { userId } })
+      const salesInvoices = await tx.salesInvoice.deleteMany({ where: { userId } })
+      const cashSales = await tx.cashSale.deleteMany({ where: { userId } })
+      const customerDeposits = await tx.customerDeposit.deleteMany({ where: { userId } })
+      const loans = await tx.loan.deleteMany({ where: { userId } })
+
+      // 2. The ledger itself
+      await tx.journalLine.deleteMany({ where: { journalEntry: { userId } } })
+      const journalEntries = await tx.journalEntry.deleteMany({ where: { userId } })
+      const periods = await tx.period.deleteMany({ where: { userId } })
+
+      // 3. Subsidiary balances no longer have any transactions behind them
+      await tx.customer.updateMany({ where: { userId }, data: { balance: 0 } })
+      await tx.vendor.updateMany({ where: { userId }, data: { balance: 0 } })
+
+      // 4. Optionally restore the default Chart of Accounts
+      // (posting mappings, expense categories and tax rates point at the deleted accounts and are removed with them;
+      // catalog items are kept without their default accounts)
+      if (accountMode === 'restore') {
+        await tx.account.deleteMany({ where: { userId } })
+        for (const account of DEFAULT_ACCOUNTS) {
+          await tx.account.create({
+            data: {
+              userId,
+              code: account.code,
+              name: account.name,
+              type: account.type,
+              normalBalance: account.normalBalance,
+            }
+          })
+        }
+      }
+
+      return {
+        accountMode,
+        journalEntries: journalEntries.count,
+        salesInvoices: salesInvoices.count,
+        payments: payments.count,
+        cashSales: cashSales.count,
+        customerDeposits: customerDeposits.count,
+        vendorBills: vendorBills.count,
+        loans: loans.count,
+        loanPayments: loanPayments.count,
+        cashExpenses: cashExpenses.count,
+        periods: periods.count,
+      }
+    })
+
+    return Success(summary)
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError) {
+      return Failure(
+        InfrastructureFailure(
+          'DatabaseError',
+          `Database error during user data reset: ${e.message}`,
+          e
+        )
+      )
+    }
+    return Failure(
+      InfrastructureFailure(
+        'DatabaseError',
+        e.message || 'Unknown database error during user data reset',
+        e
+      )
+    )
+  }
+}
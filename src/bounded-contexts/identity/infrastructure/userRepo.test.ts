@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
-import { createUser } from '@/bounded-contexts/identity/infrastructure/userRepo'
+import { createUser, listUsers, updateUsername, setUserDeactivatedAt } from '@/bounded-contexts/identity/infrastructure/userRepo'
 import { prisma } from '@/common/infrastructure/db'
 
 
@@ -27,6 +27,7 @@ describe('Identity Context: User Repository (Infrastructure)', () => {
     await prisma.customer.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -68,4 +69,46 @@ describe('Identity Context: User Repository (Infrastructure)', () => {
       expect(result.error.message).toMatch(/already exists/)
     }
   })
+
+  it('should list users by username with a total count and partial match filter', async () => {
+    expect.assertions(4)
+    await createUser('charlie')
+    await createUser('alice')
+    await createUser('alicia')
+
+    const page = await listUsers({ skip: 0, take: 2 })
+    const filtered = await listUsers({ username: 'alic' })
+
+    expect(page.isSuccess && page.value.users.map(u => u.username)).toEqual(['alice', 'alicia'])
+    expect(page.isSuccess && page.value.count).toBe(3)
+    expect(filtered.isSuccess && filtered.value.users.map(u => u.username)).toEqual(['alice', 'alicia'])
+    expect(filtered.isSuccess && filtered.value.count).toBe(2)
+  })
+
+  it('should report a taken username as a duplicate when renaming', async () => {
+    expect.assertions(2)
+    await createUser('taken_name')
+    const created = await createUser('renamer')
+    const userId = created.isSuccess ? created.value.id! : ''
+
+    const result = await updateUsername(userId, 'taken_name')
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('DuplicateKey')
+    }
+  })
+
+  it('should set and clear the deactivation timestamp', async () => {
+    expect.assertions(2)
+    const created = await createUser('deactivating_user')
+    const userId = created.isSuccess ? created.value.id! : ''
+    const deactivatedAt = new Date('2025-01-15T10:00:00Z')
+
+    const deactivated = await setUserDeactivatedAt(userId, deactivatedAt)
+    const reactivated = await setUserDeactivatedAt(userId, null)
+
+    expect(deactivated.isSuccess && deactivated.value.deactivatedAt).toEqual(deactivatedAt)
+    expect(reactivated.isSuccess && reactivated.value.deactivatedAt).toBeNull()
+  })
 })
\ No newline at end of file
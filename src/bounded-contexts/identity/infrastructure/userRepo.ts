@@ -1,8 +1,9 @@
 import { prisma } from '@/common/infrastructure/db' 
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
-import { Prisma, User } from '@/prisma/client'
+import { Prisma } from '@/prisma/client'
 import { fromNullable, getOrElse } from '@/common/types/option'
+import { User, UserCredentials, UserPage } from '../domain/user'
 
 const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
   try {
@@ -19,11 +20,158 @@ const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
   }
 }
 
+// Mapper from Prisma model to domain User (drops the password hash)
+export const toDomainUser = (prismaUser: any): User => ({
+  id: prismaUser.id,
+  username: prismaUser.username,
+  deactivatedAt: prismaUser.deactivatedAt ?? null,
+  createdAt: prismaUser.createdAt,
+})
 
-export const createUser = (username: string): Promise<Result<User>> => {
+// Mapper from Prisma model to UserCredentials (used only for password checks)
+const toUserCredentials = (prismaUser: any): UserCredentials => ({
+  user: toDomainUser(prismaUser),
+  passwordHash: prismaUser.passwordHash ?? null,
+})
+
+export const createUser = (username: string, passwordHash?: string): Promise<Result<User>> => {
   const action = prisma.user.create({ 
-    data: { username } 
+    data: { username, passwordHash } 
+  })
+
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainUser(result.value))
+      : result
+  )
+}
+
+/**
+ * Find a user by ID.
+ */
+export const findUserById = (userId: string): Promise<Result<User | null>> => {
+  const action = prisma.user.findUnique({
+    where: { id: userId }
+  })
+
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainUser(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * Find a user by (normalized) username.
+ */
+export const findUserByUsername = (username: string): Promise<Result<User | null>> => {
+  const action = prisma.user.findUnique({
+    where: { username }
+  })
+
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainUser(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * Find a user and their password hash by (normalized) username.
+ */
+export const findUserCredentialsByUsername = (username: string): Promise<Result<UserCredentials | null>> => {
+  const action = prisma.user.findUnique({
+    where: { username }
+  })
+
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toUserCredentials(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * Find a user and their password hash by ID.
+ */
+export const findUserCredentialsById = (userId: string): Promise<Result<UserCredentials | null>> => {
+  const action = prisma.user.findUnique({
+    where: { id: userId }
   })
 
-  return safeDbCall(action)
-}
\ No newline at end of file
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toUserCredentials(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * Replace a user's password hash.
+ */
+export const updateUserPasswordHash = (userId: string, passwordHash: string): Promise<Result<User>> => {
+  const action = prisma.user.update({
+    where: { id: userId },
+    data: { passwordHash }
+  })
+
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainUser(result.value))
+      : result
+  )
+}
+
+/**
+ * List users ordered by username, optionally filtered by a partial username match.
+ */
+export const listUsers = (options?: { skip?: number; take?: number; username?: string }): Promise<Result<UserPage>> => {
+  const where = options?.username ? { username: { contains: options.username } } : {}
+  const action = prisma.$transaction([
+    prisma.user.findMany({
+      where,
+      orderBy: { username: 'asc' },
+      skip: options?.skip,
+      take: options?.take,
+    }),
+    prisma.user.count({ where }),
+  ])
+
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success({ users: result.value[0].map(toDomainUser), count: result.value[1] })
+      : result
+  )
+}
+
+/**
+ * Replace a user's (normalized) username.
+ */
+export const updateUsername = (userId: string, username: string): Promise<Result<User>> => {
+  const action = prisma.user.update({
+    where: { id: userId },
+    data: { username }
+  })
+
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainUser(result.value))
+      : result
+  )
+}
+
+/**
+ * Set or clear a user's deactivation timestamp.
+ */
+export const setUserDeactivatedAt = (userId: string, deactivatedAt: Date | null): Promise<Result<User>> => {
+  const action = prisma.user.update({
+    where: { id: userId },
+    data: { deactivatedAt }
+  })
+
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainUser(result.value))
+      : result
+  )
+}
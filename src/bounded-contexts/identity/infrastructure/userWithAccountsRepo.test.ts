@@ -28,6 +28,7 @@ describe('Identity Context: User with Default Accounts Repository (Infrastructur
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -1,19 +1,22 @@
 import { prisma } from '@/common/infrastructure/db'
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
-import { Prisma, User } from '@/prisma/client'
+import { Prisma } from '@/prisma/client'
 import { DEFAULT_ACCOUNTS } from '@/bounded-contexts/ledger/domain/defaultAccounts'
+import { User } from '../domain/user'
+import { toDomainUser } from './userRepo'
 
 /**
  * Create a new user along with the default Chart of Accounts in a single transaction.
  * This ensures atomicity: either both user and accounts are created, or neither.
+ * The password must already be hashed; the returned user never includes the hash.
  */
-export const createUserWithDefaultAccounts = async (username: string): Promise<Result<User>> => {
+export const createUserWithDefaultAccounts = async (username: string, passwordHash?: string): Promise<Result<User>> => {
   try {
     const result = await prisma.$transaction(async (tx) => {
       // 1. Create the user
       const user = await tx.user.create({
-        data: { username }
+        data: { username, passwordHash }
       })
 
       // 2. Create all default accounts for this user
@@ -32,7 +35,7 @@ export const createUserWithDefaultAccounts = async (username: string): Promise<R
       return user
     })
 
-    return Success(result)
+    return Success(toDomainUser(result))
   } catch (e: any) {
     if (e instanceof Prisma.PrismaClientKnownRequestError) {
       if (e.code === 'P2002') {
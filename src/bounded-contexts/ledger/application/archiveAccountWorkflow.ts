@@ -0,0 +1,56 @@
+import { Account } from '../domain/ledger'
+import { findAccountById, setAccountArchivedAt } from '../infrastructure/accountRepo'
+import { Success, Failure, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { LedgerDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type ArchiveAccountCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  accountId: string
+  archived: boolean // true to archive, false to restore
+}
+
+/**
+ * Archive Account Workflow - Application Layer
+ *
+ * An archived account keeps its journal lines, so ledgers and reports still show its history,
+ * but posting a new journal entry against it fails with AccountArchived.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Retrieve the account (infrastructure)
+ * 3. Set or clear the archive timestamp (archiving twice keeps the original time)
+ *
+ * Returns a Promise<Result<Account>>.
+ */
+export const archiveAccountWorkflow = async (command: ArchiveAccountCommand): Promise<Result<Account>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return authorization as Result<Account>
+
+  // Step 2: Retrieve account
+  const accountResult = await findAccountById(command.userId, command.accountId)
+  if (!accountResult.isSuccess) return accountResult as Result<Account>
+
+  const account = accountResult.value
+  if (account === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as LedgerDomainSubtype,
+        `Account ${command.accountId} not found or does not belong to the user`
+      )
+    )
+  }
+
+  // Step 3: Archive or restore
+  if (command.archived && account.archivedAt) return Success(account)
+  return setAccountArchivedAt(account.id!, command.archived ? new Date() : null)
+}
@@ -25,6 +25,7 @@ describe('Ledger Context: Create Account Workflow (Integration)', () => {
     await prisma.customer.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -69,6 +70,52 @@ describe('Ledger Context: Create Account Workflow (Integration)', () => {
     expect(dbAccount).not.toBeNull()
   })
 
+  it('should create a sub-account under a parent of the same type', async () => {
+    const user = await createTestUser()
+    const parent = await prisma.account.create({
+      data: { userId: user.id, code: '110', name: 'Bank Accounts', type: 'Asset', normalBalance: 'Debit' }
+    })
+    const command: CreateAccountCommand = {
+      userId: user.id,
+      code: '110.1',
+      name: 'Checking',
+      type: 'Asset',
+      normalBalance: 'Debit',
+      parentId: parent.id
+    }
+
+    const result = await createAccountWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.parentId).toBe(parent.id)
+    }
+  })
+
+  it('should reject a parent account of another type', async () => {
+    const user = await createTestUser()
+    const parent = await prisma.account.create({
+      data: { userId: user.id, code: '401', name: 'Service Revenue', type: 'Revenue', normalBalance: 'Credit' }
+    })
+    const command: CreateAccountCommand = {
+      userId: user.id,
+      code: '110.1',
+      name: 'Checking',
+      type: 'Asset',
+      normalBalance: 'Debit',
+      parentId: parent.id
+    }
+
+    const result = await createAccountWorkflow(command)
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountParentTypeMismatch')
+    }
+    const count = await prisma.account.count({ where: { userId: user.id } })
+    expect(count).toBe(1)
+  })
+
   it('should reject duplicate account code for the same user', async () => {
     const user = await createTestUser()
     const command: CreateAccountCommand = {
@@ -1,18 +1,21 @@
-import { validateAccountCode, validateAccountName, Account, AccountType, NormalBalance } from '../domain/ledger'
-import { createAccount, findAccountByCode } from '../infrastructure/accountRepo'
+import { validateAccountCode, validateAccountName, validateAccountParent, Account, AccountType, NormalBalance } from '../domain/ledger'
+import { createAccount, findAccountByCode, findAccountById } from '../infrastructure/accountRepo'
 import { Failure } from '@/common/types/result'
 import { DomainFailure } from '@/common/types/errors'
 import { LedgerDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 /**
  * Workflow input: raw data from command (API request).
  */
 export type CreateAccountCommand = {
   userId: string
+  actingUserId?: string // defaults to userId (the book owner)
   code: string
   name: string
   type: AccountType
   normalBalance: NormalBalance
+  parentId?: string // optional parent account of the same type
 }
 
 /**
@@ -39,15 +42,25 @@ const validateAccountUniqueness = (userId: string, code: string) =>
  * 
  * Composes domain validation with infrastructure uniqueness check and persistence.
  * Steps:
- * 1. Validate account code syntax (pure)
- * 2. Validate account name syntax (pure)
- * 3. Check uniqueness of account code for the user (infrastructure)
- * 4. Persist account (infrastructure)
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate account code syntax (pure)
+ * 3. Validate account name syntax (pure)
+ * 4. Check uniqueness of account code for the user (infrastructure)
+ * 5. Check the parent account, if given, exists and has the same type (infrastructure + pure)
+ * 6. Persist account (infrastructure)
  * 
  * Returns a Promise<Result<Account>>.
  */
 export const createAccountWorkflow = async (command: CreateAccountCommand) => {
-  // Step 1 & 2: Pure validations
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return Promise.resolve(Failure(authorization.error))
+
+  // Step 2 & 3: Pure validations
   const codeValidation = validateAccountCode(command.code)
   const nameValidation = validateAccountName(command.name)
 
@@ -59,19 +72,40 @@ export const createAccountWorkflow = async (command: CreateAccountCommand) => {
     return Promise.resolve(Failure(nameValidation.error))
   }
 
-  // Step 3: Uniqueness check (async)
+  // Step 4: Uniqueness check (async)
   const uniquenessError = await validateAccountUniqueness(command.userId, command.code)
   if (uniquenessError) {
     return Promise.resolve(Failure(uniquenessError))
   }
 
-  // Step 4: Persist
+  // Step 5: Parent check (async)
+  if (command.parentId) {
+    const parentResult = await findAccountById(command.userId, command.parentId)
+    if (!parentResult.isSuccess) {
+      return Promise.resolve(Failure(parentResult.error))
+    }
+    if (parentResult.value === null) {
+      return Promise.resolve(Failure(
+        DomainFailure(
+          'AccountNotFound' as LedgerDomainSubtype,
+          `Parent account ${command.parentId} not found or does not belong to the user`
+        )
+      ))
+    }
+    const parentValidation = validateAccountParent({ type: command.type }, parentResult.value, [])
+    if (!parentValidation.isSuccess) {
+      return Promise.resolve(Failure(parentValidation.error))
+    }
+  }
+
+  // Step 6: Persist
   const accountToCreate: Omit<Account, 'id' | 'createdAt' | 'updatedAt'> = {
     userId: command.userId,
     code: codeValidation.value,
     name: nameValidation.value,
     type: command.type,
     normalBalance: command.normalBalance,
+    parentId: command.parentId ?? null,
   }
 
   return createAccount(accountToCreate)
@@ -0,0 +1,32 @@
+import { Result, Success } from '@/common/types/result'
+import { buildPostingConfiguration, PostingConfigurationEntry } from '../domain/postingConfiguration'
+import { listAccounts } from '../infrastructure/accountRepo'
+import { listPostingMappings } from '../infrastructure/postingMappingRepo'
+
+/**
+ * Get Posting Configuration Workflow - Application Layer
+ *
+ * Shows which account every posting role resolves to, and whether it is mapped or falls back to its default code.
+ * Steps:
+ * 1. Fetch the user's posting mappings (infrastructure)
+ * 2. Fetch the user's chart of accounts (infrastructure)
+ * 3. Resolve every role (pure domain)
+ */
+export const getPostingConfigurationWorkflow = async (
+  userId: string
+): Promise<Result<PostingConfigurationEntry[]>> => {
+  // 1. Fetch mappings
+  const mappingsResult = await listPostingMappings(userId)
+  if (!mappingsResult.isSuccess) {
+    return mappingsResult as Result<PostingConfigurationEntry[]>
+  }
+
+  // 2. Fetch accounts
+  const accountsResult = await listAccounts(userId)
+  if (!accountsResult.isSuccess) {
+    return accountsResult as Result<PostingConfigurationEntry[]>
+  }
+
+  // 3. Resolve every role
+  return Success(buildPostingConfiguration(mappingsResult.value, accountsResult.value))
+}
\ No newline at end of file
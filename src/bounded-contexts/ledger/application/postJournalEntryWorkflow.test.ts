@@ -25,6 +25,7 @@ describe('Ledger Context: Post Journal Entry Workflow (Integration)', () => {
     await prisma.customer.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.period.deleteMany()
     await prisma.user.deleteMany()
   })
@@ -142,6 +143,32 @@ describe('Ledger Context: Post Journal Entry Workflow (Integration)', () => {
     }
   })
 
+  it('should reject journal entry against an archived account', async () => {
+    const user = await createTestUser()
+    const cashAccount = await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    const revenueAccount = await createTestAccount(user.id, '401', 'Service Revenue', 'Revenue', 'Credit')
+    await prisma.account.update({ where: { id: revenueAccount.id }, data: { archivedAt: new Date() } })
+
+    const command: PostJournalEntryCommand = {
+      userId: user.id,
+      description: 'Sale to archived revenue account',
+      date: '2025-01-15T00:00:00Z',
+      lines: [
+        { accountId: cashAccount.id, amount: 500, side: 'Debit' as const },
+        { accountId: revenueAccount.id, amount: 500, side: 'Credit' as const }
+      ]
+    }
+
+    const result = await postJournalEntryWorkflow(command)
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.type).toBe('DomainFailure')
+      expect(result.error.subtype).toBe('AccountArchived')
+    }
+    expect(await prisma.journalEntry.count({ where: { userId: user.id } })).toBe(0)
+  })
+
   it('should reject journal entry with insufficient lines (only one line)', async () => {
     const user = await createTestUser()
     const cashAccount = await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
@@ -1,18 +1,21 @@
-import { validateJournalEntry, JournalEntry, JournalLine } from '../domain/ledger'
+import { validateJournalEntry, validateAccountNotArchived, JournalEntry, JournalLine } from '../domain/ledger'
 import { createJournalEntry } from '../infrastructure/journalEntryRepo'
 import { findAccountById } from '../infrastructure/accountRepo'
 import { Failure, Result } from '@/common/types/result'
 import { DomainFailure, AppError } from '@/common/types/errors'
 import { LedgerDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 /**
  * Workflow input: raw data from command (API request).
  */
 export type PostJournalEntryCommand = {
   userId: string
+  actingUserId?: string // defaults to userId (the book owner)
   entryNumber?: string
   description: string
   date: string // ISO string
+  reversesEntryId?: string // set by the reversal workflow only
   lines: Array<{
     accountId: string
     amount: number
@@ -25,7 +28,7 @@ type ValidateAccountsExistResult =
   | { success: false, error: AppError }
 
 /**
- * Validate that all referenced accounts exist and belong to the user.
+ * Validate that all referenced accounts exist, belong to the user and are not archived.
  */
 const validateAccountsExist = async (userId: string, lines: JournalLine[]): Promise<ValidateAccountsExistResult> => {
   for (const line of lines) {
@@ -48,6 +51,10 @@ const validateAccountsExist = async (userId: string, lines: JournalLine[]): Prom
         )
       }
     }
+    const openResult = validateAccountNotArchived(accountResult.value)
+    if (!openResult.isSuccess) {
+      return { success: false, error: openResult.error }
+    }
   }
   return { success: true }
 }
@@ -56,14 +63,23 @@ const validateAccountsExist = async (userId: string, lines: JournalLine[]): Prom
  * Post Journal Entry Workflow - Application Layer
  * 
  * Steps:
- * 1. Validate command structure (pure validation)
- * 2. Validate that all referenced accounts exist (infrastructure)
- * 3. Persist journal entry (infrastructure)
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate command structure (pure validation)
+ * 3. Validate that all referenced accounts exist and are not archived (infrastructure)
+ * 4. Persist journal entry (infrastructure)
  * 
  * Returns a Promise<Result<JournalEntry>>.
  */
 export const postJournalEntryWorkflow = async (command: PostJournalEntryCommand): Promise<Result<JournalEntry>> => {
-  // Step 1: Pure validation
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<JournalEntry>
+
+  // Step 2: Pure validation
   const entryToValidate: Omit<JournalEntry, 'id' | 'userId' | 'createdAt' | 'updatedAt'> = {
     entryNumber: command.entryNumber,
     description: command.description,
@@ -80,18 +96,19 @@ export const postJournalEntryWorkflow = async (command: PostJournalEntryCommand)
     return validationResult
   }
 
-  // Step 2: Validate accounts exist
+  // Step 3: Validate accounts exist and are open
   const accountsValidation = await validateAccountsExist(command.userId, entryToValidate.lines)
   if (!accountsValidation.success) {
     return Failure(accountsValidation.error)
   }
 
-  // Step 3: Persist
+  // Step 4: Persist
   const entryToCreate: Omit<JournalEntry, 'id' | 'createdAt' | 'updatedAt'> = {
     userId: command.userId,
     entryNumber: command.entryNumber,
     description: command.description,
     date: new Date(command.date),
+    reversesEntryId: command.reversesEntryId,
     lines: command.lines.map(line => ({
       accountId: line.accountId,
       amount: line.amount,
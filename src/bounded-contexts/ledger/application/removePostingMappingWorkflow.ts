@@ -0,0 +1,62 @@
+import { validatePostingRole, PostingMapping } from '../domain/postingConfiguration'
+import { findPostingMapping, deletePostingMapping } from '../infrastructure/postingMappingRepo'
+import { Failure, Success, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { LedgerDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type RemovePostingMappingCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  role: string
+}
+
+/**
+ * Remove Posting Mapping Workflow - Application Layer
+ *
+ * Clears a posting role's mapping; workflows then post to the account with the role's default code again.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate the posting role (pure)
+ * 3. Retrieve the mapping (infrastructure)
+ * 4. Delete the mapping (infrastructure)
+ *
+ * Returns a Promise<Result<PostingMapping>> with the removed mapping.
+ */
+export const removePostingMappingWorkflow = async (command: RemovePostingMappingCommand): Promise<Result<PostingMapping>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return authorization as Result<PostingMapping>
+
+  // Step 2: Pure validation
+  const roleValidation = validatePostingRole(command.role)
+  if (!roleValidation.isSuccess) return roleValidation as Result<PostingMapping>
+  const role = roleValidation.value
+
+  // Step 3: Retrieve mapping
+  const mappingResult = await findPostingMapping(command.userId, role)
+  if (!mappingResult.isSuccess) return mappingResult as Result<PostingMapping>
+
+  const mapping = mappingResult.value
+  if (mapping === null) {
+    return Failure(
+      DomainFailure(
+        'PostingMappingNotFound' as LedgerDomainSubtype,
+        `The ${role} posting role is not mapped; it already uses its default account code.`
+      )
+    )
+  }
+
+  // Step 4: Delete
+  const deleteResult = await deletePostingMapping(command.userId, role)
+  if (!deleteResult.isSuccess) return deleteResult as Result<PostingMapping>
+
+  return Success(mapping)
+}
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { reverseJournalEntryWorkflow } from '@/bounded-contexts/ledger/application/reverseJournalEntryWorkflow'
+import { postJournalEntryWorkflow } from '@/bounded-contexts/ledger/application/postJournalEntryWorkflow'
+import { findJournalEntryById } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
+import { prisma } from '@/common/infrastructure/db'
+import type { ReverseJournalEntryCommand } from '@/bounded-contexts/ledger/application/reverseJournalEntryWorkflow'
+
+describe('Ledger Context: Reverse Journal Entry Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  // Creates a user with cash and revenue accounts, an open January 2025 period and a posted cash sale
+  const setupPostedEntry = async (username: string = 'test_user_reverse') => {
+    const user = await prisma.user.create({ data: { username } })
+    const cash = await prisma.account.create({
+      data: { userId: user.id, code: '101', name: 'Cash', type: 'Asset', normalBalance: 'Debit' }
+    })
+    const revenue = await prisma.account.create({
+      data: { userId: user.id, code: '401', name: 'Service Revenue', type: 'Revenue', normalBalance: 'Credit' }
+    })
+    await prisma.period.create({
+      data: {
+        userId: user.id,
+        name: 'January 2025',
+        startDate: new Date('2025-01-01T00:00:00Z'),
+        endDate: new Date('2025-01-31T23:59:59Z'),
+        status: 'Open'
+      }
+    })
+    const posted = await postJournalEntryWorkflow({
+      userId: user.id,
+      description: 'Cash sale',
+      date: '2025-01-10T00:00:00Z',
+      lines: [
+        { accountId: cash.id, amount: 500, side: 'Debit' },
+        { accountId: revenue.id, amount: 500, side: 'Credit' }
+      ]
+    })
+    if (!posted.isSuccess) throw new Error('Failed to post entry for test')
+    return { user, cash, revenue, entry: posted.value }
+  }
+
+  it('should post a mirror entry and link both entries', async () => {
+    const { user, cash, revenue, entry } = await setupPostedEntry()
+    const command: ReverseJournalEntryCommand = {
+      userId: user.id,
+      entryId: entry.id!,
+      date: '2025-01-20T00:00:00Z'
+    }
+
+    const result = await reverseJournalEntryWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.description).toBe('Reversal of Cash sale')
+      expect(result.value.reversesEntryId).toBe(entry.id)
+      expect(result.value.lines).toEqual(expect.arrayContaining([
+        expect.objectContaining({ accountId: cash.id, amount: 500, side: 'Credit' }),
+        expect.objectContaining({ accountId: revenue.id, amount: 500, side: 'Debit' })
+      ]))
+
+      const original = await findJournalEntryById(user.id, entry.id!)
+      expect(original.isSuccess && original.value?.reversedByEntryId).toBe(result.value.id)
+    }
+  })
+
+  it('should reject a second reversal of the same entry', async () => {
+    const { user, entry } = await setupPostedEntry()
+    const command: ReverseJournalEntryCommand = { userId: user.id, entryId: entry.id!, date: '2025-01-20T00:00:00Z' }
+    await reverseJournalEntryWorkflow(command)
+
+    const result = await reverseJournalEntryWorkflow(command)
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('JournalEntryAlreadyReversed')
+    }
+    expect(await prisma.journalEntry.count({ where: { userId: user.id } })).toBe(2)
+  })
+
+  it('should reject a reversal date outside an open period', async () => {
+    const { user, entry } = await setupPostedEntry()
+
+    const result = await reverseJournalEntryWorkflow({ userId: user.id, entryId: entry.id!, date: '2025-02-05T00:00:00Z' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('PeriodNotOpen')
+    }
+  })
+
+  it('should reject a reversal dated before the original entry', async () => {
+    const { user, entry } = await setupPostedEntry()
+
+    const result = await reverseJournalEntryWorkflow({ userId: user.id, entryId: entry.id!, date: '2025-01-05T00:00:00Z' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidReversalDate')
+    }
+  })
+
+  it('should reject an entry posted by a business document', async () => {
+    const { user, entry } = await setupPostedEntry()
+    const customer = await prisma.customer.create({ data: { userId: user.id, name: 'Walk-in Customer' } })
+    await prisma.cashSale.create({
+      data: { userId: user.id, customerId: customer.id, amount: 500, date: new Date('2025-01-10T00:00:00Z'), journalEntryId: entry.id! }
+    })
+
+    const result = await reverseJournalEntryWorkflow({ userId: user.id, entryId: entry.id!, date: '2025-01-20T00:00:00Z' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('EntryOwnedByDocument')
+    }
+    expect(await prisma.journalEntry.count({ where: { userId: user.id } })).toBe(1)
+  })
+
+  it('should not reverse another user\'s entry', async () => {
+    const { entry } = await setupPostedEntry('entry_owner')
+    const user = await prisma.user.create({ data: { username: 'test_user_reverse' } })
+
+    const result = await reverseJournalEntryWorkflow({ userId: user.id, entryId: entry.id!, date: '2025-01-20T00:00:00Z' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('JournalEntryNotFound')
+    }
+  })
+})
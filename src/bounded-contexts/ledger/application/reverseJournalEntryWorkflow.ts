@@ -0,0 +1,95 @@
+import { JournalEntry, validateJournalEntryNotOwnedByDocument, validateJournalEntryReversible, reverseJournalLines } from '../domain/ledger'
+import { findJournalEntryById, findJournalEntrySourceDocument } from '../infrastructure/journalEntryRepo'
+import { postJournalEntryWorkflow } from './postJournalEntryWorkflow'
+import { Failure, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { LedgerDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+import { validateDateInOpenPeriod } from '@/bounded-contexts/period-close/application/postManualJournalEntryWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type ReverseJournalEntryCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  entryId: string
+  date: string // ISO string, the reversal date
+  description?: string // defaults to "Reversal of <original description>"
+}
+
+/**
+ * Reverse Journal Entry Workflow - Application Layer
+ *
+ * Posts a mirror entry with every Debit/Credit swapped and links it to the original,
+ * so the original shows "reversed by" and the reversal shows "reverses".
+ * Entries posted by a business document (an invoice, payment, bill, loan, etc.) are not reversed here:
+ * they are corrected through the document's own workflow, e.g. voiding the invoice or issuing a credit note.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Parse the reversal date
+ * 3. Retrieve the original entry and the document that posted it, if any (infrastructure)
+ * 4. Check that no document owns it, it is not already reversed and the date is not before it (pure validation)
+ * 5. Check that the reversal date falls within an open period (infrastructure)
+ * 6. Post the mirror entry through the journal entry workflow
+ *
+ * Returns a Promise<Result<JournalEntry>> with the reversal entry.
+ */
+export const reverseJournalEntryWorkflow = async (command: ReverseJournalEntryCommand): Promise<Result<JournalEntry>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostManualEntries',
+  })
+  if (!authorization.isSuccess) return authorization as Result<JournalEntry>
+
+  // Step 2: Parse date
+  const date = new Date(command.date)
+  if (isNaN(date.getTime())) {
+    return Failure(
+      DomainFailure(
+        'InvalidJournalEntryDate' as LedgerDomainSubtype,
+        'Invalid reversal date format'
+      )
+    )
+  }
+
+  // Step 3: Retrieve original entry
+  const entryResult = await findJournalEntryById(command.userId, command.entryId)
+  if (!entryResult.isSuccess) return entryResult as Result<JournalEntry>
+
+  const entry = entryResult.value
+  if (entry === null) {
+    return Failure(
+      DomainFailure(
+        'JournalEntryNotFound' as LedgerDomainSubtype,
+        `Journal entry ${command.entryId} not found or does not belong to the user`
+      )
+    )
+  }
+
+  const sourceDocumentResult = await findJournalEntrySourceDocument(command.userId, command.entryId)
+  if (!sourceDocumentResult.isSuccess) return sourceDocumentResult as Result<JournalEntry>
+
+  // Step 4: Validate the reversal
+  const notOwnedResult = validateJournalEntryNotOwnedByDocument(entry, sourceDocumentResult.value)
+  if (!notOwnedResult.isSuccess) return notOwnedResult
+
+  const reversibleResult = validateJournalEntryReversible(entry, date)
+  if (!reversibleResult.isSuccess) return reversibleResult
+
+  // Step 5: Validate date in open period
+  const periodValidation = await validateDateInOpenPeriod(command.userId, date)
+  if (!periodValidation.isSuccess) return periodValidation as Result<JournalEntry>
+
+  // Step 6: Post the mirror entry
+  return postJournalEntryWorkflow({
+    userId: command.userId,
+    actingUserId: command.actingUserId,
+    description: command.description ?? `Reversal of ${entry.description}`.slice(0, 500),
+    date: command.date,
+    reversesEntryId: entry.id,
+    lines: reverseJournalLines(entry.lines),
+  })
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { setPostingMappingWorkflow } from '@/bounded-contexts/ledger/application/setPostingMappingWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+import type { SetPostingMappingCommand } from '@/bounded-contexts/ledger/application/setPostingMappingWorkflow'
+
+describe('Ledger Context: Set Posting Mapping Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.postingMapping.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string = 'test_user_posting') => {
+    return await prisma.user.create({
+      data: { username }
+    })
+  }
+
+  const createTestAccount = async (
+    userId: string,
+    code: string = '1010',
+    type: 'Asset' | 'Liability' | 'Equity' | 'Revenue' | 'Expense' = 'Asset'
+  ) => {
+    return await prisma.account.create({
+      data: { userId, code, name: `Account ${code}`, type, normalBalance: type === 'Asset' || type === 'Expense' ? 'Debit' : 'Credit' }
+    })
+  }
+
+  it('should map a role to an account of the right type', async () => {
+    const user = await createTestUser()
+    const account = await createTestAccount(user.id)
+    const command: SetPostingMappingCommand = { userId: user.id, role: 'Cash', accountId: account.id }
+
+    const result = await setPostingMappingWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.role).toBe('Cash')
+      expect(result.value.accountId).toBe(account.id)
+    }
+  })
+
+  it('should replace the account of an already mapped role', async () => {
+    const user = await createTestUser()
+    const first = await createTestAccount(user.id, '1010')
+    const second = await createTestAccount(user.id, '1020')
+
+    await setPostingMappingWorkflow({ userId: user.id, role: 'Cash', accountId: first.id })
+    const result = await setPostingMappingWorkflow({ userId: user.id, role: 'Cash', accountId: second.id })
+
+    expect(result.isSuccess).toBe(true)
+    const mappings = await prisma.postingMapping.findMany({ where: { userId: user.id } })
+    expect(mappings).toHaveLength(1)
+    expect(mappings[0].accountId).toBe(second.id)
+  })
+
+  it('should reject an account whose type does not fit the role', async () => {
+    const user = await createTestUser()
+    const revenue = await createTestAccount(user.id, '4100', 'Revenue')
+
+    const result = await setPostingMappingWorkflow({ userId: user.id, role: 'DefaultExpense', accountId: revenue.id })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('PostingAccountTypeMismatch')
+    }
+  })
+
+  it('should reject an archived account', async () => {
+    const user = await createTestUser()
+    const account = await createTestAccount(user.id)
+    await prisma.account.update({ where: { id: account.id }, data: { archivedAt: new Date() } })
+
+    const result = await setPostingMappingWorkflow({ userId: user.id, role: 'Cash', accountId: account.id })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountArchived')
+    }
+  })
+
+  it('should reject an unknown role', async () => {
+    const user = await createTestUser()
+    const account = await createTestAccount(user.id)
+
+    const result = await setPostingMappingWorkflow({ userId: user.id, role: 'Petty', accountId: account.id })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidPostingRole')
+    }
+  })
+
+  it('should reject an account of another user', async () => {
+    const owner = await createTestUser('account_owner')
+    const account = await createTestAccount(owner.id)
+    const user = await createTestUser()
+
+    const result = await setPostingMappingWorkflow({ userId: user.id, role: 'Cash', accountId: account.id })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountNotFound')
+    }
+  })
+
+  it('should reject a Bookkeeper collaborator', async () => {
+    const owner = await createTestUser('account_owner')
+    const bookkeeper = await createTestUser('account_bookkeeper')
+    await prisma.collaborator.create({ data: { ownerId: owner.id, userId: bookkeeper.id, role: 'Bookkeeper' } })
+    const account = await createTestAccount(owner.id)
+
+    const result = await setPostingMappingWorkflow({
+      userId: owner.id,
+      actingUserId: bookkeeper.id,
+      role: 'Cash',
+      accountId: account.id,
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('PermissionDenied')
+    }
+  })
+})
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { validatePostingRole, validatePostingAccount, PostingMapping } from '../domain/postingConfiguration'
+import { findAccountById } from '../infrastructure/accountRepo'
+import { upsertPostingMapping } from '../infrastructure/postingMappingRepo'
+import { Failure, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { LedgerDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type SetPostingMappingCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  role: string
+  accountId: string
+}
+
+/**
+ * Set Posting Mapping Workflow - Application Layer
+ *
+ * Points a posting role (e.g. Cash, DefaultRevenue) at one of the user's accounts, so the
+ * Sales and Purchasing workflows post to it instead of the role's default account code.
+ * Setting a role that is already mapped replaces its account.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate the posting role (pure)
+ * 3. Retrieve the account (infrastructure)
+ * 4. Validate the account's type for the role and that it is not archived (pure)
+ * 5. Persist the mapping (infrastructure)
+ *
+ * Returns a Promise<Result<PostingMapping>>.
+ */
+export const setPostingMappingWorkflow = async (command: SetPostingMappingCommand): Promise<Result<PostingMapping>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return authorization as Result<PostingMapping>
+
+  // Step 2: Pure validation
+  const roleValidation = validatePostingRole(command.role)
+  if (!roleValidation.isSuccess) return roleValidation as Result<PostingMapping>
+  const role = roleValidation.value
+
+  // Step 3: Retrieve account
+  const accountResult = await findAccountById(command.userId, command.accountId)
+  if (!accountResult.isSuccess) return accountResult as Result<PostingMapping>
+
+  const account = accountResult.value
+  if (account === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as LedgerDomainSubtype,
+        `Account ${command.accountId} not found or does not belong to the user`
+      )
+    )
+  }
+
+  // Step 4: Validate the account for the role
+  const accountValidation = validatePostingAccount(role, account)
+  if (!accountValidation.isSuccess) return accountValidation as Result<PostingMapping>
+
+  // Step 5: Persist
+  return upsertPostingMapping(command.userId, role, account.id!)
+}
\ No newline at end of file
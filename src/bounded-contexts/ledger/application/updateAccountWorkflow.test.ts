@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { updateAccountWorkflow } from '@/bounded-contexts/ledger/application/updateAccountWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+import type { UpdateAccountCommand } from '@/bounded-contexts/ledger/application/updateAccountWorkflow'
+
+describe('Ledger Context: Update Account Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string = 'test_user_update') => {
+    return await prisma.user.create({
+      data: { username }
+    })
+  }
+
+  const createTestAccount = async (userId: string) => {
+    return await prisma.account.create({
+      data: { userId, code: '101', name: 'Cash', type: 'Asset', normalBalance: 'Debit' }
+    })
+  }
+
+  it('should rename an account', async () => {
+    const user = await createTestUser()
+    const account = await createTestAccount(user.id)
+    const command: UpdateAccountCommand = {
+      userId: user.id,
+      accountId: account.id,
+      name: '  Checking Account '
+    }
+
+    const result = await updateAccountWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.name).toBe('Checking Account')
+      expect(result.value.code).toBe('101')
+    }
+  })
+
+  it('should reject a change to the account code', async () => {
+    const user = await createTestUser()
+    const account = await createTestAccount(user.id)
+    const command: UpdateAccountCommand = {
+      userId: user.id,
+      accountId: account.id,
+      name: 'Checking Account',
+      code: '102'
+    }
+
+    const result = await updateAccountWorkflow(command)
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('ImmutableAccountCode')
+    }
+    const dbAccount = await prisma.account.findUnique({ where: { id: account.id } })
+    expect(dbAccount?.name).toBe('Cash')
+  })
+
+  it('should move an account under a parent and back to the top level', async () => {
+    const user = await createTestUser()
+    const parent = await prisma.account.create({
+      data: { userId: user.id, code: '110', name: 'Bank Accounts', type: 'Asset', normalBalance: 'Debit' }
+    })
+    const account = await createTestAccount(user.id)
+
+    const moved = await updateAccountWorkflow({ userId: user.id, accountId: account.id, parentId: parent.id })
+
+    expect(moved.isSuccess).toBe(true)
+    if (moved.isSuccess) {
+      expect(moved.value.parentId).toBe(parent.id)
+      expect(moved.value.name).toBe('Cash')
+    }
+
+    const cleared = await updateAccountWorkflow({ userId: user.id, accountId: account.id, parentId: null })
+
+    expect(cleared.isSuccess).toBe(true)
+    if (cleared.isSuccess) {
+      expect(cleared.value.parentId).toBeNull()
+    }
+  })
+
+  it('should reject a parent that would create a cycle', async () => {
+    const user = await createTestUser()
+    const parent = await prisma.account.create({
+      data: { userId: user.id, code: '110', name: 'Bank Accounts', type: 'Asset', normalBalance: 'Debit' }
+    })
+    const child = await prisma.account.create({
+      data: { userId: user.id, code: '110.1', name: 'Checking', type: 'Asset', normalBalance: 'Debit', parentId: parent.id }
+    })
+
+    const result = await updateAccountWorkflow({ userId: user.id, accountId: parent.id, parentId: child.id })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountHierarchyCycle')
+    }
+    const dbParent = await prisma.account.findUnique({ where: { id: parent.id } })
+    expect(dbParent?.parentId).toBeNull()
+  })
+
+  it('should reject a parent of another type', async () => {
+    const user = await createTestUser()
+    const revenue = await prisma.account.create({
+      data: { userId: user.id, code: '401', name: 'Service Revenue', type: 'Revenue', normalBalance: 'Credit' }
+    })
+    const account = await createTestAccount(user.id)
+
+    const result = await updateAccountWorkflow({ userId: user.id, accountId: account.id, parentId: revenue.id })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountParentTypeMismatch')
+    }
+  })
+
+  it('should reject an account of another user', async () => {
+    const owner = await createTestUser('account_owner')
+    const account = await createTestAccount(owner.id)
+    const user = await createTestUser()
+    const command: UpdateAccountCommand = {
+      userId: user.id,
+      accountId: account.id,
+      name: 'Checking Account'
+    }
+
+    const result = await updateAccountWorkflow(command)
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountNotFound')
+    }
+  })
+
+  it('should reject a Viewer collaborator', async () => {
+    const owner = await createTestUser('account_owner')
+    const viewer = await createTestUser('account_viewer')
+    await prisma.collaborator.create({ data: { ownerId: owner.id, userId: viewer.id, role: 'Viewer' } })
+    const account = await createTestAccount(owner.id)
+    const command: UpdateAccountCommand = {
+      userId: owner.id,
+      actingUserId: viewer.id,
+      accountId: account.id,
+      name: 'Checking Account'
+    }
+
+    const result = await updateAccountWorkflow(command)
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('PermissionDenied')
+    }
+  })
+})
@@ -0,0 +1,94 @@
+import { validateAccountName, validateAccountCodeUnchanged, validateAccountParent, Account } from '../domain/ledger'
+import { findAccountById, listAccounts, updateAccountDetails } from '../infrastructure/accountRepo'
+import { Failure, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { LedgerDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type UpdateAccountCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  accountId: string
+  name?: string
+  code?: string // accepted only when it equals the current code
+  parentId?: string | null // null moves the account back to the top level
+}
+
+/**
+ * Update Account Workflow - Application Layer
+ *
+ * Renames an account and/or moves it under another parent account.
+ * Account codes are immutable, so any attempt to change the code is rejected.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate account name syntax, if given (pure)
+ * 3. Retrieve the account (infrastructure)
+ * 4. Reject a code change (pure)
+ * 5. Retrieve and validate the new parent, if given: same type, no cycle (infrastructure + pure)
+ * 6. Persist the changes (infrastructure)
+ *
+ * Returns a Promise<Result<Account>>.
+ */
+export const updateAccountWorkflow = async (command: UpdateAccountCommand): Promise<Result<Account>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return authorization as Result<Account>
+
+  // Step 2: Pure validation
+  const changes: { name?: string; parentId?: string | null } = {}
+  if (command.name !== undefined) {
+    const nameValidation = validateAccountName(command.name)
+    if (!nameValidation.isSuccess) return nameValidation as Result<Account>
+    changes.name = nameValidation.value
+  }
+
+  // Step 3: Retrieve account
+  const accountResult = await findAccountById(command.userId, command.accountId)
+  if (!accountResult.isSuccess) return accountResult as Result<Account>
+
+  const account = accountResult.value
+  if (account === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as LedgerDomainSubtype,
+        `Account ${command.accountId} not found or does not belong to the user`
+      )
+    )
+  }
+
+  // Step 4: Reject code change
+  const codeValidation = validateAccountCodeUnchanged(account, command.code)
+  if (!codeValidation.isSuccess) return codeValidation
+
+  // Step 5: Validate new parent
+  if (command.parentId !== undefined) {
+    if (command.parentId !== null) {
+      const accountsResult = await listAccounts(command.userId)
+      if (!accountsResult.isSuccess) return accountsResult as Result<Account>
+
+      const parent = accountsResult.value.find(acc => acc.id === command.parentId)
+      if (!parent) {
+        return Failure(
+          DomainFailure(
+            'AccountNotFound' as LedgerDomainSubtype,
+            `Parent account ${command.parentId} not found or does not belong to the user`
+          )
+        )
+      }
+
+      const parentValidation = validateAccountParent(account, parent, accountsResult.value)
+      if (!parentValidation.isSuccess) return parentValidation
+    }
+    changes.parentId = command.parentId
+  }
+
+  // Step 6: Persist
+  return updateAccountDetails(account.id!, changes)
+}
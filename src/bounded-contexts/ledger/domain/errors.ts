@@ -15,10 +15,21 @@ export type LedgerDomainSubtype =
   | 'InvalidSide'
   | 'PeriodClosed'
   | 'ImmutableAccountCode'
+  | 'AccountArchived'
+  | 'AccountParentTypeMismatch'
+  | 'AccountHierarchyCycle'
+  | 'JournalEntryNotFound'
+  | 'JournalEntryAlreadyReversed'
+  | 'EntryOwnedByDocument'
+  | 'InvalidReversalDate'
+  | 'InvalidPostingRole'
+  | 'PostingAccountTypeMismatch'
+  | 'PostingMappingNotFound'
 
 export type LedgerInfrastructureSubtype =
   | 'AccountRepositoryError'
   | 'JournalEntryRepositoryError'
+  | 'PostingMappingRepositoryError'
   | 'DatabaseConnectionError'
   | 'DuplicateKey'
 
@@ -2,13 +2,22 @@ import { describe, it, expect } from 'vitest'
 import {
   validateAccountCode,
   validateAccountName,
+  validateAccountCodeUnchanged,
+  validateAccountNotArchived,
+  validateAccountParent,
+  buildAccountTree,
   validateAmount,
   validateJournalEntryBalanced,
   validateJournalEntryHasLines,
   validateJournalEntry,
+  validateJournalEntryReversible,
+  validateJournalEntryNotOwnedByDocument,
+  reverseJournalLines,
   AccountType,
   NormalBalance,
   JournalLineSide,
+  type Account,
+  type JournalEntry,
   type JournalLine,
 } from './ledger'
 
@@ -78,6 +87,131 @@ describe('Ledger Domain Validation Functions', () => {
     })
   })
 
+  describe('validateAccountCodeUnchanged', () => {
+    const account: Account = {
+      id: 'acc-1',
+      userId: 'user-1',
+      code: '101',
+      name: 'Cash',
+      type: AccountType.Asset,
+      normalBalance: NormalBalance.Debit,
+    }
+
+    it('should accept an update without a code', () => {
+      const result = validateAccountCodeUnchanged(account, undefined)
+      expect(result).toEqual({ isSuccess: true, value: account })
+    })
+
+    it('should accept the current code (ignoring surrounding whitespace)', () => {
+      const result = validateAccountCodeUnchanged(account, ' 101 ')
+      expect(result.isSuccess).toBe(true)
+    })
+
+    it('should reject a different code', () => {
+      const result = validateAccountCodeUnchanged(account, '102')
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('ImmutableAccountCode')
+      }
+    })
+  })
+
+  describe('validateAccountNotArchived', () => {
+    const account: Account = {
+      id: 'acc-1',
+      userId: 'user-1',
+      code: '101',
+      name: 'Cash',
+      type: AccountType.Asset,
+      normalBalance: NormalBalance.Debit,
+      archivedAt: null,
+    }
+
+    it('should accept an open account', () => {
+      const result = validateAccountNotArchived(account)
+      expect(result).toEqual({ isSuccess: true, value: account })
+    })
+
+    it('should reject an archived account', () => {
+      const result = validateAccountNotArchived({ ...account, archivedAt: new Date('2025-01-15T10:00:00Z') })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('AccountArchived')
+      }
+    })
+  })
+
+  describe('validateAccountParent', () => {
+    const makeAccount = (id: string, code: string, parentId: string | null = null, type: Account['type'] = AccountType.Asset): Account => ({
+      id,
+      userId: 'user-1',
+      code,
+      name: `Account ${code}`,
+      type,
+      normalBalance: NormalBalance.Debit,
+      parentId,
+    })
+    const bank = makeAccount('bank', '110')
+    const checking = makeAccount('checking', '110.1', 'bank')
+    const checkingSub = makeAccount('checking-sub', '110.1.1', 'checking')
+    const accounts = [bank, checking, checkingSub]
+
+    it('should accept a parent of the same type', () => {
+      const result = validateAccountParent({ type: AccountType.Asset }, bank, accounts)
+      expect(result).toEqual({ isSuccess: true, value: bank })
+    })
+
+    it('should reject a parent of another type', () => {
+      const revenue = makeAccount('revenue', '401', null, AccountType.Revenue)
+      const result = validateAccountParent({ type: AccountType.Asset }, revenue, accounts)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('AccountParentTypeMismatch')
+      }
+    })
+
+    it('should reject the account as its own parent', () => {
+      const result = validateAccountParent(bank, bank, accounts)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('AccountHierarchyCycle')
+      }
+    })
+
+    it('should reject one of its own descendants as parent', () => {
+      const result = validateAccountParent(bank, checkingSub, accounts)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('AccountHierarchyCycle')
+      }
+    })
+  })
+
+  describe('buildAccountTree', () => {
+    it('should nest sub-accounts under their parents, keeping input order', () => {
+      const base = { userId: 'user-1', type: AccountType.Asset, normalBalance: NormalBalance.Debit }
+      const accounts: Account[] = [
+        { ...base, id: 'cash', code: '101', name: 'Cash' },
+        { ...base, id: 'bank', code: '110', name: 'Bank Accounts' },
+        { ...base, id: 'checking', code: '110.1', name: 'Checking', parentId: 'bank' },
+        { ...base, id: 'savings', code: '110.2', name: 'Savings', parentId: 'bank' },
+      ]
+
+      const tree = buildAccountTree(accounts)
+
+      expect(tree.map(node => node.code)).toEqual(['101', '110'])
+      expect(tree[0].children).toEqual([])
+      expect(tree[1].children.map(node => node.code)).toEqual(['110.1', '110.2'])
+    })
+
+    it('should treat an account whose parent is missing as a root', () => {
+      const tree = buildAccountTree([
+        { id: 'orphan', userId: 'user-1', code: '110.1', name: 'Checking', type: AccountType.Asset, normalBalance: NormalBalance.Debit, parentId: 'gone' },
+      ])
+      expect(tree).toHaveLength(1)
+    })
+  })
+
   describe('validateAmount', () => {
     it('should accept a positive amount with two decimal places', () => {
       const result = validateAmount(123.45)
@@ -270,4 +404,70 @@ describe('Ledger Domain Validation Functions', () => {
       }
     })
   })
+
+  describe('validateJournalEntryReversible', () => {
+    const entry: JournalEntry = {
+      id: 'entry-1',
+      userId: 'user-1',
+      description: 'Cash sale',
+      date: new Date('2025-01-15T00:00:00Z'),
+      lines: [
+        { accountId: 'cash', amount: 500, side: JournalLineSide.Debit },
+        { accountId: 'revenue', amount: 500, side: JournalLineSide.Credit },
+      ],
+      reversesEntryId: null,
+      reversedByEntryId: null,
+    }
+
+    it('should accept a reversal on or after the entry date', () => {
+      expect(validateJournalEntryReversible(entry, new Date('2025-01-15T00:00:00Z')).isSuccess).toBe(true)
+      expect(validateJournalEntryReversible(entry, new Date('2025-02-01T00:00:00Z')).isSuccess).toBe(true)
+    })
+
+    it('should reject an entry that is already reversed', () => {
+      const result = validateJournalEntryReversible({ ...entry, reversedByEntryId: 'entry-2' }, new Date('2025-02-01T00:00:00Z'))
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('JournalEntryAlreadyReversed')
+      }
+    })
+
+    it('should reject a reversal dated before the entry', () => {
+      const result = validateJournalEntryReversible(entry, new Date('2025-01-14T00:00:00Z'))
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidReversalDate')
+      }
+    })
+
+    it('should accept an entry no document owns', () => {
+      expect(validateJournalEntryNotOwnedByDocument(entry, null).isSuccess).toBe(true)
+    })
+
+    it('should reject an entry posted by a document and point to the document workflows', () => {
+      const result = validateJournalEntryNotOwnedByDocument(entry, 'SalesInvoice')
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('EntryOwnedByDocument')
+        expect(result.error.message).toMatch(/sales invoice/)
+        expect(result.error.message).toMatch(/credit note/)
+      }
+    })
+  })
+
+  describe('reverseJournalLines', () => {
+    it('should swap every side and keep accounts and amounts', () => {
+      const lines: JournalLine[] = [
+        { id: 'line-1', accountId: 'cash', amount: 300, side: JournalLineSide.Debit },
+        { id: 'line-2', accountId: 'ar', amount: 200, side: JournalLineSide.Debit },
+        { id: 'line-3', accountId: 'revenue', amount: 500, side: JournalLineSide.Credit },
+      ]
+
+      expect(reverseJournalLines(lines)).toEqual([
+        { accountId: 'cash', amount: 300, side: 'Credit' },
+        { accountId: 'ar', amount: 200, side: 'Credit' },
+        { accountId: 'revenue', amount: 500, side: 'Debit' },
+      ])
+    })
+  })
 })
\ No newline at end of file
@@ -50,10 +50,17 @@ export type Account = {
   name: string
   type: AccountType
   normalBalance: NormalBalance
+  parentId?: string | null
+  archivedAt?: Date | null
   createdAt?: Date
   updatedAt?: Date
 }
 
+// An account with its sub-accounts, for the chart of accounts tree view
+export type AccountTreeNode = Account & {
+  children: AccountTreeNode[]
+}
+
 export type JournalLine = {
   id?: string
   accountId: string
@@ -68,10 +75,26 @@ export type JournalEntry = {
   description: string
   date: Date
   lines: JournalLine[]
+  reversesEntryId?: string | null // on a reversal: the entry it reverses
+  reversedByEntryId?: string | null // on a reversed entry: its reversal
   createdAt?: Date
   updatedAt?: Date
 }
 
+// The business documents that post their own journal entries (sales, purchasing and loans)
+export type SourceDocument =
+  | 'SalesInvoice'
+  | 'Payment'
+  | 'CashSale'
+  | 'CustomerDeposit'
+  | 'DepositApplication'
+  | 'CreditNote'
+  | 'VendorBill'
+  | 'BillPayment'
+  | 'Loan'
+  | 'LoanPayment'
+  | 'CashExpense'
+
 // --- Shared Predicates (reused) ---
 
 /**
@@ -102,6 +125,165 @@ export const validateAccountCode = (code: string): Result<string> => {
  */
 export const validateAccountName = validateStringLength(1, 100, 'InvalidAccountName' as LedgerDomainSubtype)
 
+/**
+ * Validate that an update leaves the account code as it is.
+ * Codes are immutable once created; only the name can change. Resending the current code is allowed.
+ */
+export const validateAccountCodeUnchanged = (account: Account, code?: string): Result<Account> => {
+  if (code !== undefined && code.trim() !== account.code) {
+    return Failure(
+      DomainFailure(
+        'ImmutableAccountCode' as LedgerDomainSubtype,
+        `Account code ${account.code} cannot be changed; rename the account or create a new one.`
+      )
+    )
+  }
+  return Success(account)
+}
+
+/**
+ * Validate that an account is open for new journal lines (not archived).
+ */
+export const validateAccountNotArchived = (account: Account): Result<Account> => {
+  if (account.archivedAt) {
+    return Failure(
+      DomainFailure(
+        'AccountArchived' as LedgerDomainSubtype,
+        `Account ${account.code} (${account.name}) is archived and cannot take new lines.`
+      )
+    )
+  }
+  return Success(account)
+}
+
+/**
+ * Validate a parent account for an account (new or existing).
+ * The parent must have the same type, and must not be the account itself or one of its descendants.
+ * `accounts` is the user's chart of accounts, used to walk up the parent chain.
+ */
+export const validateAccountParent = (
+  account: Pick<Account, 'id' | 'type'>,
+  parent: Account,
+  accounts: Account[]
+): Result<Account> => {
+  if (parent.type !== account.type) {
+    return Failure(
+      DomainFailure(
+        'AccountParentTypeMismatch' as LedgerDomainSubtype,
+        `Parent account ${parent.code} is ${parent.type}; a sub-account must have the same type (${account.type}).`
+      )
+    )
+  }
+
+  // Walk up from the parent; reaching the account means the link would close a cycle
+  const byId = new Map(accounts.map(acc => [acc.id, acc]))
+  const visited = new Set<string>()
+  let current: Account | undefined = parent
+  while (current && current.id && !visited.has(current.id)) {
+    if (account.id && current.id === account.id) {
+      return Failure(
+        DomainFailure(
+          'AccountHierarchyCycle' as LedgerDomainSubtype,
+          `Account ${parent.code} cannot be the parent: it is the account itself or one of its sub-accounts.`
+        )
+      )
+    }
+    visited.add(current.id)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return Success(parent)
+}
+
+/**
+ * Arrange a flat chart of accounts into a tree of parents and sub-accounts.
+ * Input order is kept among siblings; accounts whose parent is missing become roots.
+ */
+export const buildAccountTree = (accounts: Account[]): AccountTreeNode[] => {
+  const nodes = new Map<string, AccountTreeNode>(
+    accounts.map(acc => [acc.id!, { ...acc, children: [] }])
+  )
+  const roots: AccountTreeNode[] = []
+  for (const acc of accounts) {
+    const node = nodes.get(acc.id!)!
+    const parent = acc.parentId ? nodes.get(acc.parentId) : undefined
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+  return roots
+}
+
+/**
+ * Validate that a journal entry can be reversed on the given date.
+ * An entry is reversed at most once, and never before its own date.
+ */
+export const validateJournalEntryReversible = (entry: JournalEntry, reversalDate: Date): Result<JournalEntry> => {
+  if (entry.reversedByEntryId) {
+    return Failure(
+      DomainFailure(
+        'JournalEntryAlreadyReversed' as LedgerDomainSubtype,
+        `Journal entry ${entry.id} is already reversed by entry ${entry.reversedByEntryId}.`
+      )
+    )
+  }
+  if (reversalDate < entry.date) {
+    return Failure(
+      DomainFailure(
+        'InvalidReversalDate' as LedgerDomainSubtype,
+        `Reversal date cannot be before the original entry date (${entry.date.toISOString()}).`
+      )
+    )
+  }
+  return Success(entry)
+}
+
+const SOURCE_DOCUMENT_NAMES: Record<SourceDocument, string> = {
+  SalesInvoice: 'sales invoice',
+  Payment: 'invoice payment',
+  CashSale: 'cash sale',
+  CustomerDeposit: 'customer deposit',
+  DepositApplication: 'deposit application',
+  CreditNote: 'credit note',
+  VendorBill: 'vendor bill',
+  BillPayment: 'bill payment',
+  Loan: 'loan',
+  LoanPayment: 'loan payment',
+  CashExpense: 'cash expense',
+}
+
+/**
+ * Validate that a journal entry was not posted by a business document. Such an entry is corrected
+ * through the document's own workflow; reversing it alone would leave the document out of step with the ledger.
+ */
+export const validateJournalEntryNotOwnedByDocument = (
+  entry: JournalEntry,
+  sourceDocument: SourceDocument | null
+): Result<JournalEntry> => {
+  if (sourceDocument !== null) {
+    const documentName = SOURCE_DOCUMENT_NAMES[sourceDocument]
+    return Failure(
+      DomainFailure(
+        'EntryOwnedByDocument' as LedgerDomainSubtype,
+        `Journal entry ${entry.id} was posted by a ${documentName} and cannot be reversed on its own. ` +
+          'Correct the document instead, e.g. void the sales invoice or issue a credit note against it.'
+      )
+    )
+  }
+  return Success(entry)
+}
+
+/**
+ * Mirror journal lines for a reversal: same accounts and amounts, every Debit/Credit swapped.
+ */
+export const reverseJournalLines = (lines: JournalLine[]): JournalLine[] =>
+  lines.map(line => ({
+    accountId: line.accountId,
+    amount: line.amount,
+    side: line.side === 'Debit' ? 'Credit' : 'Debit',
+  }))
+
 /**
  * Validate amount (positive, up to two decimals).
  */
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+  validatePostingRole,
+  validatePostingAccount,
+  buildPostingConfiguration,
+  POSTING_ROLES,
+  DEFAULT_POSTING_ACCOUNT_CODES,
+  type PostingMapping,
+} from './postingConfiguration'
+import type { Account } from './ledger'
+
+const account = (overrides: Partial<Account>): Account => ({
+  id: 'acc-1',
+  userId: 'user-1',
+  code: '101',
+  name: 'Cash',
+  type: 'Asset',
+  normalBalance: 'Debit',
+  ...overrides,
+})
+
+describe('Posting Configuration Domain', () => {
+  describe('validatePostingRole', () => {
+    it('should accept every known role', () => {
+      POSTING_ROLES.forEach(role => {
+        expect(validatePostingRole(role)).toEqual({ isSuccess: true, value: role })
+      })
+    })
+
+    it('should reject an unknown role', () => {
+      const result = validatePostingRole('Payroll')
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidPostingRole')
+      }
+    })
+
+    it('should reject a non-string role', () => {
+      expect(validatePostingRole(42).isSuccess).toBe(false)
+    })
+  })
+
+  describe('validatePostingAccount', () => {
+    it('should accept an account of the type the role requires', () => {
+      const cash = account({ code: '1010', name: 'Checking' })
+      expect(validatePostingAccount('Cash', cash)).toEqual({ isSuccess: true, value: cash })
+    })
+
+    it('should accept an expense account for InterestExpense and DefaultExpense', () => {
+      const expense = account({ code: '6200', name: 'Bank Charges', type: 'Expense' })
+      expect(validatePostingAccount('InterestExpense', expense).isSuccess).toBe(true)
+      expect(validatePostingAccount('DefaultExpense', expense).isSuccess).toBe(true)
+    })
+
+    it('should reject an account of another type', () => {
+      const revenue = account({ code: '401', name: 'Service Revenue', type: 'Revenue', normalBalance: 'Credit' })
+      const result = validatePostingAccount('AccountsPayable', revenue)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('PostingAccountTypeMismatch')
+        expect(result.error.message).toContain('Liability')
+      }
+    })
+
+    it('should reject an archived account', () => {
+      const archived = account({ archivedAt: new Date('2025-01-01') })
+      const result = validatePostingAccount('Cash', archived)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('AccountArchived')
+      }
+    })
+  })
+
+  describe('buildPostingConfiguration', () => {
+    const accounts: Account[] = [
+      account({ id: 'cash', code: '101', name: 'Cash' }),
+      account({ id: 'checking', code: '1010', name: 'Checking' }),
+      account({ id: 'revenue', code: '401', name: 'Service Revenue', type: 'Revenue', normalBalance: 'Credit' }),
+    ]
+
+    it('should resolve every role, in role order', () => {
+      const configuration = buildPostingConfiguration([], accounts)
+      expect(configuration.map(entry => entry.role)).toEqual([...POSTING_ROLES])
+    })
+
+    it('should fall back to the default code for unmapped roles', () => {
+      const configuration = buildPostingConfiguration([], accounts)
+      const cash = configuration.find(entry => entry.role === 'Cash')!
+      expect(cash.source).toBe('Default')
+      expect(cash.defaultCode).toBe(DEFAULT_POSTING_ACCOUNT_CODES.Cash)
+      expect(cash.accountType).toBe('Asset')
+      expect(cash.account?.id).toBe('cash')
+    })
+
+    it('should use the mapped account for mapped roles', () => {
+      const mappings: PostingMapping[] = [{ userId: 'user-1', role: 'Cash', accountId: 'checking' }]
+      const configuration = buildPostingConfiguration(mappings, accounts)
+      const cash = configuration.find(entry => entry.role === 'Cash')!
+      expect(cash.source).toBe('Mapped')
+      expect(cash.account?.code).toBe('1010')
+    })
+
+    it('should report a null account when the default code is missing', () => {
+      const configuration = buildPostingConfiguration([], accounts)
+      const payable = configuration.find(entry => entry.role === 'AccountsPayable')!
+      expect(payable.source).toBe('Default')
+      expect(payable.account).toBeNull()
+    })
+  })
+})
\ No newline at end of file
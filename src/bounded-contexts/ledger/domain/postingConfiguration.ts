@@ -0,0 +1,129 @@
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { LedgerDomainSubtype } from './errors'
+import { Account, AccountType, validateAccountNotArchived } from './ledger'
+import { DEFAULT_ACCOUNT_CODES } from './defaultAccounts'
+
+// Value Objects
+// The accounts a workflow posts to, by the part they play (string union matching the Prisma enum)
+export type PostingRole =
+  | 'Cash'               // cash received and paid
+  | 'AccountsReceivable' // invoices, payments and deposit applications
+  | 'AccountsPayable'    // vendor bills and bill payments
+  | 'NotesPayable'       // loan proceeds and principal repayments
+  | 'UnearnedRevenue'    // customer deposits
+  | 'DefaultRevenue'     // invoices and cash sales
+  | 'DefaultExpense'     // vendor bills and cash expenses
+  | 'InterestExpense'    // interest on loan payments
+
+export const POSTING_ROLES: readonly PostingRole[] = [
+  'Cash',
+  'AccountsReceivable',
+  'AccountsPayable',
+  'NotesPayable',
+  'UnearnedRevenue',
+  'DefaultRevenue',
+  'DefaultExpense',
+  'InterestExpense',
+]
+
+// The account type each role must be mapped to
+export const POSTING_ROLE_ACCOUNT_TYPES: Record<PostingRole, AccountType> = {
+  Cash: 'Asset',
+  AccountsReceivable: 'Asset',
+  AccountsPayable: 'Liability',
+  NotesPayable: 'Liability',
+  UnearnedRevenue: 'Liability',
+  DefaultRevenue: 'Revenue',
+  DefaultExpense: 'Expense',
+  InterestExpense: 'Expense',
+}
+
+// The default chart of accounts code a role falls back to while it is not mapped
+export const DEFAULT_POSTING_ACCOUNT_CODES: Record<PostingRole, string> = {
+  Cash: DEFAULT_ACCOUNT_CODES.CASH,
+  AccountsReceivable: DEFAULT_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE,
+  AccountsPayable: DEFAULT_ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+  NotesPayable: DEFAULT_ACCOUNT_CODES.NOTES_PAYABLE,
+  UnearnedRevenue: DEFAULT_ACCOUNT_CODES.UNEARNED_REVENUE,
+  DefaultRevenue: DEFAULT_ACCOUNT_CODES.SERVICE_REVENUE,
+  DefaultExpense: DEFAULT_ACCOUNT_CODES.SALARIES_EXPENSE,
+  InterestExpense: DEFAULT_ACCOUNT_CODES.INTEREST_EXPENSE,
+}
+
+// Entity
+export type PostingMapping = {
+  id?: string
+  userId: string
+  role: PostingRole
+  accountId: string
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+// One row of a user's resolved posting configuration
+export type PostingConfigurationEntry = {
+  role: PostingRole
+  accountType: AccountType // the type the role requires
+  defaultCode: string
+  source: 'Mapped' | 'Default' // Mapped: the user chose the account; Default: looked up by defaultCode
+  account: Account | null // null when unmapped and the user has no account with the default code
+}
+
+// --- Pure Validations ---
+
+/**
+ * Validates a posting role supplied by a client.
+ * Returns Success(role) or Failure(DomainFailure) with subtype InvalidPostingRole.
+ */
+export const validatePostingRole = (input: unknown): Result<PostingRole> =>
+  POSTING_ROLES.includes(input as PostingRole)
+    ? Success(input as PostingRole)
+    : Failure(
+        DomainFailure(
+          'InvalidPostingRole' as LedgerDomainSubtype,
+          `Posting role must be one of: ${POSTING_ROLES.join(', ')}.`
+        )
+      )
+
+/**
+ * Validates that an account can be mapped to a role: it must have the role's account type
+ * and must not be archived.
+ */
+export const validatePostingAccount = (role: PostingRole, account: Account): Result<Account> => {
+  const expectedType = POSTING_ROLE_ACCOUNT_TYPES[role]
+  if (account.type !== expectedType) {
+    return Failure(
+      DomainFailure(
+        'PostingAccountTypeMismatch' as LedgerDomainSubtype,
+        `Account ${account.code} is ${account.type}; the ${role} role requires an ${expectedType} account.`
+      )
+    )
+  }
+  return validateAccountNotArchived(account)
+}
+
+// --- Calculations ---
+
+/**
+ * Resolve every posting role against the user's mappings and chart of accounts.
+ * A mapped role uses its mapped account; an unmapped role uses the account with its default code, if any.
+ */
+export const buildPostingConfiguration = (
+  mappings: PostingMapping[],
+  accounts: Account[]
+): PostingConfigurationEntry[] =>
+  POSTING_ROLES.map(role => {
+    const mapping = mappings.find(m => m.role === role)
+    const defaultCode = DEFAULT_POSTING_ACCOUNT_CODES[role]
+    const account = mapping
+      ? accounts.find(acc => acc.id === mapping.accountId)
+      : accounts.find(acc => acc.code === defaultCode)
+    return {
+      role,
+      accountType: POSTING_ROLE_ACCOUNT_TYPES[role],
+      defaultCode,
+      source: mapping ? 'Mapped' as const : 'Default' as const,
+      account: account ?? null,
+    }
+  })
\ No newline at end of file
@@ -20,6 +20,7 @@ describe('Ledger Context: Account Repository (Infrastructure)', () => {
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.period.deleteMany()
     await prisma.user.deleteMany()
 
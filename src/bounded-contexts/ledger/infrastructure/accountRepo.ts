@@ -49,6 +49,8 @@ const toDomainAccount = (prismaAccount: any): Account => ({
   name: prismaAccount.name,
   type: prismaAccount.type as AccountType,
   normalBalance: prismaAccount.normalBalance as NormalBalance,
+  parentId: prismaAccount.parentId ?? null,
+  archivedAt: prismaAccount.archivedAt ?? null,
   createdAt: prismaAccount.createdAt,
   updatedAt: prismaAccount.updatedAt,
 })
@@ -64,6 +66,7 @@ export const createAccount = (account: Omit<Account, 'id' | 'createdAt' | 'updat
       name: account.name,
       type: account.type,
       normalBalance: account.normalBalance,
+      parentId: account.parentId ?? null,
     },
   })
   return safeDbCall(action).then(result =>
@@ -114,4 +117,36 @@ export const listAccounts = (userId: string): Promise<Result<Account[]>> => {
       ? Success(result.value.map(toDomainAccount))
       : result
   )
-}
\ No newline at end of file
+}
+/**
+ * Update an account's name and/or parent account (the code is never updated).
+ */
+export const updateAccountDetails = (
+  accountId: string,
+  changes: { name?: string; parentId?: string | null }
+): Promise<Result<Account>> => {
+  const action = prisma.account.update({
+    where: { id: accountId },
+    data: changes,
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainAccount(result.value))
+      : result
+  )
+}
+
+/**
+ * Set or clear an account's archive timestamp.
+ */
+export const setAccountArchivedAt = (accountId: string, archivedAt: Date | null): Promise<Result<Account>> => {
+  const action = prisma.account.update({
+    where: { id: accountId },
+    data: { archivedAt },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainAccount(result.value))
+      : result
+  )
+}
@@ -25,6 +25,7 @@ describe('Ledger Context: Journal Entry Repository (Infrastructure)', () => {
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.period.deleteMany()
     await prisma.user.deleteMany()
   })
@@ -261,6 +262,30 @@ describe('Ledger Context: Journal Entry Repository (Infrastructure)', () => {
     }
   })
 
+  it('should reject a line on an archived account', async () => {
+    const user = await createTestUser('user-archived', 'archiveduser')
+    const cashAccount = await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    const revenueAccount = await createTestAccount(user.id, '401', 'Service Revenue', 'Revenue', 'Credit')
+    await prisma.account.update({ where: { id: revenueAccount.id }, data: { archivedAt: new Date() } })
+
+    const result = await createJournalEntry({
+      userId: user.id,
+      description: 'Cash sale',
+      date: new Date('2025-01-15'),
+      lines: [
+        { accountId: cashAccount.id, amount: 500, side: 'Debit' as const },
+        { accountId: revenueAccount.id, amount: 500, side: 'Credit' as const }
+      ]
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.type).toBe('DomainFailure')
+      expect(result.error.subtype).toBe('AccountArchived')
+    }
+    expect(await prisma.journalEntry.count({ where: { userId: user.id } })).toBe(0)
+  })
+
   it('should handle foreign key constraint error when account does not exist', async () => {
     const user = await createTestUser('user-fk', 'fkuser')
     const fakeAccountId = '550e8400-e29b-41d4-a716-446655440000'
@@ -1,8 +1,9 @@
 import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
 import { Prisma } from '@/prisma/client'
-import { JournalEntry, JournalLine, JournalLineSide } from '../domain/ledger'
+import { JournalEntry, JournalLine, JournalLineSide, SourceDocument, validateAccountNotArchived } from '../domain/ledger'
 import { LedgerInfrastructureSubtype } from '../domain/errors'
 import { fromNullable, getOrElse } from '@/common/types/option'
 
@@ -12,8 +13,17 @@ const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
     return Success(data)
   } catch (e: any) {
     if (e instanceof Prisma.PrismaClientKnownRequestError) {
-      // P2002 is duplicate key, but journal entries don't have unique constraints except id
+      // P2002 is duplicate key: an entry can only be reversed once (unique reversesEntryId)
       // P2003 foreign key constraint fails (accountId missing)
+      if (e.code === 'P2002') {
+        return Failure(
+          InfrastructureFailure(
+            'DuplicateKey' as LedgerInfrastructureSubtype,
+            'Journal entry is already reversed.',
+            e
+          )
+        )
+      }
       if (e.code === 'P2003') {
         return Failure(
           InfrastructureFailure(
@@ -58,35 +68,49 @@ const toDomainJournalEntry = (prismaEntry: any): JournalEntry => ({
   description: prismaEntry.description,
   date: prismaEntry.date,
   lines: prismaEntry.lines.map(toDomainJournalLine),
+  reversesEntryId: prismaEntry.reversesEntryId ?? null,
+  reversedByEntryId: prismaEntry.reversedBy?.id ?? null,
   createdAt: prismaEntry.createdAt,
   updatedAt: prismaEntry.updatedAt,
 })
 
 /**
  * Create a new journal entry with its lines in the database.
- * Uses a transaction to ensure atomicity.
+ * The entry and its lines are written in one nested create, so they persist atomically;
+ * pass a unit-of-work client to make the entry part of a larger transaction.
+ * Every workflow posts through here, so a line on an archived account is rejected here (AccountArchived).
  */
-export const createJournalEntry = (entry: Omit<JournalEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<Result<JournalEntry>> => {
-  const action = prisma.$transaction(async (tx) => {
-    const createdEntry = await tx.journalEntry.create({
-      data: {
-        userId: entry.userId,
-        entryNumber: entry.entryNumber,
-        description: entry.description,
-        date: entry.date,
-        lines: {
-          create: entry.lines.map(line => ({
-            accountId: line.accountId,
-            amount: line.amount,
-            side: line.side,
-          })),
-        },
-      },
-      include: {
-        lines: true,
+export const createJournalEntry = async (entry: Omit<JournalEntry, 'id' | 'createdAt' | 'updatedAt'>, db: DbClient = prisma): Promise<Result<JournalEntry>> => {
+  const archivedResult = await safeDbCall(db.account.findFirst({
+    where: {
+      id: { in: entry.lines.map(line => line.accountId) },
+      archivedAt: { not: null },
+    },
+  }))
+  if (!archivedResult.isSuccess) return archivedResult
+  if (archivedResult.value !== null) {
+    return validateAccountNotArchived(archivedResult.value) as Result<JournalEntry>
+  }
+
+  const action = db.journalEntry.create({
+    data: {
+      userId: entry.userId,
+      entryNumber: entry.entryNumber,
+      description: entry.description,
+      date: entry.date,
+      reversesEntryId: entry.reversesEntryId ?? null,
+      lines: {
+        create: entry.lines.map(line => ({
+          accountId: line.accountId,
+          amount: line.amount,
+          side: line.side,
+        })),
       },
-    })
-    return createdEntry
+    },
+    include: {
+      lines: true,
+      reversedBy: { select: { id: true } },
+    },
   })
   return safeDbCall(action).then(result =>
     result.isSuccess
@@ -101,7 +125,7 @@ export const createJournalEntry = (entry: Omit<JournalEntry, 'id' | 'createdAt'
 export const findJournalEntryById = (userId: string, entryId: string): Promise<Result<JournalEntry | null>> => {
   const action = prisma.journalEntry.findFirst({
     where: { id: entryId, userId },
-    include: { lines: true },
+    include: { lines: true, reversedBy: { select: { id: true } } },
   })
   return safeDbCall(action).then(result =>
     result.isSuccess
@@ -116,7 +140,7 @@ export const findJournalEntryById = (userId: string, entryId: string): Promise<R
 export const listJournalEntries = (userId: string, options?: { skip?: number; take?: number }): Promise<Result<JournalEntry[]>> => {
   const action = prisma.journalEntry.findMany({
     where: { userId },
-    include: { lines: true },
+    include: { lines: true, reversedBy: { select: { id: true } } },
     orderBy: { date: 'desc' },
     skip: options?.skip,
     take: options?.take,
@@ -126,4 +150,48 @@ export const listJournalEntries = (userId: string, options?: { skip?: number; ta
       ? Success(result.value.map(toDomainJournalEntry))
       : result
   )
+}
+
+/**
+ * Find the business document that posted a journal entry (null for manual entries and reversals,
+ * and when the entry does not exist or belongs to another user).
+ */
+export const findJournalEntrySourceDocument = (userId: string, entryId: string): Promise<Result<SourceDocument | null>> => {
+  const documentId = { select: { id: true } }
+  const action = prisma.journalEntry.findFirst({
+    where: { id: entryId, userId },
+    select: {
+      salesInvoice: documentId,
+      payment: documentId,
+      cashSale: documentId,
+      customerDeposit: documentId,
+      depositApplication: documentId,
+      creditNote: documentId,
+      vendorBill: documentId,
+      billPayment: documentId,
+      loan: documentId,
+      loanPayment: documentId,
+      cashExpense: documentId,
+    },
+  })
+  return safeDbCall(action).then(result => {
+    if (!result.isSuccess) return result
+    const entry = result.value
+    if (entry === null) return Success(null)
+    const documents: [unknown, SourceDocument][] = [
+      [entry.salesInvoice, 'SalesInvoice'],
+      [entry.payment, 'Payment'],
+      [entry.cashSale, 'CashSale'],
+      [entry.customerDeposit, 'CustomerDeposit'],
+      [entry.depositApplication, 'DepositApplication'],
+      [entry.creditNote, 'CreditNote'],
+      [entry.vendorBill, 'VendorBill'],
+      [entry.billPayment, 'BillPayment'],
+      [entry.loan, 'Loan'],
+      [entry.loanPayment, 'LoanPayment'],
+      [entry.cashExpense, 'CashExpense'],
+    ]
+    const owner = documents.find(([document]) => document !== null)
+    return Success(owner ? owner[1] : null)
+  })
 }
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { upsertPostingMapping, findPostingMapping, listPostingMappings, deletePostingMapping, findPostingAccount } from './postingMappingRepo'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Ledger Context: Posting Mapping Repository (Infrastructure)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up the database before every test to ensure isolation
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.postingMapping.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  // Disconnect after all tests are done
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string = 'test_user_mapping') => {
+    const user = await prisma.user.create({ data: { username } })
+    return user.id
+  }
+
+  const createTestAccount = async (userId: string, code: string, name: string) => {
+    const account = await prisma.account.create({
+      data: { userId, code, name, type: 'Asset', normalBalance: 'Debit' }
+    })
+    return account.id
+  }
+
+  it('should create, replace and find a mapping', async () => {
+    const userId = await createTestUser()
+    const checkingId = await createTestAccount(userId, '1010', 'Checking')
+    const savingsId = await createTestAccount(userId, '1020', 'Savings')
+
+    const created = await upsertPostingMapping(userId, 'Cash', checkingId)
+    expect(created.isSuccess).toBe(true)
+
+    const replaced = await upsertPostingMapping(userId, 'Cash', savingsId)
+    expect(replaced.isSuccess).toBe(true)
+    if (created.isSuccess && replaced.isSuccess) {
+      expect(replaced.value.id).toBe(created.value.id)
+    }
+
+    const found = await findPostingMapping(userId, 'Cash')
+    expect(found.isSuccess).toBe(true)
+    if (found.isSuccess) {
+      expect(found.value?.accountId).toBe(savingsId)
+    }
+  })
+
+  it('should list only the user\'s own mappings', async () => {
+    const userId = await createTestUser()
+    const otherId = await createTestUser('other_user')
+    await upsertPostingMapping(userId, 'Cash', await createTestAccount(userId, '1010', 'Checking'))
+    await upsertPostingMapping(userId, 'AccountsReceivable', await createTestAccount(userId, '1200', 'Trade Receivables'))
+    await upsertPostingMapping(otherId, 'Cash', await createTestAccount(otherId, '1010', 'Checking'))
+
+    const result = await listPostingMappings(userId)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value).toHaveLength(2)
+      expect(result.value.every(mapping => mapping.userId === userId)).toBe(true)
+    }
+  })
+
+  it('should delete a mapping and report how many rows were removed', async () => {
+    const userId = await createTestUser()
+    await upsertPostingMapping(userId, 'Cash', await createTestAccount(userId, '1010', 'Checking'))
+
+    const deleted = await deletePostingMapping(userId, 'Cash')
+    expect(deleted).toEqual({ isSuccess: true, value: 1 })
+
+    const deletedAgain = await deletePostingMapping(userId, 'Cash')
+    expect(deletedAgain).toEqual({ isSuccess: true, value: 0 })
+  })
+
+  it('should find the mapped posting account, or the default-code account when unmapped', async () => {
+    const userId = await createTestUser()
+    const cashId = await createTestAccount(userId, '101', 'Cash')
+    const checkingId = await createTestAccount(userId, '1010', 'Checking')
+
+    const unmapped = await findPostingAccount(userId, 'Cash')
+    expect(unmapped.isSuccess).toBe(true)
+    if (unmapped.isSuccess) {
+      expect(unmapped.value?.id).toBe(cashId)
+    }
+
+    await upsertPostingMapping(userId, 'Cash', checkingId)
+    const mapped = await findPostingAccount(userId, 'Cash')
+    expect(mapped.isSuccess).toBe(true)
+    if (mapped.isSuccess) {
+      expect(mapped.value?.id).toBe(checkingId)
+    }
+
+    const missing = await findPostingAccount(userId, 'AccountsPayable')
+    expect(missing).toEqual({ isSuccess: true, value: null })
+  })
+
+  it('should drop a mapping when its account is deleted', async () => {
+    const userId = await createTestUser()
+    const checkingId = await createTestAccount(userId, '1010', 'Checking')
+    await upsertPostingMapping(userId, 'Cash', checkingId)
+
+    await prisma.account.delete({ where: { id: checkingId } })
+
+    const found = await findPostingMapping(userId, 'Cash')
+    expect(found).toEqual({ isSuccess: true, value: null })
+  })
+})
\ No newline at end of file
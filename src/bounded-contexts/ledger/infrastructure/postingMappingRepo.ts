@@ -0,0 +1,106 @@
+import { prisma } from '@/common/infrastructure/db'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Account } from '../domain/ledger'
+import { PostingMapping, PostingRole, DEFAULT_POSTING_ACCOUNT_CODES } from '../domain/postingConfiguration'
+import { LedgerInfrastructureSubtype } from '../domain/errors'
+import { findAccountById, findAccountByCode } from './accountRepo'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
+  try {
+    const data = await promise
+    return Success(data)
+  } catch (e: any) {
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(
+      InfrastructureFailure(
+        'PostingMappingRepositoryError' as LedgerInfrastructureSubtype,
+        errorMessage,
+        e
+      )
+    )
+  }
+}
+
+// Mapper from Prisma model to domain PostingMapping
+const toDomainPostingMapping = (prismaMapping: any): PostingMapping => ({
+  id: prismaMapping.id,
+  userId: prismaMapping.userId,
+  role: prismaMapping.role as PostingRole,
+  accountId: prismaMapping.accountId,
+  createdAt: prismaMapping.createdAt,
+  updatedAt: prismaMapping.updatedAt,
+})
+
+/**
+ * Map a posting role to an account, replacing the role's previous mapping if there is one.
+ */
+export const upsertPostingMapping = (userId: string, role: PostingRole, accountId: string): Promise<Result<PostingMapping>> => {
+  const action = prisma.postingMapping.upsert({
+    where: { userId_role: { userId, role } },
+    create: { userId, role, accountId },
+    update: { accountId },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainPostingMapping(result.value))
+      : result
+  )
+}
+
+/**
+ * Find a user's mapping for a posting role.
+ */
+export const findPostingMapping = (userId: string, role: PostingRole): Promise<Result<PostingMapping | null>> => {
+  const action = prisma.postingMapping.findUnique({
+    where: { userId_role: { userId, role } },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainPostingMapping(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * List all of a user's posting mappings.
+ */
+export const listPostingMappings = (userId: string): Promise<Result<PostingMapping[]>> => {
+  const action = prisma.postingMapping.findMany({
+    where: { userId },
+    orderBy: { role: 'asc' },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(toDomainPostingMapping))
+      : result
+  )
+}
+
+/**
+ * Remove a user's mapping for a posting role. Returns the number of rows deleted.
+ */
+export const deletePostingMapping = (userId: string, role: PostingRole): Promise<Result<number>> => {
+  const action = prisma.postingMapping.deleteMany({
+    where: { userId, role },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.count)
+      : result
+  )
+}
+
+/**
+ * Find the account a workflow posts to for a role: the user's mapped account,
+ * or, while the role is unmapped, the account with the role's default code.
+ */
+export const findPostingAccount = async (userId: string, role: PostingRole): Promise<Result<Account | null>> => {
+  const mappingResult = await findPostingMapping(userId, role)
+  if (!mappingResult.isSuccess) return mappingResult
+
+  return mappingResult.value
+    ? findAccountById(userId, mappingResult.value.accountId)
+    : findAccountByCode(userId, DEFAULT_POSTING_ACCOUNT_CODES[role])
+}
\ No newline at end of file
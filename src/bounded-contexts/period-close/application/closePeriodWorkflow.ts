@@ -3,10 +3,12 @@ import { DomainFailure, ApplicationFailure } from '@/common/types/errors'
 import { PeriodCloseDomainSubtype, PeriodCloseApplicationSubtype } from '../domain/errors'
 import { Period, validatePeriodIsOpen, validatePeriodCanBeClosed } from '../domain/period'
 import { findPeriodById, updatePeriod } from '../infrastructure/periodRepo'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 // Command: input from API
 export type ClosePeriodCommand = {
   userId: string
+  actingUserId?: string // defaults to userId (the book owner)
   periodId: string
 }
 
@@ -25,11 +27,19 @@ const validateCommand = (command: ClosePeriodCommand): Result<ClosePeriodCommand
 
 // Close period workflow
 export const closePeriodWorkflow = async (command: ClosePeriodCommand): Promise<Result<Period>> => {
-  // Step 1: Validate command
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManagePeriods',
+  })
+  if (!authorization.isSuccess) return authorization as Result<Period>
+
+  // Step 2: Validate command
   const validationResult = validateCommand(command)
   if (!validationResult.isSuccess) return validationResult as Result<Period>
 
-  // Step 2: Retrieve period
+  // Step 3: Retrieve period
   const periodResult = await findPeriodById(command.userId, command.periodId)
   if (!periodResult.isSuccess) return periodResult as Result<Period>
 
@@ -43,14 +53,14 @@ export const closePeriodWorkflow = async (command: ClosePeriodCommand): Promise<
     )
   }
 
-  // Step 3: Domain validation (period is open, can be closed)
+  // Step 4: Domain validation (period is open, can be closed)
   const openValidation = validatePeriodIsOpen(period)
   if (!openValidation.isSuccess) return openValidation
 
   const canCloseValidation = validatePeriodCanBeClosed(period)
   if (!canCloseValidation.isSuccess) return canCloseValidation
 
-  // Step 4: Update period status to closed and set closedAt
+  // Step 5: Update period status to closed and set closedAt
   const updatedPeriod = await updatePeriod(command.userId, command.periodId, {
     status: 'Closed',
     closedAt: new Date(),
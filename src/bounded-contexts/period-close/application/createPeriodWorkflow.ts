@@ -4,10 +4,12 @@ import { PeriodCloseDomainSubtype } from '../domain/errors'
 import { Period } from '../domain/period'
 import { validatePeriodName, validatePeriodDateRange } from '../domain/period'
 import { createPeriod as createPeriodRepo } from '../infrastructure/periodRepo'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 // Command: input from API
 export type CreatePeriodCommand = {
   userId: string
+  actingUserId?: string // defaults to userId (the book owner)
   name: string
   startDate: string // ISO string
   endDate: string   // ISO string
@@ -40,11 +42,19 @@ const validateCommand = (command: CreatePeriodCommand): Result<CreatePeriodComma
 
 // Create period workflow
 export const createPeriodWorkflow = async (command: CreatePeriodCommand): Promise<Result<Period>> => {
-  // Step 1: Validate command
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManagePeriods',
+  })
+  if (!authorization.isSuccess) return authorization as Result<Period>
+
+  // Step 2: Validate command
   const validationResult = validateCommand(command)
   if (!validationResult.isSuccess) return validationResult as Result<Period>
 
-  // Step 2: Build domain entity
+  // Step 3: Build domain entity
   const periodToCreate: Omit<Period, 'id' | 'createdAt' | 'updatedAt'> = {
     userId: command.userId,
     name: command.name,
@@ -53,6 +63,6 @@ export const createPeriodWorkflow = async (command: CreatePeriodCommand): Promis
     status: 'Open',
   }
 
-  // Step 3: Persist via repository
+  // Step 4: Persist via repository
   return createPeriodRepo(periodToCreate)
 }
\ No newline at end of file
@@ -28,6 +28,7 @@ describe('PeriodClose Context: Post Manual Journal Entry Workflow (Integration)'
     await prisma.period.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -4,6 +4,7 @@ import { PeriodCloseDomainSubtype, PeriodCloseApplicationSubtype } from '../doma
 import { listPeriods } from '../infrastructure/periodRepo'
 import { postJournalEntryWorkflow } from '@/bounded-contexts/ledger/application/postJournalEntryWorkflow'
 import type { PostJournalEntryCommand } from '@/bounded-contexts/ledger/application/postJournalEntryWorkflow'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 export type PostManualJournalEntryCommand = PostJournalEntryCommand // same structure
 
@@ -35,7 +36,11 @@ const validateCommand = (command: PostManualJournalEntryCommand): Result<PostMan
   return Success(command)
 }
 
-const validateDateInOpenPeriod = async (userId: string, date: Date): Promise<Result<null>> => {
+/**
+ * Validate that a date falls within one of the user's open periods.
+ * Shared with other workflows that post corrections (e.g. journal entry reversals).
+ */
+export const validateDateInOpenPeriod = async (userId: string, date: Date): Promise<Result<null>> => {
   const periodsResult = await listPeriods(userId, { status: 'Open' })
   if (!periodsResult.isSuccess) return periodsResult as Result<null>
 
@@ -52,11 +57,19 @@ const validateDateInOpenPeriod = async (userId: string, date: Date): Promise<Res
 }
 
 export const postManualJournalEntryWorkflow = async (command: PostManualJournalEntryCommand): Promise<Result<any>> => {
-  // Step 1: Validate command
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostManualEntries',
+  })
+  if (!authorization.isSuccess) return authorization as Result<any>
+
+  // Step 2: Validate command
   const commandValidation = validateCommand(command)
   if (!commandValidation.isSuccess) return commandValidation
 
-  // Step 2: Validate date in open period
+  // Step 3: Validate date in open period
   const date = new Date(command.date)
   if (isNaN(date.getTime())) {
     return Failure(
@@ -70,6 +83,6 @@ export const postManualJournalEntryWorkflow = async (command: PostManualJournalE
   const periodValidation = await validateDateInOpenPeriod(command.userId, date)
   if (!periodValidation.isSuccess) return periodValidation
 
-  // Step 3: Post the journal entry using the ledger workflow
+  // Step 4: Post the journal entry using the ledger workflow
   return postJournalEntryWorkflow(command)
 }
\ No newline at end of file
@@ -24,6 +24,7 @@ describe('PeriodClose Context: Period Repository (Infrastructure)', () => {
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.period.deleteMany()
     await prisma.user.deleteMany()
   })
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { createExpenseCategoryWorkflow, CreateExpenseCategoryCommand } from './createExpenseCategoryWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Purchasing Context: Create Expense Category Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    // Expense categories depend on Account
+    await prisma.expenseCategory.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string = 'test_user_purchasing') => {
+    return await prisma.user.create({
+      data: { username }
+    })
+  }
+
+  const createTestAccount = async (userId: string, code: string, name: string, type: 'Asset' | 'Expense', archivedAt?: Date) => {
+    return await prisma.account.create({
+      data: { userId, code, name, type, normalBalance: 'Debit', archivedAt }
+    })
+  }
+
+  it('should create an expense category with a trimmed name', async () => {
+    const user = await createTestUser()
+    const account = await createTestAccount(user.id, '503', 'Travel Expense', 'Expense')
+    const command: CreateExpenseCategoryCommand = { userId: user.id, name: '  Travel  ', accountId: account.id }
+
+    const result = await createExpenseCategoryWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.name).toBe('Travel')
+      expect(result.value.accountId).toBe(account.id)
+    }
+  })
+
+  it('should reject a duplicate name', async () => {
+    const user = await createTestUser()
+    const account = await createTestAccount(user.id, '503', 'Travel Expense', 'Expense')
+    await createExpenseCategoryWorkflow({ userId: user.id, name: 'Travel', accountId: account.id })
+
+    const result = await createExpenseCategoryWorkflow({ userId: user.id, name: 'Travel', accountId: account.id })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('DuplicateExpenseCategory')
+    }
+  })
+
+  it('should reject an account that is not an Expense account', async () => {
+    const user = await createTestUser()
+    const account = await createTestAccount(user.id, '101', 'Cash', 'Asset')
+
+    const result = await createExpenseCategoryWorkflow({ userId: user.id, name: 'Travel', accountId: account.id })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidExpenseCategoryAccount')
+    }
+  })
+
+  it('should reject an archived or unknown account', async () => {
+    const user = await createTestUser()
+    const archived = await createTestAccount(user.id, '503', 'Travel Expense', 'Expense', new Date('2025-01-01'))
+
+    const archivedResult = await createExpenseCategoryWorkflow({ userId: user.id, name: 'Travel', accountId: archived.id })
+    expect(archivedResult.isSuccess).toBe(false)
+    if (!archivedResult.isSuccess) {
+      expect(archivedResult.error.subtype).toBe('AccountArchived')
+    }
+
+    const unknownResult = await createExpenseCategoryWorkflow({ userId: user.id, name: 'Travel', accountId: '550e8400-e29b-41d4-a716-446655440000' })
+    expect(unknownResult.isSuccess).toBe(false)
+    if (!unknownResult.isSuccess) {
+      expect(unknownResult.error.subtype).toBe('AccountNotFound')
+    }
+  })
+})
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { validateExpenseCategory, validateExpenseCategoryAccount, ExpenseCategory } from '../domain/purchasing'
+import { createExpenseCategory, findExpenseCategoryByName } from '../infrastructure/expenseCategoryRepo'
+import { findAccountById } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { Failure, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { PurchasingDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type CreateExpenseCategoryCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  name: string
+  accountId: string
+}
+
+/**
+ * Create Expense Category Workflow - Application Layer
+ *
+ * Creates a named expense category whose cash expenses and vendor bills are debited
+ * to the given Expense account.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate the category name (pure)
+ * 3. Validate name uniqueness for the user (infrastructure)
+ * 4. Retrieve the account and validate it is an active Expense account (infrastructure + pure)
+ * 5. Persist the category (infrastructure)
+ *
+ * Returns a Promise<Result<ExpenseCategory>>.
+ */
+export const createExpenseCategoryWorkflow = async (command: CreateExpenseCategoryCommand): Promise<Result<ExpenseCategory>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return authorization as Result<ExpenseCategory>
+
+  // Step 2: Pure validation
+  const nameValidation = validateExpenseCategory(command.name)
+  if (!nameValidation.isSuccess) return nameValidation as Result<ExpenseCategory>
+  const name = nameValidation.value
+
+  // Step 3: Validate name uniqueness
+  const existingResult = await findExpenseCategoryByName(command.userId, name)
+  if (!existingResult.isSuccess) return existingResult as Result<ExpenseCategory>
+  if (existingResult.value !== null) {
+    return Failure(
+      DomainFailure(
+        'DuplicateExpenseCategory' as PurchasingDomainSubtype,
+        `Expense category ${name} already exists for this user.`
+      )
+    )
+  }
+
+  // Step 4: Retrieve and validate the account
+  const accountResult = await findAccountById(command.userId, command.accountId)
+  if (!accountResult.isSuccess) return accountResult as Result<ExpenseCategory>
+  if (accountResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as PurchasingDomainSubtype,
+        `Account ${command.accountId} not found or does not belong to the user`
+      )
+    )
+  }
+  const accountValidation = validateExpenseCategoryAccount(accountResult.value)
+  if (!accountValidation.isSuccess) return accountValidation as Result<ExpenseCategory>
+
+  // Step 5: Persist
+  return createExpenseCategory({ userId: command.userId, name, accountId: command.accountId })
+}
\ No newline at end of file
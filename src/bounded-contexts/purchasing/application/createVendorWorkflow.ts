@@ -1,20 +1,30 @@
 import { validateVendor, Vendor } from '../domain/purchasing'
 import { createVendor } from '../infrastructure/vendorRepo'
 import { Result } from '@/common/types/result'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 export type CreateVendorCommand = {
   userId: string
+  actingUserId?: string // defaults to userId (the book owner)
   name: string
   email?: string
 }
 
 export const createVendorWorkflow = async (command: CreateVendorCommand): Promise<Result<Vendor>> => {
-  // Step 1: Pure validation
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<Vendor>
+
+  // Step 2: Pure validation
   const validationResult = validateVendor(command)
   if (!validationResult.isSuccess) {
     return validationResult
   }
 
-  // Step 2: Create vendor (no duplicate check for now)
+  // Step 3: Create vendor (no duplicate check for now)
   return createVendor(validationResult.value)
 }
\ No newline at end of file
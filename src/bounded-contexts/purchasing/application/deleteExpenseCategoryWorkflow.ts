@@ -0,0 +1,52 @@
+import { ExpenseCategory } from '../domain/purchasing'
+import { findExpenseCategoryById, deleteExpenseCategory } from '../infrastructure/expenseCategoryRepo'
+import { Failure, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { PurchasingDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type DeleteExpenseCategoryCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  categoryId: string
+}
+
+/**
+ * Delete Expense Category Workflow - Application Layer
+ *
+ * Removes an expense category; new expenses can no longer use its name.
+ * Expenses and bills already recorded keep their journal entries and category name.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Retrieve the category (infrastructure)
+ * 3. Delete it (infrastructure)
+ *
+ * Returns a Promise<Result<ExpenseCategory>> with the deleted category.
+ */
+export const deleteExpenseCategoryWorkflow = async (command: DeleteExpenseCategoryCommand): Promise<Result<ExpenseCategory>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return authorization as Result<ExpenseCategory>
+
+  // Step 2: Retrieve category
+  const categoryResult = await findExpenseCategoryById(command.userId, command.categoryId)
+  if (!categoryResult.isSuccess) return categoryResult as Result<ExpenseCategory>
+  if (categoryResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'ExpenseCategoryNotFound' as PurchasingDomainSubtype,
+        `Expense category ${command.categoryId} not found or does not belong to the user`
+      )
+    )
+  }
+
+  // Step 3: Delete
+  return deleteExpenseCategory(command.userId, command.categoryId)
+}
\ No newline at end of file
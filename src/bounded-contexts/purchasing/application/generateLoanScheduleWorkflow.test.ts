@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { generateLoanScheduleWorkflow } from './generateLoanScheduleWorkflow'
+import { recordLoanWorkflow } from './recordLoanWorkflow'
+import { recordLoanPaymentWorkflow } from './recordLoanPaymentWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Purchasing Context: Generate Loan Schedule Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    // 1. Child tables of JournalEntry (that are not already in purchasing)
+    await prisma.payment.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    // 2. Purchasing child tables of JournalEntry
+    await prisma.loanPayment.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    // 3. Other child tables
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    // 4. JournalLine (depends on JournalEntry and Account)
+    await prisma.journalLine.deleteMany()
+    // 5. JournalEntry (depends on User)
+    await prisma.journalEntry.deleteMany()
+    // 5.5 Period (depends on User)
+    await prisma.period.deleteMany()
+    // 6. Account (depends on User)
+    await prisma.account.deleteMany()
+    // 7. Session and Collaborator (depend on User)
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    // 8. User
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  // Creates a user with the loan accounts and a recorded loan of 10,000 at 6% over 12 months
+  const setupLoan = async () => {
+    const user = await prisma.user.create({ data: { username: 'test_user_schedule' } })
+    const vendor = await prisma.vendor.create({ data: { userId: user.id, name: 'Test Bank', balance: 0 } })
+    await prisma.account.createMany({
+      data: [
+        { userId: user.id, code: '101', name: 'Cash', type: 'Asset', normalBalance: 'Debit' },
+        { userId: user.id, code: '251', name: 'Notes Payable', type: 'Liability', normalBalance: 'Credit' },
+        { userId: user.id, code: '505', name: 'Interest Expense', type: 'Expense', normalBalance: 'Debit' },
+      ]
+    })
+    const loanResult = await recordLoanWorkflow({
+      userId: user.id,
+      vendorId: vendor.id,
+      principal: 10000,
+      interestRate: 6,
+      term: 12,
+      date: '2025-01-15T00:00:00Z',
+    })
+    if (!loanResult.isSuccess) throw new Error('Failed to record loan for test')
+    return { user, loan: loanResult.value }
+  }
+
+  it('should build a 12-row schedule for a new loan', async () => {
+    const { user, loan } = await setupLoan()
+
+    const result = await generateLoanScheduleWorkflow(user.id, loan.id!)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      const schedule = result.value
+      expect(schedule.originalPrincipal).toBe(10000)
+      expect(schedule.scheduledPayment).toBe(860.66)
+      expect(schedule.rows).toHaveLength(12)
+      expect(schedule.rows[0].dueDate).toEqual(new Date('2025-02-15T00:00:00Z'))
+      expect(schedule.rows[11].remainingBalance).toBe(0)
+      expect(schedule.rows.every(row => row.status === 'Scheduled')).toBe(true)
+      expect(schedule.nextPayment?.paymentNumber).toBe(1)
+    }
+  })
+
+  it('should reconcile recorded payments against the schedule', async () => {
+    const { user, loan } = await setupLoan()
+    const payment = await recordLoanPaymentWorkflow({ userId: user.id, loanId: loan.id!, date: '2025-02-15T00:00:00Z' })
+    if (!payment.isSuccess) throw new Error('Failed to record loan payment for test')
+
+    const result = await generateLoanScheduleWorkflow(user.id, loan.id!)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      const schedule = result.value
+      // The original principal is rebuilt from the remaining principal plus payments
+      expect(schedule.originalPrincipal).toBe(10000)
+      expect(schedule.remainingPrincipal).toBe(9189.34)
+      expect(schedule.rows[0]).toMatchObject({
+        status: 'Paid',
+        recordedPaymentIds: [payment.value.id],
+        recordedPrincipal: 810.66,
+        recordedInterest: 50,
+      })
+      expect(schedule.nextPayment?.paymentNumber).toBe(2)
+    }
+  })
+
+  it('should fail for a loan without an interest rate and term', async () => {
+    const { user, loan } = await setupLoan()
+    await prisma.loan.update({ where: { id: loan.id }, data: { interestRate: null, term: null } })
+
+    const result = await generateLoanScheduleWorkflow(user.id, loan.id!)
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('LoanTermsMissing')
+    }
+  })
+
+  it('should fail for another user\'s loan', async () => {
+    const { loan } = await setupLoan()
+    const otherUser = await prisma.user.create({ data: { username: 'other_user_schedule' } })
+
+    const result = await generateLoanScheduleWorkflow(otherUser.id, loan.id!)
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('LoanNotFound')
+    }
+  })
+})
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { Result, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { PurchasingDomainSubtype } from '../domain/errors'
+import { buildLoanSchedule, LoanSchedule } from '../domain/purchasing'
+import { findLoanById } from '../infrastructure/loanRepo'
+import { listLoanPaymentsByLoan } from '../infrastructure/loanPaymentRepo'
+
+/**
+ * Generate Loan Schedule Workflow - Application Layer
+ *
+ * Produces the level-payment amortization table for a loan, reconciled against its recorded payments.
+ * Steps:
+ * 1. Fetch the loan and ensure it belongs to the user (infrastructure)
+ * 2. Fetch the loan's recorded payments (infrastructure)
+ * 3. Build and reconcile the schedule (pure domain)
+ */
+export const generateLoanScheduleWorkflow = async (
+  userId: string,
+  loanId: string
+): Promise<Result<LoanSchedule>> => {
+  // 1. Fetch the loan
+  const loanResult = await findLoanById(userId, loanId)
+  if (!loanResult.isSuccess) {
+    return loanResult as Result<LoanSchedule>
+  }
+  if (loanResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'LoanNotFound' as PurchasingDomainSubtype,
+        `Loan ${loanId} not found or access denied.`
+      )
+    )
+  }
+
+  // 2. Fetch recorded payments
+  const paymentsResult = await listLoanPaymentsByLoan(userId, loanId)
+  if (!paymentsResult.isSuccess) {
+    return paymentsResult as Result<LoanSchedule>
+  }
+
+  // 3. Build the reconciled schedule (domain pure function)
+  return buildLoanSchedule(loanResult.value, paymentsResult.value)
+}
\ No newline at end of file
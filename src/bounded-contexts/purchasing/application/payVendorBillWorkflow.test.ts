@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { payVendorBillWorkflow, PayVendorBillCommand } from './payVendorBillWorkflow'
+import { recordVendorBillWorkflow } from './recordVendorBillWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Purchasing Context: Pay Vendor Bill Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    // 1. Child tables of JournalEntry (that are not already in purchasing)
+    await prisma.payment.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    // 2. Purchasing child tables of JournalEntry (bill payments cascade with their bills)
+    await prisma.loanPayment.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    // 3. Other child tables
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    // 4. JournalLine (depends on JournalEntry and Account)
+    await prisma.journalLine.deleteMany()
+    // 5. JournalEntry (depends on User)
+    await prisma.journalEntry.deleteMany()
+    // 5.5 Period (depends on User)
+    await prisma.period.deleteMany()
+    // 6. Account (depends on User)
+    await prisma.account.deleteMany()
+    // 7. Session and Collaborator (depend on User)
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    // 8. User
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string = 'test_user_bill_payment') => {
+    return await prisma.user.create({
+      data: { username }
+    })
+  }
+
+  const createTestAccount = async (userId: string, code: string, name: string, type: 'Asset' | 'Liability' | 'Equity' | 'Revenue' | 'Expense', normalBalance: 'Debit' | 'Credit') => {
+    return await prisma.account.create({
+      data: {
+        userId,
+        code,
+        name,
+        type,
+        normalBalance,
+      }
+    })
+  }
+
+  // Creates a user with Cash, Accounts Payable and an expense account, plus a recorded bill
+  const setupRecordedBill = async (amount: number = 1000) => {
+    const user = await createTestUser()
+    const vendor = await prisma.vendor.create({
+      data: { userId: user.id, name: 'Test Vendor', balance: 0 }
+    })
+    const cashAccount = await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    const apAccount = await createTestAccount(user.id, '201', 'Accounts Payable', 'Liability', 'Credit')
+    await createTestAccount(user.id, '501', 'Salaries Expense', 'Expense', 'Debit')
+
+    const billResult = await recordVendorBillWorkflow({
+      userId: user.id,
+      vendorId: vendor.id,
+      billNumber: 'BILL-001',
+      amount,
+      date: '2025-01-15',
+    })
+    if (!billResult.isSuccess) throw new Error('Failed to record bill for test')
+
+    return { user, vendor, cashAccount, apAccount, bill: billResult.value }
+  }
+
+  it('should pay a bill in full and mark it Paid', async () => {
+    const { user, vendor, cashAccount, apAccount, bill } = await setupRecordedBill(1000)
+
+    const command: PayVendorBillCommand = {
+      userId: user.id,
+      billId: bill.id!,
+      amount: 1000,
+      date: '2025-01-20',
+      method: 'Check',
+      reference: 'CHK-100',
+    }
+
+    const result = await payVendorBillWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.billId).toBe(bill.id)
+      expect(result.value.amount).toBe(1000)
+      expect(result.value.method).toBe('Check')
+      expect(result.value.reference).toBe('CHK-100')
+
+      // Journal entry debits Accounts Payable and credits Cash
+      const journalEntry = await prisma.journalEntry.findUnique({
+        where: { id: result.value.journalEntryId },
+        include: { lines: true }
+      })
+      expect(journalEntry?.lines).toHaveLength(2)
+      const debitLine = journalEntry?.lines.find(l => l.side === 'Debit')
+      const creditLine = journalEntry?.lines.find(l => l.side === 'Credit')
+      expect(debitLine?.accountId).toBe(apAccount.id)
+      expect(creditLine?.accountId).toBe(cashAccount.id)
+      expect(Number(debitLine?.amount)).toBe(1000)
+    }
+
+    const dbBill = await prisma.vendorBill.findUnique({ where: { id: bill.id } })
+    expect(dbBill?.status).toBe('Paid')
+
+    const dbVendor = await prisma.vendor.findUnique({ where: { id: vendor.id } })
+    expect(Number(dbVendor?.balance)).toBe(0)
+  })
+
+  it('should accept partial payments and mark the bill PartiallyPaid, then Paid', async () => {
+    const { user, vendor, bill } = await setupRecordedBill(1000)
+
+    const first = await payVendorBillWorkflow({
+      userId: user.id,
+      billId: bill.id!,
+      amount: 400,
+      date: '2025-01-20',
+      method: 'Cash',
+    })
+    expect(first.isSuccess).toBe(true)
+
+    let dbBill = await prisma.vendorBill.findUnique({ where: { id: bill.id } })
+    expect(dbBill?.status).toBe('PartiallyPaid')
+    let dbVendor = await prisma.vendor.findUnique({ where: { id: vendor.id } })
+    expect(Number(dbVendor?.balance)).toBe(600)
+
+    const second = await payVendorBillWorkflow({
+      userId: user.id,
+      billId: bill.id!,
+      amount: 600,
+      date: '2025-01-25',
+      method: 'BankTransfer',
+    })
+    expect(second.isSuccess).toBe(true)
+
+    dbBill = await prisma.vendorBill.findUnique({ where: { id: bill.id } })
+    expect(dbBill?.status).toBe('Paid')
+    dbVendor = await prisma.vendor.findUnique({ where: { id: vendor.id } })
+    expect(Number(dbVendor?.balance)).toBe(0)
+  })
+
+  it('should mark the bill Paid when payments settle it to the cent', async () => {
+    const { user, bill } = await setupRecordedBill(100.3)
+
+    // 100.3 - 50.1 is 50.199999999999996 in floating point; the open amount is rounded to 50.2
+    await payVendorBillWorkflow({ userId: user.id, billId: bill.id!, amount: 50.1, date: '2025-01-20', method: 'Cash' })
+    const result = await payVendorBillWorkflow({
+      userId: user.id,
+      billId: bill.id!,
+      amount: 50.2,
+      date: '2025-01-21',
+      method: 'Cash',
+    })
+
+    expect(result.isSuccess).toBe(true)
+    const dbBill = await prisma.vendorBill.findUnique({ where: { id: bill.id } })
+    expect(dbBill?.status).toBe('Paid')
+  })
+
+  it('should reject a payment that exceeds the open amount', async () => {
+    const { user, bill } = await setupRecordedBill(1000)
+    await payVendorBillWorkflow({ userId: user.id, billId: bill.id!, amount: 700, date: '2025-01-20', method: 'Cash' })
+
+    const result = await payVendorBillWorkflow({
+      userId: user.id,
+      billId: bill.id!,
+      amount: 500,
+      date: '2025-01-21',
+      method: 'Cash',
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('PaymentExceedsOpenAmount')
+    }
+    expect(await prisma.billPayment.count({ where: { billId: bill.id } })).toBe(1)
+  })
+
+  it('should accept only one of two concurrent payments that together exceed the open amount', async () => {
+    const { user, bill } = await setupRecordedBill(1000)
+
+    const command: PayVendorBillCommand = { userId: user.id, billId: bill.id!, amount: 600, date: '2025-01-20', method: 'Cash' }
+    const results = await Promise.all([payVendorBillWorkflow(command), payVendorBillWorkflow(command)])
+
+    expect(results.filter(result => result.isSuccess)).toHaveLength(1)
+    expect(await prisma.billPayment.count({ where: { billId: bill.id } })).toBe(1)
+    const dbBill = await prisma.vendorBill.findUnique({ where: { id: bill.id } })
+    expect(dbBill?.status).toBe('PartiallyPaid')
+  })
+
+  it('should fail when the bill does not exist', async () => {
+    const { user } = await setupRecordedBill()
+
+    const result = await payVendorBillWorkflow({
+      userId: user.id,
+      billId: 'non-existent-bill',
+      amount: 100,
+      date: '2025-01-20',
+      method: 'Cash',
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('BillNotFound')
+    }
+  })
+
+  it('should fail with an invalid payment method', async () => {
+    const { user, bill } = await setupRecordedBill()
+
+    const result = await payVendorBillWorkflow({
+      userId: user.id,
+      billId: bill.id!,
+      amount: 100,
+      date: '2025-01-20',
+      method: 'Barter',
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidPaymentMethod')
+    }
+  })
+
+  it('should fail when the Cash account is missing', async () => {
+    const { user, bill } = await setupRecordedBill()
+    await prisma.account.deleteMany({ where: { userId: user.id, code: '101' } })
+
+    const result = await payVendorBillWorkflow({
+      userId: user.id,
+      billId: bill.id!,
+      amount: 100,
+      date: '2025-01-20',
+      method: 'Cash',
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountNotFound')
+    }
+  })
+})
\ No newline at end of file
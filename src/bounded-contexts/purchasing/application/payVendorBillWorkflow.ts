@@ -0,0 +1,205 @@
+import { BillPayment, Money, VendorBillStatus, validateBillPaymentAmount, validatePaymentDateNotFuture, validatePaymentMethod, validatePaymentReference, validatePaymentDoesNotExceedOpenAmount } from '../domain/purchasing'
+import { findVendorBillById, findVendorBillByIdForUpdate, updateVendorBillStatus } from '../infrastructure/vendorBillRepo'
+import { createBillPayment, getTotalPaidForBill } from '../infrastructure/billPaymentRepo'
+import { updateVendorBalance } from '../infrastructure/vendorRepo'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
+import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { toCents } from '@/common/types/money'
+import { PurchasingDomainSubtype } from '../domain/errors'
+import { JournalLineSide } from '@/bounded-contexts/ledger/domain/ledger'
+import { DEFAULT_ACCOUNT_CODES } from '@/bounded-contexts/ledger/domain/defaultAccounts'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type PayVendorBillCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  billId: string
+  amount: Money
+  date: string // ISO string
+  method: string
+  reference?: string
+}
+
+/**
+ * Pay Vendor Bill Workflow - Application Layer
+ *
+ * Mirrors the sales-side payment workflow for the payables side.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate payment data (pure validation)
+ * 3. Find the bill and ensure it belongs to the user
+ * 4. Find required accounts (Accounts Payable and Cash) by posting role for the user
+ * 5. Lock the bill and re-read it, so payments committed since step 3 are seen
+ * 6. Calculate open amount (bill amount - payments already made, rounded to cents)
+ * 7. Validate that payment does not exceed open amount (business rule)
+ * 8. Create a journal entry for the cash disbursement (debit Accounts Payable, credit Cash)
+ * 9. Create the bill payment record with the journal entry reference
+ * 10. Update bill status (Paid or PartiallyPaid)
+ * 11. Update vendor subsidiary balance (decrease Accounts Payable)
+ *
+ * Returns a Promise<Result<BillPayment>>.
+ */
+export const payVendorBillWorkflow = async (command: PayVendorBillCommand): Promise<Result<BillPayment>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<BillPayment>
+
+  // Step 2: Pure validation
+  const amountResult = validateBillPaymentAmount(command.amount)
+  if (!amountResult.isSuccess) return amountResult as Result<BillPayment>
+
+  const dateResult = validatePaymentDateNotFuture(new Date(command.date))
+  if (!dateResult.isSuccess) return dateResult as Result<BillPayment>
+
+  const methodResult = validatePaymentMethod(command.method)
+  if (!methodResult.isSuccess) return methodResult as Result<BillPayment>
+
+  const referenceResult = validatePaymentReference(command.reference)
+  if (!referenceResult.isSuccess) return referenceResult as Result<BillPayment>
+
+  const validatedPayment = {
+    amount: amountResult.value,
+    date: dateResult.value,
+    method: methodResult.value,
+    reference: referenceResult.value,
+  }
+
+  // Step 3: Find bill
+  const billResult = await findVendorBillById(command.userId, command.billId)
+  if (!billResult.isSuccess) {
+    return billResult as Result<BillPayment>
+  }
+  const bill = billResult.value
+  if (bill === null) {
+    return Failure(
+      DomainFailure(
+        'BillNotFound' as PurchasingDomainSubtype,
+        `Vendor bill ${command.billId} not found or access denied.`
+      )
+    )
+  }
+
+  // Step 4: Find required accounts
+  // Posting roles: Accounts Payable, Cash
+  const apAccountResult = await findPostingAccount(command.userId, 'AccountsPayable')
+  if (!apAccountResult.isSuccess) {
+    return apAccountResult as Result<BillPayment>
+  }
+  const apAccount = apAccountResult.value
+  if (apAccount === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as PurchasingDomainSubtype,
+        `Accounts Payable account not found. Map the AccountsPayable posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.ACCOUNTS_PAYABLE}.`
+      )
+    )
+  }
+
+  const cashAccountResult = await findPostingAccount(command.userId, 'Cash')
+  if (!cashAccountResult.isSuccess) {
+    return cashAccountResult as Result<BillPayment>
+  }
+  const cashAccount = cashAccountResult.value
+  if (cashAccount === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as PurchasingDomainSubtype,
+        `Cash account not found. Map the Cash posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.CASH}.`
+      )
+    )
+  }
+
+  // Steps 5-11 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    // Step 5: Lock the bill so concurrent payments of it run one after the other
+    const currentBillResult = await findVendorBillByIdForUpdate(command.userId, command.billId, db)
+    if (!currentBillResult.isSuccess) {
+      return currentBillResult as Result<BillPayment>
+    }
+    const currentBill = currentBillResult.value
+    if (currentBill === null) {
+      return Failure(
+        DomainFailure(
+          'BillNotFound' as PurchasingDomainSubtype,
+          `Vendor bill ${command.billId} not found or access denied.`
+        )
+      )
+    }
+
+    // Step 6: Calculate open amount
+    const totalPaidResult = await getTotalPaidForBill(command.userId, command.billId, db)
+    if (!totalPaidResult.isSuccess) {
+      return totalPaidResult as Result<BillPayment>
+    }
+    const openAmount = toCents(currentBill.amount - totalPaidResult.value)
+
+    // Step 7: Validate payment does not exceed open amount
+    const openAmountResult = validatePaymentDoesNotExceedOpenAmount(validatedPayment.amount, openAmount)
+    if (!openAmountResult.isSuccess) return openAmountResult as Result<BillPayment>
+
+    // Step 8: Create journal entry
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `BILL-PAY-${Date.now()}`,
+      description: `Payment for vendor bill ${bill.billNumber}`,
+      date: validatedPayment.date,
+      lines: [
+        {
+          accountId: apAccount.id!,
+          amount: validatedPayment.amount,
+          side: 'Debit' as JournalLineSide, // Liability decreases with debit
+        },
+        {
+          accountId: cashAccount.id!,
+          amount: validatedPayment.amount,
+          side: 'Credit' as JournalLineSide, // Cash decreases with credit
+        },
+      ],
+    }, db)
+
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult as Result<BillPayment>
+    }
+    const journalEntry = journalEntryResult.value
+
+    // Step 9: Create bill payment record
+    const paymentResult = await createBillPayment({
+      billId: command.billId,
+      amount: validatedPayment.amount,
+      date: validatedPayment.date,
+      method: validatedPayment.method,
+      reference: validatedPayment.reference,
+      journalEntryId: journalEntry.id!,
+    }, db)
+
+    if (!paymentResult.isSuccess) {
+      return paymentResult
+    }
+    const payment = paymentResult.value
+
+    // Step 10: Update bill status
+    const newStatus: VendorBillStatus = toCents(openAmount - validatedPayment.amount) === 0 ? 'Paid' : 'PartiallyPaid'
+    const statusUpdateResult = await updateVendorBillStatus(command.userId, command.billId, newStatus, db)
+    if (!statusUpdateResult.isSuccess) {
+      return statusUpdateResult as Result<BillPayment>
+    }
+
+    // Step 11: Update vendor balance (decrease Accounts Payable)
+    const balanceUpdateResult = await updateVendorBalance(command.userId, bill.vendorId, -validatedPayment.amount, db)
+    if (!balanceUpdateResult.isSuccess) {
+      return balanceUpdateResult as Result<BillPayment>
+    }
+
+    return Success(payment)
+  })
+}
\ No newline at end of file
@@ -31,8 +31,9 @@ describe('Purchasing Context: Record Cash Expense Workflow (Integration)', () =>
     await prisma.period.deleteMany()
     // 6. Account (depends on User)
     await prisma.account.deleteMany()
-    // 7. Session (depends on User)
+    // 7. Session and Collaborator (depend on User)
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     // 8. User
     await prisma.user.deleteMany()
   })
@@ -69,12 +70,19 @@ describe('Purchasing Context: Record Cash Expense Workflow (Integration)', () =>
     })
   }
 
+  const createTestCategory = async (userId: string, name: string, accountId: string) => {
+    return await prisma.expenseCategory.create({
+      data: { userId, name, accountId }
+    })
+  }
+
   it('should record a cash expense with valid data', async () => {
     const user = await createTestUser()
     const vendor = await createTestVendor(user.id)
-    // Create required accounts: Cash (101) and an Expense account (501)
+    // Create required accounts: Cash (101) and an Expense account (503) for the category
     const cashAccount = await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
-    const expenseAccount = await createTestAccount(user.id, '501', 'Salaries Expense', 'Expense', 'Debit')
+    const expenseAccount = await createTestAccount(user.id, '503', 'Office Supplies Expense', 'Expense', 'Debit')
+    await createTestCategory(user.id, 'Office Supplies', expenseAccount.id)
 
     const command: RecordCashExpenseCommand = {
       userId: user.id,
@@ -227,4 +235,79 @@ describe('Purchasing Context: Record Cash Expense Workflow (Integration)', () =>
       expect(result.error.subtype).toBe('AccountNotFound')
     }
   })
+
+
+  it('should reject an archived Cash account and record nothing', async () => {
+    const user = await createTestUser()
+    const vendor = await createTestVendor(user.id)
+    const cashAccount = await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    const expenseAccount = await createTestAccount(user.id, '503', 'Office Supplies Expense', 'Expense', 'Debit')
+    await createTestCategory(user.id, 'Office Supplies', expenseAccount.id)
+    await prisma.account.update({ where: { id: cashAccount.id }, data: { archivedAt: new Date() } })
+
+    const result = await recordCashExpenseWorkflow({
+      userId: user.id,
+      vendorId: vendor.id,
+      amount: 100,
+      date: '2025-01-10',
+      expenseCategory: 'Office Supplies',
+    })
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountArchived')
+    }
+    expect(await prisma.cashExpense.count({ where: { userId: user.id } })).toBe(0)
+    expect(await prisma.journalEntry.count({ where: { userId: user.id } })).toBe(0)
+  })
+
+  it('should debit the account of the expense category', async () => {
+    const user = await createTestUser()
+    const vendor = await createTestVendor(user.id)
+    await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    const salariesAccount = await createTestAccount(user.id, '501', 'Salaries Expense', 'Expense', 'Debit')
+    const suppliesAccount = await createTestAccount(user.id, '503', 'Office Supplies Expense', 'Expense', 'Debit')
+    const travelAccount = await createTestAccount(user.id, '504', 'Travel Expense', 'Expense', 'Debit')
+    await createTestCategory(user.id, 'Office Supplies', suppliesAccount.id)
+    await createTestCategory(user.id, 'Travel', travelAccount.id)
+
+    const command: RecordCashExpenseCommand = {
+      userId: user.id,
+      vendorId: vendor.id,
+      amount: 80,
+      date: '2025-01-10',
+      expenseCategory: 'Travel',
+    }
+
+    const result = await recordCashExpenseWorkflow(command)
+    expect(result.isSuccess).toBe(true)
+    if (!result.isSuccess) return
+
+    const lines = await prisma.journalLine.findMany({ where: { journalEntryId: result.value.journalEntryId } })
+    const debit = lines.find(line => line.side === 'Debit')
+    expect(debit?.accountId).toBe(travelAccount.id)
+    expect(lines.some(line => line.accountId === salariesAccount.id)).toBe(false)
+  })
+
+  it('should reject an unknown expense category', async () => {
+    const user = await createTestUser()
+    const vendor = await createTestVendor(user.id)
+    await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    await createTestAccount(user.id, '501', 'Salaries Expense', 'Expense', 'Debit')
+
+    const command: RecordCashExpenseCommand = {
+      userId: user.id,
+      vendorId: vendor.id,
+      amount: 80,
+      date: '2025-01-10',
+      expenseCategory: 'Office Supplies',
+    }
+
+    const result = await recordCashExpenseWorkflow(command)
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.type).toBe('DomainFailure')
+      expect(result.error.subtype).toBe('ExpenseCategoryNotFound')
+    }
+    expect(await prisma.cashExpense.count()).toBe(0)
+  })
 })
\ No newline at end of file
@@ -1,24 +1,28 @@
-import { validateCashExpense, CashExpense, Money } from '../domain/purchasing'
+import { validateCashExpense, validateExpenseCategoryAccount, CashExpense, Money } from '../domain/purchasing'
 import { createCashExpense } from '../infrastructure/cashExpenseRepo'
+import { findExpenseCategoryAccount } from '../infrastructure/expenseCategoryRepo'
 import { findVendorById } from '../infrastructure/vendorRepo'
 import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
-import { findAccountByCode } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
 import { Result, Success, Failure } from '@/common/types/result'
 import { DomainFailure } from '@/common/types/errors'
 import { PurchasingDomainSubtype } from '../domain/errors'
 import { JournalLineSide, Account } from '@/bounded-contexts/ledger/domain/ledger'
 import { DEFAULT_ACCOUNT_CODES } from '@/bounded-contexts/ledger/domain/defaultAccounts'
 import { fromNullable as optionFromNullable, getOrElse as optionGetOrElse } from '@/common/types/option'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 /**
  * Workflow input: raw data from command (API request).
  */
 export type RecordCashExpenseCommand = {
   userId: string
+  actingUserId?: string // defaults to userId (the book owner)
   vendorId: string
   amount: Money
   date: string // ISO string
-  expenseCategory: string
+  expenseCategory: string // name of one of the user's expense categories
   description?: string
 }
 
@@ -26,18 +30,27 @@ export type RecordCashExpenseCommand = {
  * Record Cash Expense Workflow - Application Layer
  *
  * Steps:
- * 1. Validate command structure (pure validation)
- * 2. Validate that the vendor exists and belongs to the user (optional but recommended)
- * 3. Find the required accounts (Cash and Expense) by code for the user
- *    - Cash: default 101
- *    - Expense: based on expenseCategory; for v1 we use a default expense account (501 Salaries Expense)
- * 4. Create a journal entry for the expense (debit Expense, credit Cash)
- * 5. Create the cash expense record with the journal entry reference
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate command structure (pure validation)
+ * 3. Validate that the vendor exists and belongs to the user (optional but recommended)
+ * 4. Find the required accounts (Cash and Expense) for the user
+ *    - Cash: the Cash posting role
+ *    - Expense: the account of the expense category; unknown categories are rejected
+ * 5. Create a journal entry for the expense (debit Expense, credit Cash)
+ * 6. Create the cash expense record with the journal entry reference
  *
  * Returns a Promise<Result<CashExpense>>.
  */
 export const recordCashExpenseWorkflow = async (command: RecordCashExpenseCommand): Promise<Result<CashExpense>> => {
-  // Step 1: Pure validation
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<CashExpense>
+
+  // Step 2: Pure validation
   const expenseToValidate: Omit<CashExpense, 'id' | 'journalEntryId' | 'createdAt' | 'updatedAt'> = {
     userId: command.userId,
     vendorId: command.vendorId,
@@ -52,7 +65,7 @@ export const recordCashExpenseWorkflow = async (command: RecordCashExpenseComman
     return validationResult
   }
 
-  // Step 2: Validate vendor exists (optional but we'll enforce for consistency)
+  // Step 3: Validate vendor exists (optional but we'll enforce for consistency)
   const vendorResult = await findVendorById(command.userId, command.vendorId)
   if (!vendorResult.isSuccess) {
     return vendorResult
@@ -66,9 +79,9 @@ export const recordCashExpenseWorkflow = async (command: RecordCashExpenseComman
     )
   }
 
-  // Step 3: Find required accounts
-  // Cash account (101)
-  const cashAccountResult = await findAccountByCode(command.userId, DEFAULT_ACCOUNT_CODES.CASH)
+  // Step 4: Find required accounts
+  // Cash account
+  const cashAccountResult = await findPostingAccount(command.userId, 'Cash')
   if (!cashAccountResult.isSuccess) {
     return cashAccountResult
   }
@@ -76,72 +89,76 @@ export const recordCashExpenseWorkflow = async (command: RecordCashExpenseComman
     return Failure(
       DomainFailure(
         'AccountNotFound' as PurchasingDomainSubtype,
-        `Default Cash account (code ${DEFAULT_ACCOUNT_CODES.CASH}) not found. Please set up chart of accounts.`
+        `Cash account not found. Map the Cash posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.CASH}.`
       )
     )
   }
   const cashAccountValue = cashAccountResult.value
 
-  // Expense account: for v1 we use a default expense account (501 Salaries Expense)
-  // In the future, we could map expenseCategory to different account codes.
-  const expenseAccountCode = DEFAULT_ACCOUNT_CODES.SALARIES_EXPENSE
-  const expenseAccountResult = await findAccountByCode(command.userId, expenseAccountCode)
+  // Expense account: the account the expense category is debited to
+  const expenseAccountResult = await findExpenseCategoryAccount(command.userId, command.expenseCategory)
   if (!expenseAccountResult.isSuccess) {
     return expenseAccountResult
   }
   if (expenseAccountResult.value === null) {
     return Failure(
       DomainFailure(
-        'AccountNotFound' as PurchasingDomainSubtype,
-        `Default Expense account (code ${expenseAccountCode}) not found. Please set up chart of accounts.`
+        'ExpenseCategoryNotFound' as PurchasingDomainSubtype,
+        `Expense category ${command.expenseCategory} not found. Create it before recording expenses in it.`
       )
     )
   }
-  const expenseAccountValue = expenseAccountResult.value
+  const expenseAccountValidation = validateExpenseCategoryAccount(expenseAccountResult.value)
+  if (!expenseAccountValidation.isSuccess) {
+    return expenseAccountValidation
+  }
+  const expenseAccountValue = expenseAccountValidation.value
 
-  // Step 4: Create journal entry
-  const description = optionGetOrElse(`Cash expense ${command.expenseCategory}`)(optionFromNullable(command.description))
-  const journalEntryResult = await createJournalEntry({
-    userId: command.userId,
-    entryNumber: `CASH-EXP-${Date.now()}`,
-    description,
-    date: new Date(command.date),
-    lines: [
-      {
-        accountId: expenseAccountValue.id!,
-        amount: command.amount,
-        side: 'Debit' as JournalLineSide, // Expense increases with debit
-      },
-      {
-        accountId: cashAccountValue.id!,
-        amount: command.amount,
-        side: 'Credit' as JournalLineSide, // Cash decreases with credit
-      },
-    ],
-  })
+  // Steps 5-6 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    // Step 5: Create journal entry
+    const description = optionGetOrElse(`Cash expense ${command.expenseCategory}`)(optionFromNullable(command.description))
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `CASH-EXP-${Date.now()}`,
+      description,
+      date: new Date(command.date),
+      lines: [
+        {
+          accountId: expenseAccountValue.id!,
+          amount: command.amount,
+          side: 'Debit' as JournalLineSide, // Expense increases with debit
+        },
+        {
+          accountId: cashAccountValue.id!,
+          amount: command.amount,
+          side: 'Credit' as JournalLineSide, // Cash decreases with credit
+        },
+      ],
+    }, db)
 
-  if (!journalEntryResult.isSuccess) {
-    return journalEntryResult
-  }
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult
+    }
 
-  const journalEntry = journalEntryResult.value
+    const journalEntry = journalEntryResult.value
 
-  // Step 5: Create cash expense record
-  const expenseToCreate: Omit<CashExpense, 'id' | 'createdAt' | 'updatedAt'> = {
-    userId: command.userId,
-    vendorId: command.vendorId,
-    amount: command.amount,
-    date: new Date(command.date),
-    expenseCategory: command.expenseCategory,
-    description: command.description,
-    journalEntryId: journalEntry.id!,
-  }
+    // Step 6: Create cash expense record
+    const expenseToCreate: Omit<CashExpense, 'id' | 'createdAt' | 'updatedAt'> = {
+      userId: command.userId,
+      vendorId: command.vendorId,
+      amount: command.amount,
+      date: new Date(command.date),
+      expenseCategory: command.expenseCategory,
+      description: command.description,
+      journalEntryId: journalEntry.id!,
+    }
 
-  const expenseResult = await createCashExpense(expenseToCreate)
-  if (!expenseResult.isSuccess) {
-    // TODO: Rollback journal entry? For now, leave orphaned.
-    return expenseResult
-  }
+    const expenseResult = await createCashExpense(expenseToCreate, db)
+    if (!expenseResult.isSuccess) {
+      return expenseResult
+    }
 
-  return expenseResult
+    return expenseResult
+  })
 }
\ No newline at end of file
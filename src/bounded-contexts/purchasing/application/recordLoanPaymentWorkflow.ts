@@ -1,24 +1,27 @@
-import { validateLoanPayment, LoanPayment, Money } from '../domain/purchasing'
-import { createLoanPayment } from '../infrastructure/loanPaymentRepo'
-import { findLoanByVendorId, updateLoanPrincipal } from '../infrastructure/loanRepo'
-import { findVendorById } from '../infrastructure/vendorRepo'
+import { validateLoanPayment, buildLoanSchedule, LoanPayment, Money } from '../domain/purchasing'
+import { createLoanPayment, listLoanPaymentsByLoan } from '../infrastructure/loanPaymentRepo'
+import { findLoanById, findLoanByIdForUpdate, updateLoanPrincipal } from '../infrastructure/loanRepo'
 import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
-import { findAccountByCode } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
 import { Result, Success, Failure, andThen } from '@/common/types/result'
 import { DomainFailure } from '@/common/types/errors'
+import { toCents } from '@/common/types/money'
 import { PurchasingDomainSubtype } from '../domain/errors'
 import { JournalLineSide, Account } from '@/bounded-contexts/ledger/domain/ledger'
 import { DEFAULT_ACCOUNT_CODES } from '@/bounded-contexts/ledger/domain/defaultAccounts'
 import { fromNullable as optionFromNullable, getOrElse as optionGetOrElse } from '@/common/types/option'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 /**
  * Workflow input: raw data from command (API request).
  */
 export type RecordLoanPaymentCommand = {
   userId: string
-  vendorId: string
-  principalAmount: Money
-  interestAmount: Money
+  actingUserId?: string // defaults to userId (the book owner)
+  loanId: string
+  principalAmount?: Money // defaults to the principal of the next scheduled payment
+  interestAmount?: Money // defaults to the interest of the next scheduled payment
   date: string // ISO string
   description?: string
 }
@@ -27,23 +30,77 @@ export type RecordLoanPaymentCommand = {
  * Record Loan Payment Workflow - Application Layer
  *
  * Steps:
- * 1. Validate command structure (pure validation)
- * 2. Validate that the vendor exists and belongs to the user
- * 3. Find the loan for this vendor (assume one loan per vendor for now)
- * 4. Validate that the payment does not exceed the loan's remaining principal (business rule)
- * 5. Find the required accounts (Cash, Notes Payable, Interest Expense) by code for the user
- * 6. Create a journal entry for the payment (debit Notes Payable, debit Interest Expense, credit Cash)
- * 7. Create the loan payment record with the journal entry reference
- * 8. Update the loan principal (reduce by principalAmount)
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Find the loan being paid and ensure it belongs to the user
+ * 3. Default a missing principal/interest amount from the next row of the amortization schedule
+ * 4. Validate command structure (pure validation)
+ * 5. Find the required accounts (Cash, Notes Payable, Interest Expense) by posting role for the user
+ * 6. Lock the loan and re-read it, so payments committed since step 2 are seen
+ * 7. Validate that the payment does not exceed the loan's remaining principal (business rule)
+ * 8. Create a journal entry for the payment (debit Notes Payable, debit Interest Expense, credit Cash)
+ * 9. Create the loan payment record with the journal entry reference
+ * 10. Update the loan principal (reduce by principalAmount, rounded to cents)
  *
  * Returns a Promise<Result<LoanPayment>>.
  */
 export const recordLoanPaymentWorkflow = async (command: RecordLoanPaymentCommand): Promise<Result<LoanPayment>> => {
-  // Step 1: Pure validation
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<LoanPayment>
+
+  // Step 2: Find the loan
+  const loanResult = await findLoanById(command.userId, command.loanId)
+  if (!loanResult.isSuccess) {
+    return loanResult
+  }
+  if (loanResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'LoanNotFound' as PurchasingDomainSubtype,
+        `Loan ${command.loanId} not found or access denied.`
+      )
+    )
+  }
+  const loan = loanResult.value
+
+  // Step 3: Default the split from the next scheduled payment when an amount is omitted
+  let principalAmount = command.principalAmount
+  let interestAmount = command.interestAmount
+  if (principalAmount === undefined || interestAmount === undefined) {
+    const paymentsResult = await listLoanPaymentsByLoan(command.userId, loan.id!)
+    if (!paymentsResult.isSuccess) {
+      return paymentsResult as Result<LoanPayment>
+    }
+    const scheduleResult = buildLoanSchedule(loan, paymentsResult.value)
+    if (!scheduleResult.isSuccess) {
+      return scheduleResult as Result<LoanPayment>
+    }
+    const nextPayment = scheduleResult.value.nextPayment
+    if (nextPayment === null) {
+      return Failure(
+        DomainFailure(
+          'LoanFullyScheduled' as PurchasingDomainSubtype,
+          `Every scheduled payment on loan ${loan.id} is already recorded; give principalAmount and interestAmount explicitly.`
+        )
+      )
+    }
+    // Default only what is still open on a partially paid row, and never more principal than is still owed
+    // (earlier payments may have diverged from the schedule)
+    const openPrincipal = Math.max(0, toCents(nextPayment.principal - (nextPayment.recordedPrincipal ?? 0)))
+    const openInterest = Math.max(0, toCents(nextPayment.interest - (nextPayment.recordedInterest ?? 0)))
+    principalAmount = principalAmount ?? Math.min(openPrincipal, loan.principal)
+    interestAmount = interestAmount ?? openInterest
+  }
+
+  // Step 4: Pure validation
   const paymentToValidate: Omit<LoanPayment, 'id' | 'journalEntryId' | 'createdAt' | 'updatedAt'> = {
-    loanId: '', // placeholder, will be filled after we find the loan
-    principalAmount: command.principalAmount,
-    interestAmount: command.interestAmount,
+    loanId: loan.id!,
+    principalAmount,
+    interestAmount,
     date: new Date(command.date),
     description: command.description,
   }
@@ -60,47 +117,8 @@ export const recordLoanPaymentWorkflow = async (command: RecordLoanPaymentComman
     return Success(result.value)
   }
 
-  // Step 2: Validate vendor exists
-  const vendorResult = await findVendorById(command.userId, command.vendorId)
-  if (!vendorResult.isSuccess) {
-    return vendorResult
-  }
-  if (vendorResult.value === null) {
-    return Failure(
-      DomainFailure(
-        'VendorNotFound' as PurchasingDomainSubtype,
-        `Vendor ${command.vendorId} not found or access denied.`
-      )
-    )
-  }
-
-  // Step 3: Find loan for this vendor
-  const loanResult = await findLoanByVendorId(command.userId, command.vendorId)
-  if (!loanResult.isSuccess) {
-    return loanResult
-  }
-  if (loanResult.value === null) {
-    return Failure(
-      DomainFailure(
-        'LoanNotFound' as PurchasingDomainSubtype,
-        `No loan found for vendor ${command.vendorId}.`
-      )
-    )
-  }
-  const loan = loanResult.value
-
-  // Step 4: Validate payment does not exceed remaining principal
-  if (command.principalAmount > loan.principal) {
-    return Failure(
-      DomainFailure(
-        'PaymentExceedsLoanPrincipal' as PurchasingDomainSubtype,
-        `Principal payment amount (${command.principalAmount}) exceeds remaining loan principal (${loan.principal}).`
-      )
-    )
-  }
-
-  // Step 5: Find required accounts using the constants
-  const cashAccountResult = await findAccountByCode(command.userId, DEFAULT_ACCOUNT_CODES.CASH)
+  // Step 5: Find required accounts by posting role
+  const cashAccountResult = await findPostingAccount(command.userId, 'Cash')
   if (!cashAccountResult.isSuccess) {
     return cashAccountResult
   }
@@ -108,13 +126,13 @@ export const recordLoanPaymentWorkflow = async (command: RecordLoanPaymentComman
     return Failure(
       DomainFailure(
         'AccountNotFound' as PurchasingDomainSubtype,
-        `Default Cash account (code ${DEFAULT_ACCOUNT_CODES.CASH}) not found. Please set up chart of accounts.`
+        `Cash account not found. Map the Cash posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.CASH}.`
       )
     )
   }
   const cashAccountValue = cashAccountResult.value
 
-  const notesPayableAccountResult = await findAccountByCode(command.userId, DEFAULT_ACCOUNT_CODES.NOTES_PAYABLE)
+  const notesPayableAccountResult = await findPostingAccount(command.userId, 'NotesPayable')
   if (!notesPayableAccountResult.isSuccess) {
     return notesPayableAccountResult
   }
@@ -122,13 +140,13 @@ export const recordLoanPaymentWorkflow = async (command: RecordLoanPaymentComman
     return Failure(
       DomainFailure(
         'AccountNotFound' as PurchasingDomainSubtype,
-        `Default Notes Payable account (code ${DEFAULT_ACCOUNT_CODES.NOTES_PAYABLE}) not found. Please set up chart of accounts.`
+        `Notes Payable account not found. Map the NotesPayable posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.NOTES_PAYABLE}.`
       )
     )
   }
   const notesPayableAccountValue = notesPayableAccountResult.value
 
-  const interestExpenseAccountResult = await findAccountByCode(command.userId, DEFAULT_ACCOUNT_CODES.INTEREST_EXPENSE)
+  const interestExpenseAccountResult = await findPostingAccount(command.userId, 'InterestExpense')
   if (!interestExpenseAccountResult.isSuccess) {
     return interestExpenseAccountResult
   }
@@ -136,68 +154,94 @@ export const recordLoanPaymentWorkflow = async (command: RecordLoanPaymentComman
     return Failure(
       DomainFailure(
         'AccountNotFound' as PurchasingDomainSubtype,
-        `Default Interest Expense account (code ${DEFAULT_ACCOUNT_CODES.INTEREST_EXPENSE}) not found. Please set up chart of accounts.`
+        `Interest Expense account not found. Map the InterestExpense posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.INTEREST_EXPENSE}.`
       )
     )
   }
   const interestExpenseAccountValue = interestExpenseAccountResult.value
 
-  // Step 6: Create journal entry
-  const totalAmount = command.principalAmount + command.interestAmount
-  const description = optionGetOrElse(`Loan payment for vendor ${command.vendorId}`)(optionFromNullable(command.description))
-  const journalEntryResult = await createJournalEntry({
-    userId: command.userId,
-    entryNumber: `LOAN-PAY-${Date.now()}`,
-    description,
-    date: new Date(command.date),
-    lines: [
-      {
-        accountId: notesPayableAccountValue.id!,
-        amount: command.principalAmount,
-        side: 'Debit' as JournalLineSide, // Reducing liability
-      },
-      {
-        accountId: interestExpenseAccountValue.id!,
-        amount: command.interestAmount,
-        side: 'Debit' as JournalLineSide, // Expense
-      },
-      {
-        accountId: cashAccountValue.id!,
-        amount: totalAmount,
-        side: 'Credit' as JournalLineSide, // Cash outflow
-      },
-    ],
-  })
-
-  if (!journalEntryResult.isSuccess) {
-    return journalEntryResult
-  }
-
-  const journalEntry = journalEntryResult.value
-
-  // Step 7: Create loan payment record
-  const paymentToCreate: Omit<LoanPayment, 'id' | 'createdAt' | 'updatedAt'> = {
-    loanId: loan.id!,
-    principalAmount: command.principalAmount,
-    interestAmount: command.interestAmount,
-    date: new Date(command.date),
-    description: command.description,
-    journalEntryId: journalEntry.id!,
-  }
+  // Steps 6-10 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    // Step 6: Lock the loan so concurrent payments of it run one after the other
+    const currentLoanResult = await findLoanByIdForUpdate(command.userId, loan.id!, db)
+    if (!currentLoanResult.isSuccess) {
+      return currentLoanResult as Result<LoanPayment>
+    }
+    const currentLoan = currentLoanResult.value
+    if (currentLoan === null) {
+      return Failure(
+        DomainFailure(
+          'LoanNotFound' as PurchasingDomainSubtype,
+          `Loan ${command.loanId} not found or access denied.`
+        )
+      )
+    }
+
+    // Step 7: Validate payment does not exceed remaining principal
+    if (principalAmount > currentLoan.principal) {
+      return Failure(
+        DomainFailure(
+          'PaymentExceedsLoanPrincipal' as PurchasingDomainSubtype,
+          `Principal payment amount (${principalAmount}) exceeds remaining loan principal (${currentLoan.principal}).`
+        )
+      )
+    }
+
+    // Step 8: Create journal entry
+    const totalAmount = toCents(principalAmount + interestAmount)
+    const description = optionGetOrElse(`Loan payment for vendor ${loan.vendorId}`)(optionFromNullable(command.description))
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `LOAN-PAY-${Date.now()}`,
+      description,
+      date: new Date(command.date),
+      lines: [
+        {
+          accountId: notesPayableAccountValue.id!,
+          amount: principalAmount,
+          side: 'Debit' as JournalLineSide, // Reducing liability
+        },
+        {
+          accountId: interestExpenseAccountValue.id!,
+          amount: interestAmount,
+          side: 'Debit' as JournalLineSide, // Expense
+        },
+        {
+          accountId: cashAccountValue.id!,
+          amount: totalAmount,
+          side: 'Credit' as JournalLineSide, // Cash outflow
+        },
+      ],
+    }, db)
+
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult
+    }
+
+    const journalEntry = journalEntryResult.value
+
+    // Step 9: Create loan payment record
+    const paymentToCreate: Omit<LoanPayment, 'id' | 'createdAt' | 'updatedAt'> = {
+      loanId: loan.id!,
+      principalAmount,
+      interestAmount,
+      date: new Date(command.date),
+      description: command.description,
+      journalEntryId: journalEntry.id!,
+    }
+
+    const paymentResult = await createLoanPayment(paymentToCreate, db)
+    if (!paymentResult.isSuccess) {
+      return paymentResult
+    }
+
+    // Step 10: Update loan principal
+    const newPrincipal = toCents(currentLoan.principal - principalAmount)
+    const updatePrincipalResult = await updateLoanPrincipal(command.userId, loan.id!, newPrincipal, db)
+    if (!updatePrincipalResult.isSuccess) {
+      return updatePrincipalResult as Result<LoanPayment>
+    }
 
-  const paymentResult = await createLoanPayment(paymentToCreate)
-  if (!paymentResult.isSuccess) {
-    // TODO: Rollback journal entry? For now, leave orphaned.
     return paymentResult
-  }
-
-  // Step 8: Update loan principal
-  const newPrincipal = loan.principal - command.principalAmount
-  const updatePrincipalResult = await updateLoanPrincipal(command.userId, loan.id!, newPrincipal)
-  if (!updatePrincipalResult.isSuccess) {
-    console.error('Failed to update loan principal', updatePrincipalResult.error)
-    // We still return the payment, but the loan principal is not updated.
-  }
-
-  return paymentResult
+  })
 }
\ No newline at end of file
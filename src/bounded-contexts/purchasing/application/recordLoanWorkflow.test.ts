@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { recordLoanWorkflow, RecordLoanCommand } from './recordLoanWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Purchasing Context: Record Loan Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    // 1. Child tables of JournalEntry (that are not already in purchasing)
+    await prisma.payment.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    // 2. Purchasing child tables of JournalEntry
+    await prisma.loanPayment.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    // 3. Other child tables
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    // 4. JournalLine (depends on JournalEntry and Account)
+    await prisma.journalLine.deleteMany()
+    // 5. JournalEntry (depends on User)
+    await prisma.journalEntry.deleteMany()
+    // 5.5 Period (depends on User)
+    await prisma.period.deleteMany()
+    // 6. Account (depends on User)
+    await prisma.account.deleteMany()
+    // 7. Session and Collaborator (depend on User)
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    // 8. User
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+
+  const createTestUser = async (username: string = 'test_user_purchasing') => {
+    return await prisma.user.create({
+      data: { username }
+    })
+  }
+
+  const createTestVendor = async (userId: string, name: string = 'Test Bank') => {
+    return await prisma.vendor.create({
+      data: {
+        userId,
+        name,
+        balance: 0,
+      }
+    })
+  }
+
+  const createTestAccount = async (userId: string, code: string, name: string, type: 'Asset' | 'Liability' | 'Equity' | 'Revenue' | 'Expense', normalBalance: 'Debit' | 'Credit') => {
+    return await prisma.account.create({
+      data: {
+        userId,
+        code,
+        name,
+        type,
+        normalBalance,
+      }
+    })
+  }
+
+  it('should record a loan and post the proceeds', async () => {
+    const user = await createTestUser()
+    const vendor = await createTestVendor(user.id)
+    const cashAccount = await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    const notesPayableAccount = await createTestAccount(user.id, '251', 'Notes Payable', 'Liability', 'Credit')
+
+    const command: RecordLoanCommand = {
+      userId: user.id,
+      vendorId: vendor.id,
+      principal: 10000,
+      interestRate: 6,
+      term: 24,
+      date: '2025-01-10',
+    }
+
+    const result = await recordLoanWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      const loan = result.value
+      expect(loan.id).toBeDefined()
+      expect(loan.vendorId).toBe(vendor.id)
+      expect(loan.principal).toBe(10000)
+      expect(loan.interestRate).toBe(6)
+      expect(loan.term).toBe(24)
+      expect(loan.date).toEqual(new Date('2025-01-10'))
+      expect(loan.journalEntryId).toBeDefined()
+
+      // Verify journal entry: debit Cash, credit Notes Payable
+      const journalEntry = await prisma.journalEntry.findUnique({
+        where: { id: loan.journalEntryId },
+        include: { lines: true }
+      })
+      expect(journalEntry?.description).toBe('Loan proceeds from Test Bank')
+      expect(journalEntry?.lines).toHaveLength(2)
+      const debitLine = journalEntry?.lines.find(l => l.side === 'Debit')
+      const creditLine = journalEntry?.lines.find(l => l.side === 'Credit')
+      expect(debitLine?.accountId).toBe(cashAccount.id)
+      expect(creditLine?.accountId).toBe(notesPayableAccount.id)
+      expect(Number(creditLine?.amount)).toBe(10000)
+    }
+  })
+
+  it('should allow several loans from the same vendor', async () => {
+    const user = await createTestUser()
+    const vendor = await createTestVendor(user.id)
+    await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    await createTestAccount(user.id, '251', 'Notes Payable', 'Liability', 'Credit')
+
+    const first = await recordLoanWorkflow({ userId: user.id, vendorId: vendor.id, principal: 1000, date: '2025-01-10' })
+    const second = await recordLoanWorkflow({ userId: user.id, vendorId: vendor.id, principal: 2000, date: '2025-02-10' })
+
+    expect(first.isSuccess).toBe(true)
+    expect(second.isSuccess).toBe(true)
+    expect(await prisma.loan.count({ where: { vendorId: vendor.id } })).toBe(2)
+  })
+
+  it('should reject a non-positive principal', async () => {
+    const user = await createTestUser()
+    const vendor = await createTestVendor(user.id)
+
+    const result = await recordLoanWorkflow({ userId: user.id, vendorId: vendor.id, principal: 0, date: '2025-01-10' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidLoanPrincipal')
+    }
+  })
+
+  it('should reject a future loan date', async () => {
+    const user = await createTestUser()
+    const vendor = await createTestVendor(user.id)
+    const tomorrow = new Date()
+    tomorrow.setDate(tomorrow.getDate() + 1)
+
+    const result = await recordLoanWorkflow({
+      userId: user.id,
+      vendorId: vendor.id,
+      principal: 1000,
+      date: tomorrow.toISOString().split('T')[0],
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('LoanDateInFuture')
+    }
+  })
+
+  it('should reject if vendor does not exist', async () => {
+    const user = await createTestUser()
+    await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    await createTestAccount(user.id, '251', 'Notes Payable', 'Liability', 'Credit')
+
+    const result = await recordLoanWorkflow({ userId: user.id, vendorId: 'non-existent-vendor-id', principal: 1000, date: '2025-01-10' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('VendorNotFound')
+    }
+  })
+
+  it('should reject if the Notes Payable account is missing', async () => {
+    const user = await createTestUser()
+    const vendor = await createTestVendor(user.id)
+    await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+
+    const result = await recordLoanWorkflow({ userId: user.id, vendorId: vendor.id, principal: 1000, date: '2025-01-10' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountNotFound')
+    }
+    expect(await prisma.loan.count()).toBe(0)
+  })
+})
\ No newline at end of file
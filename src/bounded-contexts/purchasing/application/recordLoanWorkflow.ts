@@ -0,0 +1,148 @@
+import { Loan, Money, validateLoan, validateLoanDateNotFuture } from '../domain/purchasing'
+import { createLoan } from '../infrastructure/loanRepo'
+import { findVendorById } from '../infrastructure/vendorRepo'
+import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { PurchasingDomainSubtype } from '../domain/errors'
+import { JournalLineSide } from '@/bounded-contexts/ledger/domain/ledger'
+import { DEFAULT_ACCOUNT_CODES } from '@/bounded-contexts/ledger/domain/defaultAccounts'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type RecordLoanCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  vendorId: string // the lender
+  principal: Money
+  interestRate?: number // annual percentage, e.g., 5.0
+  term?: number // months
+  date: string // ISO string, the date the proceeds were received
+  description?: string
+}
+
+/**
+ * Record Loan Workflow - Application Layer
+ *
+ * Records a new loan and the cash received from it. A vendor may hold any number of loans;
+ * payments target a loan by its ID.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate loan data (pure validation)
+ * 3. Validate that the vendor (lender) exists and belongs to the user
+ * 4. Find the required accounts (Cash and Notes Payable) by posting role for the user
+ * 5. Create a journal entry for the proceeds (debit Cash, credit Notes Payable)
+ * 6. Create the loan record with the journal entry reference
+ *
+ * Returns a Promise<Result<Loan>>.
+ */
+export const recordLoanWorkflow = async (command: RecordLoanCommand): Promise<Result<Loan>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<Loan>
+
+  // Step 2: Pure validation
+  const loanResult = validateLoan({
+    userId: command.userId,
+    vendorId: command.vendorId,
+    principal: command.principal,
+    interestRate: command.interestRate,
+    term: command.term,
+  })
+  if (!loanResult.isSuccess) return loanResult
+
+  const dateResult = validateLoanDateNotFuture(new Date(command.date))
+  if (!dateResult.isSuccess) return dateResult as Result<Loan>
+
+  // Step 3: Validate vendor exists
+  const vendorResult = await findVendorById(command.userId, command.vendorId)
+  if (!vendorResult.isSuccess) {
+    return vendorResult as Result<Loan>
+  }
+  const vendor = vendorResult.value
+  if (vendor === null) {
+    return Failure(
+      DomainFailure(
+        'VendorNotFound' as PurchasingDomainSubtype,
+        `Vendor ${command.vendorId} not found or access denied.`
+      )
+    )
+  }
+
+  // Step 4: Find required accounts
+  const cashAccountResult = await findPostingAccount(command.userId, 'Cash')
+  if (!cashAccountResult.isSuccess) {
+    return cashAccountResult as Result<Loan>
+  }
+  const cashAccount = cashAccountResult.value
+  if (cashAccount === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as PurchasingDomainSubtype,
+        `Cash account not found. Map the Cash posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.CASH}.`
+      )
+    )
+  }
+
+  const notesPayableAccountResult = await findPostingAccount(command.userId, 'NotesPayable')
+  if (!notesPayableAccountResult.isSuccess) {
+    return notesPayableAccountResult as Result<Loan>
+  }
+  const notesPayableAccount = notesPayableAccountResult.value
+  if (notesPayableAccount === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as PurchasingDomainSubtype,
+        `Notes Payable account not found. Map the NotesPayable posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.NOTES_PAYABLE}.`
+      )
+    )
+  }
+
+  // Steps 5-6 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    // Step 5: Create journal entry
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `LOAN-${Date.now()}`,
+      description: command.description ?? `Loan proceeds from ${vendor.name}`,
+      date: dateResult.value,
+      lines: [
+        {
+          accountId: cashAccount.id!,
+          amount: command.principal,
+          side: 'Debit' as JournalLineSide, // Cash received
+        },
+        {
+          accountId: notesPayableAccount.id!,
+          amount: command.principal,
+          side: 'Credit' as JournalLineSide, // Liability increases with credit
+        },
+      ],
+    }, db)
+
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult as Result<Loan>
+    }
+    const journalEntry = journalEntryResult.value
+
+    // Step 6: Create loan record
+    const createResult = await createLoan({
+      ...loanResult.value,
+      date: dateResult.value,
+      journalEntryId: journalEntry.id!,
+    }, db)
+    if (!createResult.isSuccess) {
+      return createResult
+    }
+
+    return Success(createResult.value)
+  })
+}
\ No newline at end of file
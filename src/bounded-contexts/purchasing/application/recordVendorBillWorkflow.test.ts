@@ -31,8 +31,9 @@ describe('Purchasing Context: Record Vendor Bill Workflow (Integration)', () =>
     await prisma.period.deleteMany()
     // 6. Account (depends on User)
     await prisma.account.deleteMany()
-    // 7. Session (depends on User)
+    // 7. Session and Collaborator (depend on User)
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     // 8. User
     await prisma.user.deleteMany()
   })
@@ -257,4 +258,89 @@ describe('Purchasing Context: Record Vendor Bill Workflow (Integration)', () =>
       expect(result.error.subtype).toBe('AccountNotFound')
     }
   })
+
+
+  it('should post to the accounts mapped in the posting configuration', async () => {
+    const user = await createTestUser()
+    const vendor = await createTestVendor(user.id)
+    // A renumbered chart: no 201 or 501 accounts at all
+    const apAccount = await createTestAccount(user.id, '2100', 'Trade Payables', 'Liability', 'Credit')
+    const expenseAccount = await createTestAccount(user.id, '6100', 'Subcontractors', 'Expense', 'Debit')
+    await prisma.postingMapping.create({ data: { userId: user.id, role: 'AccountsPayable', accountId: apAccount.id } })
+    await prisma.postingMapping.create({ data: { userId: user.id, role: 'DefaultExpense', accountId: expenseAccount.id } })
+
+    const command: RecordVendorBillCommand = {
+      userId: user.id,
+      vendorId: vendor.id,
+      billNumber: 'BILL-001',
+      amount: 250,
+      date: '2025-01-15',
+    }
+
+    const result = await recordVendorBillWorkflow(command)
+    expect(result.isSuccess).toBe(true)
+    if (!result.isSuccess) return
+
+    const journalEntry = await prisma.journalEntry.findUnique({
+      where: { id: result.value.journalEntryId },
+      include: { lines: true }
+    })
+    const debit = journalEntry?.lines.find(line => line.side === 'Debit')
+    const credit = journalEntry?.lines.find(line => line.side === 'Credit')
+    expect(debit?.accountId).toBe(expenseAccount.id)
+    expect(credit?.accountId).toBe(apAccount.id)
+  })
+
+  it('should fill in the amount, description and expense account from a catalog item', async () => {
+    const user = await createTestUser()
+    const vendor = await createTestVendor(user.id)
+    const apAccount = await createTestAccount(user.id, '201', 'Accounts Payable', 'Liability', 'Credit')
+    await createTestAccount(user.id, '501', 'Salaries Expense', 'Expense', 'Debit')
+    const suppliesAccount = await createTestAccount(user.id, '504', 'Supplies Expense', 'Expense', 'Debit')
+    const item = await prisma.item.create({
+      data: { userId: user.id, name: 'Printer paper', sku: 'PAP-001', defaultPrice: 45, expenseAccountId: suppliesAccount.id }
+    })
+
+    const result = await recordVendorBillWorkflow({
+      userId: user.id,
+      vendorId: vendor.id,
+      billNumber: 'BILL-001',
+      date: '2025-01-15',
+      itemId: item.id,
+    })
+
+    expect(result.isSuccess).toBe(true)
+    if (!result.isSuccess) return
+    expect(result.value.amount).toBe(45)
+    expect(result.value.description).toBe('Printer paper')
+    expect(result.value.itemId).toBe(item.id)
+
+    const journalEntry = await prisma.journalEntry.findUnique({
+      where: { id: result.value.journalEntryId },
+      include: { lines: true }
+    })
+    const debit = journalEntry?.lines.find(line => line.side === 'Debit')
+    const credit = journalEntry?.lines.find(line => line.side === 'Credit')
+    expect(debit?.accountId).toBe(suppliesAccount.id)
+    expect(credit?.accountId).toBe(apAccount.id)
+  })
+
+  it('should reject an unknown catalog item', async () => {
+    const user = await createTestUser()
+    const vendor = await createTestVendor(user.id)
+
+    const result = await recordVendorBillWorkflow({
+      userId: user.id,
+      vendorId: vendor.id,
+      billNumber: 'BILL-001',
+      amount: 100,
+      date: '2025-01-15',
+      itemId: 'non-existent-item-id',
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('ItemNotFound')
+    }
+  })
 })
\ No newline at end of file
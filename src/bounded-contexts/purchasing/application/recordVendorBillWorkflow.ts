@@ -1,52 +1,102 @@
-import { validateVendorBill, VendorBill, VendorBillStatus, Money } from '../domain/purchasing'
+import { validateVendorBill, validateExpenseCategoryAccount, VendorBill, VendorBillStatus, Money } from '../domain/purchasing'
 import { createVendorBill, findVendorBillByNumber } from '../infrastructure/vendorBillRepo'
+import { findExpenseCategoryAccount } from '../infrastructure/expenseCategoryRepo'
 import { findVendorById, updateVendorBalance } from '../infrastructure/vendorRepo'
 import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
-import { findAccountByCode } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
+import { findAccountById } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { findItemById } from '@/bounded-contexts/sales/infrastructure/itemRepo'
+import { validateItemExpenseAccount } from '@/bounded-contexts/sales/domain/sales'
 import { Result, Success, Failure, andThen } from '@/common/types/result'
 import { DomainFailure } from '@/common/types/errors'
 import { PurchasingDomainSubtype } from '../domain/errors'
 import { JournalLineSide, Account } from '@/bounded-contexts/ledger/domain/ledger'
 import { DEFAULT_ACCOUNT_CODES } from '@/bounded-contexts/ledger/domain/defaultAccounts'
 import { fromNullable as optionFromNullable, getOrElse as optionGetOrElse } from '@/common/types/option'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 /**
  * Workflow input: raw data from command (API request).
  */
 export type RecordVendorBillCommand = {
   userId: string
+  actingUserId?: string // defaults to userId (the book owner)
   vendorId: string
   billNumber: string
-  amount: Money
+  amount?: Money // defaults to the item's default price
   date: string // ISO string
   dueDate?: string // ISO string
   description?: string
+  expenseCategory?: string // name of one of the user's expense categories; the Default Expense role when omitted
+  itemId?: string // catalog item whose name, default price and expense account fill in what is left out
 }
 
 /**
  * Record Vendor Bill Workflow - Application Layer
  *
  * Steps:
- * 1. Validate command structure (pure validation)
- * 2. Validate that the vendor exists and belongs to the user
- * 3. Validate that the bill number is unique for this user
- * 4. Find the required accounts (Expense account and Accounts Payable) by code for the user
- * 5. Create a journal entry for the expense/liability
- * 6. Create the vendor bill record with the journal entry reference
- * 7. Update the vendor's subsidiary balance (increase Accounts Payable)
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Fill in the amount and description from the catalog item, if one is referenced
+ * 3. Validate command structure (pure validation)
+ * 4. Validate that the vendor exists and belongs to the user
+ * 5. Validate that the bill number is unique for this user
+ * 6. Find the required accounts for the user
+ *    - Accounts Payable: the Accounts Payable posting role
+ *    - Expense: the expense category's account, else the item's expense account, else the Default Expense posting role
+ * 7. Create a journal entry for the expense/liability
+ * 8. Create the vendor bill record with the journal entry reference
+ * 9. Update the vendor's subsidiary balance (increase Accounts Payable)
  *
  * Returns a Promise<Result<VendorBill>>.
  */
 export const recordVendorBillWorkflow = async (command: RecordVendorBillCommand): Promise<Result<VendorBill>> => {
-  // Step 1: Pure validation
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<VendorBill>
+
+  // Step 2: Fill in from the catalog item
+  const itemResult = command.itemId !== undefined
+    ? await findItemById(command.userId, command.itemId)
+    : Success(null)
+  if (!itemResult.isSuccess) {
+    return itemResult
+  }
+  if (command.itemId !== undefined && itemResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'ItemNotFound' as PurchasingDomainSubtype,
+        `Item ${command.itemId} not found or does not belong to the user.`
+      )
+    )
+  }
+  const item = itemResult.value
+  const amount = command.amount ?? item?.defaultPrice
+  if (amount === undefined) {
+    return Failure(
+      DomainFailure(
+        'InvalidBillTotal' as PurchasingDomainSubtype,
+        'amount is required when the item has no default price.'
+      )
+    )
+  }
+  const billDescription = command.description ?? item?.name
+
+  // Step 3: Pure validation
   const billToValidate: Omit<VendorBill, 'id' | 'status' | 'journalEntryId' | 'createdAt' | 'updatedAt'> = {
     userId: command.userId,
     vendorId: command.vendorId,
     billNumber: command.billNumber,
-    amount: command.amount,
+    amount,
     date: new Date(command.date),
     dueDate: command.dueDate ? new Date(command.dueDate) : undefined,
-    description: command.description,
+    description: billDescription,
+    expenseCategory: command.expenseCategory,
+    itemId: item?.id,
   }
 
   const validationResult = validateVendorBill(billToValidate)
@@ -61,7 +111,7 @@ export const recordVendorBillWorkflow = async (command: RecordVendorBillCommand)
     return Success(result.value)
   }
 
-  // Step 2: Validate vendor exists
+  // Step 4: Validate vendor exists
   const vendorResult = await findVendorById(command.userId, command.vendorId)
   const vendor = ensureNotNull(
     DomainFailure(
@@ -73,7 +123,7 @@ export const recordVendorBillWorkflow = async (command: RecordVendorBillCommand)
     return vendor
   }
 
-  // Step 3: Validate bill number uniqueness
+  // Step 5: Validate bill number uniqueness
   const existingBillResult = await findVendorBillByNumber(command.userId, command.billNumber)
   if (!existingBillResult.isSuccess) {
     return existingBillResult
@@ -87,33 +137,38 @@ export const recordVendorBillWorkflow = async (command: RecordVendorBillCommand)
     )
   }
 
-  // Step 4: Find required accounts
-  // Default accounts: 201 for Accounts Payable, 501 for Expense (Salaries/Subcontractor Fee)
-  // In a real application, the expense account might be chosen by the user, but for v1 we use a default.
-  const apAccountResult = await findAccountByCode(command.userId, DEFAULT_ACCOUNT_CODES.ACCOUNTS_PAYABLE)
+  // Step 6: Find required accounts
+  const apAccountResult = await findPostingAccount(command.userId, 'AccountsPayable')
   const apAccount = ensureNotNull(
     DomainFailure(
       'AccountNotFound' as PurchasingDomainSubtype,
-      `Default Accounts Payable account (code ${DEFAULT_ACCOUNT_CODES.ACCOUNTS_PAYABLE}) not found. Please set up chart of accounts.`
+      `Accounts Payable account not found. Map the AccountsPayable posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.ACCOUNTS_PAYABLE}.`
     )
   )(apAccountResult)
   if (!apAccount.isSuccess) {
     return apAccount
   }
 
-  const expenseAccountResult = await findAccountByCode(command.userId, DEFAULT_ACCOUNT_CODES.SERVICE_REVENUE)
-  // Note: We're using SERVICE_REVENUE as a placeholder for expense; in a real app we'd have a default expense account.
-  // For now, we'll use the first expense account we can find (code 501). Let's adjust.
-  // Actually, we should get the default expense account (501) from DEFAULT_ACCOUNT_CODES, but it's not defined there.
-  // Let's define a new constant or use a hardcoded code.
-  const expenseAccountCode = '501' // Salaries Expense / Subcontractor Fee
-  const expenseAccountResult2 = await findAccountByCode(command.userId, expenseAccountCode)
-  const expenseAccount = ensureNotNull(
-    DomainFailure(
-      'AccountNotFound' as PurchasingDomainSubtype,
-      `Default Expense account (code ${expenseAccountCode}) not found. Please set up chart of accounts.`
-    )
-  )(expenseAccountResult2)
+  const expenseAccount = command.expenseCategory !== undefined
+    ? andThen(validateExpenseCategoryAccount)(ensureNotNull<Account>(
+        DomainFailure(
+          'ExpenseCategoryNotFound' as PurchasingDomainSubtype,
+          `Expense category ${command.expenseCategory} not found. Create it before recording bills in it.`
+        )
+      )(await findExpenseCategoryAccount(command.userId, command.expenseCategory)))
+    : item?.expenseAccountId !== undefined
+      ? andThen(validateItemExpenseAccount)(ensureNotNull<Account>(
+          DomainFailure(
+            'AccountNotFound' as PurchasingDomainSubtype,
+            `Expense account ${item.expenseAccountId} of item ${item.sku} not found.`
+          )
+        )(await findAccountById(command.userId, item.expenseAccountId)))
+      : ensureNotNull<Account>(
+          DomainFailure(
+            'AccountNotFound' as PurchasingDomainSubtype,
+            `Expense account not found. Map the DefaultExpense posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.SALARIES_EXPENSE}.`
+          )
+        )(await findPostingAccount(command.userId, 'DefaultExpense'))
   if (!expenseAccount.isSuccess) {
     return expenseAccount
   }
@@ -124,58 +179,61 @@ export const recordVendorBillWorkflow = async (command: RecordVendorBillCommand)
   const apAccountValue = apAccount.value as Account
   const expenseAccountValue = expenseAccount.value as Account
 
-  // Step 5: Create journal entry
-  const description = optionGetOrElse(`Vendor bill ${command.billNumber}`)(optionFromNullable(command.description))
-  const journalEntryResult = await createJournalEntry({
-    userId: command.userId,
-    entryNumber: `BILL-${command.billNumber}`,
-    description,
-    date: new Date(command.date),
-    lines: [
-      {
-        accountId: expenseAccountValue.id!,
-        amount: command.amount,
-        side: 'Debit' as JournalLineSide,
-      },
-      {
-        accountId: apAccountValue.id!,
-        amount: command.amount,
-        side: 'Credit' as JournalLineSide,
-      },
-    ],
-  })
-
-  if (!journalEntryResult.isSuccess) {
-    return journalEntryResult
-  }
-
-  const journalEntry = journalEntryResult.value
+  // Steps 7-9 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    // Step 7: Create journal entry
+    const description = optionGetOrElse(`Vendor bill ${command.billNumber}`)(optionFromNullable(billDescription))
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `BILL-${command.billNumber}`,
+      description,
+      date: new Date(command.date),
+      lines: [
+        {
+          accountId: expenseAccountValue.id!,
+          amount,
+          side: 'Debit' as JournalLineSide,
+        },
+        {
+          accountId: apAccountValue.id!,
+          amount,
+          side: 'Credit' as JournalLineSide,
+        },
+      ],
+    }, db)
+
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult
+    }
+
+    const journalEntry = journalEntryResult.value
+
+    // Step 8: Create vendor bill
+    const billToCreate: Omit<VendorBill, 'id' | 'createdAt' | 'updatedAt'> = {
+      userId: command.userId,
+      vendorId: command.vendorId,
+      billNumber: command.billNumber,
+      amount,
+      date: new Date(command.date),
+      dueDate: command.dueDate ? new Date(command.dueDate) : undefined,
+      description: billDescription,
+      expenseCategory: command.expenseCategory,
+      itemId: item?.id,
+      status: 'Recorded' as VendorBillStatus,
+      journalEntryId: journalEntry.id!,
+    }
+
+    const billResult = await createVendorBill(billToCreate, db)
+    if (!billResult.isSuccess) {
+      return billResult
+    }
+
+    // Step 9: Update vendor balance (increase Accounts Payable)
+    const updateBalanceResult = await updateVendorBalance(command.userId, command.vendorId, amount, db)
+    if (!updateBalanceResult.isSuccess) {
+      return updateBalanceResult as Result<VendorBill>
+    }
 
-  // Step 6: Create vendor bill
-  const billToCreate: Omit<VendorBill, 'id' | 'createdAt' | 'updatedAt'> = {
-    userId: command.userId,
-    vendorId: command.vendorId,
-    billNumber: command.billNumber,
-    amount: command.amount,
-    date: new Date(command.date),
-    dueDate: command.dueDate ? new Date(command.dueDate) : undefined,
-    description: command.description,
-    status: 'Recorded' as VendorBillStatus,
-    journalEntryId: journalEntry.id!,
-  }
-
-  const billResult = await createVendorBill(billToCreate)
-  if (!billResult.isSuccess) {
-    // TODO: Rollback journal entry? For simplicity, we leave it (orphaned).
     return billResult
-  }
-
-  // Step 7: Update vendor balance (increase Accounts Payable)
-  const updateBalanceResult = await updateVendorBalance(command.userId, command.vendorId, command.amount)
-  if (!updateBalanceResult.isSuccess) {
-    // If this fails, we have an inconsistent state. Log and continue for now.
-    console.error('Failed to update vendor balance', updateBalanceResult.error)
-  }
-
-  return billResult
+  })
 }
\ No newline at end of file
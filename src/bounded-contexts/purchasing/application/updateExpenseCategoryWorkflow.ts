@@ -0,0 +1,97 @@
+import { validateExpenseCategory, validateExpenseCategoryAccount, ExpenseCategory } from '../domain/purchasing'
+import { findExpenseCategoryById, findExpenseCategoryByName, updateExpenseCategory } from '../infrastructure/expenseCategoryRepo'
+import { findAccountById } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { Failure, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { PurchasingDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type UpdateExpenseCategoryCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  categoryId: string
+  name?: string
+  accountId?: string
+}
+
+/**
+ * Update Expense Category Workflow - Application Layer
+ *
+ * Renames an expense category and/or points it at another Expense account.
+ * Expenses and bills already recorded keep their journal entries and category name.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate the new name, if given (pure)
+ * 3. Retrieve the category (infrastructure)
+ * 4. Validate the new name is not used by another category (infrastructure)
+ * 5. Retrieve and validate the new account, if given (infrastructure + pure)
+ * 6. Persist the changes (infrastructure)
+ *
+ * Returns a Promise<Result<ExpenseCategory>>.
+ */
+export const updateExpenseCategoryWorkflow = async (command: UpdateExpenseCategoryCommand): Promise<Result<ExpenseCategory>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return authorization as Result<ExpenseCategory>
+
+  // Step 2: Pure validation
+  const changes: { name?: string; accountId?: string } = {}
+  if (command.name !== undefined) {
+    const nameValidation = validateExpenseCategory(command.name)
+    if (!nameValidation.isSuccess) return nameValidation as Result<ExpenseCategory>
+    changes.name = nameValidation.value
+  }
+
+  // Step 3: Retrieve category
+  const categoryResult = await findExpenseCategoryById(command.userId, command.categoryId)
+  if (!categoryResult.isSuccess) return categoryResult as Result<ExpenseCategory>
+  if (categoryResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'ExpenseCategoryNotFound' as PurchasingDomainSubtype,
+        `Expense category ${command.categoryId} not found or does not belong to the user`
+      )
+    )
+  }
+
+  // Step 4: Validate name uniqueness
+  if (changes.name !== undefined && changes.name !== categoryResult.value.name) {
+    const existingResult = await findExpenseCategoryByName(command.userId, changes.name)
+    if (!existingResult.isSuccess) return existingResult as Result<ExpenseCategory>
+    if (existingResult.value !== null) {
+      return Failure(
+        DomainFailure(
+          'DuplicateExpenseCategory' as PurchasingDomainSubtype,
+          `Expense category ${changes.name} already exists for this user.`
+        )
+      )
+    }
+  }
+
+  // Step 5: Retrieve and validate the new account
+  if (command.accountId !== undefined) {
+    const accountResult = await findAccountById(command.userId, command.accountId)
+    if (!accountResult.isSuccess) return accountResult as Result<ExpenseCategory>
+    if (accountResult.value === null) {
+      return Failure(
+        DomainFailure(
+          'AccountNotFound' as PurchasingDomainSubtype,
+          `Account ${command.accountId} not found or does not belong to the user`
+        )
+      )
+    }
+    const accountValidation = validateExpenseCategoryAccount(accountResult.value)
+    if (!accountValidation.isSuccess) return accountValidation as Result<ExpenseCategory>
+    changes.accountId = command.accountId
+  }
+
+  // Step 6: Persist
+  return updateExpenseCategory(command.userId, command.categoryId, changes)
+}
\ No newline at end of file
@@ -13,26 +13,39 @@ export type PurchasingDomainSubtype =
   | 'InvalidLoanPrincipal'
   | 'InvalidInterestRate'
   | 'InvalidLoanTerm'
+  | 'InvalidLoanDate'
+  | 'LoanDateInFuture'
+  | 'LoanTermsMissing'
+  | 'LoanFullyScheduled'
   | 'InvalidPaymentPrincipal'
   | 'InvalidPaymentInterest'
   | 'InvalidExpenseAmount'
   | 'InvalidExpenseCategory'
+  | 'InvalidExpenseCategoryAccount'
   | 'VendorNotFound'
   | 'BillNotFound'
   | 'LoanNotFound'
+  | 'ExpenseCategoryNotFound'
+  | 'ItemNotFound'
   | 'AccountNotFound'
   | 'DuplicateBillNumber'
+  | 'DuplicateExpenseCategory'
   | 'PaymentExceedsOpenAmount'
   | 'PaymentExceedsLoanPrincipal'
   | 'InvalidVendorBalance'
   | 'InvalidBillStatus'
+  | 'InvalidPaymentAmount'
+  | 'InvalidPaymentMethod'
+  | 'InvalidPaymentReference'
 
 export type PurchasingInfrastructureSubtype =
   | 'VendorRepositoryError'
   | 'VendorBillRepositoryError'
+  | 'BillPaymentRepositoryError'
   | 'LoanRepositoryError'
   | 'LoanPaymentRepositoryError'
   | 'CashExpenseRepositoryError'
+  | 'ExpenseCategoryRepositoryError'
   | 'DatabaseConnectionError'
   | 'DuplicateKey'
 
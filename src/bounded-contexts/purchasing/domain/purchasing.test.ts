@@ -11,18 +11,28 @@ import {
   validatePaymentInterest,
   validateExpenseAmount,
   validateExpenseCategory,
+  validateExpenseCategoryAccount,
   validateBillDateNotFuture,
   validatePaymentDateNotFuture,
+  validateLoanDateNotFuture,
   validateDueDate,
   validatePaymentDoesNotExceedOpenAmount,
+  validateBillPaymentAmount,
+  validatePaymentMethod,
+  validatePaymentReference,
   validateVendor,
   validateVendorBill,
   validateLoan,
   validateLoanPayment,
   validateCashExpense,
+  buildAmortizationSchedule,
+  reconcileAmortizationSchedule,
+  buildLoanSchedule,
+  LoanPayment,
   VendorBillStatus as VendorBillStatusConst,
 } from './purchasing'
 import { Success } from '@/common/types/result'
+import { Account } from '@/bounded-contexts/ledger/domain/ledger'
 
 describe('Purchasing Domain Validation Functions', () => {
   describe('validateVendorName', () => {
@@ -293,6 +303,38 @@ describe('Purchasing Domain Validation Functions', () => {
     })
   })
 
+  describe('validateExpenseCategoryAccount', () => {
+    const travelAccount: Account = {
+      id: 'acc-503',
+      userId: 'user-1',
+      code: '503',
+      name: 'Travel Expense',
+      type: 'Expense',
+      normalBalance: 'Debit',
+    }
+
+    it('should accept an Expense account', () => {
+      const result = validateExpenseCategoryAccount(travelAccount)
+      expect(result).toEqual(Success(travelAccount))
+    })
+
+    it('should reject an account of another type', () => {
+      const result = validateExpenseCategoryAccount({ ...travelAccount, code: '101', type: 'Asset' })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidExpenseCategoryAccount')
+      }
+    })
+
+    it('should reject an archived account', () => {
+      const result = validateExpenseCategoryAccount({ ...travelAccount, archivedAt: new Date('2025-01-01') })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('AccountArchived')
+      }
+    })
+  })
+
   describe('validateBillDateNotFuture', () => {
     it('should accept a past date', () => {
       const pastDate = new Date('2023-01-01')
@@ -338,6 +380,31 @@ describe('Purchasing Domain Validation Functions', () => {
     })
   })
 
+  describe('validateLoanDateNotFuture', () => {
+    it('should accept a past date', () => {
+      const result = validateLoanDateNotFuture(new Date('2023-01-01'))
+      expect(result.isSuccess).toBe(true)
+    })
+
+    it('should reject a future date with LoanDateInFuture', () => {
+      const futureDate = new Date()
+      futureDate.setDate(futureDate.getDate() + 1)
+      const result = validateLoanDateNotFuture(futureDate)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('LoanDateInFuture')
+      }
+    })
+
+    it('should reject an invalid date with InvalidLoanDate', () => {
+      const result = validateLoanDateNotFuture(new Date('invalid'))
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidLoanDate')
+      }
+    })
+  })
+
   describe('validateDueDate', () => {
     const billDate = new Date('2025-01-15')
 
@@ -394,6 +461,48 @@ describe('Purchasing Domain Validation Functions', () => {
     })
   })
 
+  describe('validateBillPaymentAmount', () => {
+    it('should accept a positive amount', () => {
+      expect(validateBillPaymentAmount(125.5)).toEqual(Success(125.5))
+    })
+
+    it('should reject zero', () => {
+      const result = validateBillPaymentAmount(0)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidPaymentAmount')
+      }
+    })
+  })
+
+  describe('validatePaymentMethod', () => {
+    it('should accept a known method', () => {
+      expect(validatePaymentMethod('Check')).toEqual(Success('Check'))
+    })
+
+    it('should reject an unknown method', () => {
+      const result = validatePaymentMethod('Barter')
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidPaymentMethod')
+      }
+    })
+  })
+
+  describe('validatePaymentReference', () => {
+    it('should treat an empty reference as absent', () => {
+      expect(validatePaymentReference('')).toEqual(Success(undefined))
+    })
+
+    it('should reject a reference longer than 100 characters', () => {
+      const result = validatePaymentReference('x'.repeat(101))
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidPaymentReference')
+      }
+    })
+  })
+
   describe('validateVendor', () => {
     it('should accept a valid vendor', () => {
       const vendorInput = {
@@ -709,4 +818,166 @@ describe('Purchasing Domain Validation Functions', () => {
       expect(result.isSuccess).toBe(false)
     })
   })
+
+
+  describe('buildAmortizationSchedule', () => {
+    it('should split a zero-interest loan into equal payments', () => {
+      const result = buildAmortizationSchedule(1200, 0, 12, new Date('2025-01-15T00:00:00Z'))
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value).toHaveLength(12)
+        expect(result.value.every(row => row.payment === 100 && row.interest === 0)).toBe(true)
+        expect(result.value[11].remainingBalance).toBe(0)
+      }
+    })
+
+    it('should build a level-payment table that pays the loan off exactly', () => {
+      const result = buildAmortizationSchedule(10000, 6, 12, new Date('2025-01-15T00:00:00Z'))
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        const rows = result.value
+        expect(rows[0]).toEqual({
+          paymentNumber: 1,
+          dueDate: new Date('2025-02-15T00:00:00Z'),
+          payment: 860.66,
+          interest: 50,
+          principal: 810.66,
+          remainingBalance: 9189.34,
+        })
+        expect(rows[11].remainingBalance).toBe(0)
+        const principalTotal = rows.reduce((sum, row) => sum + row.principal, 0)
+        expect(Math.round(principalTotal * 100) / 100).toBe(10000)
+      }
+    })
+
+    it('should clamp due dates to the end of shorter months', () => {
+      const result = buildAmortizationSchedule(300, 0, 3, new Date('2025-01-31T00:00:00Z'))
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.map(row => row.dueDate.toISOString().slice(0, 10)))
+          .toEqual(['2025-02-28', '2025-03-31', '2025-04-30'])
+      }
+    })
+
+    it('should fail when the interest rate or term is missing', () => {
+      const result = buildAmortizationSchedule(1000, undefined, 12, new Date('2025-01-15T00:00:00Z'))
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('LoanTermsMissing')
+      }
+    })
+
+    it('should reject an invalid term', () => {
+      const result = buildAmortizationSchedule(1000, 5, 0, new Date('2025-01-15T00:00:00Z'))
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidLoanTerm')
+      }
+    })
+  })
+
+  describe('reconcileAmortizationSchedule', () => {
+    const payment = (id: string, date: string): LoanPayment => ({
+      id,
+      loanId: 'loan-1',
+      principalAmount: 100,
+      interestAmount: 0,
+      date: new Date(date),
+      journalEntryId: `je-${id}`,
+    })
+
+    const schedule = () => {
+      const rowsResult = buildAmortizationSchedule(300, 0, 3, new Date('2025-01-15T00:00:00Z'))
+      if (!rowsResult.isSuccess) throw new Error('Expected schedule')
+      return rowsResult.value
+    }
+
+    it('should match each payment to the row of its period', () => {
+      const rows = reconcileAmortizationSchedule(schedule(), [
+        payment('p2', '2025-03-15'),
+        payment('p1', '2025-02-15'),
+      ])
+
+      expect(rows.map(row => row.status)).toEqual(['Paid', 'Paid', 'Scheduled'])
+      expect(rows[0].recordedPaymentIds).toEqual(['p1'])
+      expect(rows[1].recordedPaymentIds).toEqual(['p2'])
+      expect(rows[2].recordedPaymentIds).toEqual([])
+    })
+
+    it('should add an extra payment to its own period instead of the next row', () => {
+      const rows = reconcileAmortizationSchedule(schedule(), [
+        payment('p1', '2025-02-01'),
+        { ...payment('p2', '2025-02-10'), principalAmount: 50 },
+      ])
+
+      expect(rows.map(row => row.status)).toEqual(['Paid', 'Scheduled', 'Scheduled'])
+      expect(rows[0]).toMatchObject({ recordedPaymentIds: ['p1', 'p2'], recordedPrincipal: 150, recordedInterest: 0 })
+    })
+
+    it('should mark a row partially paid while its payments fall short', () => {
+      const rows = reconcileAmortizationSchedule(schedule(), [
+        { ...payment('p1', '2025-02-15'), principalAmount: 40 },
+      ])
+
+      expect(rows.map(row => row.status)).toEqual(['PartiallyPaid', 'Scheduled', 'Scheduled'])
+      expect(rows[0]).toMatchObject({ recordedPaymentIds: ['p1'], recordedPrincipal: 40 })
+    })
+
+    it('should leave a missed month scheduled', () => {
+      const rows = reconcileAmortizationSchedule(schedule(), [payment('p2', '2025-03-15')])
+
+      expect(rows.map(row => row.status)).toEqual(['Scheduled', 'Paid', 'Scheduled'])
+    })
+
+    it('should match a payment after the last due date to the last row', () => {
+      const rows = reconcileAmortizationSchedule(schedule(), [payment('p1', '2025-06-01')])
+
+      expect(rows.map(row => row.status)).toEqual(['Scheduled', 'Scheduled', 'Paid'])
+    })
+  })
+
+  describe('buildLoanSchedule', () => {
+    it('should rebuild the original principal and point at the next unpaid row', () => {
+      const result = buildLoanSchedule(
+        {
+          id: 'loan-1',
+          userId: 'user-1',
+          vendorId: 'vendor-1',
+          principal: 200, // remaining after one payment of 100 principal
+          interestRate: 0,
+          term: 3,
+          date: new Date('2025-01-15T00:00:00Z'),
+        },
+        [{ id: 'p1', loanId: 'loan-1', principalAmount: 100, interestAmount: 0, date: new Date('2025-02-15'), journalEntryId: 'je-1' }]
+      )
+
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.originalPrincipal).toBe(300)
+        expect(result.value.remainingPrincipal).toBe(200)
+        expect(result.value.scheduledPayment).toBe(100)
+        expect(result.value.nextPayment?.paymentNumber).toBe(2)
+      }
+    })
+
+    it('should point at a partially paid row until it is covered', () => {
+      const result = buildLoanSchedule(
+        {
+          id: 'loan-1',
+          userId: 'user-1',
+          vendorId: 'vendor-1',
+          principal: 260,
+          interestRate: 0,
+          term: 3,
+          date: new Date('2025-01-15T00:00:00Z'),
+        },
+        [{ id: 'p1', loanId: 'loan-1', principalAmount: 40, interestAmount: 0, date: new Date('2025-02-15'), journalEntryId: 'je-1' }]
+      )
+
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.nextPayment).toMatchObject({ paymentNumber: 1, status: 'PartiallyPaid', recordedPrincipal: 40 })
+      }
+    })
+  })
 })
\ No newline at end of file
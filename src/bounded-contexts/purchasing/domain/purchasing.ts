@@ -1,6 +1,7 @@
 import * as R from 'ramda'
 import { Result, Success, Failure, andThen } from '@/common/types/result'
 import { DomainFailure } from '@/common/types/errors'
+import { toCents } from '@/common/types/money'
 import { PurchasingDomainSubtype } from './errors'
 import {
   validateStringLength,
@@ -9,6 +10,7 @@ import {
   validateEmailOptional,
   pipeValidators
 } from '@/shared/validation'
+import { Account, validateAccountNotArchived } from '@/bounded-contexts/ledger/domain/ledger'
 
 // --- Value Objects ---
 
@@ -21,10 +23,11 @@ export type VendorName = string
 
 export type Email = string
 
-export type ExpenseCategory = string // e.g., "Office Supplies", "Travel"
+export type ExpenseCategoryName = string // e.g., "Office Supplies", "Travel"
 
 // String unions matching Prisma enums
 export type VendorBillStatus = 'Draft' | 'Recorded' | 'PartiallyPaid' | 'Paid'
+export type PaymentMethod = 'Cash' | 'Check' | 'CreditCard' | 'BankTransfer'
 
 // For convenience, constants
 export const VendorBillStatus = {
@@ -56,11 +59,24 @@ export type VendorBill = {
   readonly dueDate?: Date
   readonly description?: string
   readonly status: VendorBillStatus
+  readonly expenseCategory?: ExpenseCategoryName // debited to the category's account; the Default Expense role when absent
+  readonly itemId?: string // the catalog item the bill was filled in from, if any
   readonly journalEntryId: string // reference to the journal entry that records the expense/liability
   readonly createdAt?: Date
   readonly updatedAt?: Date
 }
 
+export type BillPayment = {
+  readonly id?: string
+  readonly billId: string
+  readonly amount: Money
+  readonly date: Date
+  readonly method: PaymentMethod
+  readonly reference?: string
+  readonly journalEntryId: string // reference to the journal entry that records the cash disbursement
+  readonly createdAt?: Date
+}
+
 export type Loan = {
   readonly id?: string
   readonly userId: string
@@ -68,6 +84,8 @@ export type Loan = {
   readonly principal: Money
   readonly interestRate?: number // annual percentage, e.g., 5.0
   readonly term?: number // months
+  readonly date?: Date // date the proceeds were received
+  readonly journalEntryId?: string // reference to the journal entry that records the proceeds
   readonly createdAt?: Date
   readonly updatedAt?: Date
 }
@@ -90,13 +108,53 @@ export type CashExpense = {
   readonly vendorId: string
   readonly amount: Money
   readonly date: Date
-  readonly expenseCategory: string
+  readonly expenseCategory: ExpenseCategoryName
   readonly description?: string
   readonly journalEntryId: string // reference to the journal entry that records the expense
   readonly createdAt?: Date
   readonly updatedAt?: Date
 }
 
+// A user-defined expense category; expenses in it are debited to its Expense account
+export type ExpenseCategory = {
+  readonly id?: string
+  readonly userId: string
+  readonly name: ExpenseCategoryName
+  readonly accountId: string
+  readonly createdAt?: Date
+  readonly updatedAt?: Date
+}
+
+// One row of a level-payment amortization table
+export type AmortizationRow = {
+  readonly paymentNumber: number // 1-based
+  readonly dueDate: Date
+  readonly payment: Money
+  readonly interest: Money
+  readonly principal: Money
+  readonly remainingBalance: Money // balance after this payment
+}
+
+// An amortization row matched against the loan payments actually recorded in its period
+export type ReconciledAmortizationRow = AmortizationRow & {
+  readonly status: 'Paid' | 'PartiallyPaid' | 'Scheduled'
+  readonly recordedPaymentIds: string[] // in date order; empty for Scheduled rows
+  readonly recordedPrincipal?: Money
+  readonly recordedInterest?: Money
+}
+
+export type LoanSchedule = {
+  readonly loanId: string
+  readonly originalPrincipal: Money
+  readonly interestRate: number
+  readonly term: number
+  readonly startDate: Date
+  readonly scheduledPayment: Money // the level payment (the last row may differ by rounding)
+  readonly remainingPrincipal: Money // actual remaining principal on the loan
+  readonly rows: ReconciledAmortizationRow[]
+  readonly nextPayment: ReconciledAmortizationRow | null
+}
+
 // --- Pure Validation Functions ---
 
 /**
@@ -215,6 +273,22 @@ export const validateExpenseAmount = validatePositiveMoneyWith('InvalidExpenseAm
  */
 export const validateExpenseCategory = validateStringLength(1, 100, 'InvalidExpenseCategory' as PurchasingDomainSubtype)
 
+/**
+ * Validate the account an expense category is debited to: it must be an Expense account
+ * and must not be archived.
+ */
+export const validateExpenseCategoryAccount = (account: Account): Result<Account> => {
+  if (account.type !== 'Expense') {
+    return Failure(
+      DomainFailure(
+        'InvalidExpenseCategoryAccount' as PurchasingDomainSubtype,
+        `Account ${account.code} is ${account.type}; an expense category requires an Expense account.`
+      )
+    )
+  }
+  return validateAccountNotArchived(account)
+}
+
 /**
  * Validate bill date (not future).
  */
@@ -243,6 +317,20 @@ export const validatePaymentDateNotFuture = (date: Date): Result<Date> => {
   return result
 }
 
+/**
+ * Validate loan date (not future).
+ */
+export const validateLoanDateNotFuture = (date: Date): Result<Date> => {
+  const result = validateDateNotFutureShared(date)
+  if (!result.isSuccess) {
+    const subtype = result.error.subtype === 'DateInFuture'
+      ? 'LoanDateInFuture' as PurchasingDomainSubtype
+      : 'InvalidLoanDate' as PurchasingDomainSubtype
+    return Failure(DomainFailure(subtype, result.error.message))
+  }
+  return result
+}
+
 /**
  * Validate due date is after bill date.
  */
@@ -261,6 +349,46 @@ export const validateDueDate = (billDate: Date, dueDate?: Date): Result<Date | u
   return validator(dueDate)
 }
 
+/**
+ * Validate bill payment amount (positive, up to two decimals).
+ */
+export const validateBillPaymentAmount = validatePositiveMoneyWith('InvalidPaymentAmount' as PurchasingDomainSubtype)
+
+/**
+ * Validate payment method.
+ */
+export const validatePaymentMethod = (method: string): Result<PaymentMethod> => {
+  const allowed: PaymentMethod[] = ['Cash', 'Check', 'CreditCard', 'BankTransfer']
+  if (allowed.includes(method as PaymentMethod)) {
+    return Success(method as PaymentMethod)
+  }
+  return Failure(
+    DomainFailure(
+      'InvalidPaymentMethod' as PurchasingDomainSubtype,
+      'Payment method must be one of: Cash, Check, CreditCard, BankTransfer.'
+    )
+  )
+}
+
+/**
+ * Validate payment reference (optional, up to 100 chars).
+ */
+export const validatePaymentReference = (reference?: string): Result<string | undefined> => {
+  if (reference === undefined || reference === '') {
+    return Success(undefined)
+  }
+  const trimmed = reference.trim()
+  if (trimmed.length > 100) {
+    return Failure(
+      DomainFailure(
+        'InvalidPaymentReference' as PurchasingDomainSubtype,
+        'Payment reference must be at most 100 characters.'
+      )
+    )
+  }
+  return Success(trimmed)
+}
+
 /**
  * Validate that payment does not exceed open amount (for vendor bills).
  */
@@ -406,4 +534,138 @@ export const validateCashExpense = (
   } else {
     return Failure(combinedResult2.error)
   }
+}
+
+// --- Loan Amortization ---
+
+/**
+ * Add whole months to a date (UTC), clamping to the last day of the target month.
+ */
+const addMonths = (date: Date, months: number): Date => {
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth() + months
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(
+    year,
+    month,
+    Math.min(date.getUTCDate(), lastDay),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+    date.getUTCMilliseconds()
+  ))
+}
+
+/**
+ * Build a level-payment amortization table.
+ * Payments are monthly, the first due one month after startDate. Interest is the annual rate / 12
+ * applied to the opening balance; the last row absorbs rounding so the balance ends at zero.
+ */
+export const buildAmortizationSchedule = (
+  principal: Money,
+  interestRate: number | undefined,
+  term: number | undefined,
+  startDate: Date
+): Result<AmortizationRow[]> => {
+  if (interestRate === undefined || term === undefined) {
+    return Failure(
+      DomainFailure(
+        'LoanTermsMissing' as PurchasingDomainSubtype,
+        'An amortization schedule needs both an interest rate and a term.'
+      )
+    )
+  }
+  const principalResult = validateLoanPrincipal(principal)
+  if (!principalResult.isSuccess) return principalResult as Result<AmortizationRow[]>
+  const rateResult = validateInterestRate(interestRate)
+  if (!rateResult.isSuccess) return rateResult as Result<AmortizationRow[]>
+  const termResult = validateLoanTerm(term)
+  if (!termResult.isSuccess) return termResult as Result<AmortizationRow[]>
+  if (isNaN(startDate.getTime())) {
+    return Failure(DomainFailure('InvalidLoanDate' as PurchasingDomainSubtype, 'Invalid loan start date.'))
+  }
+
+  const monthlyRate = interestRate / 100 / 12
+  const levelPayment = monthlyRate === 0
+    ? toCents(principal / term)
+    : toCents(principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -term)))
+
+  const rows = R.range(1, term + 1).reduce<AmortizationRow[]>((acc, paymentNumber) => {
+    const openingBalance = acc.length > 0 ? acc[acc.length - 1].remainingBalance : principal
+    const interest = toCents(openingBalance * monthlyRate)
+    const isLast = paymentNumber === term
+    const principalPortion = isLast
+      ? openingBalance
+      : Math.min(toCents(levelPayment - interest), openingBalance)
+    return [...acc, {
+      paymentNumber,
+      dueDate: addMonths(startDate, paymentNumber),
+      payment: toCents(principalPortion + interest),
+      interest,
+      principal: toCents(principalPortion),
+      remainingBalance: toCents(openingBalance - principalPortion),
+    }]
+  }, [])
+
+  return Success(rows)
+}
+
+const utcDay = (date: Date): number =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+
+/**
+ * Match recorded loan payments to amortization rows by period: a payment belongs to the first row
+ * due on or after the day it was made, and payments after the last due date to the last row.
+ * A missed month therefore stays Scheduled rather than being filled by a later payment.
+ * A row is Paid once the payments in its period cover its payment, and PartiallyPaid while they fall short.
+ */
+export const reconcileAmortizationSchedule = (
+  rows: AmortizationRow[],
+  payments: LoanPayment[]
+): ReconciledAmortizationRow[] => {
+  const ordered = R.sortBy((payment: LoanPayment) => payment.date.getTime(), payments)
+  const rowNumberOf = (payment: LoanPayment): number =>
+    rows.find(row => utcDay(payment.date) <= utcDay(row.dueDate))?.paymentNumber ?? rows.length
+  return rows.map(row => {
+    const rowPayments = ordered.filter(payment => rowNumberOf(payment) === row.paymentNumber)
+    if (rowPayments.length === 0) {
+      return { ...row, status: 'Scheduled' as const, recordedPaymentIds: [] }
+    }
+    const recordedPrincipal = toCents(R.sum(rowPayments.map(payment => payment.principalAmount)))
+    const recordedInterest = toCents(R.sum(rowPayments.map(payment => payment.interestAmount)))
+    return {
+      ...row,
+      status: toCents(recordedPrincipal + recordedInterest) >= row.payment ? 'Paid' as const : 'PartiallyPaid' as const,
+      recordedPaymentIds: rowPayments.map(payment => payment.id!),
+      recordedPrincipal,
+      recordedInterest,
+    }
+  })
+}
+
+/**
+ * Build the reconciled schedule for a loan given its recorded payments.
+ * The loan's principal is the remaining principal, so the original amount is rebuilt
+ * by adding back the principal portion of every recorded payment.
+ */
+export const buildLoanSchedule = (loan: Loan, payments: LoanPayment[]): Result<LoanSchedule> => {
+  const principalPaid = payments.reduce((sum, payment) => sum + payment.principalAmount, 0)
+  const originalPrincipal = toCents(loan.principal + principalPaid)
+  const startDate = loan.date ?? loan.createdAt ?? new Date(NaN)
+
+  const rowsResult = buildAmortizationSchedule(originalPrincipal, loan.interestRate, loan.term, startDate)
+  if (!rowsResult.isSuccess) return rowsResult as Result<LoanSchedule>
+
+  const rows = reconcileAmortizationSchedule(rowsResult.value, payments)
+  return Success({
+    loanId: loan.id ?? '',
+    originalPrincipal,
+    interestRate: loan.interestRate!,
+    term: loan.term!,
+    startDate,
+    scheduledPayment: rows[0].payment,
+    remainingPrincipal: loan.principal,
+    rows,
+    nextPayment: rows.find(row => row.status !== 'Paid') ?? null,
+  })
 }
\ No newline at end of file
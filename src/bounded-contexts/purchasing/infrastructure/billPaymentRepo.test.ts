@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { createBillPayment, findBillPaymentById, listPaymentsByBill, getTotalPaidForBill } from './billPaymentRepo'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Purchasing Context: Bill Payment Repository (Infrastructure)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    // 0. Period (depends on User, but must be deleted before User due to foreign key)
+    await prisma.period.deleteMany()
+    // 1. Child tables of JournalEntry (that are not already in purchasing)
+    await prisma.payment.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    // 2. Purchasing child tables of JournalEntry (bill payments cascade with their bills)
+    await prisma.loanPayment.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    // 3. Other child tables
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    // 4. JournalLine (depends on JournalEntry and Account)
+    await prisma.journalLine.deleteMany()
+    // 5. JournalEntry (depends on User)
+    await prisma.journalEntry.deleteMany()
+    // 6. Account (depends on User)
+    await prisma.account.deleteMany()
+    // 7. Session and Collaborator (depend on User)
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    // 8. User
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (id: string = 'test-user-123', username: string = 'testuser123') => {
+    return await prisma.user.create({
+      data: { id, username }
+    })
+  }
+
+  const createTestJournalEntry = async (userId: string, entryNumber: string) => {
+    return await prisma.journalEntry.create({
+      data: {
+        userId,
+        entryNumber,
+        description: 'Test entry',
+        date: new Date('2025-01-20'),
+      }
+    })
+  }
+
+  const createTestBill = async (userId: string, amount: number = 1000) => {
+    const vendor = await prisma.vendor.create({
+      data: { userId, name: 'Test Vendor', balance: amount }
+    })
+    const journalEntry = await createTestJournalEntry(userId, 'BILL-001')
+    return await prisma.vendorBill.create({
+      data: {
+        userId,
+        vendorId: vendor.id,
+        billNumber: 'BILL-001',
+        amount,
+        date: new Date('2025-01-15'),
+        status: 'Recorded',
+        journalEntryId: journalEntry.id,
+      }
+    })
+  }
+
+  it('should create a bill payment', async () => {
+    const user = await createTestUser()
+    const bill = await createTestBill(user.id)
+    const journalEntry = await createTestJournalEntry(user.id, 'BILL-PAY-001')
+
+    const result = await createBillPayment({
+      billId: bill.id,
+      amount: 400,
+      date: new Date('2025-01-20'),
+      method: 'Check',
+      reference: 'CHK-100',
+      journalEntryId: journalEntry.id,
+    })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.id).toBeDefined()
+      expect(result.value.billId).toBe(bill.id)
+      expect(result.value.amount).toBe(400)
+      expect(result.value.method).toBe('Check')
+      expect(result.value.reference).toBe('CHK-100')
+      expect(result.value.journalEntryId).toBe(journalEntry.id)
+    }
+  })
+
+  it('should find a bill payment by ID and scope it to the user', async () => {
+    const user = await createTestUser()
+    const otherUser = await createTestUser('other-user-456', 'otheruser456')
+    const bill = await createTestBill(user.id)
+    const journalEntry = await createTestJournalEntry(user.id, 'BILL-PAY-001')
+    const created = await createBillPayment({
+      billId: bill.id,
+      amount: 250,
+      date: new Date('2025-01-20'),
+      method: 'Cash',
+      journalEntryId: journalEntry.id,
+    })
+    if (!created.isSuccess) throw new Error('Failed to create bill payment for test')
+
+    const found = await findBillPaymentById(user.id, created.value.id!)
+    expect(found.isSuccess).toBe(true)
+    if (found.isSuccess) {
+      expect(found.value?.id).toBe(created.value.id)
+    }
+
+    const hidden = await findBillPaymentById(otherUser.id, created.value.id!)
+    expect(hidden.isSuccess).toBe(true)
+    if (hidden.isSuccess) {
+      expect(hidden.value).toBeNull()
+    }
+  })
+
+  it('should list payments and total the amount paid for a bill', async () => {
+    const user = await createTestUser()
+    const bill = await createTestBill(user.id)
+    const firstEntry = await createTestJournalEntry(user.id, 'BILL-PAY-001')
+    const secondEntry = await createTestJournalEntry(user.id, 'BILL-PAY-002')
+    await createBillPayment({ billId: bill.id, amount: 300, date: new Date('2025-01-20'), method: 'Cash', journalEntryId: firstEntry.id })
+    await createBillPayment({ billId: bill.id, amount: 200.5, date: new Date('2025-01-25'), method: 'BankTransfer', journalEntryId: secondEntry.id })
+
+    const listResult = await listPaymentsByBill(user.id, bill.id)
+    expect(listResult.isSuccess).toBe(true)
+    if (listResult.isSuccess) {
+      expect(listResult.value).toHaveLength(2)
+    }
+
+    const totalResult = await getTotalPaidForBill(user.id, bill.id)
+    expect(totalResult.isSuccess).toBe(true)
+    if (totalResult.isSuccess) {
+      expect(totalResult.value).toBe(500.5)
+    }
+  })
+
+  it('should return zero paid for a bill without payments', async () => {
+    const user = await createTestUser()
+    const bill = await createTestBill(user.id)
+
+    const totalResult = await getTotalPaidForBill(user.id, bill.id)
+
+    expect(totalResult.isSuccess).toBe(true)
+    if (totalResult.isSuccess) {
+      expect(totalResult.value).toBe(0)
+    }
+  })
+})
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Prisma } from '@/prisma/client'
+import { BillPayment, PaymentMethod } from '../domain/purchasing'
+import { PurchasingInfrastructureSubtype } from '../domain/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
+  try {
+    const data = await promise
+    return Success(data)
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError) {
+      if (e.code === 'P2002') {
+        // Duplicate key (unique constraint on journalEntryId)
+        return Failure(
+          InfrastructureFailure(
+            'DuplicateKey' as PurchasingInfrastructureSubtype,
+            'Bill payment journal entry already exists.'
+          )
+        )
+      }
+      // other known errors
+      return Failure(
+        InfrastructureFailure(
+          'BillPaymentRepositoryError' as PurchasingInfrastructureSubtype,
+          `Database error: ${e.message}`,
+          e
+        )
+      )
+    }
+    // unknown error
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(
+      InfrastructureFailure(
+        'BillPaymentRepositoryError' as PurchasingInfrastructureSubtype,
+        errorMessage,
+        e
+      )
+    )
+  }
+}
+
+// Mapper from Prisma model to domain BillPayment
+const toDomainBillPayment = (prismaPayment: any): BillPayment => ({
+  id: prismaPayment.id,
+  billId: prismaPayment.billId,
+  amount: Number(prismaPayment.amount),
+  date: prismaPayment.date,
+  method: prismaPayment.method as PaymentMethod,
+  reference: prismaPayment.reference ?? undefined,
+  journalEntryId: prismaPayment.journalEntryId,
+  createdAt: prismaPayment.createdAt,
+})
+
+/**
+ * Create a new bill payment in the database.
+ */
+export const createBillPayment = (payment: Omit<BillPayment, 'id' | 'createdAt'>, db: DbClient = prisma): Promise<Result<BillPayment>> => {
+  const action = db.billPayment.create({
+    data: {
+      billId: payment.billId,
+      amount: payment.amount,
+      date: payment.date,
+      method: payment.method,
+      reference: payment.reference,
+      journalEntryId: payment.journalEntryId,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainBillPayment(result.value))
+      : result
+  )
+}
+
+/**
+ * Find a bill payment by ID and user ID (via bill) to ensure isolation.
+ */
+export const findBillPaymentById = (userId: string, paymentId: string): Promise<Result<BillPayment | null>> => {
+  const action = prisma.billPayment.findFirst({
+    where: {
+      id: paymentId,
+      bill: {
+        userId,
+      },
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainBillPayment(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * List all payments for a specific vendor bill (user‑isolated).
+ */
+export const listPaymentsByBill = (userId: string, billId: string): Promise<Result<BillPayment[]>> => {
+  const action = prisma.billPayment.findMany({
+    where: {
+      billId,
+      bill: {
+        userId,
+      },
+    },
+    orderBy: { date: 'asc' },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(toDomainBillPayment))
+      : result
+  )
+}
+
+/**
+ * Calculate the total amount already paid for a vendor bill.
+ */
+export const getTotalPaidForBill = (userId: string, billId: string, db: DbClient = prisma): Promise<Result<number>> => {
+  const action = db.billPayment.aggregate({
+    where: {
+      billId,
+      bill: {
+        userId,
+      },
+    },
+    _sum: {
+      amount: true,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(Number(result.value._sum.amount ?? 0))
+      : result
+  )
+}
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
 import { Prisma } from '@/prisma/client'
@@ -59,8 +60,8 @@ const toDomainCashExpense = (prismaExpense: any): CashExpense => ({
 /**
  * Create a new cash expense in the database.
  */
-export const createCashExpense = (expense: Omit<CashExpense, 'id' | 'createdAt' | 'updatedAt'>): Promise<Result<CashExpense>> => {
-  const action = prisma.cashExpense.create({
+export const createCashExpense = (expense: Omit<CashExpense, 'id' | 'createdAt' | 'updatedAt'>, db: DbClient = prisma): Promise<Result<CashExpense>> => {
+  const action = db.cashExpense.create({
     data: {
       userId: expense.userId,
       vendorId: expense.vendorId,
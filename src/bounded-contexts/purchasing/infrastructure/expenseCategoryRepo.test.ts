@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import {
+  createExpenseCategory,
+  findExpenseCategoryById,
+  findExpenseCategoryByName,
+  listExpenseCategories,
+  updateExpenseCategory,
+  deleteExpenseCategory,
+} from './expenseCategoryRepo'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Purchasing Context: Expense Category Repository (Infrastructure)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    // Expense categories depend on Account
+    await prisma.expenseCategory.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const setupUserWithExpenseAccounts = async (id: string = 'test-user-123', username: string = 'testuser123') => {
+    const user = await prisma.user.create({ data: { id, username } })
+    const travel = await prisma.account.create({
+      data: { userId: user.id, code: '503', name: 'Travel Expense', type: 'Expense', normalBalance: 'Debit' }
+    })
+    const supplies = await prisma.account.create({
+      data: { userId: user.id, code: '504', name: 'Supplies Expense', type: 'Expense', normalBalance: 'Debit' }
+    })
+    return { user, travel, supplies }
+  }
+
+  it('should create an expense category and find it by id and by name', async () => {
+    const { user, travel } = await setupUserWithExpenseAccounts()
+
+    const result = await createExpenseCategory({ userId: user.id, name: 'Travel', accountId: travel.id })
+
+    expect(result.isSuccess).toBe(true)
+    if (!result.isSuccess) return expect.fail('Expected success but got failure')
+    expect(result.value.name).toBe('Travel')
+    expect(result.value.accountId).toBe(travel.id)
+    expect(result.value.createdAt).toBeInstanceOf(Date)
+
+    const byId = await findExpenseCategoryById(user.id, result.value.id!)
+    expect(byId.isSuccess && byId.value?.name).toBe('Travel')
+
+    const byName = await findExpenseCategoryByName(user.id, 'Travel')
+    expect(byName.isSuccess && byName.value?.id).toBe(result.value.id)
+  })
+
+  it('should reject a duplicate name for the same user but allow it for another user', async () => {
+    const { user, travel } = await setupUserWithExpenseAccounts()
+    const other = await setupUserWithExpenseAccounts('other-user-456', 'otheruser456')
+    await createExpenseCategory({ userId: user.id, name: 'Travel', accountId: travel.id })
+
+    const duplicate = await createExpenseCategory({ userId: user.id, name: 'Travel', accountId: travel.id })
+    expect(duplicate.isSuccess).toBe(false)
+    if (!duplicate.isSuccess) {
+      expect(duplicate.error.subtype).toBe('DuplicateKey')
+    }
+
+    const otherUsers = await createExpenseCategory({ userId: other.user.id, name: 'Travel', accountId: other.travel.id })
+    expect(otherUsers.isSuccess).toBe(true)
+  })
+
+  it('should not find another user\'s category', async () => {
+    const { user, travel } = await setupUserWithExpenseAccounts()
+    const other = await setupUserWithExpenseAccounts('other-user-456', 'otheruser456')
+    const created = await createExpenseCategory({ userId: user.id, name: 'Travel', accountId: travel.id })
+    if (!created.isSuccess) return expect.fail('Expected success but got failure')
+
+    const result = await findExpenseCategoryById(other.user.id, created.value.id!)
+    expect(result).toEqual({ isSuccess: true, value: null })
+  })
+
+  it('should list, update and delete categories', async () => {
+    const { user, travel, supplies } = await setupUserWithExpenseAccounts()
+    await createExpenseCategory({ userId: user.id, name: 'Travel', accountId: travel.id })
+    const office = await createExpenseCategory({ userId: user.id, name: 'Office', accountId: travel.id })
+    if (!office.isSuccess) return expect.fail('Expected success but got failure')
+
+    const listed = await listExpenseCategories(user.id)
+    expect(listed.isSuccess && listed.value.map(c => c.name)).toEqual(['Office', 'Travel'])
+
+    const updated = await updateExpenseCategory(user.id, office.value.id!, { name: 'Office Supplies', accountId: supplies.id })
+    expect(updated.isSuccess).toBe(true)
+    if (updated.isSuccess) {
+      expect(updated.value.name).toBe('Office Supplies')
+      expect(updated.value.accountId).toBe(supplies.id)
+    }
+
+    const deleted = await deleteExpenseCategory(user.id, office.value.id!)
+    expect(deleted.isSuccess).toBe(true)
+    const afterDelete = await listExpenseCategories(user.id)
+    expect(afterDelete.isSuccess && afterDelete.value.map(c => c.name)).toEqual(['Travel'])
+  })
+
+  it('should remove categories together with their account', async () => {
+    const { user, travel } = await setupUserWithExpenseAccounts()
+    await createExpenseCategory({ userId: user.id, name: 'Travel', accountId: travel.id })
+
+    await prisma.account.delete({ where: { id: travel.id } })
+
+    const listed = await listExpenseCategories(user.id)
+    expect(listed.isSuccess && listed.value).toEqual([])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { prisma } from '@/common/infrastructure/db'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Prisma } from '@/prisma/client'
+import { ExpenseCategory } from '../domain/purchasing'
+import { Account } from '@/bounded-contexts/ledger/domain/ledger'
+import { findAccountById } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { PurchasingInfrastructureSubtype } from '../domain/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
+  try {
+    const data = await promise
+    return Success(data)
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError) {
+      if (e.code === 'P2002') {
+        // Duplicate key (unique constraint on category name per user)
+        return Failure(
+          InfrastructureFailure(
+            'DuplicateKey' as PurchasingInfrastructureSubtype,
+            'Expense category name already exists for this user.'
+          )
+        )
+      }
+      // other known errors
+      return Failure(
+        InfrastructureFailure(
+          'ExpenseCategoryRepositoryError' as PurchasingInfrastructureSubtype,
+          `Database error: ${e.message}`,
+          e
+        )
+      )
+    }
+    // unknown error
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(
+      InfrastructureFailure(
+        'ExpenseCategoryRepositoryError' as PurchasingInfrastructureSubtype,
+        errorMessage,
+        e
+      )
+    )
+  }
+}
+
+// Mapper from Prisma model to domain ExpenseCategory
+const toDomainExpenseCategory = (prismaCategory: any): ExpenseCategory => ({
+  id: prismaCategory.id,
+  userId: prismaCategory.userId,
+  name: prismaCategory.name,
+  accountId: prismaCategory.accountId,
+  createdAt: prismaCategory.createdAt,
+  updatedAt: prismaCategory.updatedAt,
+})
+
+/**
+ * Create a new expense category in the database.
+ */
+export const createExpenseCategory = (category: Omit<ExpenseCategory, 'id' | 'createdAt' | 'updatedAt'>): Promise<Result<ExpenseCategory>> => {
+  const action = prisma.expenseCategory.create({
+    data: {
+      userId: category.userId,
+      name: category.name,
+      accountId: category.accountId,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainExpenseCategory(result.value))
+      : result
+  )
+}
+
+/**
+ * Find an expense category by ID and user ID (ensures isolation).
+ */
+export const findExpenseCategoryById = (userId: string, categoryId: string): Promise<Result<ExpenseCategory | null>> => {
+  const action = prisma.expenseCategory.findFirst({
+    where: { id: categoryId, userId },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainExpenseCategory(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * Find an expense category by its name for a user.
+ */
+export const findExpenseCategoryByName = (userId: string, name: string): Promise<Result<ExpenseCategory | null>> => {
+  const action = prisma.expenseCategory.findUnique({
+    where: { userId_name: { userId, name } },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainExpenseCategory(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * List all expense categories for a user.
+ */
+export const listExpenseCategories = (userId: string): Promise<Result<ExpenseCategory[]>> => {
+  const action = prisma.expenseCategory.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(toDomainExpenseCategory))
+      : result
+  )
+}
+
+/**
+ * Update an expense category's name and/or account.
+ */
+export const updateExpenseCategory = (
+  userId: string,
+  categoryId: string,
+  changes: { name?: string; accountId?: string }
+): Promise<Result<ExpenseCategory>> => {
+  const action = prisma.expenseCategory.update({
+    where: { id: categoryId, userId },
+    data: changes,
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainExpenseCategory(result.value))
+      : result
+  )
+}
+
+/**
+ * Delete an expense category. Expenses and bills already recorded keep the category name.
+ */
+export const deleteExpenseCategory = (userId: string, categoryId: string): Promise<Result<ExpenseCategory>> => {
+  const action = prisma.expenseCategory.delete({
+    where: { id: categoryId, userId },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainExpenseCategory(result.value))
+      : result
+  )
+}
+
+/**
+ * Find the Expense account an expense in the named category is debited to.
+ * Returns null when the user has no category with that name.
+ */
+export const findExpenseCategoryAccount = async (userId: string, name: string): Promise<Result<Account | null>> => {
+  const categoryResult = await findExpenseCategoryByName(userId, name)
+  if (!categoryResult.isSuccess) return categoryResult
+
+  return categoryResult.value
+    ? findAccountById(userId, categoryResult.value.accountId)
+    : Success(null)
+}
\ No newline at end of file
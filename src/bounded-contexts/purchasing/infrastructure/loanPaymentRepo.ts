@@ -1,4 +1,5 @@
 import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
 import { Prisma } from '@/prisma/client'
@@ -58,8 +59,8 @@ const toDomainLoanPayment = (prismaPayment: any): LoanPayment => ({
 /**
  * Create a new loan payment in the database.
  */
-export const createLoanPayment = (payment: Omit<LoanPayment, 'id' | 'createdAt' | 'updatedAt'>): Promise<Result<LoanPayment>> => {
-  const action = prisma.loanPayment.create({
+export const createLoanPayment = (payment: Omit<LoanPayment, 'id' | 'createdAt' | 'updatedAt'>, db: DbClient = prisma): Promise<Result<LoanPayment>> => {
+  const action = db.loanPayment.create({
     data: {
       loanId: payment.loanId,
       principalAmount: payment.principalAmount,
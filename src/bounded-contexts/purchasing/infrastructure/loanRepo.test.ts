@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
-import { createLoan, findLoanById, listLoans, findLoanByVendorId, updateLoanPrincipal } from './loanRepo'
+import { createLoan, findLoanById, listLoans, updateLoanPrincipal } from './loanRepo'
 import { prisma } from '@/common/infrastructure/db'
 
 describe('Purchasing Context: Loan Repository (Infrastructure)', () => {
@@ -31,8 +31,9 @@ describe('Purchasing Context: Loan Repository (Infrastructure)', () => {
     await prisma.journalEntry.deleteMany()
     // 6. Account (depends on User)
     await prisma.account.deleteMany()
-    // 7. Session (depends on User)
+    // 7. Session and Collaborator (depend on User)
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     // 8. User
     await prisma.user.deleteMany()
   })
@@ -185,23 +186,20 @@ describe('Purchasing Context: Loan Repository (Infrastructure)', () => {
     }
   })
 
-  it('should find a loan by vendor ID', async () => {
+  it('should list several loans for the same vendor and filter by vendor', async () => {
     const user = await createTestUser()
-    const vendor = await createTestVendor(user.id)
+    const vendor = await createTestVendor(user.id, 'Bank')
+    const otherVendor = await createTestVendor(user.id, 'Other Lender')
 
-    const loanData = {
-      userId: user.id,
-      vendorId: vendor.id,
-      principal: 1500,
-    }
-    const createResult = await createLoan(loanData)
-    expect(createResult.isSuccess).toBe(true)
+    await createLoan({ userId: user.id, vendorId: vendor.id, principal: 1500 })
+    await createLoan({ userId: user.id, vendorId: vendor.id, principal: 2500 })
+    await createLoan({ userId: user.id, vendorId: otherVendor.id, principal: 500 })
 
-    const findResult = await findLoanByVendorId(user.id, vendor.id)
-    expect(findResult.isSuccess).toBe(true)
-    if (findResult.isSuccess) {
-      expect(findResult.value?.vendorId).toBe(vendor.id)
-      expect(findResult.value?.principal).toBe(1500)
+    const listResult = await listLoans(user.id, { vendorId: vendor.id })
+    expect(listResult.isSuccess).toBe(true)
+    if (listResult.isSuccess) {
+      expect(listResult.value).toHaveLength(2)
+      expect(listResult.value.every(l => l.vendorId === vendor.id)).toBe(true)
     } else {
       expect.fail('Expected success but got failure')
     }
@@ -1,4 +1,5 @@
 import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
 import { Prisma } from '@/prisma/client'
@@ -50,6 +51,8 @@ const toDomainLoan = (prismaLoan: any): Loan => ({
   principal: Number(prismaLoan.principal),
   interestRate: prismaLoan.interestRate ? Number(prismaLoan.interestRate) : undefined,
   term: prismaLoan.term ?? undefined,
+  date: prismaLoan.date ?? undefined,
+  journalEntryId: prismaLoan.journalEntryId ?? undefined,
   createdAt: prismaLoan.createdAt,
   updatedAt: prismaLoan.updatedAt,
 })
@@ -57,14 +60,16 @@ const toDomainLoan = (prismaLoan: any): Loan => ({
 /**
  * Create a new loan in the database.
  */
-export const createLoan = (loan: Omit<Loan, 'id' | 'createdAt' | 'updatedAt'>): Promise<Result<Loan>> => {
-  const action = prisma.loan.create({
+export const createLoan = (loan: Omit<Loan, 'id' | 'createdAt' | 'updatedAt'>, db: DbClient = prisma): Promise<Result<Loan>> => {
+  const action = db.loan.create({
     data: {
       userId: loan.userId,
       vendorId: loan.vendorId,
       principal: loan.principal,
       interestRate: loan.interestRate,
       term: loan.term,
+      date: loan.date,
+      journalEntryId: loan.journalEntryId,
     },
   })
   return safeDbCall(action).then(result =>
@@ -90,32 +95,37 @@ export const findLoanById = (userId: string, loanId: string): Promise<Result<Loa
 }
 
 /**
- * List all loans for a user.
+ * Lock a loan row for the rest of the unit of work (SELECT ... FOR UPDATE), then read it.
+ * Must be the first read in the transaction, so the principal read is current until the payment commits.
  */
-export const listLoans = (userId: string): Promise<Result<Loan[]>> => {
-  const action = prisma.loan.findMany({
-    where: { userId },
-    orderBy: { createdAt: 'desc' },
-  })
+export const findLoanByIdForUpdate = (userId: string, loanId: string, db: DbClient): Promise<Result<Loan | null>> => {
+  const action = db.$queryRaw`SELECT id FROM Loan WHERE id = ${loanId} AND userId = ${userId} FOR UPDATE`
+    .then(() => db.loan.findFirst({
+      where: { id: loanId, userId },
+    }))
   return safeDbCall(action).then(result =>
     result.isSuccess
-      ? Success(result.value.map(toDomainLoan))
+      ? Success(result.value ? toDomainLoan(result.value) : null)
       : result
   )
 }
 
 /**
- * Find a loan by vendor ID and user ID (ensures isolation).
- * Assumes at most one loan per vendor (but returns the first if multiple).
+ * List loans for a user, optionally filtered by vendor, with pagination.
  */
-export const findLoanByVendorId = (userId: string, vendorId: string): Promise<Result<Loan | null>> => {
-  const action = prisma.loan.findFirst({
-    where: { userId, vendorId },
-    include: { payments: true },
+export const listLoans = (
+  userId: string,
+  options?: { vendorId?: string; skip?: number; take?: number }
+): Promise<Result<Loan[]>> => {
+  const action = prisma.loan.findMany({
+    where: { userId, ...(options?.vendorId ? { vendorId: options.vendorId } : {}) },
+    orderBy: { createdAt: 'desc' },
+    skip: options?.skip,
+    take: options?.take,
   })
   return safeDbCall(action).then(result =>
     result.isSuccess
-      ? Success(result.value ? toDomainLoan(result.value) : null)
+      ? Success(result.value.map(toDomainLoan))
       : result
   )
 }
@@ -123,8 +133,8 @@ export const findLoanByVendorId = (userId: string, vendorId: string): Promise<Re
 /**
  * Update loan principal (e.g., after a payment).
  */
-export const updateLoanPrincipal = (userId: string, loanId: string, newPrincipal: number): Promise<Result<Loan>> => {
-  const action = prisma.loan.update({
+export const updateLoanPrincipal = (userId: string, loanId: string, newPrincipal: number, db: DbClient = prisma): Promise<Result<Loan>> => {
+  const action = db.loan.update({
     where: { id: loanId, userId },
     data: { principal: newPrincipal },
   })
@@ -31,8 +31,9 @@ describe('Purchasing Context: Vendor Bill Repository (Infrastructure)', () => {
     await prisma.journalEntry.deleteMany()
     // 6. Account (depends on User)
     await prisma.account.deleteMany()
-    // 7. Session (depends on User)
+    // 7. Session and Collaborator (depend on User)
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     // 8. User
     await prisma.user.deleteMany()
   })
@@ -1,4 +1,5 @@
 import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
 import { Prisma } from '@/prisma/client'
@@ -53,6 +54,8 @@ const toDomainVendorBill = (prismaBill: any): VendorBill => ({
   dueDate: prismaBill.dueDate ?? undefined,
   description: prismaBill.description ?? undefined,
   status: prismaBill.status as VendorBillStatus,
+  expenseCategory: prismaBill.expenseCategory ?? undefined,
+  itemId: prismaBill.itemId ?? undefined,
   journalEntryId: prismaBill.journalEntryId,
   createdAt: prismaBill.createdAt,
   updatedAt: prismaBill.updatedAt,
@@ -61,8 +64,8 @@ const toDomainVendorBill = (prismaBill: any): VendorBill => ({
 /**
  * Create a new vendor bill in the database.
  */
-export const createVendorBill = (bill: Omit<VendorBill, 'id' | 'createdAt' | 'updatedAt'>): Promise<Result<VendorBill>> => {
-  const action = prisma.vendorBill.create({
+export const createVendorBill = (bill: Omit<VendorBill, 'id' | 'createdAt' | 'updatedAt'>, db: DbClient = prisma): Promise<Result<VendorBill>> => {
+  const action = db.vendorBill.create({
     data: {
       userId: bill.userId,
       vendorId: bill.vendorId,
@@ -72,6 +75,8 @@ export const createVendorBill = (bill: Omit<VendorBill, 'id' | 'createdAt' | 'up
       dueDate: bill.dueDate,
       description: bill.description,
       status: bill.status,
+      expenseCategory: bill.expenseCategory,
+      itemId: bill.itemId,
       journalEntryId: bill.journalEntryId,
     },
   })
@@ -96,6 +101,22 @@ export const findVendorBillById = (userId: string, billId: string): Promise<Resu
   )
 }
 
+/**
+ * Lock a vendor bill row for the rest of the unit of work (SELECT ... FOR UPDATE), then read it.
+ * Must be the first read in the transaction, so the bill and the payments read after it are current.
+ */
+export const findVendorBillByIdForUpdate = (userId: string, billId: string, db: DbClient): Promise<Result<VendorBill | null>> => {
+  const action = db.$queryRaw`SELECT id FROM VendorBill WHERE id = ${billId} AND userId = ${userId} FOR UPDATE`
+    .then(() => db.vendorBill.findFirst({
+      where: { id: billId, userId },
+    }))
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainVendorBill(result.value) : null)
+      : result
+  )
+}
+
 /**
  * Find a vendor bill by bill number and user ID.
  */
@@ -130,8 +151,8 @@ export const listVendorBills = (userId: string, options?: { skip?: number; take?
 /**
  * Update the status of a vendor bill.
  */
-export const updateVendorBillStatus = (userId: string, billId: string, status: VendorBillStatus): Promise<Result<VendorBill>> => {
-  const action = prisma.vendorBill.update({
+export const updateVendorBillStatus = (userId: string, billId: string, status: VendorBillStatus, db: DbClient = prisma): Promise<Result<VendorBill>> => {
+  const action = db.vendorBill.update({
     where: { id: billId, userId },
     data: { status },
   })
@@ -1,4 +1,5 @@
 import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
 import { Prisma } from '@/prisma/client'
@@ -105,8 +106,8 @@ export const listVendors = (userId: string): Promise<Result<Vendor[]>> => {
  * Update vendor balance by adding an amount (positive or negative).
  * This is a specialized function for updating the subsidiary balance.
  */
-export const updateVendorBalance = (userId: string, vendorId: string, amountDelta: number): Promise<Result<Vendor>> => {
-  const action = prisma.vendor.update({
+export const updateVendorBalance = (userId: string, vendorId: string, amountDelta: number, db: DbClient = prisma): Promise<Result<Vendor>> => {
+  const action = db.vendor.update({
     where: { id: vendorId, userId },
     data: {
       balance: { increment: amountDelta },
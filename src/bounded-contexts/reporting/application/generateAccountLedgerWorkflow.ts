@@ -0,0 +1,46 @@
+import { Result, Failure } from '@/common/types/result'
+import { findAccountById, getAccountPostings } from '../infrastructure/reportingRepo'
+import { buildAccountLedger, validateDateRange, AccountLedger } from '../domain/reporting'
+import { DomainFailure } from '@/common/types/errors'
+import { ReportingDomainSubtype } from '../domain/errors'
+
+/**
+ * Generate Account Ledger Workflow - Application Layer
+ *
+ * Orchestrates the general ledger detail of one account for a user within a date range.
+ * Steps:
+ * 1. Validate date range (pure domain)
+ * 2. Fetch the account (infrastructure)
+ * 3. Fetch its journal lines up to endDate (infrastructure)
+ * 4. Build the ledger with opening, running and closing balances (pure domain)
+ */
+export const generateAccountLedgerWorkflow = async (
+  userId: string,
+  accountId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<Result<AccountLedger>> => {
+  // 1. Validate date range
+  const dateRangeResult = validateDateRange(startDate, endDate)
+  if (!dateRangeResult.isSuccess) return dateRangeResult
+
+  // 2. Fetch account
+  const accountResult = await findAccountById(userId, accountId)
+  if (!accountResult.isSuccess) return accountResult
+  const account = accountResult.value
+  if (!account) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as ReportingDomainSubtype,
+        `Account ${accountId} not found or does not belong to the user`
+      )
+    )
+  }
+
+  // 3. Fetch postings
+  const postingsResult = await getAccountPostings(userId, accountId, endDate)
+  if (!postingsResult.isSuccess) return postingsResult
+
+  // 4. Build the ledger
+  return buildAccountLedger(account, postingsResult.value, startDate, endDate)
+}
@@ -0,0 +1,24 @@
+import { Result } from '@/common/types/result'
+import { getOpenVendorBills } from '../infrastructure/reportingRepo'
+import { buildApAgingReport, ApAgingReport } from '../domain/reporting'
+
+/**
+ * Generate Accounts Payable Aging Workflow - Application Layer
+ *
+ * Orchestrates the open bill balances per vendor, bucketed by days past due as of a date.
+ * Open amounts are as they stood on that date: only payments dated up to it count.
+ * Steps:
+ * 1. Fetch the bills dated up to asOfDate with what was open on each at that date (infrastructure)
+ * 2. Bucket open amounts per vendor (pure domain)
+ */
+export const generateApAgingWorkflow = async (
+  userId: string,
+  asOfDate: Date
+): Promise<Result<ApAgingReport>> => {
+  // 1. Fetch bills with their open amounts
+  const billsResult = await getOpenVendorBills(userId, asOfDate)
+  if (!billsResult.isSuccess) return billsResult
+
+  // 2. Build the report
+  return buildApAgingReport(billsResult.value, asOfDate)
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { Result } from '@/common/types/result'
+import { getOpenSalesInvoices } from '../infrastructure/reportingRepo'
+import { buildArAgingReport, ArAgingReport } from '../domain/reporting'
+
+/**
+ * Generate Accounts Receivable Aging Workflow - Application Layer
+ *
+ * Orchestrates the open invoice balances per customer, bucketed by days past due as of a date.
+ * Open amounts are as they stood on that date: only payments, deposits and credit notes dated up to it count.
+ * Steps:
+ * 1. Fetch the invoices dated up to asOfDate with what was open on each at that date (infrastructure)
+ * 2. Bucket open amounts per customer (pure domain)
+ */
+export const generateArAgingWorkflow = async (
+  userId: string,
+  asOfDate: Date
+): Promise<Result<ArAgingReport>> => {
+  // 1. Fetch invoices with their open amounts
+  const invoicesResult = await getOpenSalesInvoices(userId, asOfDate)
+  if (!invoicesResult.isSuccess) return invoicesResult
+
+  // 2. Build the report
+  return buildArAgingReport(invoicesResult.value, asOfDate)
+}
\ No newline at end of file
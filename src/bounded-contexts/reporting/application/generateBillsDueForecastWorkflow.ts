@@ -0,0 +1,36 @@
+import { Result } from '@/common/types/result'
+import { getOpenVendorBills, getVendorBalanceTotal } from '../infrastructure/reportingRepo'
+import { buildBillsDueForecast, validateForecastDays, BillsDueForecast } from '../domain/reporting'
+
+/**
+ * Generate Bills Due Forecast Workflow - Application Layer
+ *
+ * Orchestrates the cash needed for open bills week by week over the next N days, for cash planning.
+ * Every open bill is included, whatever its bill date, so the totals can be reconciled
+ * against the vendors' current subsidiary balances.
+ * Steps:
+ * 1. Validate the forecast window (pure domain)
+ * 2. Fetch every unpaid bill with its open amount (infrastructure)
+ * 3. Fetch the vendors' balance total (infrastructure)
+ * 4. Group open amounts by the week they fall due in and reconcile (pure domain)
+ */
+export const generateBillsDueForecastWorkflow = async (
+  userId: string,
+  asOfDate: Date,
+  days: number
+): Promise<Result<BillsDueForecast>> => {
+  // 1. Validate the window
+  const daysResult = validateForecastDays(days)
+  if (!daysResult.isSuccess) return daysResult
+
+  // 2. Fetch unpaid bills with their open amounts
+  const billsResult = await getOpenVendorBills(userId)
+  if (!billsResult.isSuccess) return billsResult
+
+  // 3. Fetch vendor balances
+  const balanceResult = await getVendorBalanceTotal(userId)
+  if (!balanceResult.isSuccess) return balanceResult
+
+  // 4. Build the forecast
+  return buildBillsDueForecast(billsResult.value, balanceResult.value, asOfDate, days)
+}
\ No newline at end of file
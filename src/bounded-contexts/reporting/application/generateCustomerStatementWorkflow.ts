@@ -0,0 +1,51 @@
+import { Result, Failure } from '@/common/types/result'
+import { findStatementCustomer, getCustomerActivity, getCustomerOpenInvoices } from '../infrastructure/reportingRepo'
+import { buildCustomerStatement, validateDateRange, CustomerStatement } from '../domain/reporting'
+import { DomainFailure } from '@/common/types/errors'
+import { ReportingDomainSubtype } from '../domain/errors'
+
+/**
+ * Generate Customer Statement Workflow - Application Layer
+ *
+ * Orchestrates the statement sent to one customer for a date range.
+ * Steps:
+ * 1. Validate date range (pure domain)
+ * 2. Fetch the customer (infrastructure)
+ * 3. Fetch their invoices, payments, deposits and cash sales up to endDate (infrastructure)
+ * 4. Fetch their invoices with what was still open on them at endDate (infrastructure)
+ * 5. Build the statement with opening, running and closing balances and the aging summary (pure domain)
+ */
+export const generateCustomerStatementWorkflow = async (
+  userId: string,
+  customerId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<Result<CustomerStatement>> => {
+  // 1. Validate date range
+  const dateRangeResult = validateDateRange(startDate, endDate)
+  if (!dateRangeResult.isSuccess) return dateRangeResult
+
+  // 2. Fetch customer
+  const customerResult = await findStatementCustomer(userId, customerId)
+  if (!customerResult.isSuccess) return customerResult
+  const customer = customerResult.value
+  if (!customer) {
+    return Failure(
+      DomainFailure(
+        'CustomerNotFound' as ReportingDomainSubtype,
+        `Customer ${customerId} not found or does not belong to the user`
+      )
+    )
+  }
+
+  // 3. Fetch activity
+  const activityResult = await getCustomerActivity(userId, customerId, endDate)
+  if (!activityResult.isSuccess) return activityResult
+
+  // 4. Fetch open invoices
+  const openInvoicesResult = await getCustomerOpenInvoices(userId, customerId, endDate)
+  if (!openInvoicesResult.isSuccess) return openInvoicesResult
+
+  // 5. Build the statement
+  return buildCustomerStatement(customer, activityResult.value, openInvoicesResult.value, startDate, endDate)
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { Result } from '@/common/types/result'
+import { getTaxedInvoiceLines, getTaxedCreditNotes } from '../infrastructure/reportingRepo'
+import { buildSalesTaxLiabilityReport, validateDateRange, SalesTaxLiabilityReport } from '../domain/reporting'
+
+/**
+ * Generate Sales Tax Liability Workflow - Application Layer
+ *
+ * Orchestrates the sales tax collected by tax rate for a user within a date range, for filing.
+ * Tax counts in the period its invoice is dated in; a credit note takes its share back in the period it is dated in.
+ * Steps:
+ * 1. Validate date range (pure domain)
+ * 2. Fetch the taxed invoice lines of invoices dated in the period (infrastructure)
+ * 3. Fetch the credit notes dated in the period against taxed invoices (infrastructure)
+ * 4. Total taxable sales and tax per tax rate, less what the credit notes took back (pure domain)
+ */
+export const generateSalesTaxLiabilityWorkflow = async (
+  userId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<Result<SalesTaxLiabilityReport>> => {
+  // 1. Validate date range
+  const dateRangeResult = validateDateRange(startDate, endDate)
+  if (!dateRangeResult.isSuccess) return dateRangeResult
+
+  // 2. Fetch taxed invoice lines
+  const linesResult = await getTaxedInvoiceLines(userId, startDate, endDate)
+  if (!linesResult.isSuccess) return linesResult
+
+  // 3. Fetch taxed credit notes
+  const creditNotesResult = await getTaxedCreditNotes(userId, startDate, endDate)
+  if (!creditNotesResult.isSuccess) return creditNotesResult
+
+  // 4. Build the report
+  return buildSalesTaxLiabilityReport(linesResult.value, creditNotesResult.value, startDate, endDate)
+}
\ No newline at end of file
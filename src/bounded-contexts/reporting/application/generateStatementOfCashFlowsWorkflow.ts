@@ -15,7 +15,7 @@ import { ReportingDomainSubtype } from '../domain/errors'
  *
  * Orchestrates the process of generating a statement of cash flows for a user within a date range.
  * Steps:
- * 1. Fetch cash account (default code 101) for the user.
+ * 1. Fetch the cash account (the Cash posting role's account) for the user.
  * 2. Fetch cash journal lines for the period.
  * 3. Build the statement (pure domain).
  */
@@ -32,7 +32,7 @@ export const generateStatementOfCashFlowsWorkflow = async (
     return Failure(
       DomainFailure(
         'CashAccountNotFound' as ReportingDomainSubtype,
-        `Cash account (code 101) not found for user ${userId}.`
+        `Cash account not found for user ${userId}. Map the Cash posting role or add an account with code 101.`
       )
     )
   }
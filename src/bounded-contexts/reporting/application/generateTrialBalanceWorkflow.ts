@@ -0,0 +1,25 @@
+import { Result } from '@/common/types/result'
+import { getAccountsWithCumulativeBalances } from '../infrastructure/reportingRepo'
+import { buildTrialBalance, TrialBalance } from '../domain/reporting'
+
+/**
+ * Generate Trial Balance Workflow - Application Layer
+ *
+ * Orchestrates the process of generating a trial balance for a user as of a specific date.
+ * Steps:
+ * 1. Fetch accounts with cumulative balances up to asOfDate (infrastructure)
+ * 2. Build trial balance and check debits equal credits (pure domain)
+ */
+export const generateTrialBalanceWorkflow = async (
+  userId: string,
+  asOfDate: Date
+): Promise<Result<TrialBalance>> => {
+  // 1. Fetch accounts with cumulative balances
+  const accountsResult = await getAccountsWithCumulativeBalances(userId, asOfDate)
+  if (!accountsResult.isSuccess) {
+    return accountsResult
+  }
+
+  // 2. Build the trial balance (domain pure function)
+  return buildTrialBalance(accountsResult.value, asOfDate)
+}
@@ -3,6 +3,13 @@ import { generateIncomeStatementWorkflow } from './generateIncomeStatementWorkfl
 import { generateBalanceSheetWorkflow } from './generateBalanceSheetWorkflow'
 import { generateStatementOfOwnersEquityWorkflow } from './generateStatementOfOwnersEquityWorkflow'
 import { generateStatementOfCashFlowsWorkflow } from './generateStatementOfCashFlowsWorkflow'
+import { generateAccountLedgerWorkflow } from './generateAccountLedgerWorkflow'
+import { generateTrialBalanceWorkflow } from './generateTrialBalanceWorkflow'
+import { generateSalesTaxLiabilityWorkflow } from './generateSalesTaxLiabilityWorkflow'
+import { generateArAgingWorkflow } from './generateArAgingWorkflow'
+import { generateApAgingWorkflow } from './generateApAgingWorkflow'
+import { generateBillsDueForecastWorkflow } from './generateBillsDueForecastWorkflow'
+import { generateCustomerStatementWorkflow } from './generateCustomerStatementWorkflow'
 import { prisma } from '@/common/infrastructure/db'
 
 describe('Reporting Context: Workflows (Integration)', () => {
@@ -30,6 +37,7 @@ describe('Reporting Context: Workflows (Integration)', () => {
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
 
     // Create test user
@@ -342,4 +350,457 @@ describe('Reporting Context: Workflows (Integration)', () => {
       }
     })
   })
+
+  describe('generateTrialBalanceWorkflow', () => {
+    it('returns balanced debit and credit columns after all transactions', async () => {
+      const result = await generateTrialBalanceWorkflow(userId, new Date('2025-12-31'))
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        const tb = result.value
+        // Cash 1000, Expense 300, Drawing 200 on the debit side; Revenue 1000, Capital 500 on the credit side
+        expect(tb.lines).toHaveLength(5)
+        expect(tb.totalDebits).toBe(1500)
+        expect(tb.totalCredits).toBe(1500)
+        const cashLine = tb.lines.find((line) => line.accountCode === '101')
+        expect(cashLine).toMatchObject({ debit: 1000, credit: 0 })
+      }
+    })
+  })
+
+  describe('generateAccountLedgerWorkflow', () => {
+    it('returns opening, running and closing balances for a period', async () => {
+      const result = await generateAccountLedgerWorkflow(
+        userId,
+        cashAccountId,
+        new Date('2025-07-01'),
+        new Date('2025-08-31')
+      )
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        const ledger = result.value
+        expect(ledger.openingBalance).toBe(1000)
+        expect(ledger.lines.map((line) => line.description)).toEqual(['Pay rent', 'Owner contribution'])
+        expect(ledger.lines.map((line) => line.side)).toEqual(['Credit', 'Debit'])
+        expect(ledger.lines.map((line) => line.balance)).toEqual([700, 1200])
+        expect(ledger.closingBalance).toBe(1200)
+      }
+    })
+
+    it('fails when the account does not belong to the user', async () => {
+      const result = await generateAccountLedgerWorkflow(
+        'another-user',
+        cashAccountId,
+        new Date('2025-07-01'),
+        new Date('2025-08-31')
+      )
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('AccountNotFound')
+      }
+    })
+  })
+
+  describe('generateSalesTaxLiabilityWorkflow', () => {
+    it('totals the tax on invoices dated in the period by tax rate', async () => {
+      const liability = await prisma.account.create({
+        data: { userId, code: '204', name: 'Sales Tax Payable', type: 'Liability', normalBalance: 'Credit' },
+      })
+      const taxRate = await prisma.taxRate.create({
+        data: { userId, name: 'State Sales Tax', rate: 6, accountId: liability.id },
+      })
+      const customer = await prisma.customer.create({ data: { userId, name: 'Test Customer' } })
+      // Invoice lines only: the report reads the invoices, not their journal entries
+      const createInvoice = async (invoiceNumber: string, date: string, amount: number, taxAmount: number) => {
+        const entry = await prisma.journalEntry.create({
+          data: { userId, description: `Sales invoice ${invoiceNumber}`, date: new Date(date) },
+        })
+        return prisma.salesInvoice.create({
+          data: {
+            userId,
+            customerId: customer.id,
+            invoiceNumber,
+            total: amount + taxAmount,
+            status: 'Issued',
+            date: new Date(date),
+            journalEntryId: entry.id,
+            lines: {
+              create: [{
+                lineNumber: 1,
+                description: 'Widgets',
+                quantity: 1,
+                unitPrice: amount,
+                amount,
+                revenueAccountId,
+                taxRateId: taxRate.id,
+                taxAmount,
+              }],
+            },
+          },
+        })
+      }
+      await createInvoice('INV-001', '2025-06-10', 100, 6)
+      await createInvoice('INV-002', '2025-06-20', 50, 3)
+      await createInvoice('INV-003', '2025-07-05', 200, 12)
+
+      const result = await generateSalesTaxLiabilityWorkflow(userId, new Date('2025-06-01'), new Date('2025-06-30'))
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.rates).toEqual([
+          {
+            taxRateId: taxRate.id,
+            taxRateName: 'State Sales Tax',
+            rate: 6,
+            accountId: liability.id,
+            taxableAmount: 150,
+            taxAmount: 9,
+          },
+        ])
+        expect(result.value.totalTax).toBe(9)
+      }
+    })
+
+    it('takes back the tax share of credit notes dated in the period, whenever their invoice is dated', async () => {
+      const liability = await prisma.account.create({
+        data: { userId, code: '204', name: 'Sales Tax Payable', type: 'Liability', normalBalance: 'Credit' },
+      })
+      const taxRate = await prisma.taxRate.create({
+        data: { userId, name: 'State Sales Tax', rate: 6, accountId: liability.id },
+      })
+      const customer = await prisma.customer.create({ data: { userId, name: 'Test Customer' } })
+      const invoiceEntry = await prisma.journalEntry.create({
+        data: { userId, description: 'Sales invoice INV-001', date: new Date('2025-05-20') },
+      })
+      const invoice = await prisma.salesInvoice.create({
+        data: {
+          userId,
+          customerId: customer.id,
+          invoiceNumber: 'INV-001',
+          total: 106,
+          status: 'Issued',
+          date: new Date('2025-05-20'),
+          journalEntryId: invoiceEntry.id,
+          lines: {
+            create: [{
+              lineNumber: 1,
+              description: 'Widgets',
+              quantity: 1,
+              unitPrice: 100,
+              amount: 100,
+              revenueAccountId,
+              taxRateId: taxRate.id,
+              taxAmount: 6,
+            }],
+          },
+        },
+      })
+      const creditNoteEntry = await prisma.journalEntry.create({
+        data: { userId, description: 'Credit note CN-001', date: new Date('2025-06-15') },
+      })
+      await prisma.creditNote.create({
+        data: {
+          userId,
+          invoiceId: invoice.id,
+          creditNoteNumber: 'CN-001',
+          amount: 53,
+          date: new Date('2025-06-15'),
+          revenueAccountId,
+          journalEntryId: creditNoteEntry.id,
+        },
+      })
+
+      const may = await generateSalesTaxLiabilityWorkflow(userId, new Date('2025-05-01'), new Date('2025-05-31'))
+      const june = await generateSalesTaxLiabilityWorkflow(userId, new Date('2025-06-01'), new Date('2025-06-30'))
+      expect(may.isSuccess && june.isSuccess).toBe(true)
+      if (may.isSuccess && june.isSuccess) {
+        expect(may.value.totalTax).toBe(6)
+        expect(june.value.rates).toMatchObject([{ taxRateId: taxRate.id, taxableAmount: -50, taxAmount: -3 }])
+        expect(june.value.totalTax).toBe(-3)
+      }
+    })
+
+    it('fails on an invalid date range', async () => {
+      const result = await generateSalesTaxLiabilityWorkflow(userId, new Date('2025-06-30'), new Date('2025-06-01'))
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidDateRange')
+      }
+    })
+  })
+
+  describe('generateArAgingWorkflow', () => {
+    // Invoices and payments only: the report reads them, not their journal entries
+    const createInvoice = async (
+      customerId: string,
+      invoiceNumber: string,
+      date: string,
+      dueDate: string,
+      total: number,
+      status: 'Issued' | 'PartiallyPaid' | 'Overdue' | 'Paid' | 'Void',
+      voidedAt?: string
+    ) => {
+      const entry = await prisma.journalEntry.create({
+        data: { userId, description: `Sales invoice ${invoiceNumber}`, date: new Date(date) },
+      })
+      return prisma.salesInvoice.create({
+        data: {
+          userId,
+          customerId,
+          invoiceNumber,
+          total,
+          status,
+          date: new Date(date),
+          dueDate: new Date(dueDate),
+          voidedAt: voidedAt ? new Date(voidedAt) : undefined,
+          journalEntryId: entry.id,
+        },
+      })
+    }
+    const payInvoice = async (invoiceId: string, amount: number, date: string) => {
+      const entry = await prisma.journalEntry.create({
+        data: { userId, description: 'Invoice payment', date: new Date(date) },
+      })
+      await prisma.payment.create({
+        data: { invoiceId, amount, date: new Date(date), method: 'Cash', journalEntryId: entry.id },
+      })
+    }
+
+    it('buckets what is still open on each invoice by days past due', async () => {
+      const customer = await prisma.customer.create({ data: { userId, name: 'Test Customer' } })
+      const overdue = await createInvoice(customer.id, 'INV-001', '2025-05-01', '2025-05-31', 300, 'Overdue')
+      await createInvoice(customer.id, 'INV-002', '2025-06-20', '2025-07-20', 100, 'Issued')
+      const paid = await createInvoice(customer.id, 'INV-003', '2025-05-01', '2025-05-31', 80, 'Paid')
+      await createInvoice(customer.id, 'INV-004', '2025-07-05', '2025-08-04', 500, 'Issued')  // issued after asOfDate
+      await createInvoice(customer.id, 'INV-005', '2025-05-01', '2025-05-31', 60, 'Void', '2025-05-10')
+      await payInvoice(overdue.id, 120, '2025-06-15')
+      await payInvoice(paid.id, 80, '2025-06-10')
+
+      const result = await generateArAgingWorkflow(userId, new Date('2025-06-30'))
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.customers).toEqual([
+          {
+            customerId: customer.id,
+            customerName: 'Test Customer',
+            buckets: { current: 100, days1To30: 180, days31To60: 0, days61To90: 0, over90: 0 },
+            total: 280,
+          },
+        ])
+        expect(result.value.total).toBe(280)
+      }
+    })
+
+    it('ages invoices as they stood on a past date, ignoring later payments', async () => {
+      const customer = await prisma.customer.create({ data: { userId, name: 'Test Customer' } })
+      const invoice = await createInvoice(customer.id, 'INV-001', '2025-05-01', '2025-05-31', 300, 'Paid')
+      await payInvoice(invoice.id, 100, '2025-06-05')
+      await payInvoice(invoice.id, 200, '2025-07-10')  // paid off after asOfDate
+
+      const result = await generateArAgingWorkflow(userId, new Date('2025-06-30'))
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.customers.map((row) => row.buckets.days1To30)).toEqual([200])
+        expect(result.value.total).toBe(200)
+      }
+    })
+
+    it('ages an invoice voided after asOfDate as open on it', async () => {
+      const customer = await prisma.customer.create({ data: { userId, name: 'Test Customer' } })
+      await createInvoice(customer.id, 'INV-001', '2025-05-01', '2025-05-31', 300, 'Void', '2025-07-10')
+
+      const before = await generateArAgingWorkflow(userId, new Date('2025-06-30'))
+      const after = await generateArAgingWorkflow(userId, new Date('2025-07-31'))
+      expect(before.isSuccess && after.isSuccess).toBe(true)
+      if (before.isSuccess && after.isSuccess) {
+        expect(before.value.customers.map((row) => row.buckets.days1To30)).toEqual([300])
+        expect(after.value.customers).toEqual([])
+      }
+    })
+
+    it('reports no customers when nothing is owed', async () => {
+      const result = await generateArAgingWorkflow(userId, new Date('2025-06-30'))
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.customers).toEqual([])
+        expect(result.value.total).toBe(0)
+      }
+    })
+  })
+
+  describe('payables reports', () => {
+    // Bills and payments only: the reports read them and the vendor balances, not their journal entries
+    const createBill = async (
+      vendorId: string,
+      billNumber: string,
+      date: string,
+      dueDate: string,
+      amount: number,
+      status: 'Recorded' | 'PartiallyPaid' | 'Paid'
+    ) => {
+      const entry = await prisma.journalEntry.create({
+        data: { userId, description: `Vendor bill ${billNumber}`, date: new Date(date) },
+      })
+      return prisma.vendorBill.create({
+        data: {
+          userId,
+          vendorId,
+          billNumber,
+          amount,
+          status,
+          date: new Date(date),
+          dueDate: new Date(dueDate),
+          journalEntryId: entry.id,
+        },
+      })
+    }
+    const payBill = async (billId: string, amount: number, date: string) => {
+      const entry = await prisma.journalEntry.create({
+        data: { userId, description: 'Bill payment', date: new Date(date) },
+      })
+      await prisma.billPayment.create({
+        data: { billId, amount, date: new Date(date), method: 'BankTransfer', journalEntryId: entry.id },
+      })
+    }
+
+    describe('generateApAgingWorkflow', () => {
+      it('buckets what is still open on each bill by days past due', async () => {
+        const vendor = await prisma.vendor.create({ data: { userId, name: 'Supplier' } })
+        const partlyPaid = await createBill(vendor.id, 'BILL-001', '2025-05-01', '2025-05-31', 500, 'PartiallyPaid')
+        await payBill(partlyPaid.id, 200, '2025-06-01')
+        await createBill(vendor.id, 'BILL-002', '2025-06-10', '2025-07-10', 150, 'Recorded')
+        const paid = await createBill(vendor.id, 'BILL-003', '2025-05-01', '2025-05-31', 90, 'Paid')
+        await payBill(paid.id, 90, '2025-06-05')
+        await createBill(vendor.id, 'BILL-004', '2025-07-05', '2025-08-04', 700, 'Recorded')  // recorded after asOfDate
+
+        const result = await generateApAgingWorkflow(userId, new Date('2025-06-30'))
+        expect(result.isSuccess).toBe(true)
+        if (result.isSuccess) {
+          expect(result.value.vendors).toEqual([
+            {
+              vendorId: vendor.id,
+              vendorName: 'Supplier',
+              buckets: { current: 150, days1To30: 300, days31To60: 0, days61To90: 0, over90: 0 },
+              total: 450,
+            },
+          ])
+          expect(result.value.total).toBe(450)
+        }
+      })
+
+      it('ages bills as they stood on a past date, ignoring later payments', async () => {
+        const vendor = await prisma.vendor.create({ data: { userId, name: 'Supplier' } })
+        const bill = await createBill(vendor.id, 'BILL-001', '2025-05-01', '2025-05-31', 500, 'Paid')
+        await payBill(bill.id, 200, '2025-06-01')
+        await payBill(bill.id, 300, '2025-07-10')  // paid off after asOfDate
+
+        const result = await generateApAgingWorkflow(userId, new Date('2025-06-30'))
+        expect(result.isSuccess).toBe(true)
+        if (result.isSuccess) {
+          expect(result.value.vendors.map((row) => row.buckets.days1To30)).toEqual([300])
+          expect(result.value.total).toBe(300)
+        }
+      })
+    })
+
+    describe('generateBillsDueForecastWorkflow', () => {
+      it('forecasts the weekly outflow and reconciles it against the vendor balances', async () => {
+        const vendor = await prisma.vendor.create({ data: { userId, name: 'Supplier', balance: 750 } })
+        const partlyPaid = await createBill(vendor.id, 'BILL-001', '2025-05-01', '2025-05-31', 500, 'PartiallyPaid')
+        await payBill(partlyPaid.id, 200, '2025-06-01')
+        await createBill(vendor.id, 'BILL-002', '2025-06-10', '2025-07-03', 150, 'Recorded')
+        await createBill(vendor.id, 'BILL-003', '2025-06-20', '2025-08-20', 300, 'Recorded')
+
+        const result = await generateBillsDueForecastWorkflow(userId, new Date('2025-07-01'), 14)
+        expect(result.isSuccess).toBe(true)
+        if (result.isSuccess) {
+          expect(result.value.pastDue.total).toBe(300)
+          expect(result.value.weeks.map((week) => week.total)).toEqual([150, 0])
+          expect(result.value.dueLater).toBe(300)
+          expect(result.value.totalOutflow).toBe(450)
+          expect(result.value.reconciliation).toEqual({ openBillsTotal: 750, vendorBalanceTotal: 750, difference: 0 })
+        }
+      })
+
+      it('fails on a forecast window out of range', async () => {
+        const result = await generateBillsDueForecastWorkflow(userId, new Date('2025-07-01'), 0)
+        expect(result.isSuccess).toBe(false)
+        if (!result.isSuccess) {
+          expect(result.error.subtype).toBe('InvalidForecastWindow')
+        }
+      })
+    })
+  })
+
+  describe('generateCustomerStatementWorkflow', () => {
+    it('lists the customer\'s activity with a running balance and ages what is open at the end date', async () => {
+      const customer = await prisma.customer.create({ data: { userId, name: 'Test Customer' } })
+      const other = await prisma.customer.create({ data: { userId, name: 'Other Customer' } })
+      // Documents only: the statement reads them, not their journal entries
+      const entryOn = async (date: string) =>
+        (await prisma.journalEntry.create({ data: { userId, description: 'Sales document', date: new Date(date) } })).id
+      const invoice = await prisma.salesInvoice.create({
+        data: {
+          userId,
+          customerId: customer.id,
+          invoiceNumber: 'INV-001',
+          total: 500,
+          status: 'PartiallyPaid',
+          date: new Date('2025-05-20'),
+          dueDate: new Date('2025-06-19'),
+          journalEntryId: await entryOn('2025-05-20'),
+        },
+      })
+      await prisma.payment.create({
+        data: {
+          invoiceId: invoice.id,
+          amount: 200,
+          date: new Date('2025-06-10'),
+          method: 'Check',
+          reference: 'CHK-1001',
+          journalEntryId: await entryOn('2025-06-10'),
+        },
+      })
+      await prisma.payment.create({
+        data: {
+          invoiceId: invoice.id,
+          amount: 100,
+          date: new Date('2025-07-05'),  // after the period
+          method: 'Cash',
+          journalEntryId: await entryOn('2025-07-05'),
+        },
+      })
+      await prisma.customerDeposit.create({
+        data: { userId, customerId: customer.id, amount: 75, date: new Date('2025-06-12'), journalEntryId: await entryOn('2025-06-12') },
+      })
+      await prisma.cashSale.create({
+        data: { userId, customerId: customer.id, amount: 40, date: new Date('2025-06-15'), description: 'Counter sale', journalEntryId: await entryOn('2025-06-15') },
+      })
+      await prisma.cashSale.create({
+        data: { userId, customerId: other.id, amount: 999, date: new Date('2025-06-15'), journalEntryId: await entryOn('2025-06-15') },
+      })
+
+      const result = await generateCustomerStatementWorkflow(userId, customer.id, new Date('2025-06-01'), new Date('2025-06-30'))
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        const statement = result.value
+        expect(statement.customer).toMatchObject({ id: customer.id, name: 'Test Customer' })
+        expect(statement.openingBalance).toBe(500)
+        expect(statement.lines.map((line) => [line.description, line.charge, line.credit, line.balance])).toEqual([
+          ['Payment on INV-001 (CHK-1001)', 0, 200, 300],
+          ['Deposit received', 0, 75, 225],
+          ['Counter sale', 40, 40, 225],
+        ])
+        expect(statement.closingBalance).toBe(225)
+        expect(statement.aging.buckets.days1To30).toBe(300)
+        expect(statement.aging.total).toBe(300)
+      }
+    })
+
+    it('fails when the customer does not belong to the user', async () => {
+      const result = await generateCustomerStatementWorkflow(userId, 'missing-customer', new Date('2025-06-01'), new Date('2025-06-30'))
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('CustomerNotFound')
+      }
+    })
+  })
 })
\ No newline at end of file
@@ -9,6 +9,10 @@ export type ReportingDomainSubtype =
   | 'MissingCapitalAccount'
   | 'MissingDrawingAccount'
   | 'CashAccountNotFound'
+  | 'AccountNotFound'
+  | 'CustomerNotFound'
+  | 'TrialBalanceOutOfBalance'
+  | 'InvalidForecastWindow'
 
 export type ReportingInfrastructureSubtype =
   | 'DataFetchFailed'
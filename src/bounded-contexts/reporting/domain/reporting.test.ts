@@ -7,10 +7,26 @@ import {
   calculateAccountBalance,
   calculateNetIncome,
   validateDateRange,
+  toStatementLines,
   buildIncomeStatement,
   buildBalanceSheet,
   buildStatementOfOwnersEquity,
   buildStatementOfCashFlows,
+  buildTrialBalance,
+  buildAccountLedger,
+  buildSalesTaxLiabilityReport,
+  daysPastDue,
+  buildArAgingReport,
+  buildApAgingReport,
+  validateForecastDays,
+  buildBillsDueForecast,
+  buildCustomerStatement,
+  AccountPosting,
+  TaxedInvoiceLine,
+  TaxedCreditNote,
+  OpenReceivable,
+  OpenPayable,
+  CustomerActivity,
   AccountTypeEnum,
   NormalBalanceEnum,
   JournalLineSideEnum,
@@ -201,6 +217,45 @@ describe('Reporting Domain Functions', () => {
       const result = buildIncomeStatement(accounts, end, start) // reversed
       expect(result.isSuccess).toBe(false)
     })
+
+    it('keeps a parent with no own activity to show its sub-account subtotal', () => {
+      const accounts = [
+        createAccount({ id: 'rev', type: 'Revenue', code: '401', name: 'Service Revenue', balance: 0 }),
+        createAccount({ id: 'rev-1', type: 'Revenue', code: '401.1', name: 'Consulting', balance: 900, parentId: 'rev' }),
+        createAccount({ id: 'rev-2', type: 'Revenue', code: '401.2', name: 'Training', balance: 600, parentId: 'rev' }),
+      ]
+      const result = buildIncomeStatement(accounts, start, end)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        const stmt = result.value
+        expect(stmt.revenues).toHaveLength(3)
+        expect(stmt.revenues[0]).toEqual({ accountCode: '401', accountName: 'Service Revenue', amount: 0, subtotal: 1500 })
+        expect(stmt.revenues[1].parentCode).toBe('401')
+        expect(stmt.revenueTotal).toBe(1500)
+      }
+    })
+  })
+
+  describe('toStatementLines', () => {
+    it('leaves accounts without a hierarchy unchanged', () => {
+      const accounts = [createAccount({ id: 'cash', code: '101', name: 'Cash', balance: 250 })]
+      expect(toStatementLines(accounts, (acc) => acc.balance)).toEqual([
+        { accountCode: '101', accountName: 'Cash', amount: 250 },
+      ])
+    })
+
+    it('rolls nested sub-accounts up into every ancestor', () => {
+      const accounts = [
+        createAccount({ id: 'a', code: '110', name: 'Bank Accounts', balance: 0 }),
+        createAccount({ id: 'b', code: '110.1', name: 'Checking', balance: 300, parentId: 'a' }),
+        createAccount({ id: 'c', code: '110.1.1', name: 'Checking Sub', balance: 50, parentId: 'b' }),
+        createAccount({ id: 'd', code: '110.2', name: 'Savings', balance: 700, parentId: 'a' }),
+      ]
+      const lines = toStatementLines(accounts, (acc) => acc.balance)
+      expect(lines.map((line) => line.subtotal)).toEqual([1050, 350, undefined, undefined])
+      expect(lines.map((line) => line.parentCode)).toEqual([undefined, '110', '110.1', '110'])
+      expect(R.sum(lines.map((line) => line.amount))).toBe(1050)
+    })
   })
 
   describe('buildBalanceSheet', () => {
@@ -251,6 +306,22 @@ describe('Reporting Domain Functions', () => {
       }
     })
 
+    it('shows parent subtotals without double counting the section total', () => {
+      const accounts = [
+        createAccount({ id: 'bank', type: 'Asset', code: '110', name: 'Bank Accounts', balance: 0 }),
+        createAccount({ id: 'chk', type: 'Asset', code: '110.1', name: 'Checking', balance: 1200, parentId: 'bank' }),
+        createAccount({ id: 'sav', type: 'Asset', code: '110.2', name: 'Savings', balance: 800, parentId: 'bank' }),
+        createAccount({ id: 'cap', type: 'Equity', code: '301', name: 'Owner Capital', balance: 2000, normalBalance: 'Credit' }),
+      ]
+      const result = buildBalanceSheet(accounts, asOf)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        const bankLine = result.value.assets.find((line) => line.accountCode === '110')
+        expect(bankLine?.subtotal).toBe(2000)
+        expect(result.value.assetTotal).toBe(2000)
+      }
+    })
+
     it('passes within tolerance', () => {
       const accounts = [
         createAccount({ type: 'Asset', balance: 1000.005 }),
@@ -308,4 +379,508 @@ describe('Reporting Domain Functions', () => {
       expect(result.isSuccess).toBe(false)
     })
   })
+
+  describe('buildTrialBalance', () => {
+    const asOf = new Date('2025-12-31')
+
+    it('puts each balance on its normal side and totals both columns', () => {
+      const accounts = [
+        createAccount({ code: '101', name: 'Cash', type: 'Asset', normalBalance: 'Debit', balance: 1200 }),
+        createAccount({ code: '301', name: 'Owner Capital', type: 'Equity', normalBalance: 'Credit', balance: 1000 }),
+        createAccount({ code: '401', name: 'Service Revenue', type: 'Revenue', normalBalance: 'Credit', balance: 500 }),
+        createAccount({ code: '501', name: 'Rent Expense', type: 'Expense', normalBalance: 'Debit', balance: 300 }),
+      ]
+      const result = buildTrialBalance(accounts, asOf)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        const tb = result.value
+        expect(tb.lines.map((line) => [line.accountCode, line.debit, line.credit])).toEqual([
+          ['101', 1200, 0],
+          ['301', 0, 1000],
+          ['401', 0, 500],
+          ['501', 300, 0],
+        ])
+        expect(tb.totalDebits).toBe(1500)
+        expect(tb.totalCredits).toBe(1500)
+      }
+    })
+
+    it('moves a negative balance to the opposite column and lists zero balances', () => {
+      const accounts = [
+        createAccount({ code: '101', name: 'Cash', normalBalance: 'Debit', balance: -200 }),
+        createAccount({ code: '201', name: 'Loan Payable', type: 'Liability', normalBalance: 'Credit', balance: -200 }),
+        createAccount({ code: '120', name: 'Prepaid Rent', normalBalance: 'Debit', balance: 0 }),
+      ]
+      const result = buildTrialBalance(accounts, asOf)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.lines).toEqual([
+          { accountCode: '101', accountName: 'Cash', accountType: 'Asset', debit: 0, credit: 200 },
+          { accountCode: '201', accountName: 'Loan Payable', accountType: 'Liability', debit: 200, credit: 0 },
+          { accountCode: '120', accountName: 'Prepaid Rent', accountType: 'Asset', debit: 0, credit: 0 },
+        ])
+      }
+    })
+
+    it('flags unequal debits and credits', () => {
+      const accounts = [
+        createAccount({ code: '101', balance: 1000 }),
+        createAccount({ code: '301', type: 'Equity', normalBalance: 'Credit', balance: 900 }),
+      ]
+      const result = buildTrialBalance(accounts, asOf)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('TrialBalanceOutOfBalance')
+        expect(result.error.message).toMatch(/difference: 100/)
+      }
+    })
+
+    it('flags a trial balance that is off by a single cent', () => {
+      const accounts = [
+        createAccount({ code: '101', balance: 1000.01 }),
+        createAccount({ code: '301', type: 'Equity', normalBalance: 'Credit', balance: 1000 }),
+      ]
+      const result = buildTrialBalance(accounts, asOf)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.message).toMatch(/difference: 0.01/)
+      }
+    })
+
+    it('balances totals that only differ by floating point drift', () => {
+      const accounts = [
+        createAccount({ code: '101', balance: 0.1 }),
+        createAccount({ code: '102', balance: 0.2 }),
+        createAccount({ code: '301', type: 'Equity', normalBalance: 'Credit', balance: 0.3 }),
+      ]
+      const result = buildTrialBalance(accounts, asOf)
+      expect(result.isSuccess).toBe(true)
+    })
+  })
+
+  describe('buildAccountLedger', () => {
+    const start = new Date('2025-01-01')
+    const end = new Date('2025-01-31')
+    const posting = (date: string, side: 'Debit' | 'Credit', amount: number, description: string = 'Entry'): AccountPosting => ({
+      journalEntryId: `je-${date}-${description}`,
+      description,
+      date: new Date(date),
+      side,
+      amount,
+    })
+
+    it('carries earlier postings into the opening balance and runs the balance through the period', () => {
+      const cash = createAccount({ id: 'cash', balance: 0 })
+      const postings = [
+        posting('2024-12-20', 'Debit', 1000, 'Owner investment'),
+        posting('2025-01-05', 'Credit', 200.1, 'Rent'),
+        posting('2025-01-10', 'Debit', 50.2, 'Cash sale'),
+        posting('2025-02-02', 'Debit', 999, 'After period'),
+      ]
+      const result = buildAccountLedger(cash, postings, start, end)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        const ledger = result.value
+        expect(ledger.openingBalance).toBe(1000)
+        expect(ledger.lines.map((line) => line.description)).toEqual(['Rent', 'Cash sale'])
+        expect(ledger.lines.map((line) => line.balance)).toEqual([799.9, 850.1])
+        expect(ledger.closingBalance).toBe(850.1)
+        expect(ledger.account).toEqual({ id: 'cash', code: '101', name: 'Cash', type: 'Asset', normalBalance: 'Debit' })
+      }
+    })
+
+    it('signs balances by a credit normal balance', () => {
+      const revenue = createAccount({ id: 'rev', type: 'Revenue', normalBalance: 'Credit', balance: 0 })
+      const result = buildAccountLedger(
+        revenue,
+        [posting('2025-01-05', 'Credit', 500), posting('2025-01-20', 'Debit', 100)],
+        start,
+        end
+      )
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.lines.map((line) => line.balance)).toEqual([500, 400])
+        expect(result.value.closingBalance).toBe(400)
+      }
+    })
+
+    it('closes at the opening balance when the period has no postings', () => {
+      const cash = createAccount({ id: 'cash' })
+      const result = buildAccountLedger(cash, [posting('2024-12-20', 'Debit', 300)], start, end)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.lines).toEqual([])
+        expect(result.value.openingBalance).toBe(300)
+        expect(result.value.closingBalance).toBe(300)
+      }
+    })
+
+    it('fails on invalid date range', () => {
+      const result = buildAccountLedger(createAccount({}), [], end, start)
+      expect(result.isSuccess).toBe(false)
+    })
+  })
+
+  describe('buildSalesTaxLiabilityReport', () => {
+    const start = new Date('2025-01-01')
+    const end = new Date('2025-03-31')
+    const taxedLine = (taxRateId: string, taxRateName: string, rate: number, amount: number, taxAmount: number): TaxedInvoiceLine => ({
+      taxRateId,
+      taxRateName,
+      rate,
+      accountId: 'sales-tax-payable',
+      amount,
+      taxAmount,
+    })
+
+    it('totals taxable sales and tax per tax rate, by name', () => {
+      const result = buildSalesTaxLiabilityReport(
+        [
+          taxedLine('state', 'State Sales Tax', 6, 100, 6),
+          taxedLine('city', 'City Sales Tax', 2.5, 10.1, 0.25),
+          taxedLine('state', 'State Sales Tax', 6, 50.1, 3.01),
+        ],
+        [],
+        start,
+        end
+      )
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.rates.map((rate) => rate.taxRateName)).toEqual(['City Sales Tax', 'State Sales Tax'])
+        expect(result.value.rates[1]).toMatchObject({ rate: 6, taxableAmount: 150.1, taxAmount: 9.01 })
+        expect(result.value.totalTaxableAmount).toBe(160.2)
+        expect(result.value.totalTax).toBe(9.26)
+      }
+    })
+
+    it('subtracts the share of each rate a credit note takes back', () => {
+      // $50 credited on a $114.20 invoice: 100 + 6% state tax and 8 + 2.5% city tax
+      const creditNote: TaxedCreditNote = {
+        amount: 50,
+        invoiceTotal: 114.2,
+        invoiceLines: [
+          taxedLine('state', 'State Sales Tax', 6, 100, 6),
+          taxedLine('city', 'City Sales Tax', 2.5, 8, 0.2),
+        ],
+      }
+      const result = buildSalesTaxLiabilityReport(
+        [
+          taxedLine('state', 'State Sales Tax', 6, 100, 6),
+          taxedLine('city', 'City Sales Tax', 2.5, 8, 0.2),
+        ],
+        [creditNote],
+        start,
+        end
+      )
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        // state: 100 - 43.78 taxable, 6 - 2.63 tax; city: 8 - 3.50 taxable, 0.2 - 0.09 tax
+        expect(result.value.rates).toMatchObject([
+          { taxRateId: 'city', taxableAmount: 4.5, taxAmount: 0.11 },
+          { taxRateId: 'state', taxableAmount: 56.22, taxAmount: 3.37 },
+        ])
+        expect(result.value.totalTax).toBe(3.48)
+      }
+    })
+
+    it('reports a credit note against an invoice of an earlier period as negative tax', () => {
+      const creditNote: TaxedCreditNote = {
+        amount: 53,
+        invoiceTotal: 106,
+        invoiceLines: [taxedLine('state', 'State Sales Tax', 6, 100, 6)],
+      }
+      const result = buildSalesTaxLiabilityReport([], [creditNote], start, end)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.rates).toMatchObject([
+          { taxRateId: 'state', taxRateName: 'State Sales Tax', taxableAmount: -50, taxAmount: -3 },
+        ])
+        expect(result.value.totalTax).toBe(-3)
+      }
+    })
+
+    it('reports no rates when nothing was taxed', () => {
+      const result = buildSalesTaxLiabilityReport([], [], start, end)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.rates).toEqual([])
+        expect(result.value.totalTax).toBe(0)
+      }
+    })
+
+    it('fails on invalid date range', () => {
+      const result = buildSalesTaxLiabilityReport([], [], end, start)
+      expect(result.isSuccess).toBe(false)
+    })
+  })
+
+  describe('daysPastDue', () => {
+    it('counts whole days from the due date, ignoring the time of day', () => {
+      expect(daysPastDue(new Date('2025-03-31'), new Date('2025-03-31T23:00:00Z'))).toBe(0)
+      expect(daysPastDue(new Date('2025-03-01'), new Date('2025-03-31'))).toBe(30)
+      expect(daysPastDue(new Date('2025-04-10'), new Date('2025-03-31'))).toBe(-10)
+    })
+  })
+
+  describe('buildArAgingReport', () => {
+    const asOfDate = new Date('2025-03-31')
+    const openInvoice = (
+      customerId: string,
+      customerName: string,
+      dueDate: string | undefined,
+      openAmount: number
+    ): OpenReceivable => ({
+      invoiceId: `${customerId}-${dueDate}`,
+      invoiceNumber: 'INV-001',
+      customerId,
+      customerName,
+      date: new Date('2024-12-01'),
+      dueDate: dueDate ? new Date(dueDate) : undefined,
+      total: openAmount,
+      openAmount,
+    })
+
+    it('buckets open balances per customer by days past due, by customer name', () => {
+      const result = buildArAgingReport(
+        [
+          openInvoice('globex', 'Globex', '2025-04-15', 100),  // not yet due
+          openInvoice('acme', 'Acme', '2025-03-31', 50),  // due today
+          openInvoice('acme', 'Acme', '2025-03-01', 20.1),  // 30 days
+          openInvoice('acme', 'Acme', '2025-02-28', 30),  // 31 days
+          openInvoice('globex', 'Globex', '2025-01-30', 40),  // 60 days
+          openInvoice('globex', 'Globex', '2024-12-31', 60),  // 90 days
+          openInvoice('acme', 'Acme', '2024-12-30', 70.2),  // 91 days
+        ],
+        asOfDate
+      )
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.customers.map((customer) => customer.customerName)).toEqual(['Acme', 'Globex'])
+        expect(result.value.customers[0]).toMatchObject({
+          buckets: { current: 50, days1To30: 20.1, days31To60: 30, days61To90: 0, over90: 70.2 },
+          total: 170.3,
+        })
+        expect(result.value.customers[1]).toMatchObject({
+          buckets: { current: 100, days1To30: 0, days31To60: 40, days61To90: 60, over90: 0 },
+          total: 200,
+        })
+        expect(result.value.totals).toEqual({ current: 150, days1To30: 20.1, days31To60: 70, days61To90: 60, over90: 70.2 })
+        expect(result.value.total).toBe(370.3)
+      }
+    })
+
+    it('ages invoices without a due date from their invoice date and leaves out settled ones', () => {
+      const result = buildArAgingReport(
+        [openInvoice('acme', 'Acme', undefined, 25), openInvoice('globex', 'Globex', '2025-03-01', 0)],
+        asOfDate
+      )
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.customers).toHaveLength(1)
+        expect(result.value.customers[0].buckets.over90).toBe(25)
+        expect(result.value.total).toBe(25)
+      }
+    })
+  })
+
+  describe('buildApAgingReport', () => {
+    it('buckets open bill balances per vendor by days past due, by vendor name', () => {
+      const bill = (vendorId: string, vendorName: string, dueDate: string | undefined, openAmount: number): OpenPayable => ({
+        billId: `${vendorId}-${dueDate}`,
+        billNumber: 'BILL-001',
+        vendorId,
+        vendorName,
+        date: new Date('2025-03-01'),
+        dueDate: dueDate ? new Date(dueDate) : undefined,
+        amount: openAmount,
+        openAmount,
+      })
+      const result = buildApAgingReport(
+        [
+          bill('utility', 'Utility Co', '2025-04-10', 80),  // not yet due
+          bill('landlord', 'Landlord', '2025-03-15', 1000),  // 16 days
+          bill('utility', 'Utility Co', undefined, 40.5),  // due on its bill date: 30 days
+          bill('landlord', 'Landlord', '2025-01-01', 0),  // paid off
+        ],
+        new Date('2025-03-31')
+      )
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.vendors).toEqual([
+          {
+            vendorId: 'landlord',
+            vendorName: 'Landlord',
+            buckets: { current: 0, days1To30: 1000, days31To60: 0, days61To90: 0, over90: 0 },
+            total: 1000,
+          },
+          {
+            vendorId: 'utility',
+            vendorName: 'Utility Co',
+            buckets: { current: 80, days1To30: 40.5, days31To60: 0, days61To90: 0, over90: 0 },
+            total: 120.5,
+          },
+        ])
+        expect(result.value.total).toBe(1120.5)
+      }
+    })
+  })
+
+  describe('buildBillsDueForecast', () => {
+    const asOfDate = new Date('2025-06-02')
+    const bill = (billNumber: string, dueDate: string, openAmount: number): OpenPayable => ({
+      billId: billNumber,
+      billNumber,
+      vendorId: 'vendor-1',
+      vendorName: 'Supplier',
+      date: new Date('2025-05-01'),
+      dueDate: new Date(dueDate),
+      amount: openAmount,
+      openAmount,
+    })
+
+    it('should reject a window that is not a whole number of days up to a year', () => {
+      expect(validateForecastDays(30)).toEqual(Success(30))
+      for (const days of [0, -7, 1.5, 367, NaN]) {
+        const result = validateForecastDays(days)
+        expect(result.isSuccess).toBe(false)
+        if (!result.isSuccess) {
+          expect(result.error.subtype).toBe('InvalidForecastWindow')
+        }
+      }
+    })
+
+    it('groups open bills by the week they fall due in, with past due and later amounts', () => {
+      const result = buildBillsDueForecast(
+        [
+          bill('BILL-1', '2025-05-30', 50),  // past due
+          bill('BILL-2', '2025-06-02', 100),  // due on the first day
+          bill('BILL-3', '2025-06-08', 200),  // last day of week 1
+          bill('BILL-4', '2025-06-09', 300),  // first day of week 2
+          bill('BILL-5', '2025-06-11', 25.5),  // last day of the 10-day window
+          bill('BILL-6', '2025-06-12', 400),  // after the window
+        ],
+        1075.5,
+        asOfDate,
+        10
+      )
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        const forecast = result.value
+        expect(forecast.pastDue.total).toBe(50)
+        expect(forecast.weeks).toHaveLength(2)
+        expect(forecast.weeks[0]).toMatchObject({
+          weekStart: new Date('2025-06-02'),
+          weekEnd: new Date('2025-06-08'),
+          total: 300,
+        })
+        expect(forecast.weeks[0].bills.map((due) => due.billNumber)).toEqual(['BILL-2', 'BILL-3'])
+        expect(forecast.weeks[1]).toMatchObject({
+          weekStart: new Date('2025-06-09'),
+          weekEnd: new Date('2025-06-11'),
+          total: 325.5,
+        })
+        expect(forecast.dueLater).toBe(400)
+        expect(forecast.totalOutflow).toBe(675.5)
+        expect(forecast.reconciliation).toEqual({ openBillsTotal: 1075.5, vendorBalanceTotal: 1075.5, difference: 0 })
+      }
+    })
+
+    it('reports the difference when the vendor balances do not match the open bills', () => {
+      const result = buildBillsDueForecast([bill('BILL-1', '2025-06-03', 100)], 120, asOfDate, 7)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.reconciliation.difference).toBe(20)
+      }
+    })
+  })
+
+  describe('buildCustomerStatement', () => {
+    const customer = { id: 'acme', name: 'Acme' }
+    const startDate = new Date('2025-06-01')
+    const endDate = new Date('2025-06-30')
+    const activity = (type: CustomerActivity['type'], date: string, charge: number, credit: number): CustomerActivity => ({
+      type,
+      documentId: `${type}-${date}`,
+      date: new Date(date),
+      description: type,
+      charge,
+      credit,
+    })
+    const openInvoice = (dueDate: string, openAmount: number): OpenReceivable => ({
+      invoiceId: dueDate,
+      invoiceNumber: 'INV-001',
+      customerId: 'acme',
+      customerName: 'Acme',
+      date: new Date('2025-05-01'),
+      dueDate: new Date(dueDate),
+      total: openAmount,
+      openAmount,
+    })
+
+    it('runs a balance from the opening balance through the period, in date order', () => {
+      const result = buildCustomerStatement(
+        customer,
+        [
+          activity('Payment', '2025-06-20', 0, 150),
+          activity('Invoice', '2025-05-10', 300, 0),  // before the period
+          activity('Deposit', '2025-06-05', 0, 50.5),
+          activity('CashSale', '2025-06-20', 80, 80),
+          activity('Invoice', '2025-06-20', 200, 0),
+          activity('Payment', '2025-05-20', 0, 100),  // before the period
+        ],
+        [openInvoice('2025-06-09', 200), openInvoice('2025-07-20', 200)],
+        startDate,
+        endDate
+      )
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        const statement = result.value
+        expect(statement.openingBalance).toBe(200)
+        expect(statement.lines.map((line) => [line.type, line.balance])).toEqual([
+          ['Deposit', 149.5],
+          ['Invoice', 349.5],
+          ['CashSale', 349.5],
+          ['Payment', 199.5],
+        ])
+        expect(statement.closingBalance).toBe(199.5)
+        expect(statement.aging).toEqual({
+          buckets: { current: 200, days1To30: 200, days31To60: 0, days61To90: 0, over90: 0 },
+          total: 400,
+        })
+      }
+    })
+
+    it('lists a credit note after the invoice it was issued against on the same day', () => {
+      const result = buildCustomerStatement(
+        customer,
+        [activity('CreditNote', '2025-06-10', 0, 40), activity('Invoice', '2025-06-10', 250, 0)],
+        [openInvoice('2025-07-10', 210)],
+        startDate,
+        endDate
+      )
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.lines.map((line) => [line.type, line.balance])).toEqual([
+          ['Invoice', 250],
+          ['CreditNote', 210],
+        ])
+        expect(result.value.closingBalance).toBe(result.value.aging.total)
+      }
+    })
+
+    it('reports empty aging when nothing is open', () => {
+      const result = buildCustomerStatement(customer, [], [openInvoice('2025-06-09', 0)], startDate, endDate)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.lines).toEqual([])
+        expect(result.value.closingBalance).toBe(0)
+        expect(result.value.aging.total).toBe(0)
+      }
+    })
+
+    it('fails on invalid date range', () => {
+      const result = buildCustomerStatement(customer, [], [], endDate, startDate)
+      expect(result.isSuccess).toBe(false)
+    })
+  })
 })
\ No newline at end of file
@@ -1,6 +1,7 @@
 import * as R from 'ramda'
 import { Result, Success, Failure, andThen } from '@/common/types/result'
 import { DomainFailure } from '@/common/types/errors'
+import { toCents } from '@/common/types/money'
 import { ReportingDomainSubtype } from './errors'
 import {
   AccountType,
@@ -20,6 +21,7 @@ export type AccountWithBalance = {
   readonly name: string
   readonly type: AccountType  // Asset | Liability | Equity | Revenue | Expense
   readonly normalBalance: NormalBalance  // Debit | Credit
+  readonly parentId?: string | null  // parent account in the chart of accounts tree
   readonly balance: Money    // signed according to normal balance
 }
 
@@ -27,7 +29,9 @@ export type AccountWithBalance = {
 export type StatementLine = {
   readonly accountCode: string
   readonly accountName: string
-  readonly amount: Money
+  readonly amount: Money        // the account's own amount; section totals add these
+  readonly parentCode?: string  // set on sub-accounts
+  readonly subtotal?: Money     // set on parent accounts: own amount plus all sub-accounts
 }
 
 // Income Statement
@@ -79,6 +83,191 @@ export type StatementOfCashFlows = {
   readonly endingCash: Money
 }
 
+// Trial Balance
+export type TrialBalanceLine = {
+  readonly accountCode: string
+  readonly accountName: string
+  readonly accountType: AccountType
+  readonly debit: Money   // balance shown on the debit side, else 0
+  readonly credit: Money  // balance shown on the credit side, else 0
+}
+export type TrialBalance = {
+  readonly asOfDate: Date
+  readonly lines: readonly TrialBalanceLine[]
+  readonly totalDebits: Money
+  readonly totalCredits: Money
+}
+
+// Account Ledger (general ledger detail for one account)
+export type AccountPosting = {
+  readonly journalEntryId: string
+  readonly entryNumber?: string
+  readonly description: string  // the journal entry description
+  readonly date: Date
+  readonly side: JournalLineSide
+  readonly amount: Money
+}
+export type AccountLedgerLine = AccountPosting & {
+  readonly balance: Money  // running balance after this line, signed by normal balance
+}
+export type AccountLedger = {
+  readonly account: Pick<AccountWithBalance, 'id' | 'code' | 'name' | 'type' | 'normalBalance'>
+  readonly period: { startDate: Date; endDate: Date }
+  readonly openingBalance: Money  // balance of all lines before startDate
+  readonly lines: readonly AccountLedgerLine[]
+  readonly closingBalance: Money
+}
+
+// Sales Tax Liability (tax charged on invoices issued in a period, by tax rate)
+export type TaxedInvoiceLine = {
+  readonly taxRateId: string
+  readonly taxRateName: string
+  readonly rate: number  // percentage, e.g. 8.25
+  readonly accountId: string  // the Liability account the tax was credited to
+  readonly amount: Money  // the taxable line amount
+  readonly taxAmount: Money
+}
+// A credit note issued in the period, with the total and taxed lines of the invoice it credits
+export type TaxedCreditNote = {
+  readonly amount: Money
+  readonly invoiceTotal: Money
+  readonly invoiceLines: readonly TaxedInvoiceLine[]
+}
+export type SalesTaxByRate = {
+  readonly taxRateId: string
+  readonly taxRateName: string
+  readonly rate: number
+  readonly accountId: string
+  readonly taxableAmount: Money
+  readonly taxAmount: Money
+}
+export type SalesTaxLiabilityReport = {
+  readonly period: { startDate: Date; endDate: Date }
+  readonly rates: readonly SalesTaxByRate[]
+  readonly totalTaxableAmount: Money
+  readonly totalTax: Money
+}
+
+// Accounts Receivable Aging (open invoice balances per customer, by days past due)
+export type AgingBuckets = {
+  readonly current: Money  // not yet due
+  readonly days1To30: Money
+  readonly days31To60: Money
+  readonly days61To90: Money
+  readonly over90: Money
+}
+export type ReceivableInvoice = {
+  readonly invoiceId: string
+  readonly invoiceNumber: string
+  readonly customerId: string
+  readonly customerName: string
+  readonly date: Date
+  readonly dueDate?: Date  // invoices without one age from their invoice date
+  readonly total: Money
+}
+export type OpenReceivable = ReceivableInvoice & {
+  readonly openAmount: Money  // total less payments and deposits applied
+}
+export type CustomerAging = {
+  readonly customerId: string
+  readonly customerName: string
+  readonly buckets: AgingBuckets
+  readonly total: Money
+}
+export type ArAgingReport = {
+  readonly asOfDate: Date
+  readonly customers: readonly CustomerAging[]
+  readonly totals: AgingBuckets
+  readonly total: Money
+}
+
+// Accounts Payable Aging (open bill balances per vendor, by days past due)
+export type PayableBill = {
+  readonly billId: string
+  readonly billNumber: string
+  readonly vendorId: string
+  readonly vendorName: string
+  readonly date: Date
+  readonly dueDate?: Date  // bills without one are due on their bill date
+  readonly amount: Money
+}
+export type OpenPayable = PayableBill & {
+  readonly openAmount: Money  // amount less bill payments
+}
+export type VendorAging = {
+  readonly vendorId: string
+  readonly vendorName: string
+  readonly buckets: AgingBuckets
+  readonly total: Money
+}
+export type ApAgingReport = {
+  readonly asOfDate: Date
+  readonly vendors: readonly VendorAging[]
+  readonly totals: AgingBuckets
+  readonly total: Money
+}
+
+// Bills Due Forecast (cash outflow for open bills, week by week over the next N days)
+export type BillDue = {
+  readonly billId: string
+  readonly billNumber: string
+  readonly vendorId: string
+  readonly vendorName: string
+  readonly dueDate: Date
+  readonly openAmount: Money
+}
+export type BillsDueGroup = {
+  readonly bills: readonly BillDue[]  // by due date
+  readonly total: Money
+}
+export type BillsDueWeek = BillsDueGroup & {
+  readonly weekStart: Date
+  readonly weekEnd: Date  // the last day of the week, cut short at the end of the window
+}
+export type BillsDueForecast = {
+  readonly asOfDate: Date
+  readonly days: number
+  readonly pastDue: BillsDueGroup  // due before asOfDate and still open
+  readonly weeks: readonly BillsDueWeek[]
+  readonly dueLater: Money  // due after the window
+  readonly totalOutflow: Money  // past due plus everything due within the window
+  readonly reconciliation: {
+    readonly openBillsTotal: Money  // every open bill: past due, within and after the window
+    readonly vendorBalanceTotal: Money  // sum of the vendors' subsidiary balances
+    readonly difference: Money  // zero when the two agree
+  }
+}
+
+// Customer Statement (a customer's invoices, payments, deposits and cash sales with a running balance)
+export type CustomerActivityType = 'Invoice' | 'Payment' | 'Deposit' | 'CashSale' | 'CreditNote'
+export type CustomerActivity = {
+  readonly type: CustomerActivityType
+  readonly documentId: string
+  readonly date: Date
+  readonly description: string  // e.g. "Invoice INV-001", "Payment on INV-001 (CHK-1001)"
+  readonly charge: Money  // raises what the customer owes
+  readonly credit: Money  // lowers it
+}
+export type CustomerStatementLine = CustomerActivity & {
+  readonly balance: Money
+}
+export type StatementCustomer = {
+  readonly id: string
+  readonly name: string
+  readonly email?: string
+}
+export type CustomerStatement = {
+  readonly customer: StatementCustomer
+  readonly period: { startDate: Date; endDate: Date }
+  readonly openingBalance: Money  // owed before startDate, net of deposits received
+  readonly lines: readonly CustomerStatementLine[]
+  readonly closingBalance: Money
+  readonly aging: {
+    readonly buckets: AgingBuckets  // open invoices as of endDate, by days past due
+    readonly total: Money
+  }
+}
+
 // Re‑export ledger types for convenience
 export { AccountType, NormalBalance, JournalLineSide }
 export const AccountTypeEnum = AccountType
@@ -156,8 +345,41 @@ export const validateDateRange = (
   return Success({ startDate, endDate })
 }
 
+/**
+ * Turn the accounts of one statement section into lines, rolling sub-accounts up into their parents.
+ * Every line keeps the account's own amount (so section totals never double count);
+ * parents also carry a subtotal of themselves plus all their descendants.
+ */
+export const toStatementLines = (
+  accounts: AccountWithBalance[],
+  amountOf: (account: AccountWithBalance) => Money
+): StatementLine[] => {
+  const byId = new Map(accounts.map((acc) => [acc.id, acc]))
+  const childrenOf = R.groupBy((acc: AccountWithBalance) => acc.parentId ?? '', accounts)
+
+  const subtotalOf = (account: AccountWithBalance, visited: Set<string>): Money => {
+    if (visited.has(account.id)) return 0
+    visited.add(account.id)
+    const children = childrenOf[account.id] ?? []
+    return amountOf(account) + R.sum(children.map((child) => subtotalOf(child, visited)))
+  }
+
+  return accounts.map((acc) => {
+    const parent = acc.parentId ? byId.get(acc.parentId) : undefined
+    const hasChildren = (childrenOf[acc.id] ?? []).length > 0
+    return {
+      accountCode: acc.code,
+      accountName: acc.name,
+      amount: amountOf(acc),
+      ...(parent ? { parentCode: parent.code } : {}),
+      ...(hasChildren ? { subtotal: subtotalOf(acc, new Set()) } : {}),
+    }
+  })
+}
+
 /**
  * Build an income statement from accounts with balances for a given period.
+ * Parent accounts carry a subtotal of their sub-accounts (see toStatementLines).
  */
 export const buildIncomeStatement = (
   accounts: AccountWithBalance[],
@@ -170,20 +392,10 @@ export const buildIncomeStatement = (
   const revenues = accounts.filter((acc) => acc.type === 'Revenue')
   const expenses = accounts.filter((acc) => acc.type === 'Expense')
 
-  const revenueLines: StatementLine[] = revenues
-    .map((acc) => ({
-      accountCode: acc.code,
-      accountName: acc.name,
-      amount: acc.balance,
-    }))
-    .filter((line) => line.amount !== 0)
-  const expenseLines: StatementLine[] = expenses
-    .map((acc) => ({
-      accountCode: acc.code,
-      accountName: acc.name,
-      amount: acc.balance,
-    }))
-    .filter((line) => line.amount !== 0)
+  // Hide inactive accounts, but keep a parent whose sub-accounts had activity
+  const isActive = (line: StatementLine) => line.amount !== 0 || (line.subtotal ?? 0) !== 0
+  const revenueLines: StatementLine[] = toStatementLines(revenues, (acc) => acc.balance).filter(isActive)
+  const expenseLines: StatementLine[] = toStatementLines(expenses, (acc) => acc.balance).filter(isActive)
 
   const revenueTotal = R.sum(R.map((line) => line.amount, revenueLines))
   const expenseTotal = R.sum(R.map((line) => line.amount, expenseLines))
@@ -206,6 +418,8 @@ export const buildIncomeStatement = (
  * Equity includes:
  * - Equity accounts (Owner Capital, Owner Drawing) with amounts adjusted for contra-equity (drawing is negative).
  * - Retained Earnings, computed as net income (total revenue - total expense).
+ *
+ * Parent accounts carry a subtotal of their sub-accounts (see toStatementLines).
  */
 export const buildBalanceSheet = (
   accounts: AccountWithBalance[],
@@ -218,23 +432,15 @@ export const buildBalanceSheet = (
   const expenseAccounts = accounts.filter((acc) => acc.type === 'Expense')
 
   // Asset lines with contra‑asset adjustment
-  const assetLines: StatementLine[] = assets.map((acc) => ({
-    accountCode: acc.code,
-    accountName: acc.name,
-    amount: isContraAccount(acc) ? -acc.balance : acc.balance,
-  }))
+  const assetLines: StatementLine[] = toStatementLines(assets, (acc) =>
+    isContraAccount(acc) ? -acc.balance : acc.balance
+  )
   // Liability lines (no contra‑liability in v1)
-  const liabilityLines: StatementLine[] = liabilities.map((acc) => ({
-    accountCode: acc.code,
-    accountName: acc.name,
-    amount: acc.balance,
-  }))
+  const liabilityLines: StatementLine[] = toStatementLines(liabilities, (acc) => acc.balance)
   // Equity lines: adjust for contra‑equity (debit normal balance → negative)
-  const equityAccountLines: StatementLine[] = equityAccounts.map((acc) => ({
-    accountCode: acc.code,
-    accountName: acc.name,
-    amount: acc.normalBalance === 'Debit' ? -acc.balance : acc.balance,
-  }))
+  const equityAccountLines: StatementLine[] = toStatementLines(equityAccounts, (acc) =>
+    acc.normalBalance === 'Debit' ? -acc.balance : acc.balance
+  )
   // Retained earnings line (net income)
   const netIncome = calculateNetIncome(revenueAccounts, expenseAccounts)
   const retainedEarningsLine: StatementLine = {
@@ -337,4 +543,404 @@ export const buildStatementOfCashFlows = (
     beginningCash,
     endingCash,
   })
-}
\ No newline at end of file
+}
+
+/**
+ * Build a trial balance: every account with its cumulative balance in the debit or credit column.
+ * A positive balance goes on the account's normal side; a negative one goes on the other side.
+ * Fails with TrialBalanceOutOfBalance unless total debits and total credits are equal once rounded to cents.
+ */
+export const buildTrialBalance = (
+  accounts: AccountWithBalance[],
+  asOfDate: Date
+): Result<TrialBalance> => {
+  const lines: TrialBalanceLine[] = accounts.map((acc) => {
+    const onDebitSide = (acc.normalBalance === 'Debit') === (acc.balance >= 0)
+    const amount = toCents(Math.abs(acc.balance))
+    return {
+      accountCode: acc.code,
+      accountName: acc.name,
+      accountType: acc.type,
+      debit: onDebitSide ? amount : 0,
+      credit: onDebitSide ? 0 : amount,
+    }
+  })
+
+  const totalDebits = toCents(R.sum(R.map((line) => line.debit, lines)))
+  const totalCredits = toCents(R.sum(R.map((line) => line.credit, lines)))
+
+  if (totalDebits !== totalCredits) {
+    const diff = toCents(Math.abs(totalDebits - totalCredits))
+    return Failure(
+      DomainFailure(
+        'TrialBalanceOutOfBalance' as ReportingDomainSubtype,
+        `Trial balance out of balance: debits (${totalDebits}) != credits (${totalCredits}) (difference: ${diff}).`
+      )
+    )
+  }
+
+  return Success({
+    asOfDate,
+    lines,
+    totalDebits,
+    totalCredits,
+  })
+}
+
+/**
+ * Build the ledger of one account for a period: opening balance, each posting in date order
+ * with a running balance, and closing balance.
+ * Postings must be in date order and may start before startDate (they make up the opening balance);
+ * amounts are signed by the account's normal balance, as in calculateAccountBalance.
+ */
+export const buildAccountLedger = (
+  account: AccountWithBalance,
+  postings: AccountPosting[],
+  startDate: Date,
+  endDate: Date
+): Result<AccountLedger> => {
+  const dateRangeResult = validateDateRange(startDate, endDate)
+  if (!dateRangeResult.isSuccess) return dateRangeResult
+
+  const signedAmount = (posting: AccountPosting): Money =>
+    calculateAccountBalance(account, [{ accountId: account.id, amount: posting.amount, side: posting.side }])
+
+  const openingBalance = toCents(
+    R.sum(postings.filter((posting) => posting.date < startDate).map(signedAmount))
+  )
+  const periodPostings = postings.filter((posting) => posting.date >= startDate && posting.date <= endDate)
+  const [closingBalance, lines] = R.mapAccum(
+    (balance: Money, posting: AccountPosting): [Money, AccountLedgerLine] => {
+      const next = toCents(balance + signedAmount(posting))
+      return [next, { ...posting, balance: next }]
+    },
+    openingBalance,
+    periodPostings
+  )
+
+  return Success({
+    account: {
+      id: account.id,
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      normalBalance: account.normalBalance,
+    },
+    period: { startDate, endDate },
+    openingBalance,
+    lines,
+    closingBalance,
+  })
+}
+
+/**
+ * The taxable amount and tax a credit note takes back, per tax rate of the invoice it credits, as negative lines.
+ * Each rate gives back the credited amount × its share of the invoice total (rounded to cents), the same
+ * proportion the credit note debits the rate's Liability account with.
+ */
+export const creditedTaxLines = (creditNote: TaxedCreditNote): TaxedInvoiceLine[] =>
+  Object.values(R.groupBy((line: TaxedInvoiceLine) => line.taxRateId, creditNote.invoiceLines)).map((rateLines) => {
+    const [first] = rateLines!
+    const credited = (amount: Money): Money => 0 - toCents((creditNote.amount * amount) / creditNote.invoiceTotal)
+    return {
+      ...first,
+      amount: credited(R.sum(rateLines!.map((line) => line.amount))),
+      taxAmount: credited(R.sum(rateLines!.map((line) => line.taxAmount))),
+    }
+  })
+
+/**
+ * Build the sales tax liability report for a period: taxable sales and tax collected per tax rate,
+ * by tax rate name, with totals for filing.
+ * Lines are the taxed invoice lines of invoices dated within the period (tax is owed when invoiced);
+ * credit notes dated within the period take their share of their invoice's tax back.
+ */
+export const buildSalesTaxLiabilityReport = (
+  lines: TaxedInvoiceLine[],
+  creditNotes: TaxedCreditNote[],
+  startDate: Date,
+  endDate: Date
+): Result<SalesTaxLiabilityReport> => {
+  const dateRangeResult = validateDateRange(startDate, endDate)
+  if (!dateRangeResult.isSuccess) return dateRangeResult
+
+  const linesByRate = R.groupBy(
+    (line: TaxedInvoiceLine) => line.taxRateId,
+    [...lines, ...creditNotes.flatMap(creditedTaxLines)]
+  )
+  const rates: SalesTaxByRate[] = R.sortBy(
+    (rate: SalesTaxByRate) => rate.taxRateName,
+    Object.values(linesByRate).map((rateLines) => {
+      const [first] = rateLines!
+      return {
+        taxRateId: first.taxRateId,
+        taxRateName: first.taxRateName,
+        rate: first.rate,
+        accountId: first.accountId,
+        taxableAmount: toCents(R.sum(rateLines!.map((line) => line.amount))),
+        taxAmount: toCents(R.sum(rateLines!.map((line) => line.taxAmount))),
+      }
+    })
+  )
+
+  return Success({
+    period: { startDate, endDate },
+    rates,
+    totalTaxableAmount: toCents(R.sum(rates.map((rate) => rate.taxableAmount))),
+    totalTax: toCents(R.sum(rates.map((rate) => rate.taxAmount))),
+  })
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const startOfUtcDay = (date: Date): number =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+
+/**
+ * Whole days a balance is past its due date as of a date (zero or negative while not yet due).
+ */
+export const daysPastDue = (dueDate: Date, asOfDate: Date): number =>
+  Math.round((startOfUtcDay(asOfDate) - startOfUtcDay(dueDate)) / MS_PER_DAY)
+
+const emptyAgingBuckets: AgingBuckets = { current: 0, days1To30: 0, days31To60: 0, days61To90: 0, over90: 0 }
+
+const agingBucketFor = (days: number): keyof AgingBuckets =>
+  days <= 0 ? 'current'
+    : days <= 30 ? 'days1To30'
+      : days <= 60 ? 'days31To60'
+        : days <= 90 ? 'days61To90'
+          : 'over90'
+
+// Sum open amounts into their aging buckets, rounded to cents
+const toAgingBuckets = (items: { dueDate: Date; openAmount: Money }[], asOfDate: Date): AgingBuckets => {
+  const buckets = items.reduce<Record<keyof AgingBuckets, Money>>(
+    (acc, item) => {
+      const bucket = agingBucketFor(daysPastDue(item.dueDate, asOfDate))
+      return { ...acc, [bucket]: acc[bucket] + item.openAmount }
+    },
+    { ...emptyAgingBuckets }
+  )
+  return R.map(toCents, buckets)
+}
+
+const sumAgingBuckets = (all: AgingBuckets[]): AgingBuckets =>
+  R.mapObjIndexed(
+    (_, bucket) => toCents(R.sum(all.map((buckets) => buckets[bucket as keyof AgingBuckets]))),
+    emptyAgingBuckets
+  )
+
+const totalOfBuckets = (buckets: AgingBuckets): Money => toCents(R.sum(Object.values(buckets)))
+
+// One party's (customer's or vendor's) open balance on a document, with the date it ages from
+type AgedBalance = { partyId: string; partyName: string; dueDate: Date; openAmount: Money }
+type PartyAging = { partyId: string; partyName: string; buckets: AgingBuckets; total: Money }
+
+// Bucket open balances per party, by party name, leaving out documents with nothing open
+const ageByParty = (balances: AgedBalance[], asOfDate: Date): PartyAging[] => {
+  const open = balances.filter((balance) => balance.openAmount > 0)
+  const balancesByParty = R.groupBy((balance: AgedBalance) => balance.partyId, open)
+  return R.sortBy(
+    (party: PartyAging) => party.partyName,
+    Object.values(balancesByParty).map((partyBalances) => {
+      const [first] = partyBalances!
+      const buckets = toAgingBuckets(partyBalances!, asOfDate)
+      return {
+        partyId: first.partyId,
+        partyName: first.partyName,
+        buckets,
+        total: totalOfBuckets(buckets),
+      }
+    })
+  )
+}
+
+/**
+ * Build the accounts receivable aging report: each customer's open invoice balances bucketed
+ * into current, 1–30, 31–60, 61–90 and over 90 days past due as of a date, sorted by customer name.
+ * Invoices with nothing left open are left out.
+ */
+export const buildArAgingReport = (
+  invoices: OpenReceivable[],
+  asOfDate: Date
+): Result<ArAgingReport> => {
+  const customers: CustomerAging[] = ageByParty(
+    invoices.map((invoice) => ({
+      partyId: invoice.customerId,
+      partyName: invoice.customerName,
+      dueDate: invoice.dueDate ?? invoice.date,
+      openAmount: invoice.openAmount,
+    })),
+    asOfDate
+  ).map(({ partyId, partyName, buckets, total }) => ({ customerId: partyId, customerName: partyName, buckets, total }))
+
+  const totals = sumAgingBuckets(customers.map((customer) => customer.buckets))
+  return Success({
+    asOfDate,
+    customers,
+    totals,
+    total: totalOfBuckets(totals),
+  })
+}
+
+/**
+ * Build the accounts payable aging report: each vendor's open bill balances bucketed
+ * into current, 1–30, 31–60, 61–90 and over 90 days past due as of a date, sorted by vendor name.
+ * Bills with nothing left open are left out.
+ */
+export const buildApAgingReport = (
+  bills: OpenPayable[],
+  asOfDate: Date
+): Result<ApAgingReport> => {
+  const vendors: VendorAging[] = ageByParty(
+    bills.map((bill) => ({
+      partyId: bill.vendorId,
+      partyName: bill.vendorName,
+      dueDate: bill.dueDate ?? bill.date,
+      openAmount: bill.openAmount,
+    })),
+    asOfDate
+  ).map(({ partyId, partyName, buckets, total }) => ({ vendorId: partyId, vendorName: partyName, buckets, total }))
+
+  const totals = sumAgingBuckets(vendors.map((vendor) => vendor.buckets))
+  return Success({
+    asOfDate,
+    vendors,
+    totals,
+    total: totalOfBuckets(totals),
+  })
+}
+
+export const MAX_FORECAST_DAYS = 366
+
+/**
+ * Validate the length of a forecast window: a whole number of days, from 1 up to a year.
+ */
+export const validateForecastDays = (days: number): Result<number> => {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_FORECAST_DAYS) {
+    return Failure(
+      DomainFailure(
+        'InvalidForecastWindow' as ReportingDomainSubtype,
+        `Forecast window must be a whole number of days between 1 and ${MAX_FORECAST_DAYS}.`
+      )
+    )
+  }
+  return Success(days)
+}
+
+const toBillsDueGroup = (bills: BillDue[]): BillsDueGroup => ({
+  bills: R.sortBy((bill: BillDue) => bill.dueDate.getTime(), bills),
+  total: toCents(R.sum(bills.map((bill) => bill.openAmount))),
+})
+
+/**
+ * Build the bills due forecast: the open bill balances falling due in the N days starting at asOfDate,
+ * week by week (weeks start on asOfDate), with what is already past due and what falls due later.
+ * Bills without a due date are due on their bill date. Every open bill together is reconciled
+ * against the vendors' subsidiary balances, which should always agree.
+ */
+export const buildBillsDueForecast = (
+  bills: OpenPayable[],
+  vendorBalanceTotal: Money,
+  asOfDate: Date,
+  days: number
+): Result<BillsDueForecast> => {
+  const daysResult = validateForecastDays(days)
+  if (!daysResult.isSuccess) return daysResult
+
+  const due: BillDue[] = bills
+    .filter((bill) => bill.openAmount > 0)
+    .map((bill) => ({
+      billId: bill.billId,
+      billNumber: bill.billNumber,
+      vendorId: bill.vendorId,
+      vendorName: bill.vendorName,
+      dueDate: bill.dueDate ?? bill.date,
+      openAmount: bill.openAmount,
+    }))
+  const daysUntilDue = (bill: BillDue): number => -daysPastDue(bill.dueDate, asOfDate)
+
+  const pastDue = toBillsDueGroup(due.filter((bill) => daysUntilDue(bill) < 0))
+  const windowStart = startOfUtcDay(asOfDate)
+  const weeks: BillsDueWeek[] = R.range(0, Math.ceil(days / 7)).map((week) => {
+    const firstDay = week * 7
+    const lastDay = Math.min(firstDay + 6, days - 1)
+    return {
+      weekStart: new Date(windowStart + firstDay * MS_PER_DAY),
+      weekEnd: new Date(windowStart + lastDay * MS_PER_DAY),
+      ...toBillsDueGroup(due.filter((bill) => daysUntilDue(bill) >= firstDay && daysUntilDue(bill) <= lastDay)),
+    }
+  })
+  const dueLater = toCents(R.sum(due.filter((bill) => daysUntilDue(bill) >= days).map((bill) => bill.openAmount)))
+  const totalOutflow = toCents(pastDue.total + R.sum(weeks.map((week) => week.total)))
+  const openBillsTotal = toCents(totalOutflow + dueLater)
+
+  return Success({
+    asOfDate,
+    days,
+    pastDue,
+    weeks,
+    dueLater,
+    totalOutflow,
+    reconciliation: {
+      openBillsTotal,
+      vendorBalanceTotal: toCents(vendorBalanceTotal),
+      difference: toCents(vendorBalanceTotal - openBillsTotal),
+    },
+  })
+}
+
+// Same-day activity reads in the order it usually happens: sales first, then what settles them
+const activityOrder: Record<CustomerActivityType, number> = { Invoice: 0, CashSale: 1, CreditNote: 2, Deposit: 3, Payment: 4 }
+
+/**
+ * Build a customer statement for a period: the opening balance, every invoice, credit note, payment, deposit and
+ * cash sale in date order with a running balance, the closing balance, and the aging of the invoices still open at endDate.
+ * Invoices are charges; credit notes, payments and deposits received are credits (so an unapplied deposit shows as a
+ * credit balance); a cash sale is both, as it is paid on the spot.
+ */
+export const buildCustomerStatement = (
+  customer: StatementCustomer,
+  activity: CustomerActivity[],
+  openInvoices: OpenReceivable[],
+  startDate: Date,
+  endDate: Date
+): Result<CustomerStatement> => {
+  const dateRangeResult = validateDateRange(startDate, endDate)
+  if (!dateRangeResult.isSuccess) return dateRangeResult
+
+  const net = (item: CustomerActivity): Money => item.charge - item.credit
+  const ordered = R.sortWith<CustomerActivity>(
+    [R.ascend((item) => item.date.getTime()), R.ascend((item) => activityOrder[item.type])],
+    activity
+  )
+  const openingBalance = toCents(R.sum(ordered.filter((item) => item.date < startDate).map(net)))
+  const periodActivity = ordered.filter((item) => item.date >= startDate && item.date <= endDate)
+  const [closingBalance, lines] = R.mapAccum(
+    (balance: Money, item: CustomerActivity): [Money, CustomerStatementLine] => {
+      const next = toCents(balance + net(item))
+      return [next, { ...item, balance: next }]
+    },
+    openingBalance,
+    periodActivity
+  )
+
+  const [customerAging] = ageByParty(
+    openInvoices.map((invoice) => ({
+      partyId: invoice.customerId,
+      partyName: invoice.customerName,
+      dueDate: invoice.dueDate ?? invoice.date,
+      openAmount: invoice.openAmount,
+    })),
+    endDate
+  )
+
+  return Success({
+    customer,
+    period: { startDate, endDate },
+    openingBalance,
+    lines,
+    closingBalance,
+    aging: customerAging
+      ? { buckets: customerAging.buckets, total: customerAging.total }
+      : { buckets: emptyAgingBuckets, total: 0 },
+  })
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { renderCustomerStatementHtml, renderCustomerStatementText } from './statementFormats'
+import { CustomerStatement } from './reporting'
+
+describe('Reporting Domain: Customer Statement Formats', () => {
+  const statement: CustomerStatement = {
+    customer: { id: 'acme', name: 'Acme & Sons', email: 'billing@acme.test' },
+    period: { startDate: new Date('2025-06-01'), endDate: new Date('2025-06-30') },
+    openingBalance: 100,
+    lines: [
+      {
+        type: 'Invoice',
+        documentId: 'inv-2',
+        date: new Date('2025-06-10'),
+        description: 'Invoice INV-002',
+        charge: 250,
+        credit: 0,
+        balance: 350,
+      },
+      {
+        type: 'Payment',
+        documentId: 'pay-1',
+        date: new Date('2025-06-15'),
+        description: 'Payment on INV-001 <CHK-1001>',
+        charge: 0,
+        credit: 100,
+        balance: 250,
+      },
+    ],
+    closingBalance: 250,
+    aging: {
+      buckets: { current: 250, days1To30: 0, days31To60: 0, days61To90: 0, over90: 0 },
+      total: 250,
+    },
+  }
+
+  describe('renderCustomerStatementText', () => {
+    it('should lay out the balances and lines in fixed-width columns', () => {
+      const text = renderCustomerStatementText(statement)
+      const lines = text.split('\n')
+
+      expect(lines[0]).toBe('STATEMENT')
+      expect(lines[1]).toBe('Customer: Acme & Sons <billing@acme.test>')
+      expect(lines[2]).toBe('Period: 2025-06-01 to 2025-06-30')
+      expect(lines).toContain(`${'2025-06-01'.padEnd(12)}${'Opening balance'.padEnd(40)}${''.padStart(24)}${'100.00'.padStart(12)}`)
+      expect(lines).toContain(`${'2025-06-10'.padEnd(12)}${'Invoice INV-002'.padEnd(40)}${'250.00'.padStart(12)}${''.padStart(12)}${'350.00'.padStart(12)}`)
+      expect(lines).toContain(`${'2025-06-30'.padEnd(12)}${'Closing balance'.padEnd(40)}${''.padStart(24)}${'250.00'.padStart(12)}`)
+      expect(lines[lines.length - 1].trim().split(/\s+/)).toEqual(['250.00', '0.00', '0.00', '0.00', '0.00', '250.00'])
+    })
+  })
+
+  describe('renderCustomerStatementHtml', () => {
+    it('should render a standalone page with every line and the aging summary', () => {
+      const html = renderCustomerStatementHtml(statement)
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true)
+      expect(html).toContain('@media print')
+      expect(html).toContain('<td>Invoice INV-002</td><td class="amount">250.00</td>')
+      expect(html).toContain('<td class="amount">250.00</td></tr></tbody>')
+    })
+
+    it('should escape customer and document text', () => {
+      const html = renderCustomerStatementHtml(statement)
+
+      expect(html).toContain('Acme &amp; Sons &lt;billing@acme.test&gt;')
+      expect(html).toContain('Payment on INV-001 &lt;CHK-1001&gt;')
+      expect(html).not.toContain('<CHK-1001>')
+    })
+  })
+})
\ No newline at end of file
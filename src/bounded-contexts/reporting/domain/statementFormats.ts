@@ -0,0 +1,104 @@
+import { AgingBuckets, CustomerStatement } from './reporting'
+import { type Money } from '@/bounded-contexts/ledger/domain/ledger'
+
+// --- Customer Statement Formats ---
+// Pure renderers turning a built statement into something that can be printed or mailed.
+
+const formatMoney = (amount: Money): string => amount.toFixed(2)
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10)
+
+const agingColumns: readonly [keyof AgingBuckets, string][] = [
+  ['current', 'Current'],
+  ['days1To30', '1-30 days'],
+  ['days31To60', '31-60 days'],
+  ['days61To90', '61-90 days'],
+  ['over90', 'Over 90 days'],
+]
+
+const customerLabel = (statement: CustomerStatement): string =>
+  statement.customer.email ? `${statement.customer.name} <${statement.customer.email}>` : statement.customer.name
+
+/**
+ * Render a customer statement as plain text, in fixed-width columns (for email bodies and terminals).
+ */
+export const renderCustomerStatementText = (statement: CustomerStatement): string => {
+  const row = (date: string, description: string, charge: string, credit: string, balance: string): string =>
+    `${date.padEnd(12)}${description.padEnd(40)}${charge.padStart(12)}${credit.padStart(12)}${balance.padStart(12)}`
+  const amountOrBlank = (amount: Money): string => (amount === 0 ? '' : formatMoney(amount))
+
+  return [
+    'STATEMENT',
+    `Customer: ${customerLabel(statement)}`,
+    `Period: ${formatDate(statement.period.startDate)} to ${formatDate(statement.period.endDate)}`,
+    '',
+    row('Date', 'Description', 'Charges', 'Credits', 'Balance'),
+    row(formatDate(statement.period.startDate), 'Opening balance', '', '', formatMoney(statement.openingBalance)),
+    ...statement.lines.map((line) =>
+      row(formatDate(line.date), line.description, amountOrBlank(line.charge), amountOrBlank(line.credit), formatMoney(line.balance))
+    ),
+    row(formatDate(statement.period.endDate), 'Closing balance', '', '', formatMoney(statement.closingBalance)),
+    '',
+    `Aging of open invoices as of ${formatDate(statement.period.endDate)}`,
+    [...agingColumns.map(([, label]) => label.padStart(14)), 'Total'.padStart(14)].join(''),
+    [
+      ...agingColumns.map(([bucket]) => formatMoney(statement.aging.buckets[bucket]).padStart(14)),
+      formatMoney(statement.aging.total).padStart(14),
+    ].join(''),
+  ].join('\n')
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+/**
+ * Render a customer statement as a standalone, printable HTML page.
+ */
+export const renderCustomerStatementHtml = (statement: CustomerStatement): string => {
+  const cell = (text: string, numeric = false): string =>
+    numeric ? `<td class="amount">${escapeHtml(text)}</td>` : `<td>${escapeHtml(text)}</td>`
+  const amountOrBlank = (amount: Money): string => (amount === 0 ? '' : formatMoney(amount))
+  const period = `${formatDate(statement.period.startDate)} to ${formatDate(statement.period.endDate)}`
+  const lineRows = statement.lines.map((line) =>
+    `<tr>${cell(formatDate(line.date))}${cell(line.description)}${cell(amountOrBlank(line.charge), true)}${cell(amountOrBlank(line.credit), true)}${cell(formatMoney(line.balance), true)}</tr>`
+  )
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>Statement for ${escapeHtml(statement.customer.name)}, ${period}</title>`,
+    '<style>',
+    'body { font-family: sans-serif; margin: 2em; }',
+    'table { border-collapse: collapse; width: 100%; margin-bottom: 1.5em; }',
+    'th, td { border-bottom: 1px solid #ccc; padding: 0.3em 0.6em; text-align: left; }',
+    'td.amount, th.amount { text-align: right; }',
+    'tr.total td { font-weight: bold; }',
+    '@media print { body { margin: 0; } }',
+    '</style>',
+    '</head>',
+    '<body>',
+    '<h1>Statement</h1>',
+    `<p>${escapeHtml(customerLabel(statement))}<br>${period}</p>`,
+    '<table>',
+    '<thead><tr><th>Date</th><th>Description</th><th class="amount">Charges</th><th class="amount">Credits</th><th class="amount">Balance</th></tr></thead>',
+    '<tbody>',
+    `<tr class="total">${cell(formatDate(statement.period.startDate))}${cell('Opening balance')}${cell('', true)}${cell('', true)}${cell(formatMoney(statement.openingBalance), true)}</tr>`,
+    ...lineRows,
+    `<tr class="total">${cell(formatDate(statement.period.endDate))}${cell('Closing balance')}${cell('', true)}${cell('', true)}${cell(formatMoney(statement.closingBalance), true)}</tr>`,
+    '</tbody>',
+    '</table>',
+    `<h2>Aging of open invoices as of ${formatDate(statement.period.endDate)}</h2>`,
+    '<table>',
+    `<thead><tr>${agingColumns.map(([, label]) => `<th class="amount">${label}</th>`).join('')}<th class="amount">Total</th></tr></thead>`,
+    `<tbody><tr>${agingColumns.map(([bucket]) => cell(formatMoney(statement.aging.buckets[bucket]), true)).join('')}${cell(formatMoney(statement.aging.total), true)}</tr></tbody>`,
+    '</table>',
+    '</body>',
+    '</html>',
+  ].join('\n')
+}
\ No newline at end of file
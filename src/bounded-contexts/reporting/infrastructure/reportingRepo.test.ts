@@ -37,8 +37,9 @@ describe('Reporting Context: Reporting Repository (Infrastructure)', () => {
     await prisma.journalEntry.deleteMany()
     // 6. Account (depends on User)
     await prisma.account.deleteMany()
-    // 7. Session (depends on User)
+    // 7. Session and Collaborator (depend on User)
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     // 8. User
     await prisma.user.deleteMany()
 
@@ -401,6 +402,20 @@ describe('Reporting Context: Reporting Repository (Infrastructure)', () => {
       expect(account!.type).toBe('Asset')
     })
 
+    it('returns the account mapped to the Cash posting role', async () => {
+      const bank = await prisma.account.create({
+        data: { userId, code: '102', name: 'Checking Account', type: 'Asset', normalBalance: 'Debit' },
+      })
+      await prisma.postingMapping.create({ data: { userId, role: 'Cash', accountId: bank.id } })
+
+      const result = await findCashAccount(userId)
+      expect(result.isSuccess).toBe(true)
+      if (!result.isSuccess) return
+
+      expect(result.value!.id).toBe(bank.id)
+      expect(result.value!.code).toBe('102')
+    })
+
     it('returns null if cash account does not exist', async () => {
       // Delete journal lines that reference the cash account
       await prisma.journalLine.deleteMany({
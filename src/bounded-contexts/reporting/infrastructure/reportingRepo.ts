@@ -1,6 +1,7 @@
 import { prisma } from '@/common/infrastructure/db'
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
+import { toCents } from '@/common/types/money'
 import { Prisma } from '@/prisma/client'
 import { ReportingInfrastructureSubtype } from '../domain/errors'
 import {
@@ -9,8 +10,18 @@ import {
   NormalBalance,
   StatementLine,
   CashFlowActivity,
+  AccountPosting,
+  TaxedInvoiceLine,
+  TaxedCreditNote,
+  ReceivableInvoice,
+  PayableBill,
+  OpenPayable,
+  CustomerActivity,
+  OpenReceivable,
+  StatementCustomer,
 } from '../domain/reporting'
 import { JournalLine } from '@/bounded-contexts/ledger/domain/ledger'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
 
 // --- Helper: safe DB call with error mapping ---
 const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
@@ -48,15 +59,127 @@ const toAccountWithBalance = (prismaAccount: any, balance: number): AccountWithB
   name: prismaAccount.name,
   type: prismaAccount.type as AccountType,
   normalBalance: prismaAccount.normalBalance as NormalBalance,
+  parentId: prismaAccount.parentId ?? null,
   balance,
 })
 
+const toAccountPosting = (prismaLine: any): AccountPosting => ({
+  journalEntryId: prismaLine.journalEntryId,
+  entryNumber: prismaLine.journalEntry.entryNumber ?? undefined,
+  description: prismaLine.journalEntry.description,
+  date: prismaLine.journalEntry.date,
+  side: prismaLine.side,
+  amount: Number(prismaLine.amount),
+})
+
+const toTaxedInvoiceLine = (prismaLine: any): TaxedInvoiceLine => ({
+  taxRateId: prismaLine.taxRateId,
+  taxRateName: prismaLine.taxRate.name,
+  rate: Number(prismaLine.taxRate.rate),
+  accountId: prismaLine.taxRate.accountId,
+  amount: Number(prismaLine.amount),
+  taxAmount: Number(prismaLine.taxAmount),
+})
+
+const toTaxedCreditNote = (prismaCreditNote: any): TaxedCreditNote => ({
+  amount: Number(prismaCreditNote.amount),
+  invoiceTotal: Number(prismaCreditNote.invoice.total),
+  invoiceLines: prismaCreditNote.invoice.lines.map(toTaxedInvoiceLine),
+})
+
+const toReceivableInvoice = (prismaInvoice: any): ReceivableInvoice => ({
+  invoiceId: prismaInvoice.id,
+  invoiceNumber: prismaInvoice.invoiceNumber,
+  customerId: prismaInvoice.customerId,
+  customerName: prismaInvoice.customer.name,
+  date: prismaInvoice.date,
+  dueDate: prismaInvoice.dueDate ?? undefined,
+  total: Number(prismaInvoice.total),
+})
+
+const toPayableBill = (prismaBill: any): PayableBill => ({
+  billId: prismaBill.id,
+  billNumber: prismaBill.billNumber,
+  vendorId: prismaBill.vendorId,
+  vendorName: prismaBill.vendor.name,
+  date: prismaBill.date,
+  dueDate: prismaBill.dueDate ?? undefined,
+  amount: Number(prismaBill.amount),
+})
+
+const toInvoiceActivity = (prismaInvoice: any): CustomerActivity => ({
+  type: 'Invoice',
+  documentId: prismaInvoice.id,
+  date: prismaInvoice.date,
+  description: `Invoice ${prismaInvoice.invoiceNumber}`,
+  charge: Number(prismaInvoice.total),
+  credit: 0,
+})
+
+const toPaymentActivity = (prismaPayment: any): CustomerActivity => ({
+  type: 'Payment',
+  documentId: prismaPayment.id,
+  date: prismaPayment.date,
+  description: `Payment on ${prismaPayment.invoice.invoiceNumber}${prismaPayment.reference ? ` (${prismaPayment.reference})` : ''}`,
+  charge: 0,
+  credit: Number(prismaPayment.amount),
+})
+
+const toCreditNoteActivity = (prismaCreditNote: any): CustomerActivity => ({
+  type: 'CreditNote',
+  documentId: prismaCreditNote.id,
+  date: prismaCreditNote.date,
+  description: `Credit note ${prismaCreditNote.creditNoteNumber} on ${prismaCreditNote.invoice.invoiceNumber}`,
+  charge: 0,
+  credit: Number(prismaCreditNote.amount),
+})
+
+const toDepositActivity = (prismaDeposit: any): CustomerActivity => ({
+  type: 'Deposit',
+  documentId: prismaDeposit.id,
+  date: prismaDeposit.date,
+  description: prismaDeposit.description ?? 'Deposit received',
+  charge: 0,
+  credit: Number(prismaDeposit.amount),
+})
+
+const toCashSaleActivity = (prismaCashSale: any): CustomerActivity => ({
+  type: 'CashSale',
+  documentId: prismaCashSale.id,
+  date: prismaCashSale.date,
+  description: prismaCashSale.description ?? 'Cash sale',
+  charge: Number(prismaCashSale.amount),
+  credit: Number(prismaCashSale.amount),
+})
+
+const sumAmounts = (rows: { amount: unknown }[]): number =>
+  rows.reduce((total, row) => total + Number(row.amount), 0)
+
+// A bill fetched with the payments that count against it
+const toOpenPayable = (prismaBill: any): OpenPayable => {
+  const payable = toPayableBill(prismaBill)
+  return { ...payable, openAmount: toCents(payable.amount - sumAmounts(prismaBill.payments)) }
+}
+
+// An invoice fetched with the payments, deposit applications and credit notes that count against it
+const toOpenReceivable = (prismaInvoice: any): OpenReceivable => {
+  const receivable = toReceivableInvoice(prismaInvoice)
+  return {
+    ...receivable,
+    openAmount: toCents(receivable.total - sumAmounts(prismaInvoice.payments)
+      - sumAmounts(prismaInvoice.depositApplications) - sumAmounts(prismaInvoice.creditNotes)),
+  }
+}
+
 const toJournalLine = (prismaLine: any): JournalLine => ({
   accountId: prismaLine.accountId,
   amount: Number(prismaLine.amount),
   side: prismaLine.side,
 })
 
+// Invoices not yet void on a date: an invoice voided later still counted until its void date
+const notVoidOn = (date: Date) => ({ OR: [{ voidedAt: null }, { voidedAt: { gt: date } }] })
+
 // --- Repository Functions ---
 
 /**
@@ -196,21 +319,16 @@ export const getCashJournalLines = async (
 }
 
 /**
- * Find the cash account (default account code '101') for a user.
+ * Find the cash account for a user: the account mapped to the Cash posting role,
+ * or, while the role is unmapped, the account with the default code '101'.
  */
 export const findCashAccount = async (
   userId: string
 ): Promise<Result<AccountWithBalance | null>> => {
-  const result = await safeDbCall(
-    prisma.account.findFirst({
-      where: { userId, code: '101' },
-    })
-  )
+  const result = await findPostingAccount(userId, 'Cash')
   if (!result.isSuccess) return result
   if (!result.value) return Success(null)
-  // We need the balance as of now? For cash flow, we might need up to a date.
-  // This function returns the account without balance; we can compute later.
-  // For simplicity, return with zero balance.
+  // The statement works its figures out from the cash lines, so the account is returned with a zero balance
   return Success(toAccountWithBalance(result.value, 0))
 }
 
@@ -253,4 +371,265 @@ export const findAccountByCode = async (
     }
   }
   return Success(toAccountWithBalance(account, balance))
-}
\ No newline at end of file
+}
+
+/**
+ * Find an account by ID for a given user (balance left at 0; the account ledger computes its own).
+ */
+export const findAccountById = async (
+  userId: string,
+  accountId: string
+): Promise<Result<AccountWithBalance | null>> => {
+  const result = await safeDbCall(
+    prisma.account.findFirst({
+      where: { id: accountId, userId },
+    })
+  )
+  if (!result.isSuccess) return result
+  return Success(result.value ? toAccountWithBalance(result.value, 0) : null)
+}
+
+/**
+ * Fetch every journal line of an account up to and including endDate, with its entry details,
+ * in date order (then posting order). Lines before the period make up the opening balance.
+ */
+export const getAccountPostings = async (
+  userId: string,
+  accountId: string,
+  endDate: Date
+): Promise<Result<AccountPosting[]>> => {
+  const result = await safeDbCall(
+    prisma.journalLine.findMany({
+      where: {
+        accountId,
+        journalEntry: {
+          userId,
+          date: { lte: endDate },
+        },
+      },
+      include: {
+        journalEntry: true,
+      },
+      orderBy: [
+        { journalEntry: { date: 'asc' } },
+        { journalEntry: { createdAt: 'asc' } },
+        { createdAt: 'asc' },
+      ],
+    })
+  )
+  if (!result.isSuccess) return result
+  return Success(result.value.map(toAccountPosting))
+}
+
+/**
+ * Fetch the taxed lines of the user's sales invoices dated within the period, with their tax rates.
+ * Void invoices are left out: their tax was reversed with them.
+ */
+export const getTaxedInvoiceLines = async (
+  userId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<Result<TaxedInvoiceLine[]>> => {
+  const result = await safeDbCall(
+    prisma.salesInvoiceLine.findMany({
+      where: {
+        taxRateId: { not: null },
+        invoice: {
+          userId,
+          date: { gte: startDate, lte: endDate },
+          status: { not: 'Void' },
+        },
+      },
+      include: {
+        taxRate: true,
+      },
+    })
+  )
+  if (!result.isSuccess) return result
+  return Success(result.value.map(toTaxedInvoiceLine))
+}
+
+/**
+ * Fetch the user's credit notes dated within the period against invoices that charged tax, with the
+ * invoice total and its taxed lines and their tax rates.
+ */
+export const getTaxedCreditNotes = async (
+  userId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<Result<TaxedCreditNote[]>> => {
+  const result = await safeDbCall(
+    prisma.creditNote.findMany({
+      where: {
+        userId,
+        date: { gte: startDate, lte: endDate },
+        invoice: { lines: { some: { taxRateId: { not: null } } } },
+      },
+      include: {
+        invoice: {
+          include: {
+            lines: {
+              where: { taxRateId: { not: null } },
+              include: { taxRate: true },
+            },
+          },
+        },
+      },
+    })
+  )
+  if (!result.isSuccess) return result
+  return Success(result.value.map(toTaxedCreditNote))
+}
+
+/**
+ * Fetch the user's sales invoices dated up to and including asOfDate (other than those void by then), with their
+ * customers and the amount still open on asOfDate: the total less the payments, deposit applications and
+ * credit notes dated up to it. Invoices are picked by date rather than current status, so an invoice
+ * settled or voided after asOfDate still shows as open on it.
+ */
+export const getOpenSalesInvoices = async (
+  userId: string,
+  asOfDate: Date
+): Promise<Result<OpenReceivable[]>> => {
+  const settledBy = { where: { date: { lte: asOfDate } } }
+  const result = await safeDbCall(
+    prisma.salesInvoice.findMany({
+      where: { userId, date: { lte: asOfDate }, ...notVoidOn(asOfDate) },
+      include: {
+        customer: true,
+        payments: settledBy,
+        depositApplications: settledBy,
+        creditNotes: settledBy,
+      },
+      orderBy: { date: 'asc' },
+    })
+  )
+  if (!result.isSuccess) return result
+  return Success(result.value.map(toOpenReceivable))
+}
+
+/**
+ * Fetch the user's vendor bills with their vendors and the amount left open on each: the bill amount less its payments.
+ * Without asOfDate, these are the bills not yet paid (Recorded or PartiallyPaid) and every payment counts.
+ * With asOfDate, these are the bills dated up to and including it, whatever their current status,
+ * and only payments dated up to asOfDate count, so a bill paid after asOfDate still shows as open on it.
+ */
+export const getOpenVendorBills = async (
+  userId: string,
+  asOfDate?: Date
+): Promise<Result<OpenPayable[]>> => {
+  const result = await safeDbCall(
+    prisma.vendorBill.findMany({
+      where: {
+        userId,
+        ...(asOfDate
+          ? { date: { lte: asOfDate } }
+          : { status: { in: ['Recorded', 'PartiallyPaid'] } }),
+      },
+      include: {
+        vendor: true,
+        payments: asOfDate ? { where: { date: { lte: asOfDate } } } : true,
+      },
+      orderBy: { date: 'asc' },
+    })
+  )
+  if (!result.isSuccess) return result
+  return Success(result.value.map(toOpenPayable))
+}
+
+/**
+ * Sum the subsidiary (Accounts Payable) balances of all the user's vendors.
+ */
+export const getVendorBalanceTotal = async (userId: string): Promise<Result<number>> => {
+  const result = await safeDbCall(
+    prisma.vendor.aggregate({
+      where: { userId },
+      _sum: { balance: true },
+    })
+  )
+  if (!result.isSuccess) return result
+  return Success(Number(result.value._sum.balance ?? 0))
+}
+
+/**
+ * Find a customer of the user, for the heading of their statement.
+ */
+export const findStatementCustomer = async (
+  userId: string,
+  customerId: string
+): Promise<Result<StatementCustomer | null>> => {
+  const result = await safeDbCall(
+    prisma.customer.findFirst({
+      where: { id: customerId, userId },
+    })
+  )
+  if (!result.isSuccess) return result
+  const customer = result.value
+  return Success(customer ? { id: customer.id, name: customer.name, email: customer.email ?? undefined } : null)
+}
+
+/**
+ * Fetch a customer's invoices, credit notes, payments, deposits and cash sales dated up to and including endDate.
+ * Invoices void by endDate are left out, as they no longer charge the customer anything.
+ */
+export const getCustomerActivity = async (
+  userId: string,
+  customerId: string,
+  endDate: Date
+): Promise<Result<CustomerActivity[]>> => {
+  const dated = { userId, customerId, date: { lte: endDate } }
+  const invoicesResult = await safeDbCall(prisma.salesInvoice.findMany({ where: { ...dated, ...notVoidOn(endDate) } }))
+  if (!invoicesResult.isSuccess) return invoicesResult
+  const creditNotesResult = await safeDbCall(
+    prisma.creditNote.findMany({
+      where: { userId, date: { lte: endDate }, invoice: { customerId } },
+      include: { invoice: true },
+    })
+  )
+  if (!creditNotesResult.isSuccess) return creditNotesResult
+  const paymentsResult = await safeDbCall(
+    prisma.payment.findMany({
+      where: { date: { lte: endDate }, invoice: { userId, customerId } },
+      include: { invoice: true },
+    })
+  )
+  if (!paymentsResult.isSuccess) return paymentsResult
+  const depositsResult = await safeDbCall(prisma.customerDeposit.findMany({ where: dated }))
+  if (!depositsResult.isSuccess) return depositsResult
+  const cashSalesResult = await safeDbCall(prisma.cashSale.findMany({ where: dated }))
+  if (!cashSalesResult.isSuccess) return cashSalesResult
+
+  return Success([
+    ...invoicesResult.value.map(toInvoiceActivity),
+    ...creditNotesResult.value.map(toCreditNoteActivity),
+    ...paymentsResult.value.map(toPaymentActivity),
+    ...depositsResult.value.map(toDepositActivity),
+    ...cashSalesResult.value.map(toCashSaleActivity),
+  ])
+}
+
+/**
+ * Fetch a customer's invoices (other than those void by then) dated up to and including asOfDate with what was left open
+ * on them at that date: the total less the payments, deposit applications and credit notes dated up to asOfDate.
+ */
+export const getCustomerOpenInvoices = async (
+  userId: string,
+  customerId: string,
+  asOfDate: Date
+): Promise<Result<OpenReceivable[]>> => {
+  const settledBy = { where: { date: { lte: asOfDate } } }
+  const result = await safeDbCall(
+    prisma.salesInvoice.findMany({
+      where: { userId, customerId, date: { lte: asOfDate }, ...notVoidOn(asOfDate) },
+      include: {
+        customer: true,
+        payments: settledBy,
+        depositApplications: settledBy,
+        creditNotes: settledBy,
+      },
+      orderBy: { date: 'asc' },
+    })
+  )
+  if (!result.isSuccess) return result
+  return Success(result.value.map(toOpenReceivable))
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { applyDepositToInvoiceWorkflow, ApplyDepositToInvoiceCommand } from './applyDepositToInvoiceWorkflow'
+import { applyPaymentToInvoiceWorkflow } from './applyPaymentToInvoiceWorkflow'
+import { recordCustomerDepositWorkflow } from './recordCustomerDepositWorkflow'
+import { issueSalesInvoiceWorkflow } from './issueSalesInvoiceWorkflow'
+import { createCustomerWorkflow } from './createCustomerWorkflow'
+import { createAccount } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Sales Context: Apply Deposit to Invoice Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  // Creates a user with Cash, A/R, Unearned Revenue and Service Revenue, a customer,
+  // a deposit from that customer and an issued invoice for that customer
+  const setupDepositAndInvoice = async (depositAmount: number = 400, invoiceTotal: number = 1000) => {
+    const user = await prisma.user.create({ data: { username: 'test_user_apply_deposit' } })
+    await createAccount({ userId: user.id, code: '101', name: 'Cash', type: 'Asset', normalBalance: 'Debit' })
+    await createAccount({ userId: user.id, code: '111', name: 'Accounts Receivable', type: 'Asset', normalBalance: 'Debit' })
+    await createAccount({ userId: user.id, code: '255', name: 'Unearned Revenue', type: 'Liability', normalBalance: 'Credit' })
+    await createAccount({ userId: user.id, code: '401', name: 'Service Revenue', type: 'Revenue', normalBalance: 'Credit' })
+
+    const customerResult = await createCustomerWorkflow({ userId: user.id, name: 'Acme Corp' })
+    if (!customerResult.isSuccess) throw new Error('Failed to create customer for test')
+    const customer = customerResult.value
+
+    const depositResult = await recordCustomerDepositWorkflow({
+      userId: user.id,
+      customerId: customer.id!,
+      amount: depositAmount,
+      date: '2025-01-05T00:00:00Z',
+    })
+    if (!depositResult.isSuccess) throw new Error('Failed to record deposit for test')
+
+    const invoiceResult = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customer.id!,
+      invoiceNumber: 'INV-DEP-001',
+      total: invoiceTotal,
+      date: '2025-01-15T00:00:00Z',
+    })
+    if (!invoiceResult.isSuccess) throw new Error('Failed to issue invoice for test')
+
+    return { user, customer, deposit: depositResult.value, invoice: invoiceResult.value }
+  }
+
+  it('should apply the whole deposit when no amount is given and leave the invoice partially paid', async () => {
+    const { user, customer, deposit, invoice } = await setupDepositAndInvoice(400, 1000)
+    const command: ApplyDepositToInvoiceCommand = {
+      userId: user.id,
+      invoiceId: invoice.id!,
+      depositId: deposit.id!,
+      date: '2025-01-16T00:00:00Z',
+    }
+
+    const result = await applyDepositToInvoiceWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.amount).toBe(400)
+      const journalEntry = await prisma.journalEntry.findUnique({
+        where: { id: result.value.journalEntryId },
+        include: { lines: { include: { account: true } } }
+      })
+      expect(journalEntry?.lines.find(line => line.side === 'Debit')?.account.code).toBe('255')
+      expect(journalEntry?.lines.find(line => line.side === 'Credit')?.account.code).toBe('111')
+    }
+
+    const updatedInvoice = await prisma.salesInvoice.findUnique({ where: { id: invoice.id! } })
+    expect(updatedInvoice?.status).toBe('PartiallyPaid')
+    const updatedCustomer = await prisma.customer.findUnique({ where: { id: customer.id! } })
+    expect(Number(updatedCustomer?.balance)).toBe(600)
+  })
+
+  it('should cap the default amount at the invoice open amount and mark the invoice paid', async () => {
+    const { user, deposit, invoice } = await setupDepositAndInvoice(1500, 1000)
+
+    const result = await applyDepositToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      depositId: deposit.id!,
+      date: '2025-01-16T00:00:00Z',
+    })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.amount).toBe(1000)
+    }
+    const updatedInvoice = await prisma.salesInvoice.findUnique({ where: { id: invoice.id! } })
+    expect(updatedInvoice?.status).toBe('Paid')
+  })
+
+  it('should mark the invoice paid when a deposit and a payment settle it to the cent', async () => {
+    const { user, deposit, invoice } = await setupDepositAndInvoice(50.1, 100.3)
+
+    // 100.3 - 50.1 is 50.199999999999996 in floating point; the open amount is rounded to 50.2
+    const applied = await applyDepositToInvoiceWorkflow({ userId: user.id, invoiceId: invoice.id!, depositId: deposit.id!, date: '2025-01-16T00:00:00Z' })
+    expect(applied.isSuccess).toBe(true)
+    const paid = await applyPaymentToInvoiceWorkflow({ userId: user.id, invoiceId: invoice.id!, amount: 50.2, date: '2025-01-17T00:00:00Z', method: 'Cash' })
+    expect(paid.isSuccess).toBe(true)
+
+    const updatedInvoice = await prisma.salesInvoice.findUnique({ where: { id: invoice.id! } })
+    expect(updatedInvoice?.status).toBe('Paid')
+  })
+
+  it('should reject applying more than is left on the deposit', async () => {
+    const { user, deposit, invoice } = await setupDepositAndInvoice(400, 1000)
+    await applyDepositToInvoiceWorkflow({ userId: user.id, invoiceId: invoice.id!, depositId: deposit.id!, amount: 300, date: '2025-01-16T00:00:00Z' })
+
+    const result = await applyDepositToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      depositId: deposit.id!,
+      amount: 200,
+      date: '2025-01-16T00:00:00Z',
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('DepositApplicationExceedsAvailable')
+    }
+  })
+
+  it('should count applied deposits when a payment is applied afterwards', async () => {
+    const { user, deposit, invoice } = await setupDepositAndInvoice(400, 1000)
+    await applyDepositToInvoiceWorkflow({ userId: user.id, invoiceId: invoice.id!, depositId: deposit.id!, date: '2025-01-16T00:00:00Z' })
+
+    const overpayment = await applyPaymentToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      amount: 1000,
+      date: '2025-01-17T00:00:00Z',
+      method: 'Cash',
+    })
+    expect(overpayment.isSuccess).toBe(false)
+    if (!overpayment.isSuccess) {
+      expect(overpayment.error.subtype).toBe('PaymentExceedsOpenAmount')
+    }
+
+    const payment = await applyPaymentToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      amount: 600,
+      date: '2025-01-17T00:00:00Z',
+      method: 'Cash',
+    })
+    expect(payment.isSuccess).toBe(true)
+    const updatedInvoice = await prisma.salesInvoice.findUnique({ where: { id: invoice.id! } })
+    expect(updatedInvoice?.status).toBe('Paid')
+  })
+
+  it('should reject a deposit received from a different customer', async () => {
+    const { user, deposit } = await setupDepositAndInvoice()
+    const otherCustomer = await createCustomerWorkflow({ userId: user.id, name: 'Other Customer' })
+    if (!otherCustomer.isSuccess) throw new Error('Failed to create customer for test')
+    const otherInvoice = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: otherCustomer.value.id!,
+      invoiceNumber: 'INV-OTHER-001',
+      total: 500,
+      date: '2025-01-15T00:00:00Z',
+    })
+    if (!otherInvoice.isSuccess) throw new Error('Failed to issue invoice for test')
+
+    const result = await applyDepositToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: otherInvoice.value.id!,
+      depositId: deposit.id!,
+      date: '2025-01-16T00:00:00Z',
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('CustomerMismatch')
+    }
+  })
+
+  it('should fail when the deposit does not exist', async () => {
+    const { user, invoice } = await setupDepositAndInvoice()
+
+    const result = await applyDepositToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      depositId: 'missing-deposit',
+      date: '2025-01-16T00:00:00Z',
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('DepositNotFound')
+    }
+  })
+})
\ No newline at end of file
@@ -0,0 +1,256 @@
+import { DepositApplication, Money, validateDepositDateNotFuture, validateDepositApplicationAmount, statusAfterSettlement, validateInvoiceNotVoid } from '../domain/sales'
+import { findSalesInvoiceById, findSalesInvoiceByIdForUpdate, updateSalesInvoiceStatus } from '../infrastructure/salesInvoiceRepo'
+import { getTotalPaidForInvoice } from '../infrastructure/paymentRepo'
+import { findCustomerDepositById, findCustomerDepositByIdForUpdate } from '../infrastructure/customerDepositRepo'
+import { createDepositApplication, getTotalAppliedFromDeposit, getTotalDepositsAppliedToInvoice } from '../infrastructure/depositApplicationRepo'
+import { updateCustomerBalance } from '../infrastructure/customerRepo'
+import { getTotalCreditedForInvoice } from '../infrastructure/creditNoteRepo'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
+import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure, ApplicationFailure } from '@/common/types/errors'
+import { toCents } from '@/common/types/money'
+import { SalesDomainSubtype, SalesApplicationSubtype } from '../domain/errors'
+import { JournalLineSide } from '@/bounded-contexts/ledger/domain/ledger'
+import { DEFAULT_ACCOUNT_CODES } from '@/bounded-contexts/ledger/domain/defaultAccounts'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type ApplyDepositToInvoiceCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  invoiceId: string
+  depositId: string
+  amount?: Money // defaults to the lesser of the deposit's available amount and the invoice's open amount
+  date: string // ISO string
+}
+
+/**
+ * Apply Deposit to Invoice Workflow - Application Layer
+ *
+ * Once the work a deposit was taken for is invoiced, the deposit settles (part of) the invoice:
+ * the liability to the customer goes down and so does what the customer owes.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate the application date (pure validation)
+ * 3. Find the invoice and the deposit and ensure they belong to the user (the invoice must not be void)
+ * 4. Ensure the deposit was taken from the invoice's customer
+ * 5. Find required accounts (Unearned Revenue and Accounts Receivable) by posting role for the user
+ * 6. Lock the invoice and the deposit and re-read them, so settlements or a void committed since step 3 are seen;
+ *    the invoice must still not be void
+ * 7. Calculate the invoice's open amount (total - payments - deposits already applied - credit notes)
+ *    and the deposit's available amount (amount - already applied), both rounded to cents
+ * 8. Validate the amount to apply against both (business rule)
+ * 9. Create a journal entry (debit Unearned Revenue, credit Accounts Receivable)
+ * 10. Create the deposit application record with the journal entry reference
+ * 11. Update invoice status (Paid, or PartiallyPaid unless the invoice is Overdue)
+ * 12. Update customer subsidiary balance (decrease Accounts Receivable)
+ *
+ * Returns a Promise<Result<DepositApplication>>.
+ */
+export const applyDepositToInvoiceWorkflow = async (command: ApplyDepositToInvoiceCommand): Promise<Result<DepositApplication>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<DepositApplication>
+
+  // Step 2: Pure validation
+  const dateResult = validateDepositDateNotFuture(new Date(command.date))
+  if (!dateResult.isSuccess) return dateResult as Result<DepositApplication>
+  const date = dateResult.value
+
+  // Step 3: Find invoice and deposit
+  const invoiceResult = await findSalesInvoiceById(command.userId, command.invoiceId)
+  if (!invoiceResult.isSuccess) {
+    return invoiceResult as Result<DepositApplication>
+  }
+  const invoice = invoiceResult.value
+  if (invoice === null) {
+    return Failure(
+      DomainFailure(
+        'InvoiceNotFound' as SalesDomainSubtype,
+        `Invoice ${command.invoiceId} not found or access denied.`
+      )
+    )
+  }
+  const notVoidResult = validateInvoiceNotVoid(invoice)
+  if (!notVoidResult.isSuccess) return notVoidResult as Result<DepositApplication>
+
+  const depositResult = await findCustomerDepositById(command.userId, command.depositId)
+  if (!depositResult.isSuccess) {
+    return depositResult as Result<DepositApplication>
+  }
+  const deposit = depositResult.value
+  if (deposit === null) {
+    return Failure(
+      DomainFailure(
+        'DepositNotFound' as SalesDomainSubtype,
+        `Customer deposit ${command.depositId} not found or access denied.`
+      )
+    )
+  }
+
+  // Step 4: The deposit must come from the invoiced customer
+  if (deposit.customerId !== invoice.customerId) {
+    return Failure(
+      ApplicationFailure(
+        'CustomerMismatch' as SalesApplicationSubtype,
+        `Deposit ${command.depositId} was not received from the customer on invoice ${invoice.invoiceNumber}.`
+      )
+    )
+  }
+
+  // Step 5: Find required accounts
+  // Posting roles: Unearned Revenue, Accounts Receivable
+  const unearnedAccountResult = await findPostingAccount(command.userId, 'UnearnedRevenue')
+  if (!unearnedAccountResult.isSuccess) {
+    return unearnedAccountResult as Result<DepositApplication>
+  }
+  const unearnedAccount = unearnedAccountResult.value
+  if (unearnedAccount === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as SalesDomainSubtype,
+        `Unearned Revenue account not found. Map the UnearnedRevenue posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.UNEARNED_REVENUE}.`
+      )
+    )
+  }
+
+  const arAccountResult = await findPostingAccount(command.userId, 'AccountsReceivable')
+  if (!arAccountResult.isSuccess) {
+    return arAccountResult as Result<DepositApplication>
+  }
+  const arAccount = arAccountResult.value
+  if (arAccount === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as SalesDomainSubtype,
+        `Accounts Receivable account not found. Map the AccountsReceivable posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE}.`
+      )
+    )
+  }
+
+  // Steps 6-12 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    // Step 6: Lock the invoice, then the deposit, so concurrent settlements of either run one after the other
+    const currentInvoiceResult = await findSalesInvoiceByIdForUpdate(command.userId, command.invoiceId, db)
+    if (!currentInvoiceResult.isSuccess) {
+      return currentInvoiceResult as Result<DepositApplication>
+    }
+    const currentInvoice = currentInvoiceResult.value
+    if (currentInvoice === null) {
+      return Failure(
+        DomainFailure(
+          'InvoiceNotFound' as SalesDomainSubtype,
+          `Invoice ${command.invoiceId} not found or access denied.`
+        )
+      )
+    }
+    const stillNotVoidResult = validateInvoiceNotVoid(currentInvoice)
+    if (!stillNotVoidResult.isSuccess) return stillNotVoidResult as Result<DepositApplication>
+
+    const currentDepositResult = await findCustomerDepositByIdForUpdate(command.userId, command.depositId, db)
+    if (!currentDepositResult.isSuccess) {
+      return currentDepositResult as Result<DepositApplication>
+    }
+    const currentDeposit = currentDepositResult.value
+    if (currentDeposit === null) {
+      return Failure(
+        DomainFailure(
+          'DepositNotFound' as SalesDomainSubtype,
+          `Customer deposit ${command.depositId} not found or access denied.`
+        )
+      )
+    }
+
+    // Step 7: Calculate open and available amounts
+    const totalPaidResult = await getTotalPaidForInvoice(command.userId, command.invoiceId, db)
+    if (!totalPaidResult.isSuccess) {
+      return totalPaidResult as Result<DepositApplication>
+    }
+    const depositsAppliedResult = await getTotalDepositsAppliedToInvoice(command.userId, command.invoiceId, db)
+    if (!depositsAppliedResult.isSuccess) {
+      return depositsAppliedResult as Result<DepositApplication>
+    }
+    const creditedResult = await getTotalCreditedForInvoice(command.userId, command.invoiceId, db)
+    if (!creditedResult.isSuccess) {
+      return creditedResult as Result<DepositApplication>
+    }
+    const openAmount = toCents(currentInvoice.total - totalPaidResult.value - depositsAppliedResult.value - creditedResult.value)
+
+    const appliedFromDepositResult = await getTotalAppliedFromDeposit(command.userId, command.depositId, db)
+    if (!appliedFromDepositResult.isSuccess) {
+      return appliedFromDepositResult as Result<DepositApplication>
+    }
+    const availableAmount = toCents(currentDeposit.amount - appliedFromDepositResult.value)
+
+    // Step 8: Validate the amount to apply
+    const amountResult = validateDepositApplicationAmount(
+      command.amount ?? Math.min(availableAmount, openAmount),
+      availableAmount,
+      openAmount
+    )
+    if (!amountResult.isSuccess) return amountResult as Result<DepositApplication>
+    const amount = amountResult.value
+
+    // Step 9: Create journal entry
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `DEP-APP-${Date.now()}`,
+      description: `Deposit applied to invoice ${invoice.invoiceNumber}`,
+      date,
+      lines: [
+        {
+          accountId: unearnedAccount.id!,
+          amount,
+          side: 'Debit' as JournalLineSide, // Liability decreases with debit
+        },
+        {
+          accountId: arAccount.id!,
+          amount,
+          side: 'Credit' as JournalLineSide, // Receivable decreases with credit
+        },
+      ],
+    }, db)
+
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult as Result<DepositApplication>
+    }
+    const journalEntry = journalEntryResult.value
+
+    // Step 10: Create deposit application record
+    const applicationResult = await createDepositApplication({
+      depositId: command.depositId,
+      invoiceId: command.invoiceId,
+      amount,
+      date,
+      journalEntryId: journalEntry.id!,
+    }, db)
+
+    if (!applicationResult.isSuccess) {
+      return applicationResult
+    }
+    const application = applicationResult.value
+
+    // Step 11: Update invoice status
+    const newStatus = statusAfterSettlement(currentInvoice.status, toCents(openAmount - amount) === 0)
+    const statusUpdateResult = await updateSalesInvoiceStatus(command.userId, command.invoiceId, newStatus, db)
+    if (!statusUpdateResult.isSuccess) {
+      return statusUpdateResult as Result<DepositApplication>
+    }
+
+    // Step 12: Update customer balance (decrease Accounts Receivable)
+    const balanceUpdateResult = await updateCustomerBalance(command.userId, invoice.customerId, -amount, db)
+    if (!balanceUpdateResult.isSuccess) {
+      return balanceUpdateResult as Result<DepositApplication>
+    }
+
+    return Success(application)
+  })
+}
\ No newline at end of file
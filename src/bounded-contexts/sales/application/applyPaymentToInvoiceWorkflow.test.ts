@@ -29,6 +29,7 @@ describe('Sales Context: Apply Payment to Invoice Workflow (Integration)', () =>
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -239,6 +240,38 @@ describe('Sales Context: Apply Payment to Invoice Workflow (Integration)', () =>
     }
   })
 
+  it('should accept only one of two concurrent payments that together exceed the open amount', async () => {
+    const user = await createTestUser()
+    await createDefaultAccounts(user.id)
+    const customerResult = await createCustomerWorkflow({ userId: user.id, name: 'Concurrent Customer' })
+    if (!customerResult.isSuccess) throw new Error('customer setup failed')
+    const invoiceResult = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customerResult.value.id!,
+      invoiceNumber: 'INV-CONC-001',
+      total: 500,
+      date: '2025-01-15T00:00:00Z',
+    })
+    if (!invoiceResult.isSuccess) throw new Error('invoice setup failed')
+
+    const command: ApplyPaymentToInvoiceCommand = {
+      userId: user.id,
+      invoiceId: invoiceResult.value.id!,
+      amount: 300,
+      date: '2025-01-16T00:00:00Z',
+      method: 'Cash',
+    }
+    const results = await Promise.all([applyPaymentToInvoiceWorkflow(command), applyPaymentToInvoiceWorkflow(command)])
+
+    expect(results.filter(result => result.isSuccess)).toHaveLength(1)
+    const rejected = results.find(result => !result.isSuccess)
+    if (rejected && !rejected.isSuccess) {
+      expect(rejected.error.subtype).toBe('PaymentExceedsOpenAmount')
+    }
+    const dbCustomer = await prisma.customer.findUnique({ where: { id: customerResult.value.id! } })
+    expect(Number(dbCustomer?.balance)).toBe(200)
+  })
+
   it('should reject payment with future date', async () => {
     const user = await createTestUser()
     await createDefaultAccounts(user.id)
@@ -1,20 +1,26 @@
-import { validateAmount, validateDateNotFuture, validatePaymentMethod, validatePaymentReference, Money, PaymentMethod, validatePaymentAmount, validatePaymentDateNotFuture } from '../domain/sales'
-import { findSalesInvoiceById, updateSalesInvoiceStatus } from '../infrastructure/salesInvoiceRepo'
+import { validateAmount, validateDateNotFuture, validatePaymentMethod, validatePaymentReference, Money, PaymentMethod, validatePaymentAmount, validatePaymentDateNotFuture, statusAfterSettlement, validateInvoiceNotVoid } from '../domain/sales'
+import { findSalesInvoiceById, findSalesInvoiceByIdForUpdate, updateSalesInvoiceStatus } from '../infrastructure/salesInvoiceRepo'
 import { getTotalPaidForInvoice, createPayment } from '../infrastructure/paymentRepo'
+import { getTotalDepositsAppliedToInvoice } from '../infrastructure/depositApplicationRepo'
+import { getTotalCreditedForInvoice } from '../infrastructure/creditNoteRepo'
 import { findCustomerById, updateCustomerBalance } from '../infrastructure/customerRepo'
-import { findAccountByCode } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
 import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
 import { Result, Success, Failure, andThen } from '@/common/types/result'
 import { DomainFailure } from '@/common/types/errors'
+import { toCents } from '@/common/types/money'
 import { SalesDomainSubtype } from '../domain/errors'
 import { JournalLineSide } from '@/bounded-contexts/ledger/domain/ledger'
 import { DEFAULT_ACCOUNT_CODES } from '@/bounded-contexts/ledger/domain/defaultAccounts'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 /**
  * Workflow input: raw data from command (API request).
  */
 export type ApplyPaymentToInvoiceCommand = {
   userId: string
+  actingUserId?: string // defaults to userId (the book owner)
   invoiceId: string
   amount: Money
   date: string // ISO string
@@ -26,20 +32,30 @@ export type ApplyPaymentToInvoiceCommand = {
  * Apply Payment to Invoice Workflow - Application Layer
  *
  * Steps:
- * 1. Validate payment data (pure validation)
- * 2. Find the invoice and ensure it belongs to the user
- * 3. Calculate open amount (invoice total - payments already made)
- * 4. Validate that payment does not exceed open amount (business rule)
- * 5. Find required accounts (Cash and Accounts Receivable) by code for the user
- * 6. Create a journal entry for the cash receipt (debit Cash, credit Accounts Receivable)
- * 7. Create the payment record with the journal entry reference
- * 8. Update invoice status (Paid or PartiallyPaid)
- * 9. Update customer subsidiary balance (decrease Accounts Receivable)
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate payment data (pure validation)
+ * 3. Find the invoice and ensure it belongs to the user and is not void
+ * 4. Find required accounts (Cash and Accounts Receivable) by posting role for the user
+ * 5. Lock the invoice and re-read it, so settlements or a void committed since step 3 are seen; it must still not be void
+ * 6. Calculate open amount (invoice total - payments already made - deposits already applied - credit notes, rounded to cents)
+ * 7. Validate that payment does not exceed open amount (business rule)
+ * 8. Create a journal entry for the cash receipt (debit Cash, credit Accounts Receivable)
+ * 9. Create the payment record with the journal entry reference
+ * 10. Update invoice status (Paid, or PartiallyPaid unless the invoice is Overdue)
+ * 11. Update customer subsidiary balance (decrease Accounts Receivable)
  *
  * Returns a Promise<Result<Payment>>.
  */
 export const applyPaymentToInvoiceWorkflow = async (command: ApplyPaymentToInvoiceCommand): Promise<Result<any>> => {
-  // Step 1: Pure validation
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<any>
+
+  // Step 2: Pure validation
   const amountResult = validatePaymentAmount(command.amount)
   if (!amountResult.isSuccess) return amountResult
 
@@ -59,7 +75,7 @@ export const applyPaymentToInvoiceWorkflow = async (command: ApplyPaymentToInvoi
     reference: referenceResult.value,
   }
 
-  // Step 2: Find invoice
+  // Step 3: Find invoice
   const invoiceResult = await findSalesInvoiceById(command.userId, command.invoiceId)
   if (!invoiceResult.isSuccess) {
     return invoiceResult
@@ -73,28 +89,12 @@ export const applyPaymentToInvoiceWorkflow = async (command: ApplyPaymentToInvoi
       )
     )
   }
+  const notVoidResult = validateInvoiceNotVoid(invoice)
+  if (!notVoidResult.isSuccess) return notVoidResult
 
-  // Step 3: Calculate open amount
-  const totalPaidResult = await getTotalPaidForInvoice(command.userId, command.invoiceId)
-  if (!totalPaidResult.isSuccess) {
-    return totalPaidResult
-  }
-  const totalPaid = totalPaidResult.value
-  const openAmount = invoice.total - totalPaid
-
-  // Step 4: Validate payment does not exceed open amount
-  if (validatedPayment.amount > openAmount) {
-    return Failure(
-      DomainFailure(
-        'PaymentExceedsOpenAmount' as SalesDomainSubtype,
-        `Payment amount (${validatedPayment.amount}) exceeds open amount (${openAmount}).`
-      )
-    )
-  }
-
-  // Step 5: Find required accounts
-  // Default accounts: 101 Cash, 111 Accounts Receivable
-  const cashAccountResult = await findAccountByCode(command.userId, DEFAULT_ACCOUNT_CODES.CASH)
+  // Step 4: Find required accounts
+  // Posting roles: Cash, Accounts Receivable
+  const cashAccountResult = await findPostingAccount(command.userId, 'Cash')
   if (!cashAccountResult.isSuccess) {
     return cashAccountResult
   }
@@ -103,12 +103,12 @@ export const applyPaymentToInvoiceWorkflow = async (command: ApplyPaymentToInvoi
     return Failure(
       DomainFailure(
         'AccountNotFound' as SalesDomainSubtype,
-        `Default Cash account (code ${DEFAULT_ACCOUNT_CODES.CASH}) not found. Please set up chart of accounts.`
+        `Cash account not found. Map the Cash posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.CASH}.`
       )
     )
   }
 
-  const arAccountResult = await findAccountByCode(command.userId, DEFAULT_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE)
+  const arAccountResult = await findPostingAccount(command.userId, 'AccountsReceivable')
   if (!arAccountResult.isSuccess) {
     return arAccountResult
   }
@@ -117,66 +117,109 @@ export const applyPaymentToInvoiceWorkflow = async (command: ApplyPaymentToInvoi
     return Failure(
       DomainFailure(
         'AccountNotFound' as SalesDomainSubtype,
-        `Default Accounts Receivable account (code ${DEFAULT_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE}) not found. Please set up chart of accounts.`
+        `Accounts Receivable account not found. Map the AccountsReceivable posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE}.`
       )
     )
   }
 
-  // Step 6: Create journal entry
-  const journalEntryResult = await createJournalEntry({
-    userId: command.userId,
-    entryNumber: `PAY-${Date.now()}`,
-    description: `Payment for invoice ${invoice.invoiceNumber}`,
-    date: validatedPayment.date,
-    lines: [
-      {
-        accountId: cashAccount.id!,
-        amount: validatedPayment.amount,
-        side: 'Debit' as JournalLineSide,
-      },
-      {
-        accountId: arAccount.id!,
-        amount: validatedPayment.amount,
-        side: 'Credit' as JournalLineSide,
-      },
-    ],
-  })
-
-  if (!journalEntryResult.isSuccess) {
-    return journalEntryResult
-  }
-  const journalEntry = journalEntryResult.value
-
-  // Step 7: Create payment record
-  const paymentResult = await createPayment({
-    invoiceId: command.invoiceId,
-    amount: validatedPayment.amount,
-    date: validatedPayment.date,
-    method: validatedPayment.method,
-    reference: validatedPayment.reference,
-    journalEntryId: journalEntry.id!,
+  // Steps 5-11 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    // Step 5: Lock the invoice so concurrent settlements of it run one after the other
+    const currentInvoiceResult = await findSalesInvoiceByIdForUpdate(command.userId, command.invoiceId, db)
+    if (!currentInvoiceResult.isSuccess) {
+      return currentInvoiceResult
+    }
+    const currentInvoice = currentInvoiceResult.value
+    if (currentInvoice === null) {
+      return Failure(
+        DomainFailure(
+          'InvoiceNotFound' as SalesDomainSubtype,
+          `Invoice ${command.invoiceId} not found or access denied.`
+        )
+      )
+    }
+    const stillNotVoidResult = validateInvoiceNotVoid(currentInvoice)
+    if (!stillNotVoidResult.isSuccess) return stillNotVoidResult
+
+    // Step 6: Calculate open amount
+    const totalPaidResult = await getTotalPaidForInvoice(command.userId, command.invoiceId, db)
+    if (!totalPaidResult.isSuccess) {
+      return totalPaidResult
+    }
+    const totalPaid = totalPaidResult.value
+    const depositsAppliedResult = await getTotalDepositsAppliedToInvoice(command.userId, command.invoiceId, db)
+    if (!depositsAppliedResult.isSuccess) {
+      return depositsAppliedResult
+    }
+    const creditedResult = await getTotalCreditedForInvoice(command.userId, command.invoiceId, db)
+    if (!creditedResult.isSuccess) {
+      return creditedResult
+    }
+    const openAmount = toCents(currentInvoice.total - totalPaid - depositsAppliedResult.value - creditedResult.value)
+
+    // Step 7: Validate payment does not exceed open amount
+    if (validatedPayment.amount > openAmount) {
+      return Failure(
+        DomainFailure(
+          'PaymentExceedsOpenAmount' as SalesDomainSubtype,
+          `Payment amount (${validatedPayment.amount}) exceeds open amount (${openAmount}).`
+        )
+      )
+    }
+
+    // Step 8: Create journal entry
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `PAY-${Date.now()}`,
+      description: `Payment for invoice ${invoice.invoiceNumber}`,
+      date: validatedPayment.date,
+      lines: [
+        {
+          accountId: cashAccount.id!,
+          amount: validatedPayment.amount,
+          side: 'Debit' as JournalLineSide,
+        },
+        {
+          accountId: arAccount.id!,
+          amount: validatedPayment.amount,
+          side: 'Credit' as JournalLineSide,
+        },
+      ],
+    }, db)
+
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult
+    }
+    const journalEntry = journalEntryResult.value
+
+    // Step 9: Create payment record
+    const paymentResult = await createPayment({
+      invoiceId: command.invoiceId,
+      amount: validatedPayment.amount,
+      date: validatedPayment.date,
+      method: validatedPayment.method,
+      reference: validatedPayment.reference,
+      journalEntryId: journalEntry.id!,
+    }, db)
+
+    if (!paymentResult.isSuccess) {
+      return paymentResult
+    }
+    const payment = paymentResult.value
+
+    // Step 10: Update invoice status
+    const newStatus = statusAfterSettlement(currentInvoice.status, toCents(openAmount - validatedPayment.amount) === 0)
+    const statusUpdateResult = await updateSalesInvoiceStatus(command.userId, command.invoiceId, newStatus, db)
+    if (!statusUpdateResult.isSuccess) {
+      return statusUpdateResult
+    }
+
+    // Step 11: Update customer balance (decrease Accounts Receivable)
+    const balanceUpdateResult = await updateCustomerBalance(command.userId, invoice.customerId, -validatedPayment.amount, db)
+    if (!balanceUpdateResult.isSuccess) {
+      return balanceUpdateResult
+    }
+
+    return Success(payment)
   })
-
-  if (!paymentResult.isSuccess) {
-    // TODO: Rollback journal entry? For now, we leave it orphaned.
-    return paymentResult
-  }
-  const payment = paymentResult.value
-
-  // Step 8: Update invoice status
-  const newStatus = validatedPayment.amount === openAmount ? 'Paid' : 'PartiallyPaid'
-  const statusUpdateResult = await updateSalesInvoiceStatus(command.userId, command.invoiceId, newStatus)
-  if (!statusUpdateResult.isSuccess) {
-    // If this fails, we have inconsistent status. Log and continue.
-    console.error('Failed to update invoice status', statusUpdateResult.error)
-  }
-
-  // Step 9: Update customer balance (decrease Accounts Receivable)
-  const balanceUpdateResult = await updateCustomerBalance(command.userId, invoice.customerId, -validatedPayment.amount)
-  if (!balanceUpdateResult.isSuccess) {
-    console.error('Failed to update customer balance', balanceUpdateResult.error)
-    // We still return the payment, but the balance is off.
-  }
-
-  return Success(payment)
 }
\ No newline at end of file
@@ -30,6 +30,7 @@ describe('Sales Context: Create Customer Workflow (Integration)', () => {
     // Then delete Account, Session, User
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -1,20 +1,30 @@
 import { validateCustomer, Customer } from '../domain/sales'
 import { createCustomer } from '../infrastructure/customerRepo'
 import { Result } from '@/common/types/result'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 export type CreateCustomerCommand = {
   userId: string
+  actingUserId?: string // defaults to userId (the book owner)
   name: string
   email?: string
 }
 
 export const createCustomerWorkflow = async (command: CreateCustomerCommand): Promise<Result<Customer>> => {
-  // Step 1: Pure validation
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<Customer>
+
+  // Step 2: Pure validation
   const validationResult = validateCustomer(command)
   if (!validationResult.isSuccess) {
     return validationResult
   }
 
-  // Step 2: Create customer (no duplicate check for now)
+  // Step 3: Create customer (no duplicate check for now)
   return createCustomer(validationResult.value)
 }
\ No newline at end of file
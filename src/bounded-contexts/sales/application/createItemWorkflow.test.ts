@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { createItemWorkflow, CreateItemCommand } from './createItemWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Sales Context: Create Item Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    // Items reference Account
+    await prisma.item.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string = 'test_user_sales') => {
+    return await prisma.user.create({
+      data: { username }
+    })
+  }
+
+  const createTestAccount = async (
+    userId: string,
+    code: string,
+    name: string,
+    type: 'Asset' | 'Revenue' | 'Expense',
+    archivedAt?: Date
+  ) => {
+    return await prisma.account.create({
+      data: { userId, code, name, type, normalBalance: type === 'Revenue' ? 'Credit' : 'Debit', archivedAt }
+    })
+  }
+
+  it('should create an item with its default price and accounts', async () => {
+    const user = await createTestUser()
+    const revenue = await createTestAccount(user.id, '402', 'Product Revenue', 'Revenue')
+    const expense = await createTestAccount(user.id, '504', 'Supplies Expense', 'Expense')
+    const command: CreateItemCommand = {
+      userId: user.id,
+      name: '  Widget  ',
+      sku: 'WID-001',
+      defaultPrice: 19.5,
+      revenueAccountId: revenue.id,
+      expenseAccountId: expense.id,
+    }
+
+    const result = await createItemWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value).toMatchObject({
+        name: 'Widget',
+        sku: 'WID-001',
+        defaultPrice: 19.5,
+        revenueAccountId: revenue.id,
+        expenseAccountId: expense.id,
+      })
+    }
+  })
+
+  it('should reject a duplicate SKU', async () => {
+    const user = await createTestUser()
+    await createItemWorkflow({ userId: user.id, name: 'Widget', sku: 'WID-001' })
+
+    const result = await createItemWorkflow({ userId: user.id, name: 'Other widget', sku: 'WID-001' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('DuplicateItemSku')
+    }
+  })
+
+  it('should reject a revenue account that is not a Revenue account', async () => {
+    const user = await createTestUser()
+    const cash = await createTestAccount(user.id, '101', 'Cash', 'Asset')
+
+    const result = await createItemWorkflow({ userId: user.id, name: 'Widget', sku: 'WID-001', revenueAccountId: cash.id })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidRevenueAccount')
+    }
+  })
+
+  it('should reject an archived or unknown expense account', async () => {
+    const user = await createTestUser()
+    const archived = await createTestAccount(user.id, '504', 'Old Supplies', 'Expense', new Date('2025-01-01'))
+
+    const archivedResult = await createItemWorkflow({ userId: user.id, name: 'Widget', sku: 'WID-001', expenseAccountId: archived.id })
+    expect(archivedResult.isSuccess).toBe(false)
+    if (!archivedResult.isSuccess) {
+      expect(archivedResult.error.subtype).toBe('AccountArchived')
+    }
+
+    const unknownResult = await createItemWorkflow({ userId: user.id, name: 'Widget', sku: 'WID-001', expenseAccountId: 'unknown-account' })
+    expect(unknownResult.isSuccess).toBe(false)
+    if (!unknownResult.isSuccess) {
+      expect(unknownResult.error.subtype).toBe('AccountNotFound')
+    }
+  })
+})
\ No newline at end of file
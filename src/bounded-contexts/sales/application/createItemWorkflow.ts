@@ -0,0 +1,104 @@
+import { validateItem, validateRevenueAccount, validateItemExpenseAccount, Item, Money } from '../domain/sales'
+import { createItem, findItemBySku } from '../infrastructure/itemRepo'
+import { findAccountById } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { Account } from '@/bounded-contexts/ledger/domain/ledger'
+import { Failure, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { SalesDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type CreateItemCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  name: string
+  sku: string
+  defaultPrice?: Money
+  revenueAccountId?: string
+  expenseAccountId?: string
+}
+
+// Retrieve one of the user's accounts and check it can back the item
+const findItemAccount = async (
+  userId: string,
+  accountId: string,
+  validateAccount: (account: Account) => Result<Account>
+): Promise<Result<Account>> => {
+  const accountResult = await findAccountById(userId, accountId)
+  if (!accountResult.isSuccess) return accountResult
+  if (accountResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as SalesDomainSubtype,
+        `Account ${accountId} not found or does not belong to the user`
+      )
+    )
+  }
+  return validateAccount(accountResult.value)
+}
+
+/**
+ * Create Item Workflow - Application Layer
+ *
+ * Adds something the user sells or buys to their catalog. Invoice lines and vendor bills
+ * that reference the item are filled in from its name, default price and accounts.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate the item's name, SKU and default price (pure)
+ * 3. Validate SKU uniqueness for the user (infrastructure)
+ * 4. Retrieve the revenue account, if given, and validate it is an active Revenue account (infrastructure + pure)
+ * 5. Retrieve the expense account, if given, and validate it is an active Expense account (infrastructure + pure)
+ * 6. Persist the item (infrastructure)
+ *
+ * Returns a Promise<Result<Item>>.
+ */
+export const createItemWorkflow = async (command: CreateItemCommand): Promise<Result<Item>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return authorization as Result<Item>
+
+  // Step 2: Pure validation
+  const itemValidation = validateItem({
+    userId: command.userId,
+    name: command.name,
+    sku: command.sku,
+    defaultPrice: command.defaultPrice,
+    revenueAccountId: command.revenueAccountId,
+    expenseAccountId: command.expenseAccountId,
+  })
+  if (!itemValidation.isSuccess) return itemValidation as Result<Item>
+  const item = itemValidation.value
+
+  // Step 3: Validate SKU uniqueness
+  const existingResult = await findItemBySku(command.userId, item.sku)
+  if (!existingResult.isSuccess) return existingResult as Result<Item>
+  if (existingResult.value !== null) {
+    return Failure(
+      DomainFailure(
+        'DuplicateItemSku' as SalesDomainSubtype,
+        `An item with SKU ${item.sku} already exists for this user.`
+      )
+    )
+  }
+
+  // Step 4: Retrieve and validate the revenue account
+  if (item.revenueAccountId !== undefined) {
+    const revenueAccountResult = await findItemAccount(command.userId, item.revenueAccountId, validateRevenueAccount)
+    if (!revenueAccountResult.isSuccess) return revenueAccountResult as Result<Item>
+  }
+
+  // Step 5: Retrieve and validate the expense account
+  if (item.expenseAccountId !== undefined) {
+    const expenseAccountResult = await findItemAccount(command.userId, item.expenseAccountId, validateItemExpenseAccount)
+    if (!expenseAccountResult.isSuccess) return expenseAccountResult as Result<Item>
+  }
+
+  // Step 6: Persist
+  return createItem(item)
+}
\ No newline at end of file
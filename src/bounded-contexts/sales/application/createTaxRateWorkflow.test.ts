@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { createTaxRateWorkflow, CreateTaxRateCommand } from './createTaxRateWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Sales Context: Create Tax Rate Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    // Tax rates reference Account
+    await prisma.taxRate.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string = 'test_user_sales') => {
+    return await prisma.user.create({
+      data: { username }
+    })
+  }
+
+  const createTestAccount = async (
+    userId: string,
+    code: string,
+    name: string,
+    type: 'Asset' | 'Liability',
+    archivedAt?: Date
+  ) => {
+    return await prisma.account.create({
+      data: { userId, code, name, type, normalBalance: type === 'Liability' ? 'Credit' : 'Debit', archivedAt }
+    })
+  }
+
+  it('should create a tax rate collected into a Liability account', async () => {
+    const user = await createTestUser()
+    const salesTaxPayable = await createTestAccount(user.id, '204', 'Sales Tax Payable', 'Liability')
+    const command: CreateTaxRateCommand = {
+      userId: user.id,
+      name: '  State Sales Tax  ',
+      rate: 8.25,
+      accountId: salesTaxPayable.id,
+    }
+
+    const result = await createTaxRateWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value).toMatchObject({
+        name: 'State Sales Tax',
+        rate: 8.25,
+        accountId: salesTaxPayable.id,
+      })
+    }
+  })
+
+  it('should reject a duplicate name', async () => {
+    const user = await createTestUser()
+    const salesTaxPayable = await createTestAccount(user.id, '204', 'Sales Tax Payable', 'Liability')
+    await createTaxRateWorkflow({ userId: user.id, name: 'State Sales Tax', rate: 6, accountId: salesTaxPayable.id })
+
+    const result = await createTaxRateWorkflow({ userId: user.id, name: 'State Sales Tax', rate: 7, accountId: salesTaxPayable.id })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('DuplicateTaxRate')
+    }
+  })
+
+  it('should reject an account that is not a Liability account', async () => {
+    const user = await createTestUser()
+    const cash = await createTestAccount(user.id, '101', 'Cash', 'Asset')
+
+    const result = await createTaxRateWorkflow({ userId: user.id, name: 'State Sales Tax', rate: 6, accountId: cash.id })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidTaxRateAccount')
+    }
+  })
+
+  it('should reject an unknown account', async () => {
+    const user = await createTestUser()
+
+    const result = await createTaxRateWorkflow({ userId: user.id, name: 'State Sales Tax', rate: 6, accountId: 'unknown-account' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountNotFound')
+    }
+  })
+})
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { validateTaxRate, validateTaxRateAccount, TaxRate, TaxPercentage } from '../domain/sales'
+import { createTaxRate, findTaxRateByName } from '../infrastructure/taxRateRepo'
+import { findAccountById } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { Failure, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { SalesDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type CreateTaxRateCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  name: string
+  rate: TaxPercentage
+  accountId: string
+}
+
+/**
+ * Create Tax Rate Workflow - Application Layer
+ *
+ * Creates a named sales tax that invoice lines can be charged; the tax is credited
+ * to the given Liability account (e.g. Sales Tax Payable) until it is remitted.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate the name and percentage (pure)
+ * 3. Validate name uniqueness for the user (infrastructure)
+ * 4. Retrieve the account and validate it is an active Liability account (infrastructure + pure)
+ * 5. Persist the tax rate (infrastructure)
+ *
+ * Returns a Promise<Result<TaxRate>>.
+ */
+export const createTaxRateWorkflow = async (command: CreateTaxRateCommand): Promise<Result<TaxRate>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return authorization as Result<TaxRate>
+
+  // Step 2: Pure validation
+  const taxRateValidation = validateTaxRate({
+    userId: command.userId,
+    name: command.name,
+    rate: command.rate,
+    accountId: command.accountId,
+  })
+  if (!taxRateValidation.isSuccess) return taxRateValidation as Result<TaxRate>
+  const taxRate = taxRateValidation.value
+
+  // Step 3: Validate name uniqueness
+  const existingResult = await findTaxRateByName(command.userId, taxRate.name)
+  if (!existingResult.isSuccess) return existingResult as Result<TaxRate>
+  if (existingResult.value !== null) {
+    return Failure(
+      DomainFailure(
+        'DuplicateTaxRate' as SalesDomainSubtype,
+        `Tax rate ${taxRate.name} already exists for this user.`
+      )
+    )
+  }
+
+  // Step 4: Retrieve and validate the account
+  const accountResult = await findAccountById(command.userId, command.accountId)
+  if (!accountResult.isSuccess) return accountResult as Result<TaxRate>
+  if (accountResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as SalesDomainSubtype,
+        `Account ${command.accountId} not found or does not belong to the user`
+      )
+    )
+  }
+  const accountValidation = validateTaxRateAccount(accountResult.value)
+  if (!accountValidation.isSuccess) return accountValidation as Result<TaxRate>
+
+  // Step 5: Persist
+  return createTaxRate(taxRate)
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { Item } from '../domain/sales'
+import { findItemById, deleteItem } from '../infrastructure/itemRepo'
+import { Failure, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { SalesDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type DeleteItemCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  itemId: string
+}
+
+/**
+ * Delete Item Workflow - Application Layer
+ *
+ * Removes an item from the catalog; new invoice lines and bills can no longer reference it.
+ * Invoice lines and bills already filled in from it keep their values and journal entries.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Retrieve the item (infrastructure)
+ * 3. Delete it (infrastructure)
+ *
+ * Returns a Promise<Result<Item>> with the deleted item.
+ */
+export const deleteItemWorkflow = async (command: DeleteItemCommand): Promise<Result<Item>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return authorization as Result<Item>
+
+  // Step 2: Retrieve item
+  const itemResult = await findItemById(command.userId, command.itemId)
+  if (!itemResult.isSuccess) return itemResult as Result<Item>
+  if (itemResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'ItemNotFound' as SalesDomainSubtype,
+        `Item ${command.itemId} not found or does not belong to the user`
+      )
+    )
+  }
+
+  // Step 3: Delete
+  return deleteItem(command.userId, command.itemId)
+}
\ No newline at end of file
@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { issueCreditNoteWorkflow, IssueCreditNoteCommand } from './issueCreditNoteWorkflow'
+import { createCustomerWorkflow } from './createCustomerWorkflow'
+import { issueSalesInvoiceWorkflow } from './issueSalesInvoiceWorkflow'
+import { applyPaymentToInvoiceWorkflow } from './applyPaymentToInvoiceWorkflow'
+import { createAccount } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Sales Context: Issue Credit Note Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    // Child tables first
+    await prisma.period.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.creditNote.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  // A user with Cash (101), Accounts Receivable (111) and Service Revenue (401), a customer and an invoice of 500
+  const setupIssuedInvoice = async () => {
+    const user = await prisma.user.create({ data: { id: 'test-user-123', username: 'testuser123' } })
+    await createAccount({ userId: user.id, code: '101', name: 'Cash', type: 'Asset', normalBalance: 'Debit' })
+    await createAccount({ userId: user.id, code: '111', name: 'Accounts Receivable', type: 'Asset', normalBalance: 'Debit' })
+    await createAccount({ userId: user.id, code: '401', name: 'Service Revenue', type: 'Revenue', normalBalance: 'Credit' })
+
+    const customerResult = await createCustomerWorkflow({ userId: user.id, name: 'Test Customer' })
+    if (!customerResult.isSuccess) throw new Error('customer setup failed')
+    const invoiceResult = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customerResult.value.id!,
+      invoiceNumber: 'INV-001',
+      total: 500,
+      date: '2025-01-15T00:00:00Z',
+    })
+    if (!invoiceResult.isSuccess) throw new Error('invoice setup failed')
+    return { user, customer: customerResult.value, invoice: invoiceResult.value }
+  }
+
+  const creditNoteCommand = (userId: string, invoiceId: string, overrides: Partial<IssueCreditNoteCommand> = {}): IssueCreditNoteCommand => ({
+    userId,
+    invoiceId,
+    creditNoteNumber: 'CN-001',
+    amount: 120.5,
+    date: '2025-01-18T00:00:00Z',
+    reason: 'Late delivery discount',
+    ...overrides,
+  })
+
+  it('should post Debit Revenue / Credit A/R and lower the invoice and customer balance', async () => {
+    const { user, customer, invoice } = await setupIssuedInvoice()
+
+    const result = await issueCreditNoteWorkflow(creditNoteCommand(user.id, invoice.id!))
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      const creditNote = result.value
+      expect(creditNote.invoiceId).toBe(invoice.id)
+      expect(creditNote.amount).toBe(120.5)
+      expect(creditNote.reason).toBe('Late delivery discount')
+
+      const journalEntry = await prisma.journalEntry.findUnique({
+        where: { id: creditNote.journalEntryId },
+        include: { lines: { include: { account: true } } },
+      })
+      const sides = Object.fromEntries(journalEntry!.lines.map(line => [line.account.code, [line.side, Number(line.amount)]]))
+      expect(sides).toEqual({ '401': ['Debit', 120.5], '111': ['Credit', 120.5] })
+    }
+
+    // Nothing was paid, so the status is left alone
+    const updatedInvoice = await prisma.salesInvoice.findUnique({ where: { id: invoice.id! } })
+    expect(updatedInvoice!.status).toBe('Issued')
+    const updatedCustomer = await prisma.customer.findUnique({ where: { id: customer.id! } })
+    expect(Number(updatedCustomer!.balance)).toBe(379.5)
+  })
+
+  it('should take back the invoice\'s sales tax in proportion to the credit', async () => {
+    const { user, customer } = await setupIssuedInvoice()
+    const salesTaxPayable = await createAccount({ userId: user.id, code: '204', name: 'Sales Tax Payable', type: 'Liability', normalBalance: 'Credit' })
+    if (!salesTaxPayable.isSuccess) throw new Error('account setup failed')
+    const taxRate = await prisma.taxRate.create({
+      data: { userId: user.id, name: 'State Sales Tax', rate: 10, accountId: salesTaxPayable.value.id! }
+    })
+    const invoiceResult = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customer.id!,
+      invoiceNumber: 'INV-TAX-001',
+      date: '2025-01-15T00:00:00Z',
+      lines: [{ description: 'Widgets', quantity: 2, unitPrice: 50, taxRateId: taxRate.id }],
+    })
+    if (!invoiceResult.isSuccess) throw new Error('invoice setup failed')
+
+    // Half of the 110 invoice: 50 of revenue and 5 of tax
+    const result = await issueCreditNoteWorkflow(creditNoteCommand(user.id, invoiceResult.value.id!, { amount: 55 }))
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      const journalEntry = await prisma.journalEntry.findUnique({
+        where: { id: result.value.journalEntryId },
+        include: { lines: { include: { account: true } } },
+      })
+      const sides = Object.fromEntries(journalEntry!.lines.map(line => [line.account.code, [line.side, Number(line.amount)]]))
+      expect(sides).toEqual({ '401': ['Debit', 50], '204': ['Debit', 5], '111': ['Credit', 55] })
+    }
+  })
+
+  it('should leave only the remaining balance open for payments', async () => {
+    const { user, invoice } = await setupIssuedInvoice()
+    await issueCreditNoteWorkflow(creditNoteCommand(user.id, invoice.id!, { amount: 100 }))
+
+    const overpayment = await applyPaymentToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      amount: 500,
+      date: '2025-01-20T00:00:00Z',
+      method: 'Cash',
+    })
+    expect(overpayment.isSuccess).toBe(false)
+    if (!overpayment.isSuccess) {
+      expect(overpayment.error.subtype).toBe('PaymentExceedsOpenAmount')
+    }
+
+    const payment = await applyPaymentToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      amount: 400,
+      date: '2025-01-20T00:00:00Z',
+      method: 'Cash',
+    })
+    expect(payment.isSuccess).toBe(true)
+    const paidInvoice = await prisma.salesInvoice.findUnique({ where: { id: invoice.id! } })
+    expect(paidInvoice!.status).toBe('Paid')
+  })
+
+  it('should not mark the invoice Paid when the credit takes back everything left open', async () => {
+    const { user, invoice } = await setupIssuedInvoice()
+    await applyPaymentToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      amount: 450,
+      date: '2025-01-16T00:00:00Z',
+      method: 'Cash',
+    })
+
+    const result = await issueCreditNoteWorkflow(creditNoteCommand(user.id, invoice.id!, { amount: 50 }))
+
+    expect(result.isSuccess).toBe(true)
+    const creditedInvoice = await prisma.salesInvoice.findUnique({ where: { id: invoice.id! } })
+    expect(creditedInvoice!.status).toBe('PartiallyPaid')
+  })
+
+  it('should reject a credit note that exceeds the open amount', async () => {
+    const { user, invoice } = await setupIssuedInvoice()
+    await applyPaymentToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      amount: 450,
+      date: '2025-01-16T00:00:00Z',
+      method: 'Cash',
+    })
+
+    const result = await issueCreditNoteWorkflow(creditNoteCommand(user.id, invoice.id!, { amount: 60 }))
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('CreditNoteExceedsOpenAmount')
+    }
+  })
+
+  it('should reject a duplicate credit note number', async () => {
+    const { user, invoice } = await setupIssuedInvoice()
+    const first = await issueCreditNoteWorkflow(creditNoteCommand(user.id, invoice.id!, { amount: 50 }))
+    expect(first.isSuccess).toBe(true)
+
+    const result = await issueCreditNoteWorkflow(creditNoteCommand(user.id, invoice.id!, { amount: 50 }))
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('DuplicateCreditNoteNumber')
+    }
+  })
+
+  it('should reject a revenue account that is not a Revenue account', async () => {
+    const { user, invoice } = await setupIssuedInvoice()
+    const cash = await prisma.account.findFirst({ where: { userId: user.id, code: '101' } })
+
+    const result = await issueCreditNoteWorkflow(creditNoteCommand(user.id, invoice.id!, { revenueAccountId: cash!.id }))
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidRevenueAccount')
+    }
+  })
+
+  it('should return InvoiceNotFound for an invoice of another user', async () => {
+    const { invoice } = await setupIssuedInvoice()
+    const otherUser = await prisma.user.create({ data: { id: 'other-user', username: 'otheruser' } })
+
+    const result = await issueCreditNoteWorkflow(creditNoteCommand(otherUser.id, invoice.id!))
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvoiceNotFound')
+    }
+  })
+})
\ No newline at end of file
@@ -0,0 +1,277 @@
+import {
+  CreditNote,
+  Money,
+  validateCreditNote,
+  validateCreditNoteDoesNotExceedOpenAmount,
+  validateInvoiceNotVoid,
+  validateRevenueAccount,
+  groupTaxByAccount,
+  splitCreditNoteByTax,
+  SalesInvoiceLine,
+  TaxRate,
+} from '../domain/sales'
+import { findSalesInvoiceById, findSalesInvoiceByIdForUpdate } from '../infrastructure/salesInvoiceRepo'
+import { getTotalPaidForInvoice } from '../infrastructure/paymentRepo'
+import { getTotalDepositsAppliedToInvoice } from '../infrastructure/depositApplicationRepo'
+import { createCreditNote, findCreditNoteByNumber, getTotalCreditedForInvoice } from '../infrastructure/creditNoteRepo'
+import { updateCustomerBalance } from '../infrastructure/customerRepo'
+import { findTaxRateById } from '../infrastructure/taxRateRepo'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
+import { findAccountById } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { toCents } from '@/common/types/money'
+import { SalesDomainSubtype } from '../domain/errors'
+import { Account, JournalLineSide } from '@/bounded-contexts/ledger/domain/ledger'
+import { DEFAULT_ACCOUNT_CODES } from '@/bounded-contexts/ledger/domain/defaultAccounts'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type IssueCreditNoteCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  invoiceId: string
+  creditNoteNumber: string
+  amount: Money
+  date: string // ISO string
+  reason?: string
+  revenueAccountId?: string // defaults to the revenue account of the invoice's first line, then the Default Revenue posting account
+}
+
+// Look up each distinct tax rate the invoice lines were charged
+const findInvoiceTaxRates = async (
+  userId: string,
+  lines: readonly SalesInvoiceLine[]
+): Promise<Result<TaxRate[]>> => {
+  const taxRates: TaxRate[] = []
+  for (const line of lines) {
+    if (line.taxRateId === undefined || taxRates.some(rate => rate.id === line.taxRateId)) {
+      continue
+    }
+    const taxRateResult = await findTaxRateById(userId, line.taxRateId)
+    if (!taxRateResult.isSuccess) return taxRateResult
+    if (taxRateResult.value === null) {
+      return Failure(
+        DomainFailure(
+          'TaxRateNotFound' as SalesDomainSubtype,
+          `Tax rate ${line.taxRateId} charged on invoice line ${line.lineNumber} not found.`
+        )
+      )
+    }
+    taxRates.push(taxRateResult.value)
+  }
+  return Success(taxRates)
+}
+
+/**
+ * Issue Credit Note Workflow - Application Layer
+ *
+ * A credit note takes part of an issued invoice back, e.g. for a discount or a returned item:
+ * the revenue goes down and so does what the customer owes, and the invoice's open amount with it.
+ * When the invoice charged sales tax, the credit takes back the same proportion of that tax.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate credit note data (pure validation)
+ * 3. Validate credit note number uniqueness
+ * 4. Find the invoice and ensure it belongs to the user and is not void
+ * 5. Find required accounts (Revenue, the invoice's sales tax accounts and Accounts Receivable) for the user
+ * 6. Lock the invoice and re-read it, so settlements or a void committed since step 4 are seen; it must still not be void
+ * 7. Calculate open amount (invoice total - payments - deposits applied - earlier credit notes, rounded to cents)
+ * 8. Validate that the credit note does not exceed the open amount (business rule)
+ * 9. Create a journal entry (debit Revenue and Sales Tax Payable in proportion to the invoice's tax,
+ *    credit Accounts Receivable)
+ * 10. Create the credit note record with the journal entry reference
+ * 11. Update customer subsidiary balance (decrease Accounts Receivable)
+ *
+ * The invoice status is left alone, as nothing was paid. Whether the invoice is settled follows from its
+ * open amount: later payments and the overdue job read that, not the status.
+ *
+ * Returns a Promise<Result<CreditNote>>.
+ */
+export const issueCreditNoteWorkflow = async (command: IssueCreditNoteCommand): Promise<Result<CreditNote>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<CreditNote>
+
+  // Step 2: Pure validation
+  const validationResult = validateCreditNote({
+    userId: command.userId,
+    invoiceId: command.invoiceId,
+    creditNoteNumber: command.creditNoteNumber,
+    amount: command.amount,
+    date: new Date(command.date),
+    reason: command.reason,
+    revenueAccountId: command.revenueAccountId ?? '',
+  })
+  if (!validationResult.isSuccess) return validationResult as Result<CreditNote>
+  const validatedCreditNote = validationResult.value
+
+  // Step 3: Validate credit note number uniqueness
+  const existingResult = await findCreditNoteByNumber(command.userId, validatedCreditNote.creditNoteNumber)
+  if (!existingResult.isSuccess) {
+    return existingResult as Result<CreditNote>
+  }
+  if (existingResult.value !== null) {
+    return Failure(
+      DomainFailure(
+        'DuplicateCreditNoteNumber' as SalesDomainSubtype,
+        `Credit note number ${validatedCreditNote.creditNoteNumber} already exists for this user.`
+      )
+    )
+  }
+
+  // Step 4: Find invoice
+  const invoiceResult = await findSalesInvoiceById(command.userId, command.invoiceId)
+  if (!invoiceResult.isSuccess) {
+    return invoiceResult as Result<CreditNote>
+  }
+  const invoice = invoiceResult.value
+  if (invoice === null) {
+    return Failure(
+      DomainFailure(
+        'InvoiceNotFound' as SalesDomainSubtype,
+        `Invoice ${command.invoiceId} not found or access denied.`
+      )
+    )
+  }
+  const notVoidResult = validateInvoiceNotVoid(invoice)
+  if (!notVoidResult.isSuccess) return notVoidResult as Result<CreditNote>
+
+  // Step 5: Find required accounts
+  // Revenue: the given account, else the first line's account, else the Default Revenue posting role
+  const revenueAccountId = command.revenueAccountId ?? invoice.lines?.[0]?.revenueAccountId
+  const revenueAccountResult: Result<Account | null> = revenueAccountId !== undefined
+    ? await findAccountById(command.userId, revenueAccountId)
+    : await findPostingAccount(command.userId, 'DefaultRevenue')
+  if (!revenueAccountResult.isSuccess) {
+    return revenueAccountResult as Result<CreditNote>
+  }
+  if (revenueAccountResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as SalesDomainSubtype,
+        revenueAccountId !== undefined
+          ? `Revenue account ${revenueAccountId} not found or does not belong to the user.`
+          : `Revenue account not found. Map the DefaultRevenue posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.SERVICE_REVENUE}.`
+      )
+    )
+  }
+  const revenueAccount = validateRevenueAccount(revenueAccountResult.value)
+  if (!revenueAccount.isSuccess) return revenueAccount as Result<CreditNote>
+
+  const arAccountResult = await findPostingAccount(command.userId, 'AccountsReceivable')
+  if (!arAccountResult.isSuccess) {
+    return arAccountResult as Result<CreditNote>
+  }
+  const arAccount = arAccountResult.value
+  if (arAccount === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as SalesDomainSubtype,
+        `Accounts Receivable account not found. Map the AccountsReceivable posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE}.`
+      )
+    )
+  }
+
+  // Sales tax: the Liability accounts of the tax rates charged on the invoice lines
+  const lines = invoice.lines ?? []
+  const taxRatesResult = await findInvoiceTaxRates(command.userId, lines)
+  if (!taxRatesResult.isSuccess) {
+    return taxRatesResult as Result<CreditNote>
+  }
+  const invoiceTaxShares = groupTaxByAccount(lines, taxRatesResult.value)
+
+  // Steps 6-11 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    // Step 6: Lock the invoice so concurrent settlements of it run one after the other
+    const currentInvoiceResult = await findSalesInvoiceByIdForUpdate(command.userId, command.invoiceId, db)
+    if (!currentInvoiceResult.isSuccess) {
+      return currentInvoiceResult as Result<CreditNote>
+    }
+    const currentInvoice = currentInvoiceResult.value
+    if (currentInvoice === null) {
+      return Failure(
+        DomainFailure(
+          'InvoiceNotFound' as SalesDomainSubtype,
+          `Invoice ${command.invoiceId} not found or access denied.`
+        )
+      )
+    }
+    const stillNotVoidResult = validateInvoiceNotVoid(currentInvoice)
+    if (!stillNotVoidResult.isSuccess) return stillNotVoidResult as Result<CreditNote>
+
+    // Step 7: Calculate open amount
+    const totalPaidResult = await getTotalPaidForInvoice(command.userId, command.invoiceId, db)
+    if (!totalPaidResult.isSuccess) {
+      return totalPaidResult as Result<CreditNote>
+    }
+    const depositsAppliedResult = await getTotalDepositsAppliedToInvoice(command.userId, command.invoiceId, db)
+    if (!depositsAppliedResult.isSuccess) {
+      return depositsAppliedResult as Result<CreditNote>
+    }
+    const creditedResult = await getTotalCreditedForInvoice(command.userId, command.invoiceId, db)
+    if (!creditedResult.isSuccess) {
+      return creditedResult as Result<CreditNote>
+    }
+    const openAmount = toCents(currentInvoice.total - totalPaidResult.value - depositsAppliedResult.value - creditedResult.value)
+
+    // Step 8: Validate the credit note does not exceed open amount
+    const amountResult = validateCreditNoteDoesNotExceedOpenAmount(validatedCreditNote.amount, openAmount)
+    if (!amountResult.isSuccess) return amountResult as Result<CreditNote>
+    const amount = amountResult.value
+    const { revenueAmount, taxShares } = splitCreditNoteByTax(amount, invoice.total, invoiceTaxShares)
+
+    // Step 9: Create journal entry
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `CN-${validatedCreditNote.creditNoteNumber}`,
+      description: `Credit note ${validatedCreditNote.creditNoteNumber} for invoice ${invoice.invoiceNumber}`,
+      date: validatedCreditNote.date,
+      lines: [
+        ...[{ accountId: revenueAccount.value.id!, amount: revenueAmount }, ...taxShares]
+          .filter(share => share.amount > 0)
+          .map(share => ({
+            accountId: share.accountId,
+            amount: share.amount,
+            side: 'Debit' as JournalLineSide,
+          })),
+        {
+          accountId: arAccount.id!,
+          amount,
+          side: 'Credit' as JournalLineSide,
+        },
+      ],
+    }, db)
+
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult as Result<CreditNote>
+    }
+
+    // Step 10: Create credit note record
+    const creditNoteResult = await createCreditNote({
+      ...validatedCreditNote,
+      amount,
+      revenueAccountId: revenueAccount.value.id!,
+      journalEntryId: journalEntryResult.value.id!,
+    }, db)
+    if (!creditNoteResult.isSuccess) {
+      return creditNoteResult
+    }
+
+    // Step 11: Update customer balance (decrease Accounts Receivable)
+    const balanceUpdateResult = await updateCustomerBalance(command.userId, invoice.customerId, -amount, db)
+    if (!balanceUpdateResult.isSuccess) {
+      return balanceUpdateResult as Result<CreditNote>
+    }
+
+    return creditNoteResult
+  })
+}
\ No newline at end of file
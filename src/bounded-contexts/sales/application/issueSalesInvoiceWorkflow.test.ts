@@ -25,6 +25,7 @@ describe('Sales Context: Issue Sales Invoice Workflow (Integration)', () => {
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -269,4 +270,199 @@ describe('Sales Context: Issue Sales Invoice Workflow (Integration)', () => {
       expect(result.error.subtype).toBe('InvalidDueDate')
     }
   })
+
+  it('should derive the total from the lines and credit each revenue account for its share', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    const arAccount = await createTestAccount(user.id, '111', 'Accounts Receivable', 'Asset', 'Debit')
+    const serviceRevenue = await createTestAccount(user.id, '401', 'Service Revenue', 'Revenue', 'Credit')
+    const productRevenue = await createTestAccount(user.id, '402', 'Product Revenue', 'Revenue', 'Credit')
+
+    const result = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customer.id!,
+      invoiceNumber: 'INV-2025-008',
+      date: '2025-01-15T00:00:00Z',
+      lines: [
+        { description: 'Setup', quantity: 1, unitPrice: 250 },
+        { description: 'Widgets', quantity: 3, unitPrice: 19.5, revenueAccountId: productRevenue.id! },
+        { description: 'Support hours', quantity: 1.5, unitPrice: 80 },
+      ],
+    })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      const invoice = result.value
+      expect(invoice.total).toBe(428.5)
+      expect(invoice.lines).toHaveLength(3)
+      expect(invoice.lines?.map(line => line.amount)).toEqual([250, 58.5, 120])
+      expect(invoice.lines?.map(line => line.revenueAccountId)).toEqual([serviceRevenue.id, productRevenue.id, serviceRevenue.id])
+
+      const journalLines = await prisma.journalLine.findMany({ where: { journalEntryId: invoice.journalEntryId } })
+      expect(journalLines).toHaveLength(3)
+      const lineFor = (accountId: string) => journalLines.find(line => line.accountId === accountId)
+      expect(lineFor(arAccount.id!)?.side).toBe('Debit')
+      expect(Number(lineFor(arAccount.id!)?.amount)).toBe(428.5)
+      expect(Number(lineFor(serviceRevenue.id!)?.amount)).toBe(370)
+      expect(Number(lineFor(productRevenue.id!)?.amount)).toBe(58.5)
+
+      const updatedCustomer = await prisma.customer.findUnique({ where: { id: customer.id! } })
+      expect(Number(updatedCustomer!.balance)).toBe(428.5)
+    } else {
+      expect.fail('Expected success but got failure')
+    }
+  })
+
+  it('should reject a total that does not match the sum of the lines', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    await createTestAccount(user.id, '111', 'Accounts Receivable', 'Asset', 'Debit')
+    await createTestAccount(user.id, '401', 'Service Revenue', 'Revenue', 'Credit')
+
+    const result = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customer.id!,
+      invoiceNumber: 'INV-2025-009',
+      total: 100,
+      date: '2025-01-15T00:00:00Z',
+      lines: [{ description: 'Setup', quantity: 1, unitPrice: 90 }],
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvoiceTotalMismatch')
+    }
+  })
+
+  it('should reject a line credited to a non-revenue account', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    await createTestAccount(user.id, '111', 'Accounts Receivable', 'Asset', 'Debit')
+    await createTestAccount(user.id, '401', 'Service Revenue', 'Revenue', 'Credit')
+    const cash = await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+
+    const result = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customer.id!,
+      invoiceNumber: 'INV-2025-010',
+      date: '2025-01-15T00:00:00Z',
+      lines: [{ description: 'Setup', quantity: 1, unitPrice: 90, revenueAccountId: cash.id! }],
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidRevenueAccount')
+    }
+    expect(await prisma.salesInvoice.count()).toBe(0)
+  })
+
+  it('should fill in lines from catalog items, letting fields given on the line win', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    await createTestAccount(user.id, '111', 'Accounts Receivable', 'Asset', 'Debit')
+    await createTestAccount(user.id, '401', 'Service Revenue', 'Revenue', 'Credit')
+    const productRevenue = await createTestAccount(user.id, '402', 'Product Revenue', 'Revenue', 'Credit')
+    const item = await prisma.item.create({
+      data: { userId: user.id, name: 'Widget', sku: 'WID-001', defaultPrice: 20, revenueAccountId: productRevenue.id! }
+    })
+
+    const result = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customer.id!,
+      invoiceNumber: 'INV-2025-011',
+      date: '2025-01-15T00:00:00Z',
+      lines: [
+        { itemId: item.id, quantity: 3 },
+        { itemId: item.id, description: 'Widget (discounted)', quantity: 1, unitPrice: 15 },
+      ],
+    })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.total).toBe(75)
+      expect(result.value.lines?.[0]).toMatchObject({ description: 'Widget', unitPrice: 20, amount: 60, itemId: item.id, revenueAccountId: productRevenue.id })
+      expect(result.value.lines?.[1]).toMatchObject({ description: 'Widget (discounted)', unitPrice: 15, amount: 15, itemId: item.id })
+    } else {
+      expect.fail('Expected success but got failure')
+    }
+  })
+
+  it('should reject a line that references an unknown item', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+
+    const result = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customer.id!,
+      invoiceNumber: 'INV-2025-012',
+      date: '2025-01-15T00:00:00Z',
+      lines: [{ itemId: 'non-existent-item-id', quantity: 1 }],
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('ItemNotFound')
+    }
+  })
+
+  it('should charge each line its tax rate and credit the tax to the tax rate\'s Liability account', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    const arAccount = await createTestAccount(user.id, '111', 'Accounts Receivable', 'Asset', 'Debit')
+    const serviceRevenue = await createTestAccount(user.id, '401', 'Service Revenue', 'Revenue', 'Credit')
+    const salesTaxPayable = await createTestAccount(user.id, '204', 'Sales Tax Payable', 'Liability', 'Credit')
+    const taxRate = await prisma.taxRate.create({
+      data: { userId: user.id, name: 'State Sales Tax', rate: 8.25, accountId: salesTaxPayable.id! }
+    })
+
+    const result = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customer.id!,
+      invoiceNumber: 'INV-2025-013',
+      date: '2025-01-15T00:00:00Z',
+      lines: [
+        { description: 'Widgets', quantity: 2, unitPrice: 50, taxRateId: taxRate.id },
+        { description: 'Consulting', quantity: 1, unitPrice: 200 },
+      ],
+    })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      const invoice = result.value
+      expect(invoice.total).toBe(308.25)
+      expect(invoice.lines?.[0]).toMatchObject({ amount: 100, taxRateId: taxRate.id, taxAmount: 8.25 })
+      expect(invoice.lines?.[1]).toMatchObject({ amount: 200, taxAmount: 0 })
+
+      const journalLines = await prisma.journalLine.findMany({ where: { journalEntryId: invoice.journalEntryId } })
+      expect(journalLines).toHaveLength(3)
+      const lineFor = (accountId: string) => journalLines.find(line => line.accountId === accountId)
+      expect(Number(lineFor(arAccount.id!)?.amount)).toBe(308.25)
+      expect(Number(lineFor(serviceRevenue.id!)?.amount)).toBe(300)
+      expect(lineFor(salesTaxPayable.id!)?.side).toBe('Credit')
+      expect(Number(lineFor(salesTaxPayable.id!)?.amount)).toBe(8.25)
+
+      const updatedCustomer = await prisma.customer.findUnique({ where: { id: customer.id! } })
+      expect(Number(updatedCustomer!.balance)).toBe(308.25)
+    } else {
+      expect.fail('Expected success but got failure')
+    }
+  })
+
+  it('should reject a line charged an unknown tax rate', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+
+    const result = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customer.id!,
+      invoiceNumber: 'INV-2025-014',
+      date: '2025-01-15T00:00:00Z',
+      lines: [{ description: 'Widgets', quantity: 1, unitPrice: 50, taxRateId: 'non-existent-tax-rate-id' }],
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('TaxRateNotFound')
+    }
+  })
 })
\ No newline at end of file
@@ -1,49 +1,171 @@
-import { validateSalesInvoice, SalesInvoice, Money } from '../domain/sales'
+import {
+  validateSalesInvoice,
+  validateAmount,
+  validateInvoiceLines,
+  validateInvoiceTotalMatchesLines,
+  validateRevenueAccount,
+  applyItemDefaults,
+  buildSingleInvoiceLine,
+  calculateInvoiceTotal,
+  groupRevenueByAccount,
+  applyTaxRates,
+  groupTaxByAccount,
+  SalesInvoice,
+  SalesInvoiceLine,
+  SalesInvoiceLineInput,
+  TaxRate,
+  Money,
+} from '../domain/sales'
 import { createSalesInvoice, findSalesInvoiceByNumber } from '../infrastructure/salesInvoiceRepo'
 import { findCustomerById, updateCustomerBalance } from '../infrastructure/customerRepo'
+import { findItemById } from '../infrastructure/itemRepo'
+import { findTaxRateById } from '../infrastructure/taxRateRepo'
 import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
-import { findAccountByCode } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
+import { findAccountById } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
 import { Result, Failure, Success, andThen, fromNullable, map, fold } from '@/common/types/result'
 import { DomainFailure, AppError } from '@/common/types/errors'
 import { SalesDomainSubtype } from '../domain/errors'
 import { JournalLineSide, Account } from '@/bounded-contexts/ledger/domain/ledger'
 import { DEFAULT_ACCOUNT_CODES } from '@/bounded-contexts/ledger/domain/defaultAccounts'
 import { fromNullable as optionFromNullable, getOrElse as optionGetOrElse } from '@/common/types/option'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
 
 /**
  * Workflow input: raw data from command (API request).
  */
 export type IssueSalesInvoiceCommand = {
   userId: string
+  actingUserId?: string // defaults to userId (the book owner)
   customerId: string
   invoiceNumber: string
-  total: Money
+  total?: Money // required without lines; with lines it is derived from them and, if given, must match
+  lines?: SalesInvoiceLineInput[]
   date: string // ISO string
   dueDate?: string // ISO string
   description?: string
 }
 
+// Fill in each line that references a catalog item from the item; fields given on the line win
+const fillInLinesFromItems = async (
+  userId: string,
+  lines: readonly SalesInvoiceLineInput[]
+): Promise<Result<SalesInvoiceLineInput[]>> => {
+  const filledLines: SalesInvoiceLineInput[] = []
+  for (const [index, line] of lines.entries()) {
+    if (line.itemId === undefined) {
+      filledLines.push(line)
+      continue
+    }
+    const itemResult = await findItemById(userId, line.itemId)
+    if (!itemResult.isSuccess) return itemResult
+    if (itemResult.value === null) {
+      return Failure(
+        DomainFailure(
+          'ItemNotFound' as SalesDomainSubtype,
+          `Line ${index + 1}: item ${line.itemId} not found or does not belong to the user.`
+        )
+      )
+    }
+    filledLines.push(applyItemDefaults(line, itemResult.value))
+  }
+  return Success(filledLines)
+}
+
+// Look up each distinct tax rate the lines are charged
+const findLineTaxRates = async (
+  userId: string,
+  lines: readonly SalesInvoiceLineInput[]
+): Promise<Result<TaxRate[]>> => {
+  const taxRates: TaxRate[] = []
+  for (const [index, line] of lines.entries()) {
+    if (line.taxRateId === undefined || taxRates.some(rate => rate.id === line.taxRateId)) {
+      continue
+    }
+    const taxRateResult = await findTaxRateById(userId, line.taxRateId)
+    if (!taxRateResult.isSuccess) return taxRateResult
+    if (taxRateResult.value === null) {
+      return Failure(
+        DomainFailure(
+          'TaxRateNotFound' as SalesDomainSubtype,
+          `Line ${index + 1}: tax rate ${line.taxRateId} not found or does not belong to the user.`
+        )
+      )
+    }
+    taxRates.push(taxRateResult.value)
+  }
+  return Success(taxRates)
+}
+
 /**
  * Issue Sales Invoice Workflow - Application Layer
  *
  * Steps:
- * 1. Validate command structure (pure validation)
- * 2. Validate that the customer exists and belongs to the user
- * 3. Validate that the invoice number is unique for this user
- * 4. Find the required accounts (Accounts Receivable and Revenue) by code for the user
- * 5. Create a journal entry for the revenue recognition
- * 6. Create the sales invoice record with the journal entry reference
- * 7. Update the customer's subsidiary balance
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Fill in the lines that reference a catalog item from the item's name, default price and revenue account,
+ *    and look up the tax rates the lines are charged
+ * 3. Validate command structure and the invoice lines, charge each line's tax rate, and derive the total
+ *    (line amounts plus tax) from the lines (pure validation)
+ *    - An invoice issued with only a total gets a single untaxed line for it
+ * 4. Validate that the customer exists and belongs to the user
+ * 5. Validate that the invoice number is unique for this user
+ * 6. Find the required accounts for the user
+ *    - Accounts Receivable: the Accounts Receivable posting role
+ *    - Revenue: each line's revenue account, or the Default Revenue posting role when the line has none
+ * 7. Create a journal entry for the revenue recognition (debit Accounts Receivable for the total,
+ *    credit each revenue account for its share and each tax rate's Liability account for the tax collected)
+ * 8. Create the sales invoice record and its lines with the journal entry reference
+ * 9. Update the customer's subsidiary balance
  *
  * Returns a Promise<Result<SalesInvoice>>.
  */
 export const issueSalesInvoiceWorkflow = async (command: IssueSalesInvoiceCommand): Promise<Result<SalesInvoice>> => {
-  // Step 1: Pure validation
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<SalesInvoice>
+
+  // Step 2: Fill in lines from their catalog items and look up their tax rates
+  const itemLinesResult = command.lines !== undefined
+    ? await fillInLinesFromItems(command.userId, command.lines)
+    : Success(undefined)
+  if (!itemLinesResult.isSuccess) {
+    return itemLinesResult
+  }
+  const commandLines = itemLinesResult.value
+  const taxRatesResult = commandLines !== undefined
+    ? await findLineTaxRates(command.userId, commandLines)
+    : Success([])
+  if (!taxRatesResult.isSuccess) {
+    return taxRatesResult
+  }
+  const taxRates = taxRatesResult.value
+
+  // Step 3: Pure validation
+  const description = optionGetOrElse(`Sales invoice ${command.invoiceNumber}`)(optionFromNullable(command.description))
+  const linesResult: Result<SalesInvoiceLine[]> = commandLines !== undefined
+    ? map((lines: SalesInvoiceLine[]) => applyTaxRates(lines, taxRates))(validateInvoiceLines(commandLines))
+    : command.total === undefined
+      ? Failure(DomainFailure('InvalidInvoiceTotal' as SalesDomainSubtype, 'An invoice needs a total or at least one line.'))
+      : map((total: Money) => [buildSingleInvoiceLine(total, description)])(validateAmount(command.total))
+  if (!linesResult.isSuccess) {
+    return linesResult
+  }
+  const totalResult = validateInvoiceTotalMatchesLines(command.total, calculateInvoiceTotal(linesResult.value))
+  if (!totalResult.isSuccess) {
+    return totalResult
+  }
+  const total = totalResult.value
+
   const invoiceToValidate: Omit<SalesInvoice, 'id' | 'status' | 'journalEntryId' | 'createdAt' | 'updatedAt'> = {
     userId: command.userId,
     customerId: command.customerId,
     invoiceNumber: command.invoiceNumber,
-    total: command.total,
+    total,
     date: new Date(command.date),
     dueDate: command.dueDate ? new Date(command.dueDate) : undefined,
     description: command.description,
@@ -61,7 +183,7 @@ export const issueSalesInvoiceWorkflow = async (command: IssueSalesInvoiceComman
     return Success(result.value)
   }
 
-  // Step 2: Validate customer exists
+  // Step 4: Validate customer exists
   const customerResult = await findCustomerById(command.userId, command.customerId)
   const customer = ensureNotNull(
     DomainFailure(
@@ -73,7 +195,7 @@ export const issueSalesInvoiceWorkflow = async (command: IssueSalesInvoiceComman
     return customer
   }
 
-  // Step 3: Validate invoice number uniqueness
+  // Step 5: Validate invoice number uniqueness
   const existingInvoiceResult = await findSalesInvoiceByNumber(command.userId, command.invoiceNumber)
   if (!existingInvoiceResult.isSuccess) {
     return existingInvoiceResult
@@ -88,95 +210,97 @@ export const issueSalesInvoiceWorkflow = async (command: IssueSalesInvoiceComman
   }
   // At this point, existingInvoiceResult.isSuccess and value is null -> proceed
 
-  // Step 4: Find required accounts
-  // We assume the default chart of accounts: 111 for Accounts Receivable, 401 for Service Revenue
-  // In a real application, these could be configurable per user, but for v1 we use defaults.
-  const arAccountResult = await findAccountByCode(command.userId, DEFAULT_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE)
-  const arAccount = ensureNotNull(
+  // Step 6: Find required accounts
+  // Posting roles: Accounts Receivable, Default Revenue (unmapped roles fall back to the default chart of accounts)
+  const arAccountResult = await findPostingAccount(command.userId, 'AccountsReceivable')
+  const arAccount = ensureNotNull<Account>(
     DomainFailure(
       'AccountNotFound' as SalesDomainSubtype,
-      `Default Accounts Receivable account (code ${DEFAULT_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE}) not found. Please set up chart of accounts.`
+      `Accounts Receivable account not found. Map the AccountsReceivable posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE}.`
     )
   )(arAccountResult)
   if (!arAccount.isSuccess) {
     return arAccount
   }
 
-  const revenueAccountResult = await findAccountByCode(command.userId, DEFAULT_ACCOUNT_CODES.SERVICE_REVENUE)
-  const revenueAccount = ensureNotNull(
-    DomainFailure(
-      'AccountNotFound' as SalesDomainSubtype,
-      `Default Revenue account (code ${DEFAULT_ACCOUNT_CODES.SERVICE_REVENUE}) not found. Please set up chart of accounts.`
-    )
-  )(revenueAccountResult)
-  if (!revenueAccount.isSuccess) {
-    return revenueAccount
+  // Revenue accounts: lines without their own account are credited to the Default Revenue role
+  const resolvedLines: SalesInvoiceLine[] = []
+  for (const line of linesResult.value) {
+    const revenueAccount = line.revenueAccountId !== undefined
+      ? andThen(validateRevenueAccount)(ensureNotNull<Account>(
+          DomainFailure(
+            'AccountNotFound' as SalesDomainSubtype,
+            `Line ${line.lineNumber}: revenue account ${line.revenueAccountId} not found or does not belong to the user.`
+          )
+        )(await findAccountById(command.userId, line.revenueAccountId)))
+      : ensureNotNull<Account>(
+          DomainFailure(
+            'AccountNotFound' as SalesDomainSubtype,
+            `Revenue account not found. Map the DefaultRevenue posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.SERVICE_REVENUE}.`
+          )
+        )(await findPostingAccount(command.userId, 'DefaultRevenue'))
+    if (!revenueAccount.isSuccess) {
+      return revenueAccount
+    }
+    resolvedLines.push({ ...line, revenueAccountId: revenueAccount.value.id! })
   }
 
-  // Step 5: Create journal entry
-  // Extract account values safely (they are guaranteed non-null by ensureNotNull)
-  // TypeScript needs explicit typing, so we assert after success checks
-  if (!arAccount.isSuccess) return arAccount
-  if (!revenueAccount.isSuccess) return revenueAccount
-  const arAccountValue = arAccount.value as Account
-  const revenueAccountValue = revenueAccount.value as Account
+  // Step 7: Create journal entry
+  const revenueShares = groupRevenueByAccount(resolvedLines)
+  const taxShares = groupTaxByAccount(resolvedLines, taxRates)
 
-  const description = optionGetOrElse(`Sales invoice ${command.invoiceNumber}`)(optionFromNullable(command.description))
-  const journalEntryResult = await createJournalEntry({
-    userId: command.userId,
-    entryNumber: `INV-${command.invoiceNumber}`,
-    description,
-    date: new Date(command.date),
-    lines: [
-      {
-        accountId: arAccountValue.id!,
-        amount: command.total,
-        side: 'Debit' as JournalLineSide,
-      },
-      {
-        accountId: revenueAccountValue.id!,
-        amount: command.total,
-        side: 'Credit' as JournalLineSide,
-      },
-    ],
-  })
+  // Steps 7-9 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `INV-${command.invoiceNumber}`,
+      description,
+      date: new Date(command.date),
+      lines: [
+        {
+          accountId: arAccount.value.id!,
+          amount: total,
+          side: 'Debit' as JournalLineSide,
+        },
+        ...[...revenueShares, ...taxShares].map(share => ({
+          accountId: share.accountId,
+          amount: share.amount,
+          side: 'Credit' as JournalLineSide,
+        })),
+      ],
+    }, db)
 
-  if (!journalEntryResult.isSuccess) {
-    return journalEntryResult
-  }
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult
+    }
 
-  const journalEntry = journalEntryResult.value
+    const journalEntry = journalEntryResult.value
 
-  // Step 6: Create sales invoice
-  const invoiceToCreate: Omit<SalesInvoice, 'id' | 'createdAt' | 'updatedAt'> = {
-    userId: command.userId,
-    customerId: command.customerId,
-    invoiceNumber: command.invoiceNumber,
-    total: command.total,
-    status: 'Issued',
-    date: new Date(command.date),
-    dueDate: command.dueDate ? new Date(command.dueDate) : undefined,
-    description: command.description,
-    journalEntryId: journalEntry.id!,
-  }
+    // Step 8: Create sales invoice
+    const invoiceToCreate: Omit<SalesInvoice, 'id' | 'createdAt' | 'updatedAt'> = {
+      userId: command.userId,
+      customerId: command.customerId,
+      invoiceNumber: command.invoiceNumber,
+      total,
+      status: 'Issued',
+      date: new Date(command.date),
+      dueDate: command.dueDate ? new Date(command.dueDate) : undefined,
+      description: command.description,
+      journalEntryId: journalEntry.id!,
+      lines: resolvedLines,
+    }
 
-  const invoiceResult = await createSalesInvoice(invoiceToCreate)
-  if (!invoiceResult.isSuccess) {
-    // TODO: Rollback journal entry? For simplicity, we leave it (orphaned). In production, use a transaction.
-    return invoiceResult
-  }
+    const invoiceResult = await createSalesInvoice(invoiceToCreate, db)
+    if (!invoiceResult.isSuccess) {
+      return invoiceResult
+    }
 
-  // Step 7: Update customer balance (increase Accounts Receivable)
-  const updateBalanceResult = await updateCustomerBalance(command.userId, command.customerId, command.total)
-  if (!updateBalanceResult.isSuccess) {
-    // If this fails, we have an inconsistent state. For v1, we accept the risk and log.
-    // In a more robust system, we would roll back the previous steps.
-    console.error('Failed to update customer balance', updateBalanceResult.error)
-    // We still return the invoice as created, but the balance is off.
-    // This is a trade-off; we could return a failure, but then the invoice is created without balance update.
-    // We'll return the invoice but note the error? For now, we'll return the invoice.
-    // Alternatively, we could use a transaction that includes the balance update.
-  }
+    // Step 9: Update customer balance (increase Accounts Receivable)
+    const updateBalanceResult = await updateCustomerBalance(command.userId, command.customerId, total, db)
+    if (!updateBalanceResult.isSuccess) {
+      return updateBalanceResult as Result<SalesInvoice>
+    }
 
-  return invoiceResult
-}
+    return invoiceResult
+  })
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { markOverdueInvoicesWorkflow } from './markOverdueInvoicesWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Sales Context: Mark Overdue Invoices Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestInvoice = async (
+    userId: string,
+    customerId: string,
+    invoiceNumber: string,
+    status: 'Issued' | 'PartiallyPaid' | 'Paid',
+    dueDate?: string
+  ) => {
+    const entry = await prisma.journalEntry.create({
+      data: { userId, description: `Sales invoice ${invoiceNumber}`, date: new Date('2025-01-15') },
+    })
+    return prisma.salesInvoice.create({
+      data: {
+        userId,
+        customerId,
+        invoiceNumber,
+        total: 100,
+        status,
+        date: new Date('2025-01-15'),
+        dueDate: dueDate ? new Date(dueDate) : undefined,
+        journalEntryId: entry.id,
+      },
+    })
+  }
+
+  it('moves open invoices to Overdue the day after their due date, across users', async () => {
+    const owner = await prisma.user.create({ data: { username: 'overdue_owner' } })
+    const other = await prisma.user.create({ data: { username: 'overdue_other' } })
+    const ownerCustomer = await prisma.customer.create({ data: { userId: owner.id, name: 'Acme' } })
+    const otherCustomer = await prisma.customer.create({ data: { userId: other.id, name: 'Globex' } })
+    const pastDue = await createTestInvoice(owner.id, ownerCustomer.id, 'INV-001', 'Issued', '2025-02-14')
+    const partlyPaid = await createTestInvoice(other.id, otherCustomer.id, 'INV-001', 'PartiallyPaid', '2025-02-01')
+    const dueToday = await createTestInvoice(owner.id, ownerCustomer.id, 'INV-002', 'Issued', '2025-02-15')
+    const paid = await createTestInvoice(owner.id, ownerCustomer.id, 'INV-003', 'Paid', '2025-02-01')
+    const noDueDate = await createTestInvoice(owner.id, ownerCustomer.id, 'INV-004', 'Issued')
+
+    const result = await markOverdueInvoicesWorkflow({ asOf: new Date('2025-02-15T18:00:00Z') })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value).toBe(2)
+    }
+    const statusOf = async (invoiceId: string) =>
+      (await prisma.salesInvoice.findUniqueOrThrow({ where: { id: invoiceId } })).status
+    expect(await statusOf(pastDue.id)).toBe('Overdue')
+    expect(await statusOf(partlyPaid.id)).toBe('Overdue')
+    expect(await statusOf(dueToday.id)).toBe('Issued')
+    expect(await statusOf(paid.id)).toBe('Paid')
+    expect(await statusOf(noDueDate.id)).toBe('Issued')
+  })
+
+  it('leaves an invoice credited in full alone, though its status still reads Issued', async () => {
+    const owner = await prisma.user.create({ data: { username: 'overdue_owner' } })
+    const customer = await prisma.customer.create({ data: { userId: owner.id, name: 'Acme' } })
+    const revenue = await prisma.account.create({
+      data: { userId: owner.id, code: '401', name: 'Service Revenue', type: 'Revenue', normalBalance: 'Credit' },
+    })
+    const credited = await createTestInvoice(owner.id, customer.id, 'INV-001', 'Issued', '2025-02-01')
+    const partlyCredited = await createTestInvoice(owner.id, customer.id, 'INV-002', 'Issued', '2025-02-01')
+    const creditInvoice = async (invoiceId: string, creditNoteNumber: string, amount: number) => {
+      const entry = await prisma.journalEntry.create({
+        data: { userId: owner.id, description: `Credit note ${creditNoteNumber}`, date: new Date('2025-01-20') },
+      })
+      await prisma.creditNote.create({
+        data: {
+          userId: owner.id,
+          invoiceId,
+          creditNoteNumber,
+          amount,
+          date: new Date('2025-01-20'),
+          revenueAccountId: revenue.id,
+          journalEntryId: entry.id,
+        },
+      })
+    }
+    await creditInvoice(credited.id, 'CN-001', 100)
+    await creditInvoice(partlyCredited.id, 'CN-002', 40)
+
+    const result = await markOverdueInvoicesWorkflow({ asOf: new Date('2025-02-15') })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value).toBe(1)
+    }
+    const statusOf = async (invoiceId: string) =>
+      (await prisma.salesInvoice.findUniqueOrThrow({ where: { id: invoiceId } })).status
+    expect(await statusOf(credited.id)).toBe('Issued')
+    expect(await statusOf(partlyCredited.id)).toBe('Overdue')
+  })
+
+  it('leaves invoices already Overdue alone on the next run', async () => {
+    const owner = await prisma.user.create({ data: { username: 'overdue_owner' } })
+    const customer = await prisma.customer.create({ data: { userId: owner.id, name: 'Acme' } })
+    await createTestInvoice(owner.id, customer.id, 'INV-001', 'Issued', '2025-02-01')
+
+    await markOverdueInvoicesWorkflow({ asOf: new Date('2025-02-15') })
+    const secondRun = await markOverdueInvoicesWorkflow({ asOf: new Date('2025-02-16') })
+
+    expect(secondRun.isSuccess).toBe(true)
+    if (secondRun.isSuccess) {
+      expect(secondRun.value).toBe(0)
+    }
+  })
+})
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { overdueCutoff, hasOpenAmount, OVERDUE_ELIGIBLE_STATUSES } from '../domain/sales'
+import { findSalesInvoiceSettlementsDueBefore, markSalesInvoicesOverdue } from '../infrastructure/salesInvoiceRepo'
+import { Result } from '@/common/types/result'
+
+/**
+ * Workflow input: the moment to check due dates against (the scheduler's clock).
+ */
+export type MarkOverdueInvoicesCommand = {
+  asOf: Date
+}
+
+/**
+ * Mark Overdue Invoices Workflow - Application Layer
+ *
+ * Run by the scheduler for every user's books (no acting user, so no authorization step).
+ * An Issued or PartiallyPaid invoice with something still open falls overdue the day after its due date;
+ * invoices without a due date never do. Payments keep an Overdue invoice Overdue until it is Paid.
+ * Steps:
+ * 1. Work out the cutoff: the start of the as‑of day (pure)
+ * 2. Find the Issued or PartiallyPaid invoices due before the cutoff, with what has been settled on each (infrastructure)
+ * 3. Keep those with something still open; credit notes can settle an invoice without marking it paid (pure)
+ * 4. Move them to Overdue (infrastructure)
+ *
+ * Returns a Promise<Result<number>> with the number of invoices moved.
+ */
+export const markOverdueInvoicesWorkflow = async (command: MarkOverdueInvoicesCommand): Promise<Result<number>> => {
+  // Step 1: Work out the cutoff
+  const cutoff = overdueCutoff(command.asOf)
+
+  // Step 2: Find the invoices past their due date
+  const settlementsResult = await findSalesInvoiceSettlementsDueBefore(OVERDUE_ELIGIBLE_STATUSES, cutoff)
+  if (!settlementsResult.isSuccess) return settlementsResult
+
+  // Step 3: Keep the ones with something still open
+  const openInvoiceIds = settlementsResult.value.filter(hasOpenAmount).map(invoice => invoice.invoiceId)
+
+  // Step 4: Move them to Overdue
+  return markSalesInvoicesOverdue(openInvoiceIds, OVERDUE_ELIGIBLE_STATUSES)
+}
\ No newline at end of file
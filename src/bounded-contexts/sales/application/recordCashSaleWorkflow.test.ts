@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { recordCashSaleWorkflow, RecordCashSaleCommand } from './recordCashSaleWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Sales Context: Record Cash Sale Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string = 'test_user_cash_sale') => {
+    return await prisma.user.create({
+      data: { username }
+    })
+  }
+
+  const createTestCustomer = async (userId: string, name: string = 'Walk-in Customer') => {
+    return await prisma.customer.create({
+      data: {
+        userId,
+        name,
+        balance: 0,
+      }
+    })
+  }
+
+  const createTestAccount = async (userId: string, code: string, name: string, type: 'Asset' | 'Liability' | 'Equity' | 'Revenue' | 'Expense', normalBalance: 'Debit' | 'Credit') => {
+    return await prisma.account.create({
+      data: {
+        userId,
+        code,
+        name,
+        type,
+        normalBalance,
+      }
+    })
+  }
+
+  it('should record a cash sale and post Debit Cash / Credit Service Revenue', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    const cashAccount = await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    const revenueAccount = await createTestAccount(user.id, '401', 'Service Revenue', 'Revenue', 'Credit')
+
+    const command: RecordCashSaleCommand = {
+      userId: user.id,
+      customerId: customer.id,
+      amount: 450.25,
+      date: '2025-01-10',
+      description: 'Walk-in repair',
+    }
+
+    const result = await recordCashSaleWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      const sale = result.value
+      expect(sale.id).toBeDefined()
+      expect(sale.customerId).toBe(customer.id)
+      expect(sale.amount).toBe(450.25)
+      expect(sale.date).toEqual(new Date('2025-01-10'))
+      expect(sale.description).toBe('Walk-in repair')
+
+      const journalEntry = await prisma.journalEntry.findUnique({
+        where: { id: sale.journalEntryId },
+        include: { lines: true }
+      })
+      expect(journalEntry?.description).toBe('Walk-in repair')
+      expect(journalEntry?.lines).toHaveLength(2)
+      const debit = journalEntry?.lines.find(line => line.side === 'Debit')
+      const credit = journalEntry?.lines.find(line => line.side === 'Credit')
+      expect(debit?.accountId).toBe(cashAccount.id)
+      expect(Number(debit?.amount)).toBe(450.25)
+      expect(credit?.accountId).toBe(revenueAccount.id)
+      expect(Number(credit?.amount)).toBe(450.25)
+    }
+
+    // A cash sale leaves the customer's receivable balance untouched
+    const dbCustomer = await prisma.customer.findUnique({ where: { id: customer.id } })
+    expect(Number(dbCustomer?.balance)).toBe(0)
+  })
+
+  it('should default the journal entry description to the customer name', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id, 'Jane Doe')
+    await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    await createTestAccount(user.id, '401', 'Service Revenue', 'Revenue', 'Credit')
+
+    const result = await recordCashSaleWorkflow({ userId: user.id, customerId: customer.id, amount: 100, date: '2025-01-10' })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.description).toBeUndefined()
+      const journalEntry = await prisma.journalEntry.findUnique({ where: { id: result.value.journalEntryId } })
+      expect(journalEntry?.description).toBe('Cash sale to Jane Doe')
+    }
+  })
+
+  it('should reject a non-positive amount without posting', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    await createTestAccount(user.id, '401', 'Service Revenue', 'Revenue', 'Credit')
+
+    const result = await recordCashSaleWorkflow({ userId: user.id, customerId: customer.id, amount: -10, date: '2025-01-10' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('CashSaleAmountMustBePositive')
+    }
+    expect(await prisma.journalEntry.count({ where: { userId: user.id } })).toBe(0)
+  })
+
+  it('should reject a future date', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    const futureDate = new Date()
+    futureDate.setDate(futureDate.getDate() + 7)
+
+    const result = await recordCashSaleWorkflow({ userId: user.id, customerId: customer.id, amount: 100, date: futureDate.toISOString() })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('CashSaleDateInFuture')
+    }
+  })
+
+  it('should fail when the customer belongs to another user', async () => {
+    const owner = await createTestUser('customer_owner')
+    const customer = await createTestCustomer(owner.id)
+    const user = await createTestUser()
+    await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    await createTestAccount(user.id, '401', 'Service Revenue', 'Revenue', 'Credit')
+
+    const result = await recordCashSaleWorkflow({ userId: user.id, customerId: customer.id, amount: 100, date: '2025-01-10' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('CustomerNotFound')
+    }
+  })
+
+  it('should fail when the Service Revenue account is missing', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+
+    const result = await recordCashSaleWorkflow({ userId: user.id, customerId: customer.id, amount: 100, date: '2025-01-10' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountNotFound')
+      expect(result.error.message).toContain('401')
+    }
+    expect(await prisma.cashSale.count()).toBe(0)
+  })
+})
\ No newline at end of file
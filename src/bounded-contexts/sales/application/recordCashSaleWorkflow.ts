@@ -0,0 +1,152 @@
+import { validateCashSale, CashSale, Money } from '../domain/sales'
+import { createCashSale } from '../infrastructure/cashSaleRepo'
+import { findCustomerById } from '../infrastructure/customerRepo'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
+import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
+import { Result, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { SalesDomainSubtype } from '../domain/errors'
+import { JournalLineSide } from '@/bounded-contexts/ledger/domain/ledger'
+import { DEFAULT_ACCOUNT_CODES } from '@/bounded-contexts/ledger/domain/defaultAccounts'
+import { fromNullable as optionFromNullable, getOrElse as optionGetOrElse } from '@/common/types/option'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type RecordCashSaleCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  customerId: string
+  amount: Money
+  date: string // ISO string
+  description?: string
+}
+
+/**
+ * Record Cash Sale Workflow - Application Layer
+ *
+ * A cash sale earns revenue and receives cash at the same time, so it never touches
+ * Accounts Receivable or the customer's subsidiary balance.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate amount and date (pure validation)
+ * 3. Validate that the customer exists and belongs to the user
+ * 4. Find the required accounts (Cash and Default Revenue) by posting role for the user
+ * 5. Create a journal entry for the sale (debit Cash, credit Service Revenue)
+ * 6. Create the cash sale record with the journal entry reference
+ *
+ * Returns a Promise<Result<CashSale>>.
+ */
+export const recordCashSaleWorkflow = async (command: RecordCashSaleCommand): Promise<Result<CashSale>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<CashSale>
+
+  // Step 2: Pure validation
+  const validationResult = validateCashSale({
+    userId: command.userId,
+    customerId: command.customerId,
+    amount: command.amount,
+    date: new Date(command.date),
+    description: command.description,
+  })
+  if (!validationResult.isSuccess) {
+    return validationResult
+  }
+  const sale = validationResult.value
+
+  // Step 3: Validate customer exists
+  const customerResult = await findCustomerById(command.userId, command.customerId)
+  if (!customerResult.isSuccess) {
+    return customerResult
+  }
+  if (customerResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'CustomerNotFound' as SalesDomainSubtype,
+        `Customer ${command.customerId} not found or access denied.`
+      )
+    )
+  }
+
+  // Step 4: Find required accounts
+  const cashAccountResult = await findPostingAccount(command.userId, 'Cash')
+  if (!cashAccountResult.isSuccess) {
+    return cashAccountResult
+  }
+  const cashAccount = cashAccountResult.value
+  if (cashAccount === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as SalesDomainSubtype,
+        `Cash account not found. Map the Cash posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.CASH}.`
+      )
+    )
+  }
+
+  const revenueAccountResult = await findPostingAccount(command.userId, 'DefaultRevenue')
+  if (!revenueAccountResult.isSuccess) {
+    return revenueAccountResult
+  }
+  const revenueAccount = revenueAccountResult.value
+  if (revenueAccount === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as SalesDomainSubtype,
+        `Service Revenue account not found. Map the DefaultRevenue posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.SERVICE_REVENUE}.`
+      )
+    )
+  }
+
+  const description = optionGetOrElse(`Cash sale to ${customerResult.value.name}`)(optionFromNullable(sale.description))
+
+  // Steps 5-6 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    // Step 5: Create journal entry
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `CASH-SALE-${Date.now()}`,
+      description,
+      date: sale.date,
+      lines: [
+        {
+          accountId: cashAccount.id!,
+          amount: sale.amount,
+          side: 'Debit' as JournalLineSide, // Cash increases with debit
+        },
+        {
+          accountId: revenueAccount.id!,
+          amount: sale.amount,
+          side: 'Credit' as JournalLineSide, // Revenue increases with credit
+        },
+      ],
+    }, db)
+
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult
+    }
+    const journalEntry = journalEntryResult.value
+
+    // Step 6: Create cash sale record
+    const saleResult = await createCashSale({
+      userId: command.userId,
+      customerId: command.customerId,
+      amount: sale.amount,
+      date: sale.date,
+      description: sale.description,
+      journalEntryId: journalEntry.id!,
+    }, db)
+
+    if (!saleResult.isSuccess) {
+      return saleResult
+    }
+
+    return saleResult
+  })
+}
\ No newline at end of file
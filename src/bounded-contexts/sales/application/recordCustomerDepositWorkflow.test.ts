@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { recordCustomerDepositWorkflow, RecordCustomerDepositCommand } from './recordCustomerDepositWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Sales Context: Record Customer Deposit Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (username: string = 'test_user_deposit') => {
+    return await prisma.user.create({
+      data: { username }
+    })
+  }
+
+  const createTestCustomer = async (userId: string, name: string = 'Acme Corp') => {
+    return await prisma.customer.create({
+      data: {
+        userId,
+        name,
+        balance: 0,
+      }
+    })
+  }
+
+  const createTestAccount = async (userId: string, code: string, name: string, type: 'Asset' | 'Liability' | 'Equity' | 'Revenue' | 'Expense', normalBalance: 'Debit' | 'Credit') => {
+    return await prisma.account.create({
+      data: {
+        userId,
+        code,
+        name,
+        type,
+        normalBalance,
+      }
+    })
+  }
+
+  it('should record a deposit and post Debit Cash / Credit Unearned Revenue', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    const cashAccount = await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+    const unearnedAccount = await createTestAccount(user.id, '255', 'Unearned Revenue', 'Liability', 'Credit')
+
+    const command: RecordCustomerDepositCommand = {
+      userId: user.id,
+      customerId: customer.id,
+      amount: 800,
+      date: '2025-01-05',
+      description: 'Retainer',
+    }
+
+    const result = await recordCustomerDepositWorkflow(command)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      const deposit = result.value
+      expect(deposit.id).toBeDefined()
+      expect(deposit.customerId).toBe(customer.id)
+      expect(deposit.amount).toBe(800)
+      expect(deposit.description).toBe('Retainer')
+
+      const journalEntry = await prisma.journalEntry.findUnique({
+        where: { id: deposit.journalEntryId },
+        include: { lines: true }
+      })
+      expect(journalEntry?.lines).toHaveLength(2)
+      expect(journalEntry?.lines.find(line => line.side === 'Debit')?.accountId).toBe(cashAccount.id)
+      expect(journalEntry?.lines.find(line => line.side === 'Credit')?.accountId).toBe(unearnedAccount.id)
+    }
+
+    // A deposit is a liability, not a receivable
+    const dbCustomer = await prisma.customer.findUnique({ where: { id: customer.id } })
+    expect(Number(dbCustomer?.balance)).toBe(0)
+  })
+
+  it('should reject a non-positive amount', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+
+    const result = await recordCustomerDepositWorkflow({ userId: user.id, customerId: customer.id, amount: 0, date: '2025-01-05' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('DepositAmountMustBePositive')
+    }
+  })
+
+  it('should fail when the customer does not exist', async () => {
+    const user = await createTestUser()
+
+    const result = await recordCustomerDepositWorkflow({ userId: user.id, customerId: 'missing-customer', amount: 100, date: '2025-01-05' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('CustomerNotFound')
+    }
+  })
+
+  it('should fail when the Unearned Revenue account is missing', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    await createTestAccount(user.id, '101', 'Cash', 'Asset', 'Debit')
+
+    const result = await recordCustomerDepositWorkflow({ userId: user.id, customerId: customer.id, amount: 100, date: '2025-01-05' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('AccountNotFound')
+      expect(result.error.message).toContain('255')
+    }
+    expect(await prisma.customerDeposit.count()).toBe(0)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,152 @@
+import { validateCustomerDeposit, CustomerDeposit, Money } from '../domain/sales'
+import { createCustomerDeposit } from '../infrastructure/customerDepositRepo'
+import { findCustomerById } from '../infrastructure/customerRepo'
+import { findPostingAccount } from '@/bounded-contexts/ledger/infrastructure/postingMappingRepo'
+import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
+import { Result, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { SalesDomainSubtype } from '../domain/errors'
+import { JournalLineSide } from '@/bounded-contexts/ledger/domain/ledger'
+import { DEFAULT_ACCOUNT_CODES } from '@/bounded-contexts/ledger/domain/defaultAccounts'
+import { fromNullable as optionFromNullable, getOrElse as optionGetOrElse } from '@/common/types/option'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type RecordCustomerDepositCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  customerId: string
+  amount: Money
+  date: string // ISO string
+  description?: string
+}
+
+/**
+ * Record Customer Deposit Workflow - Application Layer
+ *
+ * A deposit is cash received before the work is done, so it is a liability (Unearned Revenue)
+ * until it is applied to an invoice. The customer's receivable balance is not changed.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate amount and date (pure validation)
+ * 3. Validate that the customer exists and belongs to the user
+ * 4. Find the required accounts (Cash and Unearned Revenue) by posting role for the user
+ * 5. Create a journal entry for the deposit (debit Cash, credit Unearned Revenue)
+ * 6. Create the customer deposit record with the journal entry reference
+ *
+ * Returns a Promise<Result<CustomerDeposit>>.
+ */
+export const recordCustomerDepositWorkflow = async (command: RecordCustomerDepositCommand): Promise<Result<CustomerDeposit>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<CustomerDeposit>
+
+  // Step 2: Pure validation
+  const validationResult = validateCustomerDeposit({
+    userId: command.userId,
+    customerId: command.customerId,
+    amount: command.amount,
+    date: new Date(command.date),
+    description: command.description,
+  })
+  if (!validationResult.isSuccess) {
+    return validationResult
+  }
+  const deposit = validationResult.value
+
+  // Step 3: Validate customer exists
+  const customerResult = await findCustomerById(command.userId, command.customerId)
+  if (!customerResult.isSuccess) {
+    return customerResult
+  }
+  if (customerResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'CustomerNotFound' as SalesDomainSubtype,
+        `Customer ${command.customerId} not found or access denied.`
+      )
+    )
+  }
+
+  // Step 4: Find required accounts
+  const cashAccountResult = await findPostingAccount(command.userId, 'Cash')
+  if (!cashAccountResult.isSuccess) {
+    return cashAccountResult
+  }
+  const cashAccount = cashAccountResult.value
+  if (cashAccount === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as SalesDomainSubtype,
+        `Cash account not found. Map the Cash posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.CASH}.`
+      )
+    )
+  }
+
+  const unearnedAccountResult = await findPostingAccount(command.userId, 'UnearnedRevenue')
+  if (!unearnedAccountResult.isSuccess) {
+    return unearnedAccountResult
+  }
+  const unearnedAccount = unearnedAccountResult.value
+  if (unearnedAccount === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as SalesDomainSubtype,
+        `Unearned Revenue account not found. Map the UnearnedRevenue posting role or add an account with code ${DEFAULT_ACCOUNT_CODES.UNEARNED_REVENUE}.`
+      )
+    )
+  }
+
+  const description = optionGetOrElse(`Deposit from ${customerResult.value.name}`)(optionFromNullable(deposit.description))
+
+  // Steps 5-6 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    // Step 5: Create journal entry
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `DEP-${Date.now()}`,
+      description,
+      date: deposit.date,
+      lines: [
+        {
+          accountId: cashAccount.id!,
+          amount: deposit.amount,
+          side: 'Debit' as JournalLineSide, // Cash increases with debit
+        },
+        {
+          accountId: unearnedAccount.id!,
+          amount: deposit.amount,
+          side: 'Credit' as JournalLineSide, // Liability increases with credit
+        },
+      ],
+    }, db)
+
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult
+    }
+    const journalEntry = journalEntryResult.value
+
+    // Step 6: Create customer deposit record
+    const depositResult = await createCustomerDeposit({
+      userId: command.userId,
+      customerId: command.customerId,
+      amount: deposit.amount,
+      date: deposit.date,
+      description: deposit.description,
+      journalEntryId: journalEntry.id!,
+    }, db)
+
+    if (!depositResult.isSuccess) {
+      return depositResult
+    }
+
+    return depositResult
+  })
+}
\ No newline at end of file
@@ -0,0 +1,134 @@
+import {
+  validateItemName,
+  validateItemSku,
+  validateItemDefaultPrice,
+  validateRevenueAccount,
+  validateItemExpenseAccount,
+  Item,
+  Money,
+} from '../domain/sales'
+import { findItemById, findItemBySku, updateItem, ItemChanges } from '../infrastructure/itemRepo'
+import { findAccountById } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { Account } from '@/bounded-contexts/ledger/domain/ledger'
+import { Failure, Result } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { SalesDomainSubtype } from '../domain/errors'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ * Optional defaults can be cleared with null.
+ */
+export type UpdateItemCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  itemId: string
+  name?: string
+  sku?: string
+  defaultPrice?: Money | null
+  revenueAccountId?: string | null
+  expenseAccountId?: string | null
+}
+
+// Retrieve one of the user's accounts and check it can back the item
+const findItemAccount = async (
+  userId: string,
+  accountId: string,
+  validateAccount: (account: Account) => Result<Account>
+): Promise<Result<Account>> => {
+  const accountResult = await findAccountById(userId, accountId)
+  if (!accountResult.isSuccess) return accountResult
+  if (accountResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'AccountNotFound' as SalesDomainSubtype,
+        `Account ${accountId} not found or does not belong to the user`
+      )
+    )
+  }
+  return validateAccount(accountResult.value)
+}
+
+/**
+ * Update Item Workflow - Application Layer
+ *
+ * Changes a catalog item's name, SKU, default price or accounts.
+ * Invoice lines and bills already recorded keep their own values and journal entries.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate the changed name, SKU and default price (pure)
+ * 3. Retrieve the item (infrastructure)
+ * 4. Validate the new SKU is not used by another item (infrastructure)
+ * 5. Retrieve and validate the new revenue and expense accounts, if given (infrastructure + pure)
+ * 6. Persist the changes (infrastructure)
+ *
+ * Returns a Promise<Result<Item>>.
+ */
+export const updateItemWorkflow = async (command: UpdateItemCommand): Promise<Result<Item>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'ManageAccounts',
+  })
+  if (!authorization.isSuccess) return authorization as Result<Item>
+
+  // Step 2: Pure validation
+  const changes: ItemChanges = {}
+  if (command.name !== undefined) {
+    const nameValidation = validateItemName(command.name)
+    if (!nameValidation.isSuccess) return nameValidation as Result<Item>
+    changes.name = nameValidation.value
+  }
+  if (command.sku !== undefined) {
+    const skuValidation = validateItemSku(command.sku)
+    if (!skuValidation.isSuccess) return skuValidation as Result<Item>
+    changes.sku = skuValidation.value
+  }
+  if (command.defaultPrice !== undefined && command.defaultPrice !== null) {
+    const priceValidation = validateItemDefaultPrice(command.defaultPrice)
+    if (!priceValidation.isSuccess) return priceValidation as Result<Item>
+  }
+  if (command.defaultPrice !== undefined) changes.defaultPrice = command.defaultPrice
+
+  // Step 3: Retrieve item
+  const itemResult = await findItemById(command.userId, command.itemId)
+  if (!itemResult.isSuccess) return itemResult as Result<Item>
+  if (itemResult.value === null) {
+    return Failure(
+      DomainFailure(
+        'ItemNotFound' as SalesDomainSubtype,
+        `Item ${command.itemId} not found or does not belong to the user`
+      )
+    )
+  }
+
+  // Step 4: Validate SKU uniqueness
+  if (changes.sku !== undefined && changes.sku !== itemResult.value.sku) {
+    const existingResult = await findItemBySku(command.userId, changes.sku)
+    if (!existingResult.isSuccess) return existingResult as Result<Item>
+    if (existingResult.value !== null) {
+      return Failure(
+        DomainFailure(
+          'DuplicateItemSku' as SalesDomainSubtype,
+          `An item with SKU ${changes.sku} already exists for this user.`
+        )
+      )
+    }
+  }
+
+  // Step 5: Retrieve and validate the new accounts
+  if (command.revenueAccountId !== undefined && command.revenueAccountId !== null) {
+    const revenueAccountResult = await findItemAccount(command.userId, command.revenueAccountId, validateRevenueAccount)
+    if (!revenueAccountResult.isSuccess) return revenueAccountResult as Result<Item>
+  }
+  if (command.revenueAccountId !== undefined) changes.revenueAccountId = command.revenueAccountId
+  if (command.expenseAccountId !== undefined && command.expenseAccountId !== null) {
+    const expenseAccountResult = await findItemAccount(command.userId, command.expenseAccountId, validateItemExpenseAccount)
+    if (!expenseAccountResult.isSuccess) return expenseAccountResult as Result<Item>
+  }
+  if (command.expenseAccountId !== undefined) changes.expenseAccountId = command.expenseAccountId
+
+  // Step 6: Persist
+  return updateItem(command.userId, command.itemId, changes)
+}
\ No newline at end of file
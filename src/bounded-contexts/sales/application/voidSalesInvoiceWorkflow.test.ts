@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { voidSalesInvoiceWorkflow } from './voidSalesInvoiceWorkflow'
+import { createCustomerWorkflow } from './createCustomerWorkflow'
+import { issueSalesInvoiceWorkflow } from './issueSalesInvoiceWorkflow'
+import { applyPaymentToInvoiceWorkflow } from './applyPaymentToInvoiceWorkflow'
+import { createAccount } from '@/bounded-contexts/ledger/infrastructure/accountRepo'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Sales Context: Void Sales Invoice Workflow (Integration)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    // Child tables first
+    await prisma.period.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.creditNote.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  // A user with Cash (101), Accounts Receivable (111) and Service Revenue (401), a customer and an invoice of 500
+  const setupIssuedInvoice = async () => {
+    const user = await prisma.user.create({ data: { id: 'test-user-123', username: 'testuser123' } })
+    await createAccount({ userId: user.id, code: '101', name: 'Cash', type: 'Asset', normalBalance: 'Debit' })
+    await createAccount({ userId: user.id, code: '111', name: 'Accounts Receivable', type: 'Asset', normalBalance: 'Debit' })
+    await createAccount({ userId: user.id, code: '401', name: 'Service Revenue', type: 'Revenue', normalBalance: 'Credit' })
+
+    const customerResult = await createCustomerWorkflow({ userId: user.id, name: 'Test Customer' })
+    if (!customerResult.isSuccess) throw new Error('customer setup failed')
+    const invoiceResult = await issueSalesInvoiceWorkflow({
+      userId: user.id,
+      customerId: customerResult.value.id!,
+      invoiceNumber: 'INV-001',
+      total: 500,
+      date: '2025-01-15T00:00:00Z',
+    })
+    if (!invoiceResult.isSuccess) throw new Error('invoice setup failed')
+    return { user, customer: customerResult.value, invoice: invoiceResult.value }
+  }
+
+  it('should void an unpaid invoice, reversing its journal entry and restoring the customer balance', async () => {
+    const { user, customer, invoice } = await setupIssuedInvoice()
+
+    const result = await voidSalesInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      date: '2025-01-20T00:00:00Z',
+      reason: 'Issued to the wrong customer',
+    })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.status).toBe('Void')
+      expect(result.value.voidedAt).toEqual(new Date('2025-01-20T00:00:00Z'))
+    }
+
+    const updatedCustomer = await prisma.customer.findUnique({ where: { id: customer.id! } })
+    expect(Number(updatedCustomer!.balance)).toBe(0)
+
+    const reversal = await prisma.journalEntry.findUnique({
+      where: { reversesEntryId: invoice.journalEntryId },
+      include: { lines: { include: { account: true } } },
+    })
+    expect(reversal).not.toBeNull()
+    expect(reversal!.description).toBe('Void of invoice INV-001: Issued to the wrong customer')
+    const sides = Object.fromEntries(reversal!.lines.map(line => [line.account.code, [line.side, Number(line.amount)]]))
+    expect(sides).toEqual({ '111': ['Credit', 500], '401': ['Debit', 500] })
+  })
+
+  it('should reject voiding an invoice that has a payment applied', async () => {
+    const { user, customer, invoice } = await setupIssuedInvoice()
+    const paymentResult = await applyPaymentToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      amount: 100,
+      date: '2025-01-16T00:00:00Z',
+      method: 'Cash',
+    })
+    expect(paymentResult.isSuccess).toBe(true)
+
+    const result = await voidSalesInvoiceWorkflow({ userId: user.id, invoiceId: invoice.id!, date: '2025-01-20T00:00:00Z' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvoiceNotVoidable')
+    }
+    const unchangedCustomer = await prisma.customer.findUnique({ where: { id: customer.id! } })
+    expect(Number(unchangedCustomer!.balance)).toBe(400)
+  })
+
+  it('should reject voiding an invoice twice, and payments on a void invoice', async () => {
+    const { user, invoice } = await setupIssuedInvoice()
+    const first = await voidSalesInvoiceWorkflow({ userId: user.id, invoiceId: invoice.id!, date: '2025-01-20T00:00:00Z' })
+    expect(first.isSuccess).toBe(true)
+
+    const second = await voidSalesInvoiceWorkflow({ userId: user.id, invoiceId: invoice.id!, date: '2025-01-21T00:00:00Z' })
+    expect(second.isSuccess).toBe(false)
+    if (!second.isSuccess) {
+      expect(second.error.subtype).toBe('InvoiceVoided')
+    }
+
+    const payment = await applyPaymentToInvoiceWorkflow({
+      userId: user.id,
+      invoiceId: invoice.id!,
+      amount: 100,
+      date: '2025-01-22T00:00:00Z',
+      method: 'Cash',
+    })
+    expect(payment.isSuccess).toBe(false)
+    if (!payment.isSuccess) {
+      expect(payment.error.subtype).toBe('InvoiceVoided')
+    }
+  })
+
+  it('should reject a void date before the invoice date', async () => {
+    const { user, invoice } = await setupIssuedInvoice()
+
+    const result = await voidSalesInvoiceWorkflow({ userId: user.id, invoiceId: invoice.id!, date: '2025-01-10T00:00:00Z' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvalidReversalDate')
+    }
+  })
+
+  it('should return InvoiceNotFound for an invoice of another user', async () => {
+    const { invoice } = await setupIssuedInvoice()
+    const otherUser = await prisma.user.create({ data: { id: 'other-user', username: 'otheruser' } })
+
+    const result = await voidSalesInvoiceWorkflow({ userId: otherUser.id, invoiceId: invoice.id!, date: '2025-01-20T00:00:00Z' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('InvoiceNotFound')
+    }
+  })
+})
\ No newline at end of file
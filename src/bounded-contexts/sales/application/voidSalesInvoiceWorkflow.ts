@@ -0,0 +1,163 @@
+import { SalesInvoice, validateCreditNoteDateNotFuture, validateAdjustmentReason, validateInvoiceVoidable, validateInvoiceNotVoid } from '../domain/sales'
+import { findSalesInvoiceById, findSalesInvoiceByIdForUpdate, voidSalesInvoice } from '../infrastructure/salesInvoiceRepo'
+import { getTotalPaidForInvoice } from '../infrastructure/paymentRepo'
+import { getTotalDepositsAppliedToInvoice } from '../infrastructure/depositApplicationRepo'
+import { getTotalCreditedForInvoice } from '../infrastructure/creditNoteRepo'
+import { updateCustomerBalance } from '../infrastructure/customerRepo'
+import { createJournalEntry, findJournalEntryById } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
+import { validateJournalEntryReversible, reverseJournalLines } from '@/bounded-contexts/ledger/domain/ledger'
+import { LedgerDomainSubtype } from '@/bounded-contexts/ledger/domain/errors'
+import { Result, Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { SalesDomainSubtype } from '../domain/errors'
+import { runInUnitOfWork } from '@/common/infrastructure/unitOfWork'
+import { authorizeBookActionWorkflow } from '@/bounded-contexts/identity/application/authorizeBookActionWorkflow'
+
+/**
+ * Workflow input: raw data from command (API request).
+ */
+export type VoidSalesInvoiceCommand = {
+  userId: string
+  actingUserId?: string // defaults to userId (the book owner)
+  invoiceId: string
+  date: string // ISO string, the date the revenue entry is reversed on
+  reason?: string
+}
+
+/**
+ * Void Sales Invoice Workflow - Application Layer
+ *
+ * Cancels an unpaid invoice: its revenue journal entry is reversed and the customer no longer owes the total.
+ * The invoice is kept, with status Void, so its number stays taken and its history stays visible.
+ * Steps:
+ * 1. Check the acting user's role on the owner's books (authorization)
+ * 2. Validate the void date and reason (pure validation)
+ * 3. Find the invoice and ensure it belongs to the user and is not void yet
+ * 4. Find the invoice's journal entry and ensure it can be reversed on the void date
+ * 5. Lock the invoice and re-read it, so settlements or a void committed since step 3 are seen
+ * 6. Ensure nothing has been settled against it yet (payments, deposits or credit notes) (business rule)
+ * 7. Create the reversal journal entry (debit Revenue and Tax, credit Accounts Receivable)
+ * 8. Update invoice status to Void, recording the void date
+ * 9. Update customer subsidiary balance (decrease Accounts Receivable by the invoice total)
+ *
+ * Returns a Promise<Result<SalesInvoice>> with the voided invoice.
+ */
+export const voidSalesInvoiceWorkflow = async (command: VoidSalesInvoiceCommand): Promise<Result<SalesInvoice>> => {
+  // Step 1: Check the acting user's role on the owner's books
+  const authorization = await authorizeBookActionWorkflow({
+    actingUserId: command.actingUserId ?? command.userId,
+    ownerId: command.userId,
+    action: 'PostTransactions',
+  })
+  if (!authorization.isSuccess) return authorization as Result<SalesInvoice>
+
+  // Step 2: Pure validation
+  const dateResult = validateCreditNoteDateNotFuture(new Date(command.date))
+  if (!dateResult.isSuccess) return dateResult as Result<SalesInvoice>
+  const date = dateResult.value
+
+  const reasonResult = validateAdjustmentReason(command.reason)
+  if (!reasonResult.isSuccess) return reasonResult as Result<SalesInvoice>
+  const reason = reasonResult.value
+
+  // Step 3: Find invoice
+  const invoiceResult = await findSalesInvoiceById(command.userId, command.invoiceId)
+  if (!invoiceResult.isSuccess) {
+    return invoiceResult as Result<SalesInvoice>
+  }
+  const invoice = invoiceResult.value
+  if (invoice === null) {
+    return Failure(
+      DomainFailure(
+        'InvoiceNotFound' as SalesDomainSubtype,
+        `Invoice ${command.invoiceId} not found or access denied.`
+      )
+    )
+  }
+  const notVoidResult = validateInvoiceNotVoid(invoice)
+  if (!notVoidResult.isSuccess) return notVoidResult
+
+  // Step 4: Find the invoice's journal entry
+  const entryResult = await findJournalEntryById(command.userId, invoice.journalEntryId)
+  if (!entryResult.isSuccess) {
+    return entryResult as Result<SalesInvoice>
+  }
+  const entry = entryResult.value
+  if (entry === null) {
+    return Failure(
+      DomainFailure(
+        'JournalEntryNotFound' as LedgerDomainSubtype,
+        `Journal entry ${invoice.journalEntryId} of invoice ${invoice.invoiceNumber} not found.`
+      )
+    )
+  }
+  const reversibleResult = validateJournalEntryReversible(entry, date)
+  if (!reversibleResult.isSuccess) return reversibleResult as Result<SalesInvoice>
+
+  // Steps 5-9 run as one unit of work: if any of them fails, all of them are rolled back
+  return runInUnitOfWork(async (db) => {
+    // Step 5: Lock the invoice so a void and concurrent settlements of it run one after the other
+    const currentInvoiceResult = await findSalesInvoiceByIdForUpdate(command.userId, command.invoiceId, db)
+    if (!currentInvoiceResult.isSuccess) {
+      return currentInvoiceResult as Result<SalesInvoice>
+    }
+    const currentInvoice = currentInvoiceResult.value
+    if (currentInvoice === null) {
+      return Failure(
+        DomainFailure(
+          'InvoiceNotFound' as SalesDomainSubtype,
+          `Invoice ${command.invoiceId} not found or access denied.`
+        )
+      )
+    }
+
+    // Step 6: Only unpaid invoices can be voided
+    const totalPaidResult = await getTotalPaidForInvoice(command.userId, command.invoiceId, db)
+    if (!totalPaidResult.isSuccess) {
+      return totalPaidResult as Result<SalesInvoice>
+    }
+    const depositsAppliedResult = await getTotalDepositsAppliedToInvoice(command.userId, command.invoiceId, db)
+    if (!depositsAppliedResult.isSuccess) {
+      return depositsAppliedResult as Result<SalesInvoice>
+    }
+    const creditedResult = await getTotalCreditedForInvoice(command.userId, command.invoiceId, db)
+    if (!creditedResult.isSuccess) {
+      return creditedResult as Result<SalesInvoice>
+    }
+    const settledAmount = totalPaidResult.value + depositsAppliedResult.value + creditedResult.value
+
+    const voidableResult = validateInvoiceVoidable(currentInvoice, settledAmount)
+    if (!voidableResult.isSuccess) return voidableResult
+
+    // Step 7: Create reversal journal entry
+    const description = reason === undefined
+      ? `Void of invoice ${invoice.invoiceNumber}`
+      : `Void of invoice ${invoice.invoiceNumber}: ${reason}`
+    const journalEntryResult = await createJournalEntry({
+      userId: command.userId,
+      entryNumber: `VOID-${invoice.invoiceNumber}`,
+      description,
+      date,
+      reversesEntryId: entry.id,
+      lines: reverseJournalLines(entry.lines),
+    }, db)
+
+    if (!journalEntryResult.isSuccess) {
+      return journalEntryResult as Result<SalesInvoice>
+    }
+
+    // Step 8: Update invoice status
+    const statusUpdateResult = await voidSalesInvoice(command.userId, command.invoiceId, date, db)
+    if (!statusUpdateResult.isSuccess) {
+      return statusUpdateResult
+    }
+
+    // Step 9: Update customer balance (decrease Accounts Receivable)
+    const balanceUpdateResult = await updateCustomerBalance(command.userId, invoice.customerId, -invoice.total, db)
+    if (!balanceUpdateResult.isSuccess) {
+      return balanceUpdateResult as Result<SalesInvoice>
+    }
+
+    return Success(statusUpdateResult.value)
+  })
+}
\ No newline at end of file
@@ -16,6 +16,7 @@ export type SalesDomainSubtype =
   | 'DepositAmountMustBePositive'
   | 'CustomerNotFound'
   | 'InvoiceNotFound'
+  | 'CashSaleNotFound'
   | 'DuplicateInvoiceNumber'
   | 'InvalidDueDate'
   | 'InvalidPaymentAmount'
@@ -23,6 +24,38 @@ export type SalesDomainSubtype =
   | 'InvalidPaymentDate'
   | 'CashSaleDateInFuture'
   | 'InvalidCashSaleDate'
+  | 'DepositNotFound'
+  | 'DepositDateInFuture'
+  | 'InvalidDepositDate'
+  | 'InvalidDepositApplicationAmount'
+  | 'DepositApplicationExceedsAvailable'
+  | 'InvoiceLinesMissing'
+  | 'InvalidLineDescription'
+  | 'InvalidLineQuantity'
+  | 'InvalidLineUnitPrice'
+  | 'InvoiceTotalMismatch'
+  | 'InvalidRevenueAccount'
+  | 'AccountNotFound'
+  | 'InvalidItemName'
+  | 'InvalidItemSku'
+  | 'InvalidItemDefaultPrice'
+  | 'InvalidItemExpenseAccount'
+  | 'ItemNotFound'
+  | 'DuplicateItemSku'
+  | 'InvalidTaxRateName'
+  | 'InvalidTaxRatePercentage'
+  | 'InvalidTaxRateAccount'
+  | 'TaxRateNotFound'
+  | 'DuplicateTaxRate'
+  | 'InvoiceVoided'
+  | 'InvoiceNotVoidable'
+  | 'InvalidCreditNoteNumber'
+  | 'InvalidCreditNoteAmount'
+  | 'CreditNoteDateInFuture'
+  | 'InvalidCreditNoteDate'
+  | 'InvalidAdjustmentReason'
+  | 'CreditNoteExceedsOpenAmount'
+  | 'DuplicateCreditNoteNumber'
 
 export type SalesInfrastructureSubtype =
   | 'CustomerRepositoryError'
@@ -30,6 +63,10 @@ export type SalesInfrastructureSubtype =
   | 'PaymentRepositoryError'
   | 'CashSaleRepositoryError'
   | 'CustomerDepositRepositoryError'
+  | 'DepositApplicationRepositoryError'
+  | 'ItemRepositoryError'
+  | 'TaxRateRepositoryError'
+  | 'CreditNoteRepositoryError'
   | 'DatabaseConnectionError'
   | 'DuplicateKey'
 
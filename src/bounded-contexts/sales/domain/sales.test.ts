@@ -11,6 +11,31 @@ import {
   validatePaymentDoesNotExceedOpenAmount,
   validateCustomer,
   validateSalesInvoice,
+  validateCashSale,
+  validateCustomerDeposit,
+  validateDepositApplicationAmount,
+  validateInvoiceLine,
+  validateInvoiceLines,
+  calculateInvoiceTotal,
+  validateInvoiceTotalMatchesLines,
+  validateRevenueAccount,
+  groupRevenueByAccount,
+  validateItem,
+  validateItemExpenseAccount,
+  applyItemDefaults,
+  validateTaxRate,
+  validateTaxRateAccount,
+  applyTaxRates,
+  groupTaxByAccount,
+  overdueCutoff,
+  isInvoiceOverdue,
+  statusAfterSettlement,
+  hasOpenAmount,
+  validateInvoiceNotVoid,
+  validateInvoiceVoidable,
+  validateCreditNote,
+  validateCreditNoteDoesNotExceedOpenAmount,
+  splitCreditNoteByTax,
   InvoiceStatus as InvoiceStatusConst,
 } from './sales'
 import { Success } from '@/common/types/result'
@@ -405,4 +430,522 @@ describe('Sales Domain Validation Functions', () => {
       expect(result.isSuccess).toBe(true)
     })
   })
+
+  describe('validateCashSale', () => {
+    const saleInput = {
+      userId: 'user-123',
+      customerId: 'cust-456',
+      amount: 250,
+      date: new Date('2025-01-15'),
+      description: 'Walk-in consultation',
+    }
+
+    it('should accept a valid cash sale', () => {
+      const result = validateCashSale(saleInput)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.amount).toBe(250)
+        expect(result.value.journalEntryId).toBe('')
+      }
+    })
+
+    it('should reject a non-positive amount', () => {
+      const result = validateCashSale({ ...saleInput, amount: 0 })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('CashSaleAmountMustBePositive')
+      }
+    })
+
+    it('should reject a future date', () => {
+      const futureDate = new Date()
+      futureDate.setDate(futureDate.getDate() + 1)
+      const result = validateCashSale({ ...saleInput, date: futureDate })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('CashSaleDateInFuture')
+      }
+    })
+
+    it('should reject an invalid date', () => {
+      const result = validateCashSale({ ...saleInput, date: new Date('invalid') })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidCashSaleDate')
+      }
+    })
+  })
+
+  describe('validateCustomerDeposit', () => {
+    const depositInput = {
+      userId: 'user-123',
+      customerId: 'cust-456',
+      amount: 500,
+      date: new Date('2025-01-05'),
+      description: 'Retainer for website build',
+    }
+
+    it('should accept a valid deposit', () => {
+      const result = validateCustomerDeposit(depositInput)
+      expect(result.isSuccess).toBe(true)
+    })
+
+    it('should reject a non-positive amount', () => {
+      const result = validateCustomerDeposit({ ...depositInput, amount: -5 })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('DepositAmountMustBePositive')
+      }
+    })
+
+    it('should reject a future date', () => {
+      const futureDate = new Date()
+      futureDate.setDate(futureDate.getDate() + 1)
+      const result = validateCustomerDeposit({ ...depositInput, date: futureDate })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('DepositDateInFuture')
+      }
+    })
+  })
+
+  describe('validateDepositApplicationAmount', () => {
+    it('should accept an amount within both the available and open amounts', () => {
+      expect(validateDepositApplicationAmount(300, 500, 300)).toEqual(Success(300))
+    })
+
+    it('should reject a non-positive amount', () => {
+      const result = validateDepositApplicationAmount(0, 500, 300)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidDepositApplicationAmount')
+      }
+    })
+
+    it('should reject an amount above what is left on the deposit', () => {
+      const result = validateDepositApplicationAmount(300, 200, 1000)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('DepositApplicationExceedsAvailable')
+      }
+    })
+
+    it('should reject an amount above the invoice open amount', () => {
+      const result = validateDepositApplicationAmount(300, 500, 250)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('PaymentExceedsOpenAmount')
+      }
+    })
+  })
+
+  describe('validateInvoiceLine', () => {
+    it('should accept a valid line and compute its amount', () => {
+      const result = validateInvoiceLine({ description: 'Widgets', quantity: 3, unitPrice: 19.5 }, 1)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value).toMatchObject({ lineNumber: 1, description: 'Widgets', amount: 58.5 })
+      }
+    })
+
+    it('should reject a non-positive quantity and name the line', () => {
+      const result = validateInvoiceLine({ description: 'Widgets', quantity: 0, unitPrice: 10 }, 2)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidLineQuantity')
+        expect(result.error.message).toMatch(/^Line 2: /)
+      }
+    })
+
+    it('should reject an empty description', () => {
+      const result = validateInvoiceLine({ description: '', quantity: 1, unitPrice: 10 }, 1)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidLineDescription')
+      }
+    })
+
+    it('should reject a unit price with more than two decimals', () => {
+      const result = validateInvoiceLine({ description: 'Widgets', quantity: 1, unitPrice: 10.001 }, 1)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidLineUnitPrice')
+      }
+    })
+  })
+
+  describe('validateInvoiceLines', () => {
+    it('should number the lines in the order given', () => {
+      const result = validateInvoiceLines([
+        { description: 'Setup', quantity: 1, unitPrice: 250 },
+        { description: 'Support', quantity: 2, unitPrice: 40 },
+      ])
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.map(line => line.lineNumber)).toEqual([1, 2])
+      }
+    })
+
+    it('should reject an empty list of lines', () => {
+      const result = validateInvoiceLines([])
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvoiceLinesMissing')
+      }
+    })
+  })
+
+  describe('calculateInvoiceTotal and validateInvoiceTotalMatchesLines', () => {
+    const lines = [
+      { lineNumber: 1, description: 'A', quantity: 1, unitPrice: 0.1, amount: 0.1 },
+      { lineNumber: 2, description: 'B', quantity: 1, unitPrice: 0.2, amount: 0.2 },
+    ]
+
+    it('should sum the line amounts to the cent', () => {
+      expect(calculateInvoiceTotal(lines)).toBe(0.3)
+    })
+
+    it('should accept a missing or matching total', () => {
+      expect(validateInvoiceTotalMatchesLines(undefined, 0.3)).toEqual(Success(0.3))
+      expect(validateInvoiceTotalMatchesLines(0.3, 0.3)).toEqual(Success(0.3))
+    })
+
+    it('should reject a total that differs from the lines', () => {
+      const result = validateInvoiceTotalMatchesLines(0.4, 0.3)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvoiceTotalMismatch')
+      }
+    })
+  })
+
+  describe('validateRevenueAccount', () => {
+    const account = {
+      id: 'acc-1',
+      userId: 'user-1',
+      code: '401',
+      name: 'Service Revenue',
+      type: 'Revenue' as const,
+      normalBalance: 'Credit' as const,
+    }
+
+    it('should accept an active revenue account', () => {
+      expect(validateRevenueAccount(account).isSuccess).toBe(true)
+    })
+
+    it('should reject an account that is not a revenue account', () => {
+      const result = validateRevenueAccount({ ...account, code: '101', type: 'Asset', normalBalance: 'Debit' })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidRevenueAccount')
+      }
+    })
+  })
+
+  describe('groupRevenueByAccount', () => {
+    it('should total the lines per revenue account in first-seen order', () => {
+      const shares = groupRevenueByAccount([
+        { lineNumber: 1, description: 'A', quantity: 1, unitPrice: 100, amount: 100, revenueAccountId: 'rev-2' },
+        { lineNumber: 2, description: 'B', quantity: 1, unitPrice: 50.25, amount: 50.25, revenueAccountId: 'rev-1' },
+        { lineNumber: 3, description: 'C', quantity: 1, unitPrice: 10.1, amount: 10.1, revenueAccountId: 'rev-2' },
+      ])
+      expect(shares).toEqual([
+        { accountId: 'rev-2', amount: 110.1 },
+        { accountId: 'rev-1', amount: 50.25 },
+      ])
+    })
+  })
+
+  describe('validateItem', () => {
+    it('should accept an item with only a name and SKU', () => {
+      const result = validateItem({ userId: 'user-1', name: ' Widget ', sku: 'WID-001' })
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value.name).toBe('Widget')
+      }
+    })
+
+    it('should reject an empty SKU', () => {
+      const result = validateItem({ userId: 'user-1', name: 'Widget', sku: '' })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidItemSku')
+      }
+    })
+
+    it('should reject a non-positive default price', () => {
+      const result = validateItem({ userId: 'user-1', name: 'Widget', sku: 'WID-001', defaultPrice: 0 })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidItemDefaultPrice')
+      }
+    })
+  })
+
+  describe('validateItemExpenseAccount', () => {
+    it('should reject an account that is not an Expense account', () => {
+      const result = validateItemExpenseAccount({
+        userId: 'user-1',
+        code: '401',
+        name: 'Service Revenue',
+        type: 'Revenue',
+        normalBalance: 'Credit',
+      })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidItemExpenseAccount')
+      }
+    })
+  })
+
+  describe('applyItemDefaults', () => {
+    const item = {
+      id: 'item-1',
+      userId: 'user-1',
+      name: 'Widget',
+      sku: 'WID-001',
+      defaultPrice: 20,
+      revenueAccountId: 'rev-1',
+    }
+
+    it('should fill in the fields the line leaves out', () => {
+      expect(applyItemDefaults({ itemId: 'item-1', quantity: 2 }, item)).toEqual({
+        itemId: 'item-1',
+        quantity: 2,
+        description: 'Widget',
+        unitPrice: 20,
+        revenueAccountId: 'rev-1',
+      })
+    })
+
+    it('should keep the fields given on the line', () => {
+      const line = applyItemDefaults(
+        { itemId: 'item-1', description: 'Blue widget', quantity: 1, unitPrice: 25, revenueAccountId: 'rev-2' },
+        item
+      )
+      expect(line).toMatchObject({ description: 'Blue widget', unitPrice: 25, revenueAccountId: 'rev-2' })
+    })
+  })
+
+  describe('validateTaxRate', () => {
+    it('should accept a percentage with up to three decimals', () => {
+      const result = validateTaxRate({ userId: 'user-1', name: ' State Sales Tax ', rate: 8.375, accountId: 'acc-1' })
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value).toMatchObject({ name: 'State Sales Tax', rate: 8.375 })
+      }
+    })
+
+    it('should reject a percentage that is not above 0 and at most 100', () => {
+      for (const rate of [0, -5, 100.5, 8.1234]) {
+        const result = validateTaxRate({ userId: 'user-1', name: 'State Sales Tax', rate, accountId: 'acc-1' })
+        expect(result.isSuccess).toBe(false)
+        if (!result.isSuccess) {
+          expect(result.error.subtype).toBe('InvalidTaxRatePercentage')
+        }
+      }
+    })
+  })
+
+  describe('validateTaxRateAccount', () => {
+    it('should reject an account that is not a Liability account', () => {
+      const result = validateTaxRateAccount({
+        userId: 'user-1',
+        code: '401',
+        name: 'Service Revenue',
+        type: 'Revenue',
+        normalBalance: 'Credit',
+      })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidTaxRateAccount')
+      }
+    })
+  })
+
+  describe('applyTaxRates and groupTaxByAccount', () => {
+    const taxRates = [
+      { id: 'tax-state', userId: 'user-1', name: 'State', rate: 6, accountId: 'liab-state' },
+      { id: 'tax-city', userId: 'user-1', name: 'City', rate: 2.5, accountId: 'liab-city' },
+    ]
+    const lines = applyTaxRates([
+      { lineNumber: 1, description: 'A', quantity: 1, unitPrice: 100, amount: 100, revenueAccountId: 'rev-1', taxRateId: 'tax-state' },
+      { lineNumber: 2, description: 'B', quantity: 1, unitPrice: 10.1, amount: 10.1, revenueAccountId: 'rev-1', taxRateId: 'tax-city' },
+      { lineNumber: 3, description: 'C', quantity: 1, unitPrice: 50, amount: 50, revenueAccountId: 'rev-1', taxRateId: 'tax-state' },
+      { lineNumber: 4, description: 'D', quantity: 1, unitPrice: 20, amount: 20, revenueAccountId: 'rev-1' },
+    ], taxRates)
+
+    it('should charge each taxed line its rate, rounded to cents', () => {
+      expect(lines.map(line => line.taxAmount)).toEqual([6, 0.25, 3, undefined])
+    })
+
+    it('should include the tax in the invoice total', () => {
+      expect(calculateInvoiceTotal(lines)).toBe(189.35)
+    })
+
+    it('should total the tax per Liability account in first-seen order', () => {
+      expect(groupTaxByAccount(lines, taxRates)).toEqual([
+        { accountId: 'liab-state', amount: 9 },
+        { accountId: 'liab-city', amount: 0.25 },
+      ])
+    })
+  })
+
+  describe('isInvoiceOverdue', () => {
+    const asOf = new Date('2025-02-15T18:00:00Z')
+
+    it('should count an open invoice overdue from the day after its due date', () => {
+      expect(overdueCutoff(asOf)).toEqual(new Date('2025-02-15T00:00:00Z'))
+      expect(isInvoiceOverdue({ status: 'Issued', dueDate: new Date('2025-02-14') }, asOf)).toBe(true)
+      expect(isInvoiceOverdue({ status: 'PartiallyPaid', dueDate: new Date('2025-02-14') }, asOf)).toBe(true)
+      expect(isInvoiceOverdue({ status: 'Issued', dueDate: new Date('2025-02-15') }, asOf)).toBe(false)
+    })
+
+    it('should never count a paid invoice or one without a due date', () => {
+      expect(isInvoiceOverdue({ status: 'Paid', dueDate: new Date('2025-01-01') }, asOf)).toBe(false)
+      expect(isInvoiceOverdue({ status: 'Issued' }, asOf)).toBe(false)
+    })
+  })
+
+  describe('statusAfterSettlement', () => {
+    it('should mark an invoice settled in full as Paid', () => {
+      expect(statusAfterSettlement('Overdue', true)).toBe('Paid')
+      expect(statusAfterSettlement('Issued', true)).toBe('Paid')
+    })
+
+    it('should keep an overdue invoice Overdue after a partial settlement', () => {
+      expect(statusAfterSettlement('Overdue', false)).toBe('Overdue')
+      expect(statusAfterSettlement('Issued', false)).toBe('PartiallyPaid')
+    })
+  })
+
+  describe('hasOpenAmount', () => {
+    it('should tell whether anything is left open, to the cent', () => {
+      expect(hasOpenAmount({ invoiceId: 'inv-1', total: 100, settledAmount: 99.99 })).toBe(true)
+      expect(hasOpenAmount({ invoiceId: 'inv-1', total: 100.3, settledAmount: 0.1 + 0.2 + 100 })).toBe(false)
+    })
+  })
+
+  describe('validateInvoiceNotVoid and validateInvoiceVoidable', () => {
+    const invoice = { invoiceNumber: 'INV-001', status: 'Issued' as const }
+
+    it('should reject a void invoice', () => {
+      const result = validateInvoiceNotVoid({ ...invoice, status: 'Void' as const })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvoiceVoided')
+      }
+      expect(validateInvoiceNotVoid({ ...invoice, status: 'Overdue' as const }).isSuccess).toBe(true)
+    })
+
+    it('should accept an unpaid invoice for voiding', () => {
+      expect(validateInvoiceVoidable(invoice, 0)).toEqual(Success(invoice))
+    })
+
+    it('should reject voiding an invoice with anything settled against it', () => {
+      const result = validateInvoiceVoidable({ ...invoice, status: 'PartiallyPaid' as const }, 25)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvoiceNotVoidable')
+        expect(result.error.message).toMatch(/only unpaid invoices can be voided/)
+      }
+    })
+
+    it('should reject voiding an invoice twice', () => {
+      const result = validateInvoiceVoidable({ ...invoice, status: 'Void' as const }, 0)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvoiceVoided')
+      }
+    })
+  })
+
+  describe('validateCreditNote', () => {
+    const creditNote = {
+      userId: 'user-1',
+      invoiceId: 'inv-1',
+      creditNoteNumber: ' CN-001 ',
+      amount: 40,
+      date: new Date('2025-01-15'),
+      reason: ' Damaged goods ',
+      revenueAccountId: 'acc-1',
+    }
+
+    it('should accept a valid credit note and trim its number and reason', () => {
+      const result = validateCreditNote(creditNote)
+      expect(result.isSuccess).toBe(true)
+      if (result.isSuccess) {
+        expect(result.value).toMatchObject({ creditNoteNumber: 'CN-001', reason: 'Damaged goods', amount: 40 })
+      }
+    })
+
+    it('should reject an amount that is not positive', () => {
+      const result = validateCreditNote({ ...creditNote, amount: 0 })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidCreditNoteAmount')
+      }
+    })
+
+    it('should reject a date in the future', () => {
+      const result = validateCreditNote({ ...creditNote, date: new Date(Date.now() + 86400000) })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('CreditNoteDateInFuture')
+      }
+    })
+
+    it('should reject a reason longer than 200 characters', () => {
+      const result = validateCreditNote({ ...creditNote, reason: 'A'.repeat(201) })
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('InvalidAdjustmentReason')
+      }
+    })
+  })
+
+  describe('validateCreditNoteDoesNotExceedOpenAmount', () => {
+    it('should accept a credit up to the open amount', () => {
+      expect(validateCreditNoteDoesNotExceedOpenAmount(60, 60)).toEqual(Success(60))
+    })
+
+    it('should reject a credit greater than the open amount', () => {
+      const result = validateCreditNoteDoesNotExceedOpenAmount(60.5, 60)
+      expect(result.isSuccess).toBe(false)
+      if (!result.isSuccess) {
+        expect(result.error.subtype).toBe('CreditNoteExceedsOpenAmount')
+      }
+    })
+  })
+
+  describe('splitCreditNoteByTax', () => {
+    const taxShares = [
+      { accountId: 'liab-state', amount: 6 },
+      { accountId: 'liab-city', amount: 2 },
+    ]
+
+    it('should take the tax back in proportion to the invoice total', () => {
+      // Invoice of 100 + 6 + 2 = 108; crediting half of it takes back half the tax
+      expect(splitCreditNoteByTax(54, 108, taxShares)).toEqual({
+        revenueAmount: 50,
+        taxShares: [
+          { accountId: 'liab-state', amount: 3 },
+          { accountId: 'liab-city', amount: 1 },
+        ],
+      })
+    })
+
+    it('should round each tax share to cents and leave the rest to revenue', () => {
+      const split = splitCreditNoteByTax(10, 108, taxShares)
+      expect(split.taxShares).toEqual([
+        { accountId: 'liab-state', amount: 0.56 },
+        { accountId: 'liab-city', amount: 0.19 },
+      ])
+      expect(split.revenueAmount).toBe(9.25)
+    })
+
+    it('should debit revenue only when the invoice charged no tax', () => {
+      expect(splitCreditNoteByTax(40, 100, [])).toEqual({ revenueAmount: 40, taxShares: [] })
+    })
+  })
 })
\ No newline at end of file
@@ -1,6 +1,7 @@
 import * as R from 'ramda'
 import { Result, Success, Failure, andThen } from '@/common/types/result'
-import { DomainFailure } from '@/common/types/errors'
+import { DomainFailure, AppError } from '@/common/types/errors'
+import { toCents } from '@/common/types/money'
 import { SalesDomainSubtype } from './errors'
 import {
   validateStringLength,
@@ -10,6 +11,7 @@ import {
   validateOneOf,
   pipeValidators
 } from '@/shared/validation'
+import { Account, validateAccountNotArchived } from '@/bounded-contexts/ledger/domain/ledger'
 
 // --- Value Objects ---
 
@@ -18,12 +20,22 @@ export type Money = number
 
 export type InvoiceNumber = string // user-defined identifier, e.g., "INV-2025-001"
 
+export type CreditNoteNumber = string // user-defined identifier, e.g., "CN-2025-001"
+
 export type CustomerName = string
 
 export type Email = string
 
+export type ItemName = string
+
+export type Sku = string // stock keeping unit, unique per user
+
+export type TaxRateName = string // e.g., "State Sales Tax", unique per user
+
+export type TaxPercentage = number // e.g., 8.25 for 8.25%
+
 // String unions matching Prisma enums
-export type InvoiceStatus = 'Draft' | 'Issued' | 'PartiallyPaid' | 'Paid' | 'Overdue'
+export type InvoiceStatus = 'Draft' | 'Issued' | 'PartiallyPaid' | 'Paid' | 'Overdue' | 'Void'
 export type PaymentMethod = 'Cash' | 'Check' | 'CreditCard' | 'BankTransfer'
 
 // For convenience, constants
@@ -33,6 +45,7 @@ export const InvoiceStatus = {
   PartiallyPaid: 'PartiallyPaid' as InvoiceStatus,
   Paid: 'Paid' as InvoiceStatus,
   Overdue: 'Overdue' as InvoiceStatus,
+  Void: 'Void' as InvoiceStatus,
 }
 
 export const PaymentMethod = {
@@ -65,10 +78,65 @@ export type SalesInvoice = {
   readonly dueDate?: Date
   readonly description?: string
   readonly journalEntryId: string // reference to the journal entry that records the revenue recognition
+  readonly lines?: readonly SalesInvoiceLine[] // empty for invoices issued before line items existed
+  readonly voidedAt?: Date // the void date, set when the invoice is voided
+  readonly createdAt?: Date
+  readonly updatedAt?: Date
+}
+
+// A product/service line of a sales invoice, as supplied by the client
+export type SalesInvoiceLineInput = {
+  readonly itemId?: string // catalog item whose defaults fill in the fields left out
+  readonly description?: string // required unless filled in from the item
+  readonly quantity: number
+  readonly unitPrice?: Money // required unless filled in from the item
+  readonly revenueAccountId?: string // defaults to the item's revenue account, then the Default Revenue posting account
+  readonly taxRateId?: string // tax rate charged on top of the line amount
+}
+
+export type SalesInvoiceLine = {
+  readonly id?: string
+  readonly lineNumber: number // 1-based position on the invoice
+  readonly description: string
+  readonly quantity: number
+  readonly unitPrice: Money
+  readonly amount: Money // quantity × unitPrice, rounded to cents
+  readonly revenueAccountId?: string // set once the revenue account is resolved
+  readonly itemId?: string
+  readonly taxRateId?: string
+  readonly taxAmount?: Money // amount × the tax rate, rounded to cents; absent or 0 on untaxed lines
+}
+
+// A catalog entry for something the user sells or buys, reused on invoice lines and bills
+export type Item = {
+  readonly id?: string
+  readonly userId: string
+  readonly name: ItemName
+  readonly sku: Sku
+  readonly defaultPrice?: Money
+  readonly revenueAccountId?: string // credited when the item is sold
+  readonly expenseAccountId?: string // debited when the item is bought
   readonly createdAt?: Date
   readonly updatedAt?: Date
 }
 
+// A sales tax charged on invoice lines and credited to a Liability account until it is remitted
+export type TaxRate = {
+  readonly id?: string
+  readonly userId: string
+  readonly name: TaxRateName
+  readonly rate: TaxPercentage
+  readonly accountId: string // the Sales Tax Payable (Liability) account
+  readonly createdAt?: Date
+  readonly updatedAt?: Date
+}
+
+// The credit side of an invoice's journal entry: one line per revenue or tax liability account
+export type CreditShare = {
+  readonly accountId: string
+  readonly amount: Money
+}
+
 export type Payment = {
   readonly id?: string
   readonly invoiceId: string
@@ -104,6 +172,37 @@ export type CustomerDeposit = {
   readonly updatedAt?: Date
 }
 
+export type DepositApplication = {
+  readonly id?: string
+  readonly depositId: string
+  readonly invoiceId: string
+  readonly amount: Money
+  readonly date: Date
+  readonly journalEntryId: string // reference to the journal entry that moves Unearned Revenue to Accounts Receivable
+  readonly createdAt?: Date
+}
+
+// Lowers the open amount of an issued invoice without any cash changing hands
+export type CreditNote = {
+  readonly id?: string
+  readonly userId: string
+  readonly invoiceId: string
+  readonly creditNoteNumber: CreditNoteNumber
+  readonly amount: Money
+  readonly date: Date
+  readonly reason?: string
+  readonly revenueAccountId: string // the Revenue account debited
+  readonly journalEntryId: string // reference to the journal entry that takes the revenue back out of Accounts Receivable
+  readonly createdAt?: Date
+}
+
+// An invoice with what its payments, deposit applications and credit notes have settled so far
+export type InvoiceSettlement = {
+  readonly invoiceId: string
+  readonly total: Money
+  readonly settledAmount: Money
+}
+
 // --- Pure Validation Functions (using shared validators) ---
 
 /**
@@ -167,6 +266,44 @@ export const validatePaymentDateNotFuture = (date: Date): Result<Date> => {
   return result
 }
 
+/**
+ * Validate cash sale amount (positive, up to two decimals).
+ */
+export const validateCashSaleAmount = validatePositiveMoneyWith('CashSaleAmountMustBePositive' as SalesDomainSubtype)
+
+/**
+ * Validate cash sale date (not future).
+ */
+export const validateCashSaleDateNotFuture = (date: Date): Result<Date> => {
+  const result = validateDateNotFutureShared(date)
+  if (!result.isSuccess) {
+    const subtype = result.error.subtype === 'DateInFuture'
+      ? 'CashSaleDateInFuture' as SalesDomainSubtype
+      : 'InvalidCashSaleDate' as SalesDomainSubtype
+    return Failure(DomainFailure(subtype, result.error.message))
+  }
+  return result
+}
+
+/**
+ * Validate customer deposit amount (positive, up to two decimals).
+ */
+export const validateDepositAmount = validatePositiveMoneyWith('DepositAmountMustBePositive' as SalesDomainSubtype)
+
+/**
+ * Validate deposit date (not future). Also used for the date a deposit is applied to an invoice.
+ */
+export const validateDepositDateNotFuture = (date: Date): Result<Date> => {
+  const result = validateDateNotFutureShared(date)
+  if (!result.isSuccess) {
+    const subtype = result.error.subtype === 'DateInFuture'
+      ? 'DepositDateInFuture' as SalesDomainSubtype
+      : 'InvalidDepositDate' as SalesDomainSubtype
+    return Failure(DomainFailure(subtype, result.error.message))
+  }
+  return result
+}
+
 /**
  * Validate due date is after invoice date.
  */
@@ -290,4 +427,529 @@ export const validateSalesInvoice = (
   } else {
     return Failure(combinedResult3.error)
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Validate a cash sale (amount and date; customer existence is checked by the application layer).
+ */
+export const validateCashSale = (
+  sale: Omit<CashSale, 'id' | 'journalEntryId' | 'createdAt' | 'updatedAt'>
+): Result<CashSale> => {
+  const amountResult = validateCashSaleAmount(sale.amount)
+  const dateResult = validateCashSaleDateNotFuture(sale.date)
+
+  const combinedResult = andThen(() => dateResult)(amountResult)
+
+  if (combinedResult.isSuccess) {
+    return Success({
+      ...sale,
+      id: undefined,
+      journalEntryId: '', // will be filled by application layer
+      createdAt: undefined,
+      updatedAt: undefined,
+    })
+  } else {
+    return Failure(combinedResult.error)
+  }
+}
+
+/**
+ * Validate a customer deposit (amount and date; customer existence is checked by the application layer).
+ */
+export const validateCustomerDeposit = (
+  deposit: Omit<CustomerDeposit, 'id' | 'journalEntryId' | 'createdAt' | 'updatedAt'>
+): Result<CustomerDeposit> => {
+  const amountResult = validateDepositAmount(deposit.amount)
+  const dateResult = validateDepositDateNotFuture(deposit.date)
+
+  const combinedResult = andThen(() => dateResult)(amountResult)
+
+  if (combinedResult.isSuccess) {
+    return Success({
+      ...deposit,
+      id: undefined,
+      journalEntryId: '', // will be filled by application layer
+      createdAt: undefined,
+      updatedAt: undefined,
+    })
+  } else {
+    return Failure(combinedResult.error)
+  }
+}
+
+/**
+ * Validate the amount of a deposit applied to an invoice.
+ * It must be positive and cannot exceed either the deposit's unapplied amount or the invoice's open amount.
+ */
+export const validateDepositApplicationAmount = (
+  amount: Money,
+  availableAmount: Money,
+  openAmount: Money
+): Result<Money> => {
+  const amountResult = validatePositiveMoneyWith('InvalidDepositApplicationAmount' as SalesDomainSubtype)(amount)
+  if (!amountResult.isSuccess) return amountResult
+
+  if (amount > availableAmount) {
+    return Failure(
+      DomainFailure(
+        'DepositApplicationExceedsAvailable' as SalesDomainSubtype,
+        `Amount to apply (${amount}) exceeds the deposit's available amount (${availableAmount}).`
+      )
+    )
+  }
+  if (amount > openAmount) {
+    return Failure(
+      DomainFailure(
+        'PaymentExceedsOpenAmount' as SalesDomainSubtype,
+        `Amount to apply (${amount}) exceeds open amount (${openAmount}).`
+      )
+    )
+  }
+  return Success(amount)
+}
+
+// --- Invoice Status ---
+
+/**
+ * Statuses of an invoice that is still open and can fall overdue.
+ */
+export const OVERDUE_ELIGIBLE_STATUSES: readonly InvoiceStatus[] = ['Issued', 'PartiallyPaid']
+
+/**
+ * The moment before which a due date is past: the start of the as‑of day (UTC).
+ * An invoice falls overdue the day after its due date, not during it.
+ */
+export const overdueCutoff = (asOf: Date): Date =>
+  new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate()))
+
+/**
+ * Whether an open invoice is past its due date as of a moment. Invoices without a due date never fall overdue.
+ */
+export const isInvoiceOverdue = (invoice: Pick<SalesInvoice, 'status' | 'dueDate'>, asOf: Date): boolean =>
+  OVERDUE_ELIGIBLE_STATUSES.includes(invoice.status) &&
+  invoice.dueDate !== undefined &&
+  invoice.dueDate < overdueCutoff(asOf)
+
+/**
+ * Status of an invoice after a payment or deposit application: Paid once nothing is left open;
+ * otherwise an overdue invoice stays Overdue and any other becomes PartiallyPaid.
+ */
+export const statusAfterSettlement = (current: InvoiceStatus, settledInFull: boolean): InvoiceStatus =>
+  settledInFull ? 'Paid' : current === 'Overdue' ? 'Overdue' : 'PartiallyPaid'
+
+/**
+ * Whether anything is still open on an invoice. A credit note can settle an invoice in full without
+ * anything being paid, so this follows from the open amount rather than the status.
+ */
+export const hasOpenAmount = (invoice: InvoiceSettlement): boolean =>
+  toCents(invoice.total - invoice.settledAmount) > 0
+
+/**
+ * Validate that an invoice has not been voided; a void invoice takes no payments, deposits or credit notes.
+ */
+export const validateInvoiceNotVoid = <T extends Pick<SalesInvoice, 'status' | 'invoiceNumber'>>(invoice: T): Result<T> =>
+  invoice.status === 'Void'
+    ? Failure(
+        DomainFailure(
+          'InvoiceVoided' as SalesDomainSubtype,
+          `Invoice ${invoice.invoiceNumber} is void.`
+        )
+      )
+    : Success(invoice)
+
+// --- Voids and Credit Notes ---
+
+/**
+ * Validate that an invoice can be voided: it must not be void already and nothing may have been settled
+ * against it yet (payments, deposit applications or credit notes). Only unpaid invoices can be voided.
+ */
+export const validateInvoiceVoidable = <T extends Pick<SalesInvoice, 'status' | 'invoiceNumber'>>(
+  invoice: T,
+  settledAmount: Money
+): Result<T> =>
+  andThen((voidable: T) =>
+    settledAmount > 0
+      ? Failure(
+          DomainFailure(
+            'InvoiceNotVoidable' as SalesDomainSubtype,
+            `Invoice ${invoice.invoiceNumber} already has ${settledAmount} settled by payments, deposits or credit notes; only unpaid invoices can be voided.`
+          )
+        )
+      : Success(voidable)
+  )(validateInvoiceNotVoid(invoice))
+
+/**
+ * Validate credit note number (1 to 50 characters).
+ */
+export const validateCreditNoteNumber = validateStringLength(1, 50, 'InvalidCreditNoteNumber' as SalesDomainSubtype)
+
+/**
+ * Validate credit note amount (positive, up to two decimals).
+ */
+export const validateCreditNoteAmount = validatePositiveMoneyWith('InvalidCreditNoteAmount' as SalesDomainSubtype)
+
+/**
+ * Validate credit note date (not future). Also used for the date an invoice is voided.
+ */
+export const validateCreditNoteDateNotFuture = (date: Date): Result<Date> => {
+  const result = validateDateNotFutureShared(date)
+  if (!result.isSuccess) {
+    const subtype = result.error.subtype === 'DateInFuture'
+      ? 'CreditNoteDateInFuture' as SalesDomainSubtype
+      : 'InvalidCreditNoteDate' as SalesDomainSubtype
+    return Failure(DomainFailure(subtype, result.error.message))
+  }
+  return result
+}
+
+/**
+ * Validate the reason given for a void or a credit note (optional, up to 200 chars).
+ */
+export const validateAdjustmentReason = (reason?: string): Result<string | undefined> => {
+  if (reason === undefined || reason === '') {
+    return Success(undefined)
+  }
+  const trimmed = reason.trim()
+  if (trimmed.length > 200) {
+    return Failure(
+      DomainFailure(
+        'InvalidAdjustmentReason' as SalesDomainSubtype,
+        'Reason must be at most 200 characters.'
+      )
+    )
+  }
+  return Success(trimmed)
+}
+
+/**
+ * Validate a credit note (number, amount, date and reason; the invoice and its open amount are checked by the application layer).
+ */
+export const validateCreditNote = (
+  creditNote: Omit<CreditNote, 'id' | 'journalEntryId' | 'createdAt'>
+): Result<Omit<CreditNote, 'id' | 'journalEntryId' | 'createdAt'>> => {
+  const numberResult = validateCreditNoteNumber(creditNote.creditNoteNumber)
+  if (!numberResult.isSuccess) return numberResult
+
+  const amountResult = validateCreditNoteAmount(creditNote.amount)
+  if (!amountResult.isSuccess) return amountResult
+
+  const dateResult = validateCreditNoteDateNotFuture(creditNote.date)
+  if (!dateResult.isSuccess) return dateResult
+
+  const reasonResult = validateAdjustmentReason(creditNote.reason)
+  if (!reasonResult.isSuccess) return reasonResult
+
+  return Success({ ...creditNote, creditNoteNumber: numberResult.value, reason: reasonResult.value })
+}
+
+/**
+ * Validate that a credit note does not exceed the invoice's open amount.
+ */
+export const validateCreditNoteDoesNotExceedOpenAmount = (amount: Money, openAmount: Money): Result<Money> => {
+  if (amount > openAmount) {
+    return Failure(
+      DomainFailure(
+        'CreditNoteExceedsOpenAmount' as SalesDomainSubtype,
+        `Credit note amount (${amount}) exceeds open amount (${openAmount}).`
+      )
+    )
+  }
+  return Success(amount)
+}
+
+/**
+ * Split a credit note between revenue and the sales tax it takes back. Each tax account is debited
+ * the credited share of the tax the invoice charged into it (amount × tax / invoice total, rounded to cents);
+ * the rest comes off revenue, so the split always adds up to the credited amount.
+ */
+export const splitCreditNoteByTax = (
+  amount: Money,
+  invoiceTotal: Money,
+  invoiceTaxShares: readonly CreditShare[]
+): { revenueAmount: Money, taxShares: CreditShare[] } => {
+  const taxShares = invoiceTaxShares
+    .map(share => ({ accountId: share.accountId, amount: toCents((amount * share.amount) / invoiceTotal) }))
+    .filter(share => share.amount > 0)
+  const revenueAmount = toCents(amount - R.sum(taxShares.map(share => share.amount)))
+  return { revenueAmount, taxShares }
+}
+
+// --- Invoice Lines ---
+
+/**
+ * Validate invoice line description (non‑empty, reasonable length).
+ */
+export const validateLineDescription = validateStringLength(1, 200, 'InvalidLineDescription' as SalesDomainSubtype)
+
+/**
+ * Validate invoice line quantity (positive, up to two decimals, e.g. 1.5 hours).
+ */
+export const validateLineQuantity = validatePositiveMoneyWith(
+  'InvalidLineQuantity' as SalesDomainSubtype,
+  'Quantity must be positive and have at most two decimal places'
+)
+
+/**
+ * Validate invoice line unit price (positive, up to two decimals).
+ */
+export const validateLineUnitPrice = validatePositiveMoneyWith('InvalidLineUnitPrice' as SalesDomainSubtype)
+
+/**
+ * Validate one invoice line and compute its amount. Failure messages name the line number.
+ */
+export const validateInvoiceLine = (line: SalesInvoiceLineInput, lineNumber: number): Result<SalesInvoiceLine> => {
+  const lineFailure = (error: AppError) => Failure(DomainFailure(error.subtype, `Line ${lineNumber}: ${error.message}`))
+
+  const descriptionResult = validateLineDescription(line.description ?? '')
+  if (!descriptionResult.isSuccess) return lineFailure(descriptionResult.error)
+  const quantityResult = validateLineQuantity(line.quantity)
+  if (!quantityResult.isSuccess) return lineFailure(quantityResult.error)
+  const unitPriceResult = validateLineUnitPrice(line.unitPrice ?? 0)
+  if (!unitPriceResult.isSuccess) return lineFailure(unitPriceResult.error)
+
+  return Success({
+    lineNumber,
+    description: descriptionResult.value,
+    quantity: quantityResult.value,
+    unitPrice: unitPriceResult.value,
+    amount: toCents(quantityResult.value * unitPriceResult.value),
+    revenueAccountId: line.revenueAccountId,
+    itemId: line.itemId,
+    taxRateId: line.taxRateId,
+  })
+}
+
+/**
+ * Validate the lines of an invoice; an invoice needs at least one line.
+ * Lines are numbered in the order given.
+ */
+export const validateInvoiceLines = (lines: readonly SalesInvoiceLineInput[]): Result<SalesInvoiceLine[]> => {
+  if (lines.length === 0) {
+    return Failure(DomainFailure('InvoiceLinesMissing' as SalesDomainSubtype, 'An invoice needs at least one line.'))
+  }
+  return lines.reduce<Result<SalesInvoiceLine[]>>(
+    (acc, line, index) => andThen((validated: SalesInvoiceLine[]) => {
+      const lineResult = validateInvoiceLine(line, index + 1)
+      return lineResult.isSuccess ? Success([...validated, lineResult.value]) : lineResult
+    })(acc),
+    Success([])
+  )
+}
+
+/**
+ * The single line of an invoice issued with only a total: quantity 1 at the total,
+ * credited to the Default Revenue posting account.
+ */
+export const buildSingleInvoiceLine = (total: Money, description: string): SalesInvoiceLine => ({
+  lineNumber: 1,
+  description,
+  quantity: 1,
+  unitPrice: total,
+  amount: total,
+})
+
+/**
+ * Invoice total: the sum of its line amounts plus the tax charged on them.
+ */
+export const calculateInvoiceTotal = (lines: readonly SalesInvoiceLine[]): Money =>
+  toCents(R.sum(lines.map(line => line.amount + (line.taxAmount ?? 0))))
+
+/**
+ * Validate that a total supplied alongside line items matches the sum of the lines.
+ */
+export const validateInvoiceTotalMatchesLines = (total: Money | undefined, linesTotal: Money): Result<Money> =>
+  total === undefined || toCents(total) === linesTotal
+    ? Success(linesTotal)
+    : Failure(
+        DomainFailure(
+          'InvoiceTotalMismatch' as SalesDomainSubtype,
+          `Invoice total (${total}) does not match the sum of its lines (${linesTotal}).`
+        )
+      )
+
+/**
+ * Validate the account an invoice line is credited to: it must be a Revenue account
+ * and must not be archived.
+ */
+export const validateRevenueAccount = (account: Account): Result<Account> => {
+  if (account.type !== 'Revenue') {
+    return Failure(
+      DomainFailure(
+        'InvalidRevenueAccount' as SalesDomainSubtype,
+        `Account ${account.code} is ${account.type}; invoice lines must be credited to a Revenue account.`
+      )
+    )
+  }
+  return validateAccountNotArchived(account)
+}
+
+// Add an amount to the share of an account, appending the account the first time it is seen
+const addToShare = (shares: readonly CreditShare[], accountId: string, amount: Money): CreditShare[] => {
+  const existing = shares.find(share => share.accountId === accountId)
+  return existing
+    ? shares.map(share => share === existing ? { accountId, amount: toCents(share.amount + amount) } : share)
+    : [...shares, { accountId, amount }]
+}
+
+/**
+ * Group resolved invoice lines by revenue account, in the order the accounts first appear.
+ * Each share becomes one credit line of the invoice's journal entry.
+ */
+export const groupRevenueByAccount = (lines: readonly SalesInvoiceLine[]): CreditShare[] =>
+  lines.reduce<CreditShare[]>(
+    (shares, line) => addToShare(shares, line.revenueAccountId!, line.amount),
+    []
+  )
+
+// --- Sales Tax ---
+
+/**
+ * Validate tax rate name (non‑empty, reasonable length).
+ */
+export const validateTaxRateName = validateStringLength(1, 100, 'InvalidTaxRateName' as SalesDomainSubtype)
+
+/**
+ * Validate a tax percentage: above 0, at most 100, with at most three decimal places (e.g. 8.375).
+ */
+export const validateTaxRatePercentage = (rate: number): Result<TaxPercentage> => {
+  const hasAtMostThreeDecimals = Math.abs(Math.round(rate * 1000) - rate * 1000) < 1e-6
+  if (!Number.isFinite(rate) || rate <= 0 || rate > 100 || !hasAtMostThreeDecimals) {
+    return Failure(
+      DomainFailure(
+        'InvalidTaxRatePercentage' as SalesDomainSubtype,
+        'Tax rate must be a percentage above 0 and at most 100, with at most three decimal places.'
+      )
+    )
+  }
+  return Success(rate)
+}
+
+/**
+ * Validate a tax rate (basic validation, not including name uniqueness or its account).
+ */
+export const validateTaxRate = (
+  taxRate: Omit<TaxRate, 'id' | 'createdAt' | 'updatedAt'>
+): Result<Omit<TaxRate, 'id' | 'createdAt' | 'updatedAt'>> => {
+  const nameResult = validateTaxRateName(taxRate.name)
+  if (!nameResult.isSuccess) return nameResult
+
+  const rateResult = validateTaxRatePercentage(taxRate.rate)
+  if (!rateResult.isSuccess) return rateResult
+
+  return Success({ ...taxRate, name: nameResult.value, rate: rateResult.value })
+}
+
+/**
+ * Validate the account a tax rate is collected into: it must be a Liability account
+ * (e.g. Sales Tax Payable) and must not be archived.
+ */
+export const validateTaxRateAccount = (account: Account): Result<Account> => {
+  if (account.type !== 'Liability') {
+    return Failure(
+      DomainFailure(
+        'InvalidTaxRateAccount' as SalesDomainSubtype,
+        `Account ${account.code} is ${account.type}; sales tax must be collected into a Liability account.`
+      )
+    )
+  }
+  return validateAccountNotArchived(account)
+}
+
+/**
+ * Tax charged on a line amount at a rate, rounded to cents.
+ */
+export const calculateLineTax = (amount: Money, rate: TaxPercentage): Money =>
+  toCents((amount * rate) / 100)
+
+/**
+ * Charge each line's tax rate on the line. Lines without a tax rate are left untaxed;
+ * every tax rate a line names must be among the given rates.
+ */
+export const applyTaxRates = (
+  lines: readonly SalesInvoiceLine[],
+  taxRates: readonly TaxRate[]
+): SalesInvoiceLine[] =>
+  lines.map(line => {
+    const taxRate = taxRates.find(rate => rate.id === line.taxRateId)
+    return taxRate ? { ...line, taxAmount: calculateLineTax(line.amount, taxRate.rate) } : line
+  })
+
+/**
+ * Group the tax charged on invoice lines by the tax rates' Liability accounts, in the order
+ * the accounts first appear. Each share becomes one credit line of the invoice's journal entry.
+ */
+export const groupTaxByAccount = (
+  lines: readonly SalesInvoiceLine[],
+  taxRates: readonly TaxRate[]
+): CreditShare[] =>
+  lines.reduce<CreditShare[]>((shares, line) => {
+    const taxRate = taxRates.find(rate => rate.id === line.taxRateId)
+    return taxRate && (line.taxAmount ?? 0) > 0
+      ? addToShare(shares, taxRate.accountId, line.taxAmount!)
+      : shares
+  }, [])
+
+// --- Items ---
+
+/**
+ * Validate item name (non‑empty, reasonable length).
+ */
+export const validateItemName = validateStringLength(1, 100, 'InvalidItemName' as SalesDomainSubtype)
+
+/**
+ * Validate item SKU (non‑empty, at most 50 characters).
+ */
+export const validateItemSku = validateStringLength(1, 50, 'InvalidItemSku' as SalesDomainSubtype)
+
+/**
+ * Validate item default price (positive, up to two decimals).
+ */
+export const validateItemDefaultPrice = validatePositiveMoneyWith('InvalidItemDefaultPrice' as SalesDomainSubtype)
+
+/**
+ * Validate a catalog item (basic validation, not including SKU uniqueness or its accounts).
+ */
+export const validateItem = (
+  item: Omit<Item, 'id' | 'createdAt' | 'updatedAt'>
+): Result<Omit<Item, 'id' | 'createdAt' | 'updatedAt'>> => {
+  const nameResult = validateItemName(item.name)
+  if (!nameResult.isSuccess) return nameResult
+
+  const skuResult = validateItemSku(item.sku)
+  if (!skuResult.isSuccess) return skuResult
+
+  if (item.defaultPrice !== undefined) {
+    const priceResult = validateItemDefaultPrice(item.defaultPrice)
+    if (!priceResult.isSuccess) return priceResult
+  }
+
+  return Success({ ...item, name: nameResult.value, sku: skuResult.value })
+}
+
+/**
+ * Validate the account an item is debited to when bought: it must be an Expense account
+ * and must not be archived.
+ */
+export const validateItemExpenseAccount = (account: Account): Result<Account> => {
+  if (account.type !== 'Expense') {
+    return Failure(
+      DomainFailure(
+        'InvalidItemExpenseAccount' as SalesDomainSubtype,
+        `Account ${account.code} is ${account.type}; an item's expense account must be an Expense account.`
+      )
+    )
+  }
+  return validateAccountNotArchived(account)
+}
+
+/**
+ * Fill in the fields an invoice line leaves out from its catalog item.
+ * Fields given on the line win over the item's defaults.
+ */
+export const applyItemDefaults = (line: SalesInvoiceLineInput, item: Item): SalesInvoiceLineInput => ({
+  ...line,
+  itemId: item.id,
+  description: line.description ?? item.name,
+  unitPrice: line.unitPrice ?? item.defaultPrice,
+  revenueAccountId: line.revenueAccountId ?? item.revenueAccountId,
+})
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { createCashSale, findCashSaleById, listCashSales } from './cashSaleRepo'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Sales Context: Cash Sale Repository (Infrastructure)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestUser = async (id: string = 'test-user-123', username: string = 'testuser123') => {
+    return await prisma.user.create({
+      data: { id, username }
+    })
+  }
+
+  const createTestCustomer = async (userId: string, name: string = 'Test Customer') => {
+    return await prisma.customer.create({
+      data: {
+        userId,
+        name,
+        balance: 0,
+      }
+    })
+  }
+
+  const createTestJournalEntry = async (userId: string, description: string = 'Test cash sale entry') => {
+    return await prisma.journalEntry.create({
+      data: {
+        userId,
+        description,
+        date: new Date(),
+      }
+    })
+  }
+
+  it('should create a cash sale with valid data', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    const journalEntry = await createTestJournalEntry(user.id)
+
+    const result = await createCashSale({
+      userId: user.id,
+      customerId: customer.id,
+      amount: 320.75,
+      date: new Date('2025-01-10'),
+      description: 'Walk-in consultation',
+      journalEntryId: journalEntry.id,
+    })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      const sale = result.value
+      expect(sale.id).toBeDefined()
+      expect(sale.customerId).toBe(customer.id)
+      expect(sale.amount).toBe(320.75)
+      expect(sale.date).toEqual(new Date('2025-01-10'))
+      expect(sale.description).toBe('Walk-in consultation')
+      expect(sale.journalEntryId).toBe(journalEntry.id)
+      expect(sale.createdAt).toBeInstanceOf(Date)
+    } else {
+      expect.fail('Expected success but got failure')
+    }
+
+    const dbSale = await prisma.cashSale.findFirst({ where: { userId: user.id } })
+    expect(Number(dbSale?.amount)).toBe(320.75)
+  })
+
+  it('should reject a second cash sale for the same journal entry', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    const journalEntry = await createTestJournalEntry(user.id)
+    const saleData = {
+      userId: user.id,
+      customerId: customer.id,
+      amount: 100,
+      date: new Date('2025-01-10'),
+      journalEntryId: journalEntry.id,
+    }
+    await createCashSale(saleData)
+
+    const result = await createCashSale(saleData)
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('DuplicateKey')
+    }
+  })
+
+  it('should find a cash sale by ID only for its owner', async () => {
+    const userA = await createTestUser('user-a', 'usera')
+    const userB = await createTestUser('user-b', 'userb')
+    const customer = await createTestCustomer(userA.id)
+    const journalEntry = await createTestJournalEntry(userA.id)
+    const sale = await prisma.cashSale.create({
+      data: {
+        userId: userA.id,
+        customerId: customer.id,
+        amount: 200,
+        date: new Date('2025-01-12'),
+        journalEntryId: journalEntry.id,
+      }
+    })
+
+    const ownResult = await findCashSaleById(userA.id, sale.id)
+    expect(ownResult.isSuccess).toBe(true)
+    if (ownResult.isSuccess) {
+      expect(ownResult.value?.amount).toBe(200)
+      expect(ownResult.value?.description).toBeUndefined()
+    }
+
+    const otherResult = await findCashSaleById(userB.id, sale.id)
+    expect(otherResult.isSuccess).toBe(true)
+    if (otherResult.isSuccess) {
+      expect(otherResult.value).toBeNull()
+    }
+  })
+
+  it('should list cash sales by date descending with pagination', async () => {
+    const user = await createTestUser()
+    const customer = await createTestCustomer(user.id)
+    const journalEntry1 = await createTestJournalEntry(user.id)
+    const journalEntry2 = await createTestJournalEntry(user.id)
+    const journalEntry3 = await createTestJournalEntry(user.id)
+
+    await prisma.cashSale.createMany({
+      data: [
+        { userId: user.id, customerId: customer.id, amount: 100, date: new Date('2025-01-01'), journalEntryId: journalEntry1.id },
+        { userId: user.id, customerId: customer.id, amount: 300, date: new Date('2025-01-03'), journalEntryId: journalEntry3.id },
+        { userId: user.id, customerId: customer.id, amount: 200, date: new Date('2025-01-02'), journalEntryId: journalEntry2.id },
+      ]
+    })
+
+    const result = await listCashSales(user.id)
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.map(sale => sale.amount)).toEqual([300, 200, 100])
+    }
+
+    const paged = await listCashSales(user.id, { skip: 1, take: 1 })
+    expect(paged.isSuccess).toBe(true)
+    if (paged.isSuccess) {
+      expect(paged.value.map(sale => sale.amount)).toEqual([200])
+    }
+  })
+})
\ No newline at end of file
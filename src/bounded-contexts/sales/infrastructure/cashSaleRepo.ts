@@ -0,0 +1,109 @@
+import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Prisma } from '@/prisma/client'
+import { CashSale } from '../domain/sales'
+import { SalesInfrastructureSubtype } from '../domain/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
+  try {
+    const data = await promise
+    return Success(data)
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError) {
+      if (e.code === 'P2002') {
+        // Duplicate key (unique constraint on journalEntryId)
+        return Failure(
+          InfrastructureFailure(
+            'DuplicateKey' as SalesInfrastructureSubtype,
+            'Cash sale journal entry already exists.'
+          )
+        )
+      }
+      // other known errors
+      return Failure(
+        InfrastructureFailure(
+          'CashSaleRepositoryError' as SalesInfrastructureSubtype,
+          `Database error: ${e.message}`,
+          e
+        )
+      )
+    }
+    // unknown error
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(
+      InfrastructureFailure(
+        'CashSaleRepositoryError' as SalesInfrastructureSubtype,
+        errorMessage,
+        e
+      )
+    )
+  }
+}
+
+// Mapper from Prisma model to domain CashSale
+const toDomainCashSale = (prismaSale: any): CashSale => ({
+  id: prismaSale.id,
+  userId: prismaSale.userId,
+  customerId: prismaSale.customerId,
+  amount: Number(prismaSale.amount),
+  date: prismaSale.date,
+  description: prismaSale.description ?? undefined,
+  journalEntryId: prismaSale.journalEntryId,
+  createdAt: prismaSale.createdAt,
+  updatedAt: prismaSale.updatedAt,
+})
+
+/**
+ * Create a new cash sale in the database.
+ */
+export const createCashSale = (sale: Omit<CashSale, 'id' | 'createdAt' | 'updatedAt'>, db: DbClient = prisma): Promise<Result<CashSale>> => {
+  const action = db.cashSale.create({
+    data: {
+      userId: sale.userId,
+      customerId: sale.customerId,
+      amount: sale.amount,
+      date: sale.date,
+      description: sale.description,
+      journalEntryId: sale.journalEntryId,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainCashSale(result.value))
+      : result
+  )
+}
+
+/**
+ * Find a cash sale by ID and user ID (ensures isolation).
+ */
+export const findCashSaleById = (userId: string, cashSaleId: string): Promise<Result<CashSale | null>> => {
+  const action = prisma.cashSale.findFirst({
+    where: { id: cashSaleId, userId },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainCashSale(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * List all cash sales for a user with optional pagination.
+ */
+export const listCashSales = (userId: string, options?: { skip?: number; take?: number }): Promise<Result<CashSale[]>> => {
+  const action = prisma.cashSale.findMany({
+    where: { userId },
+    orderBy: { date: 'desc' },
+    skip: options?.skip,
+    take: options?.take,
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(toDomainCashSale))
+      : result
+  )
+}
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Prisma } from '@/prisma/client'
+import { CreditNote } from '../domain/sales'
+import { SalesInfrastructureSubtype } from '../domain/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
+  try {
+    const data = await promise
+    return Success(data)
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError) {
+      if (e.code === 'P2002') {
+        // Duplicate key (unique constraint on credit note number per user)
+        return Failure(
+          InfrastructureFailure(
+            'DuplicateKey' as SalesInfrastructureSubtype,
+            'Credit note number already exists for this user.'
+          )
+        )
+      }
+      // other known errors
+      return Failure(
+        InfrastructureFailure(
+          'CreditNoteRepositoryError' as SalesInfrastructureSubtype,
+          `Database error: ${e.message}`,
+          e
+        )
+      )
+    }
+    // unknown error
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(
+      InfrastructureFailure(
+        'CreditNoteRepositoryError' as SalesInfrastructureSubtype,
+        errorMessage,
+        e
+      )
+    )
+  }
+}
+
+// Mapper from Prisma model to domain CreditNote
+const toDomainCreditNote = (prismaCreditNote: any): CreditNote => ({
+  id: prismaCreditNote.id,
+  userId: prismaCreditNote.userId,
+  invoiceId: prismaCreditNote.invoiceId,
+  creditNoteNumber: prismaCreditNote.creditNoteNumber,
+  amount: Number(prismaCreditNote.amount),
+  date: prismaCreditNote.date,
+  reason: prismaCreditNote.reason ?? undefined,
+  revenueAccountId: prismaCreditNote.revenueAccountId,
+  journalEntryId: prismaCreditNote.journalEntryId,
+  createdAt: prismaCreditNote.createdAt,
+})
+
+/**
+ * Create a new credit note in the database.
+ */
+export const createCreditNote = (creditNote: Omit<CreditNote, 'id' | 'createdAt'>, db: DbClient = prisma): Promise<Result<CreditNote>> => {
+  const action = db.creditNote.create({
+    data: {
+      userId: creditNote.userId,
+      invoiceId: creditNote.invoiceId,
+      creditNoteNumber: creditNote.creditNoteNumber,
+      amount: creditNote.amount,
+      date: creditNote.date,
+      reason: creditNote.reason,
+      revenueAccountId: creditNote.revenueAccountId,
+      journalEntryId: creditNote.journalEntryId,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainCreditNote(result.value))
+      : result
+  )
+}
+
+/**
+ * Find a credit note by credit note number and user ID.
+ */
+export const findCreditNoteByNumber = (userId: string, creditNoteNumber: string): Promise<Result<CreditNote | null>> => {
+  const action = prisma.creditNote.findFirst({
+    where: { userId, creditNoteNumber },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainCreditNote(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * List all credit notes issued against a specific invoice (user‑isolated).
+ */
+export const listCreditNotesByInvoice = (userId: string, invoiceId: string): Promise<Result<CreditNote[]>> => {
+  const action = prisma.creditNote.findMany({
+    where: { userId, invoiceId },
+    orderBy: { date: 'asc' },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(toDomainCreditNote))
+      : result
+  )
+}
+
+/**
+ * Calculate the total amount credited against an invoice by credit notes.
+ */
+export const getTotalCreditedForInvoice = (userId: string, invoiceId: string, db: DbClient = prisma): Promise<Result<number>> => {
+  const action = db.creditNote.aggregate({
+    where: { userId, invoiceId },
+    _sum: {
+      amount: true,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(Number(result.value._sum.amount ?? 0))
+      : result
+  )
+}
\ No newline at end of file
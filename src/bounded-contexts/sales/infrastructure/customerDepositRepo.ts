@@ -0,0 +1,125 @@
+import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Prisma } from '@/prisma/client'
+import { CustomerDeposit } from '../domain/sales'
+import { SalesInfrastructureSubtype } from '../domain/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
+  try {
+    const data = await promise
+    return Success(data)
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError) {
+      if (e.code === 'P2002') {
+        // Duplicate key (unique constraint on journalEntryId)
+        return Failure(
+          InfrastructureFailure(
+            'DuplicateKey' as SalesInfrastructureSubtype,
+            'Customer deposit journal entry already exists.'
+          )
+        )
+      }
+      // other known errors
+      return Failure(
+        InfrastructureFailure(
+          'CustomerDepositRepositoryError' as SalesInfrastructureSubtype,
+          `Database error: ${e.message}`,
+          e
+        )
+      )
+    }
+    // unknown error
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(
+      InfrastructureFailure(
+        'CustomerDepositRepositoryError' as SalesInfrastructureSubtype,
+        errorMessage,
+        e
+      )
+    )
+  }
+}
+
+// Mapper from Prisma model to domain CustomerDeposit
+const toDomainCustomerDeposit = (prismaDeposit: any): CustomerDeposit => ({
+  id: prismaDeposit.id,
+  userId: prismaDeposit.userId,
+  customerId: prismaDeposit.customerId,
+  amount: Number(prismaDeposit.amount),
+  date: prismaDeposit.date,
+  description: prismaDeposit.description ?? undefined,
+  journalEntryId: prismaDeposit.journalEntryId,
+  createdAt: prismaDeposit.createdAt,
+  updatedAt: prismaDeposit.updatedAt,
+})
+
+/**
+ * Create a new customer deposit in the database.
+ */
+export const createCustomerDeposit = (deposit: Omit<CustomerDeposit, 'id' | 'createdAt' | 'updatedAt'>, db: DbClient = prisma): Promise<Result<CustomerDeposit>> => {
+  const action = db.customerDeposit.create({
+    data: {
+      userId: deposit.userId,
+      customerId: deposit.customerId,
+      amount: deposit.amount,
+      date: deposit.date,
+      description: deposit.description,
+      journalEntryId: deposit.journalEntryId,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainCustomerDeposit(result.value))
+      : result
+  )
+}
+
+/**
+ * Find a customer deposit by ID and user ID (ensures isolation).
+ */
+export const findCustomerDepositById = (userId: string, depositId: string): Promise<Result<CustomerDeposit | null>> => {
+  const action = prisma.customerDeposit.findFirst({
+    where: { id: depositId, userId },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainCustomerDeposit(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * Lock a customer deposit row for the rest of the unit of work (SELECT ... FOR UPDATE), then read it,
+ * so the applications read after it are current.
+ */
+export const findCustomerDepositByIdForUpdate = (userId: string, depositId: string, db: DbClient): Promise<Result<CustomerDeposit | null>> => {
+  const action = db.$queryRaw`SELECT id FROM CustomerDeposit WHERE id = ${depositId} AND userId = ${userId} FOR UPDATE`
+    .then(() => db.customerDeposit.findFirst({
+      where: { id: depositId, userId },
+    }))
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainCustomerDeposit(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * List all customer deposits for a user with optional pagination.
+ */
+export const listCustomerDeposits = (userId: string, options?: { skip?: number; take?: number }): Promise<Result<CustomerDeposit[]>> => {
+  const action = prisma.customerDeposit.findMany({
+    where: { userId },
+    orderBy: { date: 'desc' },
+    skip: options?.skip,
+    take: options?.take,
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(toDomainCustomerDeposit))
+      : result
+  )
+}
\ No newline at end of file
@@ -30,8 +30,9 @@ describe('Sales Context: Customer Repository (Infrastructure)', () => {
     await prisma.journalEntry.deleteMany()
     // 5. Account (depends on User)
     await prisma.account.deleteMany()
-    // 6. Session (depends on User)
+    // 6. Session and Collaborator (depend on User)
     await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
     // 7. User
     await prisma.user.deleteMany()
   })
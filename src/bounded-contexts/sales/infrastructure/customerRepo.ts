@@ -1,4 +1,5 @@
 import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
 import { Prisma } from '@/prisma/client'
@@ -105,8 +106,8 @@ export const listCustomers = (userId: string): Promise<Result<Customer[]>> => {
  * Update customer balance by adding an amount (positive or negative).
  * This is a specialized function for updating the subsidiary balance.
  */
-export const updateCustomerBalance = (userId: string, customerId: string, amountDelta: number): Promise<Result<Customer>> => {
-  const action = prisma.customer.update({
+export const updateCustomerBalance = (userId: string, customerId: string, amountDelta: number, db: DbClient = prisma): Promise<Result<Customer>> => {
+  const action = db.customer.update({
     where: { id: customerId, userId },
     data: {
       balance: { increment: amountDelta },
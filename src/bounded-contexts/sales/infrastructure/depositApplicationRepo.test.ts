@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import {
+  createDepositApplication,
+  listDepositApplicationsByDeposit,
+  getTotalAppliedFromDeposit,
+  getTotalDepositsAppliedToInvoice
+} from './depositApplicationRepo'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Sales Context: Deposit Application Repository (Infrastructure)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  beforeEach(async () => {
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const createTestJournalEntry = async (userId: string) => {
+    return await prisma.journalEntry.create({
+      data: {
+        userId,
+        description: 'Test entry',
+        date: new Date(),
+      }
+    })
+  }
+
+  // Creates a user with a customer, a 500 deposit and a 1000 invoice
+  const setupDepositAndInvoice = async (id: string = 'test-user-123', username: string = 'testuser123') => {
+    const user = await prisma.user.create({ data: { id, username } })
+    const customer = await prisma.customer.create({ data: { userId: user.id, name: 'Test Customer', balance: 0 } })
+    const depositEntry = await createTestJournalEntry(user.id)
+    const deposit = await prisma.customerDeposit.create({
+      data: { userId: user.id, customerId: customer.id, amount: 500, date: new Date('2025-01-05'), journalEntryId: depositEntry.id }
+    })
+    const invoiceEntry = await createTestJournalEntry(user.id)
+    const invoice = await prisma.salesInvoice.create({
+      data: {
+        userId: user.id,
+        customerId: customer.id,
+        invoiceNumber: `INV-${Date.now()}`,
+        total: 1000,
+        date: new Date('2025-01-10'),
+        status: 'Issued',
+        journalEntryId: invoiceEntry.id,
+      }
+    })
+    return { user, deposit, invoice }
+  }
+
+  it('should create a deposit application', async () => {
+    const { user, deposit, invoice } = await setupDepositAndInvoice()
+    const journalEntry = await createTestJournalEntry(user.id)
+
+    const result = await createDepositApplication({
+      depositId: deposit.id,
+      invoiceId: invoice.id,
+      amount: 200.5,
+      date: new Date('2025-01-12'),
+      journalEntryId: journalEntry.id,
+    })
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.id).toBeDefined()
+      expect(result.value.amount).toBe(200.5)
+      expect(result.value.depositId).toBe(deposit.id)
+      expect(result.value.invoiceId).toBe(invoice.id)
+    } else {
+      expect.fail('Expected success but got failure')
+    }
+  })
+
+  it('should total applications per deposit and per invoice', async () => {
+    const { user, deposit, invoice } = await setupDepositAndInvoice()
+    for (const amount of [100, 150]) {
+      const journalEntry = await createTestJournalEntry(user.id)
+      await createDepositApplication({ depositId: deposit.id, invoiceId: invoice.id, amount, date: new Date('2025-01-12'), journalEntryId: journalEntry.id })
+    }
+
+    const fromDeposit = await getTotalAppliedFromDeposit(user.id, deposit.id)
+    expect(fromDeposit.isSuccess && fromDeposit.value).toBe(250)
+
+    const toInvoice = await getTotalDepositsAppliedToInvoice(user.id, invoice.id)
+    expect(toInvoice.isSuccess && toInvoice.value).toBe(250)
+
+    const applications = await listDepositApplicationsByDeposit(user.id, deposit.id)
+    expect(applications.isSuccess && applications.value.map(application => application.amount)).toEqual([100, 150])
+  })
+
+  it('should return zero totals and no applications for another user', async () => {
+    const { user, deposit, invoice } = await setupDepositAndInvoice()
+    const otherUser = await prisma.user.create({ data: { id: 'user-b', username: 'userb' } })
+    const journalEntry = await createTestJournalEntry(user.id)
+    await createDepositApplication({ depositId: deposit.id, invoiceId: invoice.id, amount: 100, date: new Date('2025-01-12'), journalEntryId: journalEntry.id })
+
+    const fromDeposit = await getTotalAppliedFromDeposit(otherUser.id, deposit.id)
+    expect(fromDeposit.isSuccess && fromDeposit.value).toBe(0)
+
+    const applications = await listDepositApplicationsByDeposit(otherUser.id, deposit.id)
+    expect(applications.isSuccess && applications.value).toEqual([])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Prisma } from '@/prisma/client'
+import { DepositApplication } from '../domain/sales'
+import { SalesInfrastructureSubtype } from '../domain/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
+  try {
+    const data = await promise
+    return Success(data)
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError) {
+      if (e.code === 'P2002') {
+        // Duplicate key (unique constraint on journalEntryId)
+        return Failure(
+          InfrastructureFailure(
+            'DuplicateKey' as SalesInfrastructureSubtype,
+            'Deposit application journal entry already exists.'
+          )
+        )
+      }
+      // other known errors
+      return Failure(
+        InfrastructureFailure(
+          'DepositApplicationRepositoryError' as SalesInfrastructureSubtype,
+          `Database error: ${e.message}`,
+          e
+        )
+      )
+    }
+    // unknown error
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(
+      InfrastructureFailure(
+        'DepositApplicationRepositoryError' as SalesInfrastructureSubtype,
+        errorMessage,
+        e
+      )
+    )
+  }
+}
+
+// Mapper from Prisma model to domain DepositApplication
+const toDomainDepositApplication = (prismaApplication: any): DepositApplication => ({
+  id: prismaApplication.id,
+  depositId: prismaApplication.depositId,
+  invoiceId: prismaApplication.invoiceId,
+  amount: Number(prismaApplication.amount),
+  date: prismaApplication.date,
+  journalEntryId: prismaApplication.journalEntryId,
+  createdAt: prismaApplication.createdAt,
+})
+
+/**
+ * Create a new deposit application in the database.
+ */
+export const createDepositApplication = (application: Omit<DepositApplication, 'id' | 'createdAt'>, db: DbClient = prisma): Promise<Result<DepositApplication>> => {
+  const action = db.depositApplication.create({
+    data: {
+      depositId: application.depositId,
+      invoiceId: application.invoiceId,
+      amount: application.amount,
+      date: application.date,
+      journalEntryId: application.journalEntryId,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainDepositApplication(result.value))
+      : result
+  )
+}
+
+/**
+ * List all applications of a deposit (user‑isolated via the deposit).
+ */
+export const listDepositApplicationsByDeposit = (userId: string, depositId: string): Promise<Result<DepositApplication[]>> => {
+  const action = prisma.depositApplication.findMany({
+    where: {
+      depositId,
+      deposit: {
+        userId,
+      },
+    },
+    orderBy: { date: 'asc' },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(toDomainDepositApplication))
+      : result
+  )
+}
+
+/**
+ * Calculate the total amount of a deposit already applied to invoices.
+ */
+export const getTotalAppliedFromDeposit = (userId: string, depositId: string, db: DbClient = prisma): Promise<Result<number>> => {
+  const action = db.depositApplication.aggregate({
+    where: {
+      depositId,
+      deposit: {
+        userId,
+      },
+    },
+    _sum: {
+      amount: true,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(Number(result.value._sum.amount ?? 0))
+      : result
+  )
+}
+
+/**
+ * Calculate the total amount of deposits already applied to an invoice.
+ */
+export const getTotalDepositsAppliedToInvoice = (userId: string, invoiceId: string, db: DbClient = prisma): Promise<Result<number>> => {
+  const action = db.depositApplication.aggregate({
+    where: {
+      invoiceId,
+      invoice: {
+        userId,
+      },
+    },
+    _sum: {
+      amount: true,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(Number(result.value._sum.amount ?? 0))
+      : result
+  )
+}
\ No newline at end of file
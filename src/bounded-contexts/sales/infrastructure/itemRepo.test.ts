@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import {
+  createItem,
+  findItemById,
+  findItemBySku,
+  listItems,
+  updateItem,
+  deleteItem,
+} from './itemRepo'
+import { prisma } from '@/common/infrastructure/db'
+
+describe('Sales Context: Item Repository (Infrastructure)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    await prisma.period.deleteMany()
+    await prisma.payment.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    // Items reference Account
+    await prisma.item.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const setupUserWithAccounts = async (id: string = 'test-user-123', username: string = 'testuser123') => {
+    const user = await prisma.user.create({ data: { id, username } })
+    const revenue = await prisma.account.create({
+      data: { userId: user.id, code: '402', name: 'Product Revenue', type: 'Revenue', normalBalance: 'Credit' }
+    })
+    const expense = await prisma.account.create({
+      data: { userId: user.id, code: '504', name: 'Supplies Expense', type: 'Expense', normalBalance: 'Debit' }
+    })
+    return { user, revenue, expense }
+  }
+
+  it('should create an item and find it by id and by SKU', async () => {
+    const { user, revenue, expense } = await setupUserWithAccounts()
+
+    const result = await createItem({
+      userId: user.id,
+      name: 'Widget',
+      sku: 'WID-001',
+      defaultPrice: 19.5,
+      revenueAccountId: revenue.id,
+      expenseAccountId: expense.id,
+    })
+
+    expect(result.isSuccess).toBe(true)
+    if (!result.isSuccess) return expect.fail('Expected success but got failure')
+    expect(result.value).toMatchObject({ name: 'Widget', sku: 'WID-001', defaultPrice: 19.5, revenueAccountId: revenue.id })
+
+    const byId = await findItemById(user.id, result.value.id!)
+    expect(byId.isSuccess && byId.value?.sku).toBe('WID-001')
+
+    const bySku = await findItemBySku(user.id, 'WID-001')
+    expect(bySku.isSuccess && bySku.value?.id).toBe(result.value.id)
+  })
+
+  it('should reject a duplicate SKU for the same user', async () => {
+    const { user } = await setupUserWithAccounts()
+    await createItem({ userId: user.id, name: 'Widget', sku: 'WID-001' })
+
+    const result = await createItem({ userId: user.id, name: 'Another widget', sku: 'WID-001' })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.subtype).toBe('DuplicateKey')
+    }
+  })
+
+  it('should list items by name and keep them isolated per user', async () => {
+    const { user } = await setupUserWithAccounts()
+    const { user: otherUser } = await setupUserWithAccounts('other-user', 'otheruser')
+    await createItem({ userId: user.id, name: 'Widget', sku: 'WID-001' })
+    await createItem({ userId: user.id, name: 'Consulting hour', sku: 'SRV-001' })
+    await createItem({ userId: otherUser.id, name: 'Gadget', sku: 'GAD-001' })
+
+    const result = await listItems(user.id)
+
+    expect(result.isSuccess).toBe(true)
+    if (result.isSuccess) {
+      expect(result.value.map(item => item.name)).toEqual(['Consulting hour', 'Widget'])
+    }
+  })
+
+  it('should update and clear optional defaults, then delete the item', async () => {
+    const { user, revenue } = await setupUserWithAccounts()
+    const created = await createItem({ userId: user.id, name: 'Widget', sku: 'WID-001', defaultPrice: 10, revenueAccountId: revenue.id })
+    if (!created.isSuccess) return expect.fail('Expected success but got failure')
+
+    const updated = await updateItem(user.id, created.value.id!, { name: 'Blue widget', defaultPrice: null, revenueAccountId: null })
+    expect(updated.isSuccess).toBe(true)
+    if (updated.isSuccess) {
+      expect(updated.value.name).toBe('Blue widget')
+      expect(updated.value.defaultPrice).toBeUndefined()
+      expect(updated.value.revenueAccountId).toBeUndefined()
+    }
+
+    const deleted = await deleteItem(user.id, created.value.id!)
+    expect(deleted.isSuccess).toBe(true)
+    const afterDelete = await findItemById(user.id, created.value.id!)
+    expect(afterDelete.isSuccess && afterDelete.value).toBeNull()
+  })
+})
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { prisma } from '@/common/infrastructure/db'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Prisma } from '@/prisma/client'
+import { Item } from '../domain/sales'
+import { SalesInfrastructureSubtype } from '../domain/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
+  try {
+    const data = await promise
+    return Success(data)
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError) {
+      if (e.code === 'P2002') {
+        // Duplicate key (unique constraint on SKU per user)
+        return Failure(
+          InfrastructureFailure(
+            'DuplicateKey' as SalesInfrastructureSubtype,
+            'Item SKU already exists for this user.'
+          )
+        )
+      }
+      // other known errors
+      return Failure(
+        InfrastructureFailure(
+          'ItemRepositoryError' as SalesInfrastructureSubtype,
+          `Database error: ${e.message}`,
+          e
+        )
+      )
+    }
+    // unknown error
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(
+      InfrastructureFailure(
+        'ItemRepositoryError' as SalesInfrastructureSubtype,
+        errorMessage,
+        e
+      )
+    )
+  }
+}
+
+// Mapper from Prisma model to domain Item
+const toDomainItem = (prismaItem: any): Item => ({
+  id: prismaItem.id,
+  userId: prismaItem.userId,
+  name: prismaItem.name,
+  sku: prismaItem.sku,
+  defaultPrice: prismaItem.defaultPrice !== null ? Number(prismaItem.defaultPrice) : undefined,
+  revenueAccountId: prismaItem.revenueAccountId ?? undefined,
+  expenseAccountId: prismaItem.expenseAccountId ?? undefined,
+  createdAt: prismaItem.createdAt,
+  updatedAt: prismaItem.updatedAt,
+})
+
+// Fields of an item that can be changed; null clears an optional default
+export type ItemChanges = {
+  name?: string
+  sku?: string
+  defaultPrice?: number | null
+  revenueAccountId?: string | null
+  expenseAccountId?: string | null
+}
+
+/**
+ * Create a new catalog item in the database.
+ */
+export const createItem = (item: Omit<Item, 'id' | 'createdAt' | 'updatedAt'>): Promise<Result<Item>> => {
+  const action = prisma.item.create({
+    data: {
+      userId: item.userId,
+      name: item.name,
+      sku: item.sku,
+      defaultPrice: item.defaultPrice,
+      revenueAccountId: item.revenueAccountId,
+      expenseAccountId: item.expenseAccountId,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainItem(result.value))
+      : result
+  )
+}
+
+/**
+ * Find an item by ID and user ID (ensures isolation).
+ */
+export const findItemById = (userId: string, itemId: string): Promise<Result<Item | null>> => {
+  const action = prisma.item.findFirst({
+    where: { id: itemId, userId },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainItem(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * Find an item by its SKU for a user.
+ */
+export const findItemBySku = (userId: string, sku: string): Promise<Result<Item | null>> => {
+  const action = prisma.item.findUnique({
+    where: { userId_sku: { userId, sku } },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainItem(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * List all catalog items for a user, by name.
+ */
+export const listItems = (userId: string): Promise<Result<Item[]>> => {
+  const action = prisma.item.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(toDomainItem))
+      : result
+  )
+}
+
+/**
+ * Update an item's fields. Invoice lines and bills already recorded keep their own values.
+ */
+export const updateItem = (userId: string, itemId: string, changes: ItemChanges): Promise<Result<Item>> => {
+  const action = prisma.item.update({
+    where: { id: itemId, userId },
+    data: changes,
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainItem(result.value))
+      : result
+  )
+}
+
+/**
+ * Delete an item. Invoice lines and bills filled in from it keep their values and lose the reference.
+ */
+export const deleteItem = (userId: string, itemId: string): Promise<Result<Item>> => {
+  const action = prisma.item.delete({
+    where: { id: itemId, userId },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainItem(result.value))
+      : result
+  )
+}
\ No newline at end of file
@@ -17,6 +17,7 @@ describe('Sales Context: Payment Repository (Infrastructure)', () => {
     await prisma.journalLine.deleteMany()
     await prisma.journalEntry.deleteMany()
     await prisma.account.deleteMany()
+    await prisma.collaborator.deleteMany()
     await prisma.user.deleteMany()
   })
 
@@ -1,4 +1,5 @@
 import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
 import { Prisma } from '@/prisma/client'
@@ -57,8 +58,8 @@ const toDomainPayment = (prismaPayment: any): Payment => ({
 /**
  * Create a new payment in the database.
  */
-export const createPayment = (payment: Omit<Payment, 'id' | 'createdAt'>): Promise<Result<Payment>> => {
-  const action = prisma.payment.create({
+export const createPayment = (payment: Omit<Payment, 'id' | 'createdAt'>, db: DbClient = prisma): Promise<Result<Payment>> => {
+  const action = db.payment.create({
     data: {
       invoiceId: payment.invoiceId,
       amount: payment.amount,
@@ -117,8 +118,8 @@ export const listPaymentsByInvoice = (userId: string, invoiceId: string): Promis
 /**
  * Calculate the total amount already paid for an invoice.
  */
-export const getTotalPaidForInvoice = (userId: string, invoiceId: string): Promise<Result<number>> => {
-  const action = prisma.payment.aggregate({
+export const getTotalPaidForInvoice = (userId: string, invoiceId: string, db: DbClient = prisma): Promise<Result<number>> => {
+  const action = db.payment.aggregate({
     where: {
       invoiceId,
       invoice: {
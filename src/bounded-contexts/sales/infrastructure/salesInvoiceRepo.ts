@@ -1,8 +1,9 @@
 import { prisma } from '@/common/infrastructure/db'
+import { DbClient } from '@/common/infrastructure/unitOfWork'
 import { Result, Success, Failure } from '@/common/types/result'
 import { InfrastructureFailure } from '@/common/types/errors'
 import { Prisma } from '@/prisma/client'
-import { SalesInvoice, InvoiceStatus } from '../domain/sales'
+import { SalesInvoice, SalesInvoiceLine, InvoiceStatus, InvoiceSettlement } from '../domain/sales'
 import { SalesInfrastructureSubtype } from '../domain/errors'
 import { fromNullable, getOrElse } from '@/common/types/option'
 
@@ -42,6 +43,23 @@ const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
   }
 }
 
+// Lines are loaded with every invoice, in invoice order
+const includeLines = { lines: { orderBy: { lineNumber: 'asc' as const } } }
+
+// Mapper from Prisma model to domain SalesInvoiceLine
+const toDomainSalesInvoiceLine = (prismaLine: any): SalesInvoiceLine => ({
+  id: prismaLine.id,
+  lineNumber: prismaLine.lineNumber,
+  description: prismaLine.description,
+  quantity: Number(prismaLine.quantity),
+  unitPrice: Number(prismaLine.unitPrice),
+  amount: Number(prismaLine.amount),
+  revenueAccountId: prismaLine.revenueAccountId,
+  itemId: prismaLine.itemId ?? undefined,
+  taxRateId: prismaLine.taxRateId ?? undefined,
+  taxAmount: Number(prismaLine.taxAmount),
+})
+
 // Mapper from Prisma model to domain SalesInvoice
 const toDomainSalesInvoice = (prismaInvoice: any): SalesInvoice => ({
   id: prismaInvoice.id,
@@ -54,15 +72,18 @@ const toDomainSalesInvoice = (prismaInvoice: any): SalesInvoice => ({
   dueDate: prismaInvoice.dueDate ?? undefined,
   description: prismaInvoice.description ?? undefined,
   journalEntryId: prismaInvoice.journalEntryId,
+  lines: (prismaInvoice.lines ?? []).map(toDomainSalesInvoiceLine),
+  voidedAt: prismaInvoice.voidedAt ?? undefined,
   createdAt: prismaInvoice.createdAt,
   updatedAt: prismaInvoice.updatedAt,
 })
 
 /**
- * Create a new sales invoice in the database.
+ * Create a new sales invoice in the database, together with its lines.
+ * Every line must have its revenue account resolved.
  */
-export const createSalesInvoice = (invoice: Omit<SalesInvoice, 'id' | 'createdAt' | 'updatedAt'>): Promise<Result<SalesInvoice>> => {
-  const action = prisma.salesInvoice.create({
+export const createSalesInvoice = (invoice: Omit<SalesInvoice, 'id' | 'createdAt' | 'updatedAt'>, db: DbClient = prisma): Promise<Result<SalesInvoice>> => {
+  const action = db.salesInvoice.create({
     data: {
       userId: invoice.userId,
       customerId: invoice.customerId,
@@ -73,7 +94,21 @@ export const createSalesInvoice = (invoice: Omit<SalesInvoice, 'id' | 'createdAt
       dueDate: invoice.dueDate,
       description: invoice.description,
       journalEntryId: invoice.journalEntryId,
+      lines: {
+        create: (invoice.lines ?? []).map(line => ({
+          lineNumber: line.lineNumber,
+          description: line.description,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          amount: line.amount,
+          revenueAccountId: line.revenueAccountId!,
+          itemId: line.itemId,
+          taxRateId: line.taxRateId,
+          taxAmount: line.taxAmount ?? 0,
+        })),
+      },
     },
+    include: includeLines,
   })
   return safeDbCall(action).then(result =>
     result.isSuccess
@@ -88,7 +123,7 @@ export const createSalesInvoice = (invoice: Omit<SalesInvoice, 'id' | 'createdAt
 export const findSalesInvoiceById = (userId: string, invoiceId: string): Promise<Result<SalesInvoice | null>> => {
   const action = prisma.salesInvoice.findFirst({
     where: { id: invoiceId, userId },
-    include: { payments: true },
+    include: { payments: true, ...includeLines },
   })
   return safeDbCall(action).then(result =>
     result.isSuccess
@@ -97,12 +132,31 @@ export const findSalesInvoiceById = (userId: string, invoiceId: string): Promise
   )
 }
 
+/**
+ * Lock a sales invoice row for the rest of the unit of work (SELECT ... FOR UPDATE), then read it.
+ * Must be the first read in the transaction: the lock waits for any other settlement of the invoice
+ * to commit, so the invoice and the totals read after it are current.
+ */
+export const findSalesInvoiceByIdForUpdate = (userId: string, invoiceId: string, db: DbClient): Promise<Result<SalesInvoice | null>> => {
+  const action = db.$queryRaw`SELECT id FROM SalesInvoice WHERE id = ${invoiceId} AND userId = ${userId} FOR UPDATE`
+    .then(() => db.salesInvoice.findFirst({
+      where: { id: invoiceId, userId },
+      include: { payments: true, ...includeLines },
+    }))
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainSalesInvoice(result.value) : null)
+      : result
+  )
+}
+
 /**
  * Find a sales invoice by invoice number and user ID.
  */
 export const findSalesInvoiceByNumber = (userId: string, invoiceNumber: string): Promise<Result<SalesInvoice | null>> => {
   const action = prisma.salesInvoice.findFirst({
     where: { invoiceNumber, userId },
+    include: includeLines,
   })
   return safeDbCall(action).then(result =>
     result.isSuccess
@@ -120,6 +174,7 @@ export const listSalesInvoices = (userId: string, options?: { skip?: number; tak
     orderBy: { date: 'desc' },
     skip: options?.skip,
     take: options?.take,
+    include: includeLines,
   })
   return safeDbCall(action).then(result =>
     result.isSuccess
@@ -131,10 +186,27 @@ export const listSalesInvoices = (userId: string, options?: { skip?: number; tak
 /**
  * Update the status of a sales invoice.
  */
-export const updateSalesInvoiceStatus = (userId: string, invoiceId: string, status: InvoiceStatus): Promise<Result<SalesInvoice>> => {
-  const action = prisma.salesInvoice.update({
+export const updateSalesInvoiceStatus = (userId: string, invoiceId: string, status: InvoiceStatus, db: DbClient = prisma): Promise<Result<SalesInvoice>> => {
+  const action = db.salesInvoice.update({
     where: { id: invoiceId, userId },
     data: { status },
+    include: includeLines,
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainSalesInvoice(result.value))
+      : result
+  )
+}
+
+/**
+ * Mark a sales invoice Void as of the void date.
+ */
+export const voidSalesInvoice = (userId: string, invoiceId: string, voidedAt: Date, db: DbClient = prisma): Promise<Result<SalesInvoice>> => {
+  const action = db.salesInvoice.update({
+    where: { id: invoiceId, userId },
+    data: { status: 'Void', voidedAt },
+    include: includeLines,
   })
   return safeDbCall(action).then(result =>
     result.isSuccess
@@ -143,6 +215,65 @@ export const updateSalesInvoiceStatus = (userId: string, invoiceId: string, stat
   )
 }
 
+const sumAmounts = (rows: { amount: unknown }[]): number =>
+  rows.reduce((sum, row) => sum + Number(row.amount), 0)
+
+/**
+ * Find every user's invoices in one of the given statuses due before the cutoff, with what their payments,
+ * deposit applications and credit notes have settled so far.
+ */
+export const findSalesInvoiceSettlementsDueBefore = (
+  statuses: readonly InvoiceStatus[],
+  dueBefore: Date,
+  db: DbClient = prisma
+): Promise<Result<InvoiceSettlement[]>> => {
+  const action = db.salesInvoice.findMany({
+    where: {
+      status: { in: [...statuses] },
+      dueDate: { lt: dueBefore },
+    },
+    select: {
+      id: true,
+      total: true,
+      payments: { select: { amount: true } },
+      depositApplications: { select: { amount: true } },
+      creditNotes: { select: { amount: true } },
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(invoice => ({
+          invoiceId: invoice.id,
+          total: Number(invoice.total),
+          settledAmount: sumAmounts(invoice.payments) + sumAmounts(invoice.depositApplications) + sumAmounts(invoice.creditNotes),
+        })))
+      : result
+  )
+}
+
+/**
+ * Move the given invoices to Overdue, skipping any no longer in one of the given statuses.
+ * Returns the number of invoices moved.
+ */
+export const markSalesInvoicesOverdue = (
+  invoiceIds: readonly string[],
+  statuses: readonly InvoiceStatus[],
+  db: DbClient = prisma
+): Promise<Result<number>> => {
+  const action = db.salesInvoice.updateMany({
+    where: {
+      id: { in: [...invoiceIds] },
+      status: { in: [...statuses] },
+    },
+    data: { status: 'Overdue' },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.count)
+      : result
+  )
+}
+
 /**
  * Update the journal entry reference of a sales invoice.
  */
@@ -150,6 +281,7 @@ export const updateSalesInvoiceJournalEntryId = (userId: string, invoiceId: stri
   const action = prisma.salesInvoice.update({
     where: { id: invoiceId, userId },
     data: { journalEntryId },
+    include: includeLines,
   })
   return safeDbCall(action).then(result =>
     result.isSuccess
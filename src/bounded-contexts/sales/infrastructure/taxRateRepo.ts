@@ -0,0 +1,116 @@
+import { prisma } from '@/common/infrastructure/db'
+import { Result, Success, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { Prisma } from '@/prisma/client'
+import { TaxRate } from '../domain/sales'
+import { SalesInfrastructureSubtype } from '../domain/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+const safeDbCall = async <T>(promise: Promise<T>): Promise<Result<T>> => {
+  try {
+    const data = await promise
+    return Success(data)
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError) {
+      if (e.code === 'P2002') {
+        // Duplicate key (unique constraint on tax rate name per user)
+        return Failure(
+          InfrastructureFailure(
+            'DuplicateKey' as SalesInfrastructureSubtype,
+            'Tax rate name already exists for this user.'
+          )
+        )
+      }
+      // other known errors
+      return Failure(
+        InfrastructureFailure(
+          'TaxRateRepositoryError' as SalesInfrastructureSubtype,
+          `Database error: ${e.message}`,
+          e
+        )
+      )
+    }
+    // unknown error
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(
+      InfrastructureFailure(
+        'TaxRateRepositoryError' as SalesInfrastructureSubtype,
+        errorMessage,
+        e
+      )
+    )
+  }
+}
+
+// Mapper from Prisma model to domain TaxRate
+const toDomainTaxRate = (prismaTaxRate: any): TaxRate => ({
+  id: prismaTaxRate.id,
+  userId: prismaTaxRate.userId,
+  name: prismaTaxRate.name,
+  rate: Number(prismaTaxRate.rate),
+  accountId: prismaTaxRate.accountId,
+  createdAt: prismaTaxRate.createdAt,
+  updatedAt: prismaTaxRate.updatedAt,
+})
+
+/**
+ * Create a new tax rate in the database.
+ */
+export const createTaxRate = (taxRate: Omit<TaxRate, 'id' | 'createdAt' | 'updatedAt'>): Promise<Result<TaxRate>> => {
+  const action = prisma.taxRate.create({
+    data: {
+      userId: taxRate.userId,
+      name: taxRate.name,
+      rate: taxRate.rate,
+      accountId: taxRate.accountId,
+    },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(toDomainTaxRate(result.value))
+      : result
+  )
+}
+
+/**
+ * Find a tax rate by ID and user ID (ensures isolation).
+ */
+export const findTaxRateById = (userId: string, taxRateId: string): Promise<Result<TaxRate | null>> => {
+  const action = prisma.taxRate.findFirst({
+    where: { id: taxRateId, userId },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainTaxRate(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * Find a tax rate by its name for a user.
+ */
+export const findTaxRateByName = (userId: string, name: string): Promise<Result<TaxRate | null>> => {
+  const action = prisma.taxRate.findUnique({
+    where: { userId_name: { userId, name } },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value ? toDomainTaxRate(result.value) : null)
+      : result
+  )
+}
+
+/**
+ * List all tax rates for a user, by name.
+ */
+export const listTaxRates = (userId: string): Promise<Result<TaxRate[]>> => {
+  const action = prisma.taxRate.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+  })
+  return safeDbCall(action).then(result =>
+    result.isSuccess
+      ? Success(result.value.map(toDomainTaxRate))
+      : result
+  )
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { createInterface } from 'node:readline/promises'
+import { resetPasswordWorkflow } from '@/bounded-contexts/identity/application/resetPasswordWorkflow'
+import { prisma } from '@/common/infrastructure/db'
+
+/**
+ * Set a user's password from the command line: `pnpm user:reset-password <username>`.
+ * The new password is read from standard input so it stays out of the shell history.
+ * Needed once for every user created before passwords were introduced.
+ */
+const main = async (): Promise<number> => {
+  const username = process.argv[2]
+  if (!username) {
+    console.error('Usage: pnpm user:reset-password <username>')
+    return 1
+  }
+
+  const input = createInterface({ input: process.stdin, output: process.stdout })
+  const newPassword = await input.question(`New password for ${username}: `)
+  input.close()
+
+  const result = await resetPasswordWorkflow({ username, newPassword })
+  if (!result.isSuccess) {
+    console.error(`${result.error.subtype}: ${result.error.message}`)
+    return 1
+  }
+
+  console.log(`Password set for ${result.value.username}.`)
+  return 0
+}
+
+main()
+  .then((code) => { process.exitCode = code })
+  .finally(() => prisma.$disconnect())
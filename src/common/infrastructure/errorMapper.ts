@@ -10,7 +10,22 @@ export const mapErrorToResponse = (error: AppError): { status: number; body: any
       // Business rule violations, validation errors, etc.
       // Some domain failures represent missing resources and should be 404
       // Duplicate errors should be 409 Conflict
+      // Failed or expired authentication should be 401 Unauthorized
+      // An authenticated user acting outside their role, or a deactivated user posting, should be 403 Forbidden
       switch (error.subtype) {
+        case 'InvalidCredentials':
+        case 'SessionNotFound':
+        case 'SessionExpired':
+          return {
+            status: 401, // Unauthorized
+            body: { error }
+          }
+        case 'PermissionDenied':
+        case 'UserDeactivated':
+          return {
+            status: 403, // Forbidden
+            body: { error }
+          }
         case 'AccountNotFound':
         case 'CustomerNotFound':
         case 'InvoiceNotFound':
@@ -23,6 +38,13 @@ export const mapErrorToResponse = (error: AppError): { status: number; body: any
         case 'MissingCapitalAccount':
         case 'MissingDrawingAccount':
         case 'CashAccountNotFound':
+        case 'CollaboratorNotFound':
+        case 'CashSaleNotFound':
+        case 'DepositNotFound':
+        case 'PostingMappingNotFound':
+        case 'ExpenseCategoryNotFound':
+        case 'ItemNotFound':
+        case 'TaxRateNotFound':
           return {
             status: 404, // Not Found
             body: { error }
@@ -30,6 +52,10 @@ export const mapErrorToResponse = (error: AppError): { status: number; body: any
         case 'DuplicateInvoiceNumber':
         case 'DuplicateAccountCode':
         case 'DuplicateBillNumber':
+        case 'DuplicateExpenseCategory':
+        case 'DuplicateItemSku':
+        case 'DuplicateTaxRate':
+        case 'DuplicateCreditNoteNumber':
           return {
             status: 409, // Conflict
             body: { error }
@@ -43,6 +69,13 @@ export const mapErrorToResponse = (error: AppError): { status: number; body: any
 
     case 'ApplicationFailure':
       // Invalid API usage, missing payload, etc.
+      // A request without a session cookie is 401 Unauthorized
+      if (error.subtype === 'Unauthenticated') {
+        return {
+          status: 401, // Unauthorized
+          body: { error }
+        }
+      }
       return {
         status: 400, // Bad Request (or 422 Unprocessable Entity)
         body: { error }
@@ -52,6 +85,7 @@ export const mapErrorToResponse = (error: AppError): { status: number; body: any
       // Database errors, network failures, etc.
       switch (error.subtype) {
         case 'DuplicateKey':
+        case 'DuplicateCollaborator':
           return {
             status: 409, // Conflict
             body: { error }
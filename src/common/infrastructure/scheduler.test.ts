@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { scheduleJob } from './scheduler'
+import { Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+
+describe('Common: Scheduler (Infrastructure)', () => {
+  const fixedNow = new Date('2025-03-01T08:00:00Z')
+  const clock = () => fixedNow
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('runs the job on every interval with the clock\'s time', async () => {
+    const job = vi.fn(async (now: Date) => Success(now))
+    const scheduled = scheduleJob('test-job', 1000, job, clock)
+
+    await vi.advanceTimersByTimeAsync(3000)
+    scheduled.stop()
+    await vi.advanceTimersByTimeAsync(3000)
+
+    expect(job).toHaveBeenCalledTimes(3)
+    expect(job).toHaveBeenCalledWith(fixedNow)
+  })
+
+  it('does not start a run while the previous one is in progress', async () => {
+    let finish: () => void = () => {}
+    const job = vi.fn(() => new Promise<ReturnType<typeof Success>>((resolve) => {
+      finish = () => resolve(Success(null))
+    }))
+    const scheduled = scheduleJob('slow-job', 1000, job, clock)
+
+    const first = scheduled.runNow()
+    const second = scheduled.runNow()
+    finish()
+
+    expect(await first).toEqual(await second)
+    expect(job).toHaveBeenCalledTimes(1)
+    scheduled.stop()
+  })
+
+  it('logs a failed or throwing run and keeps the schedule going', async () => {
+    const errorLog = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const job = vi.fn()
+      .mockResolvedValueOnce(Failure(DomainFailure('Broken', 'first run failed')))
+      .mockRejectedValueOnce(new Error('second run threw'))
+      .mockResolvedValue(Success(0))
+    const scheduled = scheduleJob('flaky-job', 1000, job, clock)
+
+    await vi.advanceTimersByTimeAsync(3000)
+    scheduled.stop()
+
+    expect(job).toHaveBeenCalledTimes(3)
+    expect(errorLog).toHaveBeenCalledWith('Scheduled job flaky-job failed: first run failed')
+    expect(errorLog).toHaveBeenCalledWith('Scheduled job flaky-job failed: second run threw')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { Result, Failure } from '@/common/types/result'
+import { InfrastructureFailure } from '@/common/types/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+/**
+ * The source of the current time. Scheduled jobs read the time from a clock
+ * instead of `new Date()`, so tests can run them at a fixed moment.
+ */
+export type Clock = () => Date
+
+export const systemClock: Clock = () => new Date()
+
+/**
+ * A job running in‑process on a fixed interval.
+ * `runNow` runs it immediately (or returns the run already in progress); `stop` cancels the schedule.
+ */
+export type ScheduledJob = {
+  readonly runNow: () => Promise<Result<unknown>>
+  readonly stop: () => void
+}
+
+/**
+ * Run a job every `intervalMs`, passing it the clock's current time.
+ * Runs never overlap, a failed run is logged and the schedule carries on,
+ * and the timer does not keep the process alive.
+ */
+export const scheduleJob = (
+  name: string,
+  intervalMs: number,
+  job: (now: Date) => Promise<Result<unknown>>,
+  clock: Clock = systemClock
+): ScheduledJob => {
+  let running: Promise<Result<unknown>> | null = null
+
+  const runNow = (): Promise<Result<unknown>> => {
+    if (running !== null) return running
+    running = job(clock())
+      .catch((e: any) => {
+        const errorMessage = getOrElse('Unknown error')(fromNullable(e?.message))
+        return Failure(InfrastructureFailure('ScheduledJobFailed', errorMessage, e))
+      })
+      .then((result) => {
+        if (!result.isSuccess) console.error(`Scheduled job ${name} failed: ${result.error.message}`)
+        return result
+      })
+      .finally(() => {
+        running = null
+      })
+    return running
+  }
+
+  const timer = setInterval(() => {
+    void runNow()
+  }, intervalMs)
+  timer.unref()
+
+  return { runNow, stop: () => clearInterval(timer) }
+}
\ No newline at end of file
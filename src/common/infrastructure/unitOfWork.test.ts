@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterAll, beforeAll } from 'vitest'
+import { runInUnitOfWork } from './unitOfWork'
+import { prisma } from './db'
+import { Success, Failure } from '@/common/types/result'
+import { DomainFailure } from '@/common/types/errors'
+import { createJournalEntry } from '@/bounded-contexts/ledger/infrastructure/journalEntryRepo'
+import { createSalesInvoice } from '@/bounded-contexts/sales/infrastructure/salesInvoiceRepo'
+import { updateCustomerBalance } from '@/bounded-contexts/sales/infrastructure/customerRepo'
+import type { JournalLineSide } from '@/bounded-contexts/ledger/domain/ledger'
+
+describe('Common: Unit of Work (Infrastructure)', () => {
+  beforeAll(async () => {
+    await prisma.$connect()
+  })
+
+  // Clean up before each test
+  beforeEach(async () => {
+    // Delete in correct order, respecting foreign keys
+    await prisma.payment.deleteMany()
+    await prisma.salesInvoice.deleteMany()
+    await prisma.cashSale.deleteMany()
+    await prisma.customerDeposit.deleteMany()
+    await prisma.loanPayment.deleteMany()
+    await prisma.vendorBill.deleteMany()
+    await prisma.cashExpense.deleteMany()
+    await prisma.loan.deleteMany()
+    await prisma.vendor.deleteMany()
+    await prisma.customer.deleteMany()
+    await prisma.journalLine.deleteMany()
+    await prisma.journalEntry.deleteMany()
+    await prisma.period.deleteMany()
+    await prisma.account.deleteMany()
+    await prisma.session.deleteMany()
+    await prisma.collaborator.deleteMany()
+    await prisma.user.deleteMany()
+  })
+
+  afterAll(async () => {
+    await prisma.$disconnect()
+  })
+
+  const setUpBooks = async () => {
+    const user = await prisma.user.create({ data: { username: 'test_user_uow' } })
+    const receivable = await prisma.account.create({
+      data: { userId: user.id, code: '111', name: 'Accounts Receivable', type: 'Asset', normalBalance: 'Debit' },
+    })
+    const revenue = await prisma.account.create({
+      data: { userId: user.id, code: '401', name: 'Service Revenue', type: 'Revenue', normalBalance: 'Credit' },
+    })
+    const customer = await prisma.customer.create({
+      data: { userId: user.id, name: 'Test Customer', balance: 0 },
+    })
+    return { user, receivable, revenue, customer }
+  }
+
+  const entryFor = (userId: string, debitAccountId: string, creditAccountId: string) => ({
+    userId,
+    entryNumber: 'INV-UOW-001',
+    description: 'Unit of work test entry',
+    date: new Date('2025-01-15'),
+    lines: [
+      { accountId: debitAccountId, amount: 500, side: 'Debit' as JournalLineSide },
+      { accountId: creditAccountId, amount: 500, side: 'Credit' as JournalLineSide },
+    ],
+  })
+
+  it('should commit every write when the work succeeds', async () => {
+    const { user, receivable, revenue, customer } = await setUpBooks()
+
+    const result = await runInUnitOfWork(async (db) => {
+      const entry = await createJournalEntry(entryFor(user.id, receivable.id, revenue.id), db)
+      if (!entry.isSuccess) return entry
+      const balance = await updateCustomerBalance(user.id, customer.id, 500, db)
+      if (!balance.isSuccess) return balance
+      return Success(entry.value)
+    })
+
+    expect(result.isSuccess).toBe(true)
+    expect(await prisma.journalEntry.count({ where: { userId: user.id } })).toBe(1)
+    expect(await prisma.journalLine.count()).toBe(2)
+    const updatedCustomer = await prisma.customer.findUnique({ where: { id: customer.id } })
+    expect(Number(updatedCustomer?.balance)).toBe(500)
+  })
+
+  it('should roll back earlier writes when the work returns a Failure', async () => {
+    const { user, receivable, revenue, customer } = await setUpBooks()
+
+    const result = await runInUnitOfWork(async (db) => {
+      const entry = await createJournalEntry(entryFor(user.id, receivable.id, revenue.id), db)
+      if (!entry.isSuccess) return entry
+      const balance = await updateCustomerBalance(user.id, customer.id, 500, db)
+      if (!balance.isSuccess) return balance
+      return Failure(DomainFailure('SomethingWentWrong', 'A later step failed.'))
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.type).toBe('DomainFailure')
+      expect(result.error.subtype).toBe('SomethingWentWrong')
+    }
+    expect(await prisma.journalEntry.count({ where: { userId: user.id } })).toBe(0)
+    expect(await prisma.journalLine.count()).toBe(0)
+    const unchangedCustomer = await prisma.customer.findUnique({ where: { id: customer.id } })
+    expect(Number(unchangedCustomer?.balance)).toBe(0)
+  })
+
+  it('should roll back the journal entry when a repository write fails', async () => {
+    const { user, receivable, revenue } = await setUpBooks()
+
+    const result = await runInUnitOfWork(async (db) => {
+      const entry = await createJournalEntry(entryFor(user.id, receivable.id, revenue.id), db)
+      if (!entry.isSuccess) return entry
+      // The customer does not exist, so the invoice insert fails its foreign key
+      return createSalesInvoice({
+        userId: user.id,
+        customerId: 'non-existent-customer',
+        invoiceNumber: 'INV-UOW-001',
+        total: 500,
+        status: 'Issued',
+        date: new Date('2025-01-15'),
+        journalEntryId: entry.value.id!,
+      }, db)
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.type).toBe('InfrastructureFailure')
+    }
+    expect(await prisma.journalEntry.count({ where: { userId: user.id } })).toBe(0)
+    expect(await prisma.salesInvoice.count()).toBe(0)
+  })
+
+  it('should roll back and return an InfrastructureFailure when the work throws', async () => {
+    const { user, receivable, revenue } = await setUpBooks()
+
+    const result = await runInUnitOfWork(async (db) => {
+      await createJournalEntry(entryFor(user.id, receivable.id, revenue.id), db)
+      throw new Error('Connection lost')
+    })
+
+    expect(result.isSuccess).toBe(false)
+    if (!result.isSuccess) {
+      expect(result.error.type).toBe('InfrastructureFailure')
+      expect(result.error.subtype).toBe('UnitOfWorkFailed')
+      expect(result.error.message).toContain('Connection lost')
+    }
+    expect(await prisma.journalEntry.count({ where: { userId: user.id } })).toBe(0)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { prisma } from './db'
+import { Prisma } from '@/prisma/client'
+import { Result, Failure } from '@/common/types/result'
+import { AppError, InfrastructureFailure } from '@/common/types/errors'
+import { fromNullable, getOrElse } from '@/common/types/option'
+
+/**
+ * The client a repository writes through: the shared `prisma` client by default,
+ * or the transaction client handed out by `runInUnitOfWork`.
+ */
+export type DbClient = Prisma.TransactionClient
+
+// Thrown inside the transaction callback so Prisma rolls back; never escapes this module.
+class UnitOfWorkRollback {
+  constructor(readonly error: AppError) {}
+}
+
+/**
+ * Run a block of repository writes as one unit of work (a single database transaction).
+ * Repositories called with the given client take part in the transaction.
+ * If the block returns a Failure (or throws), every write in it is rolled back
+ * and the failure is returned; otherwise the transaction commits and the Success is returned.
+ */
+export const runInUnitOfWork = async <T>(work: (db: DbClient) => Promise<Result<T>>): Promise<Result<T>> => {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const result = await work(tx)
+      if (!result.isSuccess) throw new UnitOfWorkRollback(result.error)
+      return result
+    })
+  } catch (e: any) {
+    if (e instanceof UnitOfWorkRollback) return Failure(e.error)
+    const errorMessage = getOrElse('Unknown database error')(fromNullable(e?.message))
+    return Failure(InfrastructureFailure('UnitOfWorkFailed', `Transaction failed: ${errorMessage}`, e))
+  }
+}
\ No newline at end of file
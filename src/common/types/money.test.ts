@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest'
+import { toCents } from './money'
+
+describe('toCents', () => {
+  it('should remove floating point drift from sums and differences', () => {
+    expect(toCents(100.3 - 50.1)).toBe(50.2)
+    expect(toCents(0.1 + 0.2)).toBe(0.3)
+  })
+
+  it('should round to the nearest cent', () => {
+    expect(toCents(10.005 * 3)).toBe(30.02)
+    expect(toCents(2.344)).toBe(2.34)
+    expect(toCents(-1.006)).toBe(-1.01)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,8 @@
+// -------- MONEY --------
+
+/**
+ * Round an amount to whole cents.
+ * Sums and differences of decimal amounts drift (100.3 - 50.1 is 50.199999999999996),
+ * so amounts are rounded before they are compared or stored.
+ */
+export const toCents = (amount: number): number => Math.round(amount * 100) / 100
\ No newline at end of file